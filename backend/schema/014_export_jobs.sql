@@ -0,0 +1,52 @@
+-- Durable export queue: one row per (export batch, target). A background worker
+-- claims QUEUED rows with FOR UPDATE SKIP LOCKED, runs the Raynet/ERP export
+-- pipeline and retries transient failures with exponential backoff.
+--
+-- Per-attempt audit trail stays in raynet_export_logs / erp_export_logs (linked
+-- through export_batch_id); this table only tracks the job lifecycle.
+--
+-- Apply with:  psql "$DATABASE_URL" -f backend/schema/014_export_jobs.sql
+
+CREATE TABLE IF NOT EXISTS "public"."export_jobs" (
+    "id" serial PRIMARY KEY,
+    "export_batch_id" uuid NOT NULL,
+    "target" varchar NOT NULL CHECK (target IN ('RAYNET', 'ERP')),
+    "form_id" int4 NOT NULL REFERENCES "public"."forms"("id"),
+    "user_id" varchar NOT NULL,
+    "raynet_user_name" varchar,
+    "test_mode" boolean NOT NULL DEFAULT false,
+    "status" varchar NOT NULL CHECK (status IN ('QUEUED', 'RUNNING', 'SUCCESS', 'FAILED')),
+    "attempts" int4 NOT NULL DEFAULT 0,
+    "max_attempts" int4 NOT NULL DEFAULT 5,
+    "run_after" timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "locked_at" timestamptz,
+    "locked_by" varchar,
+    "last_log_id" int4,
+    "last_error_message" text,
+    "last_error_code" varchar,
+    "result" jsonb,
+    "created_at" timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completed_at" timestamptz
+);
+
+COMMENT ON TABLE "public"."export_jobs" IS 'Queued ADMF → Raynet/ERP exports processed by the backend worker with automatic retries';
+COMMENT ON COLUMN "public"."export_jobs"."raynet_user_name" IS 'Snapshot of the requesting user''s Raynet display name (JWT raynet_name) — the worker has no request context.';
+COMMENT ON COLUMN "public"."export_jobs"."run_after" IS 'Earliest time the job may be claimed; pushed forward by backoff after a transient failure.';
+COMMENT ON COLUMN "public"."export_jobs"."last_log_id" IS 'Latest raynet_export_logs.id / erp_export_logs.id written by this job (depends on target).';
+
+-- Claim query: oldest runnable QUEUED job first.
+CREATE INDEX IF NOT EXISTS idx_export_jobs_queued_run_after
+  ON "public"."export_jobs" ("run_after", "id")
+  WHERE status = 'QUEUED';
+
+-- Stale-lock sweep: RUNNING jobs whose worker died.
+CREATE INDEX IF NOT EXISTS idx_export_jobs_running_locked_at
+  ON "public"."export_jobs" ("locked_at")
+  WHERE status = 'RUNNING';
+
+CREATE INDEX IF NOT EXISTS idx_export_jobs_batch_id
+  ON "public"."export_jobs" ("export_batch_id");
+
+CREATE INDEX IF NOT EXISTS idx_export_jobs_form_id
+  ON "public"."export_jobs" ("form_id");
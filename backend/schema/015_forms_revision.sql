@@ -0,0 +1,16 @@
+-- Optimistic concurrency for form saves.
+-- Every successful PUT /api/forms/:id bumps `revision`; a save that carries a
+-- stale `base_revision` is rejected with 409 + the current server copy, so two
+-- devices editing the same form can no longer silently overwrite each other.
+--
+-- An integer counter (not updated_at) on purpose: `timestamp` keeps microseconds
+-- while JS Dates round-trip only milliseconds, so timestamps cannot be compared
+-- reliably after a JSON round-trip.
+--
+-- Apply with:  psql "$DATABASE_URL" -f backend/schema/015_forms_revision.sql
+
+ALTER TABLE "public"."forms"
+  ADD COLUMN IF NOT EXISTS "revision" int4 NOT NULL DEFAULT 1;
+
+COMMENT ON COLUMN "public"."forms"."revision"
+  IS 'Incremented on every form_json update; clients send it back as base_revision.';
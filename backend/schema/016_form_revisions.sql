@@ -0,0 +1,30 @@
+-- Full revision history for forms.
+-- Every createForm / updateForm (and restore) writes the complete form_json as a
+-- new row in the same statement as the forms write, keyed by (form_id, revision)
+-- — `revision` is the counter added in 015_forms_revision.sql.
+--
+-- Existing forms get a BASELINE row with their current content so the history
+-- starts from the state at migration time.
+--
+-- Apply with:  psql "$DATABASE_URL" -f backend/schema/016_form_revisions.sql
+
+CREATE TABLE IF NOT EXISTS "public"."form_revisions" (
+    "id" serial PRIMARY KEY,
+    "form_id" int4 NOT NULL REFERENCES "public"."forms"("id"),
+    "revision" int4 NOT NULL,
+    "form_json" jsonb NOT NULL,
+    "user_id" varchar NOT NULL,
+    "source" varchar NOT NULL CHECK (source IN ('BASELINE', 'CREATE', 'UPDATE', 'RESTORE')),
+    "restored_from_revision" int4,
+    "created_at" timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT form_revisions_form_revision_key UNIQUE ("form_id", "revision")
+);
+
+COMMENT ON TABLE "public"."form_revisions" IS 'Snapshot of form_json after every save; source of the history / diff / restore API';
+COMMENT ON COLUMN "public"."form_revisions"."user_id" IS 'User (email) who made the save';
+COMMENT ON COLUMN "public"."form_revisions"."restored_from_revision" IS 'For RESTORE rows: the revision whose content was restored';
+
+INSERT INTO "public"."form_revisions" ("form_id", "revision", "form_json", "user_id", "source", "created_at")
+SELECT "id", "revision", "form_json", "user_id", 'BASELINE', "updated_at"
+FROM "public"."forms"
+ON CONFLICT ("form_id", "revision") DO NOTHING;
@@ -0,0 +1,18 @@
+-- Per-product dimension rounding / interpolation policy for price resolution.
+-- Runs against the PRICING database (product_pricing lives there, not in the main DB).
+--
+-- Shape (validated by @ovt/pricing-engine `dimensionRoundingPolicyError`):
+--   {"mode": "ceil_step", "step_mm": 50}      ceil to step, exact cell or nearest grid step
+--   {"mode": "next_grid_up"}                  smallest grid step >= dimension
+--   {"mode": "nearest"}                       nearest grid step (tie: higher)
+--   {"mode": "interpolate"}                   bilinear between grid cells, whole Kč
+--   {"mode": "per_m2", "min_area_m2": 0.5}    area x pricing_variant.dimension_pricing.price_per_m2
+-- NULL keeps the previous behaviour (ceil to 100 mm, nearest grid step), so existing
+-- products price exactly as before.
+--
+-- Apply with:  psql "$PRICING_DATABASE_URL" -f backend/schema/017_product_pricing_rounding_policy.sql
+
+ALTER TABLE "public"."product_pricing"
+  ADD COLUMN IF NOT EXISTS "rounding_policy" jsonb;
+
+COMMENT ON COLUMN "public"."product_pricing"."rounding_policy" IS 'Dimension rounding policy for pricing_variant grid lookup; NULL = ceil to 100 mm + nearest grid step';
@@ -0,0 +1,76 @@
+-- Signed-contract flow: inSign e-signature sessions started from an ADMF.
+--
+-- One signing_sessions row per inSign session. The ADMF PDF sent for signing is
+-- generated from the form revision recorded in form_revision; ERP export requires a
+-- COMPLETED session for the current revision (or an override on the order).
+-- The signed PDF and the audit trail are stored as form attachments (S3/MinIO);
+-- this table only keeps their object keys.
+--
+-- Apply with:  psql "$DATABASE_URL" -f backend/schema/018_contract_signing.sql
+
+CREATE TABLE IF NOT EXISTS "public"."signing_sessions" (
+    "id" serial PRIMARY KEY,
+    "form_id" int4 NOT NULL REFERENCES "public"."forms"("id"),
+    "order_id" int4 REFERENCES "public"."orders"("id"),
+    "user_id" varchar NOT NULL,
+    "form_revision" int4 NOT NULL,
+    "insign_session_id" varchar NOT NULL UNIQUE,
+    "delivery_mode" varchar NOT NULL CHECK (delivery_mode IN ('INAPP', 'EXTERN')),
+    "status" varchar NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'COMPLETED', 'REJECTED')),
+    "process_step" varchar,
+    "access_url" text,
+    "extern_links" jsonb,
+    "customer_email" varchar,
+    "customer_phone" varchar,
+    "gdpr_declined" boolean NOT NULL DEFAULT false,
+    "last_status" jsonb,
+    "signed_document_key" varchar,
+    "audit_key" varchar,
+    "last_error_message" text,
+    "created_at" timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completed_at" timestamptz,
+    "rejected_at" timestamptz
+);
+
+COMMENT ON TABLE "public"."signing_sessions" IS 'inSign signing sessions for ADMF contracts';
+COMMENT ON COLUMN "public"."signing_sessions"."form_revision" IS 'forms.revision the signed PDF was generated from; a later edit invalidates the signature for ERP export.';
+COMMENT ON COLUMN "public"."signing_sessions"."access_url" IS 'inSign URL for signing in-app on the tablet (both signatures).';
+COMMENT ON COLUMN "public"."signing_sessions"."extern_links" IS 'Raw /extern/beginmulti result: per-recipient links sent by e-mail/SMS.';
+COMMENT ON COLUMN "public"."signing_sessions"."signed_document_key" IS 'Form attachment key of the signed PDF; NULL on a COMPLETED row means the download is still to be retried.';
+
+CREATE INDEX IF NOT EXISTS idx_signing_sessions_form_id
+  ON "public"."signing_sessions" ("form_id", "created_at" DESC);
+
+CREATE INDEX IF NOT EXISTS idx_signing_sessions_pending
+  ON "public"."signing_sessions" ("updated_at")
+  WHERE status = 'PENDING';
+
+-- Raw inSign server-side callbacks, for debugging. The payload is never trusted:
+-- each callback only triggers a status pull from the inSign API.
+CREATE TABLE IF NOT EXISTS "public"."signing_webhook_events" (
+    "id" serial PRIMARY KEY,
+    "signing_session_id" int4 REFERENCES "public"."signing_sessions"("id"),
+    "insign_session_id" varchar,
+    "event_id" varchar,
+    "http_method" varchar NOT NULL,
+    "query_params" jsonb,
+    "body" jsonb,
+    "received_at" timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_signing_webhook_events_session
+  ON "public"."signing_webhook_events" ("signing_session_id");
+
+-- Contract state on the order (latest session of any of its ADMFs) and the
+-- explicit "export to ERP without a signed contract" override.
+ALTER TABLE "public"."orders"
+    ADD COLUMN IF NOT EXISTS "contract_status" varchar NOT NULL DEFAULT 'UNSIGNED'
+        CHECK (contract_status IN ('UNSIGNED', 'PENDING', 'SIGNED', 'REJECTED')),
+    ADD COLUMN IF NOT EXISTS "contract_signed_at" timestamptz,
+    ADD COLUMN IF NOT EXISTS "erp_export_override_reason" text,
+    ADD COLUMN IF NOT EXISTS "erp_export_override_by" varchar,
+    ADD COLUMN IF NOT EXISTS "erp_export_override_at" timestamptz;
+
+COMMENT ON COLUMN "public"."orders"."contract_status" IS 'Signing state of the latest inSign session for this order''s ADMF';
+COMMENT ON COLUMN "public"."orders"."erp_export_override_reason" IS 'Why ERP export was allowed without a signed contract; NULL = no override';
@@ -0,0 +1,40 @@
+-- Stuck-export reconciliation. A log row can stay PENDING/SENDING forever when the
+-- backend dies between the SENDING write and the final write. The reconciler
+-- (export-reconciler.service) re-reads the Raynet event / ERP order and closes such
+-- rows as SUCCESS or FAILED, or as UNKNOWN when the outcome can't be determined.
+--
+-- Apply with:  psql "$DATABASE_URL" -f backend/schema/019_export_log_reconciliation.sql
+
+-- 1) UNKNOWN status on all three log tables.
+ALTER TABLE "public"."raynet_export_logs"
+  DROP CONSTRAINT IF EXISTS raynet_export_logs_status_check;
+ALTER TABLE "public"."raynet_export_logs"
+  ADD CONSTRAINT raynet_export_logs_status_check
+  CHECK (status IN ('PENDING', 'MAPPING', 'SENDING', 'SUCCESS', 'PARTIAL_SUCCESS', 'FAILED', 'UNKNOWN'));
+
+ALTER TABLE "public"."erp_export_logs"
+  DROP CONSTRAINT IF EXISTS erp_export_logs_status_check;
+ALTER TABLE "public"."erp_export_logs"
+  ADD CONSTRAINT erp_export_logs_status_check
+  CHECK (status IN ('PENDING', 'MAPPING', 'SENDING', 'SUCCESS', 'FAILED', 'UNKNOWN'));
+
+ALTER TABLE "public"."retention_logs"
+  DROP CONSTRAINT IF EXISTS retention_logs_status_check;
+ALTER TABLE "public"."retention_logs"
+  ADD CONSTRAINT retention_logs_status_check
+  CHECK (status IN ('PENDING', 'SENDING', 'SUCCESS', 'PARTIAL_SUCCESS', 'FAILED', 'UNKNOWN'));
+
+-- 2) Marker for rows closed by the reconciler instead of the export pipeline.
+ALTER TABLE "public"."raynet_export_logs" ADD COLUMN IF NOT EXISTS "reconciled_at" timestamptz;
+ALTER TABLE "public"."erp_export_logs" ADD COLUMN IF NOT EXISTS "reconciled_at" timestamptz;
+ALTER TABLE "public"."retention_logs" ADD COLUMN IF NOT EXISTS "reconciled_at" timestamptz;
+
+COMMENT ON COLUMN "public"."raynet_export_logs"."reconciled_at"
+  IS 'Set when the stuck-export reconciler closed the row; the explanation is in error_message / warnings.';
+COMMENT ON COLUMN "public"."erp_export_logs"."reconciled_at"
+  IS 'Set when the stuck-export reconciler closed the row; the explanation is in error_message / warnings.';
+COMMENT ON COLUMN "public"."retention_logs"."reconciled_at"
+  IS 'Set when the stuck-export reconciler closed the row; the explanation is in error_message / warnings.';
+
+-- 3) Sweep query: in-flight rows by age. The (status, created_at) indexes from
+--    004/006/009 already cover it.
@@ -0,0 +1,42 @@
+-- Pluggable export targets (export-target.service). Raynet and ERP keep writing to
+-- raynet_export_logs / erp_export_logs; targets added later log into the generic
+-- export_logs table below, keyed by target. export_batch_id still spans all targets
+-- of one export.
+--
+-- Apply with:  psql "$DATABASE_URL" -f backend/schema/020_export_targets.sql
+
+-- 1) export_jobs.target is validated against the target registry in code, so a new
+--    target doesn't need a schema change here.
+ALTER TABLE "public"."export_jobs"
+  DROP CONSTRAINT IF EXISTS export_jobs_target_check;
+
+-- 2) Generic per-attempt log, same columns as the per-target tables.
+CREATE TABLE IF NOT EXISTS "public"."export_logs" (
+    "id" serial PRIMARY KEY,
+    "target" varchar NOT NULL,
+    "form_id" int4 NOT NULL REFERENCES "public"."forms"("id"),
+    "order_id" int4 NOT NULL REFERENCES "public"."orders"("id"),
+    "external_id" int8 NOT NULL,
+    "user_id" varchar NOT NULL,
+    "export_batch_id" uuid,
+    "status" varchar NOT NULL CHECK (status IN ('PENDING', 'MAPPING', 'SENDING', 'SUCCESS', 'PARTIAL_SUCCESS', 'FAILED', 'UNKNOWN')),
+    "test_mode" boolean NOT NULL DEFAULT false,
+    "request_payload" jsonb,
+    "response_status" int4,
+    "response_body" jsonb,
+    "error_message" text,
+    "error_code" varchar,
+    "warnings" jsonb,
+    "duration_ms" int4,
+    "created_at" timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completed_at" timestamptz,
+    "reconciled_at" timestamptz
+);
+
+COMMENT ON TABLE "public"."export_logs" IS 'Per-attempt export log for targets without a table of their own (Raynet / ERP use raynet_export_logs / erp_export_logs)';
+COMMENT ON COLUMN "public"."export_logs"."external_id" IS 'Id of the record written on the remote side; meaning depends on target.';
+
+CREATE INDEX IF NOT EXISTS idx_export_logs_target_form_id ON "public"."export_logs" ("target", "form_id");
+CREATE INDEX IF NOT EXISTS idx_export_logs_batch_id ON "public"."export_logs" ("export_batch_id");
+CREATE INDEX IF NOT EXISTS idx_export_logs_status_created ON "public"."export_logs" ("status", "created_at");
+CREATE INDEX IF NOT EXISTS idx_export_logs_user_created ON "public"."export_logs" ("user_id", "created_at");
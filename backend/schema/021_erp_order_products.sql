@@ -0,0 +1,33 @@
+-- ERP product line sync. The ERP export now creates / replaces line items on the ERP
+-- order (POST / PUT / DELETE /orders/{id}/products) instead of logging the payload only.
+-- erp_order_products remembers which ERP product id belongs to which ADMF row so a
+-- re-export replaces lines instead of duplicating them.
+--
+-- Apply with:  psql "$DATABASE_URL" -f backend/schema/021_erp_order_products.sql
+
+-- 1) Per-line failures end the export as PARTIAL_SUCCESS (order update still applied).
+ALTER TABLE "public"."erp_export_logs"
+  DROP CONSTRAINT IF EXISTS erp_export_logs_status_check;
+ALTER TABLE "public"."erp_export_logs"
+  ADD CONSTRAINT erp_export_logs_status_check
+  CHECK (status IN ('PENDING', 'MAPPING', 'SENDING', 'SUCCESS', 'PARTIAL_SUCCESS', 'FAILED', 'UNKNOWN'));
+
+-- 2) ADMF row → ERP product id.
+CREATE TABLE IF NOT EXISTS "public"."erp_order_products" (
+    "id" serial PRIMARY KEY,
+    "erp_order_id" int4 NOT NULL,
+    "form_id" int4 NOT NULL REFERENCES "public"."forms"("id"),
+    "row_key" varchar NOT NULL,
+    "erp_product_id" varchar NOT NULL,
+    "payload" jsonb NOT NULL,
+    "last_log_id" int4 REFERENCES "public"."erp_export_logs"("id"),
+    "created_at" timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE ("erp_order_id", "form_id", "row_key")
+);
+
+COMMENT ON TABLE "public"."erp_order_products" IS 'ERP product lines created by the ERP export, per ADMF row. Lines of other forms on the same ERP order are deleted when a different ADMF is exported.';
+COMMENT ON COLUMN "public"."erp_order_products"."row_key" IS 'productRows[].id (client-generated, stable), or "index:N" for rows without an id.';
+COMMENT ON COLUMN "public"."erp_order_products"."payload" IS 'Last product body sent for this line.';
+
+CREATE INDEX IF NOT EXISTS idx_erp_order_products_erp_order_id ON "public"."erp_order_products" ("erp_order_id");
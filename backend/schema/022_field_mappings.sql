@@ -0,0 +1,251 @@
+-- Export field mappings as versioned data (field-mapping.service). The Raynet custom
+-- field ids and the enum tables used to be hard-coded in raynet-export.service /
+-- erp-export.service; the export now reads the highest version per target. New versions
+-- come from the admin endpoint (/api/admin/field-mappings) or a CSV import of
+-- docs/raynet-field-mapping.csv / docs/erp-field-mapping.csv. Versions are never updated
+-- in place — restoring an old one appends a copy.
+--
+-- Version 1 below is the mapping the code used until now (same as the CSVs).
+--
+-- Apply with:  psql "$DATABASE_URL" -f backend/schema/022_field_mappings.sql
+
+CREATE TABLE IF NOT EXISTS "public"."field_mappings" (
+    "id" serial PRIMARY KEY,
+    "target" varchar NOT NULL CHECK (target IN ('RAYNET', 'ERP')),
+    "version" int4 NOT NULL,
+    "entries" jsonb NOT NULL,
+    "origin" varchar NOT NULL CHECK (origin IN ('SEED', 'CSV', 'ADMIN', 'RESTORE')),
+    "note" text,
+    "created_at" timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE ("target", "version")
+);
+
+COMMENT ON TABLE "public"."field_mappings" IS 'Versioned ADMF → Raynet / ERP field mappings; the highest version per target is active.';
+COMMENT ON COLUMN "public"."field_mappings"."entries" IS 'FieldMappingEntry[]: source, target, kind, values?, required?, note?';
+
+INSERT INTO "public"."field_mappings" (target, version, entries, origin, note)
+VALUES
+  ('RAYNET', 1, '[
+  {
+    "source": "const:220",
+    "target": "category",
+    "kind": "const",
+    "note": "Constant object: {\"id\": 220}. Always sent, not editable."
+  },
+  {
+    "source": "const:COMPLETED",
+    "target": "status",
+    "kind": "const",
+    "note": "Set to \"COMPLETED\" when ADMF is exported (= sale happened)."
+  },
+  {
+    "source": "email",
+    "target": "customFields.Email_1181e",
+    "kind": "string",
+    "note": "Direct mapping (STRING). Optional — send only if filled."
+  },
+  {
+    "source": "telefon",
+    "target": "customFields.Dalsi_kont_dcaae",
+    "kind": "string",
+    "note": "Direct mapping (STRING). Optional — send only if filled."
+  },
+  {
+    "source": "vatRate",
+    "target": "customFields.DPH_a6f2e",
+    "kind": "enum",
+    "values": {
+      "0": "0",
+      "12": "12",
+      "21": "21"
+    },
+    "note": "ENUMERATION. Convert number to string: 0→\"0\", 12→\"12\", 21→\"21\"."
+  },
+  {
+    "source": "typZarizeni",
+    "target": "customFields.RDbyt_45fb8",
+    "kind": "enum",
+    "values": {
+      "RD": "RD",
+      "Byt": "Byt",
+      "Nebytový protor": "Nebytový protor",
+      "chata": "chata",
+      "vila": "vila",
+      "Obytná maringotka": "Obytná maringotka"
+    },
+    "note": "ENUMERATION 1:1 (aligned). Exact values: \"RD\", \"Byt\", \"Nebytový protor\", \"chata\", \"vila\", \"Obytná maringotka\". Note: \"protor\" is a Raynet typo — must match exactly."
+  },
+  {
+    "source": "zalohaZaplacena",
+    "target": "customFields.Zpusob_uhr_1bc0a",
+    "kind": "enum",
+    "values": {
+      "Hotově": "Hotově",
+      "Terminálem": "Terminálem",
+      "QR": "QR",
+      "Fakturou": "Fakturou",
+      "převodem": "převodem"
+    },
+    "note": "ENUMERATION 1:1 (aligned). Exact values: \"Hotově\", \"Terminálem\", \"QR\", \"Fakturou\", \"převodem\". Note: \"převodem\" is lowercase."
+  },
+  {
+    "source": "zalohovaFaktura",
+    "target": "customFields.Zaloha_f384a",
+    "kind": "number",
+    "note": "Direct mapping (MONETARY CZK). Deposit amount s DPH."
+  },
+  {
+    "source": "doplatek",
+    "target": "customFields.Doplatek_98b22",
+    "kind": "number",
+    "note": "Direct mapping (MONETARY CZK). Computed: max(0, totalSDph - zalohovaFaktura)."
+  },
+  {
+    "source": "computed.totalSDph",
+    "target": "customFields.Celkova_ho_0b99a",
+    "kind": "number",
+    "note": "Computed at export (MONETARY CZK): (Σ(cenaPoSleve) − ovtSleva − mngSleva + montazCenaBezDph) × (1 + vatRate/100), rounded to integer. NOTE: cenaPoSleve is a LINE TOTAL (already includes ks); do not multiply by ks again."
+  },
+  {
+    "source": "variabilniSymbol",
+    "target": "customFields.Variabilni_675b2",
+    "kind": "number",
+    "note": "BIG_DECIMAL. Prefilled from customer phone (strips +420). Send as number. Optional."
+  },
+  {
+    "source": "auth.raynetName",
+    "target": "customFields.Zamerovac_2b7ef",
+    "kind": "enum",
+    "required": true,
+    "note": "ENUMERATION. Resolved from logged-in user''s Raynet display name in auth profile. Must match one of 32 allowed names exactly."
+  },
+  {
+    "source": "zvonek",
+    "target": "customFields.Zvonek_60b5d",
+    "kind": "string",
+    "note": "Informative field (STRING). Optional — send only if filled."
+  },
+  {
+    "source": "patro",
+    "target": "customFields.Patro_4784d",
+    "kind": "string",
+    "note": "Informative field (STRING). Optional — send only if filled."
+  },
+  {
+    "source": "infoKParkovani",
+    "target": "customFields.Info_k_par_4946a",
+    "kind": "string",
+    "note": "Informative field (TEXT). Optional — send only if filled."
+  },
+  {
+    "source": "poznamkyVyroba + poznamkyMontaz",
+    "target": "customFields.Dalsi_dopl_1e01a",
+    "kind": "string",
+    "note": "Merge two fields into one (TEXT). Format: \"Výroba: {x}\\nMontáž: {y}\". Skip empty sections."
+  },
+  {
+    "source": "composed.adresaKdyzNesedi",
+    "target": "customFields.Adresa_kdy_8f1ac",
+    "kind": "string",
+    "note": "Compose when jinaAdresaDodani=true (TEXT): dodaciUlice + '', '' + dodaciMesto + '' '' + dodaciPsc. Only send when filled."
+  },
+  {
+    "source": "infoKZaloze",
+    "target": "customFields.Duvod_neuh_fec41",
+    "kind": "string",
+    "note": "TEXT. Raynet label: \"Info k záloze (OVT)\". Optional — info about deposit."
+  },
+  {
+    "source": "infoKFakture",
+    "target": "customFields.Info_k_fak_4dcbc",
+    "kind": "string",
+    "note": "TEXT. Raynet label: \"Info k faktuře (OVT)\". Optional."
+  },
+  {
+    "source": "mngSleva",
+    "target": "customFields.MNG_SLEVA_aac47",
+    "kind": "boolean",
+    "note": "BOOLEAN. Toggle: was manager discount applied? Companion to mngSlevaSDph."
+  },
+  {
+    "source": "mngSlevaSDph",
+    "target": "customFields.MNG_sleva__0836b",
+    "kind": "number",
+    "note": "MONETARY (CZK, bez DPH). form_json stores s-DPH; export converts via round(sDph × 100 / (100 + vatRate))."
+  },
+  {
+    "source": "ovtSlevaSDph",
+    "target": "customFields.OVT_sleva__909bc",
+    "kind": "number",
+    "note": "MONETARY (CZK, bez DPH). form_json stores s-DPH; export converts via round(sDph × 100 / (100 + vatRate))."
+  }
+]'::jsonb, 'SEED', 'Initial mapping (previously hard-coded)'),
+  ('ERP', 1, '[
+  {
+    "source": "const:zamereni",
+    "target": "status",
+    "kind": "const",
+    "note": "Always set to \"zamereni\" on export. ADMF export = zaměření completed."
+  },
+  {
+    "source": "computed.totalSDph",
+    "target": "column_values.prodejni_cena_s_dph",
+    "kind": "number",
+    "note": "Computed (DECIMAL): (Σ(cenaPoSleve) − ovtSleva − mngSleva + montazCenaBezDph) × (1 + vatRate/100), rounded to integer. NOTE: cenaPoSleve is a LINE TOTAL (already includes ks); do not multiply by ks again."
+  },
+  {
+    "source": "computed.totalBezDph",
+    "target": "column_values.prodejni_cena_bez_dph",
+    "kind": "number",
+    "note": "Computed (DECIMAL): round(totalSDph × 100 / (100 + vatRate)) — derived back from totalSDph. Always sent."
+  },
+  {
+    "source": "computed.totalSDph",
+    "target": "final_value",
+    "kind": "number",
+    "note": "Same value as prodejni_cena_s_dph. Sent as top-level field (not column_values). Always sent."
+  },
+  {
+    "source": "vatRate",
+    "target": "column_values.dph",
+    "kind": "enum",
+    "values": {
+      "0": "0",
+      "12": "0.12",
+      "21": "0.21"
+    },
+    "note": "ENUM format conversion. ADMF number → ERP string: 0→\"0\", 12→\"0.12\", 21→\"0.21\"."
+  },
+  {
+    "source": "zalohovaFaktura",
+    "target": "column_values.vyse_zalohy",
+    "kind": "number",
+    "note": "Direct mapping (DECIMAL). Deposit amount s DPH. Send if > 0."
+  },
+  {
+    "source": "computed.doplatek",
+    "target": "column_values.vyse_doplatku",
+    "kind": "number",
+    "note": "Computed (DECIMAL): max(0, totalSDph - zalohovaFaktura). Always sent."
+  },
+  {
+    "source": "zalohaZaplacena",
+    "target": "column_values.druh_platby",
+    "kind": "enum",
+    "values": {
+      "Hotově": "hotove",
+      "Terminálem": "terminalem",
+      "QR": "qr-kod",
+      "převodem": "prevodem",
+      "Fakturou": "prevodem"
+    },
+    "note": "ENUM mapping required. ADMF → ERP slug: \"Hotově\"→\"hotove\", \"Terminálem\"→\"terminalem\", \"QR\"→\"qr-kod\", \"převodem\"→\"prevodem\", \"fakturou\" -> warninig (missing in erp)"
+  },
+  {
+    "source": "computed.montazSDph",
+    "target": "column_values.cena_za_montaz_s_dph",
+    "kind": "number",
+    "note": "Computed (DECIMAL): montazCenaBezDph × (1 + vatRate/100), rounded. Send if montazCenaBezDph > 0."
+  }
+]'::jsonb, 'SEED', 'Initial mapping (previously hard-coded)')
+ON CONFLICT (target, version) DO NOTHING;
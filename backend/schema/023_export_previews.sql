@@ -0,0 +1,17 @@
+-- Export dry-run preview. Before exporting, the ADMF page shows a field-by-field diff
+-- (current Raynet event / ERP order value → new value) built by
+-- POST /api/forms/:id/export/preview. The diff the user confirmed travels with the
+-- queued job and is stored on every log row the job writes, so an audit shows what
+-- the user saw before the push.
+--
+-- Apply with:  psql "$DATABASE_URL" -f backend/schema/023_export_previews.sql
+
+ALTER TABLE "public"."export_jobs" ADD COLUMN IF NOT EXISTS "confirmed_preview" jsonb;
+ALTER TABLE "public"."raynet_export_logs" ADD COLUMN IF NOT EXISTS "confirmed_preview" jsonb;
+ALTER TABLE "public"."erp_export_logs" ADD COLUMN IF NOT EXISTS "confirmed_preview" jsonb;
+ALTER TABLE "public"."export_logs" ADD COLUMN IF NOT EXISTS "confirmed_preview" jsonb;
+
+COMMENT ON COLUMN "public"."export_jobs"."confirmed_preview" IS 'Preview (ExportTargetPreview) the user confirmed before enqueueing; NULL when exported without a preview.';
+COMMENT ON COLUMN "public"."raynet_export_logs"."confirmed_preview" IS 'Preview the user confirmed for this export (copied from export_jobs).';
+COMMENT ON COLUMN "public"."erp_export_logs"."confirmed_preview" IS 'Preview the user confirmed for this export (copied from export_jobs).';
+COMMENT ON COLUMN "public"."export_logs"."confirmed_preview" IS 'Preview the user confirmed for this export (copied from export_jobs).';
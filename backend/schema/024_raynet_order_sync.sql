@@ -0,0 +1,43 @@
+-- Raynet → orders sync. Orders used to snapshot the Raynet event only at creation; now
+-- a webhook (POST /api/raynet/webhook) and a periodic pull (raynet-order-sync.service)
+-- re-read linked events and update the order. Every applied change and every conflict
+-- (the rep edited the same field locally) is recorded in order_activity_log.
+--
+-- Apply with:  psql "$DATABASE_URL" -f backend/schema/024_raynet_order_sync.sql
+
+-- 1) Raynet-owned event data (never edited locally) + sync bookkeeping.
+ALTER TABLE "public"."orders" ADD COLUMN IF NOT EXISTS "raynet_scheduled_from" timestamptz;
+ALTER TABLE "public"."orders" ADD COLUMN IF NOT EXISTS "raynet_scheduled_till" timestamptz;
+ALTER TABLE "public"."orders" ADD COLUMN IF NOT EXISTS "raynet_event_status" varchar;
+ALTER TABLE "public"."orders" ADD COLUMN IF NOT EXISTS "raynet_snapshot" jsonb;
+ALTER TABLE "public"."orders" ADD COLUMN IF NOT EXISTS "raynet_synced_at" timestamptz;
+ALTER TABLE "public"."orders" ADD COLUMN IF NOT EXISTS "raynet_sync_conflicts" jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN "public"."orders"."raynet_scheduled_from" IS 'Zaměření start from the linked Raynet event (scheduledFrom), kept in sync.';
+COMMENT ON COLUMN "public"."orders"."raynet_scheduled_till" IS 'Zaměření end from the linked Raynet event (scheduledTill), kept in sync.';
+COMMENT ON COLUMN "public"."orders"."raynet_event_status" IS 'Status of the linked Raynet event (e.g. COMPLETED, CANCELLED).';
+COMMENT ON COLUMN "public"."orders"."raynet_snapshot" IS 'Customer fields as last read from Raynet. A field whose order value differs from the snapshot was edited locally.';
+COMMENT ON COLUMN "public"."orders"."raynet_sync_conflicts" IS 'Open conflicts: [{ field, local, raynet, previous_raynet, detected_at }]. Resolved via POST /api/orders/:id/raynet-sync/resolve.';
+
+-- 2) What the sync did to an order.
+CREATE TABLE IF NOT EXISTS "public"."order_activity_log" (
+    "id" serial PRIMARY KEY,
+    "order_id" int4 NOT NULL REFERENCES "public"."orders"("id"),
+    "kind" varchar NOT NULL,
+    "source" varchar NOT NULL,
+    "actor" varchar,
+    "raynet_event_id" int4,
+    "changes" jsonb NOT NULL DEFAULT '[]'::jsonb,
+    "created_at" timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT order_activity_log_kind_check
+      CHECK (kind IN ('RAYNET_SYNC', 'RAYNET_CONFLICT', 'RAYNET_CONFLICT_RESOLVED')),
+    CONSTRAINT order_activity_log_source_check
+      CHECK (source IN ('WEBHOOK', 'PULL', 'USER'))
+);
+
+COMMENT ON TABLE "public"."order_activity_log" IS 'Per-order activity: Raynet sync changes, conflicts and their resolution.';
+COMMENT ON COLUMN "public"."order_activity_log"."changes" IS '[{ field, from, to }] for RAYNET_SYNC / RAYNET_CONFLICT_RESOLVED; [{ field, local, raynet }] for RAYNET_CONFLICT.';
+
+CREATE INDEX IF NOT EXISTS idx_order_activity_log_order_id ON "public"."order_activity_log" ("order_id", "created_at" DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_source_raynet_event_id ON "public"."orders" ("source_raynet_event_id")
+  WHERE "deleted_at" IS NULL AND "source_raynet_event_id" IS NOT NULL;
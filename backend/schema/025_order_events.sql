@@ -0,0 +1,79 @@
+-- Order timeline. One row per thing that happened to a zakázka (form saved, PDF printed,
+-- export, retention request, attachment, notes pushed to Raynet), written by the services
+-- that do it (order-events.service). GET /api/orders/:id/timeline reads this together
+-- with order_activity_log (Raynet → order sync).
+--
+-- Apply with:  psql "$DATABASE_URL" -f backend/schema/025_order_events.sql
+
+CREATE TABLE IF NOT EXISTS "public"."order_events" (
+    "id" bigserial PRIMARY KEY,
+    "order_id" int4 NOT NULL REFERENCES "public"."orders"("id"),
+    "form_id" int4 REFERENCES "public"."forms"("id"),
+    "kind" varchar NOT NULL,
+    "actor" varchar,
+    "status" varchar,
+    "payload" jsonb NOT NULL DEFAULT '{}'::jsonb,
+    "created_at" timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT order_events_kind_check CHECK (kind IN (
+      'ORDER_CREATED',
+      'FORM_CREATED', 'FORM_UPDATED', 'FORM_RESTORED', 'FORM_DELETED',
+      'ADMF_PDF_GENERATED',
+      'EXPORT',
+      'RETENTION_REQUEST',
+      'ATTACHMENT_UPLOADED', 'ATTACHMENT_DELETED',
+      'NOTES_PUSHED_TO_RAYNET'
+    ))
+);
+
+COMMENT ON TABLE "public"."order_events" IS 'Chronological stream of what happened to an order; backs the order page timeline.';
+COMMENT ON COLUMN "public"."order_events"."actor" IS 'User (e-mail) who did it; NULL for background work (export queue retries).';
+COMMENT ON COLUMN "public"."order_events"."status" IS 'Outcome for EXPORT / RETENTION_REQUEST (SUCCESS, PARTIAL_SUCCESS, FAILED); NULL otherwise.';
+COMMENT ON COLUMN "public"."order_events"."payload" IS 'Short summary for display (target, form type, file name, error…) — never full request bodies.';
+
+CREATE INDEX IF NOT EXISTS idx_order_events_order_created ON "public"."order_events" ("order_id", "created_at" DESC);
+
+-- Backfill from what the existing tables already record (runs once: only into an empty table).
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM "public"."order_events") THEN
+    INSERT INTO "public"."order_events" (order_id, kind, actor, payload, created_at)
+    SELECT id, 'ORDER_CREATED', user_id, '{}'::jsonb, created_at
+    FROM "public"."orders";
+
+    INSERT INTO "public"."order_events" (order_id, form_id, kind, actor, payload, created_at)
+    SELECT order_id, id, 'FORM_CREATED', user_id, jsonb_build_object('form_type', form_type), created_at
+    FROM "public"."forms"
+    WHERE order_id IS NOT NULL;
+
+    INSERT INTO "public"."order_events" (order_id, form_id, kind, actor, status, payload, created_at)
+    SELECT order_id, form_id, 'EXPORT', user_id, status,
+           jsonb_build_object('target', 'RAYNET', 'log_id', id, 'external_id', raynet_event_id,
+                              'test_mode', test_mode, 'error', error_message),
+           COALESCE(completed_at, created_at)
+    FROM "public"."raynet_export_logs"
+    WHERE status IN ('SUCCESS', 'PARTIAL_SUCCESS', 'FAILED');
+
+    INSERT INTO "public"."order_events" (order_id, form_id, kind, actor, status, payload, created_at)
+    SELECT order_id, form_id, 'EXPORT', user_id, status,
+           jsonb_build_object('target', 'ERP', 'log_id', id, 'external_id', erp_order_id,
+                              'test_mode', test_mode, 'error', error_message),
+           COALESCE(completed_at, created_at)
+    FROM "public"."erp_export_logs"
+    WHERE status IN ('SUCCESS', 'PARTIAL_SUCCESS', 'FAILED');
+
+    INSERT INTO "public"."order_events" (order_id, form_id, kind, actor, status, payload, created_at)
+    SELECT order_id, form_id, 'EXPORT', user_id, status,
+           jsonb_build_object('target', target, 'log_id', id, 'external_id', external_id,
+                              'test_mode', test_mode, 'error', error_message),
+           COALESCE(completed_at, created_at)
+    FROM "public"."export_logs"
+    WHERE status IN ('SUCCESS', 'PARTIAL_SUCCESS', 'FAILED');
+
+    INSERT INTO "public"."order_events" (order_id, kind, actor, status, payload, created_at)
+    SELECT order_id, 'RETENTION_REQUEST', user_id, status,
+           jsonb_build_object('log_id', id, 'kind', kind, 'reason', left(reason, 200),
+                              'test_mode', test_mode, 'error', error_message),
+           created_at
+    FROM "public"."retention_logs";
+  END IF;
+END $$;
@@ -0,0 +1,77 @@
+-- Roles, teams and order sharing. Until now every order / form query was scoped by
+-- user_id, so only the rep who created an order could open it. Access is now decided by
+-- order-access.service from the role in the JWT (OVT rep, MNG manager, OFFICE, ADMIN),
+-- team membership and explicit shares; queries keep running as the order owner.
+-- Every access by someone other than the owner is written to order_access_audit.
+--
+-- Apply with:  psql "$DATABASE_URL" -f backend/schema/026_roles_and_sharing.sql
+
+-- 1) Teams: a manager (MNG role in the JWT) sees and edits the orders of the other members
+--    of the teams they belong to.
+CREATE TABLE IF NOT EXISTS "public"."teams" (
+    "id" serial PRIMARY KEY,
+    "name" varchar NOT NULL UNIQUE,
+    "created_at" timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS "public"."team_members" (
+    "team_id" int4 NOT NULL REFERENCES "public"."teams"("id") ON DELETE CASCADE,
+    "user_id" varchar NOT NULL,
+    "created_at" timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY ("team_id", "user_id")
+);
+
+COMMENT ON COLUMN "public"."team_members"."user_id" IS 'User e-mail (same value as orders.user_id).';
+
+CREATE INDEX IF NOT EXISTS idx_team_members_user_id ON "public"."team_members" ("user_id");
+
+-- 2) Explicit shares of one order with another user (e.g. a colleague covering a sick rep).
+CREATE TABLE IF NOT EXISTS "public"."order_shares" (
+    "id" serial PRIMARY KEY,
+    "order_id" int4 NOT NULL REFERENCES "public"."orders"("id"),
+    "user_id" varchar NOT NULL,
+    "access" varchar NOT NULL,
+    "granted_by" varchar NOT NULL,
+    "created_at" timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT order_shares_access_check CHECK (access IN ('READ', 'WRITE')),
+    CONSTRAINT order_shares_order_user_unique UNIQUE ("order_id", "user_id")
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_shares_user_id ON "public"."order_shares" ("user_id");
+
+-- 3) Audit of access by anyone other than the owner.
+CREATE TABLE IF NOT EXISTS "public"."order_access_audit" (
+    "id" bigserial PRIMARY KEY,
+    "order_id" int4 NOT NULL REFERENCES "public"."orders"("id"),
+    "form_id" int4,
+    "actor" varchar NOT NULL,
+    "actor_role" varchar NOT NULL,
+    "owner_user_id" varchar NOT NULL,
+    "access" varchar NOT NULL,
+    "basis" varchar NOT NULL,
+    "action" varchar NOT NULL,
+    "created_at" timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT order_access_audit_access_check CHECK (access IN ('READ', 'WRITE')),
+    CONSTRAINT order_access_audit_basis_check CHECK (basis IN ('SHARE', 'TEAM', 'OFFICE', 'ADMIN'))
+);
+
+COMMENT ON COLUMN "public"."order_access_audit"."basis" IS 'Why access was allowed: explicit share, team manager, office or admin role.';
+COMMENT ON COLUMN "public"."order_access_audit"."action" IS 'What was done, e.g. order.view, form.update, export.enqueue.';
+
+CREATE INDEX IF NOT EXISTS idx_order_access_audit_order ON "public"."order_access_audit" ("order_id", "created_at" DESC);
+CREATE INDEX IF NOT EXISTS idx_order_access_audit_actor ON "public"."order_access_audit" ("actor", "created_at" DESC);
+
+-- 4) Reassignment and sharing show up on the order timeline.
+ALTER TABLE "public"."order_events" DROP CONSTRAINT IF EXISTS order_events_kind_check;
+ALTER TABLE "public"."order_events" ADD CONSTRAINT order_events_kind_check CHECK (kind IN (
+  'ORDER_CREATED', 'ORDER_REASSIGNED', 'ORDER_SHARED', 'ORDER_UNSHARED',
+  'FORM_CREATED', 'FORM_UPDATED', 'FORM_RESTORED', 'FORM_DELETED',
+  'ADMF_PDF_GENERATED',
+  'EXPORT',
+  'RETENTION_REQUEST',
+  'ATTACHMENT_UPLOADED', 'ATTACHMENT_DELETED',
+  'NOTES_PUSHED_TO_RAYNET'
+));
+
+-- 5) The export worker re-checks access as the user who queued the job.
+ALTER TABLE "public"."export_jobs" ADD COLUMN IF NOT EXISTS "user_role" varchar NOT NULL DEFAULT 'OVT';
@@ -0,0 +1,91 @@
+-- Customer master records. Orders used to carry only a per-order snapshot of the customer
+-- (name / e-mail / phone / address), so a repeat customer ended up as several drifting
+-- copies. A local customer now links the Raynet lead and ERP customer ids and is matched by
+-- normalized phone / e-mail / IČO; orders reference it via orders.customer_id. The order
+-- snapshot columns stay (exports, PDF and Raynet sync read them).
+--
+-- Apply with:  psql "$DATABASE_URL" -f backend/schema/027_customers.sql
+
+-- 1) Customers.
+CREATE TABLE IF NOT EXISTS "public"."customers" (
+    "id" serial PRIMARY KEY,
+    "name" varchar,
+    "email" varchar,
+    "phone" varchar,
+    "address" varchar,
+    "city" varchar,
+    "zipcode" varchar,
+    "ico" varchar,
+    "raynet_id" int4,
+    "erp_customer_id" int4,
+    "phone_key" varchar,
+    "email_key" varchar,
+    "ico_key" varchar,
+    "source_conflicts" jsonb NOT NULL DEFAULT '{}'::jsonb,
+    "conflicts_checked_at" timestamptz,
+    "merged_into_id" int4 REFERENCES "public"."customers"("id"),
+    "merged_by" varchar,
+    "merged_at" timestamptz,
+    "created_at" timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT customers_not_merged_into_self CHECK (merged_into_id IS NULL OR merged_into_id <> id)
+);
+
+COMMENT ON TABLE "public"."customers" IS 'Local customer master record; orders reference it via orders.customer_id.';
+COMMENT ON COLUMN "public"."customers"."phone_key" IS 'Last 9 digits of the phone (CZ numbers without prefix) — deduplication key.';
+COMMENT ON COLUMN "public"."customers"."email_key" IS 'Trimmed, lower-cased e-mail — deduplication key.';
+COMMENT ON COLUMN "public"."customers"."ico_key" IS 'IČO digits, left-padded to 8 — deduplication key.';
+COMMENT ON COLUMN "public"."customers"."source_conflicts" IS 'Raynet ↔ ERP field conflicts found by POST /api/customers/validate: { field: { raynet, erp } }.';
+COMMENT ON COLUMN "public"."customers"."merged_into_id" IS 'Set when the record was merged into another customer (duplicate); its orders were moved there.';
+
+CREATE INDEX IF NOT EXISTS idx_customers_phone_key ON "public"."customers" (phone_key) WHERE merged_into_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_customers_email_key ON "public"."customers" (email_key) WHERE merged_into_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_customers_ico_key ON "public"."customers" (ico_key) WHERE merged_into_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_customers_raynet_id ON "public"."customers" (raynet_id) WHERE merged_into_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_customers_erp_customer_id ON "public"."customers" (erp_customer_id) WHERE merged_into_id IS NULL;
+
+-- 2) Orders reference their customer.
+ALTER TABLE "public"."orders" ADD COLUMN IF NOT EXISTS "customer_id" int4 REFERENCES "public"."customers"("id");
+CREATE INDEX IF NOT EXISTS idx_orders_customer_id ON "public"."orders" (customer_id) WHERE deleted_at IS NULL;
+
+COMMENT ON COLUMN "public"."orders"."customer_id" IS 'Customer master record. Name / phone / address columns on the order are the snapshot used for this order.';
+
+-- 3) Backfill: one customer per distinct identity of existing orders (Raynet id, then ERP
+--    customer id, then phone, then e-mail — same precedence as the app), newest order wins.
+WITH keyed AS (
+    SELECT o.*,
+           CASE
+             WHEN o.raynet_id IS NOT NULL THEN 'r:' || o.raynet_id
+             WHEN o.erp_customer_id IS NOT NULL THEN 'e:' || o.erp_customer_id
+             WHEN length(regexp_replace(coalesce(o.phone, ''), '\D', '', 'g')) >= 6
+               THEN 'p:' || right(regexp_replace(o.phone, '\D', '', 'g'), 9)
+             WHEN nullif(trim(o.email), '') IS NOT NULL THEN 'm:' || lower(trim(o.email))
+           END AS identity
+    FROM "public"."orders" o
+    WHERE o.customer_id IS NULL AND o.deleted_at IS NULL
+),
+latest AS (
+    SELECT DISTINCT ON (identity) *
+    FROM keyed
+    WHERE identity IS NOT NULL
+    ORDER BY identity, created_at DESC
+),
+inserted AS (
+    INSERT INTO "public"."customers" (name, email, phone, address, city, zipcode, raynet_id, erp_customer_id, phone_key, email_key)
+    SELECT name, email, phone, address, city, zipcode, raynet_id, erp_customer_id,
+           CASE WHEN length(regexp_replace(coalesce(phone, ''), '\D', '', 'g')) >= 6
+                THEN right(regexp_replace(phone, '\D', '', 'g'), 9) END,
+           nullif(lower(trim(email)), '')
+    FROM latest
+    RETURNING id, raynet_id, erp_customer_id, phone_key, email_key
+)
+UPDATE "public"."orders" o
+SET customer_id = i.id
+FROM keyed k
+JOIN inserted i ON k.identity = CASE
+      WHEN i.raynet_id IS NOT NULL THEN 'r:' || i.raynet_id
+      WHEN i.erp_customer_id IS NOT NULL THEN 'e:' || i.erp_customer_id
+      WHEN i.phone_key IS NOT NULL THEN 'p:' || i.phone_key
+      ELSE 'm:' || i.email_key
+    END
+WHERE o.id = k.id;
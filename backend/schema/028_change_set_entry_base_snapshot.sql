@@ -0,0 +1,17 @@
+-- Change-set conflict detection. Each update entry records the live row it was drafted
+-- against (base_updated_at + base_snapshot); validate / publish compare it with the live
+-- row, so a second change-set can no longer silently revert the first one's publish.
+-- Runs against the PRICING database (change_set / change_set_entry live there).
+--
+-- base_snapshot: the editable columns of the row when the entry was added
+--   product_pricing: { payload, price_affecting_enums, surcharges, rounding_policy }
+--   pricing_variant: { name, selector, dimension_pricing, surcharge_only }
+-- NULL for entries added before this migration or whose base_updated_at was already
+-- stale when added — their conflicts are reported without a base (never auto-rebased).
+--
+-- Apply with:  psql "$PRICING_DATABASE_URL" -f backend/schema/028_change_set_entry_base_snapshot.sql
+
+ALTER TABLE "public"."change_set_entry"
+  ADD COLUMN IF NOT EXISTS "base_snapshot" jsonb;
+
+COMMENT ON COLUMN "public"."change_set_entry"."base_snapshot" IS 'Editable columns of the target row at base_updated_at (three-way conflict view / rebase)';
@@ -0,0 +1,23 @@
+-- Cross-DB change-sets: form_structure entries carry a validated form payload for the
+-- admin DB (validation-products' validated_product table, keyed by product_code) and are
+-- published together with the pricing entries of the same change-set.
+-- Runs against the PRICING database (change_set / change_set_entry live there).
+--
+-- entity_kind 'form_structure':
+--   entity_id     = product_code (not a uuid — hence the text column)
+--   draft_payload = { validated_payload: {...} }
+--   base_snapshot = { validated_payload } of the admin row when the entry was added
+--
+-- Apply with:  psql "$PRICING_DATABASE_URL" -f backend/schema/029_change_set_form_structure.sql
+
+ALTER TABLE "public"."change_set_entry"
+  ALTER COLUMN "entity_id" TYPE text USING "entity_id"::text;
+
+ALTER TABLE "public"."change_set_entry"
+  DROP CONSTRAINT IF EXISTS "change_set_entry_entity_kind_check";
+
+ALTER TABLE "public"."change_set_entry"
+  ADD CONSTRAINT "change_set_entry_entity_kind_check"
+  CHECK ("entity_kind" IN ('product_pricing', 'pricing_variant', 'form_structure'));
+
+COMMENT ON COLUMN "public"."change_set_entry"."entity_id" IS 'Target row id (uuid as text); product_code for form_structure entries';
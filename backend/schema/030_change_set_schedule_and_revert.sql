@@ -0,0 +1,39 @@
+-- Scheduled and revertible change-set publishing.
+-- Runs against the PRICING database (change_set / change_set_entry live there).
+--
+-- change_set.scheduled_at: a draft with scheduled_at <= now() is re-validated and published
+--   by the backend scheduler (cleared when the scheduler picks it up).
+-- change_set.reverts_change_set_id: set on the inverse change-set produced by
+--   POST /api/admin/change-sets/:id/revert.
+-- change_set_entry.publish_snapshot: the target row as it was right before publish
+--   ({ updated_at, fields } with the same editable columns as base_snapshot; NULL for
+--   create entries). Revert restores rows from it.
+--
+-- Apply with:  psql "$PRICING_DATABASE_URL" -f backend/schema/030_change_set_schedule_and_revert.sql
+
+ALTER TABLE "public"."change_set"
+  ADD COLUMN IF NOT EXISTS "scheduled_at" timestamptz,
+  ADD COLUMN IF NOT EXISTS "reverts_change_set_id" uuid REFERENCES "public"."change_set"("id");
+
+CREATE INDEX IF NOT EXISTS "idx_change_set_scheduled_at"
+  ON "public"."change_set" ("scheduled_at")
+  WHERE "status" = 'draft' AND "scheduled_at" IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS "idx_change_set_reverts"
+  ON "public"."change_set" ("reverts_change_set_id")
+  WHERE "reverts_change_set_id" IS NOT NULL;
+
+ALTER TABLE "public"."change_set_entry"
+  ADD COLUMN IF NOT EXISTS "publish_snapshot" jsonb;
+
+-- 'delete' entries are produced by revert (inverse of a create).
+ALTER TABLE "public"."change_set_entry"
+  DROP CONSTRAINT IF EXISTS "change_set_entry_action_check";
+
+ALTER TABLE "public"."change_set_entry"
+  ADD CONSTRAINT "change_set_entry_action_check"
+  CHECK ("action" IN ('create', 'update', 'delete'));
+
+COMMENT ON COLUMN "public"."change_set"."scheduled_at" IS 'Publish time for the change-set scheduler (draft only)';
+COMMENT ON COLUMN "public"."change_set"."reverts_change_set_id" IS 'Published change-set this inverse change-set reverts';
+COMMENT ON COLUMN "public"."change_set_entry"."publish_snapshot" IS 'Target row right before publish ({ updated_at, fields }); NULL for creates';
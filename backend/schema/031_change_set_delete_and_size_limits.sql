@@ -0,0 +1,20 @@
+-- Change-set delete entries and the size_limit_variant entity kind.
+-- Runs against the PRICING database (change_set_entry / size_limit_variant live there).
+--
+-- size_limit_variant entries:
+--   create: draft_payload = { product_pricing_id, selector, mezni_* / zarucni_* limits }
+--   update: any subset of selector + limits (entity_id = size_limit_variant.id)
+--   delete: entity_id only
+-- Conflict detection needs size_limit_variant.updated_at (publish bumps it on update).
+--
+-- Apply with:  psql "$PRICING_DATABASE_URL" -f backend/schema/031_change_set_delete_and_size_limits.sql
+
+ALTER TABLE "public"."size_limit_variant"
+  ADD COLUMN IF NOT EXISTS "updated_at" timestamp NOT NULL DEFAULT timezone('utc', now());
+
+ALTER TABLE "public"."change_set_entry"
+  DROP CONSTRAINT IF EXISTS "change_set_entry_entity_kind_check";
+
+ALTER TABLE "public"."change_set_entry"
+  ADD CONSTRAINT "change_set_entry_entity_kind_check"
+  CHECK ("entity_kind" IN ('product_pricing', 'pricing_variant', 'size_limit_variant', 'form_structure'));
@@ -0,0 +1,89 @@
+-- One export log table. Raynet and ERP now log into export_logs (target 'RAYNET' /
+-- 'ERP', external_id = Raynet event id / ERP order id) like every other export target,
+-- so the pipeline, reconciler and monitoring work off one log model.
+--
+-- Existing rows are copied over with new ids; the references to them (order_events
+-- EXPORT payload.log_id, export_jobs.last_log_id, erp_order_products.last_log_id) are
+-- remapped. The old tables are kept as *_legacy for inspection — drop them once the
+-- copy has been checked.
+--
+-- Apply with:  psql "$DATABASE_URL" -f backend/schema/032_export_logs_single_table.sql
+
+BEGIN;
+
+DO $$
+BEGIN
+  IF to_regclass('public.raynet_export_logs') IS NOT NULL THEN
+    CREATE TEMP TABLE export_log_id_map (
+      target varchar NOT NULL,
+      old_id int4 NOT NULL,
+      new_id int4 NOT NULL,
+      PRIMARY KEY (target, old_id)
+    ) ON COMMIT DROP;
+
+    -- Old ids in order, so export_logs keeps the per-target attempt order.
+    INSERT INTO export_log_id_map (target, old_id, new_id)
+    SELECT 'RAYNET', id, nextval(pg_get_serial_sequence('public.export_logs', 'id'))
+    FROM "public"."raynet_export_logs"
+    ORDER BY id;
+
+    INSERT INTO export_log_id_map (target, old_id, new_id)
+    SELECT 'ERP', id, nextval(pg_get_serial_sequence('public.export_logs', 'id'))
+    FROM "public"."erp_export_logs"
+    ORDER BY id;
+
+    INSERT INTO "public"."export_logs" (
+      id, target, form_id, order_id, external_id, user_id, export_batch_id, status, test_mode,
+      request_payload, response_status, response_body, error_message, error_code, warnings,
+      duration_ms, confirmed_preview, created_at, completed_at, reconciled_at
+    )
+    SELECT m.new_id, 'RAYNET', l.form_id, l.order_id, l.raynet_event_id, l.user_id, l.export_batch_id,
+           l.status, l.test_mode, l.request_payload, l.response_status, l.response_body,
+           l.error_message, l.error_code, l.warnings, l.duration_ms, l.confirmed_preview,
+           l.created_at, l.completed_at, l.reconciled_at
+    FROM "public"."raynet_export_logs" l
+    JOIN export_log_id_map m ON m.target = 'RAYNET' AND m.old_id = l.id;
+
+    INSERT INTO "public"."export_logs" (
+      id, target, form_id, order_id, external_id, user_id, export_batch_id, status, test_mode,
+      request_payload, response_status, response_body, error_message, error_code, warnings,
+      duration_ms, confirmed_preview, created_at, completed_at, reconciled_at
+    )
+    SELECT m.new_id, 'ERP', l.form_id, l.order_id, l.erp_order_id, l.user_id, l.export_batch_id,
+           l.status, l.test_mode, l.request_payload, l.response_status, l.response_body,
+           l.error_message, l.error_code, l.warnings, l.duration_ms, l.confirmed_preview,
+           l.created_at, l.completed_at, l.reconciled_at
+    FROM "public"."erp_export_logs" l
+    JOIN export_log_id_map m ON m.target = 'ERP' AND m.old_id = l.id;
+
+    UPDATE "public"."order_events" e
+    SET payload = jsonb_set(e.payload, '{log_id}', to_jsonb(m.new_id))
+    FROM export_log_id_map m
+    WHERE e.kind = 'EXPORT'
+      AND e.payload->>'target' = m.target
+      AND (e.payload->>'log_id')::int4 = m.old_id;
+
+    UPDATE "public"."export_jobs" j
+    SET last_log_id = m.new_id
+    FROM export_log_id_map m
+    WHERE j.target = m.target AND j.last_log_id = m.old_id;
+
+    ALTER TABLE "public"."erp_order_products"
+      DROP CONSTRAINT IF EXISTS erp_order_products_last_log_id_fkey;
+    UPDATE "public"."erp_order_products" p
+    SET last_log_id = m.new_id
+    FROM export_log_id_map m
+    WHERE m.target = 'ERP' AND p.last_log_id = m.old_id;
+    ALTER TABLE "public"."erp_order_products"
+      ADD CONSTRAINT erp_order_products_last_log_id_fkey
+      FOREIGN KEY ("last_log_id") REFERENCES "public"."export_logs"("id");
+
+    ALTER TABLE "public"."raynet_export_logs" RENAME TO "raynet_export_logs_legacy";
+    ALTER TABLE "public"."erp_export_logs" RENAME TO "erp_export_logs_legacy";
+  END IF;
+END $$;
+
+COMMENT ON TABLE "public"."export_logs" IS 'Per-attempt export log of every export target (Raynet, ERP, …), keyed by target';
+COMMENT ON COLUMN "public"."export_jobs"."last_log_id" IS 'Latest export_logs.id written by this job.';
+
+COMMIT;
@@ -0,0 +1,15 @@
+-- Lease for scheduled change-set publishing.
+-- Runs against the PRICING database (change_set lives there).
+--
+-- change_set.publish_claimed_at: set when a scheduler instance claims a due change-set.
+--   scheduled_at is kept until the run settles the change-set (published, or blocked /
+--   failed → scheduled_at and the claim cleared together with publish_error). A claim
+--   older than CHANGE_SET_PUBLISH_LEASE_MINUTES belongs to a crashed run and is taken
+--   over, so a backend restart mid-publish no longer loses the schedule.
+--
+-- Apply with:  psql "$PRICING_DATABASE_URL" -f backend/schema/033_change_set_publish_claim.sql
+
+ALTER TABLE "public"."change_set"
+  ADD COLUMN IF NOT EXISTS "publish_claimed_at" timestamptz;
+
+COMMENT ON COLUMN "public"."change_set"."publish_claimed_at" IS 'Scheduler lease: when an instance claimed this due change-set (NULL = unclaimed)';
@@ -0,0 +1,18 @@
+-- Idempotent form creation.
+--
+-- forms.client_request_id: key the client generates once per new form (offline outbox and
+--   the online save share it). A POST /api/forms whose response was lost is sent again
+--   with the same key; the backend then returns the form it already created instead of
+--   inserting a duplicate. NULL for forms created without a key.
+--
+-- Apply with:  psql "$DATABASE_URL" -f backend/schema/034_forms_client_request_id.sql
+
+ALTER TABLE "public"."forms"
+  ADD COLUMN IF NOT EXISTS "client_request_id" uuid;
+
+COMMENT ON COLUMN "public"."forms"."client_request_id"
+  IS 'Client-generated idempotency key of the create request (NULL = none sent)';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_forms_unique_client_request_user
+  ON "public"."forms" ("user_id", "client_request_id")
+  WHERE "client_request_id" IS NOT NULL;
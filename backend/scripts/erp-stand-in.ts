@@ -0,0 +1,187 @@
+/**
+ * In-memory stand-in for the ERP API, so the ADMF → ERP export (order update,
+ * comment, product lines) can be exercised end-to-end without the real ERP.
+ * State lives in memory and is lost on restart.
+ *
+ * Run with:  npx ts-node scripts/erp-stand-in.ts
+ *
+ * Point the backend at it:
+ *   ERP_API_ENDPOINT=http://localhost:4010  ERP_BEARER_TOKEN=stand-in
+ *
+ * Env (all optional):
+ *   ERP_STAND_IN_PORT           listen port (default 4010)
+ *   ERP_BEARER_TOKEN            token to require (default: any bearer token)
+ *   ERP_STAND_IN_FAIL_PRODUCTS  substring of `nazev` — matching product writes get 422
+ *                               (exercise PARTIAL_SUCCESS)
+ *   ERP_STAND_IN_LOCKED_ORDERS  comma-separated order ids answered with 423
+ *
+ * Inspect state:  GET /orders/:id  (order, comments, products)
+ */
+
+import express, { NextFunction, Request, Response } from "express";
+
+interface StandInOrder {
+  id: number;
+  status: string | null;
+  final_value: number | null;
+  column_values: Record<string, unknown>;
+  comments: Array<{ id: number; message: string; created_at: string }>;
+  products: Map<number, Record<string, unknown>>;
+  updated_at: string;
+}
+
+const port = Number(process.env.ERP_STAND_IN_PORT ?? 4010);
+const requiredToken = process.env.ERP_BEARER_TOKEN;
+const failProducts = process.env.ERP_STAND_IN_FAIL_PRODUCTS;
+const lockedOrders = new Set(
+  (process.env.ERP_STAND_IN_LOCKED_ORDERS ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean)
+);
+
+const orders = new Map<number, StandInOrder>();
+let nextId = 1;
+
+function getOrder(id: number): StandInOrder {
+  let order = orders.get(id);
+  if (!order) {
+    order = {
+      id,
+      status: null,
+      final_value: null,
+      column_values: {},
+      comments: [],
+      products: new Map(),
+      updated_at: new Date().toISOString(),
+    };
+    orders.set(id, order);
+  }
+  return order;
+}
+
+function touch(order: StandInOrder): void {
+  order.updated_at = new Date().toISOString();
+}
+
+function serializeOrder(order: StandInOrder) {
+  return {
+    ...order,
+    products: [...order.products.entries()].map(([id, product]) => ({ id, ...product })),
+  };
+}
+
+function rejectsProduct(product: Record<string, unknown>): boolean {
+  return !!failProducts && String(product.nazev ?? "").includes(failProducts);
+}
+
+const app = express();
+app.use(express.json());
+
+app.use((req: Request, res: Response, next: NextFunction) => {
+  const auth = req.headers.authorization ?? "";
+  if (!auth.startsWith("Bearer ") || (requiredToken && auth !== `Bearer ${requiredToken}`)) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+  console.log(`${req.method} ${req.path}`);
+  next();
+});
+
+app.use("/orders/:id", (req: Request, res: Response, next: NextFunction) => {
+  if (lockedOrders.has(String(req.params.id))) {
+    res.status(423).json({ error: "Order is locked" });
+    return;
+  }
+  next();
+});
+
+app.get("/orders/:id", (req: Request, res: Response) => {
+  const order = orders.get(Number(req.params.id));
+  if (!order) {
+    res.status(404).json({ error: "Order not found" });
+    return;
+  }
+  res.json({ data: serializeOrder(order) });
+});
+
+app.put("/orders/:id", (req: Request, res: Response) => {
+  const order = getOrder(Number(req.params.id));
+  const { status, final_value, column_values } = req.body ?? {};
+  if (status !== undefined) order.status = status;
+  if (final_value !== undefined) order.final_value = final_value;
+  if (column_values && typeof column_values === "object") {
+    order.column_values = { ...order.column_values, ...column_values };
+  }
+  touch(order);
+  res.json({ data: { id: order.id, status: order.status, updated_at: order.updated_at } });
+});
+
+app.post("/orders/:id/comments", (req: Request, res: Response) => {
+  const order = getOrder(Number(req.params.id));
+  const message = req.body?.message;
+  if (typeof message !== "string" || message.trim() === "") {
+    res.status(422).json({ error: "message is required" });
+    return;
+  }
+  const comment = { id: nextId++, message, created_at: new Date().toISOString() };
+  order.comments.push(comment);
+  touch(order);
+  res.status(201).json({ data: comment });
+});
+
+app.get("/orders/:id/products", (req: Request, res: Response) => {
+  const order = getOrder(Number(req.params.id));
+  res.json({ data: serializeOrder(order).products });
+});
+
+app.post("/orders/:id/products", (req: Request, res: Response) => {
+  const order = getOrder(Number(req.params.id));
+  const products: Record<string, unknown>[] = Array.isArray(req.body?.products) ? req.body.products : [];
+  if (products.length === 0) {
+    res.status(422).json({ error: "products[] is required" });
+    return;
+  }
+  const rejected = products.find(rejectsProduct);
+  if (rejected) {
+    res.status(422).json({ error: `Product "${rejected.nazev}" rejected by stand-in` });
+    return;
+  }
+  const created = products.map((product) => {
+    const id = nextId++;
+    order.products.set(id, product);
+    return { id, ...product };
+  });
+  touch(order);
+  res.status(201).json({ data: created });
+});
+
+app.put("/orders/:id/products/:productId", (req: Request, res: Response) => {
+  const order = getOrder(Number(req.params.id));
+  const productId = Number(req.params.productId);
+  if (!order.products.has(productId)) {
+    res.status(404).json({ error: "Product not found" });
+    return;
+  }
+  if (rejectsProduct(req.body ?? {})) {
+    res.status(422).json({ error: `Product "${req.body.nazev}" rejected by stand-in` });
+    return;
+  }
+  order.products.set(productId, req.body);
+  touch(order);
+  res.json({ data: { id: productId, ...req.body } });
+});
+
+app.delete("/orders/:id/products/:productId", (req: Request, res: Response) => {
+  const order = getOrder(Number(req.params.id));
+  if (!order.products.delete(Number(req.params.productId))) {
+    res.status(404).json({ error: "Product not found" });
+    return;
+  }
+  touch(order);
+  res.status(204).end();
+});
+
+app.listen(port, () => {
+  console.log(`ERP stand-in listening on http://localhost:${port}`);
+});
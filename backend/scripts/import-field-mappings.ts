@@ -0,0 +1,54 @@
+/**
+ * Import docs/raynet-field-mapping.csv / docs/erp-field-mapping.csv as a new field
+ * mapping version — same validation as POST /api/admin/field-mappings/:target/import-csv.
+ *
+ * Run with:  npx ts-node scripts/import-field-mappings.ts <raynet|erp> [csv path] [--force]
+ *
+ * Default CSV path: ../docs/<target>-field-mapping.csv. Needs DATABASE_URL (and the
+ * Raynet env for the live schema check).
+ */
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import dotenv from "dotenv";
+import { closePool, getPool } from "../src/config/database";
+import {
+  parseFieldMappingCsv,
+  parseFieldMappingTarget,
+  saveFieldMapping,
+} from "../src/services/field-mapping.service";
+import { ValidationIssuesError } from "../src/utils/errors";
+
+dotenv.config();
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const force = args.includes("--force");
+  const [targetArg, csvArg] = args.filter((a) => a !== "--force");
+  const target = parseFieldMappingTarget(targetArg);
+  const csvPath =
+    csvArg ?? path.resolve(__dirname, "../../docs", `${target.toLowerCase()}-field-mapping.csv`);
+
+  const entries = parseFieldMappingCsv(target, await readFile(csvPath, "utf8"));
+  const result = await saveFieldMapping(getPool(), target, entries, {
+    origin: "CSV",
+    note: `Imported from ${path.basename(csvPath)}`,
+    force,
+  });
+
+  console.log(`${target} field mapping v${result.mapping.version} saved (${result.mapping.entries.length} entries)`);
+  if (!result.remote_checked) console.log("Not checked against the live Raynet schema.");
+  for (const issue of result.issues) console.log(`  [${issue.severity}] ${issue.code}: ${issue.message}`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error.message);
+    if (error instanceof ValidationIssuesError) {
+      for (const issue of error.issues as Array<{ code: string; message: string }>) {
+        console.error(`  ${issue.code}: ${issue.message}`);
+      }
+    }
+    process.exitCode = 1;
+  })
+  .finally(() => closePool());
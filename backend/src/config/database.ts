@@ -132,3 +132,55 @@ export async function closePricingPool(): Promise<void> {
     console.log("Pricing database connection pool closed");
   }
 }
+
+/** Optional third pool for the admin database (ADMIN_DATABASE_URL) */
+let adminPool: Pool | null = null;
+
+/**
+ * Get or create admin database connection pool.
+ * The admin DB belongs to validation-products (validated form-structure payloads);
+ * change-sets with form_structure entries publish into it. Throws if ADMIN_DATABASE_URL is not set.
+ */
+export function getAdminPool(): Pool {
+  if (!adminPool) {
+    const url = process.env.ADMIN_DATABASE_URL;
+    if (!url) {
+      throw new Error("ADMIN_DATABASE_URL environment variable is not set");
+    }
+    try {
+      const parsed = new URL(url);
+      const config: PoolConfig = {
+        user: parsed.username,
+        password: parsed.password,
+        host: parsed.hostname,
+        port: parseInt(parsed.port || "5432", 10),
+        database: parsed.pathname.slice(1),
+        ssl: process.env.DATABASE_SSL === "true" ? { rejectUnauthorized: false } : false,
+        max: parseInt(process.env.DB_POOL_MAX || "5", 10),
+        idleTimeoutMillis: parseInt(process.env.DB_POOL_IDLE_TIMEOUT || "30000", 10),
+        connectionTimeoutMillis: parseInt(process.env.DB_POOL_CONNECTION_TIMEOUT || "2000", 10),
+      };
+      adminPool = new Pool(config);
+      adminPool.on("error", (err) => {
+        console.error("Unexpected error on idle admin database client", err);
+      });
+    } catch (error) {
+      throw new Error(`Invalid ADMIN_DATABASE_URL format: ${error}`);
+    }
+  }
+  return adminPool;
+}
+
+/** Admin pool when ADMIN_DATABASE_URL is set, otherwise null (pricing-only change-sets still work). */
+export function getAdminPoolIfConfigured(): Pool | null {
+  return process.env.ADMIN_DATABASE_URL ? getAdminPool() : null;
+}
+
+/** Close admin pool (e.g. on shutdown). */
+export async function closeAdminPool(): Promise<void> {
+  if (adminPool) {
+    await adminPool.end();
+    adminPool = null;
+    console.log("Admin database connection pool closed");
+  }
+}
@@ -8,7 +8,15 @@ import cors from "cors";
 import dotenv from "dotenv";
 import swaggerJsdoc from "swagger-jsdoc";
 import swaggerUi from "swagger-ui-express";
-import { getPool, testConnection, closePool, closePricingPool } from "./config/database";
+import {
+  getPool,
+  getPricingPool,
+  getAdminPoolIfConfigured,
+  testConnection,
+  closePool,
+  closePricingPool,
+  closeAdminPool,
+} from "./config/database";
 import formsRoutes from "./routes/forms.routes";
 import ordersRoutes from "./routes/orders.routes";
 import raynetRoutes from "./routes/raynet.routes";
@@ -17,9 +25,18 @@ import aresRoutes from "./routes/ares.routes";
 import geocodeRoutes from "./routes/geocode.routes";
 import erpOrdersRoutes from "./routes/erp-orders.routes";
 import retentionRoutes from "./routes/retention.routes";
+import contractSigningRoutes from "./routes/contract-signing.routes";
 import adminPricingPreviewRoutes from "./routes/admin/pricing-preview.routes";
 import adminBreakageCheckRoutes from "./routes/admin/breakage-check.routes";
 import adminChangeSetsRoutes from "./routes/admin/change-sets.routes";
+import adminExportMonitoringRoutes from "./routes/admin/export-monitoring.routes";
+import adminFieldMappingsRoutes from "./routes/admin/field-mappings.routes";
+import adminAccessRoutes from "./routes/admin/access.routes";
+import { startExportWorker, stopExportWorker } from "./services/export-queue.service";
+import { startExportReconciler, stopExportReconciler } from "./services/export-reconciler.service";
+import { logFieldMappingChecks } from "./services/field-mapping.service";
+import { startRaynetOrderSync, stopRaynetOrderSync } from "./services/raynet-order-sync.service";
+import { startChangeSetScheduler, stopChangeSetScheduler } from "./services/admin-change-set-scheduler.service";
 
 // Load environment variables
 dotenv.config();
@@ -29,7 +46,15 @@ const PORT = process.env.PORT || 3001;
 
 // Middleware: allow larger JSON bodies (e.g. form_json with surcharges/link subrows)
 app.use(cors());
-app.use(express.json({ limit: "512kb" }));
+app.use(
+  express.json({
+    limit: "512kb",
+    // Raw body kept for webhook signature verification (POST /api/raynet/webhook)
+    verify: (req, _res, buf) => {
+      (req as Request & { rawBody?: Buffer }).rawBody = buf;
+    },
+  })
+);
 app.use(express.urlencoded({ extended: true, limit: "512kb" }));
 
 // Swagger configuration
@@ -113,9 +138,13 @@ app.use("/api/ares", aresRoutes);
 app.use("/api/geocode", geocodeRoutes);
 app.use("/api/erp", erpOrdersRoutes);
 app.use("/api/retention", retentionRoutes);
+app.use("/api/signing", contractSigningRoutes);
 app.use("/api/admin/pricing", adminPricingPreviewRoutes);
 app.use("/api/admin/forms", adminBreakageCheckRoutes);
 app.use("/api/admin/change-sets", adminChangeSetsRoutes);
+app.use("/api/admin/exports", adminExportMonitoringRoutes);
+app.use("/api/admin/field-mappings", adminFieldMappingsRoutes);
+app.use("/api/admin/access", adminAccessRoutes);
 
 // Root endpoint
 app.get("/", (req: Request, res: Response) => {
@@ -158,16 +187,50 @@ const server = app.listen(PORT, async () => {
     console.error("Failed to connect to database:", error);
     console.error("Please ensure DATABASE_URL is set correctly");
   }
+
+  // Background worker for queued Raynet/ERP exports
+  try {
+    startExportWorker(getPool());
+    startExportReconciler(getPool());
+  } catch (error) {
+    console.error("Failed to start export worker:", error);
+  }
+
+  // Raynet → orders pull (the webhook covers changes in between)
+  startRaynetOrderSync(getPool());
+
+  // Scheduled change-set publishes (pricing DB; admin DB for form_structure entries)
+  try {
+    startChangeSetScheduler(
+      getPool(),
+      process.env.PRICING_DATABASE_URL ? getPricingPool() : null,
+      getAdminPoolIfConfigured()
+    );
+  } catch (error) {
+    console.error("Failed to start change-set scheduler:", error);
+  }
+
+  // Export field mappings vs. the live Raynet schema — logged only, never blocks startup
+  void logFieldMappingChecks(getPool());
 });
 
 // Graceful shutdown
 async function shutdown(): Promise<void> {
+  stopExportWorker();
+  stopExportReconciler();
+  stopRaynetOrderSync();
+  stopChangeSetScheduler();
   await closePool();
   try {
     await closePricingPool();
   } catch (e) {
     console.error("Error closing pricing pool:", e);
   }
+  try {
+    await closeAdminPool();
+  } catch (e) {
+    console.error("Error closing admin pool:", e);
+  }
 }
 
 process.on("SIGTERM", async () => {
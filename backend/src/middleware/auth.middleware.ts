@@ -6,6 +6,7 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import { UnauthorizedError } from "../utils/errors";
+import { Actor, USER_ROLES, UserRole } from "../types/access.types";
 
 /**
  * Extended Express Request with user information
@@ -16,6 +17,8 @@ export interface AuthenticatedRequest extends Request {
   raynetUserId?: string | null;
   /** Raynet display name (from auth) for ADMF Zprostredkovatel and export. */
   raynetUserName?: string | null;
+  /** Role claim (OVT / MNG / OFFICE / ADMIN); OVT when the token has none. */
+  userRole?: UserRole;
 }
 
 /**
@@ -26,10 +29,27 @@ interface JwtPayload {
   id?: string;
   raynet_id?: string | null;
   raynet_name?: string | null;
+  role?: string | null;
   iat?: number;
   exp?: number;
 }
 
+/**
+ * Role claim from the JWT → UserRole. Tokens issued before roles existed (or with an
+ * unknown value) are treated as a rep.
+ */
+export function normalizeUserRole(value: unknown): UserRole {
+  const upper = typeof value === "string" ? value.trim().toUpperCase() : "";
+  return (USER_ROLES as readonly string[]).includes(upper) ? (upper as UserRole) : "OVT";
+}
+
+/**
+ * Caller of an authenticated request, as passed to the order / form services.
+ */
+export function getActor(req: AuthenticatedRequest): Actor {
+  return { userId: req.userId!, role: req.userRole ?? "OVT" };
+}
+
 /**
  * Authentication middleware
  * Validates bearer token from Authorization header
@@ -93,6 +113,7 @@ export function authenticateToken(
     req.userEmail = userEmail;
     req.raynetUserId = decoded.raynet_id ?? null;
     req.raynetUserName = decoded.raynet_name ?? null;
+    req.userRole = normalizeUserRole(decoded.role);
 
     next();
   } catch (error: any) {
@@ -0,0 +1,330 @@
+/**
+ * Raw SQL queries for order access: owners, shares, teams and the access audit.
+ * Owner lookups are deliberately not scoped by user — order-access.service decides.
+ */
+
+import { Pool, PoolClient } from "pg";
+import {
+  AccessAuditRecord,
+  CreateAccessAuditParams,
+  OrderAccessLevel,
+  OrderOwnerRow,
+  OrderShareRecord,
+  TeamMemberRecord,
+  TeamRecord,
+} from "../types/access.types";
+import { DatabaseError } from "../utils/errors";
+
+/**
+ * Owner of a live (not deleted) order.
+ */
+export async function getOrderOwner(pool: Pool, orderId: number): Promise<OrderOwnerRow | null> {
+  const query = `SELECT id AS order_id, user_id AS owner_user_id FROM orders WHERE id = $1 AND deleted_at IS NULL`;
+  try {
+    const result = await pool.query(query, [orderId]);
+    return result.rows[0] ?? null;
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to get order owner: ${error.message}`, error);
+  }
+}
+
+/**
+ * Owner and order of a live form.
+ */
+export async function getFormOwner(
+  pool: Pool,
+  formId: number
+): Promise<{ form_id: number; order_id: number | null; owner_user_id: string } | null> {
+  const query = `SELECT id AS form_id, order_id, user_id AS owner_user_id FROM forms WHERE id = $1 AND deleted_at IS NULL`;
+  try {
+    const result = await pool.query(query, [formId]);
+    return result.rows[0] ?? null;
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to get form owner: ${error.message}`, error);
+  }
+}
+
+/**
+ * Explicit share of the order with the user, if any.
+ */
+export async function getOrderShareAccess(
+  pool: Pool,
+  orderId: number,
+  userId: string
+): Promise<OrderAccessLevel | null> {
+  const query = `SELECT access FROM order_shares WHERE order_id = $1 AND user_id = $2`;
+  try {
+    const result = await pool.query(query, [orderId, userId]);
+    return result.rows[0]?.access ?? null;
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to get order share: ${error.message}`, error);
+  }
+}
+
+/**
+ * True when both users are members of at least one common team.
+ */
+export async function shareTeam(pool: Pool, userId: string, otherUserId: string): Promise<boolean> {
+  const query = `
+    SELECT 1
+    FROM team_members a
+    JOIN team_members b ON b.team_id = a.team_id
+    WHERE a.user_id = $1 AND b.user_id = $2
+    LIMIT 1
+  `;
+  try {
+    const result = await pool.query(query, [userId, otherUserId]);
+    return result.rows.length > 0;
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to check team membership: ${error.message}`, error);
+  }
+}
+
+// ── Shares ───────────────────────────────────────────────────────
+
+export async function listOrderShares(pool: Pool, orderId: number): Promise<OrderShareRecord[]> {
+  const query = `SELECT * FROM order_shares WHERE order_id = $1 ORDER BY created_at, id`;
+  try {
+    const result = await pool.query(query, [orderId]);
+    return result.rows.map(mapRowToOrderShare);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to list order shares: ${error.message}`, error);
+  }
+}
+
+/**
+ * Create or change the share of an order with a user.
+ */
+export async function upsertOrderShare(
+  pool: Pool,
+  params: { order_id: number; user_id: string; access: OrderAccessLevel; granted_by: string }
+): Promise<OrderShareRecord> {
+  const query = `
+    INSERT INTO order_shares (order_id, user_id, access, granted_by)
+    VALUES ($1, $2, $3, $4)
+    ON CONFLICT (order_id, user_id)
+    DO UPDATE SET access = EXCLUDED.access, granted_by = EXCLUDED.granted_by, created_at = CURRENT_TIMESTAMP
+    RETURNING *
+  `;
+  try {
+    const result = await pool.query(query, [params.order_id, params.user_id, params.access, params.granted_by]);
+    return mapRowToOrderShare(result.rows[0]);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to share order: ${error.message}`, error);
+  }
+}
+
+/**
+ * @returns true when a share was removed
+ */
+export async function deleteOrderShare(pool: Pool, orderId: number, userId: string): Promise<boolean> {
+  try {
+    const result = await pool.query(`DELETE FROM order_shares WHERE order_id = $1 AND user_id = $2`, [
+      orderId,
+      userId,
+    ]);
+    return (result.rowCount ?? 0) > 0;
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to remove order share: ${error.message}`, error);
+  }
+}
+
+// ── Reassignment ─────────────────────────────────────────────────
+
+/**
+ * Lock a live order for reassignment.
+ */
+export async function lockOrderOwner(client: PoolClient, orderId: number): Promise<OrderOwnerRow | null> {
+  const query = `
+    SELECT id AS order_id, user_id AS owner_user_id
+    FROM orders
+    WHERE id = $1 AND deleted_at IS NULL
+    FOR UPDATE
+  `;
+  try {
+    const result = await client.query(query, [orderId]);
+    return result.rows[0] ?? null;
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to lock order: ${error.message}`, error);
+  }
+}
+
+/**
+ * Move the order and its forms to another owner. A share the new owner had is dropped
+ * (they own it now).
+ */
+export async function reassignOrder(client: PoolClient, orderId: number, toUserId: string): Promise<void> {
+  await client.query(
+    `UPDATE orders SET user_id = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+    [orderId, toUserId]
+  );
+  await client.query(`UPDATE forms SET user_id = $2 WHERE order_id = $1`, [orderId, toUserId]);
+  await client.query(`DELETE FROM order_shares WHERE order_id = $1 AND user_id = $2`, [orderId, toUserId]);
+}
+
+// ── Teams ────────────────────────────────────────────────────────
+
+export async function listTeams(pool: Pool): Promise<TeamRecord[]> {
+  try {
+    const teams = await pool.query(`SELECT * FROM teams ORDER BY name`);
+    const members = await pool.query(`SELECT * FROM team_members ORDER BY user_id`);
+    const byTeam = new Map<number, TeamMemberRecord[]>();
+    for (const row of members.rows) {
+      const list = byTeam.get(row.team_id) ?? [];
+      list.push(mapRowToTeamMember(row));
+      byTeam.set(row.team_id, list);
+    }
+    return teams.rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      created_at: new Date(row.created_at),
+      members: byTeam.get(row.id) ?? [],
+    }));
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to list teams: ${error.message}`, error);
+  }
+}
+
+/**
+ * @returns null when a team with that name already exists
+ */
+export async function createTeam(pool: Pool, name: string): Promise<TeamRecord | null> {
+  try {
+    const result = await pool.query(
+      `INSERT INTO teams (name) VALUES ($1) ON CONFLICT (name) DO NOTHING RETURNING *`,
+      [name]
+    );
+    const row = result.rows[0];
+    if (!row) return null;
+    return { id: row.id, name: row.name, created_at: new Date(row.created_at), members: [] };
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to create team: ${error.message}`, error);
+  }
+}
+
+/**
+ * @returns true when the team existed
+ */
+export async function deleteTeam(pool: Pool, teamId: number): Promise<boolean> {
+  try {
+    const result = await pool.query(`DELETE FROM teams WHERE id = $1`, [teamId]);
+    return (result.rowCount ?? 0) > 0;
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to delete team: ${error.message}`, error);
+  }
+}
+
+export async function teamExists(pool: Pool, teamId: number): Promise<boolean> {
+  try {
+    const result = await pool.query(`SELECT 1 FROM teams WHERE id = $1`, [teamId]);
+    return result.rows.length > 0;
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to get team: ${error.message}`, error);
+  }
+}
+
+export async function addTeamMember(pool: Pool, teamId: number, userId: string): Promise<TeamMemberRecord> {
+  const query = `
+    INSERT INTO team_members (team_id, user_id)
+    VALUES ($1, $2)
+    ON CONFLICT (team_id, user_id) DO UPDATE SET user_id = EXCLUDED.user_id
+    RETURNING *
+  `;
+  try {
+    const result = await pool.query(query, [teamId, userId]);
+    return mapRowToTeamMember(result.rows[0]);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to add team member: ${error.message}`, error);
+  }
+}
+
+/**
+ * @returns true when the user was a member
+ */
+export async function removeTeamMember(pool: Pool, teamId: number, userId: string): Promise<boolean> {
+  try {
+    const result = await pool.query(`DELETE FROM team_members WHERE team_id = $1 AND user_id = $2`, [
+      teamId,
+      userId,
+    ]);
+    return (result.rowCount ?? 0) > 0;
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to remove team member: ${error.message}`, error);
+  }
+}
+
+// ── Audit ────────────────────────────────────────────────────────
+
+export async function createAccessAudit(pool: Pool | PoolClient, params: CreateAccessAuditParams): Promise<void> {
+  const query = `
+    INSERT INTO order_access_audit (order_id, form_id, actor, actor_role, owner_user_id, access, basis, action)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+  `;
+  try {
+    await pool.query(query, [
+      params.order_id,
+      params.form_id ?? null,
+      params.actor,
+      params.actor_role,
+      params.owner_user_id,
+      params.access,
+      params.basis,
+      params.action,
+    ]);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to write access audit: ${error.message}`, error);
+  }
+}
+
+/**
+ * Audit rows, newest first, optionally filtered by order and/or actor.
+ */
+export async function listAccessAudit(
+  pool: Pool,
+  filter: { orderId?: number; actor?: string; limit: number }
+): Promise<AccessAuditRecord[]> {
+  const query = `
+    SELECT *
+    FROM order_access_audit
+    WHERE ($1::int IS NULL OR order_id = $1)
+      AND ($2::text IS NULL OR actor = $2)
+    ORDER BY created_at DESC, id DESC
+    LIMIT $3
+  `;
+  try {
+    const result = await pool.query(query, [filter.orderId ?? null, filter.actor ?? null, filter.limit]);
+    return result.rows.map((row) => ({
+      id: Number(row.id),
+      order_id: row.order_id,
+      form_id: row.form_id,
+      actor: row.actor,
+      actor_role: row.actor_role,
+      owner_user_id: row.owner_user_id,
+      access: row.access,
+      basis: row.basis,
+      action: row.action,
+      created_at: new Date(row.created_at),
+    }));
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to list access audit: ${error.message}`, error);
+  }
+}
+
+function mapRowToOrderShare(row: any): OrderShareRecord {
+  return {
+    id: row.id,
+    order_id: row.order_id,
+    user_id: row.user_id,
+    access: row.access,
+    granted_by: row.granted_by,
+    created_at: new Date(row.created_at),
+  };
+}
+
+function mapRowToTeamMember(row: any): TeamMemberRecord {
+  return {
+    team_id: row.team_id,
+    user_id: row.user_id,
+    created_at: new Date(row.created_at),
+  };
+}
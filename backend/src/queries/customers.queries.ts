@@ -0,0 +1,353 @@
+/**
+ * Raw SQL queries for local customer master records (table customers).
+ * Live Raynet / ERP lookups stay in raynet.queries / erp-customers.queries.
+ */
+
+import { Pool, PoolClient } from "pg";
+import {
+  CustomerConflicts,
+  CustomerDuplicateGroup,
+  CustomerInput,
+  CustomerMatchKeys,
+  CustomerRecord,
+} from "../types/customers.types";
+import { DatabaseError } from "../utils/errors";
+
+const CUSTOMER_COLUMNS = `id, name, email, phone, address, city, zipcode, ico, raynet_id, erp_customer_id, source_conflicts, conflicts_checked_at, merged_into_id, merged_by, merged_at, created_at, updated_at`;
+
+/**
+ * Get a customer by id (merged records included — the service follows merged_into_id).
+ */
+export async function getCustomerById(db: Pool | PoolClient, id: number): Promise<CustomerRecord | null> {
+  try {
+    const result = await db.query(`SELECT ${CUSTOMER_COLUMNS} FROM customers WHERE id = $1`, [id]);
+    return result.rows[0] ? mapRowToCustomerRecord(result.rows[0]) : null;
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to get customer: ${error.message}`, error);
+  }
+}
+
+/**
+ * Live (not merged) customers matching any of the ids / keys, strongest match first:
+ * Raynet id, ERP customer id, IČO, e-mail, phone; oldest record wins a tie.
+ */
+export async function findCustomerMatches(
+  db: Pool | PoolClient,
+  ids: { raynet_id: number | null; erp_customer_id: number | null },
+  keys: CustomerMatchKeys
+): Promise<CustomerRecord[]> {
+  const query = `
+    SELECT ${CUSTOMER_COLUMNS}
+    FROM customers
+    WHERE merged_into_id IS NULL
+      AND (raynet_id = $1 OR erp_customer_id = $2 OR ico_key = $3 OR email_key = $4 OR phone_key = $5)
+    ORDER BY
+      CASE
+        WHEN raynet_id = $1 THEN 0
+        WHEN erp_customer_id = $2 THEN 1
+        WHEN ico_key = $3 THEN 2
+        WHEN email_key = $4 THEN 3
+        ELSE 4
+      END,
+      id
+    LIMIT 20
+  `;
+  try {
+    const result = await db.query(query, [
+      ids.raynet_id,
+      ids.erp_customer_id,
+      keys.ico_key,
+      keys.email_key,
+      keys.phone_key,
+    ]);
+    return result.rows.map(mapRowToCustomerRecord);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to find customer matches: ${error.message}`, error);
+  }
+}
+
+/**
+ * Live customers with the given phone key (customer search).
+ */
+export async function searchCustomersByPhoneKey(pool: Pool, phoneKey: string, limit = 20): Promise<CustomerRecord[]> {
+  const query = `
+    SELECT ${CUSTOMER_COLUMNS}
+    FROM customers
+    WHERE merged_into_id IS NULL AND phone_key = $1
+    ORDER BY updated_at DESC
+    LIMIT $2
+  `;
+  try {
+    const result = await pool.query(query, [phoneKey, limit]);
+    return result.rows.map(mapRowToCustomerRecord);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to search customers: ${error.message}`, error);
+  }
+}
+
+/**
+ * Insert a customer.
+ */
+export async function createCustomer(
+  db: Pool | PoolClient,
+  data: CustomerInput,
+  keys: CustomerMatchKeys
+): Promise<CustomerRecord> {
+  const query = `
+    INSERT INTO customers (name, email, phone, address, city, zipcode, ico, raynet_id, erp_customer_id, phone_key, email_key, ico_key)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+    RETURNING ${CUSTOMER_COLUMNS}
+  `;
+  try {
+    const result = await db.query(query, [
+      data.name ?? null,
+      data.email ?? null,
+      data.phone ?? null,
+      data.address ?? null,
+      data.city ?? null,
+      data.zipcode ?? null,
+      data.ico ?? null,
+      data.raynet_id ?? null,
+      data.erp_customer_id ?? null,
+      keys.phone_key,
+      keys.email_key,
+      keys.ico_key,
+    ]);
+    return mapRowToCustomerRecord(result.rows[0]);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to create customer: ${error.message}`, error);
+  }
+}
+
+/**
+ * Fill fields the customer does not have yet (existing values are never overwritten, so
+ * one order's typo cannot rewrite the master record). Keys are filled the same way.
+ */
+export async function fillCustomerBlanks(
+  db: Pool | PoolClient,
+  id: number,
+  data: CustomerInput,
+  keys: CustomerMatchKeys
+): Promise<CustomerRecord> {
+  const query = `
+    UPDATE customers
+    SET name = COALESCE(NULLIF(name, ''), $2),
+        email = COALESCE(NULLIF(email, ''), $3),
+        phone = COALESCE(NULLIF(phone, ''), $4),
+        address = COALESCE(NULLIF(address, ''), $5),
+        city = COALESCE(NULLIF(city, ''), $6),
+        zipcode = COALESCE(NULLIF(zipcode, ''), $7),
+        ico = COALESCE(NULLIF(ico, ''), $8),
+        raynet_id = COALESCE(raynet_id, $9),
+        erp_customer_id = COALESCE(erp_customer_id, $10),
+        phone_key = COALESCE(phone_key, $11),
+        email_key = COALESCE(email_key, $12),
+        ico_key = COALESCE(ico_key, $13),
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = $1
+    RETURNING ${CUSTOMER_COLUMNS}
+  `;
+  try {
+    const result = await db.query(query, [
+      id,
+      data.name || null,
+      data.email || null,
+      data.phone || null,
+      data.address || null,
+      data.city || null,
+      data.zipcode || null,
+      data.ico || null,
+      data.raynet_id ?? null,
+      data.erp_customer_id ?? null,
+      keys.phone_key,
+      keys.email_key,
+      keys.ico_key,
+    ]);
+    return mapRowToCustomerRecord(result.rows[0]);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to update customer: ${error.message}`, error);
+  }
+}
+
+/**
+ * Store the Raynet ↔ ERP conflicts found for the customer's linked pair.
+ */
+export async function setCustomerSourceConflicts(
+  db: Pool | PoolClient,
+  id: number,
+  conflicts: CustomerConflicts
+): Promise<CustomerRecord> {
+  const query = `
+    UPDATE customers
+    SET source_conflicts = $2::jsonb,
+        conflicts_checked_at = CURRENT_TIMESTAMP,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = $1
+    RETURNING ${CUSTOMER_COLUMNS}
+  `;
+  try {
+    const result = await db.query(query, [id, JSON.stringify(conflicts)]);
+    return mapRowToCustomerRecord(result.rows[0]);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to store customer conflicts: ${error.message}`, error);
+  }
+}
+
+/**
+ * ADMF forms of the given orders, newest first.
+ */
+export async function listAdmfFormsForOrders(
+  pool: Pool,
+  orderIds: number[]
+): Promise<Array<{ id: number; order_id: number; form_json: Record<string, unknown>; created_at: Date; updated_at: Date }>> {
+  if (orderIds.length === 0) return [];
+  const query = `
+    SELECT id, order_id, form_json, created_at, updated_at
+    FROM forms
+    WHERE order_id = ANY($1::int[]) AND form_type = 'admf' AND deleted_at IS NULL
+    ORDER BY created_at DESC
+  `;
+  try {
+    const result = await pool.query(query, [orderIds]);
+    return result.rows.map((row) => ({
+      id: row.id,
+      order_id: row.order_id,
+      form_json: row.form_json ?? {},
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at),
+    }));
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to list customer ADMF forms: ${error.message}`, error);
+  }
+}
+
+/**
+ * Groups of live customers sharing a phone, e-mail or IČO key.
+ */
+export async function listDuplicateGroups(pool: Pool, limit: number): Promise<CustomerDuplicateGroup[]> {
+  const groupsQuery = `
+    SELECT key_type, key_value, ids
+    FROM (
+      SELECT 'ico' AS key_type, ico_key AS key_value, array_agg(id ORDER BY id) AS ids
+      FROM customers WHERE merged_into_id IS NULL AND ico_key IS NOT NULL
+      GROUP BY ico_key HAVING COUNT(*) > 1
+      UNION ALL
+      SELECT 'email', email_key, array_agg(id ORDER BY id)
+      FROM customers WHERE merged_into_id IS NULL AND email_key IS NOT NULL
+      GROUP BY email_key HAVING COUNT(*) > 1
+      UNION ALL
+      SELECT 'phone', phone_key, array_agg(id ORDER BY id)
+      FROM customers WHERE merged_into_id IS NULL AND phone_key IS NOT NULL
+      GROUP BY phone_key HAVING COUNT(*) > 1
+    ) g
+    ORDER BY array_length(ids, 1) DESC, key_type, key_value
+    LIMIT $1
+  `;
+  try {
+    const groups = await pool.query(groupsQuery, [limit]);
+    const allIds = [...new Set(groups.rows.flatMap((g) => g.ids as number[]))];
+    if (allIds.length === 0) return [];
+    const customers = await pool.query(`SELECT ${CUSTOMER_COLUMNS} FROM customers WHERE id = ANY($1::int[])`, [allIds]);
+    const byId = new Map<number, CustomerRecord>(
+      customers.rows.map((row) => [row.id, mapRowToCustomerRecord(row)])
+    );
+    return groups.rows.map((g) => ({
+      key_type: g.key_type,
+      key_value: g.key_value,
+      customers: (g.ids as number[]).map((id) => byId.get(id)).filter((c): c is CustomerRecord => c != null),
+    }));
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to list duplicate customers: ${error.message}`, error);
+  }
+}
+
+/**
+ * Lock two live customers for a merge (fixed order, so concurrent merges cannot deadlock).
+ */
+export async function lockCustomersForMerge(client: PoolClient, ids: number[]): Promise<CustomerRecord[]> {
+  const query = `
+    SELECT ${CUSTOMER_COLUMNS}
+    FROM customers
+    WHERE id = ANY($1::int[]) AND merged_into_id IS NULL
+    ORDER BY id
+    FOR UPDATE
+  `;
+  try {
+    const result = await client.query(query, [ids]);
+    return result.rows.map(mapRowToCustomerRecord);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to lock customers: ${error.message}`, error);
+  }
+}
+
+/**
+ * Merge source into target: move orders (live and deleted) and earlier merges, fill the
+ * target's blank fields from the source and mark the source as merged.
+ * @returns Ids of the live orders that moved
+ */
+export async function mergeCustomers(
+  client: PoolClient,
+  sourceId: number,
+  targetId: number,
+  mergedBy: string
+): Promise<number[]> {
+  try {
+    const moved = await client.query(
+      `UPDATE orders SET customer_id = $2 WHERE customer_id = $1 RETURNING id, deleted_at`,
+      [sourceId, targetId]
+    );
+    await client.query(`UPDATE customers SET merged_into_id = $2 WHERE merged_into_id = $1`, [sourceId, targetId]);
+    await client.query(
+      `
+      UPDATE customers t
+      SET name = COALESCE(NULLIF(t.name, ''), s.name),
+          email = COALESCE(NULLIF(t.email, ''), s.email),
+          phone = COALESCE(NULLIF(t.phone, ''), s.phone),
+          address = COALESCE(NULLIF(t.address, ''), s.address),
+          city = COALESCE(NULLIF(t.city, ''), s.city),
+          zipcode = COALESCE(NULLIF(t.zipcode, ''), s.zipcode),
+          ico = COALESCE(NULLIF(t.ico, ''), s.ico),
+          raynet_id = COALESCE(t.raynet_id, s.raynet_id),
+          erp_customer_id = COALESCE(t.erp_customer_id, s.erp_customer_id),
+          phone_key = COALESCE(t.phone_key, s.phone_key),
+          email_key = COALESCE(t.email_key, s.email_key),
+          ico_key = COALESCE(t.ico_key, s.ico_key),
+          updated_at = CURRENT_TIMESTAMP
+      FROM customers s
+      WHERE t.id = $2 AND s.id = $1
+      `,
+      [sourceId, targetId]
+    );
+    await client.query(
+      `UPDATE customers
+       SET merged_into_id = $2, merged_by = $3, merged_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [sourceId, targetId, mergedBy]
+    );
+    return moved.rows.filter((row) => row.deleted_at == null).map((row) => row.id as number);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to merge customers: ${error.message}`, error);
+  }
+}
+
+function mapRowToCustomerRecord(row: any): CustomerRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    email: row.email,
+    phone: row.phone,
+    address: row.address,
+    city: row.city,
+    zipcode: row.zipcode,
+    ico: row.ico,
+    raynet_id: row.raynet_id,
+    erp_customer_id: row.erp_customer_id,
+    source_conflicts: row.source_conflicts ?? {},
+    conflicts_checked_at: row.conflicts_checked_at ? new Date(row.conflicts_checked_at) : null,
+    merged_into_id: row.merged_into_id ?? null,
+    merged_by: row.merged_by ?? null,
+    merged_at: row.merged_at ? new Date(row.merged_at) : null,
+    created_at: new Date(row.created_at),
+    updated_at: new Date(row.updated_at),
+  };
+}
@@ -0,0 +1,137 @@
+/**
+ * Raw SQL queries for erp_order_products — which ERP product line belongs to which
+ * ADMF product row (see erp-export.service).
+ */
+
+import { Pool } from "pg";
+import { ErpOrderProductRecord, ErpProductPayload } from "../types/erp-export.types";
+import { DatabaseError } from "../utils/errors";
+
+/**
+ * All tracked product lines of an ERP order, whatever ADMF form created them.
+ */
+export async function getErpOrderProducts(
+  pool: Pool,
+  erpOrderId: number
+): Promise<ErpOrderProductRecord[]> {
+  const query = `
+    SELECT *
+    FROM erp_order_products
+    WHERE erp_order_id = $1
+    ORDER BY id
+  `;
+  try {
+    const result = await pool.query(query, [erpOrderId]);
+    return result.rows.map(mapRowToErpOrderProduct);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to get ERP order products: ${error.message}`, error);
+  }
+}
+
+/**
+ * Remember the ERP product id of an ADMF row (insert, or replace id + payload).
+ */
+export async function upsertErpOrderProduct(
+  pool: Pool,
+  params: {
+    erp_order_id: number;
+    form_id: number;
+    row_key: string;
+    erp_product_id: string;
+    payload: ErpProductPayload;
+    last_log_id: number;
+  }
+): Promise<void> {
+  const query = `
+    INSERT INTO erp_order_products (erp_order_id, form_id, row_key, erp_product_id, payload, last_log_id)
+    VALUES ($1, $2, $3, $4, $5::jsonb, $6)
+    ON CONFLICT (erp_order_id, form_id, row_key) DO UPDATE
+      SET erp_product_id = EXCLUDED.erp_product_id,
+          payload = EXCLUDED.payload,
+          last_log_id = EXCLUDED.last_log_id,
+          updated_at = CURRENT_TIMESTAMP
+  `;
+  try {
+    await pool.query(query, [
+      params.erp_order_id,
+      params.form_id,
+      params.row_key,
+      params.erp_product_id,
+      JSON.stringify(params.payload),
+      params.last_log_id,
+    ]);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to save ERP order product: ${error.message}`, error);
+  }
+}
+
+/**
+ * Product lines an earlier ERP export created or replaced on this ERP order but could
+ * not record (products_sync lines marked `untracked`), newest per form row. Rows that
+ * have been tracked since — by id or by form row — are left out.
+ */
+export async function getUntrackedErpProducts(
+  pool: Pool,
+  erpOrderId: number
+): Promise<Array<{ form_id: number; row_key: string; erp_product_id: string; payload: ErpProductPayload; log_id: number }>> {
+  const query = `
+    SELECT DISTINCT ON (l.form_id, line->>'row_key')
+      l.form_id,
+      line->>'row_key' AS row_key,
+      line->>'erp_product_id' AS erp_product_id,
+      (
+        SELECT p->'product'
+        FROM jsonb_array_elements(COALESCE(l.request_payload->'products', '[]'::jsonb)) p
+        WHERE p->>'row_key' = line->>'row_key'
+        LIMIT 1
+      ) AS payload,
+      l.id AS log_id
+    FROM export_logs l
+    CROSS JOIN LATERAL jsonb_array_elements(COALESCE(l.request_payload->'products_sync', '[]'::jsonb)) line
+    WHERE l.target = 'ERP'
+      AND l.external_id = $1
+      AND (line->>'untracked')::boolean IS TRUE
+      AND line->>'erp_product_id' IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM erp_order_products t
+        WHERE t.erp_order_id = $1
+          AND (t.erp_product_id = line->>'erp_product_id'
+               OR (t.form_id = l.form_id AND t.row_key = line->>'row_key'))
+      )
+    ORDER BY l.form_id, line->>'row_key', l.created_at DESC
+  `;
+  try {
+    const result = await pool.query(query, [erpOrderId]);
+    return result.rows.map((row) => ({
+      form_id: row.form_id,
+      row_key: row.row_key,
+      erp_product_id: row.erp_product_id,
+      payload: row.payload ?? {},
+      log_id: row.log_id,
+    }));
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to get untracked ERP order products: ${error.message}`, error);
+  }
+}
+
+export async function deleteErpOrderProduct(pool: Pool, id: number): Promise<void> {
+  try {
+    await pool.query(`DELETE FROM erp_order_products WHERE id = $1`, [id]);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to delete ERP order product: ${error.message}`, error);
+  }
+}
+
+function mapRowToErpOrderProduct(row: any): ErpOrderProductRecord {
+  return {
+    id: row.id,
+    erp_order_id: row.erp_order_id,
+    form_id: row.form_id,
+    row_key: row.row_key,
+    erp_product_id: row.erp_product_id,
+    payload: row.payload,
+    last_log_id: row.last_log_id,
+    created_at: new Date(row.created_at),
+    updated_at: new Date(row.updated_at),
+  };
+}
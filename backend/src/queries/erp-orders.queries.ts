@@ -42,3 +42,45 @@ export async function getErpOrdersByCustomerId(customerId: number): Promise<ErpO
     throw new InternalServerError(`Failed to fetch ERP orders: ${error?.message || "Unknown error"}`);
   }
 }
+
+export interface ErpOrderChangeState {
+  id: number;
+  status: string;
+  updated_at: string | null;
+  /** updated_at >= `since`, compared in the database. */
+  modified_since: boolean;
+}
+
+/**
+ * Current status of an ERP order and whether it changed since a given instant.
+ * The comparison runs in SQL so the replica's timestamp type doesn't matter.
+ *
+ * @param erpOrderId - ERP order id
+ * @param since - instant to compare updated_at against
+ * @returns the order state, or null when the order doesn't exist (or is deleted)
+ */
+export async function getErpOrderChangeState(
+  erpOrderId: number,
+  since: Date
+): Promise<ErpOrderChangeState | null> {
+  try {
+    await erpDb.initialize();
+
+    const sql = `
+      SELECT
+        id,
+        status,
+        updated_at::text AS updated_at,
+        COALESCE(updated_at >= $2, false) AS modified_since
+      FROM orders
+      WHERE id = $1
+        AND deleted_at IS NULL
+    `;
+
+    const result = await erpDb.query<ErpOrderChangeState>(sql, [erpOrderId, since]);
+    return result.rows[0] ?? null;
+  } catch (error: any) {
+    if (error?.statusCode) throw error;
+    throw new InternalServerError(`Failed to fetch ERP order ${erpOrderId}: ${error?.message || "Unknown error"}`);
+  }
+}
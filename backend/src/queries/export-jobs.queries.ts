@@ -0,0 +1,204 @@
+/**
+ * Raw SQL queries for export_jobs (durable export queue)
+ */
+
+import { Pool } from "pg";
+import {
+  ExportJobRecord,
+  EnqueueExportJobParams,
+  CompleteExportJobAttemptParams,
+} from "../types/export-jobs.types";
+import { DatabaseError } from "../utils/errors";
+
+/**
+ * Insert QUEUED jobs (one per target) in a single statement so a batch is
+ * either fully enqueued or not at all.
+ */
+export async function enqueueExportJobs(
+  pool: Pool,
+  jobs: EnqueueExportJobParams[]
+): Promise<ExportJobRecord[]> {
+  if (jobs.length === 0) return [];
+
+  const values: unknown[] = [];
+  const tuples = jobs.map((job, i) => {
+    const base = i * 9;
+    values.push(
+      job.export_batch_id,
+      job.target,
+      job.form_id,
+      job.user_id,
+      job.user_role,
+      job.raynet_user_name,
+      job.test_mode,
+      job.max_attempts,
+      job.confirmed_preview ? JSON.stringify(job.confirmed_preview) : null
+    );
+    return `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6}, $${base + 7}, 'QUEUED', $${base + 8}, $${base + 9})`;
+  });
+
+  const query = `
+    INSERT INTO export_jobs (export_batch_id, target, form_id, user_id, user_role, raynet_user_name, test_mode, status, max_attempts, confirmed_preview)
+    VALUES ${tuples.join(", ")}
+    RETURNING *
+  `;
+  try {
+    const result = await pool.query(query, values);
+    return result.rows.map(mapRowToExportJob);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to enqueue export jobs: ${error.message}`, error);
+  }
+}
+
+/**
+ * Claim the oldest runnable QUEUED job for this worker.
+ * FOR UPDATE SKIP LOCKED lets several backend instances poll the same table
+ * without ever handing one job to two workers.
+ */
+export async function claimNextExportJob(
+  pool: Pool,
+  workerId: string
+): Promise<ExportJobRecord | null> {
+  const query = `
+    UPDATE export_jobs
+       SET status = 'RUNNING',
+           attempts = attempts + 1,
+           locked_at = CURRENT_TIMESTAMP,
+           locked_by = $1,
+           updated_at = CURRENT_TIMESTAMP
+     WHERE id = (
+       SELECT id
+         FROM export_jobs
+        WHERE status = 'QUEUED' AND run_after <= CURRENT_TIMESTAMP
+        ORDER BY run_after, id
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+     )
+    RETURNING *
+  `;
+  try {
+    const result = await pool.query(query, [workerId]);
+    if (result.rows.length === 0) return null;
+    return mapRowToExportJob(result.rows[0]);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to claim export job: ${error.message}`, error);
+  }
+}
+
+/**
+ * Write the outcome of the current attempt and release the lock.
+ * Guarded by locked_by so a worker whose lock was swept as stale cannot
+ * overwrite the state of a newer attempt.
+ */
+export async function completeExportJobAttempt(
+  pool: Pool,
+  jobId: number,
+  workerId: string,
+  params: CompleteExportJobAttemptParams
+): Promise<void> {
+  const isTerminal = params.status === "SUCCESS" || params.status === "FAILED";
+  const query = `
+    UPDATE export_jobs
+       SET status = $1,
+           attempts = attempts - CASE WHEN $10 THEN 1 ELSE 0 END,
+           last_log_id = COALESCE($2, last_log_id),
+           last_error_message = $3,
+           last_error_code = $4,
+           result = $5::jsonb,
+           run_after = COALESCE($6, run_after),
+           locked_at = NULL,
+           locked_by = NULL,
+           updated_at = CURRENT_TIMESTAMP,
+           completed_at = CASE WHEN $7 THEN CURRENT_TIMESTAMP ELSE NULL END
+     WHERE id = $8 AND locked_by = $9
+  `;
+  try {
+    await pool.query(query, [
+      params.status,
+      params.last_log_id ?? null,
+      params.last_error_message ?? null,
+      params.last_error_code ?? null,
+      params.result ? JSON.stringify(params.result) : null,
+      params.run_after ?? null,
+      isTerminal,
+      jobId,
+      workerId,
+      params.attempt_not_run === true,
+    ]);
+  } catch (error: any) {
+    // Log but don't throw — the stale-lock sweep will pick the job up again
+    console.error(`Failed to complete export job ${jobId}:`, error.message);
+  }
+}
+
+/**
+ * Return RUNNING jobs whose lock is older than `staleAfterMs` to the queue
+ * (worker crashed or was restarted mid-export). Jobs that already used all
+ * attempts are failed instead.
+ * @returns Number of jobs touched
+ */
+export async function releaseStaleExportJobs(pool: Pool, staleAfterMs: number): Promise<number> {
+  const query = `
+    UPDATE export_jobs
+       SET status = CASE WHEN attempts >= max_attempts THEN 'FAILED' ELSE 'QUEUED' END,
+           last_error_message = 'Worker lock expired before the attempt finished',
+           last_error_code = 'WORKER_LOCK_EXPIRED',
+           locked_at = NULL,
+           locked_by = NULL,
+           updated_at = CURRENT_TIMESTAMP,
+           completed_at = CASE WHEN attempts >= max_attempts THEN CURRENT_TIMESTAMP ELSE NULL END
+     WHERE status = 'RUNNING'
+       AND locked_at < CURRENT_TIMESTAMP - ($1::int * INTERVAL '1 millisecond')
+  `;
+  try {
+    const result = await pool.query(query, [staleAfterMs]);
+    return result.rowCount ?? 0;
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to release stale export jobs: ${error.message}`, error);
+  }
+}
+
+/**
+ * All jobs of one export batch (for status polling — the caller checks access to the batch's form).
+ */
+export async function getExportJobsByBatchId(pool: Pool, exportBatchId: string): Promise<ExportJobRecord[]> {
+  const query = `
+    SELECT *
+    FROM export_jobs
+    WHERE export_batch_id = $1
+    ORDER BY id
+  `;
+  try {
+    const result = await pool.query(query, [exportBatchId]);
+    return result.rows.map(mapRowToExportJob);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to get export jobs: ${error.message}`, error);
+  }
+}
+
+function mapRowToExportJob(row: any): ExportJobRecord {
+  return {
+    id: row.id,
+    export_batch_id: row.export_batch_id,
+    target: row.target,
+    form_id: row.form_id,
+    user_id: row.user_id,
+    user_role: row.user_role ?? "OVT",
+    raynet_user_name: row.raynet_user_name,
+    test_mode: row.test_mode,
+    status: row.status,
+    attempts: row.attempts,
+    max_attempts: row.max_attempts,
+    run_after: new Date(row.run_after),
+    locked_at: row.locked_at ? new Date(row.locked_at) : null,
+    locked_by: row.locked_by,
+    last_log_id: row.last_log_id,
+    last_error_message: row.last_error_message,
+    last_error_code: row.last_error_code,
+    result: row.result,
+    confirmed_preview: row.confirmed_preview ?? null,
+    created_at: new Date(row.created_at),
+    updated_at: new Date(row.updated_at),
+    completed_at: row.completed_at ? new Date(row.completed_at) : null,
+  };
+}
@@ -1,50 +1,55 @@
 /**
- * Raw SQL queries for raynet_export_logs operations
+ * Raw SQL queries for the export_logs table — one row per export attempt of any
+ * target (Raynet, ERP, …), keyed by target; see export-target.service.
  */
 
 import { Pool } from "pg";
 import {
-  ExportLogRecord,
-  CreateExportLogParams,
-  UpdateExportLogParams,
-} from "../types/raynet-export.types";
+  CreateExportTargetLogParams,
+  ExportTargetId,
+  ExportTargetLogRecord,
+  UpdateExportTargetLogParams,
+} from "../types/export-target.types";
 import { DatabaseError } from "../utils/errors";
 
 /**
  * Insert a new export log with PENDING status.
  * This is the first write — must succeed before any fallible operation.
  */
-export async function createExportLog(
+export async function createExportTargetLog(
   pool: Pool,
-  params: CreateExportLogParams
+  target: ExportTargetId,
+  params: CreateExportTargetLogParams
 ): Promise<number> {
   const query = `
-    INSERT INTO raynet_export_logs (form_id, order_id, raynet_event_id, user_id, status, test_mode, export_batch_id)
-    VALUES ($1, $2, $3, $4, 'PENDING', $5, $6)
+    INSERT INTO export_logs (target, form_id, order_id, external_id, user_id, status, test_mode, export_batch_id, confirmed_preview)
+    VALUES ($1, $2, $3, $4, $5, 'PENDING', $6, $7, $8)
     RETURNING id
   `;
   try {
     const result = await pool.query(query, [
+      target,
       params.form_id,
       params.order_id,
-      params.raynet_event_id,
+      params.external_id,
       params.user_id,
       params.test_mode,
       params.export_batch_id ?? null,
+      params.confirmed_preview ? JSON.stringify(params.confirmed_preview) : null,
     ]);
     return result.rows[0].id;
   } catch (error: any) {
-    throw new DatabaseError(`Failed to create export log: ${error.message}`, error);
+    throw new DatabaseError(`Failed to create ${target} export log: ${error.message}`, error);
   }
 }
 
 /**
  * Update an existing export log. Only provided fields are updated.
  */
-export async function updateExportLog(
+export async function updateExportTargetLog(
   pool: Pool,
   logId: number,
-  params: UpdateExportLogParams
+  params: UpdateExportTargetLogParams
 ): Promise<void> {
   const setClauses: string[] = [];
   const values: unknown[] = [];
@@ -90,7 +95,7 @@ export async function updateExportLog(
   if (setClauses.length === 0) return;
 
   values.push(logId);
-  const query = `UPDATE raynet_export_logs SET ${setClauses.join(", ")} WHERE id = $${idx}`;
+  const query = `UPDATE export_logs SET ${setClauses.join(", ")} WHERE id = $${idx}`;
 
   try {
     await pool.query(query, values);
@@ -101,81 +106,63 @@ export async function updateExportLog(
 }
 
 /**
- * Get the most recent successful export log for a form (for display in UI).
+ * Get the most recent export log of a target for a form.
+ * @param successOnly - only SUCCESS / PARTIAL_SUCCESS rows (for display in UI)
  */
-export async function getLatestExportForForm(
+export async function getLatestExportTargetLogForForm(
   pool: Pool,
-  formId: number
-): Promise<ExportLogRecord | null> {
+  target: ExportTargetId,
+  formId: number,
+  successOnly: boolean
+): Promise<ExportTargetLogRecord | null> {
   const query = `
     SELECT *
-    FROM raynet_export_logs
-    WHERE form_id = $1 AND status IN ('SUCCESS', 'PARTIAL_SUCCESS')
+    FROM export_logs
+    WHERE target = $1 AND form_id = $2
+      ${successOnly ? "AND status IN ('SUCCESS', 'PARTIAL_SUCCESS')" : ""}
     ORDER BY created_at DESC
     LIMIT 1
   `;
   try {
-    const result = await pool.query(query, [formId]);
+    const result = await pool.query(query, [target, formId]);
     if (result.rows.length === 0) return null;
-    return mapRowToExportLog(result.rows[0]);
+    return mapRowToExportTargetLog(result.rows[0]);
   } catch (error: any) {
-    throw new DatabaseError(`Failed to get export log: ${error.message}`, error);
+    throw new DatabaseError(`Failed to get ${target} export log: ${error.message}`, error);
   }
 }
 
 /**
- * Get the most recent Raynet export log for a form (any status).
- * Used for progress polling and debugging.
+ * Get the most recent export log of a target for a given export_batch_id (any status).
  */
-export async function getLatestExportLogForFormAnyStatus(
-  pool: Pool,
-  formId: number
-): Promise<ExportLogRecord | null> {
-  const query = `
-    SELECT *
-    FROM raynet_export_logs
-    WHERE form_id = $1
-    ORDER BY created_at DESC
-    LIMIT 1
-  `;
-  try {
-    const result = await pool.query(query, [formId]);
-    if (result.rows.length === 0) return null;
-    return mapRowToExportLog(result.rows[0]);
-  } catch (error: any) {
-    throw new DatabaseError(`Failed to get export log: ${error.message}`, error);
-  }
-}
-
-/**
- * Get the most recent Raynet export log for a given export_batch_id (any status).
- */
-export async function getLatestExportLogByBatchId(
+export async function getLatestExportTargetLogByBatchId(
   pool: Pool,
+  target: ExportTargetId,
   exportBatchId: string
-): Promise<ExportLogRecord | null> {
+): Promise<ExportTargetLogRecord | null> {
   const query = `
     SELECT *
-    FROM raynet_export_logs
-    WHERE export_batch_id = $1
+    FROM export_logs
+    WHERE target = $1 AND export_batch_id = $2
     ORDER BY created_at DESC
     LIMIT 1
   `;
   try {
-    const result = await pool.query(query, [exportBatchId]);
+    const result = await pool.query(query, [target, exportBatchId]);
     if (result.rows.length === 0) return null;
-    return mapRowToExportLog(result.rows[0]);
+    return mapRowToExportTargetLog(result.rows[0]);
   } catch (error: any) {
-    throw new DatabaseError(`Failed to get export log: ${error.message}`, error);
+    throw new DatabaseError(`Failed to get ${target} export log: ${error.message}`, error);
   }
 }
 
-function mapRowToExportLog(row: any): ExportLogRecord {
+function mapRowToExportTargetLog(row: any): ExportTargetLogRecord & { target: string; external_id: number } {
   return {
     id: row.id,
+    target: row.target,
     form_id: row.form_id,
     order_id: row.order_id,
-    raynet_event_id: row.raynet_event_id,
+    external_id: Number(row.external_id),
     user_id: row.user_id,
     status: row.status,
     test_mode: row.test_mode,
@@ -186,6 +173,7 @@ function mapRowToExportLog(row: any): ExportLogRecord {
     error_code: row.error_code,
     warnings: row.warnings,
     duration_ms: row.duration_ms,
+    confirmed_preview: row.confirmed_preview ?? null,
     created_at: new Date(row.created_at),
     completed_at: row.completed_at ? new Date(row.completed_at) : null,
   };
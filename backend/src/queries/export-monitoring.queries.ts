@@ -0,0 +1,502 @@
+/**
+ * Raw SQL queries for the export monitoring dashboard (read-only, across sources).
+ *
+ * Raynet and ERP rows live in export_logs (scoped by target), retention rows in
+ * retention_logs. Both tables share the status/test_mode/error/warnings/duration
+ * columns; only the links differ (retention has no form, ERP keys on the order id).
+ * The per-source expressions below map them onto one row shape. Table, scope and
+ * column names come from this map only — never from request input.
+ */
+
+import { Pool } from "pg";
+import { DatabaseError } from "../utils/errors";
+import type {
+  ExportErrorBreakdownRow,
+  ExportKpis,
+  ExportLogDetail,
+  ExportLogListItem,
+  ExportLogPage,
+  ExportLogSearchFilters,
+  ExportLogSource,
+  ExportMonitoringRange,
+  ExportTimeBucket,
+  ExportUserActivityRow,
+  ExportWarningStat,
+  StuckExportRow,
+} from "../types/export-monitoring.types";
+
+interface SourceColumns {
+  table: string;
+  /** Condition on `l` that keeps the source's rows (export_logs holds every target). */
+  scope: string;
+  formId: string;
+  externalId: string;
+  kind: string;
+  exportBatchId: string;
+  reason: string;
+  raynetId: string;
+  erpOrderId: string;
+}
+
+const SOURCES: Record<ExportLogSource, SourceColumns> = {
+  raynet: {
+    table: "export_logs",
+    scope: "l.target = 'RAYNET'",
+    formId: "l.form_id",
+    externalId: "l.external_id::int4",
+    kind: "NULL::varchar",
+    exportBatchId: "l.export_batch_id",
+    reason: "NULL::text",
+    raynetId: "NULL::int4",
+    erpOrderId: "NULL::int4",
+  },
+  erp: {
+    table: "export_logs",
+    scope: "l.target = 'ERP'",
+    formId: "l.form_id",
+    externalId: "l.external_id::int4",
+    kind: "NULL::varchar",
+    exportBatchId: "l.export_batch_id",
+    reason: "NULL::text",
+    raynetId: "NULL::int4",
+    erpOrderId: "l.external_id::int4",
+  },
+  retention: {
+    table: "retention_logs",
+    scope: "TRUE",
+    formId: "NULL::int4",
+    externalId: "l.raynet_event_id",
+    kind: "l.kind",
+    exportBatchId: "NULL::uuid",
+    reason: "l.reason",
+    raynetId: "l.raynet_id",
+    erpOrderId: "l.erp_order_id",
+  },
+};
+
+/** PENDING / MAPPING / SENDING older than this counts as stuck. */
+const STUCK_INTERVAL = "5 minutes";
+const IN_FLIGHT_STATUSES = "('PENDING', 'MAPPING', 'SENDING')";
+const SUCCESS_STATUSES = "('SUCCESS', 'PARTIAL_SUCCESS')";
+
+/** Buckets follow the Czech calendar day, not the DB session time zone. */
+const BUCKET_TIME_ZONE = "Europe/Prague";
+
+const SORT_COLUMNS: Record<ExportLogSearchFilters["sort"], string> = {
+  id: "l.id",
+  created_at: "l.created_at",
+  user_id: "l.user_id",
+  status: "l.status",
+  duration_ms: "l.duration_ms",
+};
+
+function listColumns(source: ExportLogSource): string {
+  const c = SOURCES[source];
+  return `
+    l.id,
+    l.created_at,
+    l.completed_at,
+    l.user_id,
+    l.order_id,
+    ${c.formId} AS form_id,
+    ${c.externalId} AS external_id,
+    l.status,
+    l.test_mode,
+    l.error_code,
+    l.error_message,
+    l.duration_ms,
+    jsonb_array_length(
+      CASE WHEN jsonb_typeof(l.warnings) = 'array' THEN l.warnings ELSE '[]'::jsonb END
+    ) AS warning_count,
+    ${c.kind} AS kind,
+    o.name AS order_customer_name,
+    f.form_json->>'name' AS form_variant_name
+  `;
+}
+
+function fromWithJoins(source: ExportLogSource): string {
+  const c = SOURCES[source];
+  return `
+    FROM ${c.table} l
+    LEFT JOIN orders o ON o.id = l.order_id
+    LEFT JOIN forms f ON f.id = ${c.formId}
+  `;
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (ch) => `\\${ch}`);
+}
+
+function buildSearchWhere(filters: ExportLogSearchFilters): { sql: string; values: unknown[] } {
+  const clauses = [SOURCES[filters.source].scope, "l.created_at >= $1", "l.created_at < $2"];
+  const values: unknown[] = [filters.from, filters.to];
+  let idx = 3;
+
+  if (filters.statuses && filters.statuses.length > 0) {
+    clauses.push(`l.status = ANY($${idx++}::text[])`);
+    values.push(filters.statuses);
+  }
+  if (filters.test_mode !== undefined) {
+    clauses.push(`l.test_mode = $${idx++}`);
+    values.push(filters.test_mode);
+  }
+  if (filters.user_id) {
+    clauses.push(`l.user_id = $${idx++}`);
+    values.push(filters.user_id);
+  }
+  if (filters.error_code) {
+    clauses.push(`l.error_code = $${idx++}`);
+    values.push(filters.error_code);
+  }
+  if (filters.q) {
+    clauses.push(`l.error_message ILIKE '%' || $${idx++} || '%'`);
+    values.push(escapeLike(filters.q));
+  }
+  return { sql: clauses.join(" AND "), values };
+}
+
+function toNumber(value: unknown): number {
+  return value == null ? 0 : Number(value);
+}
+
+function mapListRow(source: ExportLogSource, row: any): ExportLogListItem {
+  return {
+    id: row.id,
+    source,
+    created_at: new Date(row.created_at),
+    completed_at: row.completed_at ? new Date(row.completed_at) : null,
+    user_id: row.user_id,
+    order_id: row.order_id ?? null,
+    form_id: row.form_id ?? null,
+    external_id: row.external_id ?? null,
+    status: row.status,
+    test_mode: row.test_mode,
+    error_code: row.error_code ?? null,
+    error_message: row.error_message ?? null,
+    duration_ms: row.duration_ms ?? null,
+    warning_count: toNumber(row.warning_count),
+    kind: row.kind ?? null,
+    order_customer_name: row.order_customer_name ?? null,
+    form_variant_name: row.form_variant_name ?? null,
+  };
+}
+
+/**
+ * KPI cards for a range (spec §3.3.1). Success includes PARTIAL_SUCCESS.
+ */
+export async function getExportKpis(
+  pool: Pool,
+  source: ExportLogSource,
+  range: ExportMonitoringRange
+): Promise<ExportKpis> {
+  const query = `
+    SELECT
+      COUNT(*) AS total,
+      COUNT(*) FILTER (WHERE status IN ${SUCCESS_STATUSES}) AS success_count,
+      COUNT(*) FILTER (WHERE status = 'PARTIAL_SUCCESS') AS partial_success_count,
+      COUNT(*) FILTER (WHERE status = 'FAILED') AS failed_count,
+      COUNT(*) FILTER (WHERE status IN ${IN_FLIGHT_STATUSES}
+        AND created_at < NOW() - INTERVAL '${STUCK_INTERVAL}') AS stuck_count,
+      ROUND(AVG(duration_ms) FILTER (WHERE status IN ${SUCCESS_STATUSES})) AS avg_duration_ms,
+      COUNT(*) FILTER (WHERE test_mode = true) AS test_count,
+      COUNT(*) FILTER (WHERE test_mode = false) AS prod_count
+    FROM ${SOURCES[source].table} l
+    WHERE ${SOURCES[source].scope} AND created_at >= $1 AND created_at < $2
+  `;
+  try {
+    const result = await pool.query(query, [range.from, range.to]);
+    const row = result.rows[0];
+    const total = toNumber(row.total);
+    const success = toNumber(row.success_count);
+    return {
+      total,
+      success_count: success,
+      partial_success_count: toNumber(row.partial_success_count),
+      failed_count: toNumber(row.failed_count),
+      stuck_count: toNumber(row.stuck_count),
+      avg_duration_ms: row.avg_duration_ms == null ? null : Number(row.avg_duration_ms),
+      test_count: toNumber(row.test_count),
+      prod_count: toNumber(row.prod_count),
+      success_rate: total > 0 ? Math.round((success / total) * 1000) / 10 : null,
+    };
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to load export KPIs: ${error.message}`, error);
+  }
+}
+
+/**
+ * Success / failed counts per hour or per day (spec §3.3.2), in Prague time.
+ */
+export async function getExportTimeBuckets(
+  pool: Pool,
+  source: ExportLogSource,
+  range: ExportMonitoringRange,
+  granularity: "hour" | "day"
+): Promise<ExportTimeBucket[]> {
+  const query = `
+    SELECT
+      date_trunc('${granularity}', created_at AT TIME ZONE '${BUCKET_TIME_ZONE}')
+        AT TIME ZONE '${BUCKET_TIME_ZONE}' AS bucket,
+      COUNT(*) FILTER (WHERE status IN ${SUCCESS_STATUSES}) AS success,
+      COUNT(*) FILTER (WHERE status = 'FAILED') AS failed
+    FROM ${SOURCES[source].table} l
+    WHERE ${SOURCES[source].scope} AND created_at >= $1 AND created_at < $2
+    GROUP BY bucket
+    ORDER BY bucket
+  `;
+  try {
+    const result = await pool.query(query, [range.from, range.to]);
+    return result.rows.map((row) => ({
+      bucket: new Date(row.bucket),
+      success: toNumber(row.success),
+      failed: toNumber(row.failed),
+    }));
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to load export time buckets: ${error.message}`, error);
+  }
+}
+
+/** FAILED logs grouped by error_code (spec §3.3.3). */
+export async function getExportErrorBreakdown(
+  pool: Pool,
+  source: ExportLogSource,
+  range: ExportMonitoringRange
+): Promise<ExportErrorBreakdownRow[]> {
+  const query = `
+    SELECT error_code, COUNT(*) AS count
+    FROM ${SOURCES[source].table} l
+    WHERE ${SOURCES[source].scope} AND status = 'FAILED' AND created_at >= $1 AND created_at < $2
+    GROUP BY error_code
+    ORDER BY count DESC
+  `;
+  try {
+    const result = await pool.query(query, [range.from, range.to]);
+    return result.rows.map((row) => ({
+      error_code: row.error_code ?? null,
+      count: toNumber(row.count),
+    }));
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to load export error breakdown: ${error.message}`, error);
+  }
+}
+
+/** Per-user totals (spec §3.3.6). */
+export async function getExportUserActivity(
+  pool: Pool,
+  source: ExportLogSource,
+  range: ExportMonitoringRange
+): Promise<ExportUserActivityRow[]> {
+  const query = `
+    SELECT
+      user_id,
+      COUNT(*) AS total,
+      COUNT(*) FILTER (WHERE status IN ${SUCCESS_STATUSES}) AS success_count,
+      COUNT(*) FILTER (WHERE status = 'FAILED') AS failed_count,
+      COUNT(*) FILTER (WHERE test_mode = true) AS test_count,
+      COUNT(*) FILTER (WHERE test_mode = false) AS prod_count,
+      MAX(created_at) AS last_export_at
+    FROM ${SOURCES[source].table} l
+    WHERE ${SOURCES[source].scope} AND created_at >= $1 AND created_at < $2
+    GROUP BY user_id
+    ORDER BY total DESC
+  `;
+  try {
+    const result = await pool.query(query, [range.from, range.to]);
+    return result.rows.map((row) => ({
+      user_id: row.user_id,
+      total: toNumber(row.total),
+      success_count: toNumber(row.success_count),
+      failed_count: toNumber(row.failed_count),
+      test_count: toNumber(row.test_count),
+      prod_count: toNumber(row.prod_count),
+      last_export_at: new Date(row.last_export_at),
+    }));
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to load export user activity: ${error.message}`, error);
+  }
+}
+
+/** Most common warning code / field pairs (spec §3.3.9). */
+export async function getExportWarningStats(
+  pool: Pool,
+  source: ExportLogSource,
+  range: ExportMonitoringRange,
+  limit = 20
+): Promise<ExportWarningStat[]> {
+  const query = `
+    SELECT
+      w->>'code' AS warning_code,
+      w->>'field' AS warning_field,
+      COUNT(*) AS occurrences
+    FROM ${SOURCES[source].table} l,
+      jsonb_array_elements(
+        CASE WHEN jsonb_typeof(l.warnings) = 'array' THEN l.warnings ELSE '[]'::jsonb END
+      ) AS w
+    WHERE ${SOURCES[source].scope} AND l.created_at >= $1 AND l.created_at < $2
+    GROUP BY warning_code, warning_field
+    ORDER BY occurrences DESC
+    LIMIT $3
+  `;
+  try {
+    const result = await pool.query(query, [range.from, range.to, limit]);
+    return result.rows.map((row) => ({
+      warning_code: row.warning_code ?? null,
+      warning_field: row.warning_field ?? null,
+      occurrences: toNumber(row.occurrences),
+    }));
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to load export warning stats: ${error.message}`, error);
+  }
+}
+
+/** In-flight logs older than the stuck threshold, any date (spec §3.3.7). */
+export async function getStuckExports(
+  pool: Pool,
+  source: ExportLogSource,
+  limit = 50
+): Promise<StuckExportRow[]> {
+  const c = SOURCES[source];
+  const query = `
+    SELECT l.id, ${c.formId} AS form_id, l.order_id, l.user_id, l.status, l.created_at
+    FROM ${c.table} l
+    WHERE ${c.scope}
+      AND l.status IN ${IN_FLIGHT_STATUSES}
+      AND l.created_at < NOW() - INTERVAL '${STUCK_INTERVAL}'
+    ORDER BY l.created_at
+    LIMIT $1
+  `;
+  try {
+    const result = await pool.query(query, [limit]);
+    return result.rows.map((row) => ({
+      id: row.id,
+      form_id: row.form_id ?? null,
+      order_id: row.order_id ?? null,
+      user_id: row.user_id,
+      status: row.status,
+      created_at: new Date(row.created_at),
+    }));
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to load stuck exports: ${error.message}`, error);
+  }
+}
+
+/**
+ * Last-hour health for the alert banners (spec §3.3.8 + failure rate).
+ * Auth failures cover both RAYNET_AUTH_FAILED and ERP_AUTH_FAILED.
+ */
+export async function getLastHourHealth(
+  pool: Pool,
+  source: ExportLogSource
+): Promise<{ total: number; success: number; auth_failures: number }> {
+  const query = `
+    SELECT
+      COUNT(*) AS total,
+      COUNT(*) FILTER (WHERE status IN ${SUCCESS_STATUSES}) AS success,
+      COUNT(*) FILTER (WHERE error_code IN ('RAYNET_AUTH_FAILED', 'ERP_AUTH_FAILED')) AS auth_failures
+    FROM ${SOURCES[source].table} l
+    WHERE ${SOURCES[source].scope} AND created_at >= NOW() - INTERVAL '1 hour'
+  `;
+  try {
+    const result = await pool.query(query);
+    const row = result.rows[0];
+    return {
+      total: toNumber(row.total),
+      success: toNumber(row.success),
+      auth_failures: toNumber(row.auth_failures),
+    };
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to load last-hour export health: ${error.message}`, error);
+  }
+}
+
+/**
+ * Filtered, sorted, paginated log list (spec §3.3.4). id breaks ties so pages are stable.
+ */
+export async function searchExportLogs(
+  pool: Pool,
+  filters: ExportLogSearchFilters
+): Promise<ExportLogPage> {
+  const { sql: where, values } = buildSearchWhere(filters);
+  const direction = filters.direction === "asc" ? "ASC" : "DESC";
+  const orderBy =
+    filters.sort === "id"
+      ? `l.id ${direction}`
+      : `${SORT_COLUMNS[filters.sort]} ${direction} NULLS LAST, l.id ${direction}`;
+  const offset = (filters.page - 1) * filters.page_size;
+
+  const listQuery = `
+    SELECT ${listColumns(filters.source)}
+    ${fromWithJoins(filters.source)}
+    WHERE ${where}
+    ORDER BY ${orderBy}
+    LIMIT $${values.length + 1} OFFSET $${values.length + 2}
+  `;
+  const countQuery = `
+    SELECT COUNT(*) AS total
+    FROM ${SOURCES[filters.source].table} l
+    WHERE ${where}
+  `;
+  try {
+    const [listResult, countResult] = await Promise.all([
+      pool.query(listQuery, [...values, filters.page_size, offset]),
+      pool.query(countQuery, values),
+    ]);
+    return {
+      items: listResult.rows.map((row) => mapListRow(filters.source, row)),
+      total: toNumber(countResult.rows[0].total),
+      page: filters.page,
+      page_size: filters.page_size,
+    };
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to search export logs: ${error.message}`, error);
+  }
+}
+
+/** One log with payloads and order / form context (spec §3.3.5). */
+export async function getExportLogDetail(
+  pool: Pool,
+  source: ExportLogSource,
+  id: number
+): Promise<ExportLogDetail | null> {
+  const c = SOURCES[source];
+  const query = `
+    SELECT
+      ${listColumns(source)},
+      l.request_payload,
+      l.response_status,
+      l.response_body,
+      l.warnings,
+      ${c.exportBatchId} AS export_batch_id,
+      ${c.reason} AS reason,
+      ${c.raynetId} AS raynet_id,
+      ${c.erpOrderId} AS erp_order_id,
+      o.email AS order_email,
+      o.phone AS order_phone,
+      o.source_raynet_event_id,
+      f.form_type
+    ${fromWithJoins(source)}
+    WHERE l.id = $1 AND ${c.scope}
+  `;
+  try {
+    const result = await pool.query(query, [id]);
+    if (result.rows.length === 0) return null;
+    const row = result.rows[0];
+    return {
+      ...mapListRow(source, row),
+      request_payload: row.request_payload ?? null,
+      response_status: row.response_status ?? null,
+      response_body: row.response_body ?? null,
+      warnings: row.warnings ?? null,
+      export_batch_id: row.export_batch_id ?? null,
+      order_email: row.order_email ?? null,
+      order_phone: row.order_phone ?? null,
+      source_raynet_event_id: row.source_raynet_event_id ?? null,
+      form_type: row.form_type ?? null,
+      reason: row.reason ?? null,
+      raynet_id: row.raynet_id ?? null,
+      erp_order_id: row.erp_order_id ?? null,
+    };
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to load export log: ${error.message}`, error);
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Raw SQL queries for field_mappings (versioned export field mappings).
+ */
+
+import { Pool } from "pg";
+import {
+  FieldMappingEntry,
+  FieldMappingOrigin,
+  FieldMappingTarget,
+  FieldMappingVersion,
+  FieldMappingVersionSummary,
+} from "../types/field-mapping.types";
+import { DatabaseError } from "../utils/errors";
+
+/**
+ * Highest version of a target's mapping, or null when none is stored.
+ */
+export async function getActiveFieldMapping(
+  pool: Pool,
+  target: FieldMappingTarget
+): Promise<FieldMappingVersion | null> {
+  const query = `
+    SELECT *
+    FROM field_mappings
+    WHERE target = $1
+    ORDER BY version DESC
+    LIMIT 1
+  `;
+  try {
+    const result = await pool.query(query, [target]);
+    if (result.rows.length === 0) return null;
+    return mapRowToFieldMapping(result.rows[0]);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to get ${target} field mapping: ${error.message}`, error);
+  }
+}
+
+export async function getFieldMappingVersion(
+  pool: Pool,
+  target: FieldMappingTarget,
+  version: number
+): Promise<FieldMappingVersion | null> {
+  try {
+    const result = await pool.query(
+      `SELECT * FROM field_mappings WHERE target = $1 AND version = $2`,
+      [target, version]
+    );
+    if (result.rows.length === 0) return null;
+    return mapRowToFieldMapping(result.rows[0]);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to get ${target} field mapping v${version}: ${error.message}`, error);
+  }
+}
+
+/**
+ * All versions of a target, newest first (without entries).
+ */
+export async function listFieldMappingVersions(
+  pool: Pool,
+  target: FieldMappingTarget
+): Promise<FieldMappingVersionSummary[]> {
+  const query = `
+    SELECT id, target, version, origin, note, created_at, jsonb_array_length(entries) AS entry_count
+    FROM field_mappings
+    WHERE target = $1
+    ORDER BY version DESC
+  `;
+  try {
+    const result = await pool.query(query, [target]);
+    return result.rows.map((row) => ({
+      id: row.id,
+      target: row.target,
+      version: row.version,
+      origin: row.origin,
+      note: row.note,
+      created_at: new Date(row.created_at),
+      entry_count: Number(row.entry_count),
+    }));
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to list ${target} field mappings: ${error.message}`, error);
+  }
+}
+
+/**
+ * Append a new version (max + 1). Two concurrent saves collide on UNIQUE (target, version)
+ * and the second one fails instead of silently overwriting.
+ */
+export async function insertFieldMappingVersion(
+  pool: Pool,
+  params: {
+    target: FieldMappingTarget;
+    entries: FieldMappingEntry[];
+    origin: FieldMappingOrigin;
+    note: string | null;
+  }
+): Promise<FieldMappingVersion> {
+  const query = `
+    INSERT INTO field_mappings (target, version, entries, origin, note)
+    SELECT $1, COALESCE(MAX(version), 0) + 1, $2::jsonb, $3, $4
+    FROM field_mappings
+    WHERE target = $1
+    RETURNING *
+  `;
+  try {
+    const result = await pool.query(query, [
+      params.target,
+      JSON.stringify(params.entries),
+      params.origin,
+      params.note,
+    ]);
+    return mapRowToFieldMapping(result.rows[0]);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to save ${params.target} field mapping: ${error.message}`, error);
+  }
+}
+
+function mapRowToFieldMapping(row: any): FieldMappingVersion {
+  return {
+    id: row.id,
+    target: row.target,
+    version: row.version,
+    entries: row.entries,
+    origin: row.origin,
+    note: row.note,
+    created_at: new Date(row.created_at),
+  };
+}
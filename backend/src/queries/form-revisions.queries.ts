@@ -0,0 +1,78 @@
+/**
+ * Raw SQL queries for form_revisions (form history).
+ * Rows are written by forms.queries (createForm / updateForm) in the same
+ * statement as the forms write; this module only reads them.
+ */
+
+import { Pool } from "pg";
+import { FormRevisionSummary, FormRevisionRecord } from "../types/form-revisions.types";
+import { DatabaseError } from "../utils/errors";
+
+/**
+ * List revisions of a form (newest first), without form_json.
+ * Scoped to forms owned by the user and not deleted.
+ */
+export async function listFormRevisions(
+  pool: Pool,
+  formId: number,
+  userId: string
+): Promise<FormRevisionSummary[]> {
+  const query = `
+    SELECT r.id, r.form_id, r.revision, r.user_id, r.source, r.restored_from_revision, r.created_at
+    FROM form_revisions r
+    JOIN forms f ON f.id = r.form_id
+    WHERE r.form_id = $1 AND f.user_id = $2 AND f.deleted_at IS NULL
+    ORDER BY r.revision DESC
+  `;
+
+  try {
+    const result = await pool.query(query, [formId, userId]);
+    return result.rows.map(mapRowToRevisionSummary);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to list form revisions: ${error.message}`, error);
+  }
+}
+
+/**
+ * Get one revision including form_json
+ * @returns Revision or null if the form / revision does not exist or is not the user's
+ */
+export async function getFormRevision(
+  pool: Pool,
+  formId: number,
+  revision: number,
+  userId: string
+): Promise<FormRevisionRecord | null> {
+  const query = `
+    SELECT r.id, r.form_id, r.revision, r.user_id, r.source, r.restored_from_revision, r.created_at, r.form_json
+    FROM form_revisions r
+    JOIN forms f ON f.id = r.form_id
+    WHERE r.form_id = $1 AND r.revision = $2 AND f.user_id = $3 AND f.deleted_at IS NULL
+  `;
+
+  try {
+    const result = await pool.query(query, [formId, revision, userId]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+    const row = result.rows[0];
+    return {
+      ...mapRowToRevisionSummary(row),
+      form_json: typeof row.form_json === "string" ? JSON.parse(row.form_json) : row.form_json,
+    };
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to get form revision: ${error.message}`, error);
+  }
+}
+
+function mapRowToRevisionSummary(row: any): FormRevisionSummary {
+  return {
+    id: row.id,
+    form_id: row.form_id,
+    revision: row.revision,
+    user_id: row.user_id,
+    source: row.source,
+    restored_from_revision: row.restored_from_revision ?? null,
+    created_at: new Date(row.created_at),
+  };
+}
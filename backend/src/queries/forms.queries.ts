@@ -5,28 +5,41 @@
 
 import { Pool } from "pg";
 import { FormType, FormRecord, ListFormsQuery } from "../types/forms.types";
+import { FormRevisionWriteMeta } from "../types/form-revisions.types";
 import { DatabaseError, NotFoundError } from "../utils/errors";
 
 /**
- * Create a new form record
+ * Create a new form record (also writes revision 1 to form_revisions)
  * @param pool - Database connection pool
- * @param userId - User ID (email)
+ * @param userId - User ID (email) of the owner
+ * @param actorId - User creating it (author of revision 1; differs from the owner for
+ *   managers, office and shares)
  * @param formType - Type of form
  * @param formJson - Form data as JSON object
  * @param orderId - Optional order ID to link form to
- * @returns Created form record
+ * @param clientRequestId - Optional idempotency key (unique per owner)
+ * @returns Created form record, or null when a form with this key already exists
  */
 export async function createForm(
   pool: Pool,
   userId: string,
+  actorId: string,
   formType: FormType,
   formJson: Record<string, any>,
-  orderId?: number | null
-): Promise<FormRecord> {
+  orderId?: number | null,
+  clientRequestId?: string | null
+): Promise<FormRecord | null> {
   const query = `
-    INSERT INTO forms (user_id, form_type, form_json, order_id)
-    VALUES ($1, $2, $3::jsonb, $4)
-    RETURNING id, user_id, form_type, form_json, order_id, created_at, updated_at, deleted_at
+    WITH inserted AS (
+      INSERT INTO forms (user_id, form_type, form_json, order_id, client_request_id)
+      VALUES ($1, $2, $3::jsonb, $4, $5)
+      ON CONFLICT (user_id, client_request_id) WHERE client_request_id IS NOT NULL DO NOTHING
+      RETURNING id, user_id, form_type, form_json, order_id, revision, created_at, updated_at, deleted_at
+    ), history AS (
+      INSERT INTO form_revisions (form_id, revision, form_json, user_id, source)
+      SELECT id, revision, form_json, $6, 'CREATE' FROM inserted
+    )
+    SELECT * FROM inserted
   `;
 
   try {
@@ -35,13 +48,43 @@ export async function createForm(
       formType,
       JSON.stringify(formJson),
       orderId ?? null,
+      clientRequestId ?? null,
+      actorId,
     ]);
+    if (result.rows.length === 0) return null;
     return mapRowToFormRecord(result.rows[0]);
   } catch (error: any) {
     throw new DatabaseError(`Failed to create form: ${error.message}`, error);
   }
 }
 
+/**
+ * Form created earlier by a request with this idempotency key (deleted ones included).
+ * @param userId - Form owner
+ * @param clientRequestId - `client_request_id` the create request carried
+ */
+export async function getFormByClientRequestId(
+  pool: Pool,
+  userId: string,
+  clientRequestId: string
+): Promise<FormRecord | null> {
+  const query = `
+    SELECT id, user_id, form_type, form_json, order_id, revision, created_at, updated_at, deleted_at
+    FROM forms
+    WHERE user_id = $1 AND client_request_id = $2
+  `;
+
+  try {
+    const result = await pool.query(query, [userId, clientRequestId]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+    return mapRowToFormRecord(result.rows[0]);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to get form: ${error.message}`, error);
+  }
+}
+
 /**
  * Get a form by ID (only if not deleted and belongs to user)
  * @param pool - Database connection pool
@@ -51,7 +94,7 @@ export async function createForm(
  */
 export async function getFormById(pool: Pool, id: number, userId: string): Promise<FormRecord | null> {
   const query = `
-    SELECT id, user_id, form_type, form_json, order_id, created_at, updated_at, deleted_at
+    SELECT id, user_id, form_type, form_json, order_id, revision, created_at, updated_at, deleted_at
     FROM forms
     WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL
   `;
@@ -108,7 +151,7 @@ export async function getFormsByUserId(
 
   // Get paginated results
   const dataQuery = `
-    SELECT id, user_id, form_type, form_json, order_id, created_at, updated_at, deleted_at
+    SELECT id, user_id, form_type, form_json, order_id, revision, created_at, updated_at, deleted_at
     FROM forms
     WHERE ${whereClause}
     ORDER BY created_at DESC
@@ -127,28 +170,50 @@ export async function getFormsByUserId(
 }
 
 /**
- * Update a form (only if not deleted and belongs to user)
+ * Update a form (only if not deleted and belongs to user).
+ * The new revision is written to form_revisions in the same statement.
  * @param pool - Database connection pool
  * @param id - Form ID
- * @param userId - User ID for authorization check
+ * @param userId - User ID for authorization check (the owner)
+ * @param actorId - User saving the revision (its author in form_revisions)
  * @param formJson - Updated form data
- * @returns Updated form record or null if not found
+ * @param baseRevision - When set, only update if the stored revision still equals it
+ * @param revisionMeta - How the revision row is labelled (default: plain UPDATE)
+ * @returns Updated form record or null if not found (or revision mismatch)
  */
 export async function updateForm(
   pool: Pool,
   id: number,
   userId: string,
-  formJson: Record<string, any>
+  actorId: string,
+  formJson: Record<string, any>,
+  baseRevision?: number,
+  revisionMeta: FormRevisionWriteMeta = { source: "UPDATE" }
 ): Promise<FormRecord | null> {
   const query = `
-    UPDATE forms
-    SET form_json = $1::jsonb, updated_at = CURRENT_TIMESTAMP
-    WHERE id = $2 AND user_id = $3 AND deleted_at IS NULL
-    RETURNING id, user_id, form_type, form_json, order_id, created_at, updated_at, deleted_at
+    WITH updated AS (
+      UPDATE forms
+      SET form_json = $1::jsonb, revision = revision + 1, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $2 AND user_id = $3 AND deleted_at IS NULL
+        AND ($4::int4 IS NULL OR revision = $4::int4)
+      RETURNING id, user_id, form_type, form_json, order_id, revision, created_at, updated_at, deleted_at
+    ), history AS (
+      INSERT INTO form_revisions (form_id, revision, form_json, user_id, source, restored_from_revision)
+      SELECT id, revision, form_json, $7, $5, $6 FROM updated
+    )
+    SELECT * FROM updated
   `;
 
   try {
-    const result = await pool.query(query, [JSON.stringify(formJson), id, userId]);
+    const result = await pool.query(query, [
+      JSON.stringify(formJson),
+      id,
+      userId,
+      baseRevision ?? null,
+      revisionMeta.source,
+      revisionMeta.restored_from_revision ?? null,
+      actorId,
+    ]);
     if (result.rows.length === 0) {
       return null;
     }
@@ -194,6 +259,7 @@ function mapRowToFormRecord(row: any): FormRecord {
     form_type: row.form_type,
     form_json: typeof row.form_json === "string" ? JSON.parse(row.form_json) : row.form_json,
     order_id: row.order_id != null ? row.order_id : null,
+    revision: row.revision,
     created_at: new Date(row.created_at),
     updated_at: new Date(row.updated_at),
     deleted_at: row.deleted_at ? new Date(row.deleted_at) : null,
@@ -0,0 +1,61 @@
+/**
+ * Raw SQL queries for order_activity_log (Raynet sync changes, conflicts, resolutions).
+ */
+
+import { Pool, PoolClient } from "pg";
+import { CreateOrderActivityParams, OrderActivityRecord } from "../types/raynet-order-sync.types";
+import { DatabaseError } from "../utils/errors";
+
+export async function createOrderActivity(
+  db: Pool | PoolClient,
+  params: CreateOrderActivityParams
+): Promise<void> {
+  const query = `
+    INSERT INTO order_activity_log (order_id, kind, source, actor, raynet_event_id, changes)
+    VALUES ($1, $2, $3, $4, $5, $6::jsonb)
+  `;
+  try {
+    await db.query(query, [
+      params.order_id,
+      params.kind,
+      params.source,
+      params.actor ?? null,
+      params.raynet_event_id ?? null,
+      JSON.stringify(params.changes),
+    ]);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to record order activity: ${error.message}`, error);
+  }
+}
+
+/**
+ * Activity of one order, newest first.
+ */
+export async function listOrderActivity(
+  pool: Pool,
+  orderId: number,
+  limit: number
+): Promise<OrderActivityRecord[]> {
+  const query = `
+    SELECT *
+    FROM order_activity_log
+    WHERE order_id = $1
+    ORDER BY created_at DESC, id DESC
+    LIMIT $2
+  `;
+  try {
+    const result = await pool.query(query, [orderId, limit]);
+    return result.rows.map((row) => ({
+      id: row.id,
+      order_id: row.order_id,
+      kind: row.kind,
+      source: row.source,
+      actor: row.actor,
+      raynet_event_id: row.raynet_event_id,
+      changes: row.changes ?? [],
+      created_at: new Date(row.created_at),
+    }));
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to list order activity: ${error.message}`, error);
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Raw SQL queries for order_events and the order timeline
+ */
+
+import { Pool } from "pg";
+import { OrderTimelineEntry, RecordOrderEventParams } from "../types/order-events.types";
+import { DatabaseError } from "../utils/errors";
+
+/** Consecutive saves of one form by one user within this window collapse into one row. */
+const FORM_UPDATE_COALESCE_MINUTES = 15;
+
+export async function insertOrderEvent(pool: Pool, params: RecordOrderEventParams): Promise<void> {
+  const query = `
+    INSERT INTO order_events (order_id, form_id, kind, actor, status, payload)
+    VALUES ($1, $2, $3, $4, $5, $6::jsonb)
+  `;
+  try {
+    await pool.query(query, [
+      params.order_id,
+      params.form_id ?? null,
+      params.kind,
+      params.actor,
+      params.status ?? null,
+      JSON.stringify(params.payload ?? {}),
+    ]);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to record order event: ${error.message}`, error);
+  }
+}
+
+/**
+ * Fold a FORM_UPDATED into the newest event of the order when that is a FORM_UPDATED of
+ * the same form by the same user from the last few minutes (autosave would otherwise
+ * flood the timeline). Bumps created_at, keeps the latest payload and counts the saves.
+ * @returns false when there was nothing to fold into — caller inserts a new row
+ */
+export async function coalesceFormUpdatedEvent(pool: Pool, params: RecordOrderEventParams): Promise<boolean> {
+  const query = `
+    UPDATE order_events
+    SET created_at = CURRENT_TIMESTAMP,
+        payload = $4::jsonb || jsonb_build_object('saves', COALESCE((payload->>'saves')::int, 1) + 1)
+    WHERE id = (
+      SELECT id FROM order_events
+      WHERE order_id = $1
+      ORDER BY created_at DESC, id DESC
+      LIMIT 1
+    )
+      AND kind = 'FORM_UPDATED'
+      AND form_id = $2
+      AND actor IS NOT DISTINCT FROM $3
+      AND created_at > NOW() - make_interval(mins => ${FORM_UPDATE_COALESCE_MINUTES})
+  `;
+  try {
+    const result = await pool.query(query, [
+      params.order_id,
+      params.form_id ?? null,
+      params.actor,
+      JSON.stringify(params.payload ?? {}),
+    ]);
+    return (result.rowCount ?? 0) > 0;
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to record order event: ${error.message}`, error);
+  }
+}
+
+/**
+ * Timeline of one order, newest first: order_events merged with order_activity_log.
+ */
+export async function listOrderTimeline(
+  pool: Pool,
+  orderId: number,
+  limit: number,
+  before: Date | null
+): Promise<OrderTimelineEntry[]> {
+  const query = `
+    SELECT * FROM (
+      SELECT 'event:' || id AS id, 'ORDER_EVENT' AS source, kind, order_id, form_id,
+             actor, status, payload, created_at
+      FROM order_events
+      WHERE order_id = $1
+      UNION ALL
+      SELECT 'activity:' || id, 'RAYNET_SYNC', kind, order_id, NULL::int4,
+             actor, NULL::varchar, jsonb_build_object('source', source, 'raynet_event_id', raynet_event_id, 'changes', changes),
+             created_at
+      FROM order_activity_log
+      WHERE order_id = $1
+    ) timeline
+    WHERE $3::timestamptz IS NULL OR created_at < $3::timestamptz
+    ORDER BY created_at DESC, id DESC
+    LIMIT $2
+  `;
+  try {
+    const result = await pool.query(query, [orderId, limit, before]);
+    return result.rows.map((row) => ({
+      id: row.id,
+      source: row.source,
+      kind: row.kind,
+      order_id: row.order_id,
+      form_id: row.form_id ?? null,
+      actor: row.actor ?? null,
+      status: row.status ?? null,
+      payload: row.payload ?? {},
+      created_at: new Date(row.created_at),
+    }));
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to load order timeline: ${error.message}`, error);
+  }
+}
@@ -9,7 +9,9 @@ import {
   CreateOrderRequest,
   UpdateOrderRequest,
   ListOrdersQuery,
+  OrderContractStatus,
 } from "../types/orders.types";
+import { Actor } from "../types/access.types";
 import { DatabaseError } from "../utils/errors";
 
 /**
@@ -25,9 +27,9 @@ export async function createOrder(
   data: CreateOrderRequest
 ): Promise<OrderRecord> {
   const query = `
-    INSERT INTO orders (user_id, name, email, phone, address, city, zipcode, raynet_id, erp_customer_id, source_raynet_event_id, source_erp_order_id, notes)
-    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
-    RETURNING id, user_id, name, email, phone, address, city, zipcode, raynet_id, erp_customer_id, source_raynet_event_id, source_erp_order_id, notes, created_at, updated_at, deleted_at
+    INSERT INTO orders (user_id, name, email, phone, address, city, zipcode, raynet_id, erp_customer_id, source_raynet_event_id, source_erp_order_id, notes, customer_id)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+    RETURNING id, user_id, name, email, phone, address, city, zipcode, raynet_id, erp_customer_id, source_raynet_event_id, source_erp_order_id, notes, contract_status, contract_signed_at, erp_export_override_reason, erp_export_override_by, erp_export_override_at, raynet_scheduled_from, raynet_scheduled_till, raynet_event_status, raynet_synced_at, raynet_sync_conflicts, customer_id, created_at, updated_at, deleted_at
   `;
 
   const params = [
@@ -43,6 +45,7 @@ export async function createOrder(
     data.source_raynet_event_id ?? null,
     data.source_erp_order_id ?? null,
     data.notes ?? null,
+    data.customer_id ?? null,
   ];
 
   try {
@@ -62,7 +65,7 @@ export async function getOrderById(
   userId: string
 ): Promise<OrderRecord | null> {
   const query = `
-    SELECT id, user_id, name, email, phone, address, city, zipcode, raynet_id, erp_customer_id, source_raynet_event_id, source_erp_order_id, notes, created_at, updated_at, deleted_at
+    SELECT id, user_id, name, email, phone, address, city, zipcode, raynet_id, erp_customer_id, source_raynet_event_id, source_erp_order_id, notes, contract_status, contract_signed_at, erp_export_override_reason, erp_export_override_by, erp_export_override_at, raynet_scheduled_from, raynet_scheduled_till, raynet_event_status, raynet_synced_at, raynet_sync_conflicts, customer_id, created_at, updated_at, deleted_at
     FROM orders
     WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL
   `;
@@ -94,7 +97,7 @@ export async function getOrdersByUserId(
   const total = parseInt(countResult.rows[0].total, 10);
 
   const dataQuery = `
-    SELECT id, user_id, name, email, phone, address, city, zipcode, raynet_id, erp_customer_id, source_raynet_event_id, source_erp_order_id, notes, created_at, updated_at, deleted_at
+    SELECT id, user_id, name, email, phone, address, city, zipcode, raynet_id, erp_customer_id, source_raynet_event_id, source_erp_order_id, notes, contract_status, contract_signed_at, erp_export_override_reason, erp_export_override_by, erp_export_override_at, raynet_scheduled_from, raynet_scheduled_till, raynet_event_status, raynet_synced_at, raynet_sync_conflicts, customer_id, created_at, updated_at, deleted_at
     FROM orders
     WHERE ${whereClause}
     ORDER BY created_at DESC
@@ -110,6 +113,56 @@ export async function getOrdersByUserId(
   }
 }
 
+/**
+ * Orders the actor can open (mirrors order-access.service): own, shared with them,
+ * orders of team mates for MNG, all orders for OFFICE / ADMIN — optionally of one customer.
+ */
+export async function getAccessibleOrders(
+  pool: Pool,
+  actor: Actor,
+  options: ListOrdersQuery = {}
+): Promise<{ orders: OrderRecord[]; total: number }> {
+  const { page = 1, limit = 20, customer_id = null } = options;
+  const offset = (page - 1) * limit;
+  const seesAll = actor.role === "ADMIN" || actor.role === "OFFICE";
+  const seesTeam = actor.role === "MNG";
+
+  const whereClause = `
+    deleted_at IS NULL
+    AND ($4::int IS NULL OR customer_id = $4)
+    AND (
+      $2::boolean
+      OR user_id = $1
+      OR id IN (SELECT order_id FROM order_shares WHERE user_id = $1)
+      OR ($3::boolean AND user_id IN (
+        SELECT b.user_id FROM team_members a JOIN team_members b ON b.team_id = a.team_id WHERE a.user_id = $1
+      ))
+    )
+  `;
+
+  const dataQuery = `
+    SELECT id, user_id, name, email, phone, address, city, zipcode, raynet_id, erp_customer_id, source_raynet_event_id, source_erp_order_id, notes, contract_status, contract_signed_at, erp_export_override_reason, erp_export_override_by, erp_export_override_at, raynet_scheduled_from, raynet_scheduled_till, raynet_event_status, raynet_synced_at, raynet_sync_conflicts, customer_id, created_at, updated_at, deleted_at
+    FROM orders
+    WHERE ${whereClause}
+    ORDER BY created_at DESC
+    LIMIT $5 OFFSET $6
+  `;
+
+  try {
+    const countResult = await pool.query(`SELECT COUNT(*) as total FROM orders WHERE ${whereClause}`, [
+      actor.userId,
+      seesAll,
+      seesTeam,
+      customer_id,
+    ]);
+    const total = parseInt(countResult.rows[0].total, 10);
+    const result = await pool.query(dataQuery, [actor.userId, seesAll, seesTeam, customer_id, limit, offset]);
+    return { orders: result.rows.map(mapRowToOrderRecord), total };
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to get accessible orders: ${error.message}`, error);
+  }
+}
+
 /**
  * Update an order (only if not deleted and belongs to user)
  */
@@ -119,7 +172,7 @@ export async function updateOrder(
   userId: string,
   data: UpdateOrderRequest
 ): Promise<OrderRecord | null> {
-  /* raynet_id, erp_customer_id, source_raynet_event_id and notes use direct assignment so null can clear the value */
+  /* raynet_id, erp_customer_id, source_raynet_event_id, notes and customer_id use direct assignment so null can clear the value */
   const query = `
     UPDATE orders
     SET name = COALESCE($1, name),
@@ -133,9 +186,10 @@ export async function updateOrder(
         source_raynet_event_id = $9,
         source_erp_order_id = $10,
         notes = $11,
+        customer_id = $14,
         updated_at = CURRENT_TIMESTAMP
     WHERE id = $12 AND user_id = $13 AND deleted_at IS NULL
-    RETURNING id, user_id, name, email, phone, address, city, zipcode, raynet_id, erp_customer_id, source_raynet_event_id, source_erp_order_id, notes, created_at, updated_at, deleted_at
+    RETURNING id, user_id, name, email, phone, address, city, zipcode, raynet_id, erp_customer_id, source_raynet_event_id, source_erp_order_id, notes, contract_status, contract_signed_at, erp_export_override_reason, erp_export_override_by, erp_export_override_at, raynet_scheduled_from, raynet_scheduled_till, raynet_event_status, raynet_synced_at, raynet_sync_conflicts, customer_id, created_at, updated_at, deleted_at
   `;
 
   const params = [
@@ -152,6 +206,7 @@ export async function updateOrder(
     data.notes,
     id,
     userId,
+    data.customer_id,
   ];
 
   try {
@@ -218,6 +273,62 @@ export async function findOrdersByRaynetEventIds(
   }
 }
 
+/**
+ * Record the signing state of the order's ADMF contract. Called from the signing sync,
+ * which may run from the inSign webhook (no user context) — hence no user_id filter.
+ */
+export async function updateOrderContractStatus(
+  pool: Pool,
+  id: number,
+  status: OrderContractStatus,
+  signedAt: Date | null
+): Promise<void> {
+  const query = `
+    UPDATE orders
+    SET contract_status = $1,
+        contract_signed_at = $2,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = $3
+  `;
+
+  try {
+    await pool.query(query, [status, signedAt, id]);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to update order contract status: ${error.message}`, error);
+  }
+}
+
+/**
+ * Set (reason) or clear (null) the "export to ERP without a signed contract" override.
+ * @param userId - Order owner
+ * @param overriddenBy - User who set the override (owner, office, manager…)
+ */
+export async function setOrderErpExportOverride(
+  pool: Pool,
+  id: number,
+  userId: string,
+  reason: string | null,
+  overriddenBy: string
+): Promise<OrderRecord | null> {
+  const query = `
+    UPDATE orders
+    SET erp_export_override_reason = $1::text,
+        erp_export_override_by = CASE WHEN $1::text IS NULL THEN NULL ELSE $4 END,
+        erp_export_override_at = CASE WHEN $1::text IS NULL THEN NULL ELSE CURRENT_TIMESTAMP END,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = $3 AND user_id = $2 AND deleted_at IS NULL
+    RETURNING id, user_id, name, email, phone, address, city, zipcode, raynet_id, erp_customer_id, source_raynet_event_id, source_erp_order_id, notes, contract_status, contract_signed_at, erp_export_override_reason, erp_export_override_by, erp_export_override_at, raynet_scheduled_from, raynet_scheduled_till, raynet_event_status, raynet_synced_at, raynet_sync_conflicts, customer_id, created_at, updated_at, deleted_at
+  `;
+
+  try {
+    const result = await pool.query(query, [reason, userId, id, overriddenBy]);
+    if (result.rows.length === 0) return null;
+    return mapRowToOrderRecord(result.rows[0]);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to set ERP export override: ${error.message}`, error);
+  }
+}
+
 /**
  * Map database row to OrderRecord
  */
@@ -236,6 +347,17 @@ function mapRowToOrderRecord(row: any): OrderRecord {
     source_raynet_event_id: row.source_raynet_event_id,
     source_erp_order_id: row.source_erp_order_id,
     notes: row.notes,
+    contract_status: row.contract_status ?? "UNSIGNED",
+    contract_signed_at: row.contract_signed_at ? new Date(row.contract_signed_at) : null,
+    erp_export_override_reason: row.erp_export_override_reason ?? null,
+    erp_export_override_by: row.erp_export_override_by ?? null,
+    erp_export_override_at: row.erp_export_override_at ? new Date(row.erp_export_override_at) : null,
+    raynet_scheduled_from: row.raynet_scheduled_from ? new Date(row.raynet_scheduled_from) : null,
+    raynet_scheduled_till: row.raynet_scheduled_till ? new Date(row.raynet_scheduled_till) : null,
+    raynet_event_status: row.raynet_event_status ?? null,
+    raynet_synced_at: row.raynet_synced_at ? new Date(row.raynet_synced_at) : null,
+    raynet_sync_conflicts: row.raynet_sync_conflicts ?? [],
+    customer_id: row.customer_id ?? null,
     created_at: new Date(row.created_at),
     updated_at: new Date(row.updated_at),
     deleted_at: row.deleted_at ? new Date(row.deleted_at) : null,
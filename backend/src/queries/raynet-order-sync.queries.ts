@@ -0,0 +1,173 @@
+/**
+ * Raw SQL queries for the Raynet → orders sync. No user scope: the sync runs from the
+ * webhook / timer without a logged-in user.
+ */
+
+import { Pool, PoolClient } from "pg";
+import {
+  ApplyRaynetOrderSyncParams,
+  RaynetSyncConflict,
+  RaynetSyncedOrderField,
+  RaynetSyncOrderRow,
+} from "../types/raynet-order-sync.types";
+import { DatabaseError } from "../utils/errors";
+
+const SYNC_COLUMNS = `id, source_raynet_event_id, name, address, city, zipcode, phone, raynet_id,
+  raynet_scheduled_from, raynet_scheduled_till, raynet_event_status, raynet_snapshot, raynet_sync_conflicts`;
+
+/** Customer columns the sync may write (guards the dynamic SET list). */
+const WRITABLE_FIELDS: ReadonlySet<RaynetSyncedOrderField> = new Set([
+  "name",
+  "address",
+  "city",
+  "zipcode",
+  "phone",
+  "raynet_id",
+]);
+
+/**
+ * Distinct Raynet event ids of non-deleted orders, optionally only orders created or
+ * synced within the last `activeDays` days.
+ */
+export async function listLinkedRaynetEventIds(pool: Pool, activeDays?: number): Promise<number[]> {
+  const query = `
+    SELECT DISTINCT source_raynet_event_id
+    FROM orders
+    WHERE deleted_at IS NULL
+      AND source_raynet_event_id IS NOT NULL
+      AND ($1::int IS NULL OR GREATEST(created_at, COALESCE(raynet_synced_at, created_at)) > NOW() - make_interval(days => $1::int))
+    ORDER BY source_raynet_event_id
+  `;
+  try {
+    const result = await pool.query(query, [activeDays ?? null]);
+    return result.rows.map((row) => Number(row.source_raynet_event_id));
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to list linked Raynet events: ${error.message}`, error);
+  }
+}
+
+/**
+ * Non-deleted orders linked to a Raynet event, locked for the rest of the transaction.
+ */
+export async function lockOrdersForRaynetEvent(
+  client: PoolClient,
+  raynetEventId: number
+): Promise<RaynetSyncOrderRow[]> {
+  const query = `
+    SELECT ${SYNC_COLUMNS}
+    FROM orders
+    WHERE source_raynet_event_id = $1 AND deleted_at IS NULL
+    ORDER BY id
+    FOR UPDATE
+  `;
+  try {
+    const result = await client.query(query, [raynetEventId]);
+    return result.rows.map(mapRowToSyncOrder);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to load orders for Raynet event ${raynetEventId}: ${error.message}`, error);
+  }
+}
+
+/** One order, locked — for resolving a conflict. */
+export async function lockOrderForRaynetSync(
+  client: PoolClient,
+  orderId: number,
+  userId: string
+): Promise<RaynetSyncOrderRow | null> {
+  const query = `
+    SELECT ${SYNC_COLUMNS}
+    FROM orders
+    WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL
+    FOR UPDATE
+  `;
+  try {
+    const result = await client.query(query, [orderId, userId]);
+    if (result.rows.length === 0) return null;
+    return mapRowToSyncOrder(result.rows[0]);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to load order for Raynet sync: ${error.message}`, error);
+  }
+}
+
+/**
+ * Write the outcome of a sync: changed customer fields, Raynet-owned fields, the new
+ * snapshot and the open conflicts. Touches updated_at only when a customer field changed.
+ */
+export async function applyRaynetOrderSync(
+  client: PoolClient,
+  orderId: number,
+  params: ApplyRaynetOrderSyncParams
+): Promise<void> {
+  const setClauses = [
+    "raynet_scheduled_from = ($1::timestamp AT TIME ZONE 'Europe/Prague')",
+    "raynet_scheduled_till = ($2::timestamp AT TIME ZONE 'Europe/Prague')",
+    "raynet_event_status = $3",
+    "raynet_snapshot = $4::jsonb",
+    "raynet_sync_conflicts = $5::jsonb",
+    "raynet_synced_at = CURRENT_TIMESTAMP",
+  ];
+  const values: unknown[] = [
+    params.raynet_scheduled_from,
+    params.raynet_scheduled_till,
+    params.raynet_event_status,
+    JSON.stringify(params.raynet_snapshot),
+    JSON.stringify(params.raynet_sync_conflicts),
+  ];
+  const fields = Object.entries(params.fields).filter(([field]) =>
+    WRITABLE_FIELDS.has(field as RaynetSyncedOrderField)
+  );
+  for (const [field, value] of fields) {
+    values.push(value);
+    setClauses.push(`${field} = $${values.length}`);
+  }
+  if (fields.length > 0) setClauses.push("updated_at = CURRENT_TIMESTAMP");
+  values.push(orderId);
+
+  try {
+    await client.query(`UPDATE orders SET ${setClauses.join(", ")} WHERE id = $${values.length}`, values);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to apply Raynet sync to order ${orderId}: ${error.message}`, error);
+  }
+}
+
+/** Replace the open conflicts and optionally overwrite one customer field. */
+export async function resolveRaynetSyncConflict(
+  client: PoolClient,
+  orderId: number,
+  conflicts: RaynetSyncConflict[],
+  overwrite: { field: RaynetSyncedOrderField; value: string | number | null } | null
+): Promise<void> {
+  const values: unknown[] = [JSON.stringify(conflicts)];
+  let setField = "";
+  if (overwrite && WRITABLE_FIELDS.has(overwrite.field)) {
+    values.push(overwrite.value);
+    setField = `, ${overwrite.field} = $2, updated_at = CURRENT_TIMESTAMP`;
+  }
+  values.push(orderId);
+  try {
+    await client.query(
+      `UPDATE orders SET raynet_sync_conflicts = $1::jsonb${setField} WHERE id = $${values.length}`,
+      values
+    );
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to resolve Raynet sync conflict: ${error.message}`, error);
+  }
+}
+
+function mapRowToSyncOrder(row: any): RaynetSyncOrderRow {
+  return {
+    id: row.id,
+    source_raynet_event_id: Number(row.source_raynet_event_id),
+    name: row.name,
+    address: row.address,
+    city: row.city,
+    zipcode: row.zipcode,
+    phone: row.phone,
+    raynet_id: row.raynet_id != null ? Number(row.raynet_id) : null,
+    raynet_scheduled_from: row.raynet_scheduled_from ? new Date(row.raynet_scheduled_from) : null,
+    raynet_scheduled_till: row.raynet_scheduled_till ? new Date(row.raynet_scheduled_till) : null,
+    raynet_event_status: row.raynet_event_status ?? null,
+    raynet_snapshot: row.raynet_snapshot ?? null,
+    raynet_sync_conflicts: row.raynet_sync_conflicts ?? [],
+  };
+}
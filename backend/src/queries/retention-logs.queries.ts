@@ -45,13 +45,13 @@ export interface OpenOvtRequestRow {
 }
 
 /**
- * Latest open (unprocessed) OVT_REQUEST for an order owned by the given user.
+ * Latest open (unprocessed) OVT_REQUEST for an order (whoever sent it; the caller checks
+ * order access).
  * Drives the OVT-side state A check + the resend-confirmation modal text.
  */
 export async function getOpenOvtRequestForOrder(
   pool: Pool,
-  orderId: number,
-  userId: string
+  orderId: number
 ): Promise<OpenOvtRequestRow | null> {
   const query = `
     SELECT id, reason, user_id, created_at
@@ -59,12 +59,11 @@ export async function getOpenOvtRequestForOrder(
      WHERE kind = 'OVT_REQUEST'
        AND processed_at IS NULL
        AND order_id = $1
-       AND user_id = $2
      ORDER BY created_at DESC
      LIMIT 1
   `;
   try {
-    const result = await pool.query(query, [orderId, userId]);
+    const result = await pool.query(query, [orderId]);
     if (result.rows.length === 0) return null;
     const row = result.rows[0];
     return {
@@ -143,18 +142,17 @@ export async function updateRetentionLog(
  */
 export async function getLatestRetentionForOrder(
   pool: Pool,
-  orderId: number,
-  userId: string
+  orderId: number
 ): Promise<RetentionLogRecord | null> {
   const query = `
     SELECT *
     FROM retention_logs
-    WHERE order_id = $1 AND user_id = $2
+    WHERE order_id = $1
     ORDER BY created_at DESC
     LIMIT 1
   `;
   try {
-    const result = await pool.query(query, [orderId, userId]);
+    const result = await pool.query(query, [orderId]);
     if (result.rows.length === 0) return null;
     return mapRowToRetentionLog(result.rows[0]);
   } catch (error: any) {
@@ -0,0 +1,203 @@
+/**
+ * Raw SQL queries for signing_sessions / signing_webhook_events (inSign contract signing)
+ */
+
+import { Pool } from "pg";
+import {
+  SigningSessionRecord,
+  CreateSigningSessionParams,
+  UpdateSigningSessionParams,
+  RecordSigningWebhookParams,
+  SigningSessionStatus,
+} from "../types/contract-signing.types";
+import { DatabaseError } from "../utils/errors";
+
+export async function createSigningSession(
+  pool: Pool,
+  params: CreateSigningSessionParams
+): Promise<SigningSessionRecord> {
+  const query = `
+    INSERT INTO signing_sessions (
+      form_id, order_id, user_id, form_revision, insign_session_id,
+      delivery_mode, access_url, customer_email, customer_phone
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    RETURNING *
+  `;
+  try {
+    const result = await pool.query(query, [
+      params.form_id,
+      params.order_id,
+      params.user_id,
+      params.form_revision,
+      params.insign_session_id,
+      params.delivery_mode,
+      params.access_url,
+      params.customer_email,
+      params.customer_phone,
+    ]);
+    return mapRowToSigningSession(result.rows[0]);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to create signing session: ${error.message}`, error);
+  }
+}
+
+export async function getSigningSessionByInsignId(
+  pool: Pool,
+  insignSessionId: string
+): Promise<SigningSessionRecord | null> {
+  try {
+    const result = await pool.query(
+      `SELECT * FROM signing_sessions WHERE insign_session_id = $1`,
+      [insignSessionId]
+    );
+    return result.rows.length > 0 ? mapRowToSigningSession(result.rows[0]) : null;
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to get signing session: ${error.message}`, error);
+  }
+}
+
+/**
+ * Most recent session for a form, optionally limited to one status.
+ */
+export async function getLatestSigningSessionForForm(
+  pool: Pool,
+  formId: number,
+  status?: SigningSessionStatus
+): Promise<SigningSessionRecord | null> {
+  const query = `
+    SELECT * FROM signing_sessions
+    WHERE form_id = $1 AND ($2::varchar IS NULL OR status = $2)
+    ORDER BY created_at DESC, id DESC
+    LIMIT 1
+  `;
+  try {
+    const result = await pool.query(query, [formId, status ?? null]);
+    return result.rows.length > 0 ? mapRowToSigningSession(result.rows[0]) : null;
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to get signing session for form: ${error.message}`, error);
+  }
+}
+
+/**
+ * Partial update. With `expectedStatus` the row is only updated while it still has that
+ * status — returns null otherwise, so concurrent syncs (webhook + status poll) cannot both
+ * act on the same transition.
+ */
+export async function updateSigningSession(
+  pool: Pool,
+  id: number,
+  params: UpdateSigningSessionParams,
+  expectedStatus?: SigningSessionStatus
+): Promise<SigningSessionRecord | null> {
+  const setClauses: string[] = ["updated_at = CURRENT_TIMESTAMP"];
+  const values: unknown[] = [];
+  let idx = 1;
+
+  if (params.status !== undefined) {
+    setClauses.push(`status = $${idx++}`);
+    values.push(params.status);
+  }
+  if (params.process_step !== undefined) {
+    setClauses.push(`process_step = $${idx++}`);
+    values.push(params.process_step);
+  }
+  if (params.extern_links !== undefined) {
+    setClauses.push(`extern_links = $${idx++}::jsonb`);
+    values.push(params.extern_links === null ? null : JSON.stringify(params.extern_links));
+  }
+  if (params.gdpr_declined !== undefined) {
+    setClauses.push(`gdpr_declined = $${idx++}`);
+    values.push(params.gdpr_declined);
+  }
+  if (params.last_status !== undefined) {
+    setClauses.push(`last_status = $${idx++}::jsonb`);
+    values.push(params.last_status === null ? null : JSON.stringify(params.last_status));
+  }
+  if (params.signed_document_key !== undefined) {
+    setClauses.push(`signed_document_key = $${idx++}`);
+    values.push(params.signed_document_key);
+  }
+  if (params.audit_key !== undefined) {
+    setClauses.push(`audit_key = $${idx++}`);
+    values.push(params.audit_key);
+  }
+  if (params.last_error_message !== undefined) {
+    setClauses.push(`last_error_message = $${idx++}`);
+    values.push(params.last_error_message);
+  }
+  if (params.completed_at !== undefined) {
+    setClauses.push(`completed_at = $${idx++}`);
+    values.push(params.completed_at);
+  }
+  if (params.rejected_at !== undefined) {
+    setClauses.push(`rejected_at = $${idx++}`);
+    values.push(params.rejected_at);
+  }
+
+  values.push(id);
+  let where = `id = $${idx++}`;
+  if (expectedStatus !== undefined) {
+    values.push(expectedStatus);
+    where += ` AND status = $${idx++}`;
+  }
+
+  const query = `UPDATE signing_sessions SET ${setClauses.join(", ")} WHERE ${where} RETURNING *`;
+  try {
+    const result = await pool.query(query, values);
+    return result.rows.length > 0 ? mapRowToSigningSession(result.rows[0]) : null;
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to update signing session: ${error.message}`, error);
+  }
+}
+
+export async function recordSigningWebhook(
+  pool: Pool,
+  params: RecordSigningWebhookParams
+): Promise<void> {
+  const query = `
+    INSERT INTO signing_webhook_events (
+      signing_session_id, insign_session_id, event_id, http_method, query_params, body
+    )
+    VALUES ($1, $2, $3, $4, $5::jsonb, $6::jsonb)
+  `;
+  try {
+    await pool.query(query, [
+      params.signing_session_id,
+      params.insign_session_id,
+      params.event_id,
+      params.http_method,
+      JSON.stringify(params.query_params),
+      params.body === undefined || params.body === null ? null : JSON.stringify(params.body),
+    ]);
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to record signing webhook: ${error.message}`, error);
+  }
+}
+
+function mapRowToSigningSession(row: any): SigningSessionRecord {
+  return {
+    id: row.id,
+    form_id: row.form_id,
+    order_id: row.order_id,
+    user_id: row.user_id,
+    form_revision: row.form_revision,
+    insign_session_id: row.insign_session_id,
+    delivery_mode: row.delivery_mode,
+    status: row.status,
+    process_step: row.process_step,
+    access_url: row.access_url,
+    extern_links: row.extern_links,
+    customer_email: row.customer_email,
+    customer_phone: row.customer_phone,
+    gdpr_declined: row.gdpr_declined,
+    last_status: row.last_status,
+    signed_document_key: row.signed_document_key,
+    audit_key: row.audit_key,
+    last_error_message: row.last_error_message,
+    created_at: new Date(row.created_at),
+    updated_at: new Date(row.updated_at),
+    completed_at: row.completed_at ? new Date(row.completed_at) : null,
+    rejected_at: row.rejected_at ? new Date(row.rejected_at) : null,
+  };
+}
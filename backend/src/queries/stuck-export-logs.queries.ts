@@ -0,0 +1,130 @@
+/**
+ * Raw SQL queries for the stuck-export reconciler.
+ *
+ * Same per-source mapping idea as export-monitoring.queries: table, scope and
+ * column names come from the map below only — never from request input.
+ */
+
+import { Pool } from "pg";
+import { DatabaseError } from "../utils/errors";
+import type { ExportLogSource } from "../types/export-monitoring.types";
+import type {
+  ResolveStuckExportLogParams,
+  StuckExportLogRow,
+} from "../types/export-reconcile.types";
+
+interface SourceColumns {
+  table: string;
+  /** Condition on `l` that keeps the source's rows (export_logs holds every target). */
+  scope: string;
+  externalId: string;
+  kind: string;
+  /** Columns that identify "the same export" for the superseded check. */
+  sameTarget: string;
+}
+
+const SOURCES: Record<ExportLogSource, SourceColumns> = {
+  raynet: {
+    table: "export_logs",
+    scope: "l.target = 'RAYNET'",
+    externalId: "l.external_id::int4",
+    kind: "NULL::varchar",
+    sameTarget: "n.target = l.target AND n.form_id = l.form_id",
+  },
+  erp: {
+    table: "export_logs",
+    scope: "l.target = 'ERP'",
+    externalId: "l.external_id::int4",
+    kind: "NULL::varchar",
+    sameTarget: "n.target = l.target AND n.form_id = l.form_id",
+  },
+  retention: {
+    table: "retention_logs",
+    scope: "TRUE",
+    externalId: "l.raynet_event_id",
+    kind: "l.kind",
+    sameTarget: "n.raynet_event_id = l.raynet_event_id AND n.kind = l.kind",
+  },
+};
+
+const IN_FLIGHT_STATUSES = "('PENDING', 'MAPPING', 'SENDING')";
+
+/**
+ * In-flight rows older than `olderThanMinutes`, oldest first.
+ * `superseded_by` is the newest later row for the same target that completed.
+ */
+export async function listStuckExportLogs(
+  pool: Pool,
+  source: ExportLogSource,
+  olderThanMinutes: number,
+  limit: number
+): Promise<StuckExportLogRow[]> {
+  const c = SOURCES[source];
+  const query = `
+    SELECT l.id, l.status, l.test_mode, l.created_at, l.request_payload,
+           ${c.externalId} AS external_id,
+           ${c.kind} AS kind,
+           (
+             SELECT n.id FROM ${c.table} n
+             WHERE ${c.sameTarget}
+               AND n.id > l.id
+               AND n.status IN ('SUCCESS', 'PARTIAL_SUCCESS')
+             ORDER BY n.id DESC
+             LIMIT 1
+           ) AS superseded_by
+    FROM ${c.table} l
+    WHERE ${c.scope}
+      AND l.status IN ${IN_FLIGHT_STATUSES}
+      AND l.created_at < NOW() - make_interval(mins => $1)
+    ORDER BY l.created_at ASC
+    LIMIT $2
+  `;
+  try {
+    const result = await pool.query(query, [olderThanMinutes, limit]);
+    return result.rows;
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to list stuck ${source} export logs: ${error.message}`, error);
+  }
+}
+
+/**
+ * Close a stuck row. Conditional on the row still being in flight, so a pipeline
+ * that finishes late (or a concurrent reconciler run) wins. Reconciler warnings
+ * are appended to the ones the pipeline already stored.
+ *
+ * @returns false when the row was no longer in flight
+ */
+export async function resolveStuckExportLog(
+  pool: Pool,
+  source: ExportLogSource,
+  id: number,
+  params: ResolveStuckExportLogParams
+): Promise<boolean> {
+  const c = SOURCES[source];
+  const query = `
+    UPDATE ${c.table} l
+    SET status = $2,
+        error_code = $3,
+        error_message = $4,
+        warnings = COALESCE(warnings, '[]'::jsonb) || $5::jsonb,
+        response_body = $6,
+        completed_at = NOW(),
+        reconciled_at = NOW()
+    WHERE l.id = $1
+      AND ${c.scope}
+      AND l.status IN ${IN_FLIGHT_STATUSES}
+  `;
+  try {
+    const result = await pool.query(query, [
+      id,
+      params.status,
+      params.error_code,
+      params.error_message,
+      JSON.stringify(params.warnings),
+      params.response_body,
+    ]);
+    return (result.rowCount ?? 0) > 0;
+  } catch (error: any) {
+    throw new DatabaseError(`Failed to resolve stuck ${source} export log ${id}: ${error.message}`, error);
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Admin access routes — teams for manager (MNG) access and the audit of order access by
+ * non-owners (order-sharing.service). Mounted at /api/admin/access/* in index.ts.
+ * Gated by `requireAdminToken`.
+ *
+ *   GET    /teams                          → teams with members
+ *   POST   /teams                          → create a team { name }
+ *   DELETE /teams/:teamId                  → delete a team (members go with it)
+ *   POST   /teams/:teamId/members          → add a member { user_id }
+ *   DELETE /teams/:teamId/members/:userId  → remove a member
+ *   GET    /audit?orderId&actor&limit      → access audit, newest first
+ */
+
+import { Router, Request, Response } from "express";
+import { getPool } from "../../config/database";
+import { requireAdminToken } from "../../middleware/admin-token.middleware";
+import * as orderSharingService from "../../services/order-sharing.service";
+import { ApiError, BadRequestError } from "../../utils/errors";
+
+const router = Router();
+router.use(requireAdminToken);
+
+function handleError(error: unknown, res: Response, route: string): void {
+  if (error instanceof ApiError) {
+    res.status(error.statusCode).json({ success: false, error: error.message, code: error.code });
+    return;
+  }
+  console.error(`[/api/admin/access${route}] error`, error);
+  res.status(500).json({
+    success: false,
+    error: error instanceof Error ? error.message : "Unknown error",
+  });
+}
+
+function parseTeamId(value: unknown): number {
+  const teamId = Number(value);
+  if (!Number.isInteger(teamId) || teamId < 1) {
+    throw new BadRequestError("teamId must be a positive integer");
+  }
+  return teamId;
+}
+
+/** GET /api/admin/access/teams */
+router.get("/teams", async (_req: Request, res: Response) => {
+  try {
+    const teams = await orderSharingService.listTeams(getPool());
+    res.setHeader("Cache-Control", "no-store");
+    res.json({ success: true, data: { items: teams } });
+  } catch (error: unknown) {
+    handleError(error, res, "/teams");
+  }
+});
+
+/** POST /api/admin/access/teams — body { name } */
+router.post("/teams", async (req: Request, res: Response) => {
+  try {
+    const team = await orderSharingService.createTeam(getPool(), req.body ?? {});
+    res.status(201).json({ success: true, data: team });
+  } catch (error: unknown) {
+    handleError(error, res, "/teams");
+  }
+});
+
+/** DELETE /api/admin/access/teams/:teamId */
+router.delete("/teams/:teamId", async (req: Request, res: Response) => {
+  try {
+    await orderSharingService.deleteTeam(getPool(), parseTeamId(req.params.teamId));
+    res.json({ success: true });
+  } catch (error: unknown) {
+    handleError(error, res, "/teams/:teamId");
+  }
+});
+
+/** POST /api/admin/access/teams/:teamId/members — body { user_id } */
+router.post("/teams/:teamId/members", async (req: Request, res: Response) => {
+  try {
+    const member = await orderSharingService.addTeamMember(
+      getPool(),
+      parseTeamId(req.params.teamId),
+      req.body ?? {}
+    );
+    res.status(201).json({ success: true, data: member });
+  } catch (error: unknown) {
+    handleError(error, res, "/teams/:teamId/members");
+  }
+});
+
+/** DELETE /api/admin/access/teams/:teamId/members/:userId */
+router.delete("/teams/:teamId/members/:userId", async (req: Request, res: Response) => {
+  try {
+    await orderSharingService.removeTeamMember(getPool(), parseTeamId(req.params.teamId), req.params.userId);
+    res.json({ success: true });
+  } catch (error: unknown) {
+    handleError(error, res, "/teams/:teamId/members/:userId");
+  }
+});
+
+/** GET /api/admin/access/audit?orderId&actor&limit */
+router.get("/audit", async (req: Request, res: Response) => {
+  try {
+    const orderId = req.query.orderId != null ? Number(req.query.orderId) : undefined;
+    if (orderId !== undefined && (!Number.isInteger(orderId) || orderId < 1)) {
+      throw new BadRequestError("orderId must be a positive integer");
+    }
+    const items = await orderSharingService.listAccessAudit(getPool(), {
+      orderId,
+      actor: typeof req.query.actor === "string" && req.query.actor !== "" ? req.query.actor : undefined,
+      limit: req.query.limit != null ? Number(req.query.limit) : undefined,
+    });
+    res.setHeader("Cache-Control", "no-store");
+    res.json({ success: true, data: { items } });
+  } catch (error: unknown) {
+    handleError(error, res, "/audit");
+  }
+});
+
+export default router;
@@ -12,7 +12,10 @@ import {
   type BreakageCheckRequest,
   type ProposedPayload,
 } from "../../services/admin-breakage-check.service";
-import { getChangeSetWithEntries } from "../../services/admin-change-sets.service";
+import {
+  entriesToOverridesForProduct,
+  getChangeSetWithEntries,
+} from "../../services/admin-change-sets.service";
 
 const router = Router();
 
@@ -39,45 +42,51 @@ router.post("/breakage-check", async (req: Request, res: Response) => {
     const mainPool = getPool();
 
     // change_set_id is an alternative to inline proposed_payload — pull the
-    // payload from the change-set's product_pricing entry for any pricing
-    // record sharing this product_code.
+    // payload from the change-set's product_pricing entry (else its form_structure
+    // entry) for this product_code, plus its size-limit drafts per pricing record.
     if (body.change_set_id && !body.proposed_payload) {
       const cs = await getChangeSetWithEntries(pricingPool, body.change_set_id);
       if (!cs) {
         return res.status(404).json({ success: false, error: "change_set not found" });
       }
+      const productCode = body.product_code.trim();
       const idsRes = await pricingPool.query(
         `SELECT id FROM product_pricing WHERE product_code = $1`,
-        [body.product_code.trim()]
+        [productCode]
       );
-      const matchingIds = new Set(idsRes.rows.map((r) => String(r.id)));
+      const matchingIds = idsRes.rows.map((r) => String(r.id));
+      const matchingSet = new Set(matchingIds);
       const productEntry = cs.entries.find(
         (e) =>
           e.entity_kind === "product_pricing" &&
           e.entity_id != null &&
-          matchingIds.has(e.entity_id)
+          matchingSet.has(e.entity_id)
+      );
+      const formEntry = cs.entries.find(
+        (e) => e.entity_kind === "form_structure" && e.entity_id === productCode
       );
       const draftPayload =
-        productEntry?.draft_payload && typeof productEntry.draft_payload === "object"
-          ? (productEntry.draft_payload as Record<string, unknown>).payload
-          : undefined;
-      if (!draftPayload || typeof draftPayload !== "object") {
+        (productEntry?.draft_payload as Record<string, unknown> | undefined)?.payload ??
+        (formEntry?.draft_payload as Record<string, unknown> | undefined)?.validated_payload;
+      if (draftPayload && typeof draftPayload === "object") {
+        body.proposed_payload = {
+          product_code: body.product_code,
+          ...(draftPayload as Record<string, unknown>),
+        } as ProposedPayload;
+      }
+      body.overrides_by_pricing_id = Object.fromEntries(
+        matchingIds.map((id) => [id, entriesToOverridesForProduct(cs.entries, id)])
+      );
+      const hasSizeLimits = Object.values(body.overrides_by_pricing_id).some(
+        (o) => (o.size_limit_variants?.length ?? 0) > 0
+      );
+      if (!body.proposed_payload && !hasSizeLimits) {
         return res.status(400).json({
           success: false,
           error:
-            "change_set has no product_pricing entry with a draft payload for this product_code",
+            "change_set has no draft payload or size-limit entries for this product_code",
         });
       }
-      body.proposed_payload = {
-        product_code: body.product_code,
-        ...(draftPayload as Record<string, unknown>),
-      } as ProposedPayload;
-    }
-
-    if (!body.proposed_payload || typeof body.proposed_payload !== "object") {
-      return res
-        .status(400)
-        .json({ success: false, error: "proposed_payload object is required" });
     }
 
     const result = await runBreakageCheck(mainPool, pricingPool, body);
@@ -9,12 +9,20 @@
  *   DELETE /:id               → discard (sets status='discarded')
  *   POST   /:id/entries       → add entry
  *   DELETE /:id/entries/:entryId → remove entry
- *   POST   /:id/validate      → run aggregate Phase 3+4 validation
- *   POST   /:id/publish       → atomic publish
+ *   POST   /:id/import-price-list → width × height grid (XLSX / CSV) → variant update entries + impact-diff
+ *   POST   /:id/validate      → run aggregate Phase 3+4 validation (+ entry conflicts)
+ *   POST   /:id/rebase        → rebase stale entries onto the live rows
+ *   POST   /:id/publish       → atomic publish (409 + conflicts when entries are stale)
+ *   POST   /:id/schedule      → set / clear scheduled_at (scheduler re-validates, then publishes)
+ *   POST   /:id/revert        → build + publish the inverse of a published change-set
+ *
+ * form_structure entries need the admin DB (ADMIN_DATABASE_URL); without it they are
+ * refused with 503 and change-sets containing them cannot be validated or published.
  */
 
 import { Router, Request, Response } from "express";
-import { getPool, getPricingPool } from "../../config/database";
+import multer from "multer";
+import { getAdminPoolIfConfigured, getPool, getPricingPool } from "../../config/database";
 import { requireAdminToken } from "../../middleware/admin-token.middleware";
 import {
   listChangeSets,
@@ -25,13 +33,28 @@ import {
   deleteEntry,
   validateChangeSet,
   publishChangeSet,
+  rebaseChangeSet,
   queuePayloadByCode,
+  scheduleChangeSet,
+  revertChangeSet,
   type ChangeSetStatus,
 } from "../../services/admin-change-sets.service";
+import type { ConflictResolutions } from "../../services/admin-change-set-conflicts.service";
+import {
+  importPriceList,
+  type PriceListImportOptions,
+} from "../../services/admin-price-list-import.service";
 
 const router = Router();
 router.use(requireAdminToken);
 
+/** Price-list files: single file in memory (manufacturer grids are small). */
+const PRICE_LIST_MAX_BYTES = 5 * 1024 * 1024;
+const priceListUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: PRICE_LIST_MAX_BYTES, files: 1 },
+});
+
 /** Pick a single string from a path param (Express types it as string|string[]). */
 function paramStr(v: unknown): string {
   if (Array.isArray(v)) return v[0] ?? "";
@@ -125,29 +148,39 @@ router.post("/:id/entries", async (req: Request, res: Response) => {
     };
     if (
       body.entity_kind !== "product_pricing" &&
-      body.entity_kind !== "pricing_variant"
+      body.entity_kind !== "pricing_variant" &&
+      body.entity_kind !== "size_limit_variant" &&
+      body.entity_kind !== "form_structure"
     ) {
-      return res
-        .status(400)
-        .json({ success: false, error: "entity_kind must be product_pricing or pricing_variant" });
+      return res.status(400).json({
+        success: false,
+        error: "entity_kind must be product_pricing, pricing_variant, size_limit_variant or form_structure",
+      });
     }
-    if (body.action !== "create" && body.action !== "update") {
+    if (body.action !== "create" && body.action !== "update" && body.action !== "delete") {
       return res
         .status(400)
-        .json({ success: false, error: "action must be create or update" });
+        .json({ success: false, error: "action must be create, update or delete" });
     }
+    // Delete entries need no payload.
+    if (body.action === "delete" && body.draft_payload === undefined) body.draft_payload = {};
     if (!body.draft_payload || typeof body.draft_payload !== "object") {
       return res
         .status(400)
         .json({ success: false, error: "draft_payload (object) is required" });
     }
-    const entry = await addEntry(getPricingPool(), paramStr(req.params.id), {
-      entity_kind: body.entity_kind,
-      entity_id: body.entity_id ?? null,
-      action: body.action,
-      draft_payload: body.draft_payload,
-      base_updated_at: body.base_updated_at ?? null,
-    });
+    const entry = await addEntry(
+      getPricingPool(),
+      paramStr(req.params.id),
+      {
+        entity_kind: body.entity_kind,
+        entity_id: body.entity_id ?? null,
+        action: body.action,
+        draft_payload: body.draft_payload,
+        base_updated_at: body.base_updated_at ?? null,
+      },
+      getAdminPoolIfConfigured()
+    );
     res.status(201).json({ success: true, data: entry });
   } catch (err: unknown) {
     const code =
@@ -166,6 +199,12 @@ router.post("/:id/entries", async (req: Request, res: Response) => {
         error: err instanceof Error ? err.message : "bad input",
       });
     }
+    if (code === "NO_ADMIN_DB") {
+      return res.status(503).json({
+        success: false,
+        error: err instanceof Error ? err.message : "admin database not configured",
+      });
+    }
     res.status(500).json({
       success: false,
       error: err instanceof Error ? err.message : "add entry failed",
@@ -175,16 +214,21 @@ router.post("/:id/entries", async (req: Request, res: Response) => {
 
 /**
  * POST /:id/queue-payload-by-code
- * Body: { product_code: string, payload: object }
+ * Body: { product_code: string, payload: object, include_form_structure?: boolean }
  *
  * Used by validation-products' "Uložit do sady (pricing)" button so the
  * admin doesn't have to manually paste the validated_payload into the pricing
  * app. Resolves all product_pricing rows with the given product_code and
- * adds one update entry per row in a single transaction.
+ * adds one update entry per row in a single transaction. With
+ * include_form_structure the admin DB schema row is queued too (form_structure).
  */
 router.post("/:id/queue-payload-by-code", async (req: Request, res: Response) => {
   try {
-    const body = req.body as { product_code?: string; payload?: Record<string, unknown> };
+    const body = req.body as {
+      product_code?: string;
+      payload?: Record<string, unknown>;
+      include_form_structure?: boolean;
+    };
     if (typeof body?.product_code !== "string" || !body.product_code.trim()) {
       return res.status(400).json({ success: false, error: "product_code is required" });
     }
@@ -195,7 +239,11 @@ router.post("/:id/queue-payload-by-code", async (req: Request, res: Response) =>
       getPricingPool(),
       paramStr(req.params.id),
       body.product_code.trim(),
-      body.payload
+      body.payload,
+      {
+        adminPool: getAdminPoolIfConfigured(),
+        includeFormStructure: body.include_form_structure === true,
+      }
     );
     res.status(201).json({ success: true, data: result });
   } catch (err: unknown) {
@@ -215,6 +263,12 @@ router.post("/:id/queue-payload-by-code", async (req: Request, res: Response) =>
         error: err instanceof Error ? err.message : "conflict",
       });
     }
+    if (code === "NO_ADMIN_DB") {
+      return res.status(503).json({
+        success: false,
+        error: err instanceof Error ? err.message : "admin database not configured",
+      });
+    }
     res.status(500).json({
       success: false,
       error: err instanceof Error ? err.message : "queue failed",
@@ -222,6 +276,85 @@ router.post("/:id/queue-payload-by-code", async (req: Request, res: Response) =>
   }
 });
 
+/**
+ * POST /:id/import-price-list
+ * Body (multipart/form-data):
+ *   file    — XLSX or CSV width × height grid
+ *   options — JSON: { product_pricing_id, selector? | variant_ids?, header_row?, header_column?,
+ *             orientation?, units?, uplift_percent?, rounding?: { step?, mode? }, mode?, sheet?,
+ *             decimal_separator?, filters? } (see PriceListImportOptions)
+ *
+ * Adds / replaces one pricing_variant update entry per matched variant and returns
+ * them with the product's impact-diff under the whole change-set.
+ */
+router.post(
+  "/:id/import-price-list",
+  (req: Request, res: Response, next) => {
+    priceListUpload.single("file")(req, res, (err: unknown) => {
+      if (!err) return next();
+      if (err instanceof multer.MulterError && err.code === "LIMIT_FILE_SIZE") {
+        return res.status(400).json({
+          success: false,
+          error: `price list file is larger than ${PRICE_LIST_MAX_BYTES / (1024 * 1024)} MB`,
+        });
+      }
+      next(err);
+    });
+  },
+  async (req: Request, res: Response) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ success: false, error: "file (XLSX or CSV) is required" });
+      }
+      let options: PriceListImportOptions;
+      try {
+        const raw = (req.body as { options?: string } | undefined)?.options;
+        options = JSON.parse(typeof raw === "string" && raw.trim() ? raw : "{}") as PriceListImportOptions;
+      } catch {
+        return res.status(400).json({ success: false, error: "options must be a JSON object" });
+      }
+      if (!options || typeof options !== "object" || Array.isArray(options)) {
+        return res.status(400).json({ success: false, error: "options must be a JSON object" });
+      }
+      const result = await importPriceList(
+        getPool(),
+        getPricingPool(),
+        paramStr(req.params.id),
+        req.file.buffer,
+        options
+      );
+      res.status(201).json({ success: true, data: result });
+    } catch (err: unknown) {
+      const code =
+        err && typeof err === "object" && "code" in err
+          ? (err as { code?: string }).code
+          : undefined;
+      if (code === "NOT_FOUND") {
+        return res.status(404).json({
+          success: false,
+          error: err instanceof Error ? err.message : "not found",
+        });
+      }
+      if (code === "BAD_INPUT") {
+        return res.status(400).json({
+          success: false,
+          error: err instanceof Error ? err.message : "bad input",
+        });
+      }
+      if (code === "BAD_STATUS" || code === "NO_MATCHES") {
+        return res.status(409).json({
+          success: false,
+          error: err instanceof Error ? err.message : "conflict",
+        });
+      }
+      res.status(500).json({
+        success: false,
+        error: err instanceof Error ? err.message : "price list import failed",
+      });
+    }
+  }
+);
+
 router.delete("/:id/entries/:entryId", async (req: Request, res: Response) => {
   try {
     const ok = await deleteEntry(getPricingPool(), paramStr(req.params.entryId));
@@ -242,6 +375,7 @@ router.post("/:id/validate", async (req: Request, res: Response) => {
     const report = await validateChangeSet(
       getPool(),
       getPricingPool(),
+      getAdminPoolIfConfigured(),
       paramStr(req.params.id)
     );
     res.json({ success: true, data: report });
@@ -256,6 +390,12 @@ router.post("/:id/validate", async (req: Request, res: Response) => {
         error: err instanceof Error ? err.message : "not found",
       });
     }
+    if (code === "NO_ADMIN_DB") {
+      return res.status(503).json({
+        success: false,
+        error: err instanceof Error ? err.message : "admin database not configured",
+      });
+    }
     res.status(500).json({
       success: false,
       error: err instanceof Error ? err.message : "validate failed",
@@ -263,11 +403,74 @@ router.post("/:id/validate", async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /:id/rebase
+ * Body: { resolutions?: { [entryId]: { [field]: "live" | "draft" } } }
+ *
+ * Rebases every stale entry whose overlapping fields are all resolved (entries
+ * without overlaps need no choice). Remaining conflicts are returned.
+ */
+router.post("/:id/rebase", async (req: Request, res: Response) => {
+  try {
+    const body = (req.body ?? {}) as { resolutions?: unknown };
+    if (
+      body.resolutions !== undefined &&
+      (body.resolutions === null || typeof body.resolutions !== "object" || Array.isArray(body.resolutions))
+    ) {
+      return res
+        .status(400)
+        .json({ success: false, error: "resolutions must be an object keyed by entry id" });
+    }
+    const result = await rebaseChangeSet(
+      getPricingPool(),
+      getAdminPoolIfConfigured(),
+      paramStr(req.params.id),
+      (body.resolutions as ConflictResolutions | undefined) ?? {}
+    );
+    res.json({ success: true, data: result });
+  } catch (err: unknown) {
+    const code =
+      err && typeof err === "object" && "code" in err
+        ? (err as { code?: string }).code
+        : undefined;
+    if (code === "NOT_FOUND") {
+      return res.status(404).json({
+        success: false,
+        error: err instanceof Error ? err.message : "not found",
+      });
+    }
+    if (code === "BAD_STATUS") {
+      return res.status(409).json({
+        success: false,
+        error: err instanceof Error ? err.message : "conflict",
+      });
+    }
+    if (code === "NO_ADMIN_DB") {
+      return res.status(503).json({
+        success: false,
+        error: err instanceof Error ? err.message : "admin database not configured",
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: err instanceof Error ? err.message : "rebase failed",
+    });
+  }
+});
+
 router.post("/:id/publish", async (req: Request, res: Response) => {
   try {
-    const result = await publishChangeSet(getPricingPool(), paramStr(req.params.id));
+    const result = await publishChangeSet(
+      getPricingPool(),
+      getAdminPoolIfConfigured(),
+      paramStr(req.params.id)
+    );
     if (!result.ok) {
-      return res.status(409).json({ success: false, error: result.error });
+      return res.status(409).json({
+        success: false,
+        error: result.error,
+        ...(result.conflicts && { conflicts: result.conflicts }),
+      });
     }
     res.json({ success: true, data: result });
   } catch (err: unknown) {
@@ -278,4 +481,99 @@ router.post("/:id/publish", async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /:id/schedule
+ * Body: { scheduled_at: ISO date-time | null }
+ *
+ * The change-set scheduler re-validates the draft at that time and publishes it
+ * when nothing blocks (see change-set-scheduler.service). null unschedules.
+ */
+router.post("/:id/schedule", async (req: Request, res: Response) => {
+  try {
+    const body = (req.body ?? {}) as { scheduled_at?: unknown };
+    if (body.scheduled_at !== null && typeof body.scheduled_at !== "string") {
+      return res
+        .status(400)
+        .json({ success: false, error: "scheduled_at (ISO date-time or null) is required" });
+    }
+    const cs = await scheduleChangeSet(getPricingPool(), paramStr(req.params.id), body.scheduled_at);
+    res.json({ success: true, data: cs });
+  } catch (err: unknown) {
+    const code =
+      err && typeof err === "object" && "code" in err
+        ? (err as { code?: string }).code
+        : undefined;
+    if (code === "NOT_FOUND") {
+      return res.status(404).json({
+        success: false,
+        error: err instanceof Error ? err.message : "not found",
+      });
+    }
+    if (code === "BAD_INPUT") {
+      return res.status(400).json({
+        success: false,
+        error: err instanceof Error ? err.message : "bad input",
+      });
+    }
+    if (code === "BAD_STATUS") {
+      return res.status(409).json({
+        success: false,
+        error: err instanceof Error ? err.message : "conflict",
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: err instanceof Error ? err.message : "schedule failed",
+    });
+  }
+});
+
+/**
+ * POST /:id/revert
+ * Body: { created_by?: string }
+ *
+ * Creates the inverse change-set from the pre-publish snapshots and publishes it.
+ * If a touched row was edited after the original publish, the inverse stays a
+ * draft (`published: false`, see `changed_since_publish`) for review.
+ */
+router.post("/:id/revert", async (req: Request, res: Response) => {
+  try {
+    const body = (req.body ?? {}) as { created_by?: string };
+    const result = await revertChangeSet(
+      getPricingPool(),
+      getAdminPoolIfConfigured(),
+      paramStr(req.params.id),
+      { created_by: body.created_by?.trim() || "admin" }
+    );
+    res.status(201).json({ success: true, data: result });
+  } catch (err: unknown) {
+    const code =
+      err && typeof err === "object" && "code" in err
+        ? (err as { code?: string }).code
+        : undefined;
+    if (code === "NOT_FOUND") {
+      return res.status(404).json({
+        success: false,
+        error: err instanceof Error ? err.message : "not found",
+      });
+    }
+    if (code === "BAD_STATUS") {
+      return res.status(409).json({
+        success: false,
+        error: err instanceof Error ? err.message : "conflict",
+      });
+    }
+    if (code === "NO_ADMIN_DB") {
+      return res.status(503).json({
+        success: false,
+        error: err instanceof Error ? err.message : "admin database not configured",
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: err instanceof Error ? err.message : "revert failed",
+    });
+  }
+});
+
 export default router;
@@ -0,0 +1,103 @@
+/**
+ * Admin export monitoring routes — read-only data for the export monitoring
+ * dashboard (docs/raynet-monitoring-tool.md). Mounted at /api/admin/exports/*
+ * in index.ts. Gated by `requireAdminToken`.
+ *
+ *   GET /stats              → KPIs, chart buckets, breakdowns, alerts
+ *   GET /logs               → filtered, paginated log list
+ *   GET /logs/:source/:id   → one log with payloads and order / form context
+ *   POST /reconcile         → run the stuck-export reconciler now
+ *
+ * `source` is raynet (default) | erp | retention.
+ */
+
+import { Router, Request, Response } from "express";
+import { getPool } from "../../config/database";
+import { requireAdminToken } from "../../middleware/admin-token.middleware";
+import * as monitoringService from "../../services/admin-export-monitoring.service";
+import { reconcileStuckExports } from "../../services/export-reconciler.service";
+import { ApiError } from "../../utils/errors";
+
+const router = Router();
+router.use(requireAdminToken);
+
+function handleError(error: unknown, res: Response, route: string): void {
+  if (error instanceof ApiError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+      code: error.code,
+    });
+    return;
+  }
+  console.error(`[/api/admin/exports${route}] error`, error);
+  res.status(500).json({
+    success: false,
+    error: error instanceof Error ? error.message : "Unknown error",
+  });
+}
+
+/**
+ * GET /api/admin/exports/stats?source=&from=&to=
+ * from / to are ISO timestamps (half-open); default is the last 24 hours.
+ */
+router.get("/stats", async (req: Request, res: Response) => {
+  try {
+    const stats = await monitoringService.getExportMonitoringStats(
+      getPool(),
+      req.query as Record<string, unknown>
+    );
+    res.setHeader("Cache-Control", "no-store");
+    res.json({ success: true, data: stats });
+  } catch (error: unknown) {
+    handleError(error, res, "/stats");
+  }
+});
+
+/**
+ * GET /api/admin/exports/logs?source=&from=&to=&status=&test_mode=&user_id=
+ *   &error_code=&q=&sort=&dir=&page=&page_size=
+ * status is a comma list; q searches error_message; 50 rows per page by default.
+ */
+router.get("/logs", async (req: Request, res: Response) => {
+  try {
+    const page = await monitoringService.searchExportLogs(
+      getPool(),
+      req.query as Record<string, unknown>
+    );
+    res.setHeader("Cache-Control", "no-store");
+    res.json({ success: true, data: page });
+  } catch (error: unknown) {
+    handleError(error, res, "/logs");
+  }
+});
+
+/** GET /api/admin/exports/logs/:source/:id */
+router.get("/logs/:source/:id", async (req: Request, res: Response) => {
+  try {
+    const detail = await monitoringService.getExportLogDetail(
+      getPool(),
+      req.params.source,
+      req.params.id
+    );
+    res.setHeader("Cache-Control", "no-store");
+    res.json({ success: true, data: detail });
+  } catch (error: unknown) {
+    handleError(error, res, "/logs/:source/:id");
+  }
+});
+
+/**
+ * POST /api/admin/exports/reconcile
+ * Same pass the periodic reconciler runs; returns what was closed or deferred.
+ */
+router.post("/reconcile", async (_req: Request, res: Response) => {
+  try {
+    const summary = await reconcileStuckExports(getPool());
+    res.json({ success: true, data: summary });
+  } catch (error: unknown) {
+    handleError(error, res, "/reconcile");
+  }
+});
+
+export default router;
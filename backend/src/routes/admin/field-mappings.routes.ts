@@ -0,0 +1,164 @@
+/**
+ * Admin field-mapping routes — versioned ADMF → Raynet / ERP field mappings
+ * (field-mapping.service). Mounted at /api/admin/field-mappings/* in index.ts.
+ * Gated by `requireAdminToken`.
+ *
+ *   GET  /:target                             → active version with entries
+ *   GET  /:target/versions                    → version list, newest first
+ *   GET  /:target/versions/:version           → one version with entries
+ *   PUT  /:target                             → save entries as a new version
+ *   POST /:target/import-csv                  → save a CSV (docs/*-field-mapping.csv format)
+ *   POST /:target/versions/:version/restore   → re-activate an old version (as a new one)
+ *   GET  /:target/check                       → validate the active version (incl. Raynet live schema)
+ *
+ * `target` is raynet | erp. Saving rejects structural errors and — unless `force: true` —
+ * fields / enum values the live Raynet schema doesn't have.
+ */
+
+import { Router, Request, Response } from "express";
+import { getPool } from "../../config/database";
+import { requireAdminToken } from "../../middleware/admin-token.middleware";
+import * as fieldMappingService from "../../services/field-mapping.service";
+import * as fieldMappingsQueries from "../../queries/field-mappings.queries";
+import { ApiError, BadRequestError, NotFoundError, ValidationIssuesError } from "../../utils/errors";
+
+const router = Router();
+router.use(requireAdminToken);
+
+function handleError(error: unknown, res: Response, route: string): void {
+  if (error instanceof ApiError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+      code: error.code,
+      ...(error instanceof ValidationIssuesError ? { issues: error.issues } : {}),
+    });
+    return;
+  }
+  console.error(`[/api/admin/field-mappings${route}] error`, error);
+  res.status(500).json({
+    success: false,
+    error: error instanceof Error ? error.message : "Unknown error",
+  });
+}
+
+function parseVersion(value: unknown): number {
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new BadRequestError("version must be a positive integer");
+  }
+  return version;
+}
+
+function parseNote(value: unknown): string | null {
+  return typeof value === "string" && value.trim() !== "" ? value.trim() : null;
+}
+
+/** GET /api/admin/field-mappings/:target */
+router.get("/:target", async (req: Request, res: Response) => {
+  try {
+    const target = fieldMappingService.parseFieldMappingTarget(req.params.target);
+    const mapping = await fieldMappingsQueries.getActiveFieldMapping(getPool(), target);
+    if (!mapping) throw new NotFoundError(`No ${target} field mapping stored`);
+    res.setHeader("Cache-Control", "no-store");
+    res.json({ success: true, data: mapping });
+  } catch (error: unknown) {
+    handleError(error, res, "/:target");
+  }
+});
+
+/** GET /api/admin/field-mappings/:target/versions */
+router.get("/:target/versions", async (req: Request, res: Response) => {
+  try {
+    const target = fieldMappingService.parseFieldMappingTarget(req.params.target);
+    const versions = await fieldMappingsQueries.listFieldMappingVersions(getPool(), target);
+    res.setHeader("Cache-Control", "no-store");
+    res.json({ success: true, data: { items: versions } });
+  } catch (error: unknown) {
+    handleError(error, res, "/:target/versions");
+  }
+});
+
+/** GET /api/admin/field-mappings/:target/versions/:version */
+router.get("/:target/versions/:version", async (req: Request, res: Response) => {
+  try {
+    const target = fieldMappingService.parseFieldMappingTarget(req.params.target);
+    const version = parseVersion(req.params.version);
+    const mapping = await fieldMappingsQueries.getFieldMappingVersion(getPool(), target, version);
+    if (!mapping) throw new NotFoundError(`${target} field mapping v${version} not found`);
+    res.json({ success: true, data: mapping });
+  } catch (error: unknown) {
+    handleError(error, res, "/:target/versions/:version");
+  }
+});
+
+/**
+ * PUT /api/admin/field-mappings/:target
+ * Body: { entries: FieldMappingEntry[], note?: string, force?: boolean }
+ */
+router.put("/:target", async (req: Request, res: Response) => {
+  try {
+    const target = fieldMappingService.parseFieldMappingTarget(req.params.target);
+    const result = await fieldMappingService.saveFieldMapping(getPool(), target, req.body?.entries, {
+      origin: "ADMIN",
+      note: parseNote(req.body?.note),
+      force: req.body?.force === true,
+    });
+    res.status(201).json({ success: true, data: result });
+  } catch (error: unknown) {
+    handleError(error, res, "/:target");
+  }
+});
+
+/**
+ * POST /api/admin/field-mappings/:target/import-csv
+ * Body: { csv: string, note?: string, force?: boolean }
+ */
+router.post("/:target/import-csv", async (req: Request, res: Response) => {
+  try {
+    const target = fieldMappingService.parseFieldMappingTarget(req.params.target);
+    if (typeof req.body?.csv !== "string" || req.body.csv.trim() === "") {
+      throw new BadRequestError("csv is required");
+    }
+    const entries = fieldMappingService.parseFieldMappingCsv(target, req.body.csv);
+    const result = await fieldMappingService.saveFieldMapping(getPool(), target, entries, {
+      origin: "CSV",
+      note: parseNote(req.body?.note),
+      force: req.body?.force === true,
+    });
+    res.status(201).json({ success: true, data: result });
+  } catch (error: unknown) {
+    handleError(error, res, "/:target/import-csv");
+  }
+});
+
+/**
+ * POST /api/admin/field-mappings/:target/versions/:version/restore
+ * Body: { force?: boolean }
+ */
+router.post("/:target/versions/:version/restore", async (req: Request, res: Response) => {
+  try {
+    const target = fieldMappingService.parseFieldMappingTarget(req.params.target);
+    const version = parseVersion(req.params.version);
+    const result = await fieldMappingService.restoreFieldMappingVersion(getPool(), target, version, {
+      force: req.body?.force === true,
+    });
+    res.status(201).json({ success: true, data: result });
+  } catch (error: unknown) {
+    handleError(error, res, "/:target/versions/:version/restore");
+  }
+});
+
+/** GET /api/admin/field-mappings/:target/check */
+router.get("/:target/check", async (req: Request, res: Response) => {
+  try {
+    const target = fieldMappingService.parseFieldMappingTarget(req.params.target);
+    const check = await fieldMappingService.checkFieldMappings(getPool(), target);
+    res.setHeader("Cache-Control", "no-store");
+    res.json({ success: true, data: check });
+  } catch (error: unknown) {
+    handleError(error, res, "/:target/check");
+  }
+});
+
+export default router;
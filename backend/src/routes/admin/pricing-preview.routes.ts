@@ -6,6 +6,7 @@
  */
 
 import { Router, Request, Response } from "express";
+import { dimensionRoundingPolicyError } from "@ovt/pricing-engine";
 import { getPool, getPricingPool } from "../../config/database";
 import { requireAdminToken } from "../../middleware/admin-token.middleware";
 import {
@@ -26,6 +27,11 @@ const router = Router();
 
 router.use(requireAdminToken);
 
+/** Validation message for an override rounding_policy, or null when absent / valid. */
+function overridesPolicyError(body: { overrides?: CalculatePriceRequest["overrides"] }): string | null {
+  return dimensionRoundingPolicyError(body.overrides?.product_pricing?.rounding_policy);
+}
+
 /**
  * POST /api/admin/pricing/calculate-price
  *
@@ -52,6 +58,10 @@ router.post("/calculate-price", async (req: Request, res: Response) => {
       }
       body.overrides = entriesToOverridesForProduct(cs.entries, body.product_pricing_id);
     }
+    const policyError = overridesPolicyError(body);
+    if (policyError) {
+      return res.status(400).json({ success: false, error: policyError });
+    }
     if (
       !body.dimensions ||
       typeof body.dimensions !== "object" ||
@@ -115,6 +125,10 @@ router.post("/impact-diff", async (req: Request, res: Response) => {
       }
       body.overrides = entriesToOverridesForProduct(cs.entries, body.product_pricing_id);
     }
+    const policyError = overridesPolicyError(body);
+    if (policyError) {
+      return res.status(400).json({ success: false, error: policyError });
+    }
 
     const mainPool = getPool();
     const pricingPool = getPricingPool();
@@ -0,0 +1,161 @@
+/**
+ * Signed-contract routes — inSign e-signature of an ADMF, status, ERP export override,
+ * and the inSign server-side callback.
+ */
+
+import { Router, Request, Response } from "express";
+import { getPool } from "../config/database";
+import * as contractSigningService from "../services/contract-signing.service";
+import { isWebhookAuthorized } from "../services/insign-api.client";
+import { authenticateToken, AuthenticatedRequest, getActor } from "../middleware/auth.middleware";
+import { ApiError } from "../utils/errors";
+import type { StartSigningRequest } from "../types/contract-signing.types";
+
+const router = Router();
+
+function handleError(error: any, res: Response): void {
+  if (error instanceof ApiError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+      code: error.code,
+    });
+    return;
+  }
+  console.error("Unexpected error in signing route:", error);
+  res.status(500).json({
+    success: false,
+    error: "Internal server error",
+    message: process.env.NODE_ENV === "development" ? error.message : undefined,
+  });
+}
+
+function parseFormId(raw: unknown): number | null {
+  const value = Array.isArray(raw) ? raw[0] : raw;
+  if (typeof value !== "string") return null;
+  const id = parseInt(value, 10);
+  if (Number.isNaN(id) || id <= 0) return null;
+  return id;
+}
+
+/**
+ * GET /api/signing/forms/:formId
+ * Latest signing session (synced with inSign while pending), order contract state and
+ * whether a live ERP export would be accepted.
+ */
+router.get("/forms/:formId", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const formId = parseFormId(req.params.formId);
+    if (formId == null) {
+      return res.status(400).json({ success: false, error: "Invalid form ID" });
+    }
+    const status = await contractSigningService.getFormSigningStatus(getPool(), formId, getActor(req));
+    res.setHeader("Cache-Control", "private, no-store");
+    res.json({ success: true, data: status });
+  } catch (error: any) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/signing/forms/:formId/sessions
+ * Body: { deliveryMode: "INAPP" | "EXTERN", customerEmail?, customerPhone? }
+ * Starts an inSign session for the current ADMF revision. INAPP → open data.access_url
+ * on the tablet; EXTERN → inSign e-mails (and texts) the links to customer and rep.
+ */
+router.post(
+  "/forms/:formId/sessions",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const formId = parseFormId(req.params.formId);
+      if (formId == null) {
+        return res.status(400).json({ success: false, error: "Invalid form ID" });
+      }
+      const session = await contractSigningService.startSigningSession({
+        pool: getPool(),
+        formId,
+        actor: getActor(req),
+        body: (req.body ?? {}) as StartSigningRequest,
+      });
+      res.status(201).json({ success: true, data: session });
+    } catch (error: any) {
+      handleError(error, res);
+    }
+  }
+);
+
+/**
+ * POST /api/signing/forms/:formId/cancel
+ * Cancels the pending session (inSign side best effort).
+ */
+router.post("/forms/:formId/cancel", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const formId = parseFormId(req.params.formId);
+    if (formId == null) {
+      return res.status(400).json({ success: false, error: "Invalid form ID" });
+    }
+    const session = await contractSigningService.cancelSigningSession(getPool(), formId, getActor(req));
+    res.json({ success: true, data: session });
+  } catch (error: any) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * PUT /api/signing/forms/:formId/erp-override
+ * Body: { reason: string | null }
+ * reason → allow ERP export of the order without a signed contract; null → revoke.
+ * OFFICE and ADMIN only (403 otherwise, also for the order owner).
+ */
+router.put(
+  "/forms/:formId/erp-override",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const formId = parseFormId(req.params.formId);
+      if (formId == null) {
+        return res.status(400).json({ success: false, error: "Invalid form ID" });
+      }
+      const { reason } = (req.body ?? {}) as { reason?: unknown };
+      const status = await contractSigningService.setErpExportOverride({
+        pool: getPool(),
+        formId,
+        actor: getActor(req),
+        rawReason: reason === undefined ? "" : reason,
+      });
+      res.json({ success: true, data: status });
+    } catch (error: any) {
+      handleError(error, res);
+    }
+  }
+);
+
+/**
+ * GET|POST|PUT /api/signing/webhook
+ * inSign server-side callback (no JWT; required Basic auth, see insign-api.client).
+ * eventid / sessionid come in the query or the JSON body.
+ */
+async function handleWebhook(req: Request, res: Response): Promise<void> {
+  if (!isWebhookAuthorized(req.headers.authorization)) {
+    res.setHeader("WWW-Authenticate", 'Basic realm="insign-webhook"');
+    res.status(401).json({ success: false, error: "Unauthorized" });
+    return;
+  }
+  try {
+    await contractSigningService.handleInsignWebhook(getPool(), {
+      method: req.method,
+      query: req.query as Record<string, unknown>,
+      body: req.body,
+    });
+    res.json({ success: true });
+  } catch (error: any) {
+    handleError(error, res);
+  }
+}
+
+router.get("/webhook", handleWebhook);
+router.post("/webhook", handleWebhook);
+router.put("/webhook", handleWebhook);
+
+export default router;
@@ -1,13 +1,15 @@
 /**
- * API routes for unified customer lookup (Raynet + ERP).
+ * API routes for unified customer lookup (Raynet + ERP) and local customer records.
  * Enforces selection + conflict validation rules.
  */
 
 import { Router, Response } from "express";
-import { authenticateToken, AuthenticatedRequest } from "../middleware/auth.middleware";
+import { getPool } from "../config/database";
+import { authenticateToken, AuthenticatedRequest, getActor } from "../middleware/auth.middleware";
 import { ApiError } from "../utils/errors";
 import * as customersService from "../services/customers.service";
-import { CustomerSearchRequest, CustomerValidateRequest } from "../types/customers.types";
+import * as customerMasterService from "../services/customer-master.service";
+import { CustomerSearchRequest, CustomerValidateRequest, MergeCustomersRequest } from "../types/customers.types";
 
 const router = Router();
 
@@ -25,7 +27,7 @@ router.post("/search", authenticateToken, async (req: AuthenticatedRequest, res:
       });
     }
 
-    const result = await customersService.searchCustomersDual(body.phone);
+    const result = await customersService.searchCustomersDual(getPool(), body.phone);
     res.json({ success: true, data: result });
   } catch (error: any) {
     handleError(error, res);
@@ -34,7 +36,8 @@ router.post("/search", authenticateToken, async (req: AuthenticatedRequest, res:
 
 /**
  * POST /api/customers/validate
- * Validates selected Raynet+ERP pair for conflicts.
+ * Validates selected Raynet+ERP pair for conflicts, links the pair to its local customer
+ * record (prefill.customer_id) and stores the conflicts on it.
  */
 router.post("/validate", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -47,13 +50,64 @@ router.post("/validate", authenticateToken, async (req: AuthenticatedRequest, re
       });
     }
 
-    const result = customersService.validateSelectedPair(body.raynet, body.erp);
+    const validated = customersService.validateSelectedPair(body.raynet, body.erp);
+    const result = await customerMasterService.recordValidatedPair(getPool(), validated);
     res.json({ success: true, data: result });
   } catch (error: any) {
     handleError(error, res);
   }
 });
 
+/**
+ * GET /api/customers/duplicates?limit=50
+ * Customers sharing a phone, e-mail or IČO (office / admin).
+ */
+router.get("/duplicates", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+    const groups = await customerMasterService.listDuplicateCustomers(
+      getPool(),
+      getActor(req),
+      Number.isNaN(limit) ? undefined : limit
+    );
+    res.json({ success: true, data: groups });
+  } catch (error: any) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/customers/merge
+ * Merge source_id into target_id (office / admin). Body: { source_id, target_id }.
+ */
+router.post("/merge", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const body = (req.body ?? {}) as Partial<MergeCustomersRequest>;
+    const result = await customerMasterService.mergeCustomers(getPool(), getActor(req), body);
+    res.json({ success: true, data: result });
+  } catch (error: any) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * GET /api/customers/:id
+ * Customer record with the caller's accessible orders and their ADMFs.
+ */
+router.get("/:id", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const idParam = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const id = parseInt(idParam, 10);
+    if (isNaN(id)) {
+      return res.status(400).json({ success: false, error: "Invalid customer ID" });
+    }
+    const detail = await customerMasterService.getCustomerDetail(getPool(), id, getActor(req));
+    res.json({ success: true, data: detail });
+  } catch (error: any) {
+    handleError(error, res);
+  }
+});
+
 /** Error handler for routes */
 function handleError(error: any, res: Response): void {
   if (error instanceof ApiError) {
@@ -7,7 +7,7 @@ import multer from "multer";
 import { getPool } from "../config/database";
 import { MAX_ATTACHMENT_BYTES } from "../config/form-attachments.constants";
 import * as formAttachmentsService from "../services/form-attachments.service";
-import type { AuthenticatedRequest } from "../middleware/auth.middleware";
+import { getActor, type AuthenticatedRequest } from "../middleware/auth.middleware";
 import { ApiError } from "../utils/errors";
 
 /** Multer: single file in memory, size cap */
@@ -34,7 +34,7 @@ export async function listFormAttachmentsHandler(
   const items = await formAttachmentsService.listFormAttachments(
     pool,
     formId,
-    req.userId!
+    getActor(req)
   );
   // Prevent CDN/browser caching stale list after uploads (production)
   res.setHeader("Cache-Control", "private, no-store, no-cache, must-revalidate");
@@ -60,7 +60,7 @@ export async function uploadFormAttachmentHandler(
   const item = await formAttachmentsService.uploadFormAttachment(
     pool,
     formId,
-    req.userId!,
+    getActor(req),
     file.buffer,
     file.originalname || "upload",
     file.mimetype
@@ -83,7 +83,7 @@ export async function deleteFormAttachmentHandler(
     });
     return;
   }
-  await formAttachmentsService.deleteFormAttachment(pool, formId, req.userId!, key);
+  await formAttachmentsService.deleteFormAttachment(pool, formId, getActor(req), key);
   res.json({ success: true });
 }
 
@@ -107,7 +107,7 @@ export async function getFormAttachmentFileHandler(
       await formAttachmentsService.getFormAttachmentStream(
         pool,
         formId,
-        req.userId!,
+        getActor(req),
         key
       );
     res.setHeader("Content-Type", contentType);
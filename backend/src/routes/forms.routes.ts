@@ -4,26 +4,34 @@
  */
 
 import { Router, Response } from "express";
+import {
+  computeFormPricePreview,
+  sizeLimitSelectorValues,
+  type FormPreviewParametersInput,
+} from "@ovt/pricing-engine";
 import { getPool, getPricingPool } from "../config/database";
 import * as formsService from "../services/forms.service";
+import * as formRevisionsService from "../services/form-revisions.service";
 import * as pricingFormsService from "../services/pricing-forms.service";
 import * as sizeLimitsService from "../services/size-limits.service";
 import * as productExtractorsService from "../services/product-extractors";
 import * as admfDefaultsService from "../services/admf-defaults.service";
 import * as admfPdfService from "../services/admf-pdf.service";
-import * as raynetExportService from "../services/raynet-export.service";
-import * as erpExportService from "../services/erp-export.service";
-import * as exportLogsQueries from "../queries/raynet-export-logs.queries";
-import * as erpExportLogsQueries from "../queries/erp-export-logs.queries";
-import { authenticateToken, AuthenticatedRequest } from "../middleware/auth.middleware";
-import { ApiError } from "../utils/errors";
+import * as orderEventsService from "../services/order-events.service";
+import * as exportQueueService from "../services/export-queue.service";
+import { EXPORT_TARGETS, findExportTargetByKey } from "../services/export-targets";
+import { previewExportTarget } from "../services/export-target.service";
+import { authenticateToken, AuthenticatedRequest, getActor } from "../middleware/auth.middleware";
+import { ApiError, BadRequestError, StaleWriteError } from "../utils/errors";
 import { FormType, ListFormsQuery } from "../types/forms.types";
 import { ExportRaynetRequest } from "../types/raynet-export.types";
-import { randomUUID } from "crypto";
+import { ExportTarget, ExportTargetId } from "../types/export-target.types";
 import * as formAttachmentHandlers from "./form-attachments.handlers";
 
 const router = Router();
 
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 /**
  * @swagger
  * components:
@@ -44,6 +52,9 @@ const router = Router();
  *         form_json:
  *           type: object
  *           description: Form data as JSON object
+ *         revision:
+ *           type: integer
+ *           description: Incremented on every update (optimistic concurrency)
  *         created_at:
  *           type: string
  *           format: date-time
@@ -68,6 +79,10 @@ const router = Router();
  *           enum: [custom, admf]
  *         form_json:
  *           type: object
+ *         client_request_id:
+ *           type: string
+ *           format: uuid
+ *           description: Idempotency key; repeating a create with the same key returns the form created the first time
  *     UpdateFormRequest:
  *       type: object
  *       required:
@@ -75,6 +90,9 @@ const router = Router();
  *       properties:
  *         form_json:
  *           type: object
+ *         base_revision:
+ *           type: integer
+ *           description: Revision the client loaded; stale saves are rejected with 409
  *     ErrorResponse:
  *       type: object
  *       properties:
@@ -133,7 +151,7 @@ const router = Router();
 router.post("/", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const pool = getPool();
-    const userId = req.userId!;
+    const actor = getActor(req);
     const body = {
       ...req.body,
       order_id: req.body.order_id != null ? parseInt(req.body.order_id, 10) : undefined,
@@ -145,7 +163,7 @@ router.post("/", authenticateToken, async (req: AuthenticatedRequest, res: Respo
       return res.status(400).json({ success: false, error: "Invalid order_id" });
     }
 
-    const form = await formsService.createForm(pool, userId, body);
+    const form = await formsService.createForm(pool, actor, body);
 
     res.status(201).json({
       success: true,
@@ -268,10 +286,55 @@ router.get("/pricing/:id", authenticateToken, async (req: AuthenticatedRequest,
   }
 });
 
+/**
+ * @swagger
+ * /api/forms/pricing/{id}/bundle:
+ *   get:
+ *     summary: Pricing bundle for one product (variants + surcharges + size limits)
+ *     description: >
+ *       Input for @ovt/pricing-engine on the device — the OVT caches it and prices
+ *       rows locally (offline form price preview). bundle_version changes only when
+ *       the bundle shape does.
+ *     tags: [Forms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: ProductPricingBundle
+ *       404:
+ *         description: Product not found or not available for OVT
+ *       503:
+ *         description: Pricing database unavailable
+ */
+router.get("/pricing/:id/bundle", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const pool = getPricingPool();
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const bundle = await pricingFormsService.getProductPricingBundle(pool, id);
+    if (!bundle) {
+      return res.status(404).json({ success: false, error: "Product pricing not found" });
+    }
+    return res.json({ success: true, data: bundle });
+  } catch (error: any) {
+    if (error.message?.includes("PRICING_DATABASE_URL")) {
+      return res.status(503).json({ success: false, error: "Pricing database not configured" });
+    }
+    console.error("Get pricing bundle error:", error);
+    return res.status(500).json({ success: false, error: "Failed to get pricing bundle" });
+  }
+});
+
 /**
  * POST /api/forms/size-limits – resolve manufacturing/warranty ranges for a row.
  * Body: { product_pricing_id, width, height, row_values: Record<string, string> }.
- * Backend uses price_affecting_enums to build selector from row_values.
+ * Backend uses price_affecting_enums to build selector from row_values (engine `sizeLimitSelectorValues`).
  */
 router.post("/size-limits", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -293,15 +356,7 @@ router.post("/size-limits", authenticateToken, async (req: AuthenticatedRequest,
       return res.status(400).json({ success: false, error: "width and height must be numbers" });
     }
     const product = await pricingFormsService.getProductPricingForResolve(pool, productPricingId);
-    const selectorValues: Record<string, string> = {};
-    if (product?.price_affecting_enums?.length) {
-      for (const key of product.price_affecting_enums) {
-        const v = rowValues[key];
-        if (v !== undefined && v !== null && String(v).trim() !== "") {
-          selectorValues[key] = String(v).trim();
-        }
-      }
-    }
+    const selectorValues = sizeLimitSelectorValues(product?.price_affecting_enums, rowValues);
     const data = await sizeLimitsService.resolveSizeLimits(
       pool,
       productPricingId,
@@ -399,15 +454,7 @@ router.post("/price-preview-form", authenticateToken, async (req: AuthenticatedR
   try {
     const body = req.body as {
       formJson?: Record<string, unknown>;
-      parameters?: {
-        vatRatePercent?: number;
-        ovtSlevaSDph?: number;
-        mngSlevaActive?: boolean;
-        mngSlevaSDph?: number;
-        montazOverrideBezDph?: number | null;
-        /** % applied to every product row's `sleva` (mirrors ADMF's "Nastavit slevu všem"). */
-        bulkSlevaPercent?: number;
-      };
+      parameters?: FormPreviewParametersInput;
     };
 
     const formJson = body.formJson;
@@ -423,88 +470,8 @@ router.post("/price-preview-form", authenticateToken, async (req: AuthenticatedR
       productExtractorsService.previewCustomFormPricing(formJson, pricingPool),
     ]);
 
-    const params = body.parameters ?? {};
-    const vatRatePercent = Number.isFinite(params.vatRatePercent)
-      ? Number(params.vatRatePercent)
-      : defaults.vatRateDefaultPercent;
-    const ovtSlevaSDph = Math.max(0, Math.round(Number(params.ovtSlevaSDph) || 0));
-    const mngSlevaActive = !!params.mngSlevaActive;
-    const mngSlevaSDph = Math.max(0, Math.round(Number(params.mngSlevaSDph) || 0));
-    const bulkSlevaPercent = (() => {
-      const n = Number(params.bulkSlevaPercent);
-      if (!Number.isFinite(n)) return defaults.bulkSlevaDefaultPercent;
-      return Math.min(100, Math.max(0, Math.round(n)));
-    })();
-
-    // Apply the bulk sleva to every preview line — mirrors what the ADMF's
-    // "Nastavit slevu všem" button does (sets `sleva` on every productRow and
-    // recomputes `cenaPoSleve = round(cena * (1 - sleva/100))`).
-    const linesWithBulkSleva = preview.lines.map((l) => {
-      if (bulkSlevaPercent === 0) return l;
-      const newCenaPoSleve = Math.round(l.cena * (1 - bulkSlevaPercent / 100));
-      return { ...l, sleva: bulkSlevaPercent, cenaPoSleve: newCenaPoSleve };
-    });
-
-    const productsBezDph = linesWithBulkSleva.reduce((sum, l) => sum + l.cenaPoSleve, 0);
-
-    let montazBezDph: number;
-    let montazSource: "tier" | "fallback" | "override";
-    let montazTierOrdinal: number | undefined;
-    if (
-      params.montazOverrideBezDph !== undefined &&
-      params.montazOverrideBezDph !== null &&
-      Number.isFinite(Number(params.montazOverrideBezDph))
-    ) {
-      montazBezDph = Math.max(0, Math.round(Number(params.montazOverrideBezDph)));
-      montazSource = "override";
-    } else {
-      const r = admfDefaultsService.resolveMontaz(defaults, productsBezDph);
-      montazBezDph = r.bezDph;
-      montazSource = r.source;
-      montazTierOrdinal = r.tierOrdinal;
-    }
-
-    // Use the office canonical formulas (admf-order-totals.ts) by handing it a
-    // synthetic form_json — guarantees parity with what office computes for ADMF.
-    const { computeAdmfCelkemBezDph, computeAdmfCelkemSDph } = await import("../utils/admf-order-totals");
-    const syntheticForm: Record<string, unknown> = {
-      // `cenaPoSleve` is the line total (extract already multiplies unit × ks).
-      // `sumProductRowsBezDph` post-fix sums `cenaPoSleve` directly without ks,
-      // so the `ks` field on the synthetic row isn't read; we still set it to 1
-      // for documentation.
-      productRows: linesWithBulkSleva.map((l) => ({ cenaPoSleve: l.cenaPoSleve, ks: 1 })),
-      vatRate: vatRatePercent,
-      montazCenaZpusob: "manual",
-      montazCenaBezDph: montazBezDph,
-      ovtSlevaSDph,
-      mngSleva: mngSlevaActive,
-      mngSlevaSDph,
-    };
-    const totalBezDph = computeAdmfCelkemBezDph(syntheticForm);
-    const totalSDph = computeAdmfCelkemSDph(syntheticForm);
-
-    return res.json({
-      success: true,
-      data: {
-        lines: linesWithBulkSleva,
-        unpriced: preview.unpriced,
-        productsBezDph,
-        montaz: { bezDph: montazBezDph, source: montazSource, tierOrdinal: montazTierOrdinal },
-        ovtSlevaSDph,
-        mngSlevaActive,
-        mngSlevaSDph: mngSlevaActive ? mngSlevaSDph : 0,
-        bulkSlevaPercent,
-        vatRatePercent,
-        vatAmount: totalSDph - totalBezDph,
-        totalBezDph,
-        totalSDph,
-        defaultsSnapshot: {
-          fromOfficePortal: defaults.fromOfficePortal,
-          montazFallbackBezDph: defaults.montazFallbackBezDph,
-          tierCount: defaults.montazTiers.length,
-        },
-      },
-    });
+    const data = computeFormPricePreview(preview, body.parameters ?? {}, defaults);
+    return res.json({ success: true, data });
   } catch (error: any) {
     if (error?.message?.includes("PRICING_DATABASE_URL")) {
       return res.status(503).json({ success: false, error: "Pricing database not configured" });
@@ -577,7 +544,7 @@ router.post("/price-preview-form", authenticateToken, async (req: AuthenticatedR
 router.get("/", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const pool = getPool();
-    const userId = req.userId!;
+    const actor = getActor(req);
 
     const query: ListFormsQuery = {
       form_type: req.query.form_type as FormType | undefined,
@@ -586,7 +553,7 @@ router.get("/", authenticateToken, async (req: AuthenticatedRequest, res: Respon
       limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
     };
 
-    const result = await formsService.getFormsByUserId(pool, userId, query);
+    const result = await formsService.getFormsByUserId(pool, actor, query);
 
     res.json({
       success: true,
@@ -679,7 +646,7 @@ router.delete("/:id/attachments", authenticateToken, async (req: AuthenticatedRe
 router.get("/:id", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const pool = getPool();
-    const userId = req.userId!;
+    const actor = getActor(req);
     const idParam = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
     const id = parseInt(idParam, 10);
 
@@ -690,7 +657,7 @@ router.get("/:id", authenticateToken, async (req: AuthenticatedRequest, res: Res
       });
     }
 
-    const form = await formsService.getFormById(pool, id, userId);
+    const form = await formsService.getFormById(pool, id, actor);
 
     res.json({
       success: true,
@@ -709,7 +676,7 @@ router.get("/:id", authenticateToken, async (req: AuthenticatedRequest, res: Res
 router.get("/:id/pdf", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const pool = getPool();
-    const userId = req.userId!;
+    const actor = getActor(req);
     const idParam = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
     const id = parseInt(idParam, 10);
 
@@ -720,7 +687,7 @@ router.get("/:id/pdf", authenticateToken, async (req: AuthenticatedRequest, res:
       });
     }
 
-    const form = await formsService.getFormById(pool, id, userId);
+    const form = await formsService.getFormById(pool, id, actor, "form.pdf");
     if (form.form_type !== "admf") {
       return res.status(400).json({
         success: false,
@@ -730,6 +697,15 @@ router.get("/:id/pdf", authenticateToken, async (req: AuthenticatedRequest, res:
 
     const pdfBuffer = await admfPdfService.generateAdmfPdfBuffer(form.form_json);
     const safeName = `objednavka-${form.id}.pdf`;
+    if (form.order_id != null) {
+      await orderEventsService.recordOrderEvent(pool, {
+        order_id: form.order_id,
+        form_id: form.id,
+        kind: "ADMF_PDF_GENERATED",
+        actor: actor.userId,
+        payload: { filename: safeName, revision: form.revision },
+      });
+    }
 
     res.setHeader("Content-Type", "application/pdf");
     res.setHeader("Content-Disposition", `inline; filename="${safeName}"`);
@@ -777,13 +753,15 @@ router.get("/:id/pdf", authenticateToken, async (req: AuthenticatedRequest, res:
  *         description: Bad request
  *       404:
  *         description: Form not found
+ *       409:
+ *         description: Stale base_revision — body contains `current` (the server copy of the form)
  *       401:
  *         description: Unauthorized
  */
 router.put("/:id", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const pool = getPool();
-    const userId = req.userId!;
+    const actor = getActor(req);
     const idParam = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
     const id = parseInt(idParam, 10);
 
@@ -794,7 +772,7 @@ router.put("/:id", authenticateToken, async (req: AuthenticatedRequest, res: Res
       });
     }
 
-    const form = await formsService.updateForm(pool, id, userId, req.body);
+    const form = await formsService.updateForm(pool, id, actor, req.body);
 
     res.json({
       success: true,
@@ -840,7 +818,7 @@ router.put("/:id", authenticateToken, async (req: AuthenticatedRequest, res: Res
 router.delete("/:id", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const pool = getPool();
-    const userId = req.userId!;
+    const actor = getActor(req);
     const idParam = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
     const id = parseInt(idParam, 10);
 
@@ -851,7 +829,7 @@ router.delete("/:id", authenticateToken, async (req: AuthenticatedRequest, res:
       });
     }
 
-    await formsService.deleteForm(pool, id, userId);
+    await formsService.deleteForm(pool, id, actor);
 
     res.json({
       success: true,
@@ -862,62 +840,54 @@ router.delete("/:id", authenticateToken, async (req: AuthenticatedRequest, res:
   }
 });
 
+/** Parse a positive integer route/query param (form id, revision number); NaN when invalid. */
+function parsePositiveIntParam(raw: unknown): number {
+  const value = Array.isArray(raw) ? raw[0] : raw;
+  if (typeof value !== "string" || !/^\d+$/.test(value)) return NaN;
+  const parsed = parseInt(value, 10);
+  return parsed > 0 ? parsed : NaN;
+}
+
 /**
- * POST /api/forms/:id/export
- * Unified export: fires Raynet + ERP in parallel via Promise.allSettled.
- * Returns results for both targets. Each has independent logging.
+ * @swagger
+ * /api/forms/{id}/revisions:
+ *   get:
+ *     summary: List revisions of a form (newest first, without form_json)
+ *     tags: [Forms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Array of { id, form_id, revision, user_id, source, restored_from_revision, created_at }
+ *       404:
+ *         description: Form not found
+ *       401:
+ *         description: Unauthorized
  */
-router.post("/:id/export", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+router.get("/:id/revisions", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const pool = getPool();
-    const userId = req.userId!;
-    const idParam = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
-    const id = parseInt(idParam, 10);
+    const actor = getActor(req);
+    const id = parsePositiveIntParam(req.params.id);
 
     if (isNaN(id)) {
-      return res.status(400).json({ success: false, error: "Invalid form ID" });
+      return res.status(400).json({
+        success: false,
+        error: "Invalid form ID",
+      });
     }
 
-    const body = req.body as { testMode?: boolean };
-    const testMode = body.testMode === true;
-    const exportBatchId = randomUUID();
+    const revisions = await formRevisionsService.listFormRevisions(pool, id, actor);
 
-    const raynetName: string | undefined =
-      req.raynetUserName && req.raynetUserName.trim() !== "" ? req.raynetUserName.trim() : undefined;
-
-    const [raynetResult, erpResult] = await Promise.allSettled([
-      raynetExportService.exportFormToRaynet(pool, id, userId, raynetName, testMode, exportBatchId),
-      erpExportService.exportFormToErp(pool, id, userId, testMode, exportBatchId),
-    ]);
-
-    return res.json({
+    res.json({
       success: true,
-      data: {
-        exportBatchId,
-        testMode,
-        raynet: raynetResult.status === "fulfilled"
-          ? {
-              success: true,
-              logId: raynetResult.value.logId,
-              exportedAt: raynetResult.value.exportedAt.toISOString(),
-              warnings: raynetResult.value.warnings,
-            }
-          : {
-              success: false,
-              error: raynetResult.reason?.message ?? "Raynet export failed",
-            },
-        erp: erpResult.status === "fulfilled"
-          ? {
-              success: true,
-              logId: erpResult.value.logId,
-              exportedAt: erpResult.value.exportedAt.toISOString(),
-              warnings: erpResult.value.warnings,
-            }
-          : {
-              success: false,
-              error: erpResult.reason?.message ?? "ERP export failed",
-            },
-      },
+      data: revisions,
     });
   } catch (error: any) {
     handleError(error, res);
@@ -925,42 +895,121 @@ router.post("/:id/export", authenticateToken, async (req: AuthenticatedRequest,
 });
 
 /**
- * POST /api/forms/:id/export-raynet
- * Export ADMF form data to Raynet event. Supports test mode.
+ * @swagger
+ * /api/forms/{id}/revisions/diff:
+ *   get:
+ *     summary: Structural diff between two revisions of a form
+ *     description: |
+ *       ADMF productRows and custom data.rooms[].rows[] are matched by id; changes are
+ *       reported per field with a Czech label (e.g. "Řádek 3 › ks").
+ *     tags: [Forms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: integer
+ *         description: Defaults to the current revision
+ *     responses:
+ *       200:
+ *         description: "{ form_id, from_revision, to_revision, changes: [{ kind, path, label, before, after }] }"
+ *       400:
+ *         description: Invalid revision numbers
+ *       404:
+ *         description: Form or revision not found
+ *       401:
+ *         description: Unauthorized
  */
-router.post("/:id/export-raynet", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+router.get("/:id/revisions/diff", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const pool = getPool();
-    const userId = req.userId!;
-    const idParam = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
-    const id = parseInt(idParam, 10);
+    const actor = getActor(req);
+    const id = parsePositiveIntParam(req.params.id);
+    const from = parsePositiveIntParam(req.query.from);
+    const to = req.query.to != null ? parsePositiveIntParam(req.query.to) : undefined;
 
     if (isNaN(id)) {
-      return res.status(400).json({ success: false, error: "Invalid form ID" });
+      return res.status(400).json({
+        success: false,
+        error: "Invalid form ID",
+      });
+    }
+    if (isNaN(from) || (to !== undefined && isNaN(to))) {
+      return res.status(400).json({
+        success: false,
+        error: "from (and optional to) must be revision numbers",
+        code: "INVALID_REVISION",
+      });
     }
 
-    const body = req.body as ExportRaynetRequest;
-    const testMode = body.testMode === true;
+    const diff = await formRevisionsService.diffFormRevisions(pool, id, actor, from, to);
 
-    const raynetName: string | undefined =
-      req.raynetUserName && req.raynetUserName.trim() !== "" ? req.raynetUserName.trim() : undefined;
+    res.json({
+      success: true,
+      data: diff,
+    });
+  } catch (error: any) {
+    handleError(error, res);
+  }
+});
 
-    const result = await raynetExportService.exportFormToRaynet(
-      pool,
-      id,
-      userId,
-      raynetName,
-      testMode
-    );
+/**
+ * @swagger
+ * /api/forms/{id}/revisions/{revision}:
+ *   get:
+ *     summary: Get one revision of a form including its form_json
+ *     tags: [Forms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: revision
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Revision with form_json
+ *       404:
+ *         description: Form or revision not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.get("/:id/revisions/:revision", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const pool = getPool();
+    const actor = getActor(req);
+    const id = parsePositiveIntParam(req.params.id);
+    const revision = parsePositiveIntParam(req.params.revision);
 
-    return res.json({
+    if (isNaN(id) || isNaN(revision)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid form ID or revision",
+      });
+    }
+
+    const record = await formRevisionsService.getFormRevision(pool, id, revision, actor);
+
+    res.json({
       success: true,
-      data: {
-        logId: result.logId,
-        exportedAt: result.exportedAt.toISOString(),
-        testMode: result.testMode,
-        warnings: result.warnings,
-      },
+      data: record,
     });
   } catch (error: any) {
     handleError(error, res);
@@ -968,13 +1017,187 @@ router.post("/:id/export-raynet", authenticateToken, async (req: AuthenticatedRe
 });
 
 /**
- * POST /api/forms/:id/export-erp
- * Export ADMF form data to ERP. Supports test mode.
+ * @swagger
+ * /api/forms/{id}/revisions/{revision}/restore:
+ *   post:
+ *     summary: Restore an older revision (saved as a new RESTORE revision)
+ *     tags: [Forms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: revision
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               base_revision:
+ *                 type: integer
+ *                 description: Revision the client has loaded; stale → 409 like PUT /api/forms/{id}
+ *     responses:
+ *       200:
+ *         description: Updated form
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Form'
+ *       404:
+ *         description: Form or revision not found
+ *       409:
+ *         description: Stale base_revision — body contains `current`
+ *       401:
+ *         description: Unauthorized
+ */
+router.post(
+  "/:id/revisions/:revision/restore",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const pool = getPool();
+      const actor = getActor(req);
+      const id = parsePositiveIntParam(req.params.id);
+      const revision = parsePositiveIntParam(req.params.revision);
+
+      if (isNaN(id) || isNaN(revision)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid form ID or revision",
+        });
+      }
+
+      const form = await formRevisionsService.restoreFormRevision(
+        pool,
+        id,
+        revision,
+        actor,
+        req.body?.base_revision
+      );
+
+      res.json({
+        success: true,
+        data: form,
+      });
+    } catch (error: any) {
+      handleError(error, res);
+    }
+  }
+);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value != null && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * `confirmedPreview` of an export request: `{ raynet: ExportTargetPreview, erp: … }`.
+ * Stored as sent (the user confirmed exactly that); entries must be objects for the
+ * target they are filed under.
+ */
+function parseConfirmedPreviews(
+  raw: unknown,
+  targets: readonly ExportTarget[]
+): Partial<Record<ExportTargetId, Record<string, unknown>>> | undefined {
+  if (raw == null) return undefined;
+  if (!isPlainObject(raw)) throw new BadRequestError("confirmedPreview must be an object keyed by target");
+  const out: Partial<Record<ExportTargetId, Record<string, unknown>>> = {};
+  for (const target of targets) {
+    const preview = raw[target.key];
+    if (preview == null) continue;
+    if (!isPlainObject(preview) || (preview.key !== undefined && preview.key !== target.key)) {
+      throw new BadRequestError(`confirmedPreview.${target.key} is not a ${target.label} preview`);
+    }
+    out[target.id] = preview;
+  }
+  return out;
+}
+
+/**
+ * Queue an export of an ADMF form for the given targets.
+ * Access, form type and target pre-checks run in enqueueFormExport, so request-level
+ * errors are returned synchronously; everything else is handled (and retried) by the
+ * export worker.
+ */
+async function enqueueExportForRequest(
+  req: AuthenticatedRequest,
+  res: Response,
+  targets: readonly ExportTarget[]
+): Promise<Response> {
+  const pool = getPool();
+  const actor = getActor(req);
+  const idParam = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+  const id = parseInt(idParam, 10);
+
+  if (isNaN(id)) {
+    return res.status(400).json({ success: false, error: "Invalid form ID" });
+  }
+
+  const body = (req.body ?? {}) as ExportRaynetRequest;
+  const testMode = body.testMode === true;
+
+  const raynetName: string | undefined =
+    req.raynetUserName && req.raynetUserName.trim() !== "" ? req.raynetUserName.trim() : undefined;
+
+  const { exportBatchId, jobs } = await exportQueueService.enqueueFormExport({
+    pool,
+    formId: id,
+    actor,
+    raynetName,
+    testMode,
+    targets: targets.map((t) => t.id),
+    confirmedPreviews: parseConfirmedPreviews(body.confirmedPreview, targets),
+  });
+
+  return res.status(202).json({
+    success: true,
+    data: {
+      exportBatchId,
+      testMode,
+      jobs,
+    },
+  });
+}
+
+/**
+ * POST /api/forms/:id/export
+ * Unified export: queues a job per registered target (Raynet + ERP) under one export batch and returns 202.
+ * Poll GET /api/forms/exports/:exportBatchId for job state and per-attempt logs.
+ * Outside test mode the ADMF must be signed (or overridden) — 400 CONTRACT_NOT_SIGNED /
+ * CONTRACT_CHANGED_AFTER_SIGNING otherwise (see /api/signing).
+ */
+router.post("/:id/export", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await enqueueExportForRequest(req, res, EXPORT_TARGETS);
+  } catch (error: any) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/forms/:id/export/preview
+ * Dry-run: builds each target's payload, reads the current Raynet event / ERP order and
+ * returns a field-by-field diff (`{ raynet: ExportTargetPreview, erp: … }`). Writes nothing.
+ * Body: { testMode?: boolean, targets?: string[] } — targets defaults to all registered ones.
+ * Send the confirmed previews back as `confirmedPreview` on POST /:id/export to store them
+ * with the export logs.
  */
-router.post("/:id/export-erp", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+router.post("/:id/export/preview", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const pool = getPool();
-    const userId = req.userId!;
+    const actor = getActor(req);
     const idParam = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
     const id = parseInt(idParam, 10);
 
@@ -982,18 +1205,30 @@ router.post("/:id/export-erp", authenticateToken, async (req: AuthenticatedReque
       return res.status(400).json({ success: false, error: "Invalid form ID" });
     }
 
-    const body = req.body as { testMode?: boolean };
-    const testMode = body.testMode === true;
+    const testMode = req.body?.testMode === true;
+    let targets: readonly ExportTarget[] = EXPORT_TARGETS;
+    if (req.body?.targets != null) {
+      if (!Array.isArray(req.body.targets)) throw new BadRequestError("targets must be an array");
+      targets = req.body.targets.map((key: unknown) => {
+        const target = findExportTargetByKey(String(key));
+        if (!target) throw new BadRequestError(`Unknown export target: ${String(key)}`);
+        return target;
+      });
+    }
 
-    const result = await erpExportService.exportFormToErp(pool, id, userId, testMode);
+    const raynetName: string | undefined =
+      req.raynetUserName && req.raynetUserName.trim() !== "" ? req.raynetUserName.trim() : undefined;
+
+    const previews = await Promise.all(
+      targets.map((target) => previewExportTarget(target, { pool, formId: id, actor, raynetName, testMode }))
+    );
 
+    res.setHeader("Cache-Control", "no-store");
     return res.json({
       success: true,
       data: {
-        logId: result.logId,
-        exportedAt: result.exportedAt.toISOString(),
-        testMode: result.testMode,
-        warnings: result.warnings,
+        testMode,
+        ...Object.fromEntries(previews.map((preview) => [preview.key, preview])),
       },
     });
   } catch (error: any) {
@@ -1001,13 +1236,46 @@ router.post("/:id/export-erp", authenticateToken, async (req: AuthenticatedReque
   }
 });
 
+/**
+ * POST /api/forms/:id/export/:target
+ * Queue an export of ADMF form data to one target (`raynet`, `erp`). Supports test mode.
+ * ERP has the same signed-contract requirement as /:id/export.
+ */
+router.post("/:id/export/:target", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const target = findExportTargetByKey(String(req.params.target));
+    if (!target) {
+      return res.status(404).json({ success: false, error: "Unknown export target" });
+    }
+    await enqueueExportForRequest(req, res, [target]);
+  } catch (error: any) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/forms/:id/export-raynet, POST /api/forms/:id/export-erp
+ * Older aliases of /:id/export/raynet and /:id/export/erp.
+ */
+for (const target of EXPORT_TARGETS) {
+  router.post(`/:id/export-${target.key}`, authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      await enqueueExportForRequest(req, res, [target]);
+    } catch (error: any) {
+      handleError(error, res);
+    }
+  });
+}
+
 /**
  * GET /api/forms/:id/export-status
- * Get the latest successful export info for both Raynet and ERP.
+ * Get the latest successful export info per target (`{ raynet, erp }`).
+ * Needs read access to the form (404 without it).
  */
 router.get("/:id/export-status", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const pool = getPool();
+    const actor = getActor(req);
     const idParam = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
     const id = parseInt(idParam, 10);
 
@@ -1015,29 +1283,22 @@ router.get("/:id/export-status", authenticateToken, async (req: AuthenticatedReq
       return res.status(400).json({ success: false, error: "Invalid form ID" });
     }
 
-    const [raynetLog, erpLog] = await Promise.all([
-      exportLogsQueries.getLatestExportForForm(pool, id),
-      erpExportLogsQueries.getLatestErpExportForForm(pool, id),
-    ]);
+    const logs = await exportQueueService.getFormExportLogs(pool, actor, id, true);
 
     return res.json({
       success: true,
-      data: {
-        raynet: raynetLog
-          ? {
-              exportedAt: raynetLog.completed_at?.toISOString() ?? raynetLog.created_at.toISOString(),
-              testMode: raynetLog.test_mode,
-              logId: raynetLog.id,
-            }
-          : null,
-        erp: erpLog
-          ? {
-              exportedAt: erpLog.completed_at?.toISOString() ?? erpLog.created_at.toISOString(),
-              testMode: erpLog.test_mode,
-              logId: erpLog.id,
-            }
-          : null,
-      },
+      data: Object.fromEntries(
+        Object.entries(logs).map(([key, log]) => [
+          key,
+          log
+            ? {
+                exportedAt: log.completed_at?.toISOString() ?? log.created_at.toISOString(),
+                testMode: log.test_mode,
+                logId: log.id,
+              }
+            : null,
+        ])
+      ),
     });
   } catch (error: any) {
     handleError(error, res);
@@ -1046,12 +1307,13 @@ router.get("/:id/export-status", authenticateToken, async (req: AuthenticatedReq
 
 /**
  * GET /api/forms/:id/export-latest
- * Get the latest export log for both Raynet and ERP (any status).
- * Intended for progress polling UI.
+ * Get the latest export log per target (any status).
+ * Intended for progress polling UI. Needs read access to the form (404 without it).
  */
 router.get("/:id/export-latest", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const pool = getPool();
+    const actor = getActor(req);
     const idParam = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
     const id = parseInt(idParam, 10);
 
@@ -1059,18 +1321,9 @@ router.get("/:id/export-latest", authenticateToken, async (req: AuthenticatedReq
       return res.status(400).json({ success: false, error: "Invalid form ID" });
     }
 
-    const [raynetLog, erpLog] = await Promise.all([
-      exportLogsQueries.getLatestExportLogForFormAnyStatus(pool, id),
-      erpExportLogsQueries.getLatestErpExportLogForFormAnyStatus(pool, id),
-    ]);
+    const logs = await exportQueueService.getFormExportLogs(pool, actor, id, false);
 
-    return res.json({
-      success: true,
-      data: {
-        raynet: raynetLog,
-        erp: erpLog,
-      },
-    });
+    return res.json({ success: true, data: logs });
   } catch (error: any) {
     handleError(error, res);
   }
@@ -1078,29 +1331,24 @@ router.get("/:id/export-latest", authenticateToken, async (req: AuthenticatedReq
 
 /**
  * GET /api/forms/exports/:exportBatchId
- * Get the latest export logs for Raynet + ERP by export batch ID (any status).
+ * Get the queued jobs + latest export log per target by export batch ID (any status).
  * Intended for progress polling UI after calling unified POST /api/forms/:id/export.
+ * Needs read access to the batch's form, like /:id/export-latest (404 without it).
  */
 router.get("/exports/:exportBatchId", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const pool = getPool();
+    const actor = getActor(req);
     const exportBatchId = req.params.exportBatchId;
-    if (!exportBatchId || typeof exportBatchId !== "string") {
+    if (!exportBatchId || typeof exportBatchId !== "string" || !UUID_RE.test(exportBatchId)) {
       return res.status(400).json({ success: false, error: "Invalid exportBatchId" });
     }
 
-    const [raynetLog, erpLog] = await Promise.all([
-      exportLogsQueries.getLatestExportLogByBatchId(pool, exportBatchId),
-      erpExportLogsQueries.getLatestErpExportLogByBatchId(pool, exportBatchId),
-    ]);
+    const { jobs, logs } = await exportQueueService.getExportBatchStatus(pool, actor, exportBatchId);
 
     return res.json({
       success: true,
-      data: {
-        exportBatchId,
-        raynet: raynetLog,
-        erp: erpLog,
-      },
+      data: { exportBatchId, jobs, ...logs },
     });
   } catch (error: any) {
     handleError(error, res);
@@ -1112,7 +1360,14 @@ router.get("/exports/:exportBatchId", authenticateToken, async (req: Authenticat
  * Converts errors to appropriate HTTP responses
  */
 function handleError(error: any, res: Response): void {
-  if (error instanceof ApiError) {
+  if (error instanceof StaleWriteError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+      code: error.code,
+      current: error.current,
+    });
+  } else if (error instanceof ApiError) {
     res.status(error.statusCode).json({
       success: false,
       error: error.message,
@@ -7,7 +7,10 @@ import { Router, Response } from "express";
 import { getPool } from "../config/database";
 import * as ordersService from "../services/orders.service";
 import * as extractProductsService from "../services/extract-products.service";
-import { authenticateToken, AuthenticatedRequest } from "../middleware/auth.middleware";
+import * as raynetOrderSyncService from "../services/raynet-order-sync.service";
+import * as orderEventsService from "../services/order-events.service";
+import * as orderSharingService from "../services/order-sharing.service";
+import { authenticateToken, AuthenticatedRequest, getActor } from "../middleware/auth.middleware";
 import { ApiError } from "../utils/errors";
 import { ListOrdersQuery } from "../types/orders.types";
 
@@ -37,8 +40,7 @@ function handleError(error: any, res: Response): void {
 router.post("/", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const pool = getPool();
-    const userId = req.userId!;
-    const order = await ordersService.createOrder(pool, userId, req.body);
+    const order = await ordersService.createOrder(pool, getActor(req), req.body);
     res.status(201).json({ success: true, data: order });
   } catch (error: any) {
     const constraint = typeof error?.constraint === "string" ? error.constraint : "";
@@ -68,16 +70,18 @@ router.post("/", authenticateToken, async (req: AuthenticatedRequest, res: Respo
 
 /**
  * GET /api/orders - List orders for authenticated user
+ * Query: scope (optional) – "mine" (default) or "accessible" (incl. shared, team and — for
+ * office / admin — all orders)
  */
 router.get("/", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const pool = getPool();
-    const userId = req.userId!;
     const query: ListOrdersQuery = {
       page: req.query.page ? parseInt(req.query.page as string, 10) : undefined,
       limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
+      scope: req.query.scope === "accessible" ? "accessible" : "mine",
     };
-    const result = await ordersService.getOrdersByUserId(pool, userId, query);
+    const result = await ordersService.getOrdersByUserId(pool, getActor(req), query);
     res.json({ success: true, data: result.data, pagination: result.pagination });
   } catch (error: any) {
     handleError(error, res);
@@ -118,11 +122,12 @@ router.post(
  * GET /api/orders/:id/extract-products - Extract products from step 1 forms for ADMF prefill
  * Query: formIds (optional) – comma-separated form IDs; if present, only those forms are used
  * Returns product lines (prices from pricing DB + per-row `pricingTrace`) and source form IDs
+ * 400 SIZE_OUT_OF_MANUFACTURING_RANGE when a row is outside its manufacturing size range
  */
 router.get("/:id/extract-products", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const pool = getPool();
-    const userId = req.userId!;
+    const actor = getActor(req);
     const idParam = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
     const orderId = parseInt(idParam, 10);
     if (isNaN(orderId)) {
@@ -137,26 +142,200 @@ router.get("/:id/extract-products", authenticateToken, async (req: Authenticated
         .filter((n) => !isNaN(n));
       if (formIds.length === 0) formIds = undefined;
     }
-    const result = await extractProductsService.extractProductsForOrder(pool, orderId, userId, formIds);
+    const result = await extractProductsService.extractProductsForOrder(pool, orderId, actor, formIds);
     res.json({ success: true, data: result });
   } catch (error: any) {
     handleError(error, res);
   }
 });
 
+/**
+ * GET /api/orders/:id/timeline - Everything that happened to the order, newest first
+ * Query: limit (optional, default 100, max 500), before (optional ISO timestamp, for paging)
+ */
+router.get("/:id/timeline", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const pool = getPool();
+    const actor = getActor(req);
+    const idParam = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const id = parseInt(idParam, 10);
+    if (isNaN(id)) {
+      return res.status(400).json({ success: false, error: "Invalid order ID" });
+    }
+    const timeline = await orderEventsService.getOrderTimeline(pool, id, actor, {
+      limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
+      before: typeof req.query.before === "string" ? new Date(req.query.before) : undefined,
+    });
+    res.json({ success: true, data: timeline });
+  } catch (error: any) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * GET /api/orders/:id/activity - Raynet sync activity of the order (newest first)
+ * Query: limit (optional, default 50, max 200)
+ */
+router.get("/:id/activity", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const pool = getPool();
+    const actor = getActor(req);
+    const idParam = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const id = parseInt(idParam, 10);
+    if (isNaN(id)) {
+      return res.status(400).json({ success: false, error: "Invalid order ID" });
+    }
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+    const activity = await raynetOrderSyncService.getOrderActivity(
+      pool,
+      id,
+      actor,
+      limit && !isNaN(limit) ? limit : undefined
+    );
+    res.json({ success: true, data: activity });
+  } catch (error: any) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/orders/:id/raynet-sync - Re-read the linked Raynet event and update the order now
+ */
+router.post("/:id/raynet-sync", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const pool = getPool();
+    const actor = getActor(req);
+    const idParam = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const id = parseInt(idParam, 10);
+    if (isNaN(id)) {
+      return res.status(400).json({ success: false, error: "Invalid order ID" });
+    }
+    const summary = await raynetOrderSyncService.syncOrderFromRaynet(pool, id, actor);
+    const order = await ordersService.getOrderById(pool, id, actor);
+    res.json({ success: true, data: { order, items: summary.items } });
+  } catch (error: any) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/orders/:id/raynet-sync/resolve - Resolve a Raynet sync conflict
+ * Body: { field, use: "raynet" | "local" }
+ */
+router.post("/:id/raynet-sync/resolve", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const pool = getPool();
+    const actor = getActor(req);
+    const idParam = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const id = parseInt(idParam, 10);
+    if (isNaN(id)) {
+      return res.status(400).json({ success: false, error: "Invalid order ID" });
+    }
+    await raynetOrderSyncService.resolveRaynetSyncConflict(pool, {
+      orderId: id,
+      actor,
+      field: req.body?.field,
+      use: req.body?.use,
+    });
+    const order = await ordersService.getOrderById(pool, id, actor);
+    res.json({ success: true, data: order });
+  } catch (error: any) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * GET /api/orders/:id/shares - Users the order is shared with
+ */
+router.get("/:id/shares", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const pool = getPool();
+    const actor = getActor(req);
+    const idParam = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const id = parseInt(idParam, 10);
+    if (isNaN(id)) {
+      return res.status(400).json({ success: false, error: "Invalid order ID" });
+    }
+    const shares = await orderSharingService.listOrderShares(pool, actor, id);
+    res.json({ success: true, data: shares });
+  } catch (error: any) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * PUT /api/orders/:id/shares - Share the order with a user (or change the access level)
+ * Body: { user_id: e-mail, access: "READ" | "WRITE" }
+ */
+router.put("/:id/shares", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const pool = getPool();
+    const actor = getActor(req);
+    const idParam = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const id = parseInt(idParam, 10);
+    if (isNaN(id)) {
+      return res.status(400).json({ success: false, error: "Invalid order ID" });
+    }
+    const share = await orderSharingService.shareOrder(pool, actor, id, req.body ?? {});
+    res.json({ success: true, data: share });
+  } catch (error: any) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * DELETE /api/orders/:id/shares/:userId - Stop sharing the order with a user
+ */
+router.delete("/:id/shares/:userId", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const pool = getPool();
+    const actor = getActor(req);
+    const idParam = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const id = parseInt(idParam, 10);
+    if (isNaN(id)) {
+      return res.status(400).json({ success: false, error: "Invalid order ID" });
+    }
+    await orderSharingService.unshareOrder(pool, actor, id, req.params.userId);
+    res.json({ success: true, message: "Share removed" });
+  } catch (error: any) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/orders/:id/reassign - Hand the order over to another rep (MNG, OFFICE, ADMIN)
+ * Body: { user_id: e-mail of the new owner }
+ */
+router.post("/:id/reassign", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const pool = getPool();
+    const actor = getActor(req);
+    const idParam = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const id = parseInt(idParam, 10);
+    if (isNaN(id)) {
+      return res.status(400).json({ success: false, error: "Invalid order ID" });
+    }
+    await orderSharingService.reassignOrder(pool, actor, id, req.body ?? {});
+    const order = await ordersService.getOrderById(pool, id, actor);
+    res.json({ success: true, data: order });
+  } catch (error: any) {
+    handleError(error, res);
+  }
+});
+
 /**
  * GET /api/orders/:id - Get order by ID
  */
 router.get("/:id", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const pool = getPool();
-    const userId = req.userId!;
+    const actor = getActor(req);
     const idParam = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
     const id = parseInt(idParam, 10);
     if (isNaN(id)) {
       return res.status(400).json({ success: false, error: "Invalid order ID" });
     }
-    const order = await ordersService.getOrderById(pool, id, userId);
+    const order = await ordersService.getOrderById(pool, id, actor);
     res.json({ success: true, data: order });
   } catch (error: any) {
     handleError(error, res);
@@ -169,13 +348,13 @@ router.get("/:id", authenticateToken, async (req: AuthenticatedRequest, res: Res
 router.put("/:id", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const pool = getPool();
-    const userId = req.userId!;
+    const actor = getActor(req);
     const idParam = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
     const id = parseInt(idParam, 10);
     if (isNaN(id)) {
       return res.status(400).json({ success: false, error: "Invalid order ID" });
     }
-    const order = await ordersService.updateOrder(pool, id, userId, req.body);
+    const order = await ordersService.updateOrder(pool, id, actor, req.body);
     res.json({ success: true, data: order });
   } catch (error: any) {
     handleError(error, res);
@@ -188,13 +367,13 @@ router.put("/:id", authenticateToken, async (req: AuthenticatedRequest, res: Res
 router.delete("/:id", authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const pool = getPool();
-    const userId = req.userId!;
+    const actor = getActor(req);
     const idParam = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
     const id = parseInt(idParam, 10);
     if (isNaN(id)) {
       return res.status(400).json({ success: false, error: "Invalid order ID" });
     }
-    await ordersService.deleteOrder(pool, id, userId);
+    await ordersService.deleteOrder(pool, id, actor);
     res.json({ success: true, message: "Order deleted successfully" });
   } catch (error: any) {
     handleError(error, res);
@@ -3,9 +3,10 @@
  * Handles customer search operations via Raynet API
  */
 
-import { Router, Response } from "express";
+import { Router, Request, Response } from "express";
 import * as raynetService from "../services/raynet.service";
-import * as raynetClient from "../services/raynet.client";
+import * as raynetOrderSyncService from "../services/raynet-order-sync.service";
+import { getPool } from "../config/database";
 import { authenticateToken, AuthenticatedRequest } from "../middleware/auth.middleware";
 import { ApiError } from "../utils/errors";
 import { SearchCustomerByPhoneRequest } from "../types/raynet.types";
@@ -198,7 +199,7 @@ router.post(
         return res.status(400).json({ success: false, error: "'description' must be a string" });
       }
 
-      await raynetClient.updateEventDescription(eventId, description);
+      await raynetService.updateEventDescription(getPool(), req.userId!, eventId, description);
       res.json({ success: true });
     } catch (error: any) {
       handleError(error, res);
@@ -206,6 +207,27 @@ router.post(
   }
 );
 
+/**
+ * POST /api/raynet/webhook
+ * Raynet webhook (event created / updated). No JWT — authenticated by
+ * RAYNET_WEBHOOK_SECRET: `X-Raynet-Signature: sha256=<hmac of body>` or `?token=<secret>`.
+ * Linked orders are re-synced from the event as read back from Raynet.
+ */
+router.post("/webhook", async (req: Request, res: Response) => {
+  try {
+    const tokenParam = Array.isArray(req.query.token) ? req.query.token[0] : req.query.token;
+    raynetOrderSyncService.verifyRaynetWebhook({
+      rawBody: (req as Request & { rawBody?: Buffer }).rawBody,
+      signature: req.get("x-raynet-signature") ?? undefined,
+      token: req.get("x-webhook-token") ?? (typeof tokenParam === "string" ? tokenParam : undefined),
+    });
+    const summary = await raynetOrderSyncService.handleRaynetWebhook(getPool(), req.body);
+    res.json({ success: true, data: { events: summary.events, items: summary.items } });
+  } catch (error: any) {
+    handleError(error, res);
+  }
+});
+
 /**
  * Error handler for routes
  * Converts errors to appropriate HTTP responses
@@ -5,7 +5,7 @@
 import { Router, Response } from "express";
 import { getPool } from "../config/database";
 import * as retentionService from "../services/retention.service";
-import { authenticateToken, AuthenticatedRequest } from "../middleware/auth.middleware";
+import { authenticateToken, AuthenticatedRequest, getActor } from "../middleware/auth.middleware";
 import { ApiError } from "../utils/errors";
 
 const router = Router();
@@ -51,14 +51,14 @@ router.post(
         return res.status(400).json({ success: false, error: "Invalid order ID" });
       }
 
-      const userId = req.userId!;
+      const actor = getActor(req);
       const { reason, testMode } = (req.body ?? {}) as { reason?: unknown; testMode?: unknown };
 
       const pool = getPool();
       const result = await retentionService.sendOrderToRetention({
         pool,
         orderId,
-        userId,
+        actor,
         rawReason: reason,
         testMode: testMode === true,
       });
@@ -92,9 +92,8 @@ router.get(
         return res.status(400).json({ success: false, error: "Invalid order ID" });
       }
 
-      const userId = req.userId!;
       const pool = getPool();
-      const status = await retentionService.getOrderRetentionStatus(pool, orderId, userId);
+      const status = await retentionService.getOrderRetentionStatus(pool, orderId, getActor(req));
 
       res.json({ success: true, data: status });
     } catch (error: any) {
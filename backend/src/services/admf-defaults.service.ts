@@ -12,6 +12,7 @@
  */
 
 import type { Pool } from "pg";
+import type { MontazTier } from "@ovt/pricing-engine";
 import {
   fetchDefaults,
   fetchMontazTiers,
@@ -23,14 +24,7 @@ const LEGACY_FALLBACK_MONTAZ = 1339;
 const LEGACY_FALLBACK_VAT_PERCENT = 12;
 const TTL_MS = 60_000;
 
-export interface MontazTier {
-  id: string;
-  ordinal: number;
-  minProductsBezDph: number;
-  maxProductsBezDph: number | null;
-  montazBezDph: number;
-  note: string | null;
-}
+export type { MontazTier };
 
 export interface AdmfDefaults {
   vatRateDefaultPercent: number;
@@ -112,28 +106,7 @@ export function invalidateAdmfDefaultsCache(): void {
 }
 
 /**
- * Resolve the montáž value for a given products subtotal (bez DPH). If a tier
- * matches, returns its value with `source = 'tier'`; otherwise the fallback
- * with `source = 'fallback'`.
- *
- * Tier picking: lowest `ordinal` among tiers where `min ≤ x AND (max IS NULL OR x < max)`.
+ * Montáž for a products subtotal (tier or fallback) — shared with the OVT offline
+ * preview through @ovt/pricing-engine.
  */
-export function resolveMontaz(
-  defaults: AdmfDefaults,
-  productsBezDph: number
-): { bezDph: number; source: "tier" | "fallback"; tierId?: string; tierOrdinal?: number } {
-  const x = Number.isFinite(productsBezDph) && productsBezDph >= 0 ? productsBezDph : 0;
-  const matches = defaults.montazTiers.filter(
-    (t) => t.minProductsBezDph <= x && (t.maxProductsBezDph == null || x < t.maxProductsBezDph)
-  );
-  if (matches.length === 0) {
-    return { bezDph: defaults.montazFallbackBezDph, source: "fallback" };
-  }
-  const winner = matches.reduce((a, b) => (a.ordinal <= b.ordinal ? a : b));
-  return {
-    bezDph: winner.montazBezDph,
-    source: "tier",
-    tierId: winner.id,
-    tierOrdinal: winner.ordinal,
-  };
-}
+export { resolveMontaz } from "@ovt/pricing-engine";
@@ -33,6 +33,22 @@ const FG = rgb(0.06, 0.08, 0.14);
 const MUTED = rgb(0.42, 0.45, 0.5);
 const BORDER = rgb(0.55, 0.57, 0.62);
 const BAND_BG = rgb(0.94, 0.95, 0.97);
+const WARN = rgb(0.72, 0.11, 0.11);
+const PAPER = rgb(1, 1, 1);
+
+/**
+ * Text anchors inSign places the signature fields over (`textsearch`). Drawn in white
+ * into the signature cells only when the PDF is generated for e-signature.
+ */
+export const ADMF_SIGNATURE_MARKERS = {
+  customer: "__SIG_CUSTOMER__",
+  seller: "__SIG_SELLER__",
+} as const;
+
+export interface AdmfPdfOptions {
+  /** Add the invisible ADMF_SIGNATURE_MARKERS (PDF sent to inSign). */
+  signatureMarkers?: boolean;
+}
 
 const FONT_SIZE_TITLE = 16;
 const FONT_SIZE_HEADING = 11;
@@ -78,6 +94,8 @@ interface ProductRow {
   sleva?: number;
   cenaPoSleve?: number;
   priceAffectingFields?: PriceAffectingField[];
+  /** Outside the warranty range — printed as "BEZ ZÁRUKY" in the produkt cell. */
+  bezZaruky?: boolean;
 }
 
 interface AdmfFormData {
@@ -461,7 +479,8 @@ function drawSectionTitle(ctx: Ctx, yTop: number, label: string): number {
  * Product table — 7 fixed rows minimum + M (montáž) + celkem.
  * All monetary cells render the s-DPH (with VAT) value. Stored prices in
  * `form_json` are bez-DPH, so we multiply by `(1 + vatRate/100)` at render
- * time. `celkem` shows only the s-DPH total per request.
+ * time. `celkem` shows only the s-DPH total per request. Lines sold outside the warranty
+ * range (`bezZaruky`) carry a red "BEZ ZÁRUKY" mark in the produkt cell.
  */
 function drawProductTable(ctx: Ctx, yTop: number, d: AdmfFormData): number {
   const vat = d.vatRate ?? 12;
@@ -509,11 +528,25 @@ function drawProductTable(ctx: Ctx, yTop: number, d: AdmfFormData): number {
         row.sleva != null ? `${Math.round(row.sleva)} %` : "%",
         row.cenaPoSleve != null ? String(withVat(row.cenaPoSleve)) : "",
       ];
+      // Bez záruky lines reserve the right end of the produkt cell for the flag.
+      const bezZarukyLabel = "BEZ ZÁRUKY";
+      const bezZarukyW = row.bezZaruky
+        ? ctx.fontBold.widthOfTextAtSize(bezZarukyLabel, FONT_SIZE_SMALL) + 6
+        : 0;
+      if (row.bezZaruky) {
+        drawText(ctx, bezZarukyLabel, xOf(0) + 4, y + (rowH - FONT_SIZE_SMALL) / 2 + 1, {
+          size: FONT_SIZE_SMALL,
+          bold: true,
+          color: WARN,
+          maxWidth: cols[0].w - 8,
+          align: "right",
+        });
+      }
       cells.forEach((cell, ci) => {
         if (cell) {
           drawText(ctx, cell, xOf(ci) + 4, y + (rowH - FONT_SIZE_BODY) / 2 + 1, {
             size: FONT_SIZE_BODY,
-            maxWidth: cols[ci].w - 8,
+            maxWidth: cols[ci].w - 8 - (ci === 0 ? bezZarukyW : 0),
             align: cols[ci].align === "left" ? undefined : cols[ci].align,
           });
         } else if (ci === 3) {
@@ -812,15 +845,21 @@ function drawLegalText(ctx: Ctx, yTop: number): number {
 }
 
 /** Signature row: DATUM | PODPIS KUPUJÍCÍHO | JMÉNO A PODPIS ZÁSTUPCE PRODÁVAJÍCÍHO. */
-function drawSignatureRow(ctx: Ctx, yTop: number, d: AdmfFormData): number {
+function drawSignatureRow(ctx: Ctx, yTop: number, d: AdmfFormData, signatureMarkers: boolean): number {
   const h = 42;
   const cells = [
-    { label: "DATUM", value: d.datum ?? "", w: 110 },
-    { label: "PODPIS KUPUJÍCÍHO", value: d.podpisZakaznika ?? "", w: 0 },
+    { label: "DATUM", value: d.datum ?? "", w: 110, marker: null },
+    {
+      label: "PODPIS KUPUJÍCÍHO",
+      value: d.podpisZakaznika ?? "",
+      w: 0,
+      marker: ADMF_SIGNATURE_MARKERS.customer,
+    },
     {
       label: "JMÉNO A PODPIS ZÁSTUPCE PRODÁVAJÍCÍHO",
       value: d.jmenoPodpisZprostredkovatele ?? "",
       w: 0,
+      marker: ADMF_SIGNATURE_MARKERS.seller,
     },
   ];
   const remaining = CONTENT_W - cells[0].w;
@@ -829,6 +868,10 @@ function drawSignatureRow(ctx: Ctx, yTop: number, d: AdmfFormData): number {
   let x = MARGIN;
   for (const c of cells) {
     drawLabeledCell(ctx, x, yTop, c.w, h, c.label, c.value);
+    if (signatureMarkers && c.marker) {
+      // Bottom of the cell, below the printed name — inSign puts the signature field here.
+      drawText(ctx, c.marker, x + 3, yTop + h - 10, { size: 6, color: PAPER });
+    }
     x += c.w;
   }
   return yTop + h;
@@ -838,7 +881,10 @@ function drawSignatureRow(ctx: Ctx, yTop: number, d: AdmfFormData): number {
 // Public entry point
 // ---------------------------------------------------------------------------
 
-export async function generateAdmfPdfBuffer(raw: Record<string, unknown>): Promise<Buffer> {
+export async function generateAdmfPdfBuffer(
+  raw: Record<string, unknown>,
+  options: AdmfPdfOptions = {}
+): Promise<Buffer> {
   const data = raw as AdmfFormData;
 
   const doc = await PDFDocument.create();
@@ -885,7 +931,7 @@ export async function generateAdmfPdfBuffer(raw: Record<string, unknown>): Promi
   y = drawDoplatekRow(ctx, y, data, celkemSDph);
   y = drawPredpokladanaRow(ctx, y, data);
   y = drawLegalText(ctx, y);
-  y = drawSignatureRow(ctx, y, data);
+  y = drawSignatureRow(ctx, y, data, options.signatureMarkers === true);
 
   const bytes = await doc.save();
   return Buffer.from(bytes);
@@ -15,13 +15,41 @@
  *                              admin marked it `we_sell=false`)
  *   - `type_mismatch`        : value's runtime type doesn't fit the property's
  *                              `DataType` (numeric expected, string present, etc.)
+ *   - `dimension_out_of_range`    : row's width × height is inside the live
+ *                                   manufacturing range but outside the proposed one
+ *   - `dimension_out_of_warranty` : same for the warranty range
  *
- * Out of scope for v1: dimension out-of-range checks (size_limit_variant
- * lives on the pricing side and isn't part of the proposed payload). Add in
- * a follow-up if admins ask.
+ * The dimension checks run when `overrides_by_pricing_id` carries
+ * size_limit_variant overrides (change-set drafts); the schema checks when a
+ * `proposed_payload` is given. At least one of the two is required.
+ *
+ * Besides row failures, the response lists `selector_overlaps`: pairs of
+ * pricing_variant rows of the product that one form row could match at once
+ * (the engine then picks the most specific one and warns). Overlaps are
+ * reported, not counted as row failures.
+ *
+ * Rows already out of range under the live limits are not reported — only
+ * rows the proposed limits would newly exclude.
  */
 
 import type { Pool } from "pg";
+import {
+  evaluateRowSizeLimits,
+  findSelectorOverlaps,
+  getDimension,
+  HEIGHT_KEYS,
+  WIDTH_KEYS,
+  sizeLimitViolation,
+  type SelectorOverlap,
+  type SizeLimitVariant,
+} from "@ovt/pricing-engine";
+import { mergeOverrides, mergeSizeLimitOverrides } from "./admin-impact-diff.service";
+import type { CalculatePriceOverrides } from "./admin-pricing-preview.service";
+import {
+  getPricingVariantsByProductId,
+  getProductPricingForResolve,
+  getSizeLimitVariantsByProductId,
+} from "./pricing-forms.service";
 
 // ---------------------------------------------------------------------------
 // Public contract
@@ -53,7 +81,10 @@ export interface ProposedPayload {
 
 export interface BreakageCheckRequest {
   product_code: string;
-  proposed_payload: ProposedPayload;
+  /** Omit to skip the schema checks (size-limit overrides only). */
+  proposed_payload?: ProposedPayload;
+  /** Pricing-side drafts per product_pricing_id; `size_limit_variants` drive the dimension checks. */
+  overrides_by_pricing_id?: Record<string, CalculatePriceOverrides>;
   filters?: {
     /** ISO date; default = 90 days ago. */
     since?: string;
@@ -65,7 +96,9 @@ export interface BreakageCheckRequest {
 export type FailureReason =
   | "missing_required"
   | "enum_value_removed"
-  | "type_mismatch";
+  | "type_mismatch"
+  | "dimension_out_of_range"
+  | "dimension_out_of_warranty";
 
 export interface FailureEntry {
   field: string;
@@ -90,6 +123,11 @@ export interface BreakageCheckFormEntry {
   rows: BreakageCheckRowFailures[];
 }
 
+/** Two variants of one product whose selectors overlap (see engine `findSelectorOverlaps`). */
+export interface SelectorOverlapEntry extends SelectorOverlap {
+  product_pricing_id: string;
+}
+
 export interface BreakageCheckResponse {
   would_fail: BreakageCheckFormEntry[];
   summary: {
@@ -99,6 +137,8 @@ export interface BreakageCheckResponse {
     by_reason: Record<FailureReason, number>;
   };
   capped: boolean;
+  /** Overlapping pricing_variant selectors of the resolved products. */
+  selector_overlaps: SelectorOverlapEntry[];
   /** product_pricing_ids resolved from product_code; useful for debugging. */
   resolved_pricing_ids: string[];
 }
@@ -275,10 +315,151 @@ async function fetchCustomFormsTouchingAnyOf(
   }));
 }
 
+/**
+ * Live product + variants with `overrides` (change-set drafts) merged on top. Change-set
+ * variant updates are not scoped per product, so only this product's rows + new drafts
+ * are kept. Null when the product does not exist.
+ */
+async function mergedProductVariants(
+  pricingPool: Pool,
+  productPricingId: string,
+  overrides?: CalculatePriceOverrides
+): Promise<ReturnType<typeof mergeOverrides> | null> {
+  const liveProduct = await getProductPricingForResolve(pricingPool, productPricingId);
+  if (!liveProduct) return null;
+  const liveVariants = await getPricingVariantsByProductId(pricingPool, productPricingId);
+  const { product, variants } = mergeOverrides(liveProduct, liveVariants, overrides);
+  const liveIds = new Set(liveVariants.map((v) => v.id));
+  return { product, variants: variants.filter((v) => liveIds.has(v.id) || v.id.startsWith("__draft_")) };
+}
+
+/**
+ * Overlapping pricing_variant selectors of one product, over its price_affecting_enums.
+ * `overrides` (change-set drafts) are merged onto the live rows first, so this shows
+ * the state after publish; `priceAffectingEnums` wins over both when given.
+ */
+export async function selectorOverlapsForProduct(
+  pricingPool: Pool,
+  productPricingId: string,
+  opts?: { overrides?: CalculatePriceOverrides; priceAffectingEnums?: string[] }
+): Promise<SelectorOverlapEntry[]> {
+  const merged = await mergedProductVariants(pricingPool, productPricingId, opts?.overrides);
+  if (!merged) return [];
+  const keys = opts?.priceAffectingEnums ?? merged.product.price_affecting_enums ?? [];
+  return findSelectorOverlaps(merged.variants, keys).map((o) => ({
+    product_pricing_id: productPricingId,
+    ...o,
+  }));
+}
+
+/** Active value of a price-affecting enum that no priced variant's selector accepts. */
+export interface UnpricedEnumValue {
+  product_pricing_id: string;
+  enum_code: string;
+  value: string;
+}
+
+/**
+ * Active values of the price_affecting_enums in `payload` that no priced (non
+ * surcharge-only) variant lists in its selector, after `overrides` are merged — a form
+ * row picking one would get no price. Catches a new enum value in the form structure
+ * without its matching pricing_variant. Products without priced variants are skipped.
+ */
+export async function unpricedEnumValuesForProduct(
+  pricingPool: Pool,
+  productPricingId: string,
+  payload: ProposedPayload,
+  opts?: { overrides?: CalculatePriceOverrides; priceAffectingEnums?: string[] }
+): Promise<UnpricedEnumValue[]> {
+  const merged = await mergedProductVariants(pricingPool, productPricingId, opts?.overrides);
+  if (!merged) return [];
+  const priced = merged.variants.filter((v) => !v.surcharge_only);
+  if (priced.length === 0) return [];
+  const keys = opts?.priceAffectingEnums ?? merged.product.price_affecting_enums ?? [];
+  const out: UnpricedEnumValue[] = [];
+  for (const key of keys) {
+    for (const value of getActiveEnumCodes(payload, key)) {
+      const covered = priced.some(
+        (v) => Array.isArray(v.selector?.[key]) && v.selector[key].map(String).includes(value)
+      );
+      if (!covered) out.push({ product_pricing_id: productPricingId, enum_code: key, value });
+    }
+  }
+  return out;
+}
+
 // ---------------------------------------------------------------------------
 // Main entry
 // ---------------------------------------------------------------------------
 
+function emptyByReason(): Record<FailureReason, number> {
+  return {
+    missing_required: 0,
+    enum_value_removed: 0,
+    type_mismatch: 0,
+    dimension_out_of_range: 0,
+    dimension_out_of_warranty: 0,
+  };
+}
+
+interface SizeLimitCheck {
+  priceAffectingEnums: string[];
+  live: SizeLimitVariant[];
+  proposed: SizeLimitVariant[];
+}
+
+/** Live vs proposed size limits for the products whose overrides touch them. */
+async function loadSizeLimitChecks(
+  pricingPool: Pool,
+  pricingIds: string[],
+  overridesById: Record<string, CalculatePriceOverrides> | undefined
+): Promise<Map<string, SizeLimitCheck>> {
+  const out = new Map<string, SizeLimitCheck>();
+  for (const pid of pricingIds) {
+    const overrides = overridesById?.[pid];
+    if (!overrides?.size_limit_variants?.length) continue;
+    const product = await getProductPricingForResolve(pricingPool, pid);
+    if (!product) continue;
+    const live = await getSizeLimitVariantsByProductId(pricingPool, pid);
+    out.set(pid, {
+      priceAffectingEnums:
+        overrides.product_pricing?.price_affecting_enums ?? product.price_affecting_enums ?? [],
+      live,
+      proposed: mergeSizeLimitOverrides(live, overrides),
+    });
+  }
+  return out;
+}
+
+/** Dimension failures a row would newly get under the proposed size limits. Pure. */
+export function validateRowSizeLimits(
+  values: Record<string, unknown>,
+  check: SizeLimitCheck
+): FailureEntry[] {
+  const proposed = evaluateRowSizeLimits(check.proposed, check.priceAffectingEnums, values);
+  const after = sizeLimitViolation(proposed);
+  if (!proposed || !after) return [];
+  const before = sizeLimitViolation(evaluateRowSizeLimits(check.live, check.priceAffectingEnums, values));
+  // Already out of the same (or the manufacturing) range today — not a new breakage.
+  if (before === "manufacturing" || before === after) return [];
+  const size = `${getDimension(values, WIDTH_KEYS)} × ${getDimension(values, HEIGHT_KEYS)} mm`;
+  return after === "manufacturing"
+    ? [
+        {
+          field: "rozmer",
+          reason: "dimension_out_of_range",
+          detail: `Rozměr ${size} bude mimo výrobní rozsah (${proposed.mezni_sirka_min ?? "?"}–${proposed.mezni_sirka_max ?? "?"} × ${proposed.mezni_vyska_min ?? "?"}–${proposed.mezni_vyska_max ?? "?"} mm).`,
+        },
+      ]
+    : [
+        {
+          field: "rozmer",
+          reason: "dimension_out_of_warranty",
+          detail: `Rozměr ${size} bude mimo záruční rozsah (${proposed.zarucni_sirka_min ?? "?"}–${proposed.zarucni_sirka_max ?? "?"} × ${proposed.zarucni_vyska_min ?? "?"}–${proposed.zarucni_vyska_max ?? "?"} mm).`,
+        },
+      ];
+}
+
 function flattenRowValues(row: Record<string, unknown>): Record<string, unknown> {
   const values = row.values;
   if (values && typeof values === "object" && !Array.isArray(values)) {
@@ -296,8 +477,16 @@ export async function runBreakageCheck(
   if (!productCode) {
     throw Object.assign(new Error("product_code is required"), { code: "BAD_INPUT" });
   }
-  if (!req.proposed_payload || typeof req.proposed_payload !== "object") {
-    throw Object.assign(new Error("proposed_payload is required"), { code: "BAD_INPUT" });
+  const hasSizeLimitOverrides = Object.values(req.overrides_by_pricing_id ?? {}).some(
+    (o) => (o.size_limit_variants?.length ?? 0) > 0
+  );
+  if (req.proposed_payload !== undefined && (!req.proposed_payload || typeof req.proposed_payload !== "object")) {
+    throw Object.assign(new Error("proposed_payload must be an object"), { code: "BAD_INPUT" });
+  }
+  if (!req.proposed_payload && !hasSizeLimitOverrides) {
+    throw Object.assign(new Error("proposed_payload or size_limit_variants overrides are required"), {
+      code: "BAD_INPUT",
+    });
   }
 
   const pricingIds = await resolveProductPricingIdsByCode(pricingPool, productCode);
@@ -320,13 +509,25 @@ export async function runBreakageCheck(
         affected_form_count: 0,
         affected_row_count: 0,
         total_failures: 0,
-        by_reason: { missing_required: 0, enum_value_removed: 0, type_mismatch: 0 },
+        by_reason: emptyByReason(),
       },
       capped: false,
+      selector_overlaps: [],
       resolved_pricing_ids: [],
     };
   }
 
+  const proposedEnums = Array.isArray(req.proposed_payload?.price_affecting_enums)
+    ? (req.proposed_payload.price_affecting_enums as unknown[]).map(String)
+    : undefined;
+  const sizeLimitChecks = await loadSizeLimitChecks(pricingPool, pricingIds, req.overrides_by_pricing_id);
+  const selectorOverlaps: SelectorOverlapEntry[] = [];
+  for (const pid of pricingIds) {
+    selectorOverlaps.push(
+      ...(await selectorOverlapsForProduct(pricingPool, pid, { priceAffectingEnums: proposedEnums }))
+    );
+  }
+
   const forms = await fetchCustomFormsTouchingAnyOf(
     mainPool,
     pricingIds,
@@ -337,11 +538,7 @@ export async function runBreakageCheck(
   const considered = capped ? forms.slice(0, requestedLimit) : forms;
 
   const wouldFail: BreakageCheckFormEntry[] = [];
-  const byReason: Record<FailureReason, number> = {
-    missing_required: 0,
-    enum_value_removed: 0,
-    type_mismatch: 0,
-  };
+  const byReason = emptyByReason();
   let totalRowsFailed = 0;
   let totalFailures = 0;
 
@@ -363,7 +560,11 @@ export async function runBreakageCheck(
             : undefined);
         if (!rowPid || !idsSet.has(rowPid)) continue;
 
-        const failures = validateRowAgainstPayload(flatVals, req.proposed_payload);
+        const sizeCheck = sizeLimitChecks.get(rowPid);
+        const failures = [
+          ...(req.proposed_payload ? validateRowAgainstPayload(flatVals, req.proposed_payload) : []),
+          ...(sizeCheck ? validateRowSizeLimits(flatVals, sizeCheck) : []),
+        ];
         if (failures.length === 0) continue;
 
         formRowFailures.push({
@@ -398,6 +599,7 @@ export async function runBreakageCheck(
       by_reason: byReason,
     },
     capped,
+    selector_overlaps: selectorOverlaps,
     resolved_pricing_ids: pricingIds,
   };
 }
@@ -0,0 +1,299 @@
+/**
+ * Change-set conflict detection (three-way: base, live, draft).
+ *
+ * An update entry is drafted against the live row at `base_updated_at`
+ * (`base_snapshot` holds its editable columns). When the live row has moved on
+ * since — another change-set was published, or someone edited it directly —
+ * the entry is stale:
+ *   - fields changed only live, or only in the draft, merge cleanly → the
+ *     entry can be rebased (base := live, untouched draft fields := live);
+ *   - fields changed on both sides to different values overlap → the admin
+ *     picks live or draft per field;
+ *   - a row that no longer exists cannot be rebased at all.
+ * Without a base snapshot every draft field that differs from live counts as
+ * overlapping (we cannot tell who changed it).
+ *
+ * Create entries never conflict (selector overlaps are reported separately); delete
+ * entries are checked like updates with an empty draft.
+ *
+ * form_structure entries target validation-products' `validated_product` table in the
+ * admin DB (keyed by product_code); their live rows are read from the admin pool, every
+ * other kind from the pricing pool (`detectChangeSetConflicts` splits the entries).
+ */
+
+import { isDeepStrictEqual } from "node:util";
+import type { Pool, PoolClient } from "pg";
+import type { ChangeSetEntryRecord, EntityKind } from "./admin-change-sets.service";
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+/** Editable columns compared per entity kind (same keys as the draft payloads). */
+export const TRACKED_FIELDS: Record<EntityKind, readonly string[]> = {
+  product_pricing: ["payload", "price_affecting_enums", "surcharges", "rounding_policy"],
+  pricing_variant: ["name", "selector", "dimension_pricing", "surcharge_only"],
+  form_structure: ["validated_payload"],
+  size_limit_variant: [
+    "selector",
+    "mezni_sirka_min",
+    "mezni_sirka_max",
+    "mezni_vyska_min",
+    "mezni_vyska_max",
+    "zarucni_sirka_min",
+    "zarucni_sirka_max",
+    "zarucni_vyska_min",
+    "zarucni_vyska_max",
+    "mezni_plocha_min",
+    "mezni_plocha_max",
+    "zarucni_plocha_min",
+    "zarucni_plocha_max",
+  ],
+};
+
+/** Entity kinds whose rows live in the admin DB rather than the pricing DB. */
+export function isAdminDbKind(kind: EntityKind): boolean {
+  return kind === "form_structure";
+}
+
+export interface LiveRowSnapshot {
+  updated_at: string;
+  fields: Record<string, unknown>;
+}
+
+export interface ChangeSetFieldConflict {
+  field: string;
+  /** undefined when the entry has no base snapshot */
+  base?: unknown;
+  live: unknown;
+  draft: unknown;
+  changed_live: boolean;
+  changed_draft: boolean;
+  /** Both sides changed the field to different values — needs a live / draft choice. */
+  overlapping: boolean;
+}
+
+export interface ChangeSetEntryConflict {
+  entry_id: string;
+  entity_kind: EntityKind;
+  entity_id: string | null;
+  kind: "stale" | "deleted";
+  base_updated_at: string | null;
+  live_updated_at: string | null;
+  fields: ChangeSetFieldConflict[];
+  /** No overlapping fields — POST /:id/rebase resolves it without choices. */
+  rebasable: boolean;
+}
+
+/** Per-entry choice for overlapping fields: keep the live value or the draft value. */
+export type ConflictResolutions = Record<string, Record<string, "live" | "draft">>;
+
+// ---------------------------------------------------------------------------
+// Live rows
+// ---------------------------------------------------------------------------
+
+function toIso(v: unknown): string {
+  if (v instanceof Date) return v.toISOString();
+  return String(v);
+}
+
+/** Table and id column per kind; form_structure rows are keyed by product_code. */
+const LIVE_SOURCE: Record<EntityKind, { table: string; idColumn: string; idType: "uuid" | "text" }> = {
+  product_pricing: { table: "product_pricing", idColumn: "id", idType: "uuid" },
+  pricing_variant: { table: "pricing_variant", idColumn: "id", idType: "uuid" },
+  form_structure: { table: "validated_product", idColumn: "product_code", idType: "text" },
+  size_limit_variant: { table: "size_limit_variant", idColumn: "id", idType: "uuid" },
+};
+
+/**
+ * Live editable columns of the target rows, keyed by id. With `forUpdate` the rows
+ * are locked (publish runs the check inside its transaction). `db` must be the
+ * admin DB for form_structure and the pricing DB otherwise.
+ */
+export async function fetchLiveRows(
+  db: Pool | PoolClient,
+  kind: EntityKind,
+  ids: string[],
+  opts: { forUpdate?: boolean } = {}
+): Promise<Map<string, LiveRowSnapshot>> {
+  if (ids.length === 0) return new Map();
+  const columns = TRACKED_FIELDS[kind].join(", ");
+  const source = LIVE_SOURCE[kind];
+  const { rows } = await db.query(
+    `SELECT ${source.idColumn} AS id, ${columns}, updated_at
+     FROM ${source.table}
+     WHERE ${source.idColumn} = ANY($1::${source.idType}[])
+     ${opts.forUpdate ? `ORDER BY ${source.idColumn} FOR UPDATE` : ""}`,
+    [ids]
+  );
+  const out = new Map<string, LiveRowSnapshot>();
+  for (const r of rows) {
+    const fields: Record<string, unknown> = {};
+    for (const f of TRACKED_FIELDS[kind]) fields[f] = r[f] ?? null;
+    out.set(String(r.id), { updated_at: toIso(r.updated_at), fields });
+  }
+  return out;
+}
+
+/** Live row for one entry target, or null when it does not exist. */
+export async function fetchLiveRow(
+  db: Pool | PoolClient,
+  kind: EntityKind,
+  id: string
+): Promise<LiveRowSnapshot | null> {
+  return (await fetchLiveRows(db, kind, [id])).get(id) ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Detection
+// ---------------------------------------------------------------------------
+
+function same(a: unknown, b: unknown): boolean {
+  return isDeepStrictEqual(a ?? null, b ?? null);
+}
+
+function isStale(baseUpdatedAt: string | null, liveUpdatedAt: string): boolean {
+  // Entries without a base (legacy) cannot be checked.
+  if (!baseUpdatedAt) return false;
+  return new Date(liveUpdatedAt).getTime() > new Date(baseUpdatedAt).getTime();
+}
+
+/** Three-way comparison of one stale entry against its live row. */
+export function compareEntryFields(
+  entry: ChangeSetEntryRecord,
+  live: LiveRowSnapshot
+): ChangeSetFieldConflict[] {
+  const base = entry.base_snapshot;
+  const out: ChangeSetFieldConflict[] = [];
+  for (const field of TRACKED_FIELDS[entry.entity_kind]) {
+    const inDraft = field in entry.draft_payload;
+    const draftValue = entry.draft_payload[field];
+    const liveValue = live.fields[field];
+    if (base) {
+      const changedLive = !same(base[field], liveValue);
+      const changedDraft = inDraft && !same(base[field], draftValue);
+      if (!changedLive && !changedDraft) continue;
+      out.push({
+        field,
+        base: base[field] ?? null,
+        live: liveValue,
+        draft: inDraft ? draftValue : liveValue,
+        changed_live: changedLive,
+        changed_draft: changedDraft,
+        overlapping: changedLive && changedDraft && !same(liveValue, draftValue),
+      });
+    } else if (inDraft && !same(liveValue, draftValue)) {
+      out.push({
+        field,
+        live: liveValue,
+        draft: draftValue,
+        changed_live: true,
+        changed_draft: true,
+        overlapping: true,
+      });
+    }
+  }
+  return out;
+}
+
+/**
+ * Conflicts of every update / delete entry against the live rows (`forUpdate` locks them).
+ */
+export async function detectEntryConflicts(
+  db: Pool | PoolClient,
+  entries: ChangeSetEntryRecord[],
+  opts: { forUpdate?: boolean } = {}
+): Promise<ChangeSetEntryConflict[]> {
+  const updates = entries.filter((e) => e.action !== "create" && e.entity_id);
+  const liveByKind = new Map<EntityKind, Map<string, LiveRowSnapshot>>();
+  for (const kind of Object.keys(TRACKED_FIELDS) as EntityKind[]) {
+    const ids = [...new Set(updates.filter((e) => e.entity_kind === kind).map((e) => e.entity_id as string))];
+    liveByKind.set(kind, await fetchLiveRows(db, kind, ids, opts));
+  }
+
+  const conflicts: ChangeSetEntryConflict[] = [];
+  for (const entry of updates) {
+    const live = liveByKind.get(entry.entity_kind)?.get(entry.entity_id as string) ?? null;
+    if (!live) {
+      conflicts.push({
+        entry_id: entry.id,
+        entity_kind: entry.entity_kind,
+        entity_id: entry.entity_id,
+        kind: "deleted",
+        base_updated_at: entry.base_updated_at,
+        live_updated_at: null,
+        fields: [],
+        rebasable: false,
+      });
+      continue;
+    }
+    if (!isStale(entry.base_updated_at, live.updated_at)) continue;
+    const fields = compareEntryFields(entry, live);
+    conflicts.push({
+      entry_id: entry.id,
+      entity_kind: entry.entity_kind,
+      entity_id: entry.entity_id,
+      kind: "stale",
+      base_updated_at: entry.base_updated_at,
+      live_updated_at: live.updated_at,
+      fields,
+      rebasable: fields.every((f) => !f.overlapping),
+    });
+  }
+  return conflicts;
+}
+
+/**
+ * `detectEntryConflicts` over a whole change-set: pricing entries against the pricing
+ * DB, form_structure entries against the admin DB (required when there are any).
+ */
+export async function detectChangeSetConflicts(
+  pricingDb: Pool | PoolClient,
+  adminDb: Pool | PoolClient | null,
+  entries: ChangeSetEntryRecord[],
+  opts: { forUpdate?: boolean } = {}
+): Promise<ChangeSetEntryConflict[]> {
+  const adminEntries = entries.filter((e) => isAdminDbKind(e.entity_kind));
+  const conflicts = await detectEntryConflicts(
+    pricingDb,
+    entries.filter((e) => !isAdminDbKind(e.entity_kind)),
+    opts
+  );
+  if (adminEntries.length === 0) return conflicts;
+  if (!adminDb) {
+    throw Object.assign(
+      new Error("ADMIN_DATABASE_URL is not configured — form_structure entries cannot be checked"),
+      { code: "NO_ADMIN_DB" }
+    );
+  }
+  return [...conflicts, ...(await detectEntryConflicts(adminDb, adminEntries, opts))];
+}
+
+// ---------------------------------------------------------------------------
+// Rebase
+// ---------------------------------------------------------------------------
+
+/**
+ * Draft payload rebased onto the live row: fields the draft did not change take the
+ * live value; overlapping fields take the chosen side. Returns null when an
+ * overlapping field has no choice.
+ */
+export function rebaseDraftPayload(
+  entry: ChangeSetEntryRecord,
+  conflict: ChangeSetEntryConflict,
+  choices: Record<string, "live" | "draft"> = {}
+): Record<string, unknown> | null {
+  const next: Record<string, unknown> = { ...entry.draft_payload };
+  for (const f of conflict.fields) {
+    if (f.overlapping) {
+      const choice = choices[f.field];
+      if (!choice) return null;
+      if (choice === "live") next[f.field] = f.live;
+    } else if (!f.changed_draft && f.field in next) {
+      // Draft carried the base value (drafts capture the full post-change state) —
+      // keep the live change instead of reverting it.
+      next[f.field] = f.live;
+    }
+  }
+  return next;
+}
@@ -0,0 +1,203 @@
+/**
+ * Change-set scheduler — publishes draft change-sets whose `scheduled_at` has passed
+ * (manufacturer price lists take effect on a set date).
+ *
+ * Each due change-set is claimed first with a lease (publish_claimed_at, so only one
+ * backend instance picks it up), re-validated against the live state and published
+ * only when nothing blocks it:
+ *   - entries in conflict with the live rows
+ *   - saved forms that would fail the proposed form structure (breakage-check)
+ *   - price-affecting enum values no pricing_variant would price
+ *   - saved form rows that price today but would not after publish
+ *   - a breakage-check that could not run
+ * Price deltas (impact-diff) are the point of a price list and never block.
+ * A blocked or failed change-set stays a draft with publish_error explaining why and
+ * its schedule cleared; the admin fixes it and publishes or schedules it again.
+ * scheduled_at is only cleared once the run settles the change-set, so a crash between
+ * claim and publish leaves it due — the claim expires and the next run retries it.
+ *
+ * Env:
+ *   CHANGE_SET_SCHEDULER_ENABLED       "false" disables the timer in this process (default enabled)
+ *   CHANGE_SET_SCHEDULER_INTERVAL_MS   delay between runs (default 60000 = 1 min)
+ *   CHANGE_SET_PUBLISH_LEASE_MINUTES   age after which a claim counts as abandoned (default 15)
+ */
+
+import { Pool } from "pg";
+import {
+  publishChangeSet,
+  validateChangeSet,
+  type ChangeSetValidationReport,
+} from "./admin-change-sets.service";
+
+const BATCH_LIMIT = 20;
+
+function envInt(key: string, fallback: number): number {
+  const raw = process.env[key];
+  const parsed = raw != null ? parseInt(raw, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export interface ScheduledPublishItem {
+  change_set_id: string;
+  outcome: "PUBLISHED" | "BLOCKED" | "FAILED";
+  message: string;
+}
+
+/** Reasons the validation report keeps a scheduled change-set from going live. */
+export function scheduledPublishBlockers(report: ChangeSetValidationReport): string[] {
+  const out: string[] = [];
+  if (report.summary.total_conflicts > 0) {
+    out.push(`${report.summary.total_conflicts} entries in conflict with the live rows`);
+  }
+  if (report.summary.total_breakage_failures > 0) {
+    out.push(
+      `${report.summary.total_breakage_failures} breakage failures in ${report.summary.forms_with_breakage} forms`
+    );
+  }
+  if (report.summary.rows_becoming_unpriced > 0) {
+    out.push(`${report.summary.rows_becoming_unpriced} form rows would lose their price`);
+  }
+  if (report.summary.total_unpriced_enum_values > 0) {
+    out.push(`${report.summary.total_unpriced_enum_values} enum values without a pricing variant`);
+  }
+  for (const p of report.per_product) {
+    if (p.breakage_error) out.push(`breakage-check failed for ${p.product_code ?? p.product_pricing_id}: ${p.breakage_error}`);
+  }
+  return out;
+}
+
+interface ChangeSetClaim {
+  id: string;
+  /** publish_claimed_at as text (full precision), to release only our own claim. */
+  claimedAt: string;
+}
+
+/** Due, draft and not claimed by a live run (claims past the lease are taken over). */
+const DUE_UNCLAIMED = `status = 'draft' AND scheduled_at IS NOT NULL AND scheduled_at <= now()
+  AND (publish_claimed_at IS NULL OR publish_claimed_at < now() - make_interval(mins => $1))`;
+
+async function claimDueChangeSets(pricingPool: Pool): Promise<ChangeSetClaim[]> {
+  const leaseMinutes = envInt("CHANGE_SET_PUBLISH_LEASE_MINUTES", 15);
+  const due = await pricingPool.query(
+    `SELECT id FROM change_set
+     WHERE ${DUE_UNCLAIMED}
+     ORDER BY scheduled_at ASC
+     LIMIT ${BATCH_LIMIT}`,
+    [leaseMinutes]
+  );
+  const claimed: ChangeSetClaim[] = [];
+  for (const row of due.rows) {
+    const res = await pricingPool.query(
+      `UPDATE change_set SET publish_claimed_at = now()
+       WHERE id = $2 AND ${DUE_UNCLAIMED}
+       RETURNING publish_claimed_at::text AS claimed_at`,
+      [leaseMinutes, row.id]
+    );
+    if (res.rows.length > 0) claimed.push({ id: String(row.id), claimedAt: res.rows[0].claimed_at });
+  }
+  return claimed;
+}
+
+/**
+ * Settle a claim that did not publish: clear the schedule and the claim, recording
+ * `publishError` when given (publishChangeSet records its own). No-op when the admin
+ * re-scheduled the change-set meanwhile (that resets the claim).
+ */
+async function releaseClaim(pricingPool: Pool, claim: ChangeSetClaim, publishError: string | null): Promise<void> {
+  await pricingPool.query(
+    `UPDATE change_set
+     SET scheduled_at = NULL, publish_claimed_at = NULL, publish_error = COALESCE($3, publish_error)
+     WHERE id = $1 AND publish_claimed_at = $2::timestamptz`,
+    [claim.id, claim.claimedAt, publishError?.slice(0, 1000) ?? null]
+  );
+}
+
+/** Re-validate and publish every due change-set. */
+export async function runScheduledPublishes(
+  mainPool: Pool,
+  pricingPool: Pool,
+  adminPool: Pool | null
+): Promise<ScheduledPublishItem[]> {
+  const items: ScheduledPublishItem[] = [];
+  for (const claim of await claimDueChangeSets(pricingPool)) {
+    const id = claim.id;
+    try {
+      const report = await validateChangeSet(mainPool, pricingPool, adminPool, id);
+      const blockers = scheduledPublishBlockers(report);
+      if (blockers.length > 0) {
+        const message = `Scheduled publish blocked: ${blockers.join("; ")}`;
+        await releaseClaim(pricingPool, claim, message);
+        items.push({ change_set_id: id, outcome: "BLOCKED", message });
+        continue;
+      }
+      const result = await publishChangeSet(pricingPool, adminPool, id);
+      if (!result.ok) await releaseClaim(pricingPool, claim, null);
+      items.push(
+        result.ok
+          ? { change_set_id: id, outcome: "PUBLISHED", message: `Published at ${result.published_at}` }
+          : { change_set_id: id, outcome: "FAILED", message: result.error }
+      );
+    } catch (error) {
+      const message = `Scheduled publish failed: ${error instanceof Error ? error.message : String(error)}`;
+      await releaseClaim(pricingPool, claim, message).catch(() => {});
+      items.push({ change_set_id: id, outcome: "FAILED", message });
+    }
+  }
+  return items;
+}
+
+// ── Timer ────────────────────────────────────────────────────────
+
+interface SchedulerState {
+  mainPool: Pool;
+  pricingPool: Pool;
+  adminPool: Pool | null;
+  timer: NodeJS.Timeout | null;
+  running: boolean;
+  stopped: boolean;
+}
+
+let scheduler: SchedulerState | null = null;
+
+async function tick(): Promise<void> {
+  const state = scheduler;
+  if (!state || state.stopped || state.running) return;
+  state.running = true;
+  state.timer = null;
+
+  try {
+    const items = await runScheduledPublishes(state.mainPool, state.pricingPool, state.adminPool);
+    for (const item of items) {
+      const line = `Scheduled change-set ${item.change_set_id} → ${item.outcome}: ${item.message}`;
+      if (item.outcome === "PUBLISHED") console.log(line);
+      else console.warn(line);
+    }
+  } catch (error) {
+    console.error("Change-set scheduler run failed:", error instanceof Error ? error.message : error);
+  } finally {
+    state.running = false;
+    if (!state.stopped) {
+      state.timer = setTimeout(tick, envInt("CHANGE_SET_SCHEDULER_INTERVAL_MS", 60_000));
+    }
+  }
+}
+
+/** Start the periodic scheduler (no-op when disabled, already running or the pricing DB is not configured). */
+export function startChangeSetScheduler(mainPool: Pool, pricingPool: Pool | null, adminPool: Pool | null): void {
+  if (scheduler || process.env.CHANGE_SET_SCHEDULER_ENABLED === "false") return;
+  if (!pricingPool) {
+    console.warn("Change-set scheduler not started: PRICING_DATABASE_URL is not set");
+    return;
+  }
+  scheduler = { mainPool, pricingPool, adminPool, timer: null, running: false, stopped: false };
+  console.log("Change-set scheduler started");
+  void tick();
+}
+
+/** Stop the timer; a run in flight finishes on its own. */
+export function stopChangeSetScheduler(): void {
+  if (!scheduler) return;
+  scheduler.stopped = true;
+  if (scheduler.timer) clearTimeout(scheduler.timer);
+  scheduler = null;
+}
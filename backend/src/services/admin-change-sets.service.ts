@@ -5,15 +5,27 @@
  *   - assembled (by adding entries)
  *   - validated as a unit (runs Phase 3 impact-diff + Phase 4 breakage-check
  *     against the live state with all entries merged on top)
- *   - published atomically (all entries applied in a single transaction)
+ *   - published atomically (all entries go live together or not at all),
+ *     immediately or at `scheduled_at` (admin-change-set-scheduler.service)
+ *   - reverted once published: every entry keeps its target row's pre-publish
+ *     state (`publish_snapshot`), and revert publishes the inverse change-set
  *   - or discarded
  *
- * v1 scope:
- *   - Single DB (pricing). Cross-DB publish (admin DB / form-structure
- *     entries) deferred to v1.1.
- *   - Entity kinds: `product_pricing` (update only) and `pricing_variant`
- *     (create + update).
- *   - No conflict detection (`base_updated_at` recorded but not enforced).
+ * Scope:
+ *   - Entity kinds: `product_pricing` (update only), `pricing_variant` and
+ *     `size_limit_variant` (create / update / delete) and `form_structure`
+ *     (create / update / delete) — the validated form payload of one
+ *     product_code in validation-products' `validated_product` table in the
+ *     admin DB (ADMIN_DATABASE_URL).
+ *   - Cross-DB publish: pricing and admin entries are applied in one
+ *     transaction per DB, both holding their row locks until the admin side
+ *     commits; if the pricing commit then fails, the admin rows are restored
+ *     from their pre-publish images (compensating rollback). A new enum value
+ *     and its price variant therefore go live together.
+ *   - Conflict detection: update / delete entries record the live row they were drafted
+ *     against (`base_updated_at` + `base_snapshot`); validate reports stale
+ *     entries three-way (admin-change-set-conflicts.service), rebase merges
+ *     non-overlapping changes, publish refuses while any entry is stale.
  *
  * Override conversion:
  *   `entriesToOverridesForProduct(entries, productPricingId)` translates a
@@ -23,23 +35,43 @@
  */
 
 import type { Pool, PoolClient } from "pg";
+import {
+  dimensionRoundingPolicyError,
+  type DimensionPricing,
+  type DimensionRoundingPolicy,
+} from "@ovt/pricing-engine";
 import {
   runImpactDiff,
   type ImpactDiffResponse,
 } from "./admin-impact-diff.service";
 import {
   runBreakageCheck,
+  selectorOverlapsForProduct,
+  unpricedEnumValuesForProduct,
   type BreakageCheckResponse,
+  type ProposedPayload,
+  type SelectorOverlapEntry,
+  type UnpricedEnumValue,
 } from "./admin-breakage-check.service";
 import type { CalculatePriceOverrides } from "./admin-pricing-preview.service";
+import {
+  detectChangeSetConflicts,
+  fetchLiveRow,
+  fetchLiveRows,
+  isAdminDbKind,
+  rebaseDraftPayload,
+  type ChangeSetEntryConflict,
+  type ConflictResolutions,
+  type LiveRowSnapshot,
+} from "./admin-change-set-conflicts.service";
 
 // ---------------------------------------------------------------------------
 // Public types
 // ---------------------------------------------------------------------------
 
 export type ChangeSetStatus = "draft" | "published" | "discarded";
-export type EntityKind = "product_pricing" | "pricing_variant";
-export type EntryAction = "create" | "update";
+export type EntityKind = "product_pricing" | "pricing_variant" | "size_limit_variant" | "form_structure";
+export type EntryAction = "create" | "update" | "delete";
 
 export interface ChangeSetRecord {
   id: string;
@@ -50,6 +82,10 @@ export interface ChangeSetRecord {
   created_at: string;
   published_at: string | null;
   publish_error: string | null;
+  /** Draft picked up by the scheduler at this time (re-validated, then published). */
+  scheduled_at: string | null;
+  /** Set on an inverse change-set: the published change-set it reverts. */
+  reverts_change_set_id: string | null;
 }
 
 export interface ChangeSetEntryRecord {
@@ -60,6 +96,10 @@ export interface ChangeSetEntryRecord {
   action: EntryAction;
   draft_payload: Record<string, unknown>;
   base_updated_at: string | null;
+  /** Editable columns of the target row at base_updated_at (null = unknown base). */
+  base_snapshot: Record<string, unknown> | null;
+  /** Target row right before publish (null for creates and unpublished entries). */
+  publish_snapshot: LiveRowSnapshot | null;
   created_at: string;
   updated_at: string;
 }
@@ -87,6 +127,8 @@ function rowToChangeSet(r: Record<string, unknown>): ChangeSetRecord {
     created_at: toIso(r.created_at),
     published_at: r.published_at ? toIso(r.published_at) : null,
     publish_error: (r.publish_error as string | null) ?? null,
+    scheduled_at: r.scheduled_at ? toIso(r.scheduled_at) : null,
+    reverts_change_set_id: (r.reverts_change_set_id as string | null) ?? null,
   };
 }
 
@@ -102,6 +144,14 @@ function rowToEntry(r: Record<string, unknown>): ChangeSetEntryRecord {
         ? (r.draft_payload as Record<string, unknown>)
         : {},
     base_updated_at: r.base_updated_at ? toIso(r.base_updated_at) : null,
+    base_snapshot:
+      r.base_snapshot && typeof r.base_snapshot === "object"
+        ? (r.base_snapshot as Record<string, unknown>)
+        : null,
+    publish_snapshot:
+      r.publish_snapshot && typeof r.publish_snapshot === "object"
+        ? (r.publish_snapshot as LiveRowSnapshot)
+        : null,
     created_at: toIso(r.created_at),
     updated_at: toIso(r.updated_at),
   };
@@ -122,7 +172,7 @@ export async function listChangeSets(
     where = `WHERE status = $${params.length}`;
   }
   const { rows } = await pricingPool.query(
-    `SELECT id, name, description, status, created_by, created_at, published_at, publish_error
+    `SELECT id, name, description, status, created_by, created_at, published_at, publish_error, scheduled_at, reverts_change_set_id
      FROM change_set
      ${where}
      ORDER BY created_at DESC
@@ -137,7 +187,7 @@ export async function getChangeSetWithEntries(
   id: string
 ): Promise<ChangeSetWithEntries | null> {
   const setRes = await pricingPool.query(
-    `SELECT id, name, description, status, created_by, created_at, published_at, publish_error
+    `SELECT id, name, description, status, created_by, created_at, published_at, publish_error, scheduled_at, reverts_change_set_id
      FROM change_set WHERE id = $1`,
     [id]
   );
@@ -145,7 +195,7 @@ export async function getChangeSetWithEntries(
   const cs = rowToChangeSet(setRes.rows[0]);
 
   const entriesRes = await pricingPool.query(
-    `SELECT id, change_set_id, entity_kind, entity_id, action, draft_payload, base_updated_at, created_at, updated_at
+    `SELECT id, change_set_id, entity_kind, entity_id, action, draft_payload, base_updated_at, base_snapshot, publish_snapshot, created_at, updated_at
      FROM change_set_entry
      WHERE change_set_id = $1
      ORDER BY created_at ASC`,
@@ -161,7 +211,7 @@ export async function createChangeSet(
   const { rows } = await pricingPool.query(
     `INSERT INTO change_set (name, description, created_by)
      VALUES ($1, $2, $3)
-     RETURNING id, name, description, status, created_by, created_at, published_at, publish_error`,
+     RETURNING id, name, description, status, created_by, created_at, published_at, publish_error, scheduled_at, reverts_change_set_id`,
     [input.name.trim(), input.description?.trim() || null, input.created_by]
   );
   return rowToChangeSet(rows[0]);
@@ -178,6 +228,75 @@ export async function discardChangeSet(
   return (result.rowCount ?? 0) > 0;
 }
 
+/** Admin pool or NO_ADMIN_DB — form_structure entries cannot be handled without it. */
+function requireAdminDb(adminPool: Pool | null): Pool {
+  if (!adminPool) {
+    throw Object.assign(
+      new Error("ADMIN_DATABASE_URL is not configured — form_structure entries are unavailable"),
+      { code: "NO_ADMIN_DB" }
+    );
+  }
+  return adminPool;
+}
+
+const SIZE_LIMIT_FIELDS = [
+  "mezni_sirka_min",
+  "mezni_sirka_max",
+  "mezni_vyska_min",
+  "mezni_vyska_max",
+  "zarucni_sirka_min",
+  "zarucni_sirka_max",
+  "zarucni_vyska_min",
+  "zarucni_vyska_max",
+  "mezni_plocha_min",
+  "mezni_plocha_max",
+  "zarucni_plocha_min",
+  "zarucni_plocha_max",
+] as const;
+
+/** BAD_INPUT message for a size_limit_variant create / update draft, or null. */
+function sizeLimitDraftError(action: EntryAction, draft: SizeLimitVariantDraft): string | null {
+  if (action === "create" && !draft.product_pricing_id) {
+    return "product_pricing_id is required for size_limit_variant create entries";
+  }
+  if (action === "create" && (!draft.selector || typeof draft.selector !== "object")) {
+    return "selector is required for size_limit_variant create entries";
+  }
+  for (const field of SIZE_LIMIT_FIELDS) {
+    const v = draft[field];
+    if (v !== undefined && v !== null && !Number.isFinite(Number(v))) {
+      return `${field} must be a number or null`;
+    }
+  }
+  return null;
+}
+
+/** product_pricing_id of a pricing_variant / size_limit_variant row. */
+async function fetchVariantOwner(
+  pricingPool: Pool,
+  kind: "pricing_variant" | "size_limit_variant",
+  id: string
+): Promise<string | null> {
+  const { rows } = await pricingPool.query(
+    `SELECT product_pricing_id FROM ${kind} WHERE id = $1`,
+    [id]
+  );
+  return rows.length > 0 ? String(rows[0].product_pricing_id) : null;
+}
+
+/** BAD_INPUT message for a form_structure entry, or null when it is well-formed. */
+function formStructureDraftError(entityId: string | null, draft: Record<string, unknown>): string | null {
+  if (!entityId) return "entity_id (product_code) is required for form_structure entries";
+  const payload = (draft as FormStructureDraft).validated_payload;
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    return "draft_payload.validated_payload (object) is required for form_structure entries";
+  }
+  if (typeof payload.product_code === "string" && payload.product_code !== entityId) {
+    return `validated_payload.product_code "${payload.product_code}" does not match entity_id "${entityId}"`;
+  }
+  return null;
+}
+
 export async function addEntry(
   pricingPool: Pool,
   changeSetId: string,
@@ -187,7 +306,8 @@ export async function addEntry(
     action: EntryAction;
     draft_payload: Record<string, unknown>;
     base_updated_at?: string | null;
-  }
+  },
+  adminPool: Pool | null = null
 ): Promise<ChangeSetEntryRecord> {
   // Sanity: change-set must be a draft
   const setRes = await pricingPool.query(
@@ -205,30 +325,88 @@ export async function addEntry(
     });
   }
 
-  if (input.action === "update" && !input.entity_id) {
-    throw Object.assign(new Error("entity_id is required for update entries"), {
+  if (input.action !== "create" && !input.entity_id) {
+    throw Object.assign(new Error(`entity_id is required for ${input.action} entries`), {
       code: "BAD_INPUT",
     });
   }
-  if (input.action === "create" && input.entity_kind === "product_pricing") {
+  if (input.action !== "update" && input.entity_kind === "product_pricing") {
     throw Object.assign(
-      new Error("Creating product_pricing rows via change-sets is not supported in v1"),
+      new Error(`${input.action === "create" ? "Creating" : "Deleting"} product_pricing rows via change-sets is not supported`),
       { code: "BAD_INPUT" }
     );
   }
+  if (input.entity_kind === "size_limit_variant" && input.action !== "delete") {
+    const draftError = sizeLimitDraftError(input.action, input.draft_payload as SizeLimitVariantDraft);
+    if (draftError) {
+      throw Object.assign(new Error(draftError), { code: "BAD_INPUT" });
+    }
+  }
+  if (input.entity_kind === "product_pricing") {
+    const policyError = dimensionRoundingPolicyError(
+      (input.draft_payload as ProductPricingDraft).rounding_policy
+    );
+    if (policyError) {
+      throw Object.assign(new Error(policyError), { code: "BAD_INPUT" });
+    }
+  }
+  // form_structure rows live in the admin DB, keyed by product_code.
+  const liveDb = isAdminDbKind(input.entity_kind) ? requireAdminDb(adminPool) : pricingPool;
+  if (input.entity_kind === "form_structure" && input.action !== "delete") {
+    const draftError = formStructureDraftError(input.entity_id, input.draft_payload);
+    if (draftError) {
+      throw Object.assign(new Error(draftError), { code: "BAD_INPUT" });
+    }
+    if (input.action === "create" && (await fetchLiveRow(liveDb, "form_structure", input.entity_id as string))) {
+      throw Object.assign(
+        new Error(`form_structure already exists for product_code "${input.entity_id}" — add an update entry`),
+        { code: "BAD_INPUT" }
+      );
+    }
+  }
+
+  // Update / delete entries remember the row they were drafted against. A
+  // base_updated_at that is already behind the live row has no known snapshot
+  // (conflicts are then reported field by field against live, never auto-rebased).
+  let baseUpdatedAt = input.base_updated_at ?? null;
+  let baseSnapshot: Record<string, unknown> | null = null;
+  let draftPayload = input.draft_payload;
+  if (input.action !== "create" && input.entity_id) {
+    const live = await fetchLiveRow(liveDb, input.entity_kind, input.entity_id);
+    if (!live) {
+      throw Object.assign(
+        new Error(`${input.entity_kind} not found: ${input.entity_id}`),
+        { code: "BAD_INPUT" }
+      );
+    }
+    if (!baseUpdatedAt || new Date(baseUpdatedAt).getTime() === new Date(live.updated_at).getTime()) {
+      baseUpdatedAt = live.updated_at;
+      baseSnapshot = live.fields;
+    }
+    // Variant entries carry their product so validation fans out to it (and revert
+    // can re-create a deleted row).
+    if (
+      (input.entity_kind === "pricing_variant" || input.entity_kind === "size_limit_variant") &&
+      !(draftPayload as PricingVariantDraft).product_pricing_id
+    ) {
+      const owner = await fetchVariantOwner(pricingPool, input.entity_kind, input.entity_id);
+      if (owner) draftPayload = { ...draftPayload, product_pricing_id: owner };
+    }
+  }
 
   const { rows } = await pricingPool.query(
     `INSERT INTO change_set_entry
-       (change_set_id, entity_kind, entity_id, action, draft_payload, base_updated_at)
-     VALUES ($1, $2, $3, $4, $5::jsonb, $6)
-     RETURNING id, change_set_id, entity_kind, entity_id, action, draft_payload, base_updated_at, created_at, updated_at`,
+       (change_set_id, entity_kind, entity_id, action, draft_payload, base_updated_at, base_snapshot)
+     VALUES ($1, $2, $3, $4, $5::jsonb, $6, $7::jsonb)
+     RETURNING id, change_set_id, entity_kind, entity_id, action, draft_payload, base_updated_at, base_snapshot, publish_snapshot, created_at, updated_at`,
     [
       changeSetId,
       input.entity_kind,
       input.entity_id,
       input.action,
-      JSON.stringify(input.draft_payload),
-      input.base_updated_at ?? null,
+      JSON.stringify(draftPayload),
+      baseUpdatedAt,
+      baseSnapshot == null ? null : JSON.stringify(baseSnapshot),
     ]
   );
   return rowToEntry(rows[0]);
@@ -259,13 +437,18 @@ export async function deleteEntry(
  * update, since the validated_payload is product-code-scoped, not
  * manufacturer-scoped.
  *
+ * With `includeFormStructure` a form_structure entry for the admin DB row is
+ * queued alongside (update when validation-products already has the code,
+ * create otherwise), so the schema and its pricing publish together.
+ *
  * Inserts are wrapped in one transaction so admin sees either all-or-nothing.
  */
 export async function queuePayloadByCode(
   pricingPool: Pool,
   changeSetId: string,
   productCode: string,
-  payload: Record<string, unknown>
+  payload: Record<string, unknown>,
+  opts: { adminPool?: Pool | null; includeFormStructure?: boolean } = {}
 ): Promise<{ entries: ChangeSetEntryRecord[]; matched_pricing_ids: string[] }> {
   const setRes = await pricingPool.query(
     `SELECT status FROM change_set WHERE id = $1`,
@@ -296,6 +479,10 @@ export async function queuePayloadByCode(
     );
   }
   const matchedIds = lookup.rows.map((r) => String(r.id));
+  const liveById = await fetchLiveRows(pricingPool, "product_pricing", matchedIds);
+  const liveForm = opts.includeFormStructure
+    ? await fetchLiveRow(requireAdminDb(opts.adminPool ?? null), "form_structure", productCode)
+    : null;
 
   // Carry the latest payload onto every matching row's product_pricing entry.
   // Surcharges and price_affecting_enums are NOT touched — those are
@@ -308,16 +495,35 @@ export async function queuePayloadByCode(
   try {
     await client.query("BEGIN");
     for (const row of lookup.rows) {
+      const live = liveById.get(String(row.id));
       const ins = await client.query(
         `INSERT INTO change_set_entry
-           (change_set_id, entity_kind, entity_id, action, draft_payload, base_updated_at)
-         VALUES ($1, 'product_pricing', $2, 'update', $3::jsonb, $4)
-         RETURNING id, change_set_id, entity_kind, entity_id, action, draft_payload, base_updated_at, created_at, updated_at`,
+           (change_set_id, entity_kind, entity_id, action, draft_payload, base_updated_at, base_snapshot)
+         VALUES ($1, 'product_pricing', $2, 'update', $3::jsonb, $4, $5::jsonb)
+         RETURNING id, change_set_id, entity_kind, entity_id, action, draft_payload, base_updated_at, base_snapshot, publish_snapshot, created_at, updated_at`,
         [
           changeSetId,
           String(row.id),
           JSON.stringify(draftPayload),
           row.updated_at ?? null,
+          live ? JSON.stringify(live.fields) : null,
+        ]
+      );
+      inserted.push(rowToEntry(ins.rows[0]));
+    }
+    if (opts.includeFormStructure) {
+      const ins = await client.query(
+        `INSERT INTO change_set_entry
+           (change_set_id, entity_kind, entity_id, action, draft_payload, base_updated_at, base_snapshot)
+         VALUES ($1, 'form_structure', $2, $3, $4::jsonb, $5, $6::jsonb)
+         RETURNING id, change_set_id, entity_kind, entity_id, action, draft_payload, base_updated_at, base_snapshot, publish_snapshot, created_at, updated_at`,
+        [
+          changeSetId,
+          productCode,
+          liveForm ? "update" : "create",
+          JSON.stringify({ validated_payload: payload }),
+          liveForm?.updated_at ?? null,
+          liveForm ? JSON.stringify(liveForm.fields) : null,
         ]
       );
       inserted.push(rowToEntry(ins.rows[0]));
@@ -341,18 +547,31 @@ interface ProductPricingDraft {
   payload?: Record<string, unknown>;
   price_affecting_enums?: string[];
   surcharges?: Record<string, unknown> | null;
+  /** null resets to the default policy (ceil to 100 mm, nearest grid step). */
+  rounding_policy?: DimensionRoundingPolicy | null;
 }
 
 interface PricingVariantDraft {
   product_pricing_id?: string;
   /** Required on create; optional on update (omit = keep existing). */
   selector?: Record<string, string[]>;
-  dimension_pricing?: { prices?: Record<string, number> } | null;
+  dimension_pricing?: DimensionPricing | null;
   surcharge_only?: boolean;
   /** Optional human-readable name (e.g. "25 mm — Classic"). */
   name?: string | null;
 }
 
+type SizeLimitVariantDraft = {
+  product_pricing_id?: string;
+  /** Required on create; optional on update (omit = keep existing). */
+  selector?: Record<string, string[]>;
+} & Partial<Record<(typeof SIZE_LIMIT_FIELDS)[number], number | null>>;
+
+interface FormStructureDraft {
+  /** Full validated form payload for the entry's product_code (admin DB). */
+  validated_payload?: ProposedPayload;
+}
+
 /**
  * Build a `CalculatePriceOverrides` payload from a change-set's entries,
  * filtered to the entries that affect the given product_pricing_id.
@@ -373,6 +592,7 @@ export function entriesToOverridesForProduct(
       payload: draft.payload,
       price_affecting_enums: draft.price_affecting_enums,
       surcharges: draft.surcharges,
+      rounding_policy: draft.rounding_policy,
     };
   }
 
@@ -380,13 +600,17 @@ export function entriesToOverridesForProduct(
   const variantEntries = entries.filter((e) => {
     if (e.entity_kind !== "pricing_variant") return false;
     const draft = e.draft_payload as PricingVariantDraft;
-    if (e.action === "update") return e.entity_id !== null;
+    if (e.action === "update" || e.action === "delete") return e.entity_id !== null;
     if (e.action === "create") return draft.product_pricing_id === productPricingId;
     return false;
   });
   if (variantEntries.length > 0) {
     const usable: NonNullable<CalculatePriceOverrides["pricing_variants"]> = [];
     for (const e of variantEntries) {
+      if (e.action === "delete") {
+        usable.push({ id: e.entity_id ?? undefined, selector: {}, _delete: true });
+        continue;
+      }
       const draft = e.draft_payload as PricingVariantDraft;
       // selector is required for the override array — by convention, drafts
       // capture the full post-change state. Skip entries that lack it (the
@@ -402,6 +626,22 @@ export function entriesToOverridesForProduct(
     if (usable.length > 0) overrides.pricing_variants = usable;
   }
 
+  // size_limit_variant overrides (any number; updates are partial)
+  const sizeLimitEntries = entries.filter((e) => {
+    if (e.entity_kind !== "size_limit_variant") return false;
+    const draft = e.draft_payload as SizeLimitVariantDraft;
+    if (e.action === "create") return draft.product_pricing_id === productPricingId;
+    return e.entity_id !== null && (!draft.product_pricing_id || draft.product_pricing_id === productPricingId);
+  });
+  if (sizeLimitEntries.length > 0) {
+    overrides.size_limit_variants = sizeLimitEntries.map((e) => {
+      if (e.action === "delete") return { id: e.entity_id ?? undefined, _delete: true };
+      const fields = { ...(e.draft_payload as SizeLimitVariantDraft) };
+      delete fields.product_pricing_id;
+      return { ...fields, id: e.action === "update" ? (e.entity_id ?? undefined) : undefined };
+    });
+  }
+
   return overrides;
 }
 
@@ -411,7 +651,7 @@ export function productPricingIdsFromEntries(entries: ChangeSetEntryRecord[]): s
   for (const e of entries) {
     if (e.entity_kind === "product_pricing" && e.entity_id) {
       out.add(e.entity_id);
-    } else if (e.entity_kind === "pricing_variant") {
+    } else if (e.entity_kind === "pricing_variant" || e.entity_kind === "size_limit_variant") {
       const draft = e.draft_payload as PricingVariantDraft;
       if (draft.product_pricing_id) {
         out.add(draft.product_pricing_id);
@@ -433,13 +673,28 @@ export interface ChangeSetValidationReport {
     impact_error?: string;
     breakage: BreakageCheckResponse | null;
     breakage_error?: string;
+    /** pricing_variant selectors that would overlap after publish (live + drafts). */
+    selector_overlaps: SelectorOverlapEntry[];
+    /** Price-affecting enum values of the proposed form payload no variant would price. */
+    unpriced_enum_values: UnpricedEnumValue[];
   }>;
+  /** form_structure entries whose product_code has no product_pricing row (nothing to check). */
+  unmatched_form_structures: string[];
+  /** Update entries whose target row changed since they were drafted. */
+  conflicts: ChangeSetEntryConflict[];
   summary: {
     products_touched: number;
     forms_with_price_change: number;
     total_price_delta_kc: number;
+    /** Form rows that price today but would not after publish (deleted / narrowed variants). */
+    rows_becoming_unpriced: number;
     forms_with_breakage: number;
     total_breakage_failures: number;
+    total_selector_overlaps: number;
+    total_unpriced_enum_values: number;
+    total_conflicts: number;
+    /** Conflicts that need a live / draft choice (or re-drafting) before publish. */
+    unrebasable_conflicts: number;
   };
 }
 
@@ -456,9 +711,59 @@ async function fetchProductCodes(
   return new Map(rows.map((r) => [String(r.id), String(r.product_code)]));
 }
 
+/** product_pricing ids per product_code (form_structure entries are keyed by code). */
+async function fetchPricingIdsByCodes(
+  pricingPool: Pool,
+  codes: string[]
+): Promise<Map<string, string[]>> {
+  if (codes.length === 0) return new Map();
+  const { rows } = await pricingPool.query(
+    `SELECT id, product_code FROM product_pricing WHERE product_code = ANY($1::text[])`,
+    [codes]
+  );
+  const out = new Map<string, string[]>();
+  for (const r of rows) {
+    const code = String(r.product_code);
+    out.set(code, [...(out.get(code) ?? []), String(r.id)]);
+  }
+  return out;
+}
+
+/**
+ * Schema a product would have after publish: the form_structure draft of its product_code
+ * with the product_pricing draft payload merged over it, so a set that edits both is
+ * checked against both. Undefined when the set edits neither.
+ */
+export function proposedPayloadForProduct(
+  entries: ChangeSetEntryRecord[],
+  productPricingId: string,
+  productCode: string
+): ProposedPayload | undefined {
+  const structureEntry = entries.find(
+    (e) => e.entity_kind === "form_structure" && e.entity_id === productCode
+  );
+  const structurePayload = (structureEntry?.draft_payload as FormStructureDraft | undefined)?.validated_payload;
+  const productEntry = entries.find(
+    (e) => e.entity_kind === "product_pricing" && e.entity_id === productPricingId
+  );
+  const draft = productEntry?.draft_payload as ProductPricingDraft | undefined;
+  if (!structurePayload && !draft?.payload) return undefined;
+  return {
+    ...structurePayload,
+    ...draft?.payload,
+    product_code: productCode,
+    ...(draft?.price_affecting_enums && { price_affecting_enums: draft.price_affecting_enums }),
+  };
+}
+
+/**
+ * Validate the change-set as it would look after publish. Pricing and form-structure
+ * entries are combined (proposedPayloadForProduct) and checked against the merged variants.
+ */
 export async function validateChangeSet(
   mainPool: Pool,
   pricingPool: Pool,
+  adminPool: Pool | null,
   changeSetId: string
 ): Promise<ChangeSetValidationReport> {
   const cs = await getChangeSetWithEntries(pricingPool, changeSetId);
@@ -468,7 +773,15 @@ export async function validateChangeSet(
     });
   }
 
-  const ids = productPricingIdsFromEntries(cs.entries);
+  const formByCode = new Map(
+    cs.entries
+      .filter((e) => e.entity_kind === "form_structure" && e.entity_id)
+      .map((e) => [e.entity_id as string, (e.draft_payload as FormStructureDraft).validated_payload])
+  );
+  const pidsByCode = await fetchPricingIdsByCodes(pricingPool, [...formByCode.keys()]);
+  const ids = [
+    ...new Set([...productPricingIdsFromEntries(cs.entries), ...[...pidsByCode.values()].flat()]),
+  ];
   const codeByPid = await fetchProductCodes(pricingPool, ids);
 
   const perProduct: ChangeSetValidationReport["per_product"] = [];
@@ -476,6 +789,9 @@ export async function validateChangeSet(
   let totalPriceDelta = 0;
   let formsWithBreakage = 0;
   let totalBreakageFailures = 0;
+  let totalSelectorOverlaps = 0;
+  let totalUnpriced = 0;
+  let rowsBecomingUnpriced = 0;
 
   for (const pid of ids) {
     const overrides = entriesToOverridesForProduct(cs.entries, pid);
@@ -490,29 +806,28 @@ export async function validateChangeSet(
       });
       formsWithPriceChange += impact.summary.affected_form_count;
       totalPriceDelta += impact.summary.total_delta_kc;
+      rowsBecomingUnpriced += impact.summary.rows_becoming_unpriced;
     } catch (e) {
       impactErr = e instanceof Error ? e.message : "impact-diff failed";
     }
 
     let breakage: BreakageCheckResponse | null = null;
     let breakageErr: string | undefined;
+    let unpriced: UnpricedEnumValue[] = [];
     if (productCode) {
-      // Build proposed payload for breakage check from the override
-      const productEntry = cs.entries.find(
-        (e) => e.entity_kind === "product_pricing" && e.entity_id === pid
-      );
-      const draft = productEntry?.draft_payload as ProductPricingDraft | undefined;
-      const proposedPayload = (draft?.payload as Record<string, unknown> | undefined) ?? {};
-      // Only run breakage check when the change-set actually edits the payload —
-      // otherwise we'd be checking the live payload against itself, which is noise.
-      if (productEntry && draft?.payload) {
+      const combined = proposedPayloadForProduct(cs.entries, pid, productCode);
+      if (combined) {
+        unpriced = await unpricedEnumValuesForProduct(pricingPool, pid, combined, { overrides });
+        totalUnpriced += unpriced.length;
+      }
+      // Only run breakage check when the change-set actually edits the payload or the
+      // size limits — otherwise we'd be checking the live state against itself, which is noise.
+      if (combined || overrides.size_limit_variants?.length) {
         try {
           breakage = await runBreakageCheck(mainPool, pricingPool, {
             product_code: productCode,
-            proposed_payload: {
-              product_code: productCode,
-              ...proposedPayload,
-            },
+            proposed_payload: combined,
+            overrides_by_pricing_id: { [pid]: overrides },
           });
           formsWithBreakage += breakage.summary.affected_form_count;
           totalBreakageFailures += breakage.summary.total_failures;
@@ -522,6 +837,9 @@ export async function validateChangeSet(
       }
     }
 
+    const selectorOverlaps = await selectorOverlapsForProduct(pricingPool, pid, { overrides });
+    totalSelectorOverlaps += selectorOverlaps.length;
+
     perProduct.push({
       product_pricing_id: pid,
       product_code: productCode,
@@ -529,21 +847,104 @@ export async function validateChangeSet(
       ...(impactErr && { impact_error: impactErr }),
       breakage,
       ...(breakageErr && { breakage_error: breakageErr }),
+      selector_overlaps: selectorOverlaps,
+      unpriced_enum_values: unpriced,
     });
   }
 
+  const conflicts = await detectChangeSetConflicts(pricingPool, adminPool, cs.entries);
+
   return {
     per_product: perProduct,
+    unmatched_form_structures: [...formByCode.keys()].filter((code) => !pidsByCode.has(code)),
+    conflicts,
     summary: {
       products_touched: ids.length,
       forms_with_price_change: formsWithPriceChange,
       total_price_delta_kc: totalPriceDelta,
+      rows_becoming_unpriced: rowsBecomingUnpriced,
       forms_with_breakage: formsWithBreakage,
       total_breakage_failures: totalBreakageFailures,
+      total_selector_overlaps: totalSelectorOverlaps,
+      total_unpriced_enum_values: totalUnpriced,
+      total_conflicts: conflicts.length,
+      unrebasable_conflicts: conflicts.filter((c) => !c.rebasable).length,
     },
   };
 }
 
+// ---------------------------------------------------------------------------
+// Rebase (resolve conflicts)
+// ---------------------------------------------------------------------------
+
+/**
+ * Rebase stale entries onto the live rows: base := live, fields the draft did not
+ * change take the live value, overlapping fields take the side chosen in
+ * `resolutions[entryId][field]`. Entries with an unresolved overlap (or a deleted
+ * target) are left as they are and returned in `conflicts`. form_structure rows are
+ * read from the admin DB (not locked — the entry update itself is pricing-side).
+ */
+export async function rebaseChangeSet(
+  pricingPool: Pool,
+  adminPool: Pool | null,
+  changeSetId: string,
+  resolutions: ConflictResolutions = {}
+): Promise<{ rebased_entry_ids: string[]; conflicts: ChangeSetEntryConflict[] }> {
+  const cs = await getChangeSetWithEntries(pricingPool, changeSetId);
+  if (!cs) {
+    throw Object.assign(new Error(`Change-set not found: ${changeSetId}`), {
+      code: "NOT_FOUND",
+    });
+  }
+  if (cs.status !== "draft") {
+    throw Object.assign(new Error(`Cannot rebase a ${cs.status} change-set`), {
+      code: "BAD_STATUS",
+    });
+  }
+
+  const client = await pricingPool.connect();
+  const rebased: string[] = [];
+  try {
+    await client.query("BEGIN");
+    const conflicts = await detectChangeSetConflicts(client, adminPool, cs.entries, { forUpdate: true });
+    const byId = new Map(cs.entries.map((e) => [e.id, e]));
+    for (const conflict of conflicts) {
+      const entry = byId.get(conflict.entry_id);
+      if (!entry || conflict.kind !== "stale") continue;
+      const next = rebaseDraftPayload(entry, conflict, resolutions[entry.id]);
+      const liveDb = isAdminDbKind(entry.entity_kind) ? requireAdminDb(adminPool) : client;
+      const liveRow = await fetchLiveRow(liveDb, entry.entity_kind, entry.entity_id as string);
+      if (!next || !liveRow) continue;
+      await client.query(
+        `UPDATE change_set_entry
+         SET draft_payload = $2::jsonb,
+             base_updated_at = $3,
+             base_snapshot = $4::jsonb,
+             updated_at = timezone('utc', now())
+         WHERE id = $1`,
+        [
+          entry.id,
+          JSON.stringify(next),
+          liveRow.updated_at,
+          JSON.stringify(liveRow.fields),
+        ]
+      );
+      rebased.push(entry.id);
+    }
+    await client.query("COMMIT");
+    const rebasedSet = new Set(rebased);
+    return {
+      rebased_entry_ids: rebased,
+      conflicts: conflicts.filter((c) => !rebasedSet.has(c.entry_id)),
+    };
+  } catch (e) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw e;
+  } finally {
+    client.release();
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Publish (transactional)
 // ---------------------------------------------------------------------------
@@ -576,6 +977,14 @@ async function applyEntry(
         sets.push(`surcharges = $${params.length}::jsonb`);
       }
     }
+    if (draft.rounding_policy !== undefined) {
+      if (draft.rounding_policy === null) {
+        sets.push(`rounding_policy = NULL`);
+      } else {
+        params.push(JSON.stringify(draft.rounding_policy));
+        sets.push(`rounding_policy = $${params.length}::jsonb`);
+      }
+    }
     if (sets.length === 0) return; // nothing to apply
     sets.push(`updated_at = timezone('utc', now())`);
     params.push(entry.entity_id);
@@ -649,20 +1058,188 @@ async function applyEntry(
       );
       return;
     }
+
+    if (entry.action === "delete") {
+      if (!entry.entity_id) {
+        throw new Error(`pricing_variant delete entry missing entity_id (id=${entry.id})`);
+      }
+      await client.query(`DELETE FROM pricing_variant WHERE id = $1`, [entry.entity_id]);
+      return;
+    }
+  }
+
+  if (entry.entity_kind === "size_limit_variant") {
+    const draft = entry.draft_payload as SizeLimitVariantDraft;
+    if (entry.action === "create") {
+      if (!draft.product_pricing_id) {
+        throw new Error(`size_limit_variant create entry missing product_pricing_id (id=${entry.id})`);
+      }
+      const ins = await client.query(
+        `INSERT INTO size_limit_variant (product_pricing_id, selector, ${SIZE_LIMIT_FIELDS.join(", ")})
+         VALUES ($1, $2::jsonb, ${SIZE_LIMIT_FIELDS.map((_, i) => `$${i + 3}`).join(", ")})
+         RETURNING id`,
+        [
+          draft.product_pricing_id,
+          JSON.stringify(draft.selector ?? {}),
+          ...SIZE_LIMIT_FIELDS.map((f) => draft[f] ?? null),
+        ]
+      );
+      await client.query(
+        `UPDATE change_set_entry SET entity_id = $1, updated_at = timezone('utc', now())
+         WHERE id = $2`,
+        [String(ins.rows[0].id), entry.id]
+      );
+      return;
+    }
+    if (!entry.entity_id) {
+      throw new Error(`size_limit_variant ${entry.action} entry missing entity_id (id=${entry.id})`);
+    }
+    if (entry.action === "delete") {
+      await client.query(`DELETE FROM size_limit_variant WHERE id = $1`, [entry.entity_id]);
+      return;
+    }
+    if (entry.action === "update") {
+      const sets: string[] = [];
+      const params: unknown[] = [];
+      if (draft.selector !== undefined) {
+        params.push(JSON.stringify(draft.selector));
+        sets.push(`selector = $${params.length}::jsonb`);
+      }
+      for (const field of SIZE_LIMIT_FIELDS) {
+        if (draft[field] === undefined) continue;
+        params.push(draft[field]);
+        sets.push(`${field} = $${params.length}`);
+      }
+      if (sets.length === 0) return;
+      sets.push(`updated_at = timezone('utc', now())`);
+      params.push(entry.entity_id);
+      await client.query(
+        `UPDATE size_limit_variant SET ${sets.join(", ")} WHERE id = $${params.length}`,
+        params
+      );
+      return;
+    }
   }
 
   throw new Error(`Unsupported entry: kind=${entry.entity_kind} action=${entry.action}`);
 }
 
+/** Pre-publish image of one admin row written by a form_structure entry. */
+interface FormStructureUndo {
+  product_code: string;
+  /** null when the entry created the row */
+  before: { validated_payload: unknown; updated_at: string } | null;
+  /** null when the entry deleted the row */
+  written_updated_at: string | null;
+}
+
+async function applyFormStructureEntry(
+  adminClient: PoolClient,
+  entry: ChangeSetEntryRecord,
+  live: LiveRowSnapshot | null
+): Promise<FormStructureUndo> {
+  const draft = entry.draft_payload as FormStructureDraft;
+  const productCode = entry.entity_id;
+  if (!productCode || (entry.action !== "delete" && !draft.validated_payload)) {
+    throw new Error(`Invalid form_structure entry (id=${entry.id})`);
+  }
+  if (entry.action === "create") {
+    const ins = await adminClient.query(
+      `INSERT INTO validated_product (product_code, validated_payload, updated_at)
+       VALUES ($1, $2::jsonb, timezone('utc', now()))
+       RETURNING updated_at`,
+      [productCode, JSON.stringify(draft.validated_payload)]
+    );
+    return { product_code: productCode, before: null, written_updated_at: toIso(ins.rows[0].updated_at) };
+  }
+  if (!live) {
+    throw new Error(`form_structure not found for product_code "${productCode}" (entry id=${entry.id})`);
+  }
+  const before = { validated_payload: live.fields.validated_payload, updated_at: live.updated_at };
+  if (entry.action === "delete") {
+    await adminClient.query(`DELETE FROM validated_product WHERE product_code = $1`, [productCode]);
+    return { product_code: productCode, before, written_updated_at: null };
+  }
+  const upd = await adminClient.query(
+    `UPDATE validated_product
+     SET validated_payload = $2::jsonb, updated_at = timezone('utc', now())
+     WHERE product_code = $1
+     RETURNING updated_at`,
+    [productCode, JSON.stringify(draft.validated_payload)]
+  );
+  return { product_code: productCode, before, written_updated_at: toIso(upd.rows[0].updated_at) };
+}
+
 /**
- * Publish a change-set: apply all entries inside one pricing-DB transaction.
+ * Compensating rollback of committed form_structure writes: restore each row's
+ * pre-publish image (or delete a created row), but only while the row still holds what
+ * publish wrote (a deleted row is re-inserted unless the code was taken again).
+ * Returns an error message when any row could not be restored.
+ */
+async function revertFormStructures(
+  adminPool: Pool,
+  undo: FormStructureUndo[]
+): Promise<string | null> {
+  const client = await adminPool.connect();
+  try {
+    await client.query("BEGIN");
+    const skipped: string[] = [];
+    for (const u of undo) {
+      const res = !u.written_updated_at
+        ? await client.query(
+            `INSERT INTO validated_product (product_code, validated_payload, updated_at)
+             VALUES ($1, $2::jsonb, $3)
+             ON CONFLICT (product_code) DO NOTHING`,
+            [u.product_code, JSON.stringify(u.before?.validated_payload), u.before?.updated_at]
+          )
+        : u.before
+        ? await client.query(
+            `UPDATE validated_product
+             SET validated_payload = $3::jsonb, updated_at = $4
+             WHERE product_code = $1 AND updated_at = $2`,
+            [u.product_code, u.written_updated_at, JSON.stringify(u.before.validated_payload), u.before.updated_at]
+          )
+        : await client.query(
+            `DELETE FROM validated_product WHERE product_code = $1 AND updated_at = $2`,
+            [u.product_code, u.written_updated_at]
+          );
+      if ((res.rowCount ?? 0) === 0) skipped.push(u.product_code);
+    }
+    await client.query("COMMIT");
+    return skipped.length > 0 ? `rows changed since publish, not restored: ${skipped.join(", ")}` : null;
+  } catch (e) {
+    await client.query("ROLLBACK").catch(() => {});
+    return e instanceof Error ? e.message : String(e);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Publish a change-set: apply all entries inside one transaction per database
+ * (pricing, plus the admin DB when there are form_structure entries). The target
+ * rows are locked and re-checked for conflicts first — any stale entry fails the
+ * whole publish (nothing is applied). Each touched row's pre-publish state is kept
+ * in `publish_snapshot` (revert restores from it).
+ *
+ * The change_set row is locked (FOR UPDATE) and its status re-checked inside the
+ * transaction, so two concurrent publishes (admin + scheduler, two instances) cannot
+ * both apply the entries; the loser returns without touching anything.
+ *
+ * Commit order: admin first, then pricing. Both sides are fully applied and locked
+ * before either commits, so the only failure window left is the pricing COMMIT
+ * itself; then the admin writes are reverted from their pre-publish images.
  * On any failure: rollback, mark the change-set with publish_error, leave it
  * in 'draft' status so admin can fix and retry.
  */
 export async function publishChangeSet(
   pricingPool: Pool,
+  adminPool: Pool | null,
   changeSetId: string
-): Promise<{ ok: true; published_at: string } | { ok: false; error: string }> {
+): Promise<
+  | { ok: true; published_at: string }
+  | { ok: false; error: string; conflicts?: ChangeSetEntryConflict[] }
+> {
   const cs = await getChangeSetWithEntries(pricingPool, changeSetId);
   if (!cs) {
     return { ok: false, error: `Change-set not found: ${changeSetId}` };
@@ -673,27 +1250,90 @@ export async function publishChangeSet(
   if (cs.entries.length === 0) {
     return { ok: false, error: "Change-set has no entries" };
   }
+  const hasAdminEntries = cs.entries.some((e) => isAdminDbKind(e.entity_kind));
+  if (hasAdminEntries && !adminPool) {
+    return {
+      ok: false,
+      error: "ADMIN_DATABASE_URL is not configured — cannot publish form_structure entries",
+    };
+  }
 
   const client = await pricingPool.connect();
+  const adminClient = hasAdminEntries && adminPool ? await adminPool.connect() : null;
+  let conflicts: ChangeSetEntryConflict[] = [];
+  const undo: FormStructureUndo[] = [];
+  let adminCommitted = false;
   try {
     await client.query("BEGIN");
+    const locked = await client.query(`SELECT status FROM change_set WHERE id = $1 FOR UPDATE`, [changeSetId]);
+    const lockedStatus: string | undefined = locked.rows[0]?.status;
+    if (lockedStatus !== "draft") {
+      await client.query("ROLLBACK");
+      return {
+        ok: false,
+        error: lockedStatus ? `Change-set is ${lockedStatus}, cannot publish` : `Change-set not found: ${changeSetId}`,
+      };
+    }
+    if (adminClient) await adminClient.query("BEGIN");
+    conflicts = await detectChangeSetConflicts(client, adminClient, cs.entries, { forUpdate: true });
+    if (conflicts.length > 0) {
+      throw new Error(
+        `${conflicts.length} entr${conflicts.length === 1 ? "y is" : "ies are"} in conflict with the live rows — rebase or re-draft before publishing`
+      );
+    }
     for (const entry of cs.entries) {
-      await applyEntry(client, entry);
+      const adminKind = isAdminDbKind(entry.entity_kind);
+      // Pre-publish image for revert; the conflict check above already locked the row.
+      const before =
+        entry.action === "create" || !entry.entity_id
+          ? null
+          : await fetchLiveRow(adminKind ? (adminClient as PoolClient) : client, entry.entity_kind, entry.entity_id);
+      if (before) {
+        await client.query(
+          `UPDATE change_set_entry SET publish_snapshot = $2::jsonb WHERE id = $1`,
+          [entry.id, JSON.stringify(before)]
+        );
+      }
+      if (adminKind) {
+        undo.push(await applyFormStructureEntry(adminClient as PoolClient, entry, before));
+      } else {
+        await applyEntry(client, entry);
+      }
     }
     const pubRes = await client.query(
       `UPDATE change_set
        SET status = 'published',
            published_at = timezone('utc', now()),
-           publish_error = NULL
-       WHERE id = $1
+           publish_error = NULL,
+           scheduled_at = NULL,
+           publish_claimed_at = NULL
+       WHERE id = $1 AND status = 'draft'
        RETURNING published_at`,
       [changeSetId]
     );
+    if ((pubRes.rowCount ?? 0) === 0) {
+      throw new Error("Change-set is no longer a draft, cannot publish");
+    }
+    if (adminClient) {
+      await adminClient.query("COMMIT");
+      adminCommitted = true;
+    }
     await client.query("COMMIT");
     return { ok: true, published_at: toIso(pubRes.rows[0].published_at) };
   } catch (e) {
     await client.query("ROLLBACK").catch(() => {});
-    const message = e instanceof Error ? e.message : String(e);
+    let message = e instanceof Error ? e.message : String(e);
+    if (adminClient && !adminCommitted) {
+      await adminClient.query("ROLLBACK").catch(() => {});
+    } else if (adminCommitted && adminPool) {
+      const revertError = await revertFormStructures(adminPool, undo);
+      if (revertError) {
+        console.error(`Change-set ${changeSetId}: form_structure revert after failed publish incomplete:`, revertError);
+        message = `${message} — form_structure changes were committed and could not be fully reverted (${revertError})`;
+      } else {
+        message = `${message} — form_structure changes reverted`;
+      }
+    }
     // Record the failure on the change-set so admin can see it.
     await pricingPool
       .query(`UPDATE change_set SET publish_error = $2 WHERE id = $1`, [
@@ -701,8 +1341,228 @@ export async function publishChangeSet(
         message.slice(0, 1000),
       ])
       .catch(() => {});
-    return { ok: false, error: message };
+    return { ok: false, error: message, ...(conflicts.length > 0 && { conflicts }) };
+  } finally {
+    client.release();
+    adminClient?.release();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Schedule
+// ---------------------------------------------------------------------------
+
+/**
+ * Set (or clear, with null) the time the scheduler publishes a draft change-set.
+ * The scheduler re-validates it first (change-set-scheduler.service).
+ */
+export async function scheduleChangeSet(
+  pricingPool: Pool,
+  changeSetId: string,
+  scheduledAt: string | null
+): Promise<ChangeSetRecord> {
+  let at: Date | null = null;
+  if (scheduledAt !== null) {
+    at = new Date(scheduledAt);
+    if (!Number.isFinite(at.getTime())) {
+      throw Object.assign(new Error("scheduled_at must be an ISO date-time"), { code: "BAD_INPUT" });
+    }
+    if (at.getTime() <= Date.now()) {
+      throw Object.assign(new Error("scheduled_at must be in the future — publish now instead"), {
+        code: "BAD_INPUT",
+      });
+    }
+  }
+  const { rows } = await pricingPool.query(
+    `UPDATE change_set SET scheduled_at = $2, publish_error = NULL, publish_claimed_at = NULL
+     WHERE id = $1 AND status = 'draft'
+     RETURNING id, name, description, status, created_by, created_at, published_at, publish_error, scheduled_at, reverts_change_set_id`,
+    [changeSetId, at?.toISOString() ?? null]
+  );
+  if (rows.length > 0) return rowToChangeSet(rows[0]);
+  const existing = await pricingPool.query(`SELECT status FROM change_set WHERE id = $1`, [changeSetId]);
+  if (existing.rows.length === 0) {
+    throw Object.assign(new Error(`Change-set not found: ${changeSetId}`), { code: "NOT_FOUND" });
+  }
+  throw Object.assign(new Error(`Cannot schedule a ${existing.rows[0].status} change-set`), {
+    code: "BAD_STATUS",
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Revert (inverse change-set)
+// ---------------------------------------------------------------------------
+
+export interface RevertChangeSetResult {
+  /** The inverse change-set (published when `published` is true, otherwise left as a draft). */
+  change_set: ChangeSetWithEntries;
+  published: boolean;
+  publish_error?: string;
+  conflicts?: ChangeSetEntryConflict[];
+  /** Rows edited after the original publish — the inverse would undo those edits too, so it is not auto-published. */
+  changed_since_publish: Array<{ entity_kind: EntityKind; entity_id: string; updated_at: string }>;
+}
+
+interface InverseEntry {
+  entity_kind: EntityKind;
+  entity_id: string | null;
+  action: EntryAction;
+  draft_payload: Record<string, unknown>;
+  live: LiveRowSnapshot | null;
+}
+
+/**
+ * Inverse of one published entry, based on its publish_snapshot: updates restore the
+ * snapshot, creates become deletes, deletes re-create the snapshot row.
+ */
+function inverseEntry(entry: ChangeSetEntryRecord, live: LiveRowSnapshot | null): InverseEntry {
+  const notRevertible = (why: string) =>
+    Object.assign(new Error(`Entry ${entry.id} (${entry.entity_kind} ${entry.entity_id ?? "?"}) cannot be reverted: ${why}`), {
+      code: "BAD_STATUS",
+    });
+  if (!entry.entity_id) throw notRevertible("it has no target row");
+  const draft = entry.draft_payload as PricingVariantDraft;
+  const owner =
+    (entry.entity_kind === "pricing_variant" || entry.entity_kind === "size_limit_variant") &&
+    draft.product_pricing_id
+    ? { product_pricing_id: draft.product_pricing_id }
+    : {};
+
+  if (entry.action === "create") {
+    if (!live) throw notRevertible("the row it created no longer exists");
+    return { entity_kind: entry.entity_kind, entity_id: entry.entity_id, action: "delete", draft_payload: owner, live };
+  }
+  if (!entry.publish_snapshot) {
+    throw notRevertible("it was published before pre-publish snapshots were recorded");
+  }
+  if (entry.action === "delete") {
+    if (live) throw notRevertible("a row with the same id exists again");
+    return {
+      entity_kind: entry.entity_kind,
+      entity_id: entry.entity_kind === "form_structure" ? entry.entity_id : null,
+      action: "create",
+      draft_payload: { ...entry.publish_snapshot.fields, ...owner },
+      live: null,
+    };
+  }
+  if (!live) throw notRevertible("the row no longer exists");
+  return {
+    entity_kind: entry.entity_kind,
+    entity_id: entry.entity_id,
+    action: "update",
+    draft_payload: { ...entry.publish_snapshot.fields, ...owner },
+    live,
+  };
+}
+
+/**
+ * Revert a published change-set: build the inverse change-set from the entries'
+ * pre-publish snapshots and publish it. When a touched row was edited after the
+ * original publish, the inverse is created but left as a draft for review.
+ */
+export async function revertChangeSet(
+  pricingPool: Pool,
+  adminPool: Pool | null,
+  changeSetId: string,
+  input: { created_by: string }
+): Promise<RevertChangeSetResult> {
+  const cs = await getChangeSetWithEntries(pricingPool, changeSetId);
+  if (!cs) {
+    throw Object.assign(new Error(`Change-set not found: ${changeSetId}`), { code: "NOT_FOUND" });
+  }
+  if (cs.status !== "published" || !cs.published_at) {
+    throw Object.assign(new Error(`Only published change-sets can be reverted (this one is ${cs.status})`), {
+      code: "BAD_STATUS",
+    });
+  }
+  const existing = await pricingPool.query(
+    `SELECT id, status FROM change_set
+     WHERE reverts_change_set_id = $1 AND status <> 'discarded'
+     LIMIT 1`,
+    [changeSetId]
+  );
+  if (existing.rows.length > 0) {
+    throw Object.assign(
+      new Error(`Change-set already has a ${existing.rows[0].status} revert: ${existing.rows[0].id}`),
+      { code: "BAD_STATUS" }
+    );
+  }
+
+  // Newest first: a variant updated after it was created is restored before it is deleted.
+  const inverses: InverseEntry[] = [];
+  const changedSincePublish: RevertChangeSetResult["changed_since_publish"] = [];
+  const publishedAt = new Date(cs.published_at).getTime();
+  for (const entry of [...cs.entries].reverse()) {
+    const live = entry.entity_id
+      ? await fetchLiveRow(
+          isAdminDbKind(entry.entity_kind) ? requireAdminDb(adminPool) : pricingPool,
+          entry.entity_kind,
+          entry.entity_id
+        )
+      : null;
+    inverses.push(inverseEntry(entry, live));
+    if (live && new Date(live.updated_at).getTime() > publishedAt) {
+      changedSincePublish.push({
+        entity_kind: entry.entity_kind,
+        entity_id: entry.entity_id as string,
+        updated_at: live.updated_at,
+      });
+    }
+  }
+
+  const client = await pricingPool.connect();
+  let inverseId: string;
+  try {
+    await client.query("BEGIN");
+    const setRes = await client.query(
+      `INSERT INTO change_set (name, description, created_by, reverts_change_set_id)
+       VALUES ($1, $2, $3, $4)
+       RETURNING id`,
+      [`Revert: ${cs.name}`.slice(0, 200), `Inverse of change-set ${cs.id}`, input.created_by, cs.id]
+    );
+    inverseId = String(setRes.rows[0].id);
+    for (const inv of inverses) {
+      await client.query(
+        `INSERT INTO change_set_entry
+           (change_set_id, entity_kind, entity_id, action, draft_payload, base_updated_at, base_snapshot)
+         VALUES ($1, $2, $3, $4, $5::jsonb, $6, $7::jsonb)`,
+        [
+          inverseId,
+          inv.entity_kind,
+          inv.entity_id,
+          inv.action,
+          JSON.stringify(inv.draft_payload),
+          inv.live?.updated_at ?? null,
+          inv.live ? JSON.stringify(inv.live.fields) : null,
+        ]
+      );
+    }
+    await client.query("COMMIT");
+  } catch (e) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw e;
   } finally {
     client.release();
   }
+
+  let published = false;
+  let publishError: string | undefined;
+  let conflicts: ChangeSetEntryConflict[] | undefined;
+  if (changedSincePublish.length === 0) {
+    const result = await publishChangeSet(pricingPool, adminPool, inverseId);
+    published = result.ok;
+    if (!result.ok) {
+      publishError = result.error;
+      conflicts = result.conflicts;
+    }
+  }
+
+  const inverse = await getChangeSetWithEntries(pricingPool, inverseId);
+  return {
+    change_set: inverse as ChangeSetWithEntries,
+    published,
+    ...(publishError && { publish_error: publishError }),
+    ...(conflicts && { conflicts }),
+    changed_since_publish: changedSincePublish,
+  };
 }
@@ -0,0 +1,228 @@
+/**
+ * Admin export monitoring service. Powers GET /api/admin/exports/*.
+ *
+ * Read-only view over the Raynet, ERP and retention export logs for the
+ * monitoring dashboard (docs/raynet-monitoring-tool.md): KPI cards, time chart,
+ * error / warning breakdowns, user activity, alerts, a filtered log list and
+ * the log detail. Parses and validates the raw query params; the SQL lives in
+ * export-monitoring.queries.
+ */
+
+import type { Pool } from "pg";
+import * as monitoringQueries from "../queries/export-monitoring.queries";
+import { BadRequestError, NotFoundError } from "../utils/errors";
+import {
+  EXPORT_LOG_SORT_KEYS,
+  EXPORT_LOG_SOURCES,
+  EXPORT_LOG_STATUSES,
+  type ExportLogDetail,
+  type ExportLogPage,
+  type ExportLogSearchFilters,
+  type ExportLogSortKey,
+  type ExportLogSource,
+  type ExportLogStatus,
+  type ExportMonitoringErrorCode,
+  type ExportMonitoringRange,
+  type ExportMonitoringStats,
+} from "../types/export-monitoring.types";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+/** Ranges up to this length (a day plus DST slack) are charted per hour. */
+const HOURLY_MAX_RANGE_MS = 25 * HOUR_MS;
+const MAX_RANGE_MS = 366 * DAY_MS;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+/** Last-hour success rate (%) under which the dashboard shows the red banner. */
+const FAILURE_ALERT_SUCCESS_RATE = 80;
+
+/** Raw query-string values as Express hands them over. */
+export type MonitoringQuery = Record<string, unknown>;
+
+function single(value: unknown): string | undefined {
+  const v = Array.isArray(value) ? value[0] : value;
+  if (typeof v !== "string") return undefined;
+  const trimmed = v.trim();
+  return trimmed === "" ? undefined : trimmed;
+}
+
+export function parseSource(raw: unknown): ExportLogSource {
+  const value = single(raw) ?? "raynet";
+  if (!(EXPORT_LOG_SOURCES as readonly string[]).includes(value)) {
+    throw new BadRequestError(
+      `source must be one of: ${EXPORT_LOG_SOURCES.join(", ")}`,
+      "INVALID_SOURCE" satisfies ExportMonitoringErrorCode
+    );
+  }
+  return value as ExportLogSource;
+}
+
+function parseDate(raw: unknown, name: string): Date | undefined {
+  const value = single(raw);
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new BadRequestError(
+      `${name} must be an ISO date`,
+      "INVALID_RANGE" satisfies ExportMonitoringErrorCode
+    );
+  }
+  return date;
+}
+
+/**
+ * from / to as ISO timestamps, half-open. Defaults to the last 24 hours; the
+ * dashboard always sends explicit local-day boundaries.
+ */
+export function parseRange(query: MonitoringQuery): ExportMonitoringRange {
+  const to = parseDate(query.to, "to") ?? new Date();
+  const from = parseDate(query.from, "from") ?? new Date(to.getTime() - DAY_MS);
+  if (from >= to) {
+    throw new BadRequestError(
+      "from must be before to",
+      "INVALID_RANGE" satisfies ExportMonitoringErrorCode
+    );
+  }
+  if (to.getTime() - from.getTime() > MAX_RANGE_MS) {
+    throw new BadRequestError(
+      "Range is limited to 366 days",
+      "INVALID_RANGE" satisfies ExportMonitoringErrorCode
+    );
+  }
+  return { from, to };
+}
+
+function parsePositiveInt(raw: unknown, name: string, fallback: number, max?: number): number {
+  const value = single(raw);
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n <= 0) {
+    throw new BadRequestError(
+      `${name} must be a positive integer`,
+      "INVALID_FILTER" satisfies ExportMonitoringErrorCode
+    );
+  }
+  return max !== undefined ? Math.min(n, max) : n;
+}
+
+/** status=FAILED,SUCCESS or repeated status params. */
+function parseStatuses(raw: unknown): ExportLogStatus[] | undefined {
+  const parts = (Array.isArray(raw) ? raw : [raw])
+    .filter((v): v is string => typeof v === "string")
+    .flatMap((v) => v.split(","))
+    .map((v) => v.trim().toUpperCase())
+    .filter((v) => v !== "");
+  if (parts.length === 0) return undefined;
+  for (const status of parts) {
+    if (!(EXPORT_LOG_STATUSES as readonly string[]).includes(status)) {
+      throw new BadRequestError(
+        `Unknown status: ${status}`,
+        "INVALID_FILTER" satisfies ExportMonitoringErrorCode
+      );
+    }
+  }
+  return Array.from(new Set(parts)) as ExportLogStatus[];
+}
+
+/** test_mode=true|false; anything else (or missing) = both. */
+function parseTestMode(raw: unknown): boolean | undefined {
+  const value = single(raw);
+  if (value === "true") return true;
+  if (value === "false") return false;
+  return undefined;
+}
+
+function parseSort(raw: unknown): ExportLogSortKey {
+  const value = single(raw) ?? "created_at";
+  if (!(EXPORT_LOG_SORT_KEYS as readonly string[]).includes(value)) {
+    throw new BadRequestError(
+      `sort must be one of: ${EXPORT_LOG_SORT_KEYS.join(", ")}`,
+      "INVALID_FILTER" satisfies ExportMonitoringErrorCode
+    );
+  }
+  return value as ExportLogSortKey;
+}
+
+/**
+ * Dashboard data for one source and range: KPIs, chart buckets, breakdowns,
+ * user activity and the alert indicators.
+ */
+export async function getExportMonitoringStats(
+  pool: Pool,
+  query: MonitoringQuery
+): Promise<ExportMonitoringStats> {
+  const source = parseSource(query.source);
+  const range = parseRange(query);
+  const granularity =
+    range.to.getTime() - range.from.getTime() <= HOURLY_MAX_RANGE_MS ? "hour" : "day";
+
+  const [kpis, buckets, errors, users, warnings, stuck, lastHour] = await Promise.all([
+    monitoringQueries.getExportKpis(pool, source, range),
+    monitoringQueries.getExportTimeBuckets(pool, source, range, granularity),
+    monitoringQueries.getExportErrorBreakdown(pool, source, range),
+    monitoringQueries.getExportUserActivity(pool, source, range),
+    monitoringQueries.getExportWarningStats(pool, source, range),
+    monitoringQueries.getStuckExports(pool, source),
+    monitoringQueries.getLastHourHealth(pool, source),
+  ]);
+
+  const lastHourRate =
+    lastHour.total > 0 ? Math.round((lastHour.success / lastHour.total) * 1000) / 10 : null;
+
+  return {
+    source,
+    from: range.from,
+    to: range.to,
+    granularity,
+    kpis,
+    buckets,
+    errors,
+    users,
+    warnings,
+    alerts: {
+      stuck,
+      auth_failures_last_hour: lastHour.auth_failures,
+      last_hour_total: lastHour.total,
+      last_hour_success_rate: lastHourRate,
+      high_failure_rate: lastHourRate !== null && lastHourRate < FAILURE_ALERT_SUCCESS_RATE,
+    },
+  };
+}
+
+/**
+ * Log list. Query: source, from, to, status (comma list), test_mode, user_id,
+ * error_code, q (error_message fulltext), sort, dir, page, page_size.
+ */
+export async function searchExportLogs(
+  pool: Pool,
+  query: MonitoringQuery
+): Promise<ExportLogPage> {
+  const filters: ExportLogSearchFilters = {
+    source: parseSource(query.source),
+    ...parseRange(query),
+    statuses: parseStatuses(query.status),
+    test_mode: parseTestMode(query.test_mode),
+    user_id: single(query.user_id),
+    error_code: single(query.error_code),
+    q: single(query.q),
+    sort: parseSort(query.sort),
+    direction: single(query.dir) === "asc" ? "asc" : "desc",
+    page: parsePositiveInt(query.page, "page", 1),
+    page_size: parsePositiveInt(query.page_size, "page_size", DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE),
+  };
+  return monitoringQueries.searchExportLogs(pool, filters);
+}
+
+export async function getExportLogDetail(
+  pool: Pool,
+  rawSource: unknown,
+  rawId: unknown
+): Promise<ExportLogDetail> {
+  const source = parseSource(rawSource);
+  const id = parsePositiveInt(rawId, "id", 0);
+  const detail = await monitoringQueries.getExportLogDetail(pool, source, id);
+  if (!detail) {
+    throw new NotFoundError(`Export log ${source}/${id} not found`);
+  }
+  return detail;
+}
@@ -15,9 +15,11 @@
  *   - Per-row fault tolerance mirrors `previewCustomFormPricing`: rows that
  *     fail to price land in the response with `reason` instead of throwing.
  *   - Overrides apply only to the pricing layer (price_affecting_enums,
- *     surcharges, pricing_variants). The row's stored schema (rowSchema) is
+ *     surcharges, rounding_policy, pricing_variants). The row's stored schema (rowSchema) is
  *     a per-form snapshot taken at form-creation time and cannot be replayed
  *     under a different schema; that's a Phase 4 (breakage-check) concern.
+ *   - Rows that price today but not under the overrides (a deleted variant,
+ *     a narrowed selector) are flagged `becomes_unpriced`.
  */
 
 import type { Pool } from "pg";
@@ -26,6 +28,7 @@ import {
   getPricingVariantsByProductId,
   type ProductPricingForResolve,
   type PricingVariantRow,
+  type SizeLimitVariantRow,
 } from "./pricing-forms.service";
 import {
   resolveCustomRowPricingCore,
@@ -59,6 +62,8 @@ export interface ImpactDiffRowEntry {
   /** Line total bez DPH under proposed overrides. Null when the override calc fails. */
   new_cena: number | null;
   delta: number | null;
+  /** Priced under the live rules, but no longer under the overrides. */
+  becomes_unpriced?: boolean;
   reason?: string;
 }
 
@@ -82,6 +87,8 @@ export interface ImpactDiffResponse {
     total_delta_kc: number;
     /** Rows where the override calc produced an error or null. */
     rows_that_break: number;
+    /** Subset of rows_that_break that price fine today (see `becomes_unpriced`). */
+    rows_becoming_unpriced: number;
     /** Threshold used: |delta / old_cena| > 5%. */
     rows_with_significant_change: number;
   };
@@ -93,7 +100,7 @@ export interface ImpactDiffResponse {
 // Override merging — specialized to ProductPricingForResolve
 // ---------------------------------------------------------------------------
 
-function mergeOverrides(
+export function mergeOverrides(
   liveProduct: ProductPricingForResolve,
   liveVariants: PricingVariantRow[],
   overrides: CalculatePriceOverrides | undefined
@@ -108,6 +115,10 @@ function mergeOverrides(
       overrides.product_pricing?.surcharges !== undefined
         ? overrides.product_pricing.surcharges
         : liveProduct.surcharges,
+    rounding_policy:
+      overrides.product_pricing?.rounding_policy !== undefined
+        ? overrides.product_pricing.rounding_policy
+        : liveProduct.rounding_policy,
   };
 
   let variants = liveVariants;
@@ -143,6 +154,51 @@ function mergeOverrides(
   return { product, variants };
 }
 
+/**
+ * size_limit_variant counterpart of `mergeOverrides`: `_delete` drops a row, an `id`
+ * updates the given limits in place, rows without `id` are appended (`__draft_N__`).
+ */
+export function mergeSizeLimitOverrides(
+  liveLimits: SizeLimitVariantRow[],
+  overrides: CalculatePriceOverrides | undefined
+): SizeLimitVariantRow[] {
+  const incoming = overrides?.size_limit_variants ?? [];
+  if (incoming.length === 0) return liveLimits;
+  const deletedIds = new Set(incoming.filter((v) => v._delete && v.id).map((v) => v.id as string));
+  const updates = new Map(incoming.filter((v) => !v._delete && v.id).map((v) => [v.id as string, v]));
+  const out = liveLimits
+    .filter((existing) => !deletedIds.has(existing.id))
+    .map((existing) => {
+      const upd = updates.get(existing.id);
+      if (!upd) return existing;
+      const defined = Object.fromEntries(
+        Object.entries(upd).filter(([k, v]) => k !== "_delete" && v !== undefined)
+      );
+      return { ...existing, ...defined, id: existing.id };
+    });
+  incoming
+    .filter((v) => !v._delete && !v.id)
+    .forEach((v, i) => {
+      out.push({
+        id: `__draft_${i}__`,
+        selector: v.selector ?? {},
+        mezni_sirka_min: v.mezni_sirka_min ?? null,
+        mezni_sirka_max: v.mezni_sirka_max ?? null,
+        mezni_vyska_min: v.mezni_vyska_min ?? null,
+        mezni_vyska_max: v.mezni_vyska_max ?? null,
+        zarucni_sirka_min: v.zarucni_sirka_min ?? null,
+        zarucni_sirka_max: v.zarucni_sirka_max ?? null,
+        zarucni_vyska_min: v.zarucni_vyska_min ?? null,
+        zarucni_vyska_max: v.zarucni_vyska_max ?? null,
+        mezni_plocha_min: v.mezni_plocha_min ?? null,
+        mezni_plocha_max: v.mezni_plocha_max ?? null,
+        zarucni_plocha_min: v.zarucni_plocha_min ?? null,
+        zarucni_plocha_max: v.zarucni_plocha_max ?? null,
+      });
+    });
+  return out;
+}
+
 // ---------------------------------------------------------------------------
 // Form fetch — custom forms touching this product within the time window
 // ---------------------------------------------------------------------------
@@ -295,6 +351,7 @@ export async function runImpactDiff(
   let totalDelta = 0;
   let totalRows = 0;
   let rowsThatBreak = 0;
+  let rowsBecomingUnpriced = 0;
   let rowsSignificant = 0;
 
   for (const form of consideredForms) {
@@ -361,6 +418,7 @@ export async function runImpactDiff(
             : null
           : oldCena; // no overrides → new == old
         const delta = oldCena != null && newCena != null ? newCena - oldCena : null;
+        const becomesUnpriced = oldCena != null && newCena == null;
 
         const labelSource = oldRes.ok ? oldRes : newRes.ok ? newRes : null;
         const productLabel = labelSource?.produkt ?? "—";
@@ -376,6 +434,7 @@ export async function runImpactDiff(
           old_cena: oldCena,
           new_cena: newCena,
           delta,
+          ...(becomesUnpriced && { becomes_unpriced: true }),
           ...(oldRes.ok ? {} : { reason: oldRes.reason }),
           ...(req.overrides && !newRes.ok ? { reason: newRes.reason } : {}),
         });
@@ -384,6 +443,7 @@ export async function runImpactDiff(
         if (newCena != null) formNewTotal += newCena;
         totalRows++;
         if (delta == null || newCena == null) rowsThatBreak++;
+        if (becomesUnpriced) rowsBecomingUnpriced++;
         if (
           oldCena != null &&
           delta != null &&
@@ -418,6 +478,7 @@ export async function runImpactDiff(
       affected_row_count: totalRows,
       total_delta_kc: totalDelta,
       rows_that_break: rowsThatBreak,
+      rows_becoming_unpriced: rowsBecomingUnpriced,
       rows_with_significant_change: rowsSignificant,
     },
     capped,
@@ -0,0 +1,445 @@
+/**
+ * Price-list import. Backs POST /api/admin/change-sets/:id/import-price-list.
+ *
+ * Manufacturers send yearly price lists as width × height grids (XLSX / CSV). The
+ * import turns one grid into `dimension_pricing.prices` (keyed "<height>_<width>" in
+ * mm) for every existing pricing_variant of a product that matches the requested
+ * selector, and records them as pricing_variant update entries of a draft change-set:
+ *   - a variant already edited in the change-set gets its update entry's draft
+ *     replaced (one entry per variant, as publish expects);
+ *   - `mode: "replace"` (default) swaps the whole grid, `"merge"` only sets the
+ *     imported keys and keeps the rest;
+ *   - header values are converted to mm (`units`), prices get `uplift_percent`
+ *     and are rounded to `rounding.step` Kč;
+ *   - "1.234" / "2,500" read with the sheet's decimal separator (`decimal_separator`,
+ *     else detected from the sheet's unambiguous numbers); when it cannot be told, such
+ *     header values are rejected and such prices are skipped as ambiguous.
+ * The response carries the impact-diff of the product under the whole change-set, so
+ * the admin sees straight away how recent orders' prices would move.
+ *
+ * Surcharge-only variants have no grid and are never matched.
+ */
+
+import type { Pool } from "pg";
+import type { DimensionPricing } from "@ovt/pricing-engine";
+import { getPricingVariantsByProductId } from "./pricing-forms.service";
+import { runImpactDiff, type ImpactDiffRequest, type ImpactDiffResponse } from "./admin-impact-diff.service";
+import { fetchLiveRows } from "./admin-change-set-conflicts.service";
+import {
+  entriesToOverridesForProduct,
+  getChangeSetWithEntries,
+  type ChangeSetEntryRecord,
+} from "./admin-change-sets.service";
+import {
+  detectDecimalSeparator,
+  isAmbiguousCellNumber,
+  parseCellNumber,
+  parseSpreadsheet,
+  type DecimalSeparator,
+  type SpreadsheetRows,
+} from "../utils/spreadsheet-grid";
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+export type PriceGridUnits = "mm" | "cm" | "m";
+
+export interface PriceGridOptions {
+  /** 1-based row holding the width axis (default 1). */
+  header_row?: number;
+  /** 1-based column holding the height axis (default 1). */
+  header_column?: number;
+  /** "widths_in_row" (default): widths across the header row, heights down the header column. */
+  orientation?: "widths_in_row" | "heights_in_row";
+  /** Unit of the header values (default mm). */
+  units?: PriceGridUnits;
+  /** Applied before rounding, e.g. 4.5 for +4.5 %. */
+  uplift_percent?: number;
+  /** Round prices to `step` Kč (default 1, "round"). */
+  rounding?: { step?: number; mode?: "round" | "ceil" | "floor" };
+  /** XLSX sheet name (default first sheet). */
+  sheet?: string;
+  /** Decimal separator of the file's numbers (default: detected from the sheet). */
+  decimal_separator?: DecimalSeparator;
+}
+
+export interface PriceListImportOptions extends PriceGridOptions {
+  product_pricing_id: string;
+  /** Variants whose selector lists every given value per key ({} = all grid variants). */
+  selector?: Record<string, string | string[]>;
+  /** Explicit variants of the product (alternative to / narrowing of `selector`). */
+  variant_ids?: string[];
+  /** "replace" (default) swaps the grid, "merge" keeps keys the file does not have. */
+  mode?: "replace" | "merge";
+  /** Impact-diff window (same as POST /api/admin/pricing/impact-diff). */
+  filters?: ImpactDiffRequest["filters"];
+}
+
+export interface SkippedGridCell {
+  /** Spreadsheet reference, e.g. "C7". */
+  cell: string;
+  value: string;
+  /** "ambiguous": "1.234"-style value while the decimal separator is unknown. */
+  reason: "not_a_number" | "ambiguous";
+}
+
+export interface ParsedPriceGrid {
+  prices: Record<string, number>;
+  widths_mm: number[];
+  heights_mm: number[];
+  /** Non-empty cells inside the grid that are not a number (first 50). */
+  skipped_cells: SkippedGridCell[];
+  skipped_cell_count: number;
+  /** Separator the numbers were read with; null when neither given nor detectable. */
+  decimal_separator: DecimalSeparator | null;
+}
+
+export interface PriceListImportVariant {
+  variant_id: string;
+  name: string | null;
+  entry_id: string;
+  /** "added" = new update entry, "updated" = existing update entry's draft replaced. */
+  entry_change: "added" | "updated";
+  keys_added: number;
+  keys_removed: number;
+  keys_changed: number;
+}
+
+export interface PriceListImportResult {
+  grid: Omit<ParsedPriceGrid, "prices"> & { price_count: number };
+  variants: PriceListImportVariant[];
+  entries: ChangeSetEntryRecord[];
+  impact: ImpactDiffResponse | null;
+  impact_error?: string;
+  warnings: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Grid parsing
+// ---------------------------------------------------------------------------
+
+const UNIT_TO_MM: Record<PriceGridUnits, number> = { mm: 1, cm: 10, m: 1000 };
+const MAX_SKIPPED_CELLS = 50;
+
+function badInput(message: string): Error {
+  return Object.assign(new Error(message), { code: "BAD_INPUT" });
+}
+
+function cellRef(rowIndex: number, colIndex: number): string {
+  let letters = "";
+  for (let n = colIndex + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return `${letters}${rowIndex + 1}`;
+}
+
+function positiveIndex(value: number | undefined, name: string): number {
+  if (value === undefined) return 0;
+  if (!Number.isInteger(value) || value < 1) throw badInput(`${name} must be a positive integer (1-based)`);
+  return value - 1;
+}
+
+function roundPrice(value: number, rounding: PriceGridOptions["rounding"]): number {
+  const step = rounding?.step ?? 1;
+  const fn = rounding?.mode === "ceil" ? Math.ceil : rounding?.mode === "floor" ? Math.floor : Math.round;
+  // Two-decimal cleanup hides float noise from the uplift multiplication.
+  return Math.round(fn(Math.round((value / step) * 1e6) / 1e6) * step * 100) / 100;
+}
+
+/** Axis value in mm from a header cell; null for labels / empty cells. */
+function axisMm(text: string, units: PriceGridUnits, decimal: DecimalSeparator | null, ref: string): number | null {
+  const n = parseCellNumber(text, decimal ?? undefined);
+  if (n == null && isAmbiguousCellNumber(text)) {
+    throw badInput(
+      `Header ${ref} "${text}" could be ${parseCellNumber(text, ".")} or ${parseCellNumber(text, ",")} — set decimal_separator`
+    );
+  }
+  if (n == null || n <= 0) return null;
+  return Math.round(n * UNIT_TO_MM[units]);
+}
+
+/** `dimension_pricing.prices` from a sheet laid out as a width × height grid. */
+export function priceGridFromRows(rows: SpreadsheetRows, opts: PriceGridOptions = {}): ParsedPriceGrid {
+  const headerRow = positiveIndex(opts.header_row, "header_row");
+  const headerCol = positiveIndex(opts.header_column, "header_column");
+  const units = opts.units ?? "mm";
+  if (!(units in UNIT_TO_MM)) throw badInput("units must be mm, cm or m");
+  const uplift = opts.uplift_percent ?? 0;
+  if (!Number.isFinite(uplift) || uplift <= -100) throw badInput("uplift_percent must be a number above -100");
+  const step = opts.rounding?.step;
+  if (step !== undefined && !(Number.isFinite(step) && step > 0)) {
+    throw badInput("rounding.step must be a positive number");
+  }
+  if (opts.rounding?.mode !== undefined && !["round", "ceil", "floor"].includes(opts.rounding.mode)) {
+    throw badInput("rounding.mode must be round, ceil or floor");
+  }
+  const widthsInRow = (opts.orientation ?? "widths_in_row") === "widths_in_row";
+  if (opts.decimal_separator !== undefined && ![",", "."].includes(opts.decimal_separator)) {
+    throw badInput('decimal_separator must be "," or "."');
+  }
+  const decimal = opts.decimal_separator ?? detectDecimalSeparator(rows);
+
+  const header = rows[headerRow] ?? [];
+  const columnAxis = new Map<number, number>();
+  for (let c = headerCol + 1; c < header.length; c++) {
+    const mm = axisMm(header[c] ?? "", units, decimal, cellRef(headerRow, c));
+    if (mm != null) columnAxis.set(c, mm);
+  }
+
+  const prices: Record<string, number> = {};
+  const widths = new Set<number>();
+  const heights = new Set<number>();
+  const skipped: SkippedGridCell[] = [];
+  let skippedCount = 0;
+  for (let r = headerRow + 1; r < rows.length; r++) {
+    const row = rows[r] ?? [];
+    const rowMm = axisMm(row[headerCol] ?? "", units, decimal, cellRef(r, headerCol));
+    if (rowMm == null) continue;
+    for (const [c, colMm] of columnAxis) {
+      const text = row[c] ?? "";
+      if (text === "") continue;
+      const value = parseCellNumber(text, decimal ?? undefined);
+      if (value == null || value < 0) {
+        skippedCount++;
+        if (skipped.length < MAX_SKIPPED_CELLS) {
+          const reason = value == null && isAmbiguousCellNumber(text) ? "ambiguous" : "not_a_number";
+          skipped.push({ cell: cellRef(r, c), value: text, reason });
+        }
+        continue;
+      }
+      const width = widthsInRow ? colMm : rowMm;
+      const height = widthsInRow ? rowMm : colMm;
+      const key = `${height}_${width}`;
+      if (key in prices) {
+        throw badInput(`Duplicate grid position ${height} × ${width} mm at ${cellRef(r, c)} (check units / headers)`);
+      }
+      prices[key] = roundPrice(value * (1 + uplift / 100), opts.rounding);
+      widths.add(width);
+      heights.add(height);
+    }
+  }
+  if (Object.keys(prices).length === 0) {
+    throw badInput(
+      `No prices found — expected widths in row ${headerRow + 1} and heights in column ${cellRef(0, headerCol).replace(/\d+$/, "")}` +
+        (widthsInRow ? "" : " (swapped: heights_in_row)")
+    );
+  }
+  return {
+    prices,
+    widths_mm: [...widths].sort((a, b) => a - b),
+    heights_mm: [...heights].sort((a, b) => a - b),
+    skipped_cells: skipped,
+    skipped_cell_count: skippedCount,
+    decimal_separator: decimal,
+  };
+}
+
+export function parsePriceGridFile(file: Buffer, opts: PriceGridOptions = {}): ParsedPriceGrid {
+  let rows: SpreadsheetRows;
+  try {
+    rows = parseSpreadsheet(file, { sheet: opts.sheet });
+  } catch (e) {
+    throw badInput(`Cannot read the price list: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  return priceGridFromRows(rows, opts);
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+/** Every requested key lists all requested values in the variant's selector. */
+function selectorCovers(variant: Record<string, string[]>, wanted: Record<string, string | string[]>): boolean {
+  return Object.entries(wanted).every(([key, values]) => {
+    const have = variant[key] ?? [];
+    return (Array.isArray(values) ? values : [values]).every((v) => have.includes(v));
+  });
+}
+
+function gridDiff(before: Record<string, number>, after: Record<string, number>) {
+  let added = 0;
+  let removed = 0;
+  let changed = 0;
+  for (const [key, price] of Object.entries(after)) {
+    if (!(key in before)) added++;
+    else if (before[key] !== price) changed++;
+  }
+  for (const key of Object.keys(before)) if (!(key in after)) removed++;
+  return { keys_added: added, keys_removed: removed, keys_changed: changed };
+}
+
+/**
+ * Parse the grid, write one pricing_variant update entry per matched variant (single
+ * transaction) and run the product's impact-diff under the resulting change-set.
+ */
+export async function importPriceList(
+  mainPool: Pool,
+  pricingPool: Pool,
+  changeSetId: string,
+  file: Buffer,
+  opts: PriceListImportOptions
+): Promise<PriceListImportResult> {
+  if (!opts.product_pricing_id) throw badInput("product_pricing_id is required");
+  if (opts.selector === undefined && !opts.variant_ids?.length) {
+    throw badInput("selector or variant_ids is required");
+  }
+  const mode = opts.mode ?? "replace";
+  if (mode !== "replace" && mode !== "merge") throw badInput("mode must be replace or merge");
+
+  const cs = await getChangeSetWithEntries(pricingPool, changeSetId);
+  if (!cs) {
+    throw Object.assign(new Error(`Change-set not found: ${changeSetId}`), {
+      code: "NOT_FOUND",
+    });
+  }
+  if (cs.status !== "draft") {
+    throw Object.assign(new Error(`Cannot add entries to a ${cs.status} change-set`), {
+      code: "BAD_STATUS",
+    });
+  }
+
+  const grid = parsePriceGridFile(file, opts);
+  const warnings: string[] = [];
+
+  const product = await pricingPool.query(
+    `SELECT id, rounding_policy FROM product_pricing WHERE id = $1`,
+    [opts.product_pricing_id]
+  );
+  if (product.rows.length === 0) {
+    throw Object.assign(new Error(`Product pricing not found: ${opts.product_pricing_id}`), {
+      code: "NOT_FOUND",
+    });
+  }
+  if ((product.rows[0].rounding_policy as { mode?: string } | null)?.mode === "per_m2") {
+    warnings.push("Product is priced per m² (rounding_policy per_m2) — the imported grid is not used until the policy changes.");
+  }
+
+  const variants = await getPricingVariantsByProductId(pricingPool, opts.product_pricing_id);
+  if (opts.variant_ids?.length) {
+    const own = new Set(variants.map((v) => v.id));
+    const foreign = opts.variant_ids.filter((id) => !own.has(id));
+    if (foreign.length > 0) {
+      throw badInput(`Variants not found on product ${opts.product_pricing_id}: ${foreign.join(", ")}`);
+    }
+  }
+  const candidates = variants.filter(
+    (v) =>
+      (!opts.variant_ids?.length || opts.variant_ids.includes(v.id)) &&
+      (opts.selector === undefined || selectorCovers(v.selector, opts.selector))
+  );
+  const matched = candidates.filter((v) => !v.surcharge_only);
+  if (candidates.length > matched.length) {
+    warnings.push(`${candidates.length - matched.length} surcharge-only variants skipped (no dimension grid).`);
+  }
+  if (matched.length === 0) {
+    throw Object.assign(new Error("No pricing variants with a dimension grid match the selector"), {
+      code: "NO_MATCHES",
+    });
+  }
+
+  const existing = new Map(
+    cs.entries
+      .filter((e) => e.entity_kind === "pricing_variant" && e.entity_id && matched.some((v) => v.id === e.entity_id))
+      .map((e) => [e.entity_id as string, e])
+  );
+  for (const entry of existing.values()) {
+    if (entry.action === "delete") {
+      throw badInput(`Variant ${entry.entity_id} is deleted by this change-set — remove that entry first`);
+    }
+  }
+
+  const client = await pricingPool.connect();
+  const report: PriceListImportVariant[] = [];
+  try {
+    await client.query("BEGIN");
+    // Publish locks the same row: re-check the status under the lock so entries are never
+    // added to a change-set that is being (or has just been) published.
+    const locked = await client.query(`SELECT status FROM change_set WHERE id = $1 FOR UPDATE`, [changeSetId]);
+    const lockedStatus: string | undefined = locked.rows[0]?.status;
+    if (lockedStatus !== "draft") {
+      throw Object.assign(
+        new Error(
+          lockedStatus ? `Cannot add entries to a ${lockedStatus} change-set` : `Change-set not found: ${changeSetId}`
+        ),
+        { code: lockedStatus ? "BAD_STATUS" : "NOT_FOUND" }
+      );
+    }
+    const live = await fetchLiveRows(client, "pricing_variant", matched.map((v) => v.id), { forUpdate: true });
+    for (const variant of matched) {
+      const liveRow = live.get(variant.id);
+      if (!liveRow) continue;
+      const entry = existing.get(variant.id);
+      // Drafts capture the full post-change state: start from the pending draft if any.
+      const current = { ...liveRow.fields, ...(entry?.draft_payload ?? {}) };
+      const currentPricing = (current.dimension_pricing as DimensionPricing | null) ?? {};
+      const currentPrices = currentPricing.prices ?? {};
+      const prices = mode === "merge" ? { ...currentPrices, ...grid.prices } : grid.prices;
+      const draft = {
+        ...current,
+        product_pricing_id: opts.product_pricing_id,
+        dimension_pricing: { ...currentPricing, prices },
+      };
+
+      let entryId: string;
+      if (entry) {
+        await client.query(
+          `UPDATE change_set_entry
+           SET draft_payload = $2::jsonb,
+               updated_at = timezone('utc', now())
+           WHERE id = $1`,
+          [entry.id, JSON.stringify(draft)]
+        );
+        entryId = entry.id;
+      } else {
+        const ins = await client.query(
+          `INSERT INTO change_set_entry
+             (change_set_id, entity_kind, entity_id, action, draft_payload, base_updated_at, base_snapshot)
+           VALUES ($1, 'pricing_variant', $2, 'update', $3::jsonb, $4, $5::jsonb)
+           RETURNING id`,
+          [changeSetId, variant.id, JSON.stringify(draft), liveRow.updated_at, JSON.stringify(liveRow.fields)]
+        );
+        entryId = String(ins.rows[0].id);
+      }
+      report.push({
+        variant_id: variant.id,
+        name: (liveRow.fields.name as string | null) ?? null,
+        entry_id: entryId,
+        entry_change: entry ? "updated" : "added",
+        ...gridDiff(currentPrices, prices),
+      });
+    }
+    await client.query("COMMIT");
+  } catch (e) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw e;
+  } finally {
+    client.release();
+  }
+
+  const after = await getChangeSetWithEntries(pricingPool, changeSetId);
+  const allEntries = after?.entries ?? [];
+  const importedIds = new Set(report.map((r) => r.entry_id));
+
+  let impact: ImpactDiffResponse | null = null;
+  let impactError: string | undefined;
+  try {
+    impact = await runImpactDiff(mainPool, pricingPool, {
+      product_pricing_id: opts.product_pricing_id,
+      overrides: entriesToOverridesForProduct(allEntries, opts.product_pricing_id),
+      filters: opts.filters,
+    });
+  } catch (e) {
+    impactError = e instanceof Error ? e.message : "impact-diff failed";
+  }
+
+  const { prices, ...gridSummary } = grid;
+  return {
+    grid: { ...gridSummary, price_count: Object.keys(prices).length },
+    variants: report,
+    entries: allEntries.filter((e) => importedIds.has(e.id)),
+    impact,
+    impact_error: impactError,
+    warnings,
+  };
+}
@@ -12,6 +12,12 @@
  */
 
 import type { Pool } from "pg";
+import {
+  parseDimensionRoundingPolicy,
+  type DimensionPricing,
+  type DimensionRoundingPolicy,
+  type SizeLimitVariant,
+} from "@ovt/pricing-engine";
 import {
   resolveUnitPriceFromVariants,
   type ResolvePriceDetailedResult,
@@ -35,6 +41,8 @@ export interface CalculatePriceOverrides {
     payload?: Record<string, unknown>;
     price_affecting_enums?: string[];
     surcharges?: Record<string, unknown> | null;
+    /** null = back to the default policy; omit to keep the live one. */
+    rounding_policy?: DimensionRoundingPolicy | null;
   };
   /**
    * Variant overrides. Variants with an `id` matching an existing variant
@@ -44,12 +52,24 @@ export interface CalculatePriceOverrides {
   pricing_variants?: Array<{
     id?: string;
     selector: Record<string, string[]>;
-    dimension_pricing?: { prices?: Record<string, number> } | null;
+    dimension_pricing?: DimensionPricing | null;
     surcharge_only?: boolean;
     _delete?: boolean;
   }>;
+  /**
+   * size_limit_variant overrides, same rules as `pricing_variants`. On update only the
+   * given limits replace the existing row's (selector included). Prices are not
+   * affected — breakage-check uses them for the dimension range checks.
+   */
+  size_limit_variants?: SizeLimitVariantOverride[];
 }
 
+/** One size_limit_variant override (`mezni_*` = manufacturing, `zarucni_*` = warranty). */
+export type SizeLimitVariantOverride = Partial<Omit<SizeLimitVariant, "id">> & {
+  id?: string;
+  _delete?: boolean;
+};
+
 export interface CalculatePriceRequest {
   product_pricing_id: string;
   dimensions: { width_mm: number; height_mm: number };
@@ -83,7 +103,7 @@ export interface CalculatePriceResponse {
   base_unit_price: number;
   /** Unit × ks. */
   base_line_price: number;
-  /** Audit info for dimension snap-to-grid; null for surcharge-only variants. */
+  /** Audit info for dimension rounding (incl. the policy used); null for surcharge-only variants. */
   dimensions: ResolvePriceDetailedResult["dimensions"];
   surcharges: CalculatePriceLineSurcharge[];
   surcharge_total: number;
@@ -104,6 +124,7 @@ interface ProductPricingForPreview {
   payload: Record<string, unknown>;
   price_affecting_enums: string[];
   surcharges: Record<string, unknown> | null;
+  rounding_policy: DimensionRoundingPolicy | null;
 }
 
 async function fetchProductPricingForPreview(
@@ -111,7 +132,7 @@ async function fetchProductPricingForPreview(
   id: string
 ): Promise<ProductPricingForPreview | null> {
   const result = await pool.query(
-    `SELECT id, payload, price_affecting_enums, surcharges
+    `SELECT id, payload, price_affecting_enums, surcharges, rounding_policy
      FROM product_pricing
      WHERE id = $1`,
     [id]
@@ -160,6 +181,7 @@ async function fetchProductPricingForPreview(
     payload,
     price_affecting_enums: priceAffectingEnums,
     surcharges,
+    rounding_policy: parseDimensionRoundingPolicy(row.rounding_policy),
   };
 }
 
@@ -183,6 +205,8 @@ function applyOverrides(
       price_affecting_enums:
         o.price_affecting_enums ?? product.price_affecting_enums,
       surcharges: o.surcharges !== undefined ? o.surcharges : product.surcharges,
+      rounding_policy:
+        o.rounding_policy !== undefined ? o.rounding_policy : product.rounding_policy,
     };
   }
 
@@ -291,6 +315,7 @@ export async function calculatePricePreview(
       width: widthStr,
       height: heightStr,
       productPricingIdForErrors: req.product_pricing_id,
+      roundingPolicy: product.rounding_policy,
     });
   } catch (e) {
     return {
@@ -312,6 +337,7 @@ export async function calculatePricePreview(
 
   // ------- surcharges --------
   const warnings: string[] = [];
+  if (resolved.selector_warning) warnings.push(resolved.selector_warning);
   const surchargeItems: CalculatePriceLineSurcharge[] = [];
   let surchargeTotal = 0;
   const surchargeConfigMap = product.surcharges;
@@ -0,0 +1,557 @@
+/**
+ * Signed-contract flow: inSign e-signature for ADMF forms.
+ *
+ *   - start: the ADMF PDF (admf-pdf.service, with signature anchors) is sent to inSign
+ *     with two required signatures — customer and seller. INAPP returns a URL the rep
+ *     opens on the tablet; EXTERN has inSign e-mail/SMS the signing links.
+ *   - sync: status is always pulled from inSign (status GET + webhook converge here).
+ *     On completion the signed PDF and the audit trail are stored as form attachments
+ *     (retried on later syncs until both are stored) and the order is marked SIGNED.
+ *   - ERP export requires a COMPLETED session for the form's current revision, unless
+ *     the order carries an explicit override (reason + who + when).
+ */
+
+import { Pool } from "pg";
+import { requireFormAccess } from "./order-access.service";
+import * as formAttachmentsService from "./form-attachments.service";
+import * as insignApi from "./insign-api.client";
+import { ADMF_SIGNATURE_MARKERS, generateAdmfPdfBuffer } from "./admf-pdf.service";
+import * as signingQueries from "../queries/signing-sessions.queries";
+import * as formsQueries from "../queries/forms.queries";
+import * as ordersQueries from "../queries/orders.queries";
+import type { Actor, OrderAccessLevel } from "../types/access.types";
+import type { FormRecord } from "../types/forms.types";
+import type { OrderRecord } from "../types/orders.types";
+import type {
+  FormSigningStatus,
+  SigningDeliveryMode,
+  SigningErrorCode,
+  SigningSessionRecord,
+  SigningSessionSummary,
+  StartSigningRequest,
+} from "../types/contract-signing.types";
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from "../utils/errors";
+
+const OVERRIDE_REASON_MAX_LENGTH = 2000;
+
+interface LoadedAdmf {
+  form: FormRecord;
+  order: OrderRecord;
+  ownerId: string;
+}
+
+/**
+ * Form must be an ADMF the user can access at `level` and linked to an order (contract
+ * state lives on the order).
+ */
+async function loadAdmfWithOrder(
+  pool: Pool,
+  formId: number,
+  actor: Actor,
+  level: OrderAccessLevel,
+  action: string
+): Promise<LoadedAdmf> {
+  const { ownerId } = await requireFormAccess(pool, actor, formId, level, action);
+  const form = await formsQueries.getFormById(pool, formId, ownerId);
+  if (!form) throw new NotFoundError("Form not found");
+  if (form.form_type !== "admf") {
+    throw new BadRequestError("Podepsat lze pouze ADMF formulář.", "NOT_ADMF_FORM");
+  }
+  if (form.order_id == null) {
+    throw new BadRequestError(
+      "ADMF není přiřazena k zakázce.",
+      "FORM_NOT_LINKED_TO_ORDER" satisfies SigningErrorCode
+    );
+  }
+  const order = await ordersQueries.getOrderById(pool, form.order_id, ownerId);
+  if (!order) throw new NotFoundError("Order not found");
+  return { form, order, ownerId };
+}
+
+function parseDeliveryMode(raw: unknown): SigningDeliveryMode {
+  const mode = typeof raw === "string" ? raw.trim().toUpperCase() : "";
+  if (mode === "INAPP" || mode === "EXTERN") return mode;
+  throw new BadRequestError(
+    "deliveryMode musí být INAPP nebo EXTERN.",
+    "INVALID_DELIVERY_MODE" satisfies SigningErrorCode
+  );
+}
+
+function trimmedOrNull(value: unknown): string | null {
+  return typeof value === "string" && value.trim() !== "" ? value.trim() : null;
+}
+
+function customerDisplayName(formJson: Record<string, unknown>, order: OrderRecord): string {
+  const company = formJson.typOsoby === "pravnicka" ? trimmedOrNull(formJson.nazevFirmy) : null;
+  return company ?? trimmedOrNull(formJson.jmenoPrijmeni) ?? order.name ?? `zakázka ${order.id}`;
+}
+
+function toSummary(session: SigningSessionRecord): SigningSessionSummary {
+  const externUsers = (session.extern_links as { externUsers?: unknown } | null)?.externUsers;
+  return {
+    id: session.id,
+    form_revision: session.form_revision,
+    delivery_mode: session.delivery_mode,
+    status: session.status,
+    process_step: session.process_step,
+    access_url: session.status === "PENDING" ? session.access_url : null,
+    extern_links: Array.isArray(externUsers)
+      ? externUsers.map((u: { externUser?: string; externAccessLink?: string }) => ({
+          recipient: u.externUser ?? "",
+          link: u.externAccessLink ?? null,
+        }))
+      : [],
+    customer_email: session.customer_email,
+    signed_document_key: session.signed_document_key,
+    audit_key: session.audit_key,
+    created_at: session.created_at.toISOString(),
+    completed_at: session.completed_at?.toISOString() ?? null,
+    rejected_at: session.rejected_at?.toISOString() ?? null,
+  };
+}
+
+// ── ERP export gate ──────────────────────────────────────────────
+
+/**
+ * Why a (non-test) ERP export of this ADMF is not allowed yet, or null when it is.
+ */
+export async function getErpExportBlock(
+  pool: Pool,
+  form: FormRecord,
+  order: OrderRecord | null
+): Promise<{ code: SigningErrorCode; message: string } | null> {
+  if (order?.erp_export_override_at) return null;
+  const signed = await signingQueries.getLatestSigningSessionForForm(pool, form.id, "COMPLETED");
+  if (!signed) {
+    return {
+      code: "CONTRACT_NOT_SIGNED",
+      message: "Smlouva (ADMF) není podepsaná. Export do ERP je možný až po podpisu, nebo s povolenou výjimkou.",
+    };
+  }
+  if (signed.form_revision !== form.revision) {
+    return {
+      code: "CONTRACT_CHANGED_AFTER_SIGNING",
+      message:
+        `ADMF byla po podpisu změněna (podepsána verze ${signed.form_revision}, aktuální ${form.revision}). ` +
+        "Nechte smlouvu podepsat znovu, nebo povolte výjimku.",
+    };
+  }
+  return null;
+}
+
+export async function assertErpExportAllowed(
+  pool: Pool,
+  form: FormRecord,
+  order: OrderRecord | null
+): Promise<void> {
+  const block = await getErpExportBlock(pool, form, order);
+  if (block) throw new BadRequestError(block.message, block.code);
+}
+
+// ── Sync ─────────────────────────────────────────────────────────
+
+/**
+ * Download the signed PDF + audit trail into the form's attachments. Failures are kept
+ * in last_error_message; the next sync of the COMPLETED session tries again.
+ */
+async function storeSignedArtifacts(
+  pool: Pool,
+  session: SigningSessionRecord
+): Promise<SigningSessionRecord> {
+  try {
+    let signedDocumentKey = session.signed_document_key;
+    if (!signedDocumentKey) {
+      const doc = await insignApi.downloadDocuments(session.insign_session_id, { auditreport: false });
+      const ext = doc.contentType.includes("zip") ? "zip" : "pdf";
+      const item = await formAttachmentsService.putSystemFormAttachment(
+        session.form_id,
+        `smlouva-podepsana-${session.id}.${ext}`,
+        doc.buffer,
+        doc.contentType
+      );
+      signedDocumentKey = item.key;
+    }
+    let auditKey = session.audit_key;
+    if (!auditKey) {
+      const audit = await insignApi.getAuditJson(session.insign_session_id);
+      const item = await formAttachmentsService.putSystemFormAttachment(
+        session.form_id,
+        `smlouva-audit-${session.id}.json`,
+        Buffer.from(JSON.stringify(audit, null, 2), "utf-8"),
+        "application/json"
+      );
+      auditKey = item.key;
+    }
+    const updated = await signingQueries.updateSigningSession(pool, session.id, {
+      signed_document_key: signedDocumentKey,
+      audit_key: auditKey,
+      last_error_message: null,
+    });
+    return updated ?? session;
+  } catch (error: any) {
+    console.error(`[signing] storing signed documents of session ${session.id} failed:`, error);
+    const updated = await signingQueries.updateSigningSession(pool, session.id, {
+      last_error_message: `Uložení podepsaných dokumentů selhalo: ${error?.message ?? "Unknown error"}`,
+    });
+    return updated ?? session;
+  }
+}
+
+/** Pull the session state from inSign and reconcile our row (+ the order). */
+async function syncSigningSession(
+  pool: Pool,
+  session: SigningSessionRecord
+): Promise<SigningSessionRecord> {
+  if (session.status === "REJECTED") return session;
+  if (session.status === "COMPLETED") {
+    return session.signed_document_key && session.audit_key ? session : storeSignedArtifacts(pool, session);
+  }
+
+  const [check, status] = await Promise.all([
+    insignApi.checkStatus(session.insign_session_id),
+    insignApi.getStatus(session.insign_session_id),
+  ]);
+  const completed = !!status.sucessfullyCompleted || !!check.completed;
+  const declined = !completed && !!status.gdprDeclined;
+  const now = new Date();
+
+  const updated = await signingQueries.updateSigningSession(
+    pool,
+    session.id,
+    {
+      status: completed ? "COMPLETED" : declined ? "REJECTED" : undefined,
+      process_step: check.processStep ?? null,
+      gdpr_declined: !!status.gdprDeclined,
+      last_status: { check, status } as unknown as Record<string, unknown>,
+      completed_at: completed ? now : undefined,
+      rejected_at: declined ? now : undefined,
+    },
+    "PENDING"
+  );
+  if (!updated) {
+    // Another sync got there first — return its result.
+    return (await signingQueries.getSigningSessionByInsignId(pool, session.insign_session_id)) ?? session;
+  }
+
+  if (updated.order_id != null && updated.status !== "PENDING") {
+    await ordersQueries.updateOrderContractStatus(
+      pool,
+      updated.order_id,
+      updated.status === "COMPLETED" ? "SIGNED" : "REJECTED",
+      updated.status === "COMPLETED" ? now : null
+    );
+  }
+  return updated.status === "COMPLETED" ? storeSignedArtifacts(pool, updated) : updated;
+}
+
+// ── Public API ───────────────────────────────────────────────────
+
+/**
+ * Start signing the ADMF. A session still pending for the form is cancelled first
+ * (e.g. the ADMF was edited and has to be signed again).
+ */
+export async function startSigningSession(params: {
+  pool: Pool;
+  formId: number;
+  actor: Actor;
+  body: StartSigningRequest;
+}): Promise<SigningSessionSummary> {
+  const { pool, formId, actor, body } = params;
+  const deliveryMode = parseDeliveryMode(body.deliveryMode);
+  const { form, order } = await loadAdmfWithOrder(pool, formId, actor, "WRITE", "signing.start");
+  const cfg = insignApi.getInsignConfig();
+
+  const formJson = (form.form_json ?? {}) as Record<string, unknown>;
+  const customerEmail =
+    trimmedOrNull(body.customerEmail) ?? trimmedOrNull(formJson.email) ?? trimmedOrNull(order.email);
+  const customerPhone =
+    trimmedOrNull(body.customerPhone) ?? trimmedOrNull(formJson.telefon) ?? trimmedOrNull(order.phone);
+  if (deliveryMode === "EXTERN" && !customerEmail) {
+    throw new BadRequestError(
+      "Pro odeslání odkazu je potřeba e-mail zákazníka.",
+      "MISSING_CUSTOMER_EMAIL" satisfies SigningErrorCode
+    );
+  }
+
+  const latest = await signingQueries.getLatestSigningSessionForForm(pool, formId);
+  if (latest?.status === "COMPLETED" && latest.form_revision === form.revision) {
+    throw new ConflictError(
+      "Tato verze ADMF je už podepsaná.",
+      "ALREADY_SIGNED" satisfies SigningErrorCode
+    );
+  }
+  if (latest?.status === "PENDING") {
+    await cancelSession(pool, latest);
+  }
+
+  const pdf = await generateAdmfPdfBuffer(formJson, { signatureMarkers: true });
+  const displayname = `ADMF — ${customerDisplayName(formJson, order)}`;
+
+  const created = await insignApi.configureSession({
+    displayname,
+    foruser: cfg.foruser,
+    callbackURL: cfg.browserCallbackBaseUrl
+      ? `${cfg.browserCallbackBaseUrl}/orders/${order.id}/forms/${formId}`
+      : undefined,
+    serverSidecallbackURL: cfg.webhookBaseUrl ? `${cfg.webhookBaseUrl}/api/signing/webhook` : undefined,
+    serversideCallbackMethod: cfg.webhookBaseUrl ? "POST" : undefined,
+    serversideCallbackContenttype: cfg.webhookBaseUrl ? "json" : undefined,
+    serversideCallbackUsername: cfg.webhookUsername ?? undefined,
+    serversideCallbackPassword: cfg.webhookPassword ?? undefined,
+    documents: [
+      {
+        id: `admf-${formId}-r${form.revision}`,
+        displayname,
+        file: pdf.toString("base64"),
+        signatures: [
+          {
+            id: "sig-customer",
+            role: "customer",
+            displayname: "Podpis kupujícího",
+            required: true,
+            signatureLevel: "SES",
+            textsearch: ADMF_SIGNATURE_MARKERS.customer,
+            posindex: 1,
+          },
+          {
+            id: "sig-seller",
+            role: "seller",
+            displayname: "Podpis zástupce prodávajícího",
+            required: true,
+            signatureLevel: "SES",
+            textsearch: ADMF_SIGNATURE_MARKERS.seller,
+            posindex: 2,
+          },
+        ],
+      },
+    ],
+  });
+  if (!created.sessionid) {
+    throw new BadRequestError(
+      `inSign nevrátil ID relace: ${created.message ?? "neznámá chyba"}`,
+      "INSIGN_API_ERROR" satisfies SigningErrorCode
+    );
+  }
+
+  let session = await signingQueries.createSigningSession(pool, {
+    form_id: formId,
+    order_id: order.id,
+    user_id: actor.userId,
+    form_revision: form.revision,
+    insign_session_id: created.sessionid,
+    delivery_mode: deliveryMode,
+    access_url: created.accessURL ?? null,
+    customer_email: customerEmail,
+    customer_phone: customerPhone,
+  });
+  await ordersQueries.updateOrderContractStatus(pool, order.id, "PENDING", null);
+
+  if (deliveryMode === "EXTERN") {
+    try {
+      const extern = await insignApi.startExternMultiuser({
+        sessionid: created.sessionid,
+        inOrder: true,
+        externUsers: [
+          {
+            recipient: customerEmail!,
+            recipientsms: customerPhone ?? undefined,
+            roles: ["customer"],
+            sendEmails: true,
+            sendSMS: !!customerPhone,
+            mailLanguage: "cs",
+            userType: "signatory",
+            orderNumber: 1,
+          },
+          {
+            recipient: actor.userId,
+            roles: ["seller"],
+            sendEmails: true,
+            sendSMS: false,
+            mailLanguage: "cs",
+            userType: "signatory",
+            orderNumber: 2,
+          },
+        ],
+      });
+      session =
+        (await signingQueries.updateSigningSession(pool, session.id, {
+          extern_links: extern as unknown as Record<string, unknown>,
+        })) ?? session;
+    } catch (error: any) {
+      await signingQueries.updateSigningSession(pool, session.id, {
+        last_error_message: `Odeslání odkazů selhalo: ${error?.message ?? "Unknown error"}`,
+      });
+      throw error;
+    }
+  }
+
+  return toSummary(session);
+}
+
+/** Abort on the inSign side (best effort) and mark our row REJECTED. */
+async function cancelSession(pool: Pool, session: SigningSessionRecord): Promise<SigningSessionRecord> {
+  let errorMessage: string | null = null;
+  try {
+    await insignApi.rejectSession(session.insign_session_id);
+  } catch (error: any) {
+    errorMessage = `Zrušení v inSign selhalo: ${error?.message ?? "Unknown error"}`;
+  }
+  const updated = await signingQueries.updateSigningSession(
+    pool,
+    session.id,
+    { status: "REJECTED", rejected_at: new Date(), last_error_message: errorMessage },
+    "PENDING"
+  );
+  if (updated?.order_id != null) {
+    await ordersQueries.updateOrderContractStatus(pool, updated.order_id, "REJECTED", null);
+  }
+  return updated ?? session;
+}
+
+export async function cancelSigningSession(
+  pool: Pool,
+  formId: number,
+  actor: Actor
+): Promise<SigningSessionSummary> {
+  await loadAdmfWithOrder(pool, formId, actor, "WRITE", "signing.cancel");
+  const latest = await signingQueries.getLatestSigningSessionForForm(pool, formId);
+  if (!latest || latest.status !== "PENDING") {
+    throw new BadRequestError(
+      "Žádný probíhající podpis ke zrušení.",
+      "NO_PENDING_SESSION" satisfies SigningErrorCode
+    );
+  }
+  return toSummary(await cancelSession(pool, latest));
+}
+
+/**
+ * Current signing state of the ADMF. A pending session is synced with inSign first;
+ * when inSign is unreachable the stored state is returned with `sync_error`.
+ */
+export async function getFormSigningStatus(
+  pool: Pool,
+  formId: number,
+  actor: Actor
+): Promise<FormSigningStatus> {
+  const { form, order, ownerId } = await loadAdmfWithOrder(pool, formId, actor, "READ", "signing.view");
+  let session = await signingQueries.getLatestSigningSessionForForm(pool, formId);
+  let syncError: string | undefined;
+
+  const needsSync =
+    session?.status === "PENDING" ||
+    (session?.status === "COMPLETED" && (!session.signed_document_key || !session.audit_key));
+  if (session && needsSync) {
+    try {
+      session = await syncSigningSession(pool, session);
+    } catch (error: any) {
+      syncError = error?.message ?? "Synchronizace s inSign selhala";
+    }
+  }
+
+  const freshOrder = (await ordersQueries.getOrderById(pool, order.id, ownerId)) ?? order;
+  const block = await getErpExportBlock(pool, form, freshOrder);
+
+  return {
+    session: session ? toSummary(session) : null,
+    order: {
+      id: freshOrder.id,
+      contract_status: freshOrder.contract_status,
+      contract_signed_at: freshOrder.contract_signed_at?.toISOString() ?? null,
+      erp_export_override: freshOrder.erp_export_override_reason
+        ? {
+            reason: freshOrder.erp_export_override_reason,
+            by: freshOrder.erp_export_override_by,
+            at: freshOrder.erp_export_override_at?.toISOString() ?? null,
+          }
+        : null,
+    },
+    form_revision: form.revision,
+    erp_export_allowed: block == null,
+    erp_export_block_reason: block?.message ?? null,
+    erp_export_block_code: block?.code ?? null,
+    can_override_erp_gate: canOverrideErpGate(actor),
+    ...(syncError !== undefined && { sync_error: syncError }),
+  };
+}
+
+/**
+ * The override bypasses the signed-contract gate, so it is an office decision: the rep
+ * who owns the order (or their manager) cannot waive it for themselves.
+ */
+function canOverrideErpGate(actor: Actor): boolean {
+  return actor.role === "OFFICE" || actor.role === "ADMIN";
+}
+
+/**
+ * Allow (reason) or stop allowing (null) ERP export of the order without a signed contract.
+ * OFFICE and ADMIN only; who set it and when is kept on the order.
+ * @throws ForbiddenError for other roles, including the order owner
+ */
+export async function setErpExportOverride(params: {
+  pool: Pool;
+  formId: number;
+  actor: Actor;
+  rawReason: unknown;
+}): Promise<FormSigningStatus> {
+  const { pool, formId, actor, rawReason } = params;
+  if (!canOverrideErpGate(actor)) {
+    throw new ForbiddenError("Export bez podpisu může povolit jen kancelář nebo administrátor.");
+  }
+  const { order, ownerId } = await loadAdmfWithOrder(pool, formId, actor, "WRITE", "signing.override");
+
+  let reason: string | null = null;
+  if (rawReason !== null) {
+    reason = trimmedOrNull(rawReason);
+    if (!reason || reason.length > OVERRIDE_REASON_MAX_LENGTH) {
+      throw new BadRequestError(
+        `Důvod výjimky je povinný (max ${OVERRIDE_REASON_MAX_LENGTH} znaků).`,
+        "INVALID_REASON" satisfies SigningErrorCode
+      );
+    }
+  }
+  await ordersQueries.setOrderErpExportOverride(pool, order.id, ownerId, reason, actor.userId);
+  return getFormSigningStatus(pool, formId, actor);
+}
+
+/**
+ * inSign server-side callback. The payload only tells us which session changed; the
+ * state itself is always pulled from the inSign API, so a forged callback can at most
+ * trigger a sync.
+ */
+export async function handleInsignWebhook(
+  pool: Pool,
+  params: { method: string; query: Record<string, unknown>; body: unknown }
+): Promise<void> {
+  const bodyObj =
+    params.body && typeof params.body === "object" ? (params.body as Record<string, unknown>) : {};
+  const pick = (...keys: string[]): string | null => {
+    for (const key of keys) {
+      const v = params.query[key] ?? bodyObj[key];
+      if (typeof v === "string" && v.trim() !== "") return v.trim();
+    }
+    return null;
+  };
+  const insignSessionId = pick("sessionid", "sessionId");
+  const eventId = pick("eventid", "eventId");
+
+  const session = insignSessionId
+    ? await signingQueries.getSigningSessionByInsignId(pool, insignSessionId)
+    : null;
+
+  await signingQueries.recordSigningWebhook(pool, {
+    signing_session_id: session?.id ?? null,
+    insign_session_id: insignSessionId,
+    event_id: eventId,
+    http_method: params.method,
+    query_params: params.query,
+    body: params.body,
+  });
+
+  if (session) {
+    try {
+      await syncSigningSession(pool, session);
+    } catch (error) {
+      console.error(`[signing] webhook sync of session ${session.id} failed:`, error);
+    }
+  }
+}
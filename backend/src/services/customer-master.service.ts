@@ -0,0 +1,229 @@
+/**
+ * Local customer master records: matching / creating the customer behind an order,
+ * the customer page (orders + ADMFs) and merging duplicates.
+ *
+ * Deduplication keys: Raynet id, ERP customer id, IČO, e-mail, phone (last 9 digits).
+ * A candidate whose Raynet id, ERP customer id or IČO differs from the input is a different
+ * customer even when the phone matches — it stays separate and shows up as a merge candidate.
+ */
+
+import { Pool, PoolClient } from "pg";
+import * as customersQueries from "../queries/customers.queries";
+import * as ordersQueries from "../queries/orders.queries";
+import { computeAdmfCelkemSDph } from "../utils/admf-order-totals";
+import { Actor } from "../types/access.types";
+import {
+  CustomerDetail,
+  CustomerDuplicateGroup,
+  CustomerInput,
+  CustomerMatchKeys,
+  CustomerRecord,
+  CustomerValidateResult,
+  MergeCustomersRequest,
+  MergeCustomersResult,
+} from "../types/customers.types";
+import { BadRequestError, ForbiddenError, NotFoundError } from "../utils/errors";
+
+/** Orders shown on the customer page. */
+const CUSTOMER_ORDERS_LIMIT = 100;
+const DEFAULT_DUPLICATES_LIMIT = 50;
+const MAX_DUPLICATES_LIMIT = 500;
+/** Merged records point at their target; longer chains mean broken data. */
+const MAX_MERGE_HOPS = 10;
+
+// ── Keys & matching ──────────────────────────────────────────────
+
+/**
+ * Normalized deduplication keys. Phone: digits only, last 9 (CZ number without +420),
+ * at least 6 digits — same rule as validateSelectedPair. E-mail: trimmed, lower-case.
+ * IČO: digits, left-padded to 8.
+ */
+export function customerMatchKeys(input: Pick<CustomerInput, "phone" | "email" | "ico">): CustomerMatchKeys {
+  const phoneDigits = (input.phone ?? "").replace(/\D/g, "");
+  const email = (input.email ?? "").trim().toLowerCase();
+  const icoDigits = (input.ico ?? "").replace(/\D/g, "");
+  return {
+    phone_key: phoneDigits.length >= 6 ? phoneDigits.slice(-9) : null,
+    email_key: email.includes("@") ? email : null,
+    ico_key: icoDigits.length > 0 && icoDigits.length <= 8 ? icoDigits.padStart(8, "0") : null,
+  };
+}
+
+function icoKeyOf(customer: CustomerRecord): string | null {
+  return customerMatchKeys({ ico: customer.ico }).ico_key;
+}
+
+/** False when a strong identifier on both sides says these are different customers. */
+function isSameCustomer(candidate: CustomerRecord, input: CustomerInput, keys: CustomerMatchKeys): boolean {
+  if (candidate.raynet_id != null && input.raynet_id != null && candidate.raynet_id !== input.raynet_id) {
+    return false;
+  }
+  if (
+    candidate.erp_customer_id != null &&
+    input.erp_customer_id != null &&
+    candidate.erp_customer_id !== input.erp_customer_id
+  ) {
+    return false;
+  }
+  const candidateIco = icoKeyOf(candidate);
+  if (candidateIco != null && keys.ico_key != null && candidateIco !== keys.ico_key) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Find the customer behind the given data (or create one) and fill fields it does not
+ * have yet. Returns null when the data carries no id and no usable key.
+ */
+export async function resolveCustomer(db: Pool | PoolClient, input: CustomerInput): Promise<CustomerRecord | null> {
+  const keys = customerMatchKeys(input);
+  const ids = { raynet_id: input.raynet_id ?? null, erp_customer_id: input.erp_customer_id ?? null };
+  if (ids.raynet_id == null && ids.erp_customer_id == null && !keys.phone_key && !keys.email_key && !keys.ico_key) {
+    return null;
+  }
+  const candidates = await customersQueries.findCustomerMatches(db, ids, keys);
+  const match = candidates.find((c) => isSameCustomer(c, input, keys));
+  if (match) {
+    return customersQueries.fillCustomerBlanks(db, match.id, input, keys);
+  }
+  return customersQueries.createCustomer(db, input, keys);
+}
+
+/**
+ * Customer by id, following merges to the record that is still live.
+ * @throws NotFoundError when the customer does not exist
+ */
+export async function getLiveCustomer(db: Pool | PoolClient, id: number): Promise<CustomerRecord> {
+  let customer = await customersQueries.getCustomerById(db, id);
+  for (let hops = 0; customer?.merged_into_id != null && hops < MAX_MERGE_HOPS; hops++) {
+    customer = await customersQueries.getCustomerById(db, customer.merged_into_id);
+  }
+  if (!customer || customer.merged_into_id != null) {
+    throw new NotFoundError("Customer not found");
+  }
+  return customer;
+}
+
+/**
+ * Link a validated Raynet + ERP pair to its customer record and store the pair's conflicts
+ * on it (an empty object clears earlier ones). Returns the result with prefill.customer_id.
+ */
+export async function recordValidatedPair(
+  pool: Pool,
+  result: CustomerValidateResult
+): Promise<CustomerValidateResult> {
+  if (!result.prefill) return result;
+  const customer = await resolveCustomer(pool, result.prefill);
+  if (!customer) return result;
+  await customersQueries.setCustomerSourceConflicts(pool, customer.id, result.conflicts ?? {});
+  return { ...result, prefill: { ...result.prefill, customer_id: customer.id } };
+}
+
+/**
+ * Local customers with the same phone, for the customer search.
+ */
+export async function searchLocalCustomersByPhone(pool: Pool, phone: string): Promise<CustomerRecord[]> {
+  const { phone_key } = customerMatchKeys({ phone });
+  if (!phone_key) return [];
+  return customersQueries.searchCustomersByPhoneKey(pool, phone_key);
+}
+
+// ── Customer page ────────────────────────────────────────────────
+
+/**
+ * Customer with the orders the actor can open and their ADMFs. Sales reps and managers
+ * only see customers they have at least one accessible order for; office and admin see all.
+ * @throws NotFoundError when the customer does not exist or is not visible to the actor
+ */
+export async function getCustomerDetail(pool: Pool, id: number, actor: Actor): Promise<CustomerDetail> {
+  const customer = await getLiveCustomer(pool, id);
+  const { orders } = await ordersQueries.getAccessibleOrders(pool, actor, {
+    customer_id: customer.id,
+    page: 1,
+    limit: CUSTOMER_ORDERS_LIMIT,
+  });
+  if (orders.length === 0 && !isOffice(actor)) {
+    throw new NotFoundError("Customer not found");
+  }
+  const forms = await customersQueries.listAdmfFormsForOrders(
+    pool,
+    orders.map((o) => o.id)
+  );
+  return {
+    customer,
+    orders,
+    admf_forms: forms.map((f) => ({
+      id: f.id,
+      order_id: f.order_id,
+      name: typeof f.form_json.name === "string" ? f.form_json.name : null,
+      total_s_dph: computeAdmfCelkemSDph(f.form_json),
+      created_at: f.created_at,
+      updated_at: f.updated_at,
+    })),
+  };
+}
+
+// ── Duplicates & merge (office / admin) ──────────────────────────
+
+function isOffice(actor: Actor): boolean {
+  return actor.role === "OFFICE" || actor.role === "ADMIN";
+}
+
+function requireOffice(actor: Actor): void {
+  if (!isOffice(actor)) {
+    throw new ForbiddenError("Only office and admin users can manage duplicate customers");
+  }
+}
+
+/**
+ * Groups of customers sharing a phone, e-mail or IČO (merge candidates).
+ */
+export async function listDuplicateCustomers(
+  pool: Pool,
+  actor: Actor,
+  limit?: number
+): Promise<CustomerDuplicateGroup[]> {
+  requireOffice(actor);
+  const safeLimit = Math.min(Math.max(limit ?? DEFAULT_DUPLICATES_LIMIT, 1), MAX_DUPLICATES_LIMIT);
+  return customersQueries.listDuplicateGroups(pool, safeLimit);
+}
+
+/**
+ * Merge the source customer into the target: orders move to the target, the target keeps
+ * its values and takes only fields it is missing, the source stays as a pointer.
+ * @throws BadRequestError for invalid ids, NotFoundError when either is missing or already merged
+ */
+export async function mergeCustomers(
+  pool: Pool,
+  actor: Actor,
+  body: Partial<MergeCustomersRequest>
+): Promise<MergeCustomersResult> {
+  requireOffice(actor);
+  const sourceId = Number(body.source_id);
+  const targetId = Number(body.target_id);
+  if (!Number.isInteger(sourceId) || sourceId <= 0 || !Number.isInteger(targetId) || targetId <= 0) {
+    throw new BadRequestError("source_id and target_id must be customer ids", "INVALID_CUSTOMER_ID");
+  }
+  if (sourceId === targetId) {
+    throw new BadRequestError("Cannot merge a customer into itself", "MERGE_SAME_CUSTOMER");
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const locked = await customersQueries.lockCustomersForMerge(client, [sourceId, targetId]);
+    if (locked.length !== 2) {
+      throw new NotFoundError("Customer not found or already merged");
+    }
+    const movedOrderIds = await customersQueries.mergeCustomers(client, sourceId, targetId, actor.userId);
+    const customer = await getLiveCustomer(client, targetId);
+    await client.query("COMMIT");
+    return { customer, moved_order_ids: movedOrderIds };
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
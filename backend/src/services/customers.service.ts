@@ -4,13 +4,16 @@
  * Requirements:
  * - Raynet is primary source of truth.
  * - ERP is secondary source (read-only replica).
- * - No caching.
+ * - No caching of Raynet / ERP results; local customer master records with the same phone
+ *   are returned alongside (customer-master.service).
  * - Phone matching against ERP uses LIKE and tolerates formatting differences.
  * - Only valid state: exactly one Raynet and one ERP selected AND no conflicts.
  *   If conflict, return a big warning (and ok=false).
  */
 
+import { Pool } from "pg";
 import { BadRequestError } from "../utils/errors";
+import * as customerMasterService from "./customer-master.service";
 import * as raynetQueries from "../queries/raynet.queries";
 import * as erpCustomersQueries from "../queries/erp-customers.queries";
 import { RaynetLead } from "../types/raynet.types";
@@ -100,27 +103,30 @@ function erpToComparable(c: ErpCustomer): {
 }
 
 /**
- * Perform dual-source search by phone.
+ * Perform dual-source search by phone (plus local customer records).
  * @param phone - user input phone
  */
-export async function searchCustomersDual(phone: string): Promise<CustomerSearchResult> {
+export async function searchCustomersDual(pool: Pool, phone: string): Promise<CustomerSearchResult> {
   validatePhoneNumber(phone);
 
-  // Parallelize: Raynet + ERP
-  const [raynetCustomers, erpCustomers] = await Promise.all([
+  // Parallelize: Raynet + ERP + local
+  const [raynetCustomers, erpCustomers, localCustomers] = await Promise.all([
     raynetQueries.searchCustomersByPhone(phone),
     erpCustomersQueries.searchErpCustomersByPhoneLike(phone),
+    customerMasterService.searchLocalCustomersByPhone(pool, phone),
   ]);
 
   return {
     raynet: { customers: raynetCustomers, totalCount: raynetCustomers.length },
     erp: { customers: erpCustomers, totalCount: erpCustomers.length },
+    local: { customers: localCustomers, totalCount: localCustomers.length },
   };
 }
 
 /**
  * Validate the selected Raynet+ERP pair for conflicts.
  * Returns ok=false + warning if any conflicts are found.
+ * Pure — the route links the pair to its customer record via customer-master.service.
  */
 export function validateSelectedPair(raynet: RaynetLead, erp: ErpCustomer): CustomerValidateResult {
   const r = raynetToComparable(raynet);
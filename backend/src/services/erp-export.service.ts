@@ -1,162 +1,144 @@
 /**
- * ERP export pipeline — maps ADMF form_json to ERP API payloads
- * and orchestrates the 3-write logging flow (PENDING → SENDING → SUCCESS/FAILED).
+ * ERP export target — maps ADMF form_json to ERP API payloads. The 3-write logging
+ * flow (PENDING → SENDING → SUCCESS/FAILED) is run by export-target.service.
  *
- * Live API calls: PUT order (status + column_values), POST comment.
- * Products: payload built and logged but HTTP call skipped (monitoring only).
+ * Live API calls: PUT order (status + column_values), POST comment, then one ERP
+ * product line per ADMF product row (POST new / PUT known / DELETE stale). ERP product
+ * ids are remembered in erp_order_products so a re-export replaces lines instead of
+ * duplicating them; per-line failures end the export as PARTIAL_SUCCESS.
+ *
+ * The export preview diffs the order update against GET /orders/{id} and the product
+ * lines against erp_order_products (what the last export left on the order).
  */
 
 import { Pool } from "pg";
-import * as erpExportLogsQueries from "../queries/erp-export-logs.queries";
+import * as erpOrderProductsQueries from "../queries/erp-order-products.queries";
 import * as formsQueries from "../queries/forms.queries";
-import * as ordersQueries from "../queries/orders.queries";
+import * as contractSigningService from "./contract-signing.service";
+import { createExportLogStore, runExportTarget } from "./export-target.service";
+import { applyFieldMapping, getActiveFieldMapping } from "./field-mapping.service";
 import {
   ErpExportWarning,
   ErpExportErrorCode,
   ErpOrderUpdatePayload,
   ErpProductPayload,
+  ErpProductLine,
+  ErpProductSyncLine,
+  ErpProductSyncSummary,
   ErpCommentPayload,
 } from "../types/erp-export.types";
-import { BadRequestError, InternalServerError } from "../utils/errors";
 import {
-  computeAdmfCelkemBezDph,
-  computeAdmfCelkemSDph,
-  effectiveMontazBezDph,
-} from "../utils/admf-order-totals";
-
-// ── Enum mapping tables ──────────────────────────────────────────
-
-const ZALOHA_TO_ERP_SLUG: Record<string, string> = {
-  "Hotově": "hotove",
-  "Terminálem": "terminalem",
-  "QR": "qr-kod",
-  "převodem": "prevodem",
-  "Fakturou": "prevodem", // best guess — flagged as OPEN in mapping
-};
-
-const VAT_TO_ERP: Record<number, string> = {
-  0: "0",
-  12: "0.12",
-  21: "0.21",
-};
+  ExportFieldChange,
+  ExportTarget,
+  ExportTargetBuild,
+  ExportTargetDiff,
+  ExportTargetResult,
+} from "../types/export-target.types";
+import type { FieldMappingEntry, FieldMappingVersion } from "../types/field-mapping.types";
+import type { Actor } from "../types/access.types";
+import { asRecord, diffPayloadFields } from "../utils/export-field-diff";
+import { BadRequestError, InternalServerError } from "../utils/errors";
 
 // ── Payload builders ─────────────────────────────────────────────
 
 interface ErpMappingResult {
   orderPayload: ErpOrderUpdatePayload;
-  productsPayload: { products: ErpProductPayload[] };
+  productsPayload: { products: ErpProductLine[] };
   commentPayload: ErpCommentPayload | null;
   warnings: ErpExportWarning[];
 }
 
+/** Manufacturers of the ADMF's source (výrobní) forms, resolved by `validate`. */
+export interface ErpManufacturerIndex {
+  /** Per source form id: header `schema` manufacturer + per `product_schemas` id. */
+  bySourceForm: Map<number, { header?: string; byProduct: Map<string, string> }>;
+  /** First source form's header manufacturer — for rows without a pricingTrace. */
+  fallback?: string;
+}
+
+/** Row's own source form + catalog product first, then that form's header, then the fallback. */
+function resolveRowManufacturer(row: any, manufacturers: ErpManufacturerIndex): string | undefined {
+  const trace = row.pricingTrace?.automated;
+  const source = trace?.source_form_id != null ? manufacturers.bySourceForm.get(trace.source_form_id) : undefined;
+  if (source) {
+    const byProduct = trace.product_pricing_id != null ? source.byProduct.get(String(trace.product_pricing_id)) : undefined;
+    return byProduct ?? source.header ?? manufacturers.fallback;
+  }
+  return manufacturers.fallback;
+}
+
 /**
- * Build all ERP payloads from ADMF form_json.
- * Also resolves manufacturer from linked custom forms if available.
+ * Build all ERP payloads from ADMF form_json. The order update follows the active ERP
+ * field mapping; manufacturers come from the linked custom forms (see ErpManufacturerIndex).
  */
 export function buildErpPayloads(
   formJson: Record<string, any>,
-  manufacturer: string | undefined
+  mapping: FieldMappingEntry[],
+  manufacturers: ErpManufacturerIndex
 ): ErpMappingResult {
-  const warnings: ErpExportWarning[] = [];
-  const columnValues: Record<string, unknown> = {};
-
+  // ── Order update — mapped fields (status, final_value, column_values) ──
+  const mapped = applyFieldMapping("ERP", mapping, { formJson });
+  const warnings: ErpExportWarning[] = mapped.warnings;
+  const orderPayload = { column_values: {}, ...mapped.payload } as unknown as ErpOrderUpdatePayload;
   const vatRate = formJson.vatRate ?? 12;
-  const totalBezDph = computeAdmfCelkemBezDph(formJson);
-  const totalSDph = computeAdmfCelkemSDph(formJson);
-
-  // ── Finance column_values ──
-
-  // prodejni_cena_s_dph + prodejni_cena_bez_dph
-  columnValues.prodejni_cena_s_dph = totalSDph;
-  columnValues.prodejni_cena_bez_dph = totalBezDph;
-
-  // dph
-  const erpDph = VAT_TO_ERP[vatRate];
-  if (erpDph !== undefined) {
-    columnValues.dph = erpDph;
-  } else {
-    warnings.push({
-      code: "ENUM_MISMATCH",
-      field: "vatRate",
-      reason: `Value "${vatRate}" has no ERP mapping (expected 0, 12, or 21)`,
-    });
-  }
-
-  // vyse_zalohy
-  if (formJson.zalohovaFaktura != null && formJson.zalohovaFaktura > 0) {
-    columnValues.vyse_zalohy = formJson.zalohovaFaktura;
-  }
-
-  // vyse_doplatku
-  const doplatek = Math.max(0, totalSDph - (formJson.zalohovaFaktura ?? 0));
-  columnValues.vyse_doplatku = doplatek;
-
-  // druh_platby
-  if (formJson.zalohaZaplacena) {
-    const erpSlug = ZALOHA_TO_ERP_SLUG[formJson.zalohaZaplacena];
-    if (erpSlug) {
-      columnValues.druh_platby = erpSlug;
-    } else {
-      warnings.push({
-        code: "ENUM_MISMATCH",
-        field: "zalohaZaplacena",
-        reason: `Value "${formJson.zalohaZaplacena}" has no ERP slug mapping`,
-      });
-    }
-  }
-
-  // cena_za_montaz_s_dph (effective montáž = auto default nebo vlastní částka)
-  const montazBezDph = effectiveMontazBezDph(formJson);
-  if (montazBezDph > 0) {
-    columnValues.cena_za_montaz_s_dph = Math.round(montazBezDph * (1 + vatRate / 100));
-  }
-
-  // ── Order update payload ──
-  const orderPayload: ErpOrderUpdatePayload = {
-    status: "zamereni",
-    final_value: totalSDph,
-    column_values: columnValues,
-  };
 
-  // ── Products payload (monitoring only — not sent to ERP yet) ──
+  // ── Products payload — one ERP line per ADMF row ──
   // ERP convention: `cena_bez_dph` is PER UNIT; ERP downstream multiplies by ks.
   // ADMF stores `cenaPoSleve` as a LINE TOTAL (already includes ks), so we
   // divide here to convert. Tiny rounding drift may appear (line total
   // reconstructed by ERP can differ by ±1 Kč from the form-level total) — that's
-  // acceptable for line-item invoicing.
+  // acceptable for line-item invoicing. Surcharges are line totals too.
   const rows: any[] = formJson.productRows || [];
-  const products: ErpProductPayload[] = rows
-    .filter((r: any) => r.produkt && r.produkt.trim() !== "")
-    .map((r: any) => {
-      const ksRow = r.ks ?? 1;
-      const lineBezDph = r.cenaPoSleve ?? 0;
-      const perUnitBezDph = Math.round(lineBezDph / Math.max(1, ksRow));
-      const product: ErpProductPayload = {
-        nazev: r.produkt,
-        ks: ksRow,
-        cena_bez_dph: perUnitBezDph,
-        cena_s_dph: Math.round(perUnitBezDph * (1 + vatRate / 100)),
-      };
-      if (manufacturer) {
-        product.vyrobce = manufacturer;
-      }
-      return product;
-    });
+  const products: ErpProductLine[] = [];
+  const rowsWithoutManufacturer: string[] = [];
+  rows.forEach((r: any, index: number) => {
+    if (!r.produkt || r.produkt.trim() === "") return;
+    const ksRow = r.ks ?? 1;
+    const units = Math.max(1, ksRow);
+    const lineBezDph = r.cenaPoSleve ?? 0;
+    const perUnitBezDph = Math.round(lineBezDph / units);
+    const product: ErpProductPayload = {
+      nazev: r.produkt,
+      ks: ksRow,
+      cena_bez_dph: perUnitBezDph,
+      cena_s_dph: Math.round(perUnitBezDph * (1 + vatRate / 100)),
+    };
+    const rowKey = typeof r.id === "string" && r.id !== "" ? r.id : `index:${index}`;
+
+    const manufacturer = resolveRowManufacturer(r, manufacturers);
+    if (manufacturer) {
+      product.vyrobce = manufacturer;
+    } else {
+      rowsWithoutManufacturer.push(rowKey);
+    }
+
+    const roomName = r.pricingTrace?.automated?.room_name;
+    if (typeof roomName === "string" && roomName.trim() !== "") {
+      product.mistnost = roomName.trim();
+    }
+
+    const surcharges: any[] = Array.isArray(r.surcharges) ? r.surcharges : [];
+    if (surcharges.length > 0) {
+      product.priplatky = surcharges.map((sc) => ({
+        kod: sc.code,
+        nazev: sc.label ?? sc.code,
+        cena_bez_dph: Math.round((sc.amount ?? 0) / units),
+      }));
+    }
 
-  if (!manufacturer && products.length > 0) {
+    products.push({ row_key: rowKey, product });
+  });
+
+  if (rowsWithoutManufacturer.length > 0) {
     warnings.push({
       code: "FIELD_EMPTY",
       field: "vyrobce",
-      reason: "Manufacturer not available on form schema (_product_manufacturer missing). Products logged without vyrobce.",
+      reason:
+        `Manufacturer not available on source form schema (_product_manufacturer missing) for ` +
+        `${rowsWithoutManufacturer.length} of ${products.length} products. Those are sent without vyrobce.`,
     });
   }
 
-  warnings.push({
-    code: "PRODUCTS_SKIPPED",
-    field: "products",
-    reason: "Products payload built for monitoring but HTTP call skipped (not yet enabled).",
-  });
-
   // ── Comment payload ──
   const vyrobaText = (formJson.poznamkyVyroba ?? "").trim();
   const montazText = (formJson.poznamkyMontaz ?? "").trim();
@@ -221,142 +203,382 @@ export function classifyErpHttpError(status: number): ErpExportErrorCode {
   return "UNKNOWN_ERROR";
 }
 
-// ── Main pipeline ────────────────────────────────────────────────
+// ── Product line sync ────────────────────────────────────────────
 
-export interface ErpExportResult {
-  logId: number;
-  exportedAt: Date;
-  testMode: boolean;
-  warnings: ErpExportWarning[];
+/**
+ * Product id from a create response. The vendor API wraps created records
+ * inconsistently, so accept `{ id }`, `{ data: { id } }` and `{ data: [{ id }] }`.
+ */
+function parseErpProductId(body: Record<string, any>): string | null {
+  const candidates = [body?.id, body?.data?.id, Array.isArray(body?.data) ? body.data[0]?.id : undefined];
+  const id = candidates.find((c) => typeof c === "number" || (typeof c === "string" && c !== ""));
+  return id != null ? String(id) : null;
 }
 
+function isHttpOk(status: number): boolean {
+  return status >= 200 && status < 300;
+}
+
+const TRACKING_ATTEMPTS = 3;
+const TRACKING_RETRY_DELAY_MS = 250;
+
 /**
- * Full ERP export pipeline with 3-write logging.
- * Sends: PUT order (status + column_values), POST comment.
- * Products: built and logged but HTTP call skipped.
+ * Record the ERP product id of a line the ERP already accepted. Retried because a
+ * lost id means the next export POSTs the line a second time.
  */
-export async function exportFormToErp(
+async function trackErpProduct(
   pool: Pool,
-  formId: number,
-  userId: string,
-  testMode: boolean,
-  exportBatchId?: string
-): Promise<ErpExportResult> {
-  // ── Step 0: Load form + order, resolve ERP order ID ──
-  const form = await formsQueries.getFormById(pool, formId, userId);
-  if (!form) throw new BadRequestError("Form not found", "FORM_NOT_FOUND");
-  if (form.form_type !== "admf") throw new BadRequestError("Only ADMF forms can be exported to ERP");
-
-  const orderId = form.order_id;
-  if (!orderId) throw new BadRequestError("Form is not linked to an order");
-
-  const order = await ordersQueries.getOrderById(pool, orderId, userId);
-  if (!order) throw new BadRequestError("Order not found", "ORDER_NOT_FOUND");
-
-  const erpOrderId = order.source_erp_order_id;
-  if (!erpOrderId) {
-    throw new BadRequestError(
-      "Order has no linked ERP order (source_erp_order_id is empty)",
-      "MISSING_ERP_ORDER_ID"
-    );
+  params: Parameters<typeof erpOrderProductsQueries.upsertErpOrderProduct>[1]
+): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await erpOrderProductsQueries.upsertErpOrderProduct(pool, params);
+      return;
+    } catch (error) {
+      if (attempt >= TRACKING_ATTEMPTS) throw error;
+      await new Promise((resolve) => setTimeout(resolve, TRACKING_RETRY_DELAY_MS * attempt));
+    }
+  }
+}
+
+/**
+ * Start tracking product lines an earlier export created but could not record, so
+ * this export replaces (or deletes) them instead of creating duplicates.
+ */
+async function adoptUntrackedErpProducts(
+  pool: Pool,
+  erpOrderId: number,
+  warnings: ErpExportWarning[]
+): Promise<void> {
+  const untracked = await erpOrderProductsQueries.getUntrackedErpProducts(pool, erpOrderId);
+  for (const line of untracked) {
+    await erpOrderProductsQueries.upsertErpOrderProduct(pool, {
+      erp_order_id: erpOrderId,
+      form_id: line.form_id,
+      row_key: line.row_key,
+      erp_product_id: line.erp_product_id,
+      payload: line.payload,
+      last_log_id: line.log_id,
+    });
+    warnings.push({
+      code: "RECONCILED",
+      field: `product:${line.row_key}`,
+      reason: `ERP product ${line.erp_product_id} from export log ${line.log_id} was not recorded — now tracked instead of created again.`,
+    });
+  }
+}
+
+/**
+ * Make the ERP order's product lines match `lines`: PUT lines we created before,
+ * POST new ones, DELETE lines no longer on the form (including lines of another ADMF
+ * exported to the same ERP order). Never throws for a single line — failures are
+ * recorded on the line and as PRODUCT_SYNC_FAILED warnings. A line the ERP accepted
+ * but we could not record keeps its erp_product_id and is adopted by the next export.
+ */
+async function syncErpProducts(params: {
+  pool: Pool;
+  formId: number;
+  erpOrderId: number;
+  logId: number;
+  apiEndpoint: string;
+  bearerToken: string;
+  lines: ErpProductLine[];
+  warnings: ErpExportWarning[];
+  onProgress: (summary: ErpProductSyncSummary) => Promise<void>;
+}): Promise<ErpProductSyncSummary> {
+  const { pool, formId, erpOrderId, logId, apiEndpoint, bearerToken, lines, warnings } = params;
+  const productsUrl = `${apiEndpoint}/orders/${erpOrderId}/products`;
+
+  await adoptUntrackedErpProducts(pool, erpOrderId, warnings);
+  const tracked = await erpOrderProductsQueries.getErpOrderProducts(pool, erpOrderId);
+  const trackedByKey = new Map(tracked.filter((t) => t.form_id === formId).map((t) => [t.row_key, t]));
+  const wantedKeys = new Set(lines.map((l) => l.row_key));
+  const stale = tracked.filter((t) => t.form_id !== formId || !wantedKeys.has(t.row_key));
+
+  const summary: ErpProductSyncSummary = { created: 0, replaced: 0, deleted: 0, failed: 0, lines: [] };
+  const upserts = lines.map((line) => {
+    const known = trackedByKey.get(line.row_key);
+    const entry: ErpProductSyncLine = {
+      row_key: line.row_key,
+      action: known ? "REPLACE" : "CREATE",
+      status: "PENDING",
+      erp_product_id: known?.erp_product_id ?? null,
+    };
+    summary.lines.push(entry);
+    return { line, entry };
+  });
+  const deletes = stale.map((record) => {
+    const entry: ErpProductSyncLine = {
+      row_key: record.row_key,
+      action: "DELETE",
+      status: "PENDING",
+      erp_product_id: record.erp_product_id,
+    };
+    summary.lines.push(entry);
+    return { record, entry };
+  });
+  await params.onProgress(summary);
+
+  const fail = (entry: ErpProductSyncLine, error: string, httpStatus?: number) => {
+    entry.status = "FAILED";
+    entry.error = error;
+    if (httpStatus !== undefined) entry.http_status = httpStatus;
+    summary.failed++;
+    warnings.push({
+      code: "PRODUCT_SYNC_FAILED",
+      field: `product:${entry.row_key}`,
+      reason: `${entry.action} failed: ${error}`,
+    });
+  };
+
+  for (const { line, entry } of upserts) {
+    try {
+      let erpProductId: string | null = null;
+      if (entry.action === "REPLACE") {
+        const res = await erpFetch(`${productsUrl}/${entry.erp_product_id}`, bearerToken, "PUT", line.product);
+        entry.http_status = res.status;
+        if (isHttpOk(res.status)) {
+          erpProductId = entry.erp_product_id;
+        } else if (res.status === 404) {
+          // Removed on the ERP side — create it again below.
+          entry.action = "CREATE";
+          entry.erp_product_id = null;
+        } else {
+          fail(entry, `ERP returned HTTP ${res.status}`, res.status);
+        }
+      }
+
+      if (entry.action === "CREATE") {
+        const res = await erpFetch(productsUrl, bearerToken, "POST", { products: [line.product] });
+        entry.http_status = res.status;
+        if (!isHttpOk(res.status)) {
+          fail(entry, `ERP returned HTTP ${res.status}`, res.status);
+        } else {
+          erpProductId = parseErpProductId(res.body);
+          // Created but untraceable — a re-export would add it a second time.
+          if (!erpProductId) fail(entry, "ERP created the product but returned no product id", res.status);
+        }
+      }
+
+      if (erpProductId) {
+        entry.erp_product_id = erpProductId;
+        try {
+          await trackErpProduct(pool, {
+            erp_order_id: erpOrderId,
+            form_id: formId,
+            row_key: line.row_key,
+            erp_product_id: erpProductId,
+            payload: line.product,
+            last_log_id: logId,
+          });
+        } catch (error: any) {
+          // The ERP has the line — keep its id in products_sync for the next export to adopt.
+          entry.untracked = true;
+          fail(
+            entry,
+            `ERP product ${erpProductId} was saved in ERP but could not be recorded: ${error.message ?? "Unknown error"}`
+          );
+        }
+        if (!entry.untracked) {
+          entry.status = "SUCCESS";
+          summary[entry.action === "CREATE" ? "created" : "replaced"]++;
+        }
+      }
+    } catch (error: any) {
+      fail(entry, error.message ?? "Unknown error");
+    }
+    await params.onProgress(summary);
   }
 
-  // ── Resolve manufacturer from linked custom forms ──
-  let manufacturer: string | undefined;
-  const sourceFormIds: number[] = form.form_json?.source_form_ids ?? [];
-  if (sourceFormIds.length > 0) {
+  for (const { record, entry } of deletes) {
     try {
-      const sourceForm = await formsQueries.getFormById(pool, sourceFormIds[0], userId);
-      if (sourceForm?.form_json?.schema?._product_manufacturer) {
-        manufacturer = sourceForm.form_json.schema._product_manufacturer;
+      const res = await erpFetch(`${productsUrl}/${record.erp_product_id}`, bearerToken, "DELETE", undefined);
+      entry.http_status = res.status;
+      // 404: already gone on the ERP side — just forget it.
+      if (isHttpOk(res.status) || res.status === 404) {
+        await erpOrderProductsQueries.deleteErpOrderProduct(pool, record.id);
+        entry.status = "SUCCESS";
+        summary.deleted++;
+      } else {
+        fail(entry, `ERP returned HTTP ${res.status}`, res.status);
       }
-    } catch {
-      // Non-critical — continue without manufacturer
+    } catch (error: any) {
+      fail(entry, error.message ?? "Unknown error");
     }
+    await params.onProgress(summary);
   }
 
-  // ── Write 1: CREATE log (PENDING) ──
-  const startTime = Date.now();
-  const logId = await erpExportLogsQueries.createErpExportLog(pool, {
-    form_id: formId,
-    order_id: orderId,
-    erp_order_id: erpOrderId,
-    user_id: userId,
-    export_batch_id: exportBatchId,
-    test_mode: testMode,
-  });
+  return summary;
+}
+
+// ── Preview ──────────────────────────────────────────────────────
 
+/**
+ * Current ERP order + tracked product lines vs. the payloads. Product lines are keyed
+ * `product:<row_key>`; lines the export would delete come back as REMOVE. The comment
+ * is always appended, so it is an ADD. A failed order read yields UNKNOWN order fields.
+ */
+async function diffErpOrder(params: {
+  pool: Pool;
+  formId: number;
+  erpOrderId: number;
+  build: ErpMappingResult;
+}): Promise<ExportTargetDiff> {
+  const { pool, formId, erpOrderId, build } = params;
+
+  let current: Record<string, unknown> | null = null;
+  let currentError: string | undefined;
   try {
-    // ── Build payloads ──
-    const { orderPayload, productsPayload, commentPayload, warnings } =
-      buildErpPayloads(form.form_json, manufacturer);
-
-    // ── Write 2: UPDATE log (SENDING) — store all payloads + warnings ──
-    await erpExportLogsQueries.updateErpExportLog(pool, logId, {
-      status: "SENDING",
-      request_payload: {
-        order_update: orderPayload,
-        products: productsPayload.products,
-        comment: commentPayload?.message ?? null,
-      } as unknown as Record<string, unknown>,
-      warnings,
-    });
+    const { apiEndpoint, bearerToken } = getErpConfig();
+    const res = await erpFetch(`${apiEndpoint}/orders/${erpOrderId}`, bearerToken, "GET", undefined);
+    if (isHttpOk(res.status)) {
+      current = asRecord(res.body.data) ?? res.body;
+    } else {
+      currentError = `ERP returned HTTP ${res.status}`;
+    }
+  } catch (error: any) {
+    currentError = error?.message ?? "ERP GET failed";
+  }
+
+  const changes = diffPayloadFields(build.orderPayload, current);
+
+  const tracked = await erpOrderProductsQueries.getErpOrderProducts(pool, erpOrderId);
+  const trackedByKey = new Map(tracked.filter((t) => t.form_id === formId).map((t) => [t.row_key, t]));
+  const wantedKeys = new Set<string>();
+  for (const line of build.productsPayload.products) {
+    wantedKeys.add(line.row_key);
+    const known = trackedByKey.get(line.row_key);
+    const change: ExportFieldChange["change"] = !known
+      ? "ADD"
+      : JSON.stringify(known.payload) === JSON.stringify(line.product)
+        ? "UNCHANGED"
+        : "UPDATE";
+    changes.push({ field: `product:${line.row_key}`, current: known?.payload ?? null, next: line.product, change });
+  }
+  for (const record of tracked) {
+    if (record.form_id === formId && wantedKeys.has(record.row_key)) continue;
+    changes.push({ field: `product:${record.row_key}`, current: record.payload, next: null, change: "REMOVE" });
+  }
+
+  if (build.commentPayload) {
+    changes.push({ field: "comment", current: null, next: build.commentPayload.message, change: "ADD" });
+  }
+
+  return { currentLoaded: current != null, currentError, changes };
+}
 
-    if (testMode) {
-      // ── Test mode: skip all API calls, log success ──
-      const now = new Date();
-      await erpExportLogsQueries.updateErpExportLog(pool, logId, {
-        status: "SUCCESS",
-        response_status: 0,
-        response_body: { testMode: true, message: "Skipped — test mode" },
-        duration_ms: Date.now() - startTime,
-        completed_at: now,
-      });
-      return { logId, exportedAt: now, testMode: true, warnings };
+// ── Target ───────────────────────────────────────────────────────
+
+/** Errors the export queue retries (with backoff) instead of failing the job. */
+const TRANSIENT_ERROR_CODES = new Set<ErpExportErrorCode>([
+  "ERP_SERVER_ERROR",
+  "ERP_TIMEOUT",
+  "ERP_ORDER_LOCKED",
+  "UNKNOWN_ERROR",
+]);
+
+interface ErpPrepared {
+  erpOrderId: number;
+  mapping: FieldMappingVersion;
+  manufacturers: ErpManufacturerIndex;
+}
+
+interface ErpBuild extends ErpMappingResult {
+  requestPayload: ExportTargetBuild["requestPayload"];
+}
+
+export const erpExportTarget: ExportTarget<ErpPrepared, ErpBuild> = {
+  id: "ERP",
+  key: "erp",
+  label: "ERP",
+  logs: createExportLogStore("ERP"),
+
+  async assertQueueable({ pool, form, order, testMode }) {
+    if (!testMode) await contractSigningService.assertErpExportAllowed(pool, form, order);
+  },
+
+  async validate({ pool, form, order, ownerId, testMode }) {
+    // Signed contract (or an explicit override) is required before a live export.
+    if (!testMode) await contractSigningService.assertErpExportAllowed(pool, form, order);
+
+    const erpOrderId = order.source_erp_order_id;
+    if (!erpOrderId) {
+      throw new BadRequestError(
+        "Order has no linked ERP order (source_erp_order_id is empty)",
+        "MISSING_ERP_ORDER_ID" satisfies ErpExportErrorCode
+      );
     }
 
-    // ── Step 3a: PUT order update ──
+    // ── Resolve manufacturers from linked custom forms ──
+    const manufacturers: ErpManufacturerIndex = { bySourceForm: new Map() };
+    const sourceFormIds: number[] = form.form_json?.source_form_ids ?? [];
+    for (const sourceFormId of sourceFormIds) {
+      try {
+        const sourceForm = await formsQueries.getFormById(pool, sourceFormId, ownerId);
+        if (!sourceForm) continue;
+        const header: string | undefined = sourceForm.form_json?.schema?._product_manufacturer || undefined;
+        const byProduct = new Map<string, string>();
+        for (const [pricingId, schema] of Object.entries<any>(sourceForm.form_json?.product_schemas ?? {})) {
+          if (schema?._product_manufacturer) byProduct.set(pricingId, schema._product_manufacturer);
+        }
+        manufacturers.bySourceForm.set(sourceFormId, { header, byProduct });
+        if (sourceFormId === sourceFormIds[0]) manufacturers.fallback = header;
+      } catch {
+        // Non-critical — rows of this form go without manufacturer
+      }
+    }
+
+    const mapping = await getActiveFieldMapping(pool, "ERP");
+    return { externalId: erpOrderId, prepared: { erpOrderId, mapping, manufacturers } };
+  },
+
+  buildPayload({ form }, { mapping: fieldMapping, manufacturers }) {
+    const mapping = buildErpPayloads(form.form_json, fieldMapping.entries, manufacturers);
+    return {
+      ...mapping,
+      requestPayload: {
+        order_update: mapping.orderPayload,
+        field_mapping_version: fieldMapping.version,
+        products: mapping.productsPayload.products,
+        comment: mapping.commentPayload?.message ?? null,
+      },
+    };
+  },
+
+  previewChanges({ pool, form }, { erpOrderId }, build) {
+    return diffErpOrder({ pool, formId: form.id, erpOrderId, build });
+  },
+
+  async send({ pool, form }, { logId, prepared, build, persistProgress }) {
+    const { erpOrderId } = prepared;
+    const { orderPayload, commentPayload, warnings } = build;
+
+    // ── PUT order update ──
     const { apiEndpoint, bearerToken } = getErpConfig();
     let orderResult: { status: number; body: Record<string, unknown> };
     try {
-      orderResult = await erpFetch(
-        `${apiEndpoint}/orders/${erpOrderId}`,
-        bearerToken,
-        "PUT",
-        orderPayload
-      );
+      orderResult = await erpFetch(`${apiEndpoint}/orders/${erpOrderId}`, bearerToken, "PUT", orderPayload);
     } catch (error: any) {
       const isTimeout = error.name === "TimeoutError" || error.name === "AbortError";
-      const errorCode: ErpExportErrorCode = isTimeout ? "ERP_TIMEOUT" : "UNKNOWN_ERROR";
-      await erpExportLogsQueries.updateErpExportLog(pool, logId, {
+      return {
         status: "FAILED",
-        error_message: error.message,
-        error_code: errorCode,
-        duration_ms: Date.now() - startTime,
-        completed_at: new Date(),
-      });
-      throw new InternalServerError(
-        isTimeout ? "ERP API request timed out" : `ERP API call failed: ${error.message}`
-      );
+        errorCode: (isTimeout ? "ERP_TIMEOUT" : "UNKNOWN_ERROR") satisfies ErpExportErrorCode,
+        errorMessage: error.message,
+        thrownMessage: isTimeout ? "ERP API request timed out" : `ERP API call failed: ${error.message}`,
+      };
     }
 
     if (orderResult.status < 200 || orderResult.status >= 300) {
-      const errorCode = classifyErpHttpError(orderResult.status);
-      const errorMsg = `ERP returned HTTP ${orderResult.status}`;
-      await erpExportLogsQueries.updateErpExportLog(pool, logId, {
+      return {
         status: "FAILED",
-        response_status: orderResult.status,
-        response_body: orderResult.body,
-        error_message: errorMsg,
-        error_code: errorCode,
-        duration_ms: Date.now() - startTime,
-        completed_at: new Date(),
-      });
-      throw new InternalServerError(errorMsg);
+        responseStatus: orderResult.status,
+        responseBody: orderResult.body,
+        errorCode: classifyErpHttpError(orderResult.status),
+        errorMessage: `ERP returned HTTP ${orderResult.status}`,
+      };
     }
 
-    // ── Step 3b: POST comment (non-critical) ──
-    let commentWarning: ErpExportWarning | null = null;
+    // ── POST comment (non-critical) ──
     if (commentPayload) {
       try {
         const commentResult = await erpFetch(
@@ -366,47 +588,75 @@ export async function exportFormToErp(
           commentPayload
         );
         if (commentResult.status < 200 || commentResult.status >= 300) {
-          commentWarning = {
+          warnings.push({
             code: "FIELD_SKIPPED",
             field: "comment",
             reason: `Comment POST returned HTTP ${commentResult.status} — non-critical, order update succeeded.`,
-          };
+          });
         }
       } catch (error: any) {
-        commentWarning = {
+        warnings.push({
           code: "FIELD_SKIPPED",
           field: "comment",
           reason: `Comment POST failed: ${error.message} — non-critical, order update succeeded.`,
-        };
+        });
       }
     }
 
-    if (commentWarning) {
-      warnings.push(commentWarning);
-    }
-
-    // NOTE: Products HTTP call intentionally skipped — payload is in request_payload for monitoring.
-
-    // ── Write 3: SUCCESS ──
-    const now = new Date();
-    await erpExportLogsQueries.updateErpExportLog(pool, logId, {
-      status: "SUCCESS",
-      response_status: orderResult.status,
-      response_body: orderResult.body,
+    // ── Product lines (per-line failures → PARTIAL_SUCCESS) ──
+    const products = await syncErpProducts({
+      pool,
+      formId: form.id,
+      erpOrderId,
+      logId,
+      apiEndpoint,
+      bearerToken,
+      lines: build.productsPayload.products,
       warnings,
-      duration_ms: Date.now() - startTime,
-      completed_at: now,
+      onProgress: (summary) =>
+        persistProgress({ ...build.requestPayload, products_sync: summary.lines }),
     });
-    return { logId, exportedAt: now, testMode: false, warnings };
-  } catch (error: any) {
-    if (error.statusCode) throw error;
-    await erpExportLogsQueries.updateErpExportLog(pool, logId, {
-      status: "FAILED",
-      error_message: error.message ?? "Unknown error",
-      error_code: "UNKNOWN_ERROR",
-      duration_ms: Date.now() - startTime,
-      completed_at: new Date(),
-    });
-    throw new InternalServerError(`ERP export failed: ${error.message}`);
-  }
+
+    return {
+      status: products.failed > 0 ? "PARTIAL_SUCCESS" : "SUCCESS",
+      responseStatus: orderResult.status,
+      responseBody: { order: orderResult.body, products },
+    };
+  },
+
+  classifyError(error) {
+    return {
+      code: "UNKNOWN_ERROR" satisfies ErpExportErrorCode,
+      message: `ERP export failed: ${error.message}`,
+    };
+  },
+
+  isTransientError(errorCode) {
+    return TRANSIENT_ERROR_CODES.has(errorCode as ErpExportErrorCode);
+  },
+};
+
+// ── Main pipeline ────────────────────────────────────────────────
+
+export type ErpExportResult = ExportTargetResult;
+
+/**
+ * Full ERP export pipeline with 3-write logging.
+ * Sends: PUT order (status + column_values), POST comment, product lines.
+ */
+export function exportFormToErp(
+  pool: Pool,
+  formId: number,
+  actor: Actor,
+  testMode: boolean,
+  exportBatchId?: string
+): Promise<ErpExportResult> {
+  return runExportTarget(erpExportTarget, {
+    pool,
+    formId,
+    actor,
+    raynetName: undefined,
+    testMode,
+    exportBatchId,
+  });
 }
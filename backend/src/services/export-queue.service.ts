@@ -0,0 +1,412 @@
+/**
+ * Durable export queue — runs ADMF exports (Raynet, ERP, … see export-targets) outside the HTTP request.
+ *
+ * Flow:
+ *   - Routes call `enqueueFormExport` → one export_jobs row per target (QUEUED), same export_batch_id.
+ *     The requester's role is stored on the job; each attempt re-checks their access.
+ *   - The in-process worker polls `claimNextExportJob` (SKIP LOCKED) and runs the target through
+ *     `runExportTarget`. Each attempt still writes its own PENDING → SENDING → SUCCESS/FAILED
+ *     log row, so the logs remain the per-attempt audit trail.
+ *   - Transient failures (target.isTransientError: 5xx, timeouts, ERP lock) are re-queued with
+ *     exponential backoff until `max_attempts`; everything else fails the job immediately.
+ *   - An attempt that stopped after its request went out (log row left SENDING) may have landed.
+ *     The row is left to the stuck-export reconciler, and the job's next attempt waits until the
+ *     reconciler has settled it: SUCCESS completes the job, UNKNOWN fails it, FAILED retries.
+ *
+ * Env:
+ *   EXPORT_WORKER_ENABLED       "false" disables the worker in this process (default enabled)
+ *   EXPORT_WORKER_POLL_MS       idle poll interval (default 2000)
+ *   EXPORT_JOB_MAX_ATTEMPTS     attempts per job incl. the first one (default 5)
+ *   EXPORT_RETRY_BASE_DELAY_MS  delay before the 2nd attempt, doubled each time (default 30000)
+ *   EXPORT_RETRY_MAX_DELAY_MS   backoff cap (default 900000 = 15 min)
+ *   EXPORT_JOB_LOCK_TIMEOUT_MS  RUNNING jobs older than this are re-queued (default 600000)
+ *   EXPORT_RECONCILE_INTERVAL_MS  how long a job waiting for the reconciler is put back (default 300000)
+ */
+
+import { Pool } from "pg";
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+import * as exportJobsQueries from "../queries/export-jobs.queries";
+import * as formsQueries from "../queries/forms.queries";
+import * as ordersQueries from "../queries/orders.queries";
+import { runExportTarget } from "./export-target.service";
+import { EXPORT_TARGETS, getExportTarget } from "./export-targets";
+import { requireFormAccess } from "./order-access.service";
+import { ExportJobRecord, ExportJobTarget } from "../types/export-jobs.types";
+import { Actor } from "../types/access.types";
+import { ExportTarget, ExportTargetLogRecord } from "../types/export-target.types";
+import { BadRequestError, NotFoundError } from "../utils/errors";
+
+function envInt(key: string, fallback: number): number {
+  const raw = process.env[key];
+  const parsed = raw != null ? parseInt(raw, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// ── Enqueue ──────────────────────────────────────────────────────
+
+export interface EnqueueFormExportParams {
+  pool: Pool;
+  formId: number;
+  actor: Actor;
+  raynetName: string | undefined;
+  testMode: boolean;
+  targets: ExportJobTarget[];
+  /** Preview the user confirmed, per target; stored on the job and its logs. */
+  confirmedPreviews?: Partial<Record<ExportJobTarget, Record<string, unknown>>>;
+}
+
+export interface EnqueueFormExportResult {
+  exportBatchId: string;
+  jobs: ExportJobRecord[];
+}
+
+/**
+ * Enqueue one job per target under a fresh export_batch_id.
+ * Checks write access and that the form is an ADMF, and runs each target's
+ * `assertQueueable`, so request-level errors reach the caller synchronously.
+ */
+export async function enqueueFormExport(
+  params: EnqueueFormExportParams
+): Promise<EnqueueFormExportResult> {
+  const { pool, formId, actor, testMode } = params;
+  const { ownerId } = await requireFormAccess(pool, actor, formId, "WRITE", "export.enqueue");
+  const form = await formsQueries.getFormById(pool, formId, ownerId);
+  if (!form) throw new NotFoundError("Form not found");
+  if (form.form_type !== "admf") throw new BadRequestError("Only ADMF forms can be exported");
+
+  const targets = params.targets.map(getExportTarget);
+  if (targets.some((t) => t.assertQueueable)) {
+    const order = form.order_id != null ? await ordersQueries.getOrderById(pool, form.order_id, ownerId) : null;
+    for (const target of targets) {
+      await target.assertQueueable?.({ pool, form, order, testMode });
+    }
+  }
+
+  const exportBatchId = randomUUID();
+  const maxAttempts = envInt("EXPORT_JOB_MAX_ATTEMPTS", 5);
+  const jobs = await exportJobsQueries.enqueueExportJobs(
+    params.pool,
+    params.targets.map((target) => ({
+      export_batch_id: exportBatchId,
+      target,
+      form_id: params.formId,
+      user_id: actor.userId,
+      user_role: actor.role,
+      raynet_user_name: params.raynetName ?? null,
+      test_mode: params.testMode,
+      max_attempts: maxAttempts,
+      confirmed_preview: params.confirmedPreviews?.[target] ?? null,
+    }))
+  );
+  wakeExportWorker();
+  return { exportBatchId, jobs };
+}
+
+// ── Status ───────────────────────────────────────────────────────
+
+/** Per target key (`raynet`, `erp`, …), in EXPORT_TARGETS order. */
+export type ExportLogsByTarget = Record<string, ExportTargetLogRecord | null>;
+
+/**
+ * Latest export log per target for a form, after a READ access check.
+ * @param successOnly - only SUCCESS / PARTIAL_SUCCESS rows (export-status)
+ */
+export async function getFormExportLogs(
+  pool: Pool,
+  actor: Actor,
+  formId: number,
+  successOnly: boolean
+): Promise<ExportLogsByTarget> {
+  await requireFormAccess(pool, actor, formId, "READ", "export.status.view");
+  const logs = await Promise.all(
+    EXPORT_TARGETS.map((t) =>
+      successOnly ? t.logs.getLatestSuccessForForm(pool, formId) : t.logs.getLatestForForm(pool, formId)
+    )
+  );
+  return Object.fromEntries(EXPORT_TARGETS.map((t, i) => [t.key, logs[i]]));
+}
+
+export interface ExportBatchStatus {
+  jobs: ExportJobRecord[];
+  logs: ExportLogsByTarget;
+}
+
+/**
+ * Jobs and latest log per target of an export batch. A batch belongs to one form; the
+ * caller needs READ access to it, like for the form's own export status.
+ * @throws NotFoundError when the batch does not exist or the actor cannot read its form
+ */
+export async function getExportBatchStatus(
+  pool: Pool,
+  actor: Actor,
+  exportBatchId: string
+): Promise<ExportBatchStatus> {
+  const [jobs, logs] = await Promise.all([
+    exportJobsQueries.getExportJobsByBatchId(pool, exportBatchId),
+    Promise.all(EXPORT_TARGETS.map((t) => t.logs.getLatestByBatchId(pool, exportBatchId))),
+  ]);
+  const formId = jobs[0]?.form_id ?? logs.find((log) => log != null)?.form_id;
+  if (formId == null) throw new NotFoundError("Export batch not found");
+  try {
+    await requireFormAccess(pool, actor, formId, "READ", "export.status.view");
+  } catch (error) {
+    if (error instanceof NotFoundError) throw new NotFoundError("Export batch not found");
+    throw error;
+  }
+  return {
+    jobs: jobs.filter((job) => job.form_id === formId),
+    logs: Object.fromEntries(
+      EXPORT_TARGETS.map((t, i) => [t.key, logs[i]?.form_id === formId ? logs[i] : null])
+    ),
+  };
+}
+
+// ── Attempt execution ────────────────────────────────────────────
+
+/**
+ * Delay before attempt `attempt + 1`: base × 2^(attempt-1), capped.
+ * attempt is 1-based (the attempt that just failed).
+ */
+export function computeRetryDelayMs(attempt: number): number {
+  const base = envInt("EXPORT_RETRY_BASE_DELAY_MS", 30_000);
+  const cap = envInt("EXPORT_RETRY_MAX_DELAY_MS", 900_000);
+  return Math.min(cap, base * 2 ** Math.max(0, attempt - 1));
+}
+
+interface AttemptLogInfo {
+  logId: number | null;
+  status: string | null;
+  errorCode: string | null;
+}
+
+/** Latest log row this job's current attempt wrote (same batch, same target). */
+async function loadAttemptLog(pool: Pool, job: ExportJobRecord): Promise<AttemptLogInfo> {
+  const log = await getExportTarget(job.target).logs.getLatestByBatchId(pool, job.export_batch_id);
+  if (!log || (job.last_log_id != null && log.id === job.last_log_id)) {
+    // No new row → the attempt failed before Write 1 (validation, missing link).
+    return { logId: null, status: null, errorCode: null };
+  }
+  return { logId: log.id, status: log.status, errorCode: log.error_code };
+}
+
+/** Error code of an error thrown out of the pipeline: its own code, else the target's classification. */
+function classifyAttemptError(target: ExportTarget, error: any): string {
+  return typeof error?.code === "string" && error.code ? error.code : target.classifyError(error).code;
+}
+
+/**
+ * The pipelines re-throw ApiErrors raised mid-flight (e.g. a Raynet network error)
+ * without a final log write. A row that never got to SENDING sent nothing: close it
+ * as FAILED so the attempt ends in a terminal state before the next one starts.
+ * SENDING rows are left to the reconciler (see `settlePreviousAttempt`).
+ */
+async function closeDanglingAttemptLog(
+  pool: Pool,
+  job: ExportJobRecord,
+  logId: number,
+  message: string,
+  errorCode: string
+): Promise<void> {
+  await getExportTarget(job.target).logs.update(pool, logId, {
+    status: "FAILED",
+    error_message: message,
+    error_code: errorCode,
+    completed_at: new Date(),
+  });
+}
+
+/**
+ * Before an attempt: look at the batch's latest log row. A previous attempt of this job
+ * may have stopped mid-flight (thrown after sending, crashed worker, expired lock):
+ *   - SENDING   may have landed — wait for the reconciler (job re-queued, attempt given back)
+ *   - SUCCESS / PARTIAL_SUCCESS   it landed (e.g. crash before the job write) — complete the job
+ *   - UNKNOWN   the reconciler could not verify it — fail the job rather than export twice
+ * Returns true when the job was settled here and must not run.
+ */
+async function settlePreviousAttempt(
+  pool: Pool,
+  job: ExportJobRecord,
+  workerId: string,
+  target: ExportTarget
+): Promise<boolean> {
+  const previous = await target.logs.getLatestByBatchId(pool, job.export_batch_id);
+  if (!previous) return false;
+  if (previous.status === "SENDING") {
+    await exportJobsQueries.completeExportJobAttempt(pool, job.id, workerId, {
+      status: "QUEUED",
+      last_log_id: previous.id,
+      last_error_message: `Waiting for the reconciler to settle log #${previous.id} (its request may have reached ${target.label})`,
+      last_error_code: "AWAITING_RECONCILE",
+      run_after: new Date(Date.now() + envInt("EXPORT_RECONCILE_INTERVAL_MS", 300_000)),
+      attempt_not_run: true,
+    });
+    return true;
+  }
+  if (previous.status === "SUCCESS" || previous.status === "PARTIAL_SUCCESS") {
+    await exportJobsQueries.completeExportJobAttempt(pool, job.id, workerId, {
+      status: "SUCCESS",
+      last_log_id: previous.id,
+      result: {
+        logId: previous.id,
+        exportedAt: (previous.completed_at ?? previous.created_at).toISOString(),
+        warnings: previous.warnings ?? [],
+      },
+    });
+    return true;
+  }
+  if (previous.status === "UNKNOWN") {
+    await exportJobsQueries.completeExportJobAttempt(pool, job.id, workerId, {
+      status: "FAILED",
+      last_log_id: previous.id,
+      last_error_message: `Outcome of log #${previous.id} could not be verified — check ${target.label} before exporting again`,
+      last_error_code: previous.error_code ?? "RECONCILE_UNVERIFIED",
+    });
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Run one claimed job and persist its outcome (SUCCESS, re-QUEUED or FAILED).
+ */
+export async function runExportJob(pool: Pool, job: ExportJobRecord, workerId: string): Promise<void> {
+  const target = getExportTarget(job.target);
+  // Throws leave the job RUNNING for the stale-lock sweep, like any other worker failure.
+  if (await settlePreviousAttempt(pool, job, workerId, target)) return;
+  try {
+    const result = await runExportTarget(target, {
+      pool,
+      formId: job.form_id,
+      actor: { userId: job.user_id, role: job.user_role },
+      raynetName: job.raynet_user_name ?? undefined,
+      testMode: job.test_mode,
+      exportBatchId: job.export_batch_id,
+      confirmedPreview: job.confirmed_preview,
+    });
+
+    await exportJobsQueries.completeExportJobAttempt(pool, job.id, workerId, {
+      status: "SUCCESS",
+      last_log_id: result.logId,
+      result: {
+        logId: result.logId,
+        exportedAt: result.exportedAt.toISOString(),
+        warnings: result.warnings,
+      },
+    });
+  } catch (error: any) {
+    const message: string = error?.message ?? "Unknown error";
+    const attemptLog = await loadAttemptLog(pool, job).catch(
+      (): AttemptLogInfo => ({ logId: null, status: null, errorCode: null })
+    );
+
+    let errorCode: string;
+    let transient: boolean;
+    if (attemptLog.logId == null) {
+      // Failed before any log row — request-level problem, retrying won't help.
+      errorCode = error?.code ?? "UNKNOWN_ERROR";
+      transient = false;
+    } else if (attemptLog.status !== "FAILED") {
+      errorCode = classifyAttemptError(target, error);
+      transient = target.isTransientError(errorCode);
+      // SENDING stays in flight for the reconciler; the retry waits for it (settlePreviousAttempt).
+      if (attemptLog.status !== "SENDING") {
+        await closeDanglingAttemptLog(pool, job, attemptLog.logId, message, errorCode);
+      }
+    } else {
+      errorCode = attemptLog.errorCode ?? "UNKNOWN_ERROR";
+      transient = target.isTransientError(errorCode);
+    }
+
+    const canRetry = transient && job.attempts < job.max_attempts;
+    await exportJobsQueries.completeExportJobAttempt(pool, job.id, workerId, {
+      status: canRetry ? "QUEUED" : "FAILED",
+      last_log_id: attemptLog.logId,
+      last_error_message: message,
+      last_error_code: errorCode,
+      run_after: canRetry ? new Date(Date.now() + computeRetryDelayMs(job.attempts)) : undefined,
+    });
+
+    console.warn(
+      `Export job ${job.id} (${job.target}, attempt ${job.attempts}/${job.max_attempts}) failed: ${errorCode} — ${
+        canRetry ? "will retry" : "giving up"
+      }`
+    );
+  }
+}
+
+// ── Worker ───────────────────────────────────────────────────────
+
+interface WorkerState {
+  pool: Pool;
+  workerId: string;
+  timer: NodeJS.Timeout | null;
+  running: boolean;
+  stopped: boolean;
+  lastStaleSweep: number;
+}
+
+let worker: WorkerState | null = null;
+
+/** Drain runnable jobs one at a time, then schedule the next poll. */
+async function tick(): Promise<void> {
+  const state = worker;
+  if (!state || state.stopped || state.running) return;
+  state.running = true;
+  state.timer = null;
+
+  try {
+    const lockTimeoutMs = envInt("EXPORT_JOB_LOCK_TIMEOUT_MS", 600_000);
+    if (Date.now() - state.lastStaleSweep >= 60_000) {
+      state.lastStaleSweep = Date.now();
+      const released = await exportJobsQueries.releaseStaleExportJobs(state.pool, lockTimeoutMs);
+      if (released > 0) console.warn(`Released ${released} stale export job lock(s)`);
+    }
+
+    while (!state.stopped) {
+      const job = await exportJobsQueries.claimNextExportJob(state.pool, state.workerId);
+      if (!job) break;
+      await runExportJob(state.pool, job, state.workerId);
+    }
+  } catch (error: any) {
+    console.error("Export worker tick failed:", error?.message ?? error);
+  } finally {
+    state.running = false;
+    if (!state.stopped) {
+      state.timer = setTimeout(tick, envInt("EXPORT_WORKER_POLL_MS", 2_000));
+    }
+  }
+}
+
+/** Start the in-process worker (no-op when disabled or already running). */
+export function startExportWorker(pool: Pool): void {
+  if (worker || process.env.EXPORT_WORKER_ENABLED === "false") return;
+  worker = {
+    pool,
+    workerId: `${hostname()}:${process.pid}`,
+    timer: null,
+    running: false,
+    stopped: false,
+    lastStaleSweep: 0,
+  };
+  console.log(`Export worker started (${worker.workerId})`);
+  void tick();
+}
+
+/** Run a tick right away instead of waiting for the next poll (after enqueue). */
+function wakeExportWorker(): void {
+  if (!worker || worker.stopped || worker.running) return;
+  if (worker.timer) clearTimeout(worker.timer);
+  void tick();
+}
+
+/**
+ * Stop polling. The job in flight (if any) finishes on its own; a process exit
+ * before that leaves it RUNNING until the stale-lock sweep re-queues it.
+ */
+export function stopExportWorker(): void {
+  if (!worker) return;
+  worker.stopped = true;
+  if (worker.timer) clearTimeout(worker.timer);
+  worker = null;
+}
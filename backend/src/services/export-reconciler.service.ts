@@ -0,0 +1,446 @@
+/**
+ * Stuck-export reconciler — closes log rows left in flight by a crashed or restarted backend.
+ *
+ * A pipeline that dies between its SENDING write and its final write leaves the row
+ * PENDING / SENDING forever (the export queue retries the *job*, but never closes the
+ * old attempt's row). This job periodically picks such rows up and checks the remote
+ * system to see whether the write actually landed:
+ *   - export_logs RAYNET  re-read the Raynet event, compare customFields with event_update
+ *   - export_logs ERP     read the order from the ERP replica, compare status / updated_at
+ *   - retention_logs      re-read the Raynet event, compare the custom fields the request set
+ * and moves the row to SUCCESS, FAILED or UNKNOWN with an explanation in
+ * error_message / warnings (reconciled_at marks rows closed this way).
+ *
+ * Rows that never reached the remote call (PENDING, test mode) are FAILED straight away.
+ * When verification itself fails transiently (network, 5xx, replica down), the row is left
+ * for the next run until it is EXPORT_RECONCILE_GIVE_UP_HOURS old, then closed as UNKNOWN.
+ *
+ * Env:
+ *   EXPORT_RECONCILER_ENABLED        "false" disables the timer in this process (default enabled)
+ *   EXPORT_RECONCILE_INTERVAL_MS     delay between runs (default 300000 = 5 min)
+ *   EXPORT_RECONCILE_STUCK_MINUTES   in-flight age that counts as stuck (default 15; keep it above
+ *                                    EXPORT_JOB_LOCK_TIMEOUT_MS so a live attempt is never touched)
+ *   EXPORT_RECONCILE_GIVE_UP_HOURS   stop retrying verification after this (default 24)
+ */
+
+import { Pool } from "pg";
+import * as stuckExportLogsQueries from "../queries/stuck-export-logs.queries";
+import * as erpOrdersQueries from "../queries/erp-orders.queries";
+import { raynetJsonRequest } from "./raynet-api.client";
+import { asRecord, normalizeFieldValue } from "../utils/export-field-diff";
+import { EXPORT_LOG_SOURCES, ExportLogSource } from "../types/export-monitoring.types";
+import type {
+  ReconcileResolution,
+  ReconcileRunItem,
+  ReconcileRunSummary,
+  ReconcileVerdict,
+  ReconcileWarning,
+  StuckExportLogRow,
+} from "../types/export-reconcile.types";
+import type { ExportErrorCode } from "../types/raynet-export.types";
+import type { ErpExportErrorCode } from "../types/erp-export.types";
+import type { RetentionErrorCode } from "../types/retention.types";
+
+/** Error codes shared by the three log sources for reconciled rows. */
+type ReconcileErrorCode = ExportErrorCode & ErpExportErrorCode & RetentionErrorCode;
+
+const BATCH_LIMIT = 50;
+
+function envInt(key: string, fallback: number): number {
+  const raw = process.env[key];
+  const parsed = raw != null ? parseInt(raw, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// ── Verdict helpers ──────────────────────────────────────────────
+
+function interrupted(message: string): ReconcileResolution {
+  return { status: "FAILED", errorCode: "EXPORT_INTERRUPTED" satisfies ReconcileErrorCode, message };
+}
+
+function notApplied(message: string, evidence?: Record<string, unknown>): ReconcileResolution {
+  return { status: "FAILED", errorCode: "RECONCILE_NOT_APPLIED" satisfies ReconcileErrorCode, message, evidence };
+}
+
+function unverified(message: string, evidence?: Record<string, unknown>): ReconcileResolution {
+  return { status: "UNKNOWN", errorCode: "RECONCILE_UNVERIFIED" satisfies ReconcileErrorCode, message, evidence };
+}
+
+/** Verdict for rows that never left the backend, shared by all sources. */
+function checkNotSent(row: StuckExportLogRow): ReconcileVerdict | null {
+  if (row.superseded_by != null) {
+    return unverified(
+      `Attempt interrupted; superseded by log #${row.superseded_by}, which completed — this attempt's outcome no longer matters.`
+    );
+  }
+  if (row.status === "PENDING" || row.status === "MAPPING") {
+    return interrupted(`Export interrupted in ${row.status} — nothing was sent.`);
+  }
+  if (row.test_mode) {
+    return interrupted("Test-mode export interrupted — nothing was sent.");
+  }
+  return null;
+}
+
+// ── Raynet event comparison ──────────────────────────────────────
+
+interface FieldComparison {
+  matched: string[];
+  mismatched: Array<{ field: string; expected: unknown; actual: unknown }>;
+}
+
+function compareCustomFields(expected: Record<string, unknown>, actual: Record<string, unknown>): FieldComparison {
+  const out: FieldComparison = { matched: [], mismatched: [] };
+  for (const [field, value] of Object.entries(expected)) {
+    if (normalizeFieldValue(value) === normalizeFieldValue(actual[field])) out.matched.push(field);
+    else out.mismatched.push({ field, expected: value, actual: actual[field] ?? null });
+  }
+  return out;
+}
+
+type RaynetEventRead =
+  | { ok: true; customFields: Record<string, unknown> }
+  | { ok: false; verdict: ReconcileVerdict };
+
+async function readRaynetEventCustomFields(eventId: number): Promise<RaynetEventRead> {
+  let res: Awaited<ReturnType<typeof raynetJsonRequest>>;
+  try {
+    res = await raynetJsonRequest({
+      step: "reconcile_event_get",
+      method: "GET",
+      path: `/api/v2/event/${eventId}/`,
+    });
+  } catch (error: any) {
+    // Network error or missing RAYNET_* config — try again next run.
+    return { ok: false, verdict: { defer: true, message: error?.message ?? "Raynet GET failed" } };
+  }
+  if (res.status === 404) {
+    return { ok: false, verdict: unverified(`Raynet event ${eventId} no longer exists — cannot verify.`) };
+  }
+  if (res.status < 200 || res.status >= 300) {
+    return { ok: false, verdict: { defer: true, message: `Raynet GET returned HTTP ${res.status}` } };
+  }
+  const data = asRecord(res.body)?.data ?? res.body;
+  return { ok: true, customFields: asRecord(asRecord(data)?.customFields) ?? {} };
+}
+
+/**
+ * Shared custom-field verdict: all fields present → landed, none → not applied,
+ * a mix → somebody (or a later export) changed the event in between.
+ */
+function customFieldsVerdict(
+  eventId: number,
+  comparison: FieldComparison
+): { landed: true } | { landed: false; verdict: ReconcileVerdict } {
+  const evidence = { raynet_event_id: eventId, ...comparison };
+  if (comparison.mismatched.length === 0) return { landed: true };
+  if (comparison.matched.length === 0) {
+    return {
+      landed: false,
+      verdict: notApplied(
+        `None of the ${comparison.mismatched.length} custom fields are on Raynet event ${eventId}.`,
+        evidence
+      ),
+    };
+  }
+  return {
+    landed: false,
+    verdict: unverified(
+      `Raynet event ${eventId} matches ${comparison.matched.length} of ${
+        comparison.matched.length + comparison.mismatched.length
+      } custom fields (differs: ${comparison.mismatched.map((m) => m.field).join(", ")}).`,
+      evidence
+    ),
+  };
+}
+
+// ── Per-source verification ──────────────────────────────────────
+
+async function verifyRaynetExportLog(row: StuckExportLogRow): Promise<ReconcileVerdict> {
+  const notSent = checkNotSent(row);
+  if (notSent) return notSent;
+
+  const payload = row.request_payload ?? {};
+  const expected = asRecord(asRecord(payload.event_update)?.customFields);
+  if (!expected || row.external_id == null) {
+    return interrupted("Export interrupted before the event payload was stored — nothing was sent.");
+  }
+
+  const read = await readRaynetEventCustomFields(row.external_id);
+  if (!read.ok) return read.verdict;
+
+  const comparison = compareCustomFields(expected, read.customFields);
+  const fields = customFieldsVerdict(row.external_id, comparison);
+  if (!fields.landed) return fields.verdict;
+
+  // Event update landed; attachments are best-effort and only traceable through the payload.
+  const attempts = Array.isArray(payload.attachments) ? payload.attachments.map(asRecord) : [];
+  const summary = asRecord(payload.attachments_summary);
+  const evidence = { raynet_event_id: row.external_id, matched: comparison.matched };
+  const warnings: ReconcileWarning[] = [];
+
+  if (!summary) {
+    warnings.push({
+      code: "ATTACHMENTS_UNVERIFIED",
+      field: "attachments",
+      reason: "Interrupted before attachment upload started; attachments were probably not uploaded.",
+    });
+  } else {
+    const total = typeof summary.total === "number" ? summary.total : attempts.length;
+    const notDone = attempts
+      .filter((a) => a?.status !== "SUCCESS")
+      .map((a) => String(a?.filename ?? "?"));
+    for (const filename of notDone) {
+      warnings.push({
+        code: "ATTACHMENTS_UNVERIFIED",
+        field: `attachment:${filename}`,
+        reason: "Upload was failed or interrupted.",
+      });
+    }
+    if (attempts.length < total) {
+      warnings.push({
+        code: "ATTACHMENTS_UNVERIFIED",
+        field: "attachments",
+        reason: `${total - attempts.length} of ${total} attachments were never attempted.`,
+      });
+    }
+  }
+
+  if (warnings.length > 0) {
+    return {
+      status: "PARTIAL_SUCCESS",
+      message: "Event update verified on Raynet; attachment upload did not finish.",
+      warnings,
+      evidence,
+    };
+  }
+  return { status: "SUCCESS", message: "Event update and attachments verified on Raynet.", evidence };
+}
+
+async function verifyErpExportLog(row: StuckExportLogRow): Promise<ReconcileVerdict> {
+  const notSent = checkNotSent(row);
+  if (notSent) return notSent;
+
+  const update = asRecord(row.request_payload?.order_update);
+  const expectedStatus = typeof update?.status === "string" ? update.status : null;
+  if (!expectedStatus || row.external_id == null) {
+    return interrupted("Export interrupted before the order payload was stored — nothing was sent.");
+  }
+  if (!process.env.ERP_DATABASE_URL) {
+    return unverified("ERP replica is not configured (ERP_DATABASE_URL) — cannot verify.");
+  }
+
+  let order: erpOrdersQueries.ErpOrderChangeState | null;
+  try {
+    order = await erpOrdersQueries.getErpOrderChangeState(row.external_id, row.created_at);
+  } catch (error: any) {
+    return { defer: true, message: error?.message ?? "ERP replica read failed" };
+  }
+
+  const evidence = {
+    erp_order_id: row.external_id,
+    expected_status: expectedStatus,
+    erp_status: order?.status ?? null,
+    erp_updated_at: order?.updated_at ?? null,
+  };
+  if (!order) {
+    return unverified(`ERP order ${row.external_id} not found in the replica — cannot verify.`, evidence);
+  }
+  if (!order.modified_since) {
+    return notApplied(`ERP order ${row.external_id} has not changed since the export started.`, evidence);
+  }
+  if (order.status !== expectedStatus) {
+    return unverified(
+      `ERP order ${row.external_id} changed since the export started, but its status is "${order.status}", not "${expectedStatus}".`,
+      evidence
+    );
+  }
+  // The replica doesn't expose comments per export — say so instead of guessing. Product
+  // lines are judged from the per-line progress the sync stored in request_payload.
+  const warnings: ReconcileWarning[] = [
+    {
+      code: "RECONCILED",
+      field: "comment",
+      reason: "Order status verified from the ERP replica; comment was not verified.",
+    },
+  ];
+  const products = Array.isArray(row.request_payload?.products) ? row.request_payload.products : [];
+  const sync = row.request_payload?.products_sync;
+  if (!Array.isArray(sync)) {
+    if (products.length > 0) {
+      warnings.push({
+        code: "PRODUCT_SYNC_FAILED",
+        field: "products",
+        reason: "Interrupted before product sync started; product lines were probably not sent.",
+      });
+    }
+  } else {
+    for (const line of sync as Array<Record<string, unknown>>) {
+      if (line?.status === "SUCCESS") continue;
+      warnings.push({
+        code: "PRODUCT_SYNC_FAILED",
+        field: `product:${String(line?.row_key ?? "?")}`,
+        reason: `${String(line?.action ?? "Sync")} was failed or interrupted.`,
+      });
+    }
+  }
+
+  const productsDone = !warnings.some((w) => w.code === "PRODUCT_SYNC_FAILED");
+  return {
+    status: productsDone ? "SUCCESS" : "PARTIAL_SUCCESS",
+    message: productsDone
+      ? `ERP order ${row.external_id} is in status "${expectedStatus}" and changed after the export started.`
+      : `ERP order ${row.external_id} update verified; product line sync did not finish.`,
+    warnings,
+    evidence,
+  };
+}
+
+async function verifyRetentionLog(row: StuckExportLogRow): Promise<ReconcileVerdict> {
+  const notSent = checkNotSent(row);
+  if (notSent) return notSent;
+
+  const raynet = asRecord(row.request_payload?.raynet);
+  const expected = asRecord(raynet?.custom_fields);
+  if (row.kind !== "OVT_REQUEST" || !expected) {
+    // OFFICE_EXPORT rows are written by the office app with its own payload shape.
+    return unverified(`Cannot verify ${row.kind ?? "retention"} rows from this backend.`);
+  }
+  const eventId = typeof raynet?.event_id === "number" ? raynet.event_id : row.external_id;
+  if (eventId == null) {
+    return interrupted("Request interrupted before the Raynet event was resolved — nothing was sent.");
+  }
+
+  const read = await readRaynetEventCustomFields(eventId);
+  if (!read.ok) return read.verdict;
+
+  const comparison = compareCustomFields(expected, read.customFields);
+  const fields = customFieldsVerdict(eventId, comparison);
+  if (!fields.landed) return fields.verdict;
+  return {
+    status: "SUCCESS",
+    message: `Retention flag verified on Raynet event ${eventId}.`,
+    evidence: { raynet_event_id: eventId, matched: comparison.matched },
+  };
+}
+
+const VERIFIERS: Record<ExportLogSource, (row: StuckExportLogRow) => Promise<ReconcileVerdict>> = {
+  raynet: verifyRaynetExportLog,
+  erp: verifyErpExportLog,
+  retention: verifyRetentionLog,
+};
+
+// ── Run ──────────────────────────────────────────────────────────
+
+/**
+ * One reconciliation pass over all three log tables.
+ * Safe to run concurrently with the pipelines: each close is conditional on the row
+ * still being in flight.
+ */
+export async function reconcileStuckExports(pool: Pool): Promise<ReconcileRunSummary> {
+  const startedAt = new Date();
+  const stuckMinutes = envInt("EXPORT_RECONCILE_STUCK_MINUTES", 15);
+  const giveUpMs = envInt("EXPORT_RECONCILE_GIVE_UP_HOURS", 24) * 3_600_000;
+  const items: ReconcileRunItem[] = [];
+  let checked = 0;
+
+  for (const source of EXPORT_LOG_SOURCES) {
+    const rows = await stuckExportLogsQueries.listStuckExportLogs(pool, source, stuckMinutes, BATCH_LIMIT);
+    for (const row of rows) {
+      checked += 1;
+      const result = await VERIFIERS[source](row);
+
+      let verdict: ReconcileResolution;
+      if ("defer" in result) {
+        const ageMs = Date.now() - new Date(row.created_at).getTime();
+        if (ageMs < giveUpMs) {
+          items.push({ source, id: row.id, outcome: "DEFERRED", message: result.message });
+          continue;
+        }
+        verdict = unverified(`Could not verify for ${Math.round(ageMs / 3_600_000)} h: ${result.message}`);
+      } else {
+        verdict = result;
+      }
+
+      const warnings: ReconcileWarning[] = [
+        ...(verdict.warnings ?? []),
+        { code: "RECONCILED", field: "status", reason: verdict.message },
+      ];
+      const closed = await stuckExportLogsQueries.resolveStuckExportLog(pool, source, row.id, {
+        status: verdict.status,
+        error_code: verdict.errorCode ?? null,
+        error_message: verdict.errorCode ? verdict.message : null,
+        warnings,
+        response_body: {
+          reconciled: true,
+          previous_status: row.status,
+          message: verdict.message,
+          ...(verdict.evidence ? { evidence: verdict.evidence } : {}),
+        },
+      });
+      if (closed) {
+        items.push({ source, id: row.id, outcome: verdict.status, message: verdict.message });
+      }
+    }
+  }
+
+  const resolved = items.filter((i) => i.outcome !== "DEFERRED").length;
+  return {
+    started_at: startedAt,
+    finished_at: new Date(),
+    checked,
+    resolved,
+    deferred: items.length - resolved,
+    items,
+  };
+}
+
+// ── Timer ────────────────────────────────────────────────────────
+
+interface ReconcilerState {
+  pool: Pool;
+  timer: NodeJS.Timeout | null;
+  running: boolean;
+  stopped: boolean;
+}
+
+let reconciler: ReconcilerState | null = null;
+
+async function tick(): Promise<void> {
+  const state = reconciler;
+  if (!state || state.stopped || state.running) return;
+  state.running = true;
+  state.timer = null;
+
+  try {
+    const summary = await reconcileStuckExports(state.pool);
+    for (const item of summary.items) {
+      if (item.outcome !== "DEFERRED") {
+        console.warn(`Reconciled stuck ${item.source} export log ${item.id} → ${item.outcome}: ${item.message}`);
+      }
+    }
+  } catch (error: any) {
+    console.error("Export reconciler run failed:", error?.message ?? error);
+  } finally {
+    state.running = false;
+    if (!state.stopped) {
+      state.timer = setTimeout(tick, envInt("EXPORT_RECONCILE_INTERVAL_MS", 300_000));
+    }
+  }
+}
+
+/** Start the periodic reconciler (no-op when disabled or already running). */
+export function startExportReconciler(pool: Pool): void {
+  if (reconciler || process.env.EXPORT_RECONCILER_ENABLED === "false") return;
+  reconciler = { pool, timer: null, running: false, stopped: false };
+  console.log("Export reconciler started");
+  void tick();
+}
+
+/** Stop the timer; a run in flight finishes on its own. */
+export function stopExportReconciler(): void {
+  if (!reconciler) return;
+  reconciler.stopped = true;
+  if (reconciler.timer) clearTimeout(reconciler.timer);
+  reconciler = null;
+}
@@ -0,0 +1,281 @@
+/**
+ * Export-target runner — the pipeline every ADMF export goes through, whatever the destination.
+ *
+ *   Step 0   load form + order (shared checks), target.validate → remote record id
+ *   Write 1  CREATE log (PENDING)
+ *            target.buildPayload → payload + warnings
+ *   Write 2  UPDATE log (SENDING) — request_payload + warnings
+ *            test mode: Write 3 SUCCESS without calling the target
+ *            target.send → SUCCESS / PARTIAL_SUCCESS / FAILED
+ *   Write 3  UPDATE log (final status)
+ *
+ * ApiErrors thrown by a target propagate unchanged (the export queue closes a row left
+ * in flight); anything else is classified by the target and written as FAILED.
+ *
+ * `previewExportTarget` runs the same steps up to buildPayload without writing anything
+ * and diffs the payload against the remote record (target.previewChanges).
+ *
+ * Targets are registered in export-targets; see raynet-export.service and
+ * erp-export.service for the two built-in ones.
+ */
+
+import { Pool } from "pg";
+import * as formsQueries from "../queries/forms.queries";
+import * as ordersQueries from "../queries/orders.queries";
+import * as exportLogsQueries from "../queries/export-logs.queries";
+import {
+  ExportTarget,
+  ExportTargetBuild,
+  ExportTargetContext,
+  ExportTargetId,
+  ExportTargetLogStore,
+  ExportTargetPreview,
+  ExportTargetResult,
+} from "../types/export-target.types";
+import { diffPayloadFields } from "../utils/export-field-diff";
+import * as orderEventsService from "./order-events.service";
+import { requireFormAccess } from "./order-access.service";
+import type { Actor, OrderAccessLevel } from "../types/access.types";
+import type { OrderEventStatus } from "../types/order-events.types";
+import { ApiError, BadRequestError, InternalServerError } from "../utils/errors";
+
+export interface RunExportTargetParams {
+  pool: Pool;
+  formId: number;
+  actor: Actor;
+  raynetName: string | undefined;
+  testMode: boolean;
+  exportBatchId?: string;
+  /** Preview the user confirmed; stored with the log row. */
+  confirmedPreview?: Record<string, unknown> | null;
+}
+
+/**
+ * Load the form + order behind an export and run the shared checks. Exports need write
+ * access to the order, a preview only read access.
+ */
+async function loadExportContext(
+  target: Pick<ExportTarget, "id" | "label">,
+  params: RunExportTargetParams,
+  level: OrderAccessLevel
+): Promise<ExportTargetContext> {
+  const { pool, formId, actor } = params;
+  const action = `${level === "WRITE" ? "export.run" : "export.preview"}.${target.id.toLowerCase()}`;
+  const { ownerId } = await requireFormAccess(pool, actor, formId, level, action);
+  const form = await formsQueries.getFormById(pool, formId, ownerId);
+  if (!form) throw new BadRequestError("Form not found", "FORM_NOT_FOUND");
+  if (form.form_type !== "admf") {
+    throw new BadRequestError(`Only ADMF forms can be exported to ${target.label}`);
+  }
+
+  const orderId = form.order_id;
+  if (!orderId) throw new BadRequestError("Form is not linked to an order");
+
+  const order = await ordersQueries.getOrderById(pool, orderId, ownerId);
+  if (!order) throw new BadRequestError("Order not found", "ORDER_NOT_FOUND");
+
+  return {
+    pool,
+    form,
+    order,
+    actor,
+    ownerId,
+    raynetName: params.raynetName,
+    testMode: params.testMode,
+    exportBatchId: params.exportBatchId,
+  };
+}
+
+/** Timeline entry for a finished export attempt (order-events.service). */
+async function recordExportEvent(
+  target: Pick<ExportTarget, "id" | "label">,
+  ctx: ExportTargetContext,
+  logId: number,
+  externalId: number,
+  status: OrderEventStatus,
+  errorMessage?: string
+): Promise<void> {
+  await orderEventsService.recordOrderEvent(ctx.pool, {
+    order_id: ctx.order.id,
+    form_id: ctx.form.id,
+    kind: "EXPORT",
+    actor: ctx.actor.userId,
+    status,
+    payload: {
+      target: target.id,
+      label: target.label,
+      log_id: logId,
+      external_id: externalId,
+      test_mode: ctx.testMode,
+      export_batch_id: ctx.exportBatchId ?? null,
+      error: errorMessage ?? null,
+    },
+  });
+}
+
+/**
+ * Full export of one form to one target with 3-write logging.
+ */
+export async function runExportTarget<TPrepared, TBuild extends ExportTargetBuild>(
+  target: ExportTarget<TPrepared, TBuild>,
+  params: RunExportTargetParams
+): Promise<ExportTargetResult> {
+  const ctx = await loadExportContext(target, params, "WRITE");
+  const { pool, form, order, actor, testMode } = ctx;
+  const { externalId, prepared } = await target.validate(ctx);
+
+  // ── Write 1: CREATE log (PENDING) ──
+  const startTime = Date.now();
+  const logId = await target.logs.create(pool, {
+    form_id: form.id,
+    order_id: order.id,
+    external_id: externalId,
+    user_id: actor.userId,
+    export_batch_id: params.exportBatchId,
+    test_mode: testMode,
+    confirmed_preview: params.confirmedPreview ?? null,
+  });
+
+  try {
+    // ── Build payload ──
+    const build = await target.buildPayload(ctx, prepared);
+    const { warnings } = build;
+
+    // ── Write 2: UPDATE log (SENDING) — store payload + warnings ──
+    await target.logs.update(pool, logId, {
+      status: "SENDING",
+      request_payload: build.requestPayload,
+      warnings,
+    });
+
+    if (testMode) {
+      // ── Test mode: skip the remote call, log success ──
+      const now = new Date();
+      await target.logs.update(pool, logId, {
+        status: "SUCCESS",
+        response_status: 0,
+        response_body: target.testModeResponse?.(build) ?? { testMode: true, message: "Skipped — test mode" },
+        duration_ms: Date.now() - startTime,
+        completed_at: now,
+      });
+      await recordExportEvent(target, ctx, logId, externalId, "SUCCESS");
+      return { logId, exportedAt: now, testMode: true, warnings };
+    }
+
+    // ── Step 3: Remote write ──
+    const outcome = await target.send(ctx, {
+      logId,
+      prepared,
+      build,
+      persistProgress: (requestPayload) =>
+        target.logs.update(pool, logId, { request_payload: requestPayload, warnings }),
+    });
+
+    // ── Write 3: Final status ──
+    const now = new Date();
+    if (outcome.status === "FAILED") {
+      await target.logs.update(pool, logId, {
+        status: "FAILED",
+        response_status: outcome.responseStatus,
+        response_body: outcome.responseBody,
+        error_message: outcome.errorMessage,
+        error_code: outcome.errorCode,
+        duration_ms: Date.now() - startTime,
+        completed_at: now,
+        warnings,
+      });
+      await recordExportEvent(target, ctx, logId, externalId, "FAILED", outcome.errorMessage);
+      throw new InternalServerError(outcome.thrownMessage ?? outcome.errorMessage);
+    }
+
+    await target.logs.update(pool, logId, {
+      status: outcome.status,
+      response_status: outcome.responseStatus,
+      response_body: outcome.responseBody,
+      warnings,
+      duration_ms: Date.now() - startTime,
+      completed_at: now,
+    });
+    await recordExportEvent(target, ctx, logId, externalId, outcome.status);
+    return { logId, exportedAt: now, testMode: false, warnings };
+  } catch (error: any) {
+    // Already an ApiError (might already be logged) — re-throw
+    if (error.statusCode) throw error;
+    const classified = target.classifyError(error);
+    await target.logs.update(pool, logId, {
+      status: "FAILED",
+      error_message: error.message ?? "Unknown error",
+      error_code: classified.code,
+      duration_ms: Date.now() - startTime,
+      completed_at: new Date(),
+    });
+    await recordExportEvent(target, ctx, logId, externalId, "FAILED", error.message ?? "Unknown error");
+    throw new InternalServerError(classified.message);
+  }
+}
+
+/**
+ * Dry-run of one target: what the export would send and how it differs from the remote
+ * record right now. Writes nothing. Rejections by the shared checks (form not found, not
+ * an ADMF) throw; rejections by the target (no linked record, unsigned contract) come
+ * back as `ok: false` so the other targets can still be previewed.
+ */
+export async function previewExportTarget<TPrepared, TBuild extends ExportTargetBuild>(
+  target: ExportTarget<TPrepared, TBuild>,
+  params: Omit<RunExportTargetParams, "exportBatchId" | "confirmedPreview">
+): Promise<ExportTargetPreview> {
+  const ctx = await loadExportContext(target, params, "READ");
+  const preview: ExportTargetPreview = {
+    target: target.id,
+    key: target.key,
+    label: target.label,
+    ok: false,
+    error: null,
+    external_id: null,
+    current_loaded: false,
+    current_error: null,
+    changes: [],
+    warnings: [],
+    generated_at: new Date().toISOString(),
+  };
+
+  let validation: Awaited<ReturnType<typeof target.validate>>;
+  try {
+    validation = await target.validate(ctx);
+  } catch (error: unknown) {
+    if (!(error instanceof ApiError)) throw error;
+    preview.error = { message: error.message, code: error.code ?? null };
+    return preview;
+  }
+  preview.external_id = validation.externalId;
+
+  const build = await target.buildPayload(ctx, validation.prepared);
+  preview.warnings = build.warnings;
+
+  const diff = target.previewChanges
+    ? await target.previewChanges(ctx, validation.prepared, build)
+    : {
+        currentLoaded: false,
+        currentError: `${target.label} does not support reading the current record`,
+        changes: diffPayloadFields(build.requestPayload, null),
+      };
+  preview.ok = true;
+  preview.current_loaded = diff.currentLoaded;
+  preview.current_error = diff.currentError ?? null;
+  preview.changes = diff.changes;
+  return preview;
+}
+
+/** Log store over export_logs, scoped to one target. */
+export function createExportLogStore(targetId: ExportTargetId): ExportTargetLogStore {
+  return {
+    create: (pool, params) => exportLogsQueries.createExportTargetLog(pool, targetId, params),
+    update: (pool, logId, params) => exportLogsQueries.updateExportTargetLog(pool, logId, params),
+    getLatestByBatchId: (pool, exportBatchId) =>
+      exportLogsQueries.getLatestExportTargetLogByBatchId(pool, targetId, exportBatchId),
+    getLatestSuccessForForm: (pool, formId) =>
+      exportLogsQueries.getLatestExportTargetLogForForm(pool, targetId, formId, true),
+    getLatestForForm: (pool, formId) =>
+      exportLogsQueries.getLatestExportTargetLogForForm(pool, targetId, formId, false),
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * Registry of export targets. A new destination is one ExportTarget definition
+ * (see export-target.types) added here — the queue, the export routes and the
+ * status endpoints pick it up from this list.
+ */
+
+import { raynetExportTarget } from "./raynet-export.service";
+import { erpExportTarget } from "./erp-export.service";
+import { ExportTarget, ExportTargetId } from "../types/export-target.types";
+
+/** In response order; `POST /api/forms/:id/export` queues all of them. */
+export const EXPORT_TARGETS: readonly ExportTarget[] = [raynetExportTarget, erpExportTarget];
+
+export function getExportTarget(id: ExportTargetId): ExportTarget {
+  const target = EXPORT_TARGETS.find((t) => t.id === id);
+  if (!target) throw new Error(`Unknown export target: ${id}`);
+  return target;
+}
+
+/** Lookup by the lowercase key used in URLs (`/export/:target`); null when unknown. */
+export function findExportTargetByKey(key: string): ExportTarget | null {
+  return EXPORT_TARGETS.find((t) => t.key === key) ?? null;
+}
@@ -12,6 +12,8 @@ import { STEP1_FORM_TYPES } from "../types/forms.types";
 import type { FormType } from "../types/forms.types";
 import type { ExtractProductsResponse, ExtractedProductLine } from "../types/extract-products.types";
 import { extractProductsFromForm } from "./product-extractors";
+import { requireOrderAccess } from "./order-access.service";
+import type { Actor } from "../types/access.types";
 import { NotFoundError, BadRequestError } from "../utils/errors";
 
 /**
@@ -19,16 +21,17 @@ import { NotFoundError, BadRequestError } from "../utils/errors";
  * If formIds is provided, only those forms are used (must belong to order and be step 1).
  * @param pool - Database connection pool
  * @param orderId - Order ID
- * @param userId - User ID for auth
+ * @param actor - Authenticated user (needs read access to the order)
  * @param formIds - Optional: only extract from these form IDs (must be step 1 and belong to order)
  */
 export async function extractProductsForOrder(
   pool: Pool,
   orderId: number,
-  userId: string,
+  actor: Actor,
   formIds?: number[]
 ): Promise<ExtractProductsResponse> {
-  const order = await ordersQueries.getOrderById(pool, orderId, userId);
+  const { ownerId } = await requireOrderAccess(pool, actor, orderId, "READ", "order.extract_products");
+  const order = await ordersQueries.getOrderById(pool, orderId, ownerId);
   if (!order) {
     throw new NotFoundError("Order not found");
   }
@@ -36,7 +39,7 @@ export async function extractProductsForOrder(
   let formsToUse: Awaited<ReturnType<typeof formsQueries.getFormsByUserId>>["forms"];
 
   if (formIds != null && formIds.length > 0) {
-    const { forms } = await formsQueries.getFormsByUserId(pool, userId, {
+    const { forms } = await formsQueries.getFormsByUserId(pool, ownerId, {
       order_id: orderId,
       limit: 500,
     });
@@ -48,7 +51,7 @@ export async function extractProductsForOrder(
       throw new BadRequestError("Some form IDs are invalid or not step 1 forms of this order", "INVALID_FORM_IDS");
     }
   } else {
-    const { forms } = await formsQueries.getFormsByUserId(pool, userId, {
+    const { forms } = await formsQueries.getFormsByUserId(pool, ownerId, {
       order_id: orderId,
       limit: 500,
     });
@@ -0,0 +1,599 @@
+/**
+ * Export field mappings — which ADMF value goes to which Raynet / ERP field, stored as
+ * versioned data in field_mappings (schema 022) instead of code.
+ *
+ *   applyFieldMapping   build the mapped part of a payload (Raynet event update,
+ *                       ERP order update) from form_json + the active mapping
+ *   saveFieldMapping    validate + append a new version (admin endpoint, CSV import)
+ *   checkFieldMappings  structural check + Raynet live custom-field schema check
+ *                       (run at startup, results logged)
+ *
+ * What a source *means* (totals, doplatek, merged notes, …) stays in code — see
+ * SOURCE_RESOLVERS; the mapping only chooses the destination field and enum values.
+ */
+
+import { Pool } from "pg";
+import * as fieldMappingsQueries from "../queries/field-mappings.queries";
+import { raynetJsonRequest } from "./raynet-api.client";
+import {
+  FieldMappingCheck,
+  FieldMappingEntry,
+  FieldMappingIssue,
+  FieldMappingKind,
+  FieldMappingOrigin,
+  FieldMappingTarget,
+  FieldMappingVersion,
+  FieldMappingWarning,
+} from "../types/field-mapping.types";
+import { BadRequestError, InternalServerError, NotFoundError, ValidationIssuesError } from "../utils/errors";
+import {
+  computeAdmfCelkemBezDph,
+  computeAdmfCelkemSDph,
+  effectiveMontazBezDph,
+} from "../utils/admf-order-totals";
+
+export const FIELD_MAPPING_TARGETS: readonly FieldMappingTarget[] = ["RAYNET", "ERP"];
+
+const KINDS: readonly FieldMappingKind[] = ["const", "string", "number", "boolean", "enum"];
+
+/** Payload paths each target accepts, and the ones every mapping must fill. */
+const TARGET_RULES: Record<FieldMappingTarget, { label: string; path: RegExp; required: string[] }> = {
+  RAYNET: {
+    label: "Raynet",
+    path: /^(category|status|customFields\.[A-Za-z0-9_]+)$/,
+    required: ["category", "status"],
+  },
+  ERP: {
+    label: "ERP",
+    path: /^(status|final_value|column_values\.[A-Za-z0-9_]+)$/,
+    required: ["status", "final_value"],
+  },
+};
+
+// ── Sources ──────────────────────────────────────────────────────
+
+export interface FieldSourceInput {
+  formJson: Record<string, any>;
+  /** Exporting user's Raynet display name (Raynet only). */
+  raynetName?: string;
+}
+
+function vatRateOf(formJson: Record<string, any>): number {
+  return formJson.vatRate ?? 12;
+}
+
+/** Form storage is s-DPH (customer-visible); Raynet's sleva fields expect bez-DPH. */
+function slevaSDphToBez(formJson: Record<string, any>, sDph: number): number {
+  const vatPercent = Number(vatRateOf(formJson));
+  return Math.round((sDph * 100) / (100 + (Number.isFinite(vatPercent) ? vatPercent : 12)));
+}
+
+/**
+ * Sources with logic behind them. `undefined` = nothing to send. Any other source name
+ * is read from form_json as-is.
+ */
+const SOURCE_RESOLVERS: Record<string, (input: FieldSourceInput) => unknown> = {
+  vatRate: ({ formJson }) => vatRateOf(formJson),
+  zalohovaFaktura: ({ formJson }) =>
+    formJson.zalohovaFaktura != null && formJson.zalohovaFaktura > 0 ? formJson.zalohovaFaktura : undefined,
+  variabilniSymbol: ({ formJson }) =>
+    formJson.variabilniSymbol != null && formJson.variabilniSymbol > 0 ? formJson.variabilniSymbol : undefined,
+  // Raynet: the form's own doplatek wins; ERP always recomputes it.
+  doplatek: ({ formJson }) =>
+    formJson.doplatek ?? Math.max(0, computeAdmfCelkemSDph(formJson) - (formJson.zalohovaFaktura ?? 0)),
+  "computed.doplatek": ({ formJson }) =>
+    Math.max(0, computeAdmfCelkemSDph(formJson) - (formJson.zalohovaFaktura ?? 0)),
+  "computed.totalSDph": ({ formJson }) => computeAdmfCelkemSDph(formJson),
+  "computed.totalBezDph": ({ formJson }) => computeAdmfCelkemBezDph(formJson),
+  "computed.montazSDph": ({ formJson }) => {
+    const montazBezDph = effectiveMontazBezDph(formJson);
+    return montazBezDph > 0 ? Math.round(montazBezDph * (1 + vatRateOf(formJson) / 100)) : undefined;
+  },
+  "auth.raynetName": ({ raynetName }) => raynetName,
+  mngSlevaSDph: ({ formJson }) =>
+    formJson.mngSleva && (Number(formJson.mngSlevaSDph) || 0) > 0
+      ? slevaSDphToBez(formJson, Number(formJson.mngSlevaSDph))
+      : undefined,
+  ovtSlevaSDph: ({ formJson }) =>
+    (Number(formJson.ovtSlevaSDph) || 0) > 0 ? slevaSDphToBez(formJson, Number(formJson.ovtSlevaSDph)) : undefined,
+  "poznamkyVyroba + poznamkyMontaz": ({ formJson }) => {
+    const vyrobaText = (formJson.poznamkyVyroba ?? "").trim();
+    const montazText = (formJson.poznamkyMontaz ?? "").trim();
+    return [vyrobaText ? `Výroba: ${vyrobaText}` : "", montazText ? `Montáž: ${montazText}` : ""]
+      .filter(Boolean)
+      .join("\n");
+  },
+  "composed.adresaKdyzNesedi": ({ formJson }) => {
+    if (!formJson.jinaAdresaDodani) return undefined;
+    const parts = [formJson.dodaciUlice, formJson.dodaciMesto, formJson.dodaciPsc].filter(Boolean);
+    return parts.length > 0 ? parts.join(", ") : undefined;
+  },
+};
+
+const CONST_PREFIX = "const:";
+const FORM_JSON_KEY = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+function isKnownSource(source: string): boolean {
+  return source.startsWith(CONST_PREFIX) || source in SOURCE_RESOLVERS || FORM_JSON_KEY.test(source);
+}
+
+function constValue(source: string): string | number {
+  const literal = source.slice(CONST_PREFIX.length);
+  return /^-?\d+(\.\d+)?$/.test(literal) ? Number(literal) : literal;
+}
+
+function resolveSource(source: string, input: FieldSourceInput): unknown {
+  if (source.startsWith(CONST_PREFIX)) return constValue(source);
+  const resolver = SOURCE_RESOLVERS[source];
+  return resolver ? resolver(input) : input.formJson[source];
+}
+
+function setPath(payload: Record<string, unknown>, path: string, value: unknown): void {
+  const segments = path.split(".");
+  let node = payload;
+  for (const segment of segments.slice(0, -1)) {
+    if (typeof node[segment] !== "object" || node[segment] === null) node[segment] = {};
+    node = node[segment] as Record<string, unknown>;
+  }
+  node[segments[segments.length - 1]] = value;
+}
+
+// ── Apply ────────────────────────────────────────────────────────
+
+/**
+ * Build the mapped payload. Non-fatal problems (unmapped enum value, empty required
+ * source) become warnings instead of errors, like the rest of the export mapping.
+ */
+export function applyFieldMapping(
+  target: FieldMappingTarget,
+  entries: FieldMappingEntry[],
+  input: FieldSourceInput
+): { payload: Record<string, unknown>; warnings: FieldMappingWarning[] } {
+  const payload: Record<string, unknown> = {};
+  const warnings: FieldMappingWarning[] = [];
+  const { label } = TARGET_RULES[target];
+
+  for (const entry of entries) {
+    const raw = resolveSource(entry.source, input);
+    const isEmpty = raw == null || (typeof raw === "string" && raw.trim() === "");
+    if (isEmpty && entry.kind !== "boolean") {
+      if (entry.required) {
+        warnings.push({
+          code: "FIELD_EMPTY",
+          field: entry.target.split(".").pop() ?? entry.target,
+          reason: `${entry.source} is empty`,
+        });
+      }
+      continue;
+    }
+
+    switch (entry.kind) {
+      case "const":
+        setPath(payload, entry.target, raw);
+        break;
+      case "string":
+        setPath(payload, entry.target, String(raw).trim());
+        break;
+      case "number": {
+        const num = Number(raw);
+        if (Number.isFinite(num)) setPath(payload, entry.target, num);
+        break;
+      }
+      case "boolean":
+        setPath(payload, entry.target, raw === true);
+        break;
+      case "enum": {
+        const value = String(raw);
+        if (!entry.values) {
+          setPath(payload, entry.target, raw);
+        } else if (Object.prototype.hasOwnProperty.call(entry.values, value)) {
+          setPath(payload, entry.target, entry.values[value]);
+        } else {
+          warnings.push({
+            code: "ENUM_MISMATCH",
+            field: entry.source,
+            reason: `Value "${value}" has no ${label} mapping (expected ${Object.keys(entry.values).join(", ")})`,
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  return { payload, warnings };
+}
+
+// ── Load (cached) ────────────────────────────────────────────────
+
+/** Other backend instances pick up an admin edit within this long. */
+const CACHE_TTL_MS = 60_000;
+
+const cache = new Map<FieldMappingTarget, { mapping: FieldMappingVersion; loadedAt: number }>();
+
+/**
+ * Active mapping of a target. Throws when none is stored (schema 022 not applied) —
+ * exporting with an empty mapping would silently send nothing.
+ */
+export async function getActiveFieldMapping(pool: Pool, target: FieldMappingTarget): Promise<FieldMappingVersion> {
+  const cached = cache.get(target);
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) return cached.mapping;
+
+  const mapping = await fieldMappingsQueries.getActiveFieldMapping(pool, target);
+  if (!mapping) {
+    throw new InternalServerError(`No ${TARGET_RULES[target].label} field mapping is stored (apply schema 022)`);
+  }
+  cache.set(target, { mapping, loadedAt: Date.now() });
+  return mapping;
+}
+
+export function parseFieldMappingTarget(value: unknown): FieldMappingTarget {
+  const target = typeof value === "string" ? value.toUpperCase() : "";
+  if (!(FIELD_MAPPING_TARGETS as readonly string[]).includes(target)) {
+    throw new NotFoundError(`Unknown field mapping target: ${String(value)}`);
+  }
+  return target as FieldMappingTarget;
+}
+
+// ── Validation ───────────────────────────────────────────────────
+
+/**
+ * Check the shape of submitted entries (request body, CSV rows) and return the
+ * well-formed ones. Anything wrong is an error-severity issue.
+ */
+export function normalizeFieldMappingEntries(
+  target: FieldMappingTarget,
+  raw: unknown
+): { entries: FieldMappingEntry[]; issues: FieldMappingIssue[] } {
+  const rules = TARGET_RULES[target];
+  const issues: FieldMappingIssue[] = [];
+  const entries: FieldMappingEntry[] = [];
+  if (!Array.isArray(raw)) {
+    throw new BadRequestError("entries must be an array", "INVALID_FIELD_MAPPING");
+  }
+
+  const seenTargets = new Set<string>();
+  raw.forEach((item: any, index) => {
+    const source = typeof item?.source === "string" ? item.source.trim() : "";
+    const targetField = typeof item?.target === "string" ? item.target.trim() : "";
+    const kind = item?.kind;
+    const error = (code: FieldMappingIssue["code"], message: string) =>
+      issues.push({ severity: "error", code, index, target_field: targetField || undefined, message });
+
+    if (!source || !isKnownSource(source)) {
+      error("UNKNOWN_SOURCE", `Unknown source "${source}"`);
+      return;
+    }
+    if (!rules.path.test(targetField)) {
+      error("INVALID_TARGET", `"${targetField}" is not a ${rules.label} field path`);
+      return;
+    }
+    if (seenTargets.has(targetField)) {
+      error("DUPLICATE_TARGET", `${targetField} is mapped more than once`);
+      return;
+    }
+    if (!KINDS.includes(kind)) {
+      error("INVALID_KIND", `kind must be one of ${KINDS.join(", ")}`);
+      return;
+    }
+    if ((kind === "const") !== source.startsWith(CONST_PREFIX)) {
+      error("INVALID_KIND", `kind "const" goes with a const:<value> source and only with it`);
+      return;
+    }
+
+    let values: Record<string, string> | undefined;
+    if (item.values != null) {
+      const valid =
+        kind === "enum" &&
+        typeof item.values === "object" &&
+        !Array.isArray(item.values) &&
+        Object.values(item.values).every((v) => typeof v === "string");
+      if (!valid) {
+        error("INVALID_VALUES", `values must be a string map and only appear on enum entries`);
+        return;
+      }
+      values = item.values;
+    }
+
+    seenTargets.add(targetField);
+    const entry: FieldMappingEntry = { source, target: targetField, kind };
+    if (values) entry.values = values;
+    if (item.required === true) entry.required = true;
+    if (typeof item.note === "string" && item.note.trim() !== "") entry.note = item.note.trim();
+    entries.push(entry);
+  });
+
+  for (const required of rules.required) {
+    if (!seenTargets.has(required)) {
+      issues.push({
+        severity: "error",
+        code: "MISSING_TARGET",
+        target_field: required,
+        message: `${required} must be mapped`,
+      });
+    }
+  }
+
+  return { entries, issues };
+}
+
+/** Raynet custom-field config: field name → allowed enum values (null = not an enum / unknown). */
+async function fetchRaynetEventFieldSchema(): Promise<Map<string, string[] | null>> {
+  const { status, body } = await raynetJsonRequest({
+    step: "customField.config",
+    method: "GET",
+    path: "/api/v2/customField/config/",
+    timeoutMs: 15_000,
+  });
+  if (status < 200 || status >= 300 || typeof body !== "object" || body === null) {
+    throw new Error(`Raynet returned HTTP ${status}`);
+  }
+  const data = (body as any).data;
+  const fields: any[] = Array.isArray(data?.Event) ? data.Event : [];
+  const schema = new Map<string, string[] | null>();
+  for (const field of fields) {
+    if (typeof field?.name !== "string") continue;
+    const enumeration: unknown[] | null = Array.isArray(field.enumeration) ? field.enumeration : null;
+    schema.set(
+      field.name,
+      enumeration
+        ? enumeration.map((v: any) => String(typeof v === "object" && v !== null ? v.value ?? v.code : v))
+        : null
+    );
+  }
+  return schema;
+}
+
+/**
+ * Compare a Raynet mapping with the live custom-field schema: every customFields.* target
+ * must exist, and enum values must be ones Raynet offers. ERP has no schema endpoint.
+ */
+export async function checkRemoteFieldMapping(
+  target: FieldMappingTarget,
+  entries: FieldMappingEntry[]
+): Promise<{ remote_checked: boolean; issues: FieldMappingIssue[] }> {
+  if (target !== "RAYNET") return { remote_checked: false, issues: [] };
+
+  let schema: Map<string, string[] | null>;
+  try {
+    schema = await fetchRaynetEventFieldSchema();
+  } catch (error: any) {
+    return {
+      remote_checked: false,
+      issues: [
+        {
+          severity: "warning",
+          code: "REMOTE_SCHEMA_UNAVAILABLE",
+          message: `Raynet custom-field schema could not be loaded: ${error.message}`,
+        },
+      ],
+    };
+  }
+
+  const issues: FieldMappingIssue[] = [];
+  entries.forEach((entry, index) => {
+    if (!entry.target.startsWith("customFields.")) return;
+    const name = entry.target.slice("customFields.".length);
+    if (!schema.has(name)) {
+      issues.push({
+        severity: "error",
+        code: "UNKNOWN_REMOTE_FIELD",
+        index,
+        target_field: entry.target,
+        message: `Raynet has no event custom field "${name}"`,
+      });
+      return;
+    }
+    const allowed = schema.get(name);
+    if (!allowed || !entry.values) return;
+    const unknown = Object.values(entry.values).filter((v) => !allowed.includes(v));
+    if (unknown.length > 0) {
+      issues.push({
+        severity: "error",
+        code: "REMOTE_ENUM_MISMATCH",
+        index,
+        target_field: entry.target,
+        message: `Raynet does not offer ${unknown.map((v) => `"${v}"`).join(", ")} for ${name}`,
+      });
+    }
+  });
+  return { remote_checked: true, issues };
+}
+
+/**
+ * Check the active mappings (structure + Raynet live schema). Used at startup and by
+ * the admin validate endpoint; never throws for a bad mapping.
+ */
+export async function checkFieldMappings(pool: Pool, target: FieldMappingTarget): Promise<FieldMappingCheck> {
+  const mapping = await fieldMappingsQueries.getActiveFieldMapping(pool, target);
+  if (!mapping) {
+    return {
+      target,
+      version: null,
+      remote_checked: false,
+      issues: [{ severity: "error", code: "MISSING_TARGET", message: "No mapping stored (apply schema 022)" }],
+    };
+  }
+  const { issues } = normalizeFieldMappingEntries(target, mapping.entries);
+  const remote = await checkRemoteFieldMapping(target, mapping.entries);
+  return {
+    target,
+    version: mapping.version,
+    remote_checked: remote.remote_checked,
+    issues: [...issues, ...remote.issues],
+  };
+}
+
+/** Log the result of checkFieldMappings for every target; meant for server startup. */
+export async function logFieldMappingChecks(pool: Pool): Promise<void> {
+  for (const target of FIELD_MAPPING_TARGETS) {
+    try {
+      const check = await checkFieldMappings(pool, target);
+      if (check.issues.length === 0) {
+        console.log(
+          `Field mapping ${target} v${check.version} OK${check.remote_checked ? " (checked against Raynet)" : ""}`
+        );
+        continue;
+      }
+      for (const issue of check.issues) {
+        const log = issue.severity === "error" ? console.error : console.warn;
+        log(`Field mapping ${target} v${check.version ?? "-"}: [${issue.code}] ${issue.message}`);
+      }
+    } catch (error: any) {
+      console.error(`Field mapping ${target} check failed:`, error.message);
+    }
+  }
+}
+
+// ── Save ─────────────────────────────────────────────────────────
+
+export interface SaveFieldMappingResult {
+  mapping: FieldMappingVersion;
+  remote_checked: boolean;
+  /** Warnings, plus remote errors that were overridden with `force`. */
+  issues: FieldMappingIssue[];
+}
+
+/**
+ * Validate and store entries as the next version. Structural errors always reject;
+ * live-schema errors (unknown Raynet field, enum value Raynet lacks) reject unless
+ * `force` — e.g. when the field is being created in Raynet at the same time.
+ */
+export async function saveFieldMapping(
+  pool: Pool,
+  target: FieldMappingTarget,
+  rawEntries: unknown,
+  options: { origin: FieldMappingOrigin; note: string | null; force?: boolean }
+): Promise<SaveFieldMappingResult> {
+  const { entries, issues } = normalizeFieldMappingEntries(target, rawEntries);
+  if (issues.length > 0) {
+    throw new ValidationIssuesError(`${TARGET_RULES[target].label} field mapping is invalid`, issues, "INVALID_FIELD_MAPPING");
+  }
+
+  const remote = await checkRemoteFieldMapping(target, entries);
+  const remoteErrors = remote.issues.filter((i) => i.severity === "error");
+  if (remoteErrors.length > 0 && !options.force) {
+    throw new ValidationIssuesError(
+      `${TARGET_RULES[target].label} field mapping does not match the live custom-field schema`,
+      remote.issues,
+      "FIELD_MAPPING_REMOTE_MISMATCH"
+    );
+  }
+
+  const mapping = await fieldMappingsQueries.insertFieldMappingVersion(pool, {
+    target,
+    entries,
+    origin: options.origin,
+    note: options.note,
+  });
+  cache.delete(target);
+  return { mapping, remote_checked: remote.remote_checked, issues: remote.issues };
+}
+
+/** Re-activate an old version by appending a copy of it. */
+export async function restoreFieldMappingVersion(
+  pool: Pool,
+  target: FieldMappingTarget,
+  version: number,
+  options: { force?: boolean } = {}
+): Promise<SaveFieldMappingResult> {
+  const old = await fieldMappingsQueries.getFieldMappingVersion(pool, target, version);
+  if (!old) throw new NotFoundError(`${target} field mapping v${version} not found`);
+  return saveFieldMapping(pool, target, old.entries, {
+    origin: "RESTORE",
+    note: `Restored from v${version}`,
+    force: options.force,
+  });
+}
+
+// ── CSV ──────────────────────────────────────────────────────────
+
+/** RFC 4180 rows: quoted fields, "" escapes, newlines inside quotes. */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/** `a|b` → identity map; `a=x|b=y` → translation map. */
+function parseCsvValues(cell: string): Record<string, string> | undefined {
+  if (cell.trim() === "") return undefined;
+  const values: Record<string, string> = {};
+  for (const part of cell.split("|")) {
+    const eq = part.indexOf("=");
+    if (eq === -1) values[part.trim()] = part.trim();
+    else values[part.slice(0, eq).trim()] = part.slice(eq + 1).trim();
+  }
+  return values;
+}
+
+/**
+ * Read docs/raynet-field-mapping.csv / docs/erp-field-mapping.csv into raw entries.
+ * Section rows (`--- … ---`) and rows without a kind (documentation only, e.g. ERP
+ * products / comment) are skipped. The result still goes through saveFieldMapping.
+ */
+export function parseFieldMappingCsv(target: FieldMappingTarget, csvText: string): Record<string, unknown>[] {
+  const [header, ...rows] = parseCsvRows(csvText.replace(/^\uFEFF/, ""));
+  const targetColumn = target === "RAYNET" ? "raynet_field" : "erp_field";
+  const col = (name: string) => header?.findIndex((h) => h.trim() === name) ?? -1;
+  const idx = {
+    source: col("json_field"),
+    target: col(targetColumn),
+    kind: col("kind"),
+    values: col("values"),
+    required: col("required"),
+    note: col("business_logic"),
+  };
+  const missing = Object.entries(idx).filter(([, i]) => i === -1).map(([name]) => name);
+  if (missing.length > 0) {
+    throw new BadRequestError(
+      `CSV is missing columns: ${missing.join(", ")} (expected json_field, ${targetColumn}, kind, values, required, business_logic)`,
+      "INVALID_FIELD_MAPPING_CSV"
+    );
+  }
+
+  return rows
+    .filter((r) => {
+      const source = (r[idx.source] ?? "").trim();
+      return source !== "" && !source.startsWith("---") && (r[idx.kind] ?? "").trim() !== "";
+    })
+    .map((r) => ({
+      source: r[idx.source].trim(),
+      target: (r[idx.target] ?? "").trim(),
+      kind: r[idx.kind].trim(),
+      values: parseCsvValues(r[idx.values] ?? ""),
+      required: ["yes", "true", "1"].includes((r[idx.required] ?? "").trim().toLowerCase()),
+      note: r[idx.note] ?? "",
+    }));
+}
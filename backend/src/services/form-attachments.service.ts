@@ -24,8 +24,12 @@ import {
   NotFoundError,
   ServiceUnavailableError,
 } from "../utils/errors";
-import * as formsService from "./forms.service";
+import * as formsQueries from "../queries/forms.queries";
+import { requireFormAccess } from "./order-access.service";
+import * as orderEventsService from "./order-events.service";
 import type { FormAttachmentItem } from "../types/form-attachments.types";
+import type { FormRecord } from "../types/forms.types";
+import type { Actor, OrderAccessLevel } from "../types/access.types";
 
 function extensionFromOriginalName(name: string): string {
   const lower = name.toLowerCase();
@@ -44,11 +48,22 @@ function assertKeyBelongsToForm(formId: number, key: string): void {
   }
 }
 
-async function ensureAdmfForm(pool: Pool, formId: number, userId: string): Promise<void> {
-  const form = await formsService.getFormById(pool, formId, userId);
+async function ensureAdmfForm(
+  pool: Pool,
+  formId: number,
+  actor: Actor,
+  level: OrderAccessLevel,
+  action: string
+): Promise<FormRecord> {
+  const { ownerId } = await requireFormAccess(pool, actor, formId, level, action);
+  const form = await formsQueries.getFormById(pool, formId, ownerId);
+  if (!form) {
+    throw new NotFoundError("Form not found");
+  }
   if (form.form_type !== "admf") {
     throw new BadRequestError("Attachments are only allowed for ADMF forms", "NOT_ADMF_FORM");
   }
+  return form;
 }
 
 function requireStorage() {
@@ -91,9 +106,9 @@ async function countAttachmentObjects(formId: number): Promise<number> {
 export async function listFormAttachments(
   pool: Pool,
   formId: number,
-  userId: string
+  actor: Actor
 ): Promise<FormAttachmentItem[]> {
-  await ensureAdmfForm(pool, formId, userId);
+  await ensureAdmfForm(pool, formId, actor, "READ", "attachment.list");
   const cfg = requireStorage();
   const prefix = formAttachmentsPrefix(formId);
   const out: FormAttachmentItem[] = [];
@@ -128,12 +143,12 @@ export async function listFormAttachments(
 export async function uploadFormAttachment(
   pool: Pool,
   formId: number,
-  userId: string,
+  actor: Actor,
   buffer: Buffer,
   originalFilename: string,
   contentType: string | undefined
 ): Promise<FormAttachmentItem> {
-  await ensureAdmfForm(pool, formId, userId);
+  const form = await ensureAdmfForm(pool, formId, actor, "WRITE", "attachment.upload");
   if (buffer.length > MAX_ATTACHMENT_BYTES) {
     throw new BadRequestError(
       `Soubor je větší než ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`,
@@ -165,6 +180,15 @@ export async function uploadFormAttachment(
       ContentType: contentType || "application/octet-stream",
     })
   );
+  if (form.order_id != null) {
+    await orderEventsService.recordOrderEvent(pool, {
+      order_id: form.order_id,
+      form_id: formId,
+      kind: "ATTACHMENT_UPLOADED",
+      actor: actor.userId,
+      payload: { key, original_filename: originalFilename, size: buffer.length },
+    });
+  }
   return {
     key,
     filename: key.slice(prefix.length),
@@ -173,18 +197,58 @@ export async function uploadFormAttachment(
   };
 }
 
+/**
+ * Store a file the backend itself produced (e.g. the signed contract from inSign) under
+ * a fixed name. Skips the user upload rules (type whitelist, count limit); writing the
+ * same name again overwrites, so retries stay idempotent. Caller checks form access.
+ */
+export async function putSystemFormAttachment(
+  formId: number,
+  filename: string,
+  buffer: Buffer,
+  contentType: string
+): Promise<FormAttachmentItem> {
+  const cfg = requireStorage();
+  const prefix = formAttachmentsPrefix(formId);
+  const key = `${prefix}${filename}`;
+  assertKeyBelongsToForm(formId, key);
+  await cfg.client.send(
+    new PutObjectCommand({
+      Bucket: cfg.bucket,
+      Key: key,
+      Body: buffer,
+      ContentType: contentType,
+    })
+  );
+  return {
+    key,
+    filename,
+    size: buffer.length,
+    lastModified: new Date().toISOString(),
+  };
+}
+
 export async function deleteFormAttachment(
   pool: Pool,
   formId: number,
-  userId: string,
+  actor: Actor,
   objectKey: string
 ): Promise<void> {
-  await ensureAdmfForm(pool, formId, userId);
+  const form = await ensureAdmfForm(pool, formId, actor, "WRITE", "attachment.delete");
   assertKeyBelongsToForm(formId, objectKey);
   const cfg = requireStorage();
   await cfg.client.send(
     new DeleteObjectCommand({ Bucket: cfg.bucket, Key: objectKey })
   );
+  if (form.order_id != null) {
+    await orderEventsService.recordOrderEvent(pool, {
+      order_id: form.order_id,
+      form_id: formId,
+      kind: "ATTACHMENT_DELETED",
+      actor: actor.userId,
+      payload: { key: objectKey, filename: objectKey.slice(formAttachmentsPrefix(formId).length) },
+    });
+  }
 }
 
 /**
@@ -193,10 +257,10 @@ export async function deleteFormAttachment(
 export async function getFormAttachmentStream(
   pool: Pool,
   formId: number,
-  userId: string,
+  actor: Actor,
   objectKey: string
 ): Promise<{ stream: Readable; contentType: string; contentLength?: number }> {
-  await ensureAdmfForm(pool, formId, userId);
+  await ensureAdmfForm(pool, formId, actor, "READ", "attachment.download");
   assertKeyBelongsToForm(formId, objectKey);
   const cfg = requireStorage();
   const res = await cfg.client.send(
@@ -0,0 +1,328 @@
+/**
+ * Form revision history: list / fetch / diff / restore.
+ *
+ * Revisions themselves are written by forms.queries on every create / update, so this
+ * service never inserts directly — restore goes through `formsService.updateForm` and
+ * therefore gets the same base_revision check and a new (RESTORE) revision.
+ *
+ * The diff is structural rather than a JSON text diff:
+ *   - ADMF `productRows` and custom `data.rooms[].rows[]` are matched by row / room id,
+ *     so inserting a row shows as one "added" entry instead of shifting every later row.
+ *   - Changes inside a matched row are reported per field ("Řádek 3 › ks: 2 → 3").
+ *   - `pricingTrace` (audit trail of the row) and the custom `schema` / `product_schemas`
+ *     catalog payloads are not diffed field by field.
+ */
+
+import { Pool } from "pg";
+import * as formsQueries from "../queries/forms.queries";
+import * as formRevisionsQueries from "../queries/form-revisions.queries";
+import * as formsService from "./forms.service";
+import { requireFormAccess } from "./order-access.service";
+import { Actor } from "../types/access.types";
+import { FormRecord, FormType } from "../types/forms.types";
+import {
+  FormRevisionSummary,
+  FormRevisionRecord,
+  FormRevisionChange,
+  FormRevisionDiff,
+} from "../types/form-revisions.types";
+import { NotFoundError } from "../utils/errors";
+
+// ── Structural diff ──────────────────────────────────────────────
+
+/** Keys never reported as changes inside an ADMF product row. */
+const ADMF_ROW_IGNORED_KEYS = new Set(["id", "pricingTrace"]);
+
+/** Custom form_json keys compared as a whole (large catalog payloads). */
+const CUSTOM_ATOMIC_KEYS: Record<string, string> = {
+  schema: "Schéma formuláře",
+  product_schemas: "Schémata produktů",
+};
+
+/** Path segments omitted from labels (containers without meaning for the user). */
+const HIDDEN_LABEL_SEGMENTS = new Set(["data", "values"]);
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return value != null && typeof value === "object" && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function joinLabel(parent: string, segment: string): string {
+  if (HIDDEN_LABEL_SEGMENTS.has(segment)) return parent;
+  return parent ? `${parent} › ${segment}` : segment;
+}
+
+function pushChange(
+  out: FormRevisionChange[],
+  path: string[],
+  label: string,
+  before: unknown,
+  after: unknown
+): void {
+  const kind = before === undefined ? "added" : after === undefined ? "removed" : "changed";
+  out.push({ kind, path, label, before, after });
+}
+
+/**
+ * Generic recursive diff: descends into plain objects, compares everything else
+ * (primitives, un-keyed arrays) as a single value.
+ */
+function diffValues(
+  before: unknown,
+  after: unknown,
+  path: string[],
+  label: string,
+  out: FormRevisionChange[],
+  ignoredKeys?: Set<string>
+): void {
+  if (isEqual(before, after)) return;
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      if (ignoredKeys?.has(key)) continue;
+      diffValues(before[key], after[key], [...path, key], joinLabel(label, key), out);
+    }
+    return;
+  }
+  pushChange(out, path, label || "(celý formulář)", before, after);
+}
+
+/** Row key for id-matching; rows without id fall back to their position. */
+function rowKey(row: unknown, index: number): string {
+  return isPlainObject(row) && typeof row.id === "string" && row.id ? row.id : `#${index}`;
+}
+
+/**
+ * Diff two arrays of rows matched by id.
+ * `labelFor` names a row (1-based position in the revision it comes from);
+ * `diffRow` reports field changes of rows present in both revisions.
+ */
+function diffKeyedRows(
+  before: unknown,
+  after: unknown,
+  path: string[],
+  labelFor: (row: any, index: number) => string,
+  diffRow: (beforeRow: any, afterRow: any, rowPath: string[], rowLabel: string) => void,
+  out: FormRevisionChange[]
+): void {
+  const beforeRows = Array.isArray(before) ? before : [];
+  const afterRows = Array.isArray(after) ? after : [];
+  const beforeByKey = new Map(beforeRows.map((row, i) => [rowKey(row, i), row]));
+  const afterKeys = new Set(afterRows.map((row, i) => rowKey(row, i)));
+
+  afterRows.forEach((row, i) => {
+    const key = rowKey(row, i);
+    const rowPath = [...path, key];
+    const previous = beforeByKey.get(key);
+    if (previous === undefined) {
+      pushChange(out, rowPath, labelFor(row, i), undefined, row);
+    } else {
+      diffRow(previous, row, rowPath, labelFor(row, i));
+    }
+  });
+
+  beforeRows.forEach((row, i) => {
+    const key = rowKey(row, i);
+    if (!afterKeys.has(key)) {
+      pushChange(out, [...path, key], labelFor(row, i), row, undefined);
+    }
+  });
+}
+
+function diffAdmfFormJson(before: Record<string, any>, after: Record<string, any>): FormRevisionChange[] {
+  const out: FormRevisionChange[] = [];
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const key of keys) {
+    if (key === "productRows") continue;
+    diffValues(before[key], after[key], [key], key, out);
+  }
+
+  diffKeyedRows(
+    before.productRows,
+    after.productRows,
+    ["productRows"],
+    (row, i) => {
+      const produkt = typeof row?.produkt === "string" && row.produkt.trim() ? ` (${row.produkt.trim()})` : "";
+      return `Řádek ${i + 1}${produkt}`;
+    },
+    (beforeRow, afterRow, rowPath, rowLabel) =>
+      diffValues(beforeRow, afterRow, rowPath, rowLabel, out, ADMF_ROW_IGNORED_KEYS),
+    out
+  );
+  return out;
+}
+
+function diffCustomFormJson(before: Record<string, any>, after: Record<string, any>): FormRevisionChange[] {
+  const out: FormRevisionChange[] = [];
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const key of keys) {
+    if (key === "data") continue;
+    if (key in CUSTOM_ATOMIC_KEYS) {
+      if (!isEqual(before[key], after[key])) {
+        // Payloads are large; report that they changed without inlining them.
+        out.push({ kind: "changed", path: [key], label: CUSTOM_ATOMIC_KEYS[key] });
+      }
+      continue;
+    }
+    diffValues(before[key], after[key], [key], key, out);
+  }
+
+  const beforeData = isPlainObject(before.data) ? before.data : {};
+  const afterData = isPlainObject(after.data) ? after.data : {};
+  const dataKeys = new Set([...Object.keys(beforeData), ...Object.keys(afterData)]);
+  for (const key of dataKeys) {
+    if (key === "rooms") continue;
+    diffValues(beforeData[key], afterData[key], ["data", key], key, out);
+  }
+
+  const productCode = (row: any): string => {
+    const pid = row?.product_pricing_id;
+    const code = pid ? (after.product_schemas?.[pid] ?? before.product_schemas?.[pid])?.product_code : undefined;
+    return typeof code === "string" && code ? ` (${code})` : "";
+  };
+
+  diffKeyedRows(
+    beforeData.rooms,
+    afterData.rooms,
+    ["data", "rooms"],
+    (room, i) => `Místnost ${typeof room?.name === "string" && room.name.trim() ? room.name.trim() : i + 1}`,
+    (beforeRoom, afterRoom, roomPath, roomLabel) => {
+      diffValues(beforeRoom, afterRoom, roomPath, roomLabel, out, new Set(["id", "rows"]));
+      diffKeyedRows(
+        beforeRoom.rows,
+        afterRoom.rows,
+        [...roomPath, "rows"],
+        (row, j) => `${roomLabel} › řádek ${j + 1}${productCode(row)}`,
+        (beforeRow, afterRow, rowPath, rowLabel) =>
+          diffValues(beforeRow, afterRow, rowPath, rowLabel, out, new Set(["id"])),
+        out
+      );
+    },
+    out
+  );
+  return out;
+}
+
+/**
+ * Structural diff of two form_json snapshots of the same form.
+ * Pure (no I/O).
+ */
+export function diffFormJson(
+  formType: FormType,
+  before: Record<string, any>,
+  after: Record<string, any>
+): FormRevisionChange[] {
+  return formType === "admf" ? diffAdmfFormJson(before, after) : diffCustomFormJson(before, after);
+}
+
+// ── History API ──────────────────────────────────────────────────
+
+/** Access check + current form; queries then run as the form owner. */
+async function requireForm(
+  pool: Pool,
+  formId: number,
+  actor: Actor,
+  action: string
+): Promise<{ form: FormRecord; ownerId: string }> {
+  const { ownerId } = await requireFormAccess(pool, actor, formId, "READ", action);
+  const form = await formsQueries.getFormById(pool, formId, ownerId);
+  if (!form) {
+    throw new NotFoundError("Form not found");
+  }
+  return { form, ownerId };
+}
+
+async function loadRevision(
+  pool: Pool,
+  formId: number,
+  revision: number,
+  ownerId: string
+): Promise<FormRevisionRecord> {
+  const record = await formRevisionsQueries.getFormRevision(pool, formId, revision, ownerId);
+  if (!record) {
+    throw new NotFoundError("Form revision not found");
+  }
+  return record;
+}
+
+/**
+ * List revisions of a form (newest first)
+ * @throws NotFoundError if form not found
+ */
+export async function listFormRevisions(
+  pool: Pool,
+  formId: number,
+  actor: Actor
+): Promise<FormRevisionSummary[]> {
+  const { ownerId } = await requireForm(pool, formId, actor, "form.revisions.view");
+  return formRevisionsQueries.listFormRevisions(pool, formId, ownerId);
+}
+
+/**
+ * Get one revision with its form_json
+ * @throws NotFoundError if form or revision not found
+ */
+export async function getFormRevision(
+  pool: Pool,
+  formId: number,
+  revision: number,
+  actor: Actor
+): Promise<FormRevisionRecord> {
+  const { ownerId } = await requireFormAccess(pool, actor, formId, "READ", "form.revisions.view");
+  return loadRevision(pool, formId, revision, ownerId);
+}
+
+/**
+ * Diff two revisions of a form.
+ * @param toRevision - Defaults to the form's current revision
+ * @throws NotFoundError if form or either revision not found
+ */
+export async function diffFormRevisions(
+  pool: Pool,
+  formId: number,
+  actor: Actor,
+  fromRevision: number,
+  toRevision?: number
+): Promise<FormRevisionDiff> {
+  const { form, ownerId } = await requireForm(pool, formId, actor, "form.revisions.view");
+  const to = toRevision ?? form.revision;
+  const before = await loadRevision(pool, formId, fromRevision, ownerId);
+  const afterJson =
+    to === form.revision ? form.form_json : (await loadRevision(pool, formId, to, ownerId)).form_json;
+
+  return {
+    form_id: formId,
+    from_revision: fromRevision,
+    to_revision: to,
+    changes: diffFormJson(form.form_type, before.form_json, afterJson),
+  };
+}
+
+/**
+ * Restore an older revision: its form_json becomes the form content again, stored
+ * as a new RESTORE revision (history is never rewritten).
+ * @param baseRevision - Optional optimistic-concurrency check, same as PUT /forms/:id
+ * @throws NotFoundError if form or revision not found
+ * @throws StaleWriteError if baseRevision is stale
+ */
+export async function restoreFormRevision(
+  pool: Pool,
+  formId: number,
+  revision: number,
+  actor: Actor,
+  baseRevision?: number
+): Promise<FormRecord> {
+  const { ownerId } = await requireFormAccess(pool, actor, formId, "WRITE", "form.restore");
+  const record = await loadRevision(pool, formId, revision, ownerId);
+  return formsService.updateForm(
+    pool,
+    formId,
+    actor,
+    { form_json: record.form_json, base_revision: baseRevision },
+    { source: "RESTORE", restored_from_revision: revision }
+  );
+}
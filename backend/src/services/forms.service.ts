@@ -14,19 +14,30 @@ import {
 } from "../types/forms.types";
 import * as formsQueries from "../queries/forms.queries";
 import * as ordersQueries from "../queries/orders.queries";
-import { validateFormType, validateFormJson, validatePagination } from "../utils/validation";
-import { NotFoundError, BadRequestError } from "../utils/errors";
+import * as orderEventsService from "./order-events.service";
+import { requireFormAccess, requireOrderAccess } from "./order-access.service";
+import { Actor } from "../types/access.types";
+import { FormRevisionWriteMeta } from "../types/form-revisions.types";
+import {
+  validateClientRequestId,
+  validateFormType,
+  validateFormJson,
+  validatePagination,
+} from "../utils/validation";
+import { NotFoundError, BadRequestError, StaleWriteError } from "../utils/errors";
 
 /**
- * Create a new form
+ * Create a new form. The form belongs to the order owner, whoever creates it.
+ * With `client_request_id`, a repeated request (response lost, offline outbox replay)
+ * returns the form the first one created instead of creating another.
  * @param pool - Database connection pool
- * @param userId - User ID
+ * @param actor - Authenticated user (needs write access to the order)
  * @param request - Form creation request
- * @returns Created form record
+ * @returns Created (or already created) form record
  */
 export async function createForm(
   pool: Pool,
-  userId: string,
+  actor: Actor,
   request: CreateFormRequest
 ): Promise<FormRecord> {
   // Validate form type
@@ -34,37 +45,88 @@ export async function createForm(
 
   // Validate form JSON
   validateFormJson(request.form_json);
+  validateClientRequestId(request.client_request_id);
 
   // order_id is required: every form must belong to an order
   const orderId = request.order_id;
   if (orderId == null || typeof orderId !== "number") {
     throw new BadRequestError("order_id is required", "ORDER_ID_REQUIRED");
   }
-  const order = await ordersQueries.getOrderById(pool, orderId, userId);
+  let ownerId: string;
+  try {
+    ({ ownerId } = await requireOrderAccess(pool, actor, orderId, "WRITE", "form.create"));
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw new BadRequestError("Order not found or access denied", "ORDER_NOT_FOUND");
+    }
+    throw error;
+  }
+  const order = await ordersQueries.getOrderById(pool, orderId, ownerId);
   if (!order) {
     throw new BadRequestError("Order not found or access denied", "ORDER_NOT_FOUND");
   }
 
   // Create form in database
-  return await formsQueries.createForm(
+  const form = await formsQueries.createForm(
     pool,
-    userId,
+    ownerId,
+    actor.userId,
     request.form_type,
     request.form_json,
-    orderId
+    orderId,
+    request.client_request_id
   );
+  if (!form) return getRepeatedCreate(pool, ownerId, orderId, request.client_request_id!);
+
+  await orderEventsService.recordOrderEvent(pool, {
+    order_id: orderId,
+    form_id: form.id,
+    kind: "FORM_CREATED",
+    actor: actor.userId,
+    payload: { form_type: form.form_type, revision: form.revision },
+  });
+
+  return form;
+}
+
+/**
+ * The form an earlier create with the same key produced. No new revision or timeline event.
+ * @throws BadRequestError when the key belongs to a form of another order
+ * @throws NotFoundError when that form has been deleted since
+ */
+async function getRepeatedCreate(
+  pool: Pool,
+  ownerId: string,
+  orderId: number,
+  clientRequestId: string
+): Promise<FormRecord> {
+  const existing = await formsQueries.getFormByClientRequestId(pool, ownerId, clientRequestId);
+  if (!existing || existing.order_id !== orderId) {
+    throw new BadRequestError("client_request_id was already used for another form", "CLIENT_REQUEST_ID_REUSED");
+  }
+  if (existing.deleted_at) {
+    throw new NotFoundError("Form not found");
+  }
+  return existing;
 }
 
 /**
  * Get a form by ID
  * @param pool - Database connection pool
  * @param id - Form ID
- * @param userId - User ID for authorization
+ * @param actor - Authenticated user (checked through the form's order)
+ * @param action - Audit label when someone other than the owner reads it
  * @returns Form record
  * @throws NotFoundError if form not found
  */
-export async function getFormById(pool: Pool, id: number, userId: string): Promise<FormRecord> {
-  const form = await formsQueries.getFormById(pool, id, userId);
+export async function getFormById(
+  pool: Pool,
+  id: number,
+  actor: Actor,
+  action: string = "form.view"
+): Promise<FormRecord> {
+  const { ownerId } = await requireFormAccess(pool, actor, id, "READ", action);
+  const form = await formsQueries.getFormById(pool, id, ownerId);
 
   if (!form) {
     throw new NotFoundError("Form not found");
@@ -74,20 +136,26 @@ export async function getFormById(pool: Pool, id: number, userId: string): Promi
 }
 
 /**
- * Get paginated list of forms for a user
+ * Get paginated list of forms: the user's own, or all forms of one order when
+ * order_id is given (anyone with read access to the order)
  * @param pool - Database connection pool
- * @param userId - User ID
- * @param query - Query parameters (form_type, page, limit)
+ * @param actor - Authenticated user
+ * @param query - Query parameters (form_type, order_id, page, limit)
  * @returns Paginated response with forms
  */
 export async function getFormsByUserId(
   pool: Pool,
-  userId: string,
+  actor: Actor,
   query: ListFormsQuery = {}
 ): Promise<PaginatedResponse<FormRecord>> {
   // Validate and normalize pagination
   const { page, limit } = validatePagination(query.page, query.limit);
 
+  const userId =
+    query.order_id != null
+      ? (await requireOrderAccess(pool, actor, query.order_id, "READ", "order.forms.view")).ownerId
+      : actor.userId;
+
   // Get forms from database
   const { forms, total } = await formsQueries.getFormsByUserId(pool, userId, {
     ...query,
@@ -112,27 +180,66 @@ export async function getFormsByUserId(
  * Update a form
  * @param pool - Database connection pool
  * @param id - Form ID
- * @param userId - User ID for authorization
+ * @param actor - Authenticated user (needs write access)
  * @param request - Form update request
+ * @param revisionMeta - Label for the form_revisions row (restore passes RESTORE)
  * @returns Updated form record
  * @throws NotFoundError if form not found
+ * @throws StaleWriteError if base_revision no longer matches the stored revision
  */
 export async function updateForm(
   pool: Pool,
   id: number,
-  userId: string,
-  request: UpdateFormRequest
+  actor: Actor,
+  request: UpdateFormRequest,
+  revisionMeta?: FormRevisionWriteMeta
 ): Promise<FormRecord> {
   // Validate form JSON
   validateFormJson(request.form_json);
 
-  // Update form in database
-  const form = await formsQueries.updateForm(pool, id, userId, request.form_json);
+  const baseRevision = request.base_revision;
+  if (baseRevision !== undefined && (!Number.isInteger(baseRevision) || baseRevision < 1)) {
+    throw new BadRequestError("base_revision must be a positive integer", "INVALID_BASE_REVISION");
+  }
+
+  const restore = revisionMeta?.source === "RESTORE";
+  const { ownerId } = await requireFormAccess(pool, actor, id, "WRITE", restore ? "form.restore" : "form.update");
+
+  // Update form in database (conditional on base_revision when provided)
+  const form = await formsQueries.updateForm(
+    pool,
+    id,
+    ownerId,
+    actor.userId,
+    request.form_json,
+    baseRevision,
+    revisionMeta
+  );
 
   if (!form) {
+    const current = baseRevision !== undefined ? await formsQueries.getFormById(pool, id, ownerId) : null;
+    if (current) {
+      throw new StaleWriteError(
+        "Form was changed by another save since it was loaded",
+        current,
+        "FORM_REVISION_CONFLICT"
+      );
+    }
     throw new NotFoundError("Form not found");
   }
 
+  if (form.order_id != null) {
+    await orderEventsService.recordOrderEvent(pool, {
+      order_id: form.order_id,
+      form_id: form.id,
+      kind: restore ? "FORM_RESTORED" : "FORM_UPDATED",
+      actor: actor.userId,
+      payload: restore
+        ? { form_type: form.form_type, revision: form.revision, restored_from_revision: revisionMeta?.restored_from_revision ?? null }
+        : { form_type: form.form_type, revision: form.revision },
+    });
+  }
+
   return form;
 }
 
@@ -140,13 +247,25 @@ export async function updateForm(
  * Delete a form (soft delete)
  * @param pool - Database connection pool
  * @param id - Form ID
- * @param userId - User ID for authorization
+ * @param actor - Authenticated user (needs write access)
  * @throws NotFoundError if form not found
  */
-export async function deleteForm(pool: Pool, id: number, userId: string): Promise<void> {
-  const deleted = await formsQueries.deleteForm(pool, id, userId);
+export async function deleteForm(pool: Pool, id: number, actor: Actor): Promise<void> {
+  const { ownerId } = await requireFormAccess(pool, actor, id, "WRITE", "form.delete");
+  const form = await formsQueries.getFormById(pool, id, ownerId);
+  const deleted = await formsQueries.deleteForm(pool, id, ownerId);
 
   if (!deleted) {
     throw new NotFoundError("Form not found");
   }
+
+  if (form?.order_id != null) {
+    await orderEventsService.recordOrderEvent(pool, {
+      order_id: form.order_id,
+      form_id: form.id,
+      kind: "FORM_DELETED",
+      actor: actor.userId,
+      payload: { form_type: form.form_type, revision: form.revision },
+    });
+  }
 }
@@ -0,0 +1,291 @@
+/**
+ * inSign e-signature API client (ported from insign-poc/lib/insign-client.ts).
+ *
+ * Auth: OAuth2 client_credentials (INSIGN_USERNAME / INSIGN_PASSWORD as client id/secret);
+ * the token is cached in-process and refreshed shortly before expiry. INSIGN_BEARER_TOKEN
+ * bypasses OAuth2 (debugging with a token pasted from Swagger).
+ *
+ * Env:
+ *   INSIGN_BASE_URL, INSIGN_USERNAME, INSIGN_PASSWORD, INSIGN_FORUSER   required
+ *   INSIGN_BEARER_TOKEN                                                optional
+ *   INSIGN_WEBHOOK_BASE_URL       public URL of this backend (server-side callback)
+ *   INSIGN_WEBHOOK_USERNAME / _PASSWORD   Basic auth inSign sends with the callback;
+ *                                 required for callbacks, which are refused without them
+ *   INSIGN_BROWSER_CALLBACK_BASE_URL      frontend URL the signing UI returns to
+ */
+
+import { timingSafeEqual } from "node:crypto";
+import { ApiError, ServiceUnavailableError } from "../utils/errors";
+import type {
+  InsignCheckStatusResult,
+  InsignConfigureSessionInput,
+  InsignConfigureSessionResult,
+  InsignDownload,
+  InsignExternMultiuserInput,
+  InsignExternMultiuserResult,
+  InsignSessionStatusResult,
+} from "../types/insign.types";
+
+export interface InsignConfig {
+  baseUrl: string;
+  username: string;
+  password: string;
+  foruser: string;
+  bearerToken: string | null;
+  webhookBaseUrl: string | null;
+  webhookUsername: string | null;
+  webhookPassword: string | null;
+  browserCallbackBaseUrl: string | null;
+}
+
+const REQUEST_TIMEOUT_MS = 30_000;
+const TOKEN_REFRESH_MARGIN_MS = 60_000;
+
+let cachedToken: { accessToken: string; expiresAtMs: number } | null = null;
+let tokenInflight: Promise<{ accessToken: string; expiresAtMs: number }> | null = null;
+
+function optionalEnv(name: string): string | null {
+  const v = process.env[name]?.trim();
+  return v ? v : null;
+}
+
+function stripTrailingSlash(url: string | null): string | null {
+  return url ? url.replace(/\/+$/, "") : null;
+}
+
+export function isInsignConfigured(): boolean {
+  return (
+    !!optionalEnv("INSIGN_BASE_URL") &&
+    !!optionalEnv("INSIGN_FORUSER") &&
+    (!!optionalEnv("INSIGN_BEARER_TOKEN") ||
+      (!!optionalEnv("INSIGN_USERNAME") && !!optionalEnv("INSIGN_PASSWORD")))
+  );
+}
+
+export function getInsignConfig(): InsignConfig {
+  if (!isInsignConfigured()) {
+    throw new ServiceUnavailableError(
+      "Elektronický podpis (inSign) není nakonfigurován.",
+      "INSIGN_NOT_CONFIGURED"
+    );
+  }
+  return {
+    baseUrl: stripTrailingSlash(optionalEnv("INSIGN_BASE_URL"))!,
+    username: optionalEnv("INSIGN_USERNAME") ?? "",
+    password: optionalEnv("INSIGN_PASSWORD") ?? "",
+    foruser: optionalEnv("INSIGN_FORUSER")!,
+    bearerToken: optionalEnv("INSIGN_BEARER_TOKEN"),
+    // No callback is registered without credentials: the webhook would refuse it anyway.
+    webhookBaseUrl: isWebhookAuthConfigured() ? stripTrailingSlash(optionalEnv("INSIGN_WEBHOOK_BASE_URL")) : null,
+    webhookUsername: optionalEnv("INSIGN_WEBHOOK_USERNAME"),
+    webhookPassword: optionalEnv("INSIGN_WEBHOOK_PASSWORD"),
+    browserCallbackBaseUrl: stripTrailingSlash(optionalEnv("INSIGN_BROWSER_CALLBACK_BASE_URL")),
+  };
+}
+
+function isWebhookAuthConfigured(): boolean {
+  return !!optionalEnv("INSIGN_WEBHOOK_USERNAME") && !!optionalEnv("INSIGN_WEBHOOK_PASSWORD");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a, "utf-8");
+  const right = Buffer.from(b, "utf-8");
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Whether an incoming callback carries the Basic credentials configured for inSign.
+ * Fails closed: without INSIGN_WEBHOOK_USERNAME and _PASSWORD every callback is refused.
+ */
+export function isWebhookAuthorized(authorizationHeader: string | undefined): boolean {
+  if (!isWebhookAuthConfigured()) return false;
+  if (!authorizationHeader?.startsWith("Basic ")) return false;
+  const decoded = Buffer.from(authorizationHeader.slice(6), "base64").toString("utf-8");
+  const sep = decoded.indexOf(":");
+  if (sep < 0) return false;
+  const userOk = safeEqual(decoded.slice(0, sep), optionalEnv("INSIGN_WEBHOOK_USERNAME")!);
+  const passOk = safeEqual(decoded.slice(sep + 1), optionalEnv("INSIGN_WEBHOOK_PASSWORD")!);
+  return userOk && passOk;
+}
+
+function insignError(message: string): ApiError {
+  return new ApiError(502, message, "INSIGN_API_ERROR");
+}
+
+async function fetchToken(cfg: InsignConfig): Promise<{ accessToken: string; expiresAtMs: number }> {
+  const body = new URLSearchParams({
+    grant_type: "client_credentials",
+    client_id: cfg.username,
+    client_secret: cfg.password,
+  });
+  const res = await fetch(`${cfg.baseUrl}/oauth2/token`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  const text = await res.text();
+  let parsed: { access_token?: string; expires_in?: number; error?: string; error_description?: string } = {};
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    // leave parsed empty
+  }
+  if (!res.ok || !parsed.access_token) {
+    const detail = parsed.error_description ?? parsed.error ?? text.slice(0, 300);
+    throw insignError(`inSign OAuth2 token request failed (${res.status}): ${detail}`);
+  }
+  const expiresInSec = typeof parsed.expires_in === "number" ? parsed.expires_in : 1800;
+  return { accessToken: parsed.access_token, expiresAtMs: Date.now() + expiresInSec * 1000 };
+}
+
+async function getAccessToken(cfg: InsignConfig): Promise<string> {
+  if (cfg.bearerToken) return cfg.bearerToken;
+  if (cachedToken && cachedToken.expiresAtMs - Date.now() > TOKEN_REFRESH_MARGIN_MS) {
+    return cachedToken.accessToken;
+  }
+  if (!tokenInflight) {
+    tokenInflight = fetchToken(cfg).finally(() => {
+      tokenInflight = null;
+    });
+  }
+  cachedToken = await tokenInflight;
+  return cachedToken.accessToken;
+}
+
+/** POST with a JSON body; retries once on 401 in case the cached token expired meanwhile. */
+async function call(
+  path: string,
+  body: unknown,
+  query: Record<string, string | boolean | undefined> = {}
+): Promise<Response> {
+  const cfg = getInsignConfig();
+  const url = new URL(cfg.baseUrl + path);
+  for (const [k, v] of Object.entries(query)) {
+    if (v !== undefined) url.searchParams.set(k, String(v));
+  }
+
+  const send = async (): Promise<Response> => {
+    const token = await getAccessToken(cfg);
+    try {
+      return await fetch(url.toString(), {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          Accept: "application/json",
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+    } catch (error: any) {
+      throw insignError(`inSign ${path} call failed: ${error?.message ?? "Unknown error"}`);
+    }
+  };
+
+  let res = await send();
+  if (res.status === 401 && !cfg.bearerToken) {
+    cachedToken = null;
+    res = await send();
+  }
+  return res;
+}
+
+async function callJson<T extends { error?: number; message?: string }>(
+  path: string,
+  body: unknown,
+  query?: Record<string, string | boolean | undefined>
+): Promise<T> {
+  const res = await call(path, body, query);
+  const text = await res.text();
+  let parsed: T;
+  try {
+    parsed = (text ? JSON.parse(text) : {}) as T;
+  } catch {
+    throw insignError(`inSign ${path} returned non-JSON (status ${res.status}): ${text.slice(0, 300)}`);
+  }
+  if (!res.ok) {
+    throw insignError(`inSign ${path} failed (${res.status}): ${parsed.message ?? text.slice(0, 300)}`);
+  }
+  // inSign reports some failures as HTTP 200 with a non-zero `error`.
+  if (typeof parsed.error === "number" && parsed.error !== 0) {
+    throw insignError(`inSign ${path} error ${parsed.error}: ${parsed.message ?? "unknown"}`);
+  }
+  return parsed;
+}
+
+export async function configureSession(
+  input: InsignConfigureSessionInput
+): Promise<InsignConfigureSessionResult> {
+  return callJson<InsignConfigureSessionResult>("/configure/session", input);
+}
+
+export async function startExternMultiuser(
+  input: InsignExternMultiuserInput
+): Promise<InsignExternMultiuserResult> {
+  return callJson<InsignExternMultiuserResult>("/extern/beginmulti", input, { skipLandingPage: false });
+}
+
+export async function checkStatus(sessionid: string): Promise<InsignCheckStatusResult> {
+  return callJson<InsignCheckStatusResult>("/get/checkstatus", { sessionid });
+}
+
+export async function getStatus(sessionid: string): Promise<InsignSessionStatusResult> {
+  return callJson<InsignSessionStatusResult>("/get/status", { sessionid }, { withImages: false });
+}
+
+/**
+ * /configure/ablehnen — abort and delete the session on the inSign side.
+ * `sessionid` must go in the JSON body (query-only produces a server NPE).
+ */
+export async function rejectSession(sessionid: string): Promise<void> {
+  const res = await call("/configure/ablehnen", { sessionid }, { gdprDeclined: false });
+  if (!res.ok) {
+    const text = await res.text();
+    throw insignError(`inSign /configure/ablehnen failed (${res.status}): ${text.slice(0, 300)}`);
+  }
+}
+
+function parseContentDispositionFilename(header: string | null): string | null {
+  if (!header) return null;
+  const star = header.match(/filename\*\s*=\s*([^']+)'[^']*'([^;]+)/i);
+  if (star) {
+    try {
+      return decodeURIComponent(star[2].trim());
+    } catch {
+      // fall through
+    }
+  }
+  const plain = header.match(/filename\s*=\s*"?([^";]+)"?/i);
+  return plain?.[1] ?? null;
+}
+
+/**
+ * Signed document(s). With one document and no audit report inSign returns the PDF
+ * itself; otherwise a ZIP.
+ */
+export async function downloadDocuments(
+  sessionid: string,
+  opts: { auditreport: boolean }
+): Promise<InsignDownload> {
+  const res = await call(
+    "/get/documents/download",
+    { sessionid },
+    { auditreport: opts.auditreport, incBioData: false }
+  );
+  if (!res.ok) {
+    const text = await res.text();
+    throw insignError(`inSign /get/documents/download failed (${res.status}): ${text.slice(0, 300)}`);
+  }
+  return {
+    filename:
+      parseContentDispositionFilename(res.headers.get("content-disposition")) ?? `session-${sessionid}.bin`,
+    contentType: res.headers.get("content-type") ?? "application/octet-stream",
+    buffer: Buffer.from(await res.arrayBuffer()),
+  };
+}
+
+/** Audit trail of the session as JSON (who signed what, when, from which device). */
+export async function getAuditJson(sessionid: string): Promise<unknown> {
+  return callJson<{ error?: number; message?: string }>("/get/audit", { sessionid });
+}
@@ -0,0 +1,195 @@
+/**
+ * Order access — who may read or change an order and everything under it (forms,
+ * attachments, exports, retention).
+ *
+ *   owner               read + write
+ *   ADMIN, OFFICE       read + write on every order
+ *   MNG                 read + write on orders of reps in a common team
+ *   order_shares row    READ or WRITE as granted
+ *
+ * Deleting an order is narrower: owner, OFFICE and ADMIN only (`requireOrderDeleteAccess`)
+ * — a WRITE share or a team manager may edit the order but not remove it.
+ *
+ * The services call `requireOrderAccess` / `requireFormAccess` first and then run their
+ * existing user-scoped queries as the returned `ownerId`. Every access by someone other
+ * than the owner is written to order_access_audit.
+ *
+ * Shares, reassignment and teams are managed in order-sharing.service.
+ */
+
+import { Pool } from "pg";
+import * as accessQueries from "../queries/access.queries";
+import { Actor, OrderAccessBasis, OrderAccessGrant, OrderAccessLevel } from "../types/access.types";
+import { ForbiddenError, NotFoundError } from "../utils/errors";
+
+/** Best level the actor has on an order owned by `ownerId`, or null. */
+async function resolveAccess(
+  pool: Pool,
+  actor: Actor,
+  orderId: number | null,
+  ownerId: string
+): Promise<{ level: OrderAccessLevel; basis: OrderAccessBasis | null } | null> {
+  if (actor.userId === ownerId) return { level: "WRITE", basis: null };
+  if (actor.role === "ADMIN") return { level: "WRITE", basis: "ADMIN" };
+  if (actor.role === "OFFICE") return { level: "WRITE", basis: "OFFICE" };
+  if (actor.role === "MNG" && (await accessQueries.shareTeam(pool, actor.userId, ownerId))) {
+    return { level: "WRITE", basis: "TEAM" };
+  }
+  if (orderId != null) {
+    const shared = await accessQueries.getOrderShareAccess(pool, orderId, actor.userId);
+    if (shared) return { level: shared, basis: "SHARE" };
+  }
+  return null;
+}
+
+/** Audit a non-owner access. A failed write is logged; it does not block the user. */
+async function auditAccess(
+  pool: Pool,
+  actor: Actor,
+  grant: OrderAccessGrant,
+  level: OrderAccessLevel,
+  action: string,
+  formId: number | null
+): Promise<void> {
+  if (!grant.basis) return;
+  try {
+    await accessQueries.createAccessAudit(pool, {
+      order_id: grant.orderId,
+      form_id: formId,
+      actor: actor.userId,
+      actor_role: actor.role,
+      owner_user_id: grant.ownerId,
+      access: level,
+      basis: grant.basis,
+      action,
+    });
+  } catch (error: any) {
+    console.error(`Failed to audit ${action} on order ${grant.orderId}:`, error?.message ?? error);
+  }
+}
+
+function checkLevel(granted: OrderAccessLevel, needed: OrderAccessLevel): void {
+  if (needed === "WRITE" && granted !== "WRITE") {
+    throw new ForbiddenError("You have read-only access to this order");
+  }
+}
+
+/**
+ * Check the actor may access the order at `level` and audit non-owner access.
+ * @param action - What is being done, for the audit (e.g. "order.view", "form.update")
+ * @throws NotFoundError when the order does not exist or the actor has no access at all
+ * @throws ForbiddenError when WRITE is needed and the actor only has READ
+ */
+export async function requireOrderAccess(
+  pool: Pool,
+  actor: Actor,
+  orderId: number,
+  level: OrderAccessLevel,
+  action: string
+): Promise<OrderAccessGrant> {
+  const owner = await accessQueries.getOrderOwner(pool, orderId);
+  if (!owner) throw new NotFoundError("Order not found");
+  const access = await resolveAccess(pool, actor, orderId, owner.owner_user_id);
+  if (!access) throw new NotFoundError("Order not found");
+  checkLevel(access.level, level);
+  const grant: OrderAccessGrant = { orderId, ownerId: owner.owner_user_id, ...access };
+  await auditAccess(pool, actor, grant, level, action, null);
+  return grant;
+}
+
+/** Whether a grant allows deleting the order: the owner, OFFICE or ADMIN. */
+export function canDeleteOrder(grant: Pick<OrderAccessGrant, "level" | "basis">): boolean {
+  return grant.level === "WRITE" && (grant.basis === null || grant.basis === "OFFICE" || grant.basis === "ADMIN");
+}
+
+/**
+ * Whether a grant allows granting or revoking shares: the owner, a manager of the
+ * owner's team, OFFICE or ADMIN — not a user who only holds a share.
+ */
+export function canShareOrder(grant: Pick<OrderAccessGrant, "level" | "basis">): boolean {
+  return grant.level === "WRITE" && grant.basis !== "SHARE";
+}
+
+/** WRITE access narrowed by `allowed`; audited only once the check passes. */
+async function requireManagingAccess(
+  pool: Pool,
+  actor: Actor,
+  orderId: number,
+  allowed: (grant: Pick<OrderAccessGrant, "level" | "basis">) => boolean,
+  refusal: string,
+  action: string
+): Promise<OrderAccessGrant> {
+  const owner = await accessQueries.getOrderOwner(pool, orderId);
+  if (!owner) throw new NotFoundError("Order not found");
+  const access = await resolveAccess(pool, actor, orderId, owner.owner_user_id);
+  if (!access) throw new NotFoundError("Order not found");
+  if (!allowed(access)) throw new ForbiddenError(refusal);
+  const grant: OrderAccessGrant = { orderId, ownerId: owner.owner_user_id, ...access };
+  await auditAccess(pool, actor, grant, "WRITE", action, null);
+  return grant;
+}
+
+/**
+ * Check the actor may delete the order (see `canDeleteOrder`) and audit non-owner deletes.
+ * @throws NotFoundError when the order does not exist or the actor has no access at all
+ * @throws ForbiddenError when the actor may access the order but not delete it
+ */
+export function requireOrderDeleteAccess(pool: Pool, actor: Actor, orderId: number): Promise<OrderAccessGrant> {
+  return requireManagingAccess(
+    pool,
+    actor,
+    orderId,
+    canDeleteOrder,
+    "Only the owner, office or admin can delete this order",
+    "order.delete"
+  );
+}
+
+/**
+ * Check the actor may manage the order's shares (see `canShareOrder`) and audit it for
+ * non-owners.
+ * @throws NotFoundError when the order does not exist or the actor has no access at all
+ * @throws ForbiddenError when the actor may access the order but not share it
+ */
+export function requireOrderShareAccess(
+  pool: Pool,
+  actor: Actor,
+  orderId: number,
+  action: string
+): Promise<OrderAccessGrant> {
+  return requireManagingAccess(
+    pool,
+    actor,
+    orderId,
+    canShareOrder,
+    "Only the owner, their manager, office or admin can share this order",
+    action
+  );
+}
+
+/**
+ * Same as `requireOrderAccess` for a form, through the order it belongs to.
+ * Forms without an order are reachable by their owner, OFFICE and ADMIN only (not audited
+ * — the audit is per order).
+ * @throws NotFoundError when the form does not exist or the actor has no access at all
+ */
+export async function requireFormAccess(
+  pool: Pool,
+  actor: Actor,
+  formId: number,
+  level: OrderAccessLevel,
+  action: string
+): Promise<OrderAccessGrant & { formId: number }> {
+  const form = await accessQueries.getFormOwner(pool, formId);
+  if (!form) throw new NotFoundError("Form not found");
+  const access = await resolveAccess(pool, actor, form.order_id, form.owner_user_id);
+  if (!access) throw new NotFoundError("Form not found");
+  checkLevel(access.level, level);
+
+  if (form.order_id == null) {
+    return { orderId: 0, formId, ownerId: form.owner_user_id, ...access };
+  }
+  const grant = { orderId: form.order_id, formId, ownerId: form.owner_user_id, ...access };
+  await auditAccess(pool, actor, grant, level, action, formId);
+  return grant;
+}
@@ -0,0 +1,63 @@
+/**
+ * Order timeline — the services that act on an order (forms, PDF, export, retention,
+ * attachments, Raynet notes) record what they did here; the order page reads it back
+ * merged with the Raynet → order sync log.
+ *
+ * Recording is best effort: a failed insert is logged and never fails the action that
+ * triggered it.
+ */
+
+import { Pool } from "pg";
+import * as orderEventsQueries from "../queries/order-events.queries";
+import { requireOrderAccess } from "./order-access.service";
+import {
+  OrderTimelineQuery,
+  OrderTimelineResponse,
+  RecordOrderEventParams,
+} from "../types/order-events.types";
+import { Actor } from "../types/access.types";
+import { BadRequestError } from "../utils/errors";
+
+const DEFAULT_TIMELINE_LIMIT = 100;
+const MAX_TIMELINE_LIMIT = 500;
+
+/**
+ * Append one event to the order's timeline. FORM_UPDATED events of a form being edited
+ * are folded together. Never throws.
+ */
+export async function recordOrderEvent(pool: Pool, params: RecordOrderEventParams): Promise<void> {
+  try {
+    if (params.kind === "FORM_UPDATED" && (await orderEventsQueries.coalesceFormUpdatedEvent(pool, params))) {
+      return;
+    }
+    await orderEventsQueries.insertOrderEvent(pool, params);
+  } catch (error: any) {
+    console.error(`Failed to record ${params.kind} for order ${params.order_id}:`, error?.message ?? error);
+  }
+}
+
+/**
+ * Timeline of an order the user can read, newest first.
+ * @throws NotFoundError when the order does not exist
+ */
+export async function getOrderTimeline(
+  pool: Pool,
+  orderId: number,
+  actor: Actor,
+  query: OrderTimelineQuery = {}
+): Promise<OrderTimelineResponse> {
+  const limit = query.limit ?? DEFAULT_TIMELINE_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_TIMELINE_LIMIT) {
+    throw new BadRequestError(`limit must be between 1 and ${MAX_TIMELINE_LIMIT}`);
+  }
+  if (query.before && isNaN(query.before.getTime())) {
+    throw new BadRequestError("before must be an ISO timestamp");
+  }
+
+  await requireOrderAccess(pool, actor, orderId, "READ", "order.timeline.view");
+  const entries = await orderEventsQueries.listOrderTimeline(pool, orderId, limit, query.before ?? null);
+  return {
+    entries,
+    next_before: entries.length === limit ? entries[entries.length - 1].created_at.toISOString() : null,
+  };
+}
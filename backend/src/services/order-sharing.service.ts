@@ -0,0 +1,204 @@
+/**
+ * Order sharing, reassignment between reps, teams and the access audit listing.
+ * Access itself is decided by order-access.service.
+ */
+
+import { Pool } from "pg";
+import * as accessQueries from "../queries/access.queries";
+import * as orderEventsService from "./order-events.service";
+import { requireOrderAccess, requireOrderShareAccess } from "./order-access.service";
+import {
+  AccessAuditRecord,
+  Actor,
+  OrderAccessLevel,
+  OrderShareRecord,
+  TeamMemberRecord,
+  TeamRecord,
+} from "../types/access.types";
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from "../utils/errors";
+
+const DEFAULT_AUDIT_LIMIT = 100;
+const MAX_AUDIT_LIMIT = 1000;
+
+// ── Sharing ──────────────────────────────────────────────────────
+
+function normalizeUserId(value: unknown): string {
+  const userId = typeof value === "string" ? value.trim() : "";
+  if (!userId || !userId.includes("@")) {
+    throw new BadRequestError("user_id must be the user's e-mail", "INVALID_USER_ID");
+  }
+  return userId;
+}
+
+function normalizeAccessLevel(value: unknown): OrderAccessLevel {
+  if (value === "READ" || value === "WRITE") return value;
+  throw new BadRequestError("access must be READ or WRITE", "INVALID_ACCESS");
+}
+
+/**
+ * Shares of an order (anyone who can read the order may see them).
+ */
+export async function listOrderShares(pool: Pool, actor: Actor, orderId: number): Promise<OrderShareRecord[]> {
+  await requireOrderAccess(pool, actor, orderId, "READ", "order.shares.view");
+  return accessQueries.listOrderShares(pool, orderId);
+}
+
+/**
+ * Share an order with another user (or change the level). Only the owner, a manager of
+ * the owner's team, OFFICE and ADMIN may share — a user with a share cannot re-share.
+ */
+export async function shareOrder(
+  pool: Pool,
+  actor: Actor,
+  orderId: number,
+  body: { user_id?: unknown; access?: unknown }
+): Promise<OrderShareRecord> {
+  const userId = normalizeUserId(body.user_id);
+  const access = normalizeAccessLevel(body.access ?? "READ");
+  const grant = await requireOrderShareAccess(pool, actor, orderId, "order.share");
+  if (userId === grant.ownerId) {
+    throw new BadRequestError("The order already belongs to this user", "SHARE_WITH_OWNER");
+  }
+  const share = await accessQueries.upsertOrderShare(pool, {
+    order_id: orderId,
+    user_id: userId,
+    access,
+    granted_by: actor.userId,
+  });
+  await orderEventsService.recordOrderEvent(pool, {
+    order_id: orderId,
+    kind: "ORDER_SHARED",
+    actor: actor.userId,
+    payload: { user_id: userId, access },
+  });
+  return share;
+}
+
+/**
+ * Remove a share. Needs the same access as sharing, except that users may always drop
+ * their own share.
+ */
+export async function unshareOrder(pool: Pool, actor: Actor, orderId: number, userIdRaw: unknown): Promise<void> {
+  const userId = normalizeUserId(userIdRaw);
+  if (userId === actor.userId) {
+    await requireOrderAccess(pool, actor, orderId, "READ", "order.unshare");
+  } else {
+    await requireOrderShareAccess(pool, actor, orderId, "order.unshare");
+  }
+  const removed = await accessQueries.deleteOrderShare(pool, orderId, userId);
+  if (!removed) throw new NotFoundError("Share not found");
+  await orderEventsService.recordOrderEvent(pool, {
+    order_id: orderId,
+    kind: "ORDER_UNSHARED",
+    actor: actor.userId,
+    payload: { user_id: userId },
+  });
+}
+
+// ── Reassignment ─────────────────────────────────────────────────
+
+/**
+ * Hand an order (with its forms) over to another rep.
+ * Allowed for ADMIN and OFFICE, and for MNG when both the current and the new owner are
+ * in a team with them. The owner alone cannot give an order away.
+ * @throws ConflictError when the new owner already has an order for the same Raynet event
+ */
+export async function reassignOrder(
+  pool: Pool,
+  actor: Actor,
+  orderId: number,
+  body: { user_id?: unknown }
+): Promise<{ orderId: number; from: string; to: string }> {
+  const toUserId = normalizeUserId(body.user_id);
+  if (actor.role === "OVT") {
+    throw new ForbiddenError("Only managers and the office can reassign orders");
+  }
+  const grant = await requireOrderAccess(pool, actor, orderId, "WRITE", "order.reassign");
+  if (grant.ownerId === toUserId) {
+    throw new BadRequestError("The order already belongs to this user", "REASSIGN_TO_OWNER");
+  }
+  if (actor.role === "MNG") {
+    const withinTeam =
+      grant.basis !== "SHARE" &&
+      (toUserId === actor.userId || (await accessQueries.shareTeam(pool, actor.userId, toUserId)));
+    if (!withinTeam) throw new ForbiddenError("Managers can reassign orders only within their teams");
+  }
+
+  const client = await pool.connect();
+  let fromUserId: string;
+  try {
+    await client.query("BEGIN");
+    const locked = await accessQueries.lockOrderOwner(client, orderId);
+    if (!locked) throw new NotFoundError("Order not found");
+    fromUserId = locked.owner_user_id;
+    await accessQueries.reassignOrder(client, orderId, toUserId);
+    await client.query("COMMIT");
+  } catch (error: any) {
+    await client.query("ROLLBACK");
+    if (error?.code === "23505") {
+      throw new ConflictError(
+        "The new owner already has an order for the same Raynet event",
+        "REASSIGN_DUPLICATE_RAYNET_EVENT"
+      );
+    }
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  await orderEventsService.recordOrderEvent(pool, {
+    order_id: orderId,
+    kind: "ORDER_REASSIGNED",
+    actor: actor.userId,
+    payload: { from: fromUserId, to: toUserId },
+  });
+  return { orderId, from: fromUserId, to: toUserId };
+}
+
+// ── Teams (admin) ────────────────────────────────────────────────
+
+export function listTeams(pool: Pool): Promise<TeamRecord[]> {
+  return accessQueries.listTeams(pool);
+}
+
+export async function createTeam(pool: Pool, body: { name?: unknown }): Promise<TeamRecord> {
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name) throw new BadRequestError("name is required", "TEAM_NAME_REQUIRED");
+  const team = await accessQueries.createTeam(pool, name);
+  if (!team) throw new ConflictError(`Team "${name}" already exists`, "TEAM_EXISTS");
+  return team;
+}
+
+export async function deleteTeam(pool: Pool, teamId: number): Promise<void> {
+  if (!(await accessQueries.deleteTeam(pool, teamId))) throw new NotFoundError("Team not found");
+}
+
+export async function addTeamMember(
+  pool: Pool,
+  teamId: number,
+  body: { user_id?: unknown }
+): Promise<TeamMemberRecord> {
+  const userId = normalizeUserId(body.user_id);
+  if (!(await accessQueries.teamExists(pool, teamId))) throw new NotFoundError("Team not found");
+  return accessQueries.addTeamMember(pool, teamId, userId);
+}
+
+export async function removeTeamMember(pool: Pool, teamId: number, userIdRaw: unknown): Promise<void> {
+  const userId = normalizeUserId(userIdRaw);
+  if (!(await accessQueries.removeTeamMember(pool, teamId, userId))) {
+    throw new NotFoundError("Team member not found");
+  }
+}
+
+// ── Audit (admin) ────────────────────────────────────────────────
+
+export function listAccessAudit(
+  pool: Pool,
+  filter: { orderId?: number; actor?: string; limit?: number }
+): Promise<AccessAuditRecord[]> {
+  const limit =
+    filter.limit && Number.isInteger(filter.limit) && filter.limit > 0
+      ? Math.min(filter.limit, MAX_AUDIT_LIMIT)
+      : DEFAULT_AUDIT_LIMIT;
+  return accessQueries.listAccessAudit(pool, { orderId: filter.orderId, actor: filter.actor, limit });
+}
@@ -13,38 +13,70 @@ import {
 } from "../types/orders.types";
 import { PaginatedResponse } from "../types/forms.types"; // reuse pagination shape
 import * as ordersQueries from "../queries/orders.queries";
+import * as orderEventsService from "./order-events.service";
+import { requireOrderAccess, requireOrderDeleteAccess } from "./order-access.service";
+import * as customerMasterService from "./customer-master.service";
+import { Actor } from "../types/access.types";
 import { validatePagination } from "../utils/validation";
-import { NotFoundError } from "../utils/errors";
+import { BadRequestError, NotFoundError } from "../utils/errors";
 
 /**
- * Create a new order
+ * Live customer record for an explicit customer_id (merged ids resolve to their target).
+ * @throws BadRequestError CUSTOMER_NOT_FOUND
+ */
+async function requireCustomerId(pool: Pool, customerId: number): Promise<number> {
+  try {
+    return (await customerMasterService.getLiveCustomer(pool, customerId)).id;
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw new BadRequestError("Customer not found", "CUSTOMER_NOT_FOUND");
+    }
+    throw error;
+  }
+}
+
+/**
+ * Create a new order owned by the caller
  * @param pool - Database connection pool
- * @param userId - User ID
- * @param request - Order creation request (customer data)
+ * @param actor - Authenticated user
+ * @param request - Order creation request (customer data). Without customer_id the customer
+ *   record is matched (Raynet / ERP id, IČO, e-mail, phone) or created from the data.
  * @returns Created order record
  */
 export async function createOrder(
   pool: Pool,
-  userId: string,
+  actor: Actor,
   request: CreateOrderRequest
 ): Promise<OrderRecord> {
-  return await ordersQueries.createOrder(pool, userId, request);
+  const customerId =
+    request.customer_id != null
+      ? await requireCustomerId(pool, request.customer_id)
+      : (await customerMasterService.resolveCustomer(pool, request))?.id;
+  const order = await ordersQueries.createOrder(pool, actor.userId, { ...request, customer_id: customerId });
+  await orderEventsService.recordOrderEvent(pool, {
+    order_id: order.id,
+    kind: "ORDER_CREATED",
+    actor: actor.userId,
+    payload: order.source_raynet_event_id ? { source_raynet_event_id: order.source_raynet_event_id } : {},
+  });
+  return order;
 }
 
 /**
  * Get an order by ID
  * @param pool - Database connection pool
  * @param id - Order ID
- * @param userId - User ID for authorization
+ * @param actor - Authenticated user (checked by order-access.service)
  * @returns Order record
  * @throws NotFoundError if order not found
  */
 export async function getOrderById(
   pool: Pool,
   id: number,
-  userId: string
+  actor: Actor
 ): Promise<OrderRecord> {
-  const order = await ordersQueries.getOrderById(pool, id, userId);
+  const { ownerId } = await requireOrderAccess(pool, actor, id, "READ", "order.view");
+  const order = await ordersQueries.getOrderById(pool, id, ownerId);
   if (!order) {
     throw new NotFoundError("Order not found");
   }
@@ -52,19 +84,19 @@ export async function getOrderById(
 }
 
 /**
- * Get paginated list of orders for a user
+ * Get paginated list of orders: the caller's own (scope "mine", default) or every order
+ * they can open (scope "accessible": shares, team orders for MNG, all for OFFICE / ADMIN).
  */
 export async function getOrdersByUserId(
   pool: Pool,
-  userId: string,
+  actor: Actor,
   query: ListOrdersQuery = {}
 ): Promise<PaginatedResponse<OrderRecord>> {
   const { page, limit } = validatePagination(query.page, query.limit);
-  const { orders, total } = await ordersQueries.getOrdersByUserId(pool, userId, {
-    ...query,
-    page,
-    limit,
-  });
+  const { orders, total } =
+    query.scope === "accessible"
+      ? await ordersQueries.getAccessibleOrders(pool, actor, { ...query, page, limit })
+      : await ordersQueries.getOrdersByUserId(pool, actor.userId, { ...query, page, limit });
   const totalPages = Math.ceil(total / limit);
   return {
     data: orders,
@@ -74,17 +106,19 @@ export async function getOrdersByUserId(
 
 /**
  * Update an order.
- * When raynet_id, erp_customer_id, source_raynet_event_id, source_erp_order_id, or notes are
- * undefined in the request, existing values are preserved (explicit null clears the field).
+ * When raynet_id, erp_customer_id, source_raynet_event_id, source_erp_order_id, notes or customer_id
+ * are undefined in the request, existing values are preserved (explicit null clears the field).
+ * An order without a customer record (created before customers existed) gets one matched here.
  * @throws NotFoundError if order not found
  */
 export async function updateOrder(
   pool: Pool,
   id: number,
-  userId: string,
+  actor: Actor,
   request: UpdateOrderRequest
 ): Promise<OrderRecord> {
-  const existing = await ordersQueries.getOrderById(pool, id, userId);
+  const { ownerId } = await requireOrderAccess(pool, actor, id, "WRITE", "order.update");
+  const existing = await ordersQueries.getOrderById(pool, id, ownerId);
   if (!existing) {
     throw new NotFoundError("Order not found");
   }
@@ -101,8 +135,27 @@ export async function updateOrder(
         ? request.source_erp_order_id
         : existing.source_erp_order_id,
     notes: request.notes !== undefined ? request.notes : existing.notes,
+    customer_id:
+      request.customer_id != null
+        ? await requireCustomerId(pool, request.customer_id)
+        : request.customer_id === null
+          ? null
+          : existing.customer_id,
   };
-  const order = await ordersQueries.updateOrder(pool, id, userId, merged);
+  if (merged.customer_id == null && request.customer_id === undefined) {
+    const customer = await customerMasterService.resolveCustomer(pool, {
+      name: merged.name ?? existing.name,
+      email: merged.email ?? existing.email,
+      phone: merged.phone ?? existing.phone,
+      address: merged.address ?? existing.address,
+      city: merged.city ?? existing.city,
+      zipcode: merged.zipcode ?? existing.zipcode,
+      raynet_id: merged.raynet_id,
+      erp_customer_id: merged.erp_customer_id,
+    });
+    merged.customer_id = customer?.id ?? null;
+  }
+  const order = await ordersQueries.updateOrder(pool, id, ownerId, merged);
   if (!order) {
     throw new NotFoundError("Order not found");
   }
@@ -111,21 +164,25 @@ export async function updateOrder(
 
 /**
  * Delete an order (soft delete)
+ * Owner, OFFICE and ADMIN only — shared users and team managers may edit, not delete.
  * @throws NotFoundError if order not found
+ * @throws ForbiddenError if the actor may access the order but not delete it
  */
 export async function deleteOrder(
   pool: Pool,
   id: number,
-  userId: string
+  actor: Actor
 ): Promise<void> {
-  const deleted = await ordersQueries.deleteOrder(pool, id, userId);
+  const { ownerId } = await requireOrderDeleteAccess(pool, actor, id);
+  const deleted = await ordersQueries.deleteOrder(pool, id, ownerId);
   if (!deleted) {
     throw new NotFoundError("Order not found");
   }
 }
 
 /**
- * Resolve existing order links for provided Raynet event ids.
+ * Resolve existing order links for provided Raynet event ids (the user's own orders —
+ * the events come from their calendar).
  */
 export async function findOrdersByRaynetEventIds(
   pool: Pool,
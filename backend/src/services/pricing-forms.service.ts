@@ -4,6 +4,13 @@
  */
 
 import type { Pool } from "pg";
+import { parseDimensionRoundingPolicy } from "@ovt/pricing-engine";
+import type {
+  PricingVariant,
+  ProductPricingBundle,
+  ProductPricingForResolve as EngineProductPricingForResolve,
+  SizeLimitVariant,
+} from "@ovt/pricing-engine";
 
 /**
  * Same resolution as frontend `resolveProductNameFromPayload` (empty/whitespace `Name` skips to next source).
@@ -152,23 +159,19 @@ export async function listOvtManufacturers(pool: Pool): Promise<string[]> {
 }
 
 /** Product pricing row for price resolution (price_affecting_enums + surcharges) */
-export interface ProductPricingForResolve {
-  id: string;
-  price_affecting_enums: string[];
-  /** Optional surcharge configuration per property (from product_pricing.surcharges) */
-  surcharges?: Record<string, unknown> | null;
-}
+export type ProductPricingForResolve = EngineProductPricingForResolve;
 
 /**
  * Get product_pricing by id for price resolution (price_affecting_enums).
  * Used to know which row fields to use as selector when resolving variant.
+ * An invalid stored rounding_policy is treated like none (default policy).
  */
 export async function getProductPricingForResolve(
   pool: Pool,
   id: string
 ): Promise<ProductPricingForResolve | null> {
   const result = await pool.query(
-    `SELECT id, price_affecting_enums, surcharges
+    `SELECT id, price_affecting_enums, surcharges, rounding_policy
      FROM product_pricing
      WHERE id = $1 AND available_for_ovt = true`,
     [id]
@@ -192,17 +195,12 @@ export async function getProductPricingForResolve(
     id: row.id,
     price_affecting_enums: priceAffectingEnums,
     surcharges: (row.surcharges as Record<string, unknown> | null) ?? null,
+    rounding_policy: parseDimensionRoundingPolicy(row.rounding_policy),
   };
 }
 
 /** Single pricing_variant row (selector + dimension_pricing for matching and price lookup) */
-export interface PricingVariantRow {
-  id: string;
-  selector: Record<string, string[]>;
-  dimension_pricing: { prices?: Record<string, number> } | null;
-  /** When true, this variant has no dimension grid — combinations are priced purely from surcharges. */
-  surcharge_only: boolean;
-}
+export type PricingVariantRow = PricingVariant;
 
 /**
  * Get all pricing_variant rows for a product_pricing id.
@@ -228,17 +226,17 @@ export async function getPricingVariantsByProductId(
       }
     }
     // SQL NULL → null (surcharge-only variants); object/string JSON → parsed grid object
-    let dimension_pricing: { prices?: Record<string, number> } | null = null;
+    let dimension_pricing: PricingVariant["dimension_pricing"] = null;
     const rawDp = r.dimension_pricing;
     if (rawDp != null && rawDp !== "") {
       if (typeof rawDp === "object" && !Array.isArray(rawDp)) {
-        dimension_pricing = rawDp as { prices?: Record<string, number> };
+        dimension_pricing = rawDp as PricingVariant["dimension_pricing"];
       } else if (typeof rawDp === "string") {
         try {
           const parsed = JSON.parse(rawDp) as unknown;
           dimension_pricing =
             parsed != null && typeof parsed === "object" && !Array.isArray(parsed)
-              ? (parsed as { prices?: Record<string, number> })
+              ? (parsed as PricingVariant["dimension_pricing"])
               : {};
         } catch {
           dimension_pricing = {};
@@ -250,22 +248,7 @@ export async function getPricingVariantsByProductId(
 }
 
 /** Single size_limit_variant row for manufacturing/warranty range check */
-export interface SizeLimitVariantRow {
-  id: string;
-  selector: Record<string, string[]>;
-  mezni_sirka_min: number | null;
-  mezni_sirka_max: number | null;
-  mezni_vyska_min: number | null;
-  mezni_vyska_max: number | null;
-  zarucni_sirka_min: number | null;
-  zarucni_sirka_max: number | null;
-  zarucni_vyska_min: number | null;
-  zarucni_vyska_max: number | null;
-  mezni_plocha_min: number | null;
-  mezni_plocha_max: number | null;
-  zarucni_plocha_min: number | null;
-  zarucni_plocha_max: number | null;
-}
+export type SizeLimitVariantRow = SizeLimitVariant;
 
 /**
  * Get all size_limit_variant rows for a product_pricing id.
@@ -321,3 +304,29 @@ export async function getSizeLimitVariantsByProductId(
     };
   });
 }
+
+/**
+ * Everything the OVT needs to price one product on the device (variants + surcharges +
+ * size limits). Null when the product is not available for OVT.
+ */
+export async function getProductPricingBundle(
+  pool: Pool,
+  productPricingId: string
+): Promise<ProductPricingBundle | null> {
+  const product = await getProductPricingForResolve(pool, productPricingId);
+  if (!product) return null;
+  const [variants, sizeLimits] = await Promise.all([
+    getPricingVariantsByProductId(pool, productPricingId),
+    getSizeLimitVariantsByProductId(pool, productPricingId),
+  ]);
+  return {
+    bundle_version: 1,
+    product_pricing_id: product.id,
+    price_affecting_enums: product.price_affecting_enums,
+    surcharges: product.surcharges ?? null,
+    rounding_policy: product.rounding_policy ?? null,
+    variants,
+    size_limits: sizeLimits,
+    generated_at: new Date().toISOString(),
+  };
+}
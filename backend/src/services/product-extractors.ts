@@ -1,236 +1,43 @@
 /**
  * Product extractors: turn step 1 form form_json into product lines for ADMF.
  * Prices are resolved from pricing DB (pricing_variant) using product_pricing_id stored in schema.
+ * The pricing math is @ovt/pricing-engine; this module loads its inputs from the pricing DB.
  */
 
 import type { Pool } from "pg";
+import {
+  buildAutomatedTrace,
+  collectFormProductPricingIds,
+  describePriceAffectingFields,
+  describeSizeLimitViolation,
+  evaluateRowSizeLimits,
+  flattenRowForExtract,
+  previewCustomFormPricing as previewCustomFormPricingFromInputs,
+  priceCustomRow,
+  productPricingNotFoundMessage,
+  readCustomFormLayout,
+  rowProductPricingId,
+  rowSchemaFor,
+  sizeLimitViolation,
+  type FormPreviewResult,
+  type ResolvedCustomRowPricing,
+  type RowPricingInputs,
+  type SizeLimitVariant,
+} from "@ovt/pricing-engine";
 import type { FormType } from "../types/forms.types";
 import type {
-  AdmfPricingTraceAutomatedV1,
   AdmfPricingTraceV1,
-  ExtractedPriceAffectingField,
   ExtractedProductLine,
 } from "../types/extract-products.types";
+import { BadRequestError } from "../utils/errors";
 import {
+  getPricingVariantsByProductId,
   getProductPricingForResolve,
-  type ProductPricingForResolve,
-  type PricingVariantRow,
+  getSizeLimitVariantsByProductId,
 } from "./pricing-forms.service";
-import { resolvePriceDetailed, resolveUnitPriceFromVariants } from "./pricing.service";
-
-/** Possible row property codes for width/height (order of preference) */
-const WIDTH_KEYS = ["ovl_sirka", "width", "Sirka", "sirka", "šířka"];
-const HEIGHT_KEYS = ["ovl_vyska", "height", "Vyska", "vyska", "výška"];
-
-function getDimension(row: Record<string, unknown>, keys: string[]): string {
-  for (const k of keys) {
-    const v = row[k];
-    if (v !== undefined && v !== null && v !== "") return String(v).trim();
-  }
-  return "";
-}
-
-/** Get section properties array from schema (zahlavi, form_body, zapati) */
-function getSectionProperties(schemaSection: unknown): Array<Record<string, unknown>> {
-  const sec = schemaSection as { Properties?: unknown[] } | undefined;
-  if (!sec || !Array.isArray(sec.Properties)) return [];
-  return sec.Properties as Array<Record<string, unknown>>;
-}
 
-/** Find property definition by Code across all sections (zahlavi, form_body, zapati) */
-export function findPropertyByCode(schema: Record<string, unknown>, code: string): Record<string, unknown> | null {
-  const allSections = [
-    getSectionProperties(schema.zahlavi),
-    getSectionProperties(schema.form_body),
-    getSectionProperties(schema.zapati),
-  ];
-  for (const props of allSections) {
-    const found = props.find((p) => (p.Code as string) === code);
-    if (found) return found;
-  }
-  return null;
-}
-
-/**
- * Resolve a human-friendly label for a schema property.
- * Falls back to the technical code when no name/title is available.
- */
-function getPropertyLabel(propDef: Record<string, unknown> | null, code: string): string {
-  if (!propDef) return code;
-  const name = (propDef.Name as string | undefined)?.trim();
-  if (name) return name;
-  const title = (propDef.Title as string | undefined)?.trim();
-  if (title) return title;
-  return code;
-}
-
-/**
- * Resolve a human-friendly display value for a property based on schema enum metadata.
- * For non-enum or when metadata is missing, falls back to the raw stringified value.
- */
-function getDisplayValueFromEnum(
-  propDef: Record<string, unknown> | null,
-  rawValue: unknown
-): string {
-  const rawStr = rawValue != null ? String(rawValue).trim() : "";
-  if (!propDef || !rawStr) return rawStr;
-
-  const dataType = propDef.DataType as string | undefined;
-  if (dataType !== "enum") return rawStr;
-
-  const enumValues = (propDef.EnumValues as Array<{ Code?: string; Name?: string }> | undefined) ?? [];
-  if (!Array.isArray(enumValues) || enumValues.length === 0) return rawStr;
-
-  const match = enumValues.find((item) => String(item.Code) === rawStr);
-  if (!match) return rawStr;
-
-  const name = (match.Name as string | undefined)?.trim();
-  return name || rawStr;
-}
-
-/** Compute surcharge for one property based on its config, value, dimensions and quantity. */
-export function computeSurchargeForProperty(args: {
-  cfg: Record<string, unknown>;
-  propDef: Record<string, unknown> | null;
-  rawValue: unknown;
-  widthMm: number;
-  heightMm: number;
-  ks: number;
-  /**
-   * Base price used for percent surcharges.
-   * Interpreted as the current line base before applying this surcharge.
-   */
-  basePrice: number;
-}): number {
-  const { cfg, propDef, rawValue, widthMm, heightMm, ks, basePrice } = args;
-  if (!cfg || !propDef) return 0;
-
-  const type = cfg.type as string | undefined;
-  const dataType = propDef.DataType as string | undefined;
-  const basisFrom = (basis: unknown, amount: unknown): number => {
-    if (typeof amount !== "number" || amount === 0) return 0;
-    const b = basis as string | undefined;
-    if (b === "percent_base") {
-      if (!Number.isFinite(basePrice)) return 0;
-      return basePrice * (amount / 100);
-    }
-    if (b === "flat") return amount;
-    if (b === "per_piece") return amount * (ks || 1);
-    if (b === "per_m2") {
-      const areaM2 = (widthMm * heightMm) / 1_000_000;
-      if (!Number.isFinite(areaM2) || areaM2 <= 0) return 0;
-      return amount * areaM2;
-    }
-    if (b === "per_width") return amount * widthMm;
-    if (b === "per_height") return amount * heightMm;
-    return 0;
-  };
-
-  if (type === "numeric" && dataType === "numeric") {
-    const amount = cfg.amount as number | undefined;
-    const onlyWhen = cfg.only_when_values as number[] | undefined;
-    const valNum = Number(rawValue);
-    if (Number.isNaN(valNum)) return 0;
-    if (Array.isArray(onlyWhen) && onlyWhen.length > 0 && !onlyWhen.includes(valNum)) {
-      return 0;
-    }
-    return basisFrom(cfg.basis, amount);
-  }
-
-  if (type === "boolean" && dataType === "boolean") {
-    const boolVal = Boolean(rawValue);
-    const branch = boolVal ? (cfg.price_if_true as Record<string, unknown> | null | undefined)
-                           : (cfg.price_if_false as Record<string, unknown> | null | undefined);
-    if (!branch) return 0;
-    return basisFrom(branch.basis, branch.amount);
-  }
-
-  if (type === "enum" && dataType === "enum") {
-    const currentCode = rawValue != null ? String(rawValue) : "";
-    if (!currentCode) return 0;
-    const perValue = cfg.per_value as Record<string, { basis?: string; amount?: number }> | undefined;
-    const valueCfg = perValue ? perValue[currentCode] : undefined;
-    if (!valueCfg || typeof valueCfg.amount !== "number") return 0;
-    return basisFrom(valueCfg.basis, valueCfg.amount);
-  }
-
-  return 0;
-}
-
-/**
- * Build selector values from form row for price_affecting_enums.
- * All enum codes must be present in the row; otherwise throws (price cannot be resolved).
- */
-function getSelectorValuesFromRow(
-  row: Record<string, unknown>,
-  priceAffectingEnums: string[],
-  productName: string,
-  dimStr: string
-): Record<string, string> {
-  const out: Record<string, string> = {};
-  const missing: string[] = [];
-  for (const key of priceAffectingEnums) {
-    const v = row[key];
-    if (v !== undefined && v !== null && v !== "") {
-      out[key] = String(v).trim();
-    } else {
-      missing.push(key);
-    }
-  }
-  if (missing.length > 0) {
-    throw new Error(
-      `Cannot resolve price for "${productName}" (${dimStr}): missing price-affecting fields: ${missing.join(", ")}. ` +
-        "Fill all variant options (e.g. type, color) in the form row."
-    );
-  }
-  return out;
-}
-
-/**
- * Flatten a persisted row: supports new `{ product_pricing_id, values }` or legacy flat row object.
- */
-/** Human label for one row’s product (mirrors frontend `resolveProductNameFromPayload`). */
-function displayNameFromRowSchema(rowSchema: Record<string, unknown>): string {
-  const pick = (v: unknown): string => {
-    if (typeof v === "string" && v.trim().length > 0) return v.trim();
-    return "";
-  };
-  const fb = rowSchema.form_body as { Name?: string } | undefined;
-  const zh = rowSchema.zahlavi as { Name?: string } | undefined;
-  const zp = rowSchema.zapati as { Name?: string } | undefined;
-  const code = typeof rowSchema.product_code === "string" ? rowSchema.product_code.trim() : "";
-  return pick(fb?.Name) || pick(zh?.Name) || pick(zp?.Name) || (code || "Vlastní produkt");
-}
-
-function flattenRowForExtract(row: Record<string, unknown>): Record<string, unknown> {
-  const values = row.values;
-  if (values && typeof values === "object" && !Array.isArray(values)) {
-    const v = values as Record<string, unknown>;
-    const out: Record<string, unknown> = { ...v };
-    if (row.linkGroupId !== undefined) out.linkGroupId = row.linkGroupId;
-    return out;
-  }
-  return row;
-}
-
-interface ResolvedCustomRowPricingCore {
-  productName: string;
-  dimStr: string;
-  produkt: string;
-  ks: number;
-  selectorValues: Record<string, string>;
-  unit_price_grid: number;
-  pricing_variant_id: string;
-  dimensions: AdmfPricingTraceAutomatedV1["dimensions"];
-  surcharge_only?: boolean;
-  line_base: number;
-  surcharge_total: number;
-  surcharges: Array<{ code: string; label?: string; amount: number }>;
-  surcharge_warnings: string[];
-  cena: number;
-  sleva: number;
-  cenaPoSleve: number;
-}
+export { computeSurchargeForProperty, findPropertyByCode } from "@ovt/pricing-engine";
+export type { FormPreviewLine, FormPreviewResult, FormPreviewUnpriced } from "@ovt/pricing-engine";
 
 /**
  * Optional pre-fetched (and possibly override-merged) inputs. When supplied,
@@ -238,9 +45,17 @@ interface ResolvedCustomRowPricingCore {
  * by the admin impact-diff endpoint to recompute a row under proposed changes
  * without altering the live row's saved state.
  */
-export interface CustomRowPricingPreFetched {
-  product: ProductPricingForResolve;
-  variants: PricingVariantRow[];
+export type CustomRowPricingPreFetched = RowPricingInputs;
+
+/** Load product_pricing + pricing_variant rows for one product; null when not available for OVT. */
+async function loadRowPricingInputs(
+  pricingPool: Pool,
+  productPricingId: string
+): Promise<RowPricingInputs | null> {
+  const product = await getProductPricingForResolve(pricingPool, productPricingId);
+  if (!product) return null;
+  const variants = await getPricingVariantsByProductId(pricingPool, productPricingId);
+  return { product, variants };
 }
 
 export async function resolveCustomRowPricingCore(args: {
@@ -249,115 +64,13 @@ export async function resolveCustomRowPricingCore(args: {
   flatRow: Record<string, unknown>;
   productPricingId: string;
   preFetched?: CustomRowPricingPreFetched;
-}): Promise<ResolvedCustomRowPricingCore> {
+}): Promise<ResolvedCustomRowPricing> {
   const { pricingPool, rowSchema, flatRow, productPricingId, preFetched } = args;
-  const product =
-    preFetched?.product ??
-    (await getProductPricingForResolve(pricingPool, productPricingId));
-  if (!product) {
-    throw new Error(
-      `Product pricing not found for id "${productPricingId}". It may have been removed or is not available for OVT.`
-    );
-  }
-
-  const productName = displayNameFromRowSchema(rowSchema);
-  const width = getDimension(flatRow, WIDTH_KEYS);
-  const height = getDimension(flatRow, HEIGHT_KEYS);
-  const dimStr = [width, height].filter(Boolean).join("×") || "—";
-  const produkt = productName;
-
-  const ksRaw = flatRow.ks ?? flatRow.kus ?? flatRow.count ?? flatRow.quantity;
-  const ks = (() => {
-    const n = Number(ksRaw);
-    if (!Number.isFinite(n) || n <= 0) return 1;
-    return Math.round(n);
-  })();
-
-  const priceAffectingEnums = product.price_affecting_enums || [];
-  const selectorValues = getSelectorValuesFromRow(flatRow, priceAffectingEnums, productName, dimStr);
-  const surchargeConfigMap = (product.surcharges as Record<string, unknown> | null) ?? null;
-  const surchargeProperties = (rowSchema.surcharge_properties as string[] | undefined) ?? [];
-
-  const {
-    unitPrice: unitCenaBase,
-    pricing_variant_id,
-    dimensions,
-    surcharge_only: variantSurchargeOnly,
-  } = preFetched
-    ? resolveUnitPriceFromVariants({
-        variants: preFetched.variants,
-        selectorValues,
-        width,
-        height,
-        productPricingIdForErrors: productPricingId,
-      })
-    : await resolvePriceDetailed(pricingPool, productPricingId, selectorValues, width, height);
-
-  const cenaBase = unitCenaBase * ks;
-  let surchargeTotal = 0;
-  const surchargeItems: Array<{ code: string; label?: string; amount: number }> = [];
-  const surchargeWarnings: string[] = [];
-  if (surchargeConfigMap && surchargeProperties.length > 0) {
-    const widthMm = Number(width);
-    const heightMm = Number(height);
-    for (const code of surchargeProperties) {
-      const cfg = surchargeConfigMap[code] as Record<string, unknown> | undefined;
-      if (!cfg) {
-        surchargeWarnings.push(
-          `Příplatek pro pole "${code}" není nakonfigurován v ceníku (surcharges).`
-        );
-        continue;
-      }
-      const propDef = findPropertyByCode(rowSchema, code);
-      if (!propDef) {
-        surchargeWarnings.push(
-          `Příplatek pro pole "${code}" byl nalezen v ceníku, ale pole v JSON schématu chybí.`
-        );
-      }
-      const rawValue = flatRow[code];
-      const currentBaseBeforeSurcharge = cenaBase + surchargeTotal;
-      const amount = computeSurchargeForProperty({
-        cfg,
-        propDef,
-        rawValue,
-        widthMm,
-        heightMm,
-        ks,
-        basePrice: currentBaseBeforeSurcharge,
-      });
-      if (amount !== 0) {
-        surchargeTotal += amount;
-        surchargeItems.push({
-          code,
-          label: (propDef?.Name as string | undefined) ?? code,
-          amount,
-        });
-      }
-    }
+  const inputs = preFetched ?? (await loadRowPricingInputs(pricingPool, productPricingId));
+  if (!inputs) {
+    throw new Error(productPricingNotFoundMessage(productPricingId));
   }
-
-  const cenaWithSurcharges = cenaBase + surchargeTotal;
-  const sleva = 0;
-  const cenaPoSleve = Math.round(cenaWithSurcharges * (1 - sleva / 100));
-
-  return {
-    productName,
-    dimStr,
-    produkt,
-    ks,
-    selectorValues,
-    unit_price_grid: unitCenaBase,
-    pricing_variant_id,
-    dimensions,
-    ...(variantSurchargeOnly && { surcharge_only: true }),
-    line_base: cenaBase,
-    surcharge_total: surchargeTotal,
-    surcharges: surchargeItems,
-    surcharge_warnings: surchargeWarnings,
-    cena: cenaWithSurcharges,
-    sleva,
-    cenaPoSleve,
-  };
+  return priceCustomRow({ inputs, rowSchema, flatRow, productPricingId });
 }
 
 export interface CustomRowPricePreview {
@@ -406,24 +119,22 @@ export async function previewCustomRowPrice(args: {
  * Custom form: `form_json` is `{ schema, product_schemas?, data }`.
  * Each row references `product_pricing_id` and optional `product_schemas[id]` for row-level schema;
  * falls back to top-level `schema` when `product_schemas` is missing (legacy).
+ *
+ * Size limits are checked per row: a size outside the manufacturing range refuses the whole
+ * extraction (400 SIZE_OUT_OF_MANUFACTURING_RANGE); outside the warranty range the line is
+ * flagged `bezZaruky`, with a warning when the OVT row did not acknowledge it (`bezZarukyAck`).
  */
 export async function extractFromCustom(
   formJson: Record<string, unknown>,
   pricingPool: Pool,
   sourceFormId: number
 ): Promise<ExtractedProductLine[]> {
-  const schemaTop = formJson?.schema as Record<string, unknown> | undefined;
-  const data = formJson?.data as Record<string, unknown> | undefined;
-  if (!schemaTop || !data) return [];
-
-  const productSchemasRaw = formJson.product_schemas as Record<string, Record<string, unknown>> | undefined;
-  const productSchemas: Record<string, Record<string, unknown>> =
-    productSchemasRaw && typeof productSchemasRaw === "object" ? productSchemasRaw : {};
-
-  const rooms = data?.rooms as Array<{ name?: string; rows?: Array<Record<string, unknown>> }> | undefined;
-  if (!Array.isArray(rooms)) return [];
+  const layout = readCustomFormLayout(formJson);
+  if (!layout) return [];
+  const { rooms } = layout;
 
   const lines: ExtractedProductLine[] = [];
+  const sizeLimitsById = new Map<string, SizeLimitVariant[]>();
 
   for (let roomIndex = 0; roomIndex < rooms.length; roomIndex++) {
     const room = rooms[roomIndex];
@@ -433,21 +144,14 @@ export async function extractFromCustom(
       const rawRow = rows[rowIndex];
       const flatRow = flattenRowForExtract(rawRow);
 
-      const rowPricingIdRaw =
-        (rawRow.product_pricing_id as string) ||
-        (typeof flatRow.product_pricing_id === "string" ? flatRow.product_pricing_id : undefined);
-      const productPricingId =
-        rowPricingIdRaw?.trim() ||
-        (schemaTop._product_pricing_id as string) ||
-        (data.product_pricing_id as string);
-      if (!productPricingId || typeof productPricingId !== "string") {
+      const productPricingId = rowProductPricingId(layout, rawRow, flatRow);
+      if (!productPricingId) {
         throw new Error(
           "A form row has no product_pricing_id. Pick a catalog product for each row (or create the form from katalog)."
         );
       }
 
-      const rowSchema =
-        productSchemas[productPricingId] ?? (productPricingId === schemaTop._product_pricing_id ? schemaTop : undefined);
+      const rowSchema = rowSchemaFor(layout, productPricingId);
       if (!rowSchema) {
         throw new Error(
           `Missing product_schemas entry for "${productPricingId}". Save the form again from OVT so schemas are stored.`
@@ -460,50 +164,47 @@ export async function extractFromCustom(
         flatRow,
         productPricingId,
       });
-      const resolvedAt = new Date().toISOString();
-
-      const automated: AdmfPricingTraceAutomatedV1 = {
-        resolved_at: resolvedAt,
-        product_pricing_id: productPricingId,
-        source_form_id: sourceFormId,
-        room_name: typeof room?.name === "string" ? room.name : undefined,
-        room_index: roomIndex,
-        row_index: rowIndex,
-        dimensions: resolved.dimensions,
-        pricing_variant_id: resolved.pricing_variant_id,
-        ...(resolved.surcharge_only && { surcharge_only: true }),
-        selector_applied: { ...resolved.selectorValues },
-        unit_price_grid: resolved.unit_price_grid,
-        ks: resolved.ks,
-        line_base: resolved.line_base,
-        surcharge_total: resolved.surcharge_total,
-        surcharges: resolved.surcharges.length > 0 ? resolved.surcharges : undefined,
-        surcharge_warnings: resolved.surcharge_warnings.length > 0 ? resolved.surcharge_warnings : undefined,
-        cena: resolved.cena,
-        sleva: resolved.sleva,
-        cenaPoSleve: resolved.cenaPoSleve,
-      };
 
       const pricingTrace: AdmfPricingTraceV1 = {
         trace_version: 1,
-        automated,
+        automated: buildAutomatedTrace(resolved, {
+          resolved_at: new Date().toISOString(),
+          product_pricing_id: productPricingId,
+          source_form_id: sourceFormId,
+          room_name: typeof room?.name === "string" ? room.name : undefined,
+          room_index: roomIndex,
+          row_index: rowIndex,
+        }),
         manual_edits: undefined,
       };
 
       const product = await getProductPricingForResolve(pricingPool, productPricingId);
-      const priceAffectingEnums = product?.price_affecting_enums || [];
-      const priceAffectingFields: ExtractedPriceAffectingField[] = [];
-      for (const code of priceAffectingEnums) {
-        const rawValue = flatRow[code];
-        const propDef = findPropertyByCode(rowSchema, code);
-        const label = getPropertyLabel(propDef, code);
-        const value = getDisplayValueFromEnum(propDef, rawValue);
-        priceAffectingFields.push({
-          code,
-          label,
-          value,
-        });
+      const priceAffectingFields = describePriceAffectingFields(
+        product?.price_affecting_enums || [],
+        rowSchema,
+        flatRow
+      );
+
+      let sizeLimits = sizeLimitsById.get(productPricingId);
+      if (!sizeLimits) {
+        sizeLimits = await getSizeLimitVariantsByProductId(pricingPool, productPricingId);
+        sizeLimitsById.set(productPricingId, sizeLimits);
+      }
+      const limits = evaluateRowSizeLimits(sizeLimits, product?.price_affecting_enums, flatRow);
+      const violation = sizeLimitViolation(limits);
+      if (violation === "manufacturing") {
+        const roomLabel = typeof room?.name === "string" && room.name ? room.name : `#${roomIndex + 1}`;
+        throw new BadRequestError(
+          `"${resolved.produkt}" (${resolved.dimStr}) in room ${roomLabel} cannot be manufactured. ` +
+            `${describeSizeLimitViolation(limits)} Fix the size in the OVT form before creating ADMF.`,
+          "SIZE_OUT_OF_MANUFACTURING_RANGE"
+        );
       }
+      const bezZaruky = violation === "warranty";
+      const sizeLimitWarnings =
+        bezZaruky && rawRow.bezZarukyAck !== true
+          ? ["Rozměr je mimo záruční rozsah a v OVT formuláři nebyl potvrzen prodej bez záruky."]
+          : undefined;
 
       lines.push({
         produkt: resolved.produkt,
@@ -515,6 +216,8 @@ export async function extractFromCustom(
         surcharges: resolved.surcharges.length > 0 ? resolved.surcharges : undefined,
         surchargeWarnings: resolved.surcharge_warnings.length > 0 ? resolved.surcharge_warnings : undefined,
         priceAffectingFields: priceAffectingFields.length > 0 ? priceAffectingFields : undefined,
+        ...(bezZaruky && { bezZaruky: true }),
+        sizeLimitWarnings,
         pricingTrace,
       });
     }
@@ -542,107 +245,17 @@ export async function extractProductsFromForm(
 // Form-level preview (fault-tolerant — partial pricing instead of throwing)
 // ---------------------------------------------------------------------------
 
-export interface FormPreviewLine {
-  rowKey: string;          // "<roomIndex>:<rowIndex>"
-  roomName?: string;
-  produkt: string;
-  ks: number;
-  cena: number;            // line total bez DPH (after surcharges, before sleva)
-  sleva: number;           // %
-  cenaPoSleve: number;     // line total bez DPH after sleva
-  surcharges?: Array<{ code: string; label?: string; amount: number }>;
-}
-
-export interface FormPreviewUnpriced {
-  rowKey: string;
-  roomName?: string;
-  reason: string;
-}
-
-export interface FormPreviewResult {
-  lines: FormPreviewLine[];
-  unpriced: FormPreviewUnpriced[];
-}
-
 /**
- * Iterate the form's rooms × rows and price each row independently. A row that
- * fails to resolve (missing dimensions, missing required price-affecting field,
- * unknown product, …) lands in `unpriced` instead of throwing — so the office
- * UI can show "we priced N rows, M still need attention" rather than a single
- * blocked screen.
+ * Price every row of the form independently (see engine `previewCustomFormPricing`):
+ * loads each referenced product once, rows that cannot be priced land in `unpriced`.
  */
 export async function previewCustomFormPricing(
   formJson: Record<string, unknown>,
   pricingPool: Pool
 ): Promise<FormPreviewResult> {
-  const schemaTop = formJson?.schema as Record<string, unknown> | undefined;
-  const data = formJson?.data as Record<string, unknown> | undefined;
-  if (!schemaTop || !data) return { lines: [], unpriced: [] };
-
-  const productSchemasRaw = formJson.product_schemas as Record<string, Record<string, unknown>> | undefined;
-  const productSchemas: Record<string, Record<string, unknown>> =
-    productSchemasRaw && typeof productSchemasRaw === "object" ? productSchemasRaw : {};
-
-  const rooms = data?.rooms as Array<{ name?: string; rows?: Array<Record<string, unknown>> }> | undefined;
-  if (!Array.isArray(rooms)) return { lines: [], unpriced: [] };
-
-  const lines: FormPreviewLine[] = [];
-  const unpriced: FormPreviewUnpriced[] = [];
-
-  for (let roomIndex = 0; roomIndex < rooms.length; roomIndex++) {
-    const room = rooms[roomIndex];
-    const roomName = typeof room?.name === "string" && room.name.trim() ? room.name.trim() : undefined;
-    const rows = room?.rows;
-    if (!Array.isArray(rows)) continue;
-
-    for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
-      const rowKey = `${roomIndex}:${rowIndex}`;
-      const rawRow = rows[rowIndex];
-
-      try {
-        const flatRow = flattenRowForExtract(rawRow);
-        const rowPricingIdRaw =
-          (rawRow.product_pricing_id as string) ||
-          (typeof flatRow.product_pricing_id === "string" ? flatRow.product_pricing_id : undefined);
-        const productPricingId =
-          rowPricingIdRaw?.trim() ||
-          (schemaTop._product_pricing_id as string) ||
-          (data.product_pricing_id as string);
-        if (!productPricingId || typeof productPricingId !== "string") {
-          unpriced.push({ rowKey, roomName, reason: "Řádek nemá produkt z katalogu (chybí product_pricing_id)" });
-          continue;
-        }
-        const rowSchema =
-          productSchemas[productPricingId] ??
-          (productPricingId === schemaTop._product_pricing_id ? schemaTop : undefined);
-        if (!rowSchema) {
-          unpriced.push({ rowKey, roomName, reason: `Chybí product_schemas pro "${productPricingId}"` });
-          continue;
-        }
-
-        const resolved = await resolveCustomRowPricingCore({
-          pricingPool,
-          rowSchema,
-          flatRow,
-          productPricingId,
-        });
-
-        lines.push({
-          rowKey,
-          roomName,
-          produkt: resolved.produkt,
-          ks: resolved.ks,
-          cena: resolved.cena,
-          sleva: resolved.sleva,
-          cenaPoSleve: resolved.cenaPoSleve,
-          surcharges: resolved.surcharges.length > 0 ? resolved.surcharges : undefined,
-        });
-      } catch (e) {
-        const reason = e instanceof Error ? e.message : "Nepodařilo se vypočítat cenu";
-        unpriced.push({ rowKey, roomName, reason });
-      }
-    }
+  const inputsById = new Map<string, RowPricingInputs | null>();
+  for (const productPricingId of collectFormProductPricingIds(formJson)) {
+    inputsById.set(productPricingId, await loadRowPricingInputs(pricingPool, productPricingId));
   }
-
-  return { lines, unpriced };
+  return previewCustomFormPricingFromInputs(formJson, (id) => inputsById.get(id) ?? null);
 }
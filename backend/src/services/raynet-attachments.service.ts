@@ -3,6 +3,7 @@ import * as formsQueries from "../queries/forms.queries";
 import * as formAttachmentsService from "./form-attachments.service";
 import * as admfPdfService from "./admf-pdf.service";
 import * as customFormImageService from "./custom-form-image.service";
+import type { Actor } from "../types/access.types";
 
 export type RaynetAttachmentSource =
   | { kind: "s3_form_attachment"; formId: number; s3Key: string; downloadPath: string }
@@ -38,19 +39,21 @@ async function streamToBuffer(stream: NodeJS.ReadableStream): Promise<Buffer> {
 export async function collectRaynetAttachmentCandidates(params: {
   pool: Pool;
   admfFormId: number;
-  userId: string;
+  actor: Actor;
+  /** Owner of the form (from the caller's access check) — runs the form queries. */
+  ownerId: string;
 }): Promise<RaynetAttachmentCandidate[]> {
-  const { pool, admfFormId, userId } = params;
+  const { pool, admfFormId, actor, ownerId } = params;
 
-  const admfForm = await formsQueries.getFormById(pool, admfFormId, userId);
+  const admfForm = await formsQueries.getFormById(pool, admfFormId, ownerId);
   if (!admfForm) return [];
 
   const candidates: RaynetAttachmentCandidate[] = [];
 
   // 1) Uploaded S3/MinIO attachments for ADMF
-  const list = await formAttachmentsService.listFormAttachments(pool, admfFormId, userId);
+  const list = await formAttachmentsService.listFormAttachments(pool, admfFormId, actor);
   for (const item of list) {
-    const file = await formAttachmentsService.getFormAttachmentStream(pool, admfFormId, userId, item.key);
+    const file = await formAttachmentsService.getFormAttachmentStream(pool, admfFormId, actor, item.key);
     const buffer = await streamToBuffer(file.stream);
     candidates.push({
       source: {
@@ -82,7 +85,7 @@ export async function collectRaynetAttachmentCandidates(params: {
     : [];
 
   for (const sourceFormId of sourceFormIds) {
-    const src = await formsQueries.getFormById(pool, sourceFormId, userId);
+    const src = await formsQueries.getFormById(pool, sourceFormId, ownerId);
     if (!src) continue;
     if (src.form_type !== "custom") continue;
     const image = await customFormImageService.generateCustomFormImageBuffer(src.form_json);
@@ -1,24 +1,26 @@
 /**
- * Raynet export pipeline — maps ADMF form_json to Raynet event payload
- * and orchestrates the 3-write logging flow (PENDING → SENDING → SUCCESS/FAILED).
+ * Raynet export target — maps ADMF form_json to the Raynet event payload, updates the
+ * event and uploads attachments (best-effort). The export preview diffs the payload
+ * against the current event (GET /api/v2/event/{id}/). The 3-write logging flow
+ * (PENDING → SENDING → SUCCESS/PARTIAL_SUCCESS/FAILED) is run by export-target.service.
  */
 
 import { Pool } from "pg";
-import * as exportLogsQueries from "../queries/raynet-export-logs.queries";
-import * as formsQueries from "../queries/forms.queries";
-import * as ordersQueries from "../queries/orders.queries";
 import { raynetFileUpload, raynetJsonRequest, type RaynetHttpLogEntry } from "./raynet-api.client";
 import { collectRaynetAttachmentCandidates } from "./raynet-attachments.service";
+import { createExportLogStore, runExportTarget } from "./export-target.service";
+import { applyFieldMapping, getActiveFieldMapping } from "./field-mapping.service";
+import { ExportWarning, ExportErrorCode, RaynetEventUpdatePayload } from "../types/raynet-export.types";
 import {
-  ExportWarning,
-  ExportErrorCode,
-  RaynetEventUpdatePayload,
-} from "../types/raynet-export.types";
-import { BadRequestError, InternalServerError } from "../utils/errors";
-import { computeAdmfCelkemSDph } from "../utils/admf-order-totals";
-
-/** Raynet event category for ADMF exports */
-const RAYNET_CATEGORY_ID = 220;
+  ExportTarget,
+  ExportTargetBuild,
+  ExportTargetDiff,
+  ExportTargetResult,
+} from "../types/export-target.types";
+import type { FieldMappingEntry, FieldMappingVersion } from "../types/field-mapping.types";
+import type { Actor } from "../types/access.types";
+import { asRecord, diffPayloadFields } from "../utils/export-field-diff";
+import { BadRequestError } from "../utils/errors";
 
 // ── Mapping ──────────────────────────────────────────────────────
 
@@ -28,142 +30,22 @@ interface MappingResult {
 }
 
 /**
- * Map ADMF form_json → Raynet event update payload.
- * Collects warnings for non-fatal issues instead of throwing.
+ * Map ADMF form_json → Raynet event update payload, driven by the active RAYNET field
+ * mapping (category, status, customFields.*). Collects warnings for non-fatal issues
+ * instead of throwing.
  */
 export function buildRaynetPayload(
   formJson: Record<string, any>,
-  raynetName: string | undefined
+  raynetName: string | undefined,
+  mapping: FieldMappingEntry[]
 ): MappingResult {
-  const warnings: ExportWarning[] = [];
-  const cf: Record<string, unknown> = {};
-
-  // ── Direct string mappings (optional — send only if filled) ──
-  mapOptionalString(cf, "Email_1181e", formJson.email, "email", warnings);
-  mapOptionalString(cf, "Dalsi_kont_dcaae", formJson.telefon, "telefon", warnings);
-  mapOptionalString(cf, "Zvonek_60b5d", formJson.zvonek, "zvonek", warnings);
-  mapOptionalString(cf, "Patro_4784d", formJson.patro, "patro", warnings);
-  mapOptionalString(cf, "Info_k_par_4946a", formJson.infoKParkovani, "infoKParkovani", warnings);
-  mapOptionalString(cf, "Duvod_neuh_fec41", formJson.infoKZaloze, "infoKZaloze", warnings);
-  mapOptionalString(cf, "Info_k_fak_4dcbc", formJson.infoKFakture, "infoKFakture", warnings);
-
-  // ── Enum: vatRate → DPH (number → string) ──
-  const vatRate = formJson.vatRate ?? 12;
-  const vatStr = String(vatRate);
-  if (["0", "12", "21"].includes(vatStr)) {
-    cf.DPH_a6f2e = vatStr;
-  } else {
-    warnings.push({ code: "ENUM_MISMATCH", field: "vatRate", reason: `Value "${vatStr}" not in allowed values (0, 12, 21)` });
-  }
-
-  // ── Enum: typZarizeni (1:1) ──
-  const typZarizeniAllowed = ["RD", "Byt", "Nebytový protor", "chata", "vila", "Obytná maringotka"];
-  if (formJson.typZarizeni) {
-    if (typZarizeniAllowed.includes(formJson.typZarizeni)) {
-      cf.RDbyt_45fb8 = formJson.typZarizeni;
-    } else {
-      warnings.push({ code: "ENUM_MISMATCH", field: "typZarizeni", reason: `Value "${formJson.typZarizeni}" not in Raynet enum` });
-    }
-  }
-
-  // ── Enum: zalohaZaplacena (1:1) ──
-  const zalohaAllowed = ["Hotově", "Terminálem", "QR", "Fakturou", "převodem"];
-  if (formJson.zalohaZaplacena) {
-    if (zalohaAllowed.includes(formJson.zalohaZaplacena)) {
-      cf.Zpusob_uhr_1bc0a = formJson.zalohaZaplacena;
-    } else {
-      warnings.push({ code: "ENUM_MISMATCH", field: "zalohaZaplacena", reason: `Value "${formJson.zalohaZaplacena}" not in Raynet enum` });
-    }
-  }
-
-  // ── Monetary: zalohovaFaktura (deposit with VAT) ──
-  if (formJson.zalohovaFaktura != null && formJson.zalohovaFaktura > 0) {
-    cf.Zaloha_f384a = formJson.zalohovaFaktura;
-  }
-
-  // ── Monetary: doplatek ──
-  const totalSDph = computeAdmfCelkemSDph(formJson);
-  const doplatek = formJson.doplatek ?? Math.max(0, totalSDph - (formJson.zalohovaFaktura ?? 0));
-  cf.Doplatek_98b22 = doplatek;
-
-  // ── Computed: totalSDph ──
-  cf.Celkova_ho_0b99a = totalSDph;
-
-  // ── BIG_DECIMAL: variabilniSymbol ──
-  if (formJson.variabilniSymbol != null && formJson.variabilniSymbol > 0) {
-    cf.Variabilni_675b2 = formJson.variabilniSymbol;
-  }
-
-  // ── Enum: zaměřovač (from auth) ──
-  if (raynetName) {
-    cf.Zamerovac_2b7ef = raynetName;
-  } else {
-    warnings.push({ code: "FIELD_EMPTY", field: "Zamerovac_2b7ef", reason: "raynet_name not available in user auth profile" });
-  }
-
-  // ── Boolean: MNG sleva ──
-  cf.MNG_SLEVA_aac47 = formJson.mngSleva === true;
-
-  // ── Monetary: MNG/OVT sleva ──
-  // Form storage is s-DPH (customer-visible). Raynet's custom fields expect
-  // bez-DPH numbers — derive via Math.round(sDph × 100 / (100 + vat)).
-  const vatPercent = Number(vatRate);
-  const slevaSDphToBez = (sDph: number) =>
-    Math.round((sDph * 100) / (100 + (Number.isFinite(vatPercent) ? vatPercent : 12)));
-
-  if (formJson.mngSleva && (Number(formJson.mngSlevaSDph) || 0) > 0) {
-    cf.MNG_sleva__0836b = slevaSDphToBez(Number(formJson.mngSlevaSDph));
-  }
-
-  if ((Number(formJson.ovtSlevaSDph) || 0) > 0) {
-    cf.OVT_sleva__909bc = slevaSDphToBez(Number(formJson.ovtSlevaSDph));
-  }
-
-  // ── Merge: poznámky → Dalsi_dopl_1e01a ──
-  const vyrobaText = (formJson.poznamkyVyroba ?? "").trim();
-  const montazText = (formJson.poznamkyMontaz ?? "").trim();
-  const mergedNotes = [
-    vyrobaText ? `Výroba: ${vyrobaText}` : "",
-    montazText ? `Montáž: ${montazText}` : "",
-  ].filter(Boolean).join("\n");
-  if (mergedNotes) {
-    cf.Dalsi_dopl_1e01a = mergedNotes;
-  }
-
-  // ── Composed: adresaKdyzNesedi ──
-  if (formJson.jinaAdresaDodani) {
-    const parts = [
-      formJson.dodaciUlice,
-      formJson.dodaciMesto,
-      formJson.dodaciPsc,
-    ].filter(Boolean);
-    if (parts.length > 0) {
-      cf.Adresa_kdy_8f1ac = parts.join(", ");
-    }
-  }
-
+  const { payload, warnings } = applyFieldMapping("RAYNET", mapping, { formJson, raynetName });
   return {
-    payload: {
-      category: RAYNET_CATEGORY_ID,
-      status: "COMPLETED",
-      customFields: cf,
-    },
+    payload: { customFields: {}, ...payload } as unknown as RaynetEventUpdatePayload,
     warnings,
   };
 }
 
-function mapOptionalString(
-  cf: Record<string, unknown>,
-  raynetKey: string,
-  value: unknown,
-  fieldName: string,
-  warnings: ExportWarning[]
-): void {
-  if (value != null && typeof value === "string" && value.trim() !== "") {
-    cf[raynetKey] = value.trim();
-  }
-}
-
 function classifyHttpError(status: number): ExportErrorCode {
   if (status === 401 || status === 403) return "RAYNET_AUTH_FAILED";
   if (status >= 400 && status < 500) return "RAYNET_VALIDATION_ERROR";
@@ -171,99 +53,102 @@ function classifyHttpError(status: number): ExportErrorCode {
   return "UNKNOWN_ERROR";
 }
 
-// ── Main pipeline ────────────────────────────────────────────────
-
-export interface ExportResult {
-  logId: number;
-  exportedAt: Date;
-  testMode: boolean;
-  warnings: ExportWarning[];
+/** Current event vs. the update payload. A failed read yields UNKNOWN changes, never throws. */
+async function diffRaynetEvent(raynetEventId: number, payload: RaynetEventUpdatePayload): Promise<ExportTargetDiff> {
+  let current: Record<string, unknown> | null = null;
+  let currentError: string | undefined;
+  try {
+    const res = await raynetJsonRequest({
+      step: "raynet_event_preview",
+      method: "GET",
+      path: `/api/v2/event/${raynetEventId}/`,
+    });
+    if (res.status >= 200 && res.status < 300) {
+      current = asRecord(asRecord(res.body)?.data ?? res.body) ?? {};
+    } else {
+      currentError = `Raynet returned HTTP ${res.status}`;
+    }
+  } catch (error: any) {
+    currentError = error?.message ?? "Raynet GET failed";
+  }
+  return { currentLoaded: current != null, currentError, changes: diffPayloadFields(payload, current) };
 }
 
-/**
- * Full export pipeline with 3-write logging.
- * @param pool - DB pool
- * @param formId - ADMF form ID
- * @param userId - Authenticated user (email)
- * @param raynetName - User's Raynet display name (from auth/JWT)
- * @param testMode - When true, skip actual Raynet HTTP call
- */
-export async function exportFormToRaynet(
-  pool: Pool,
-  formId: number,
-  userId: string,
-  raynetName: string | undefined,
-  testMode: boolean,
-  exportBatchId?: string
-): Promise<ExportResult> {
-  // ── Step 0: Load form + order, resolve event ID ──
-  const form = await formsQueries.getFormById(pool, formId, userId);
-  if (!form) throw new BadRequestError("Form not found", "FORM_NOT_FOUND");
-  if (form.form_type !== "admf") throw new BadRequestError("Only ADMF forms can be exported to Raynet");
-
-  const orderId = form.order_id;
-  if (!orderId) throw new BadRequestError("Form is not linked to an order");
-
-  const order = await ordersQueries.getOrderById(pool, orderId, userId);
-  if (!order) throw new BadRequestError("Order not found", "ORDER_NOT_FOUND");
-
-  const raynetEventId = order.source_raynet_event_id;
-  if (!raynetEventId) {
-    throw new BadRequestError(
-      "Order has no linked Raynet event (source_raynet_event_id is empty)",
-      "MISSING_EVENT_ID"
-    );
-  }
+// ── Target ───────────────────────────────────────────────────────
 
-  // ── Write 1: CREATE log (PENDING) ──
-  const startTime = Date.now();
-  const logId = await exportLogsQueries.createExportLog(pool, {
-    form_id: formId,
-    order_id: orderId,
-    raynet_event_id: raynetEventId,
-    user_id: userId,
-    test_mode: testMode,
-    export_batch_id: exportBatchId,
-  });
+/** Errors the export queue retries (with backoff) instead of failing the job. */
+const TRANSIENT_ERROR_CODES = new Set<ExportErrorCode>(["RAYNET_SERVER_ERROR", "RAYNET_TIMEOUT", "UNKNOWN_ERROR"]);
 
-  try {
-    // ── Build payload ──
-    const { payload, warnings } = buildRaynetPayload(form.form_json, raynetName);
+interface RaynetPrepared {
+  raynetEventId: number;
+  mapping: FieldMappingVersion;
+}
+
+interface RaynetBuild extends ExportTargetBuild {
+  payload: RaynetEventUpdatePayload;
+  warnings: ExportWarning[];
+  /** HTTP calls made so far; stored in request_payload and mutated while sending. */
+  timeline: RaynetHttpLogEntry[];
+  attachmentAttempts: Array<Record<string, unknown>>;
+  enabledAttachments: boolean;
+}
+
+export const raynetExportTarget: ExportTarget<RaynetPrepared, RaynetBuild> = {
+  id: "RAYNET",
+  key: "raynet",
+  label: "Raynet",
+  logs: createExportLogStore("RAYNET"),
+
+  async validate({ pool, order }) {
+    const raynetEventId = order.source_raynet_event_id;
+    if (!raynetEventId) {
+      throw new BadRequestError(
+        "Order has no linked Raynet event (source_raynet_event_id is empty)",
+        "MISSING_EVENT_ID" satisfies ExportErrorCode
+      );
+    }
+    const mapping = await getActiveFieldMapping(pool, "RAYNET");
+    return { externalId: raynetEventId, prepared: { raynetEventId, mapping } };
+  },
 
+  buildPayload({ form, raynetName }, { mapping }) {
+    const { payload, warnings } = buildRaynetPayload(form.form_json, raynetName, mapping.entries);
     const timeline: RaynetHttpLogEntry[] = [];
     const attachmentAttempts: Array<Record<string, unknown>> = [];
     const enabledAttachments = true;
-
-    // ── Write 2: UPDATE log (SENDING) — store payload + warnings (+ placeholders) ──
-    await exportLogsQueries.updateExportLog(pool, logId, {
-      status: "SENDING",
-      request_payload: {
+    return {
+      payload,
+      warnings,
+      timeline,
+      attachmentAttempts,
+      enabledAttachments,
+      requestPayload: {
         event_update: payload,
+        field_mapping_version: mapping.version,
         attachments_enabled: enabledAttachments,
         timeline,
         attachments: attachmentAttempts,
-      } as unknown as Record<string, unknown>,
-      warnings,
-    });
+      },
+    };
+  },
 
-    if (testMode) {
-      // ── Test mode: skip Raynet call, log success ──
-      const now = new Date();
-      await exportLogsQueries.updateExportLog(pool, logId, {
-        status: "SUCCESS",
-        response_status: 0,
-        response_body: {
-          testMode: true,
-          message: "Skipped — test mode",
-          attachments: { enabled: enabledAttachments, skipped: true },
-        },
-        duration_ms: Date.now() - startTime,
-        completed_at: now,
-      });
-      return { logId, exportedAt: now, testMode: true, warnings };
-    }
+  previewChanges(_ctx, { raynetEventId }, { payload }) {
+    return diffRaynetEvent(raynetEventId, payload);
+  },
+
+  testModeResponse(build) {
+    return {
+      testMode: true,
+      message: "Skipped — test mode",
+      attachments: { enabled: build.enabledAttachments, skipped: true },
+    };
+  },
 
-    // ── Step 3: Event update (hard gate) ──
+  async send({ pool, form, actor, ownerId }, { prepared, build, persistProgress }) {
+    const { raynetEventId } = prepared;
+    const { payload, warnings, timeline, attachmentAttempts, enabledAttachments } = build;
+
+    // ── Event update (hard gate) ──
     const eventRes = await raynetJsonRequest({
       step: "raynet_event_update",
       method: "POST",
@@ -276,26 +161,20 @@ export async function exportFormToRaynet(
     timeline.push(eventRes.log);
 
     if (eventRes.status < 200 || eventRes.status >= 300) {
-      const errorCode = classifyHttpError(eventRes.status);
-      const errorMsg = `Raynet returned HTTP ${eventRes.status}`;
-      await exportLogsQueries.updateExportLog(pool, logId, {
+      return {
         status: "FAILED",
-        response_status: eventRes.status,
-        response_body: {
+        responseStatus: eventRes.status,
+        responseBody: {
           eventUpdate: eventRes.body,
           timeline,
-        } as unknown as Record<string, unknown>,
-        error_message: errorMsg,
-        error_code: errorCode,
-        duration_ms: Date.now() - startTime,
-        completed_at: new Date(),
-        warnings,
-      });
-      throw new InternalServerError(errorMsg);
+        },
+        errorCode: classifyHttpError(eventRes.status),
+        errorMessage: `Raynet returned HTTP ${eventRes.status}`,
+      };
     }
 
-    // ── Step 4: Attachments (best-effort) ──
-    let attachmentsSummary: { enabled: boolean; total: number; uploaded: number; failed: number } = {
+    // ── Attachments (best-effort) ──
+    const attachmentsSummary: { enabled: boolean; total: number; uploaded: number; failed: number } = {
       enabled: enabledAttachments,
       total: 0,
       uploaded: 0,
@@ -303,7 +182,7 @@ export async function exportFormToRaynet(
     };
 
     if (enabledAttachments) {
-      const candidates = await collectRaynetAttachmentCandidates({ pool, admfFormId: formId, userId });
+      const candidates = await collectRaynetAttachmentCandidates({ pool, admfFormId: form.id, actor, ownerId });
       attachmentsSummary.total = candidates.length;
 
       for (const candidate of candidates) {
@@ -369,52 +248,60 @@ export async function exportFormToRaynet(
           });
         } finally {
           // Persist progress periodically (keeps polling UI responsive)
-          await exportLogsQueries.updateExportLog(pool, logId, {
-            request_payload: {
-              event_update: payload,
-              attachments_enabled: enabledAttachments,
-              timeline,
-              attachments: attachmentAttempts,
-              attachments_summary: attachmentsSummary,
-            } as unknown as Record<string, unknown>,
-            warnings,
+          await persistProgress({
+            event_update: payload,
+            attachments_enabled: enabledAttachments,
+            timeline,
+            attachments: attachmentAttempts,
+            attachments_summary: attachmentsSummary,
           });
         }
       }
     }
 
-    // ── Write 3: Final status ──
-    const now = new Date();
-    const finalStatus = enabledAttachments && attachmentsSummary.failed > 0 ? "PARTIAL_SUCCESS" : "SUCCESS";
-    await exportLogsQueries.updateExportLog(pool, logId, {
-      status: finalStatus,
-      response_status: eventRes.status,
-      response_body: {
+    return {
+      status: enabledAttachments && attachmentsSummary.failed > 0 ? "PARTIAL_SUCCESS" : "SUCCESS",
+      responseStatus: eventRes.status,
+      responseBody: {
         eventUpdate: eventRes.body,
         attachments: attachmentsSummary,
         timeline,
-      } as unknown as Record<string, unknown>,
-      warnings,
-      duration_ms: Date.now() - startTime,
-      completed_at: now,
-    });
-    return { logId, exportedAt: now, testMode: false, warnings };
-  } catch (error: any) {
-    // Catch-all: if anything above threw without updating the log, update it now
-    if (error.statusCode) {
-      // Already an ApiError (might already be logged) — re-throw
-      throw error;
-    }
-    // Unexpected error — log it
+      },
+    };
+  },
+
+  classifyError(error) {
     const isTimeout = error.name === "TimeoutError" || error.name === "AbortError";
-    const errorCode: ExportErrorCode = isTimeout ? "RAYNET_TIMEOUT" : "UNKNOWN_ERROR";
-    await exportLogsQueries.updateExportLog(pool, logId, {
-      status: "FAILED",
-      error_message: error.message ?? "Unknown error",
-      error_code: errorCode,
-      duration_ms: Date.now() - startTime,
-      completed_at: new Date(),
-    });
-    throw new InternalServerError(`Export failed: ${error.message}`);
-  }
+    return {
+      code: (isTimeout ? "RAYNET_TIMEOUT" : "UNKNOWN_ERROR") satisfies ExportErrorCode,
+      message: `Export failed: ${error.message}`,
+    };
+  },
+
+  isTransientError(errorCode) {
+    return TRANSIENT_ERROR_CODES.has(errorCode as ExportErrorCode);
+  },
+};
+
+// ── Main pipeline ────────────────────────────────────────────────
+
+export type ExportResult = ExportTargetResult;
+
+/**
+ * Full export pipeline with 3-write logging.
+ * @param pool - DB pool
+ * @param formId - ADMF form ID
+ * @param actor - Authenticated user (needs write access to the form's order)
+ * @param raynetName - User's Raynet display name (from auth/JWT)
+ * @param testMode - When true, skip actual Raynet HTTP call
+ */
+export function exportFormToRaynet(
+  pool: Pool,
+  formId: number,
+  actor: Actor,
+  raynetName: string | undefined,
+  testMode: boolean,
+  exportBatchId?: string
+): Promise<ExportResult> {
+  return runExportTarget(raynetExportTarget, { pool, formId, actor, raynetName, testMode, exportBatchId });
 }
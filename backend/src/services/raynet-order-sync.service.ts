@@ -0,0 +1,513 @@
+/**
+ * Raynet → orders sync — keeps orders linked to a Raynet event (source_raynet_event_id)
+ * up to date when the office reschedules the zaměření or fixes the customer in Raynet.
+ *
+ * Triggers (both converge on `syncRaynetEvents`, which always re-reads the events from
+ * Raynet — the webhook body is only a hint which events changed):
+ *   - POST /api/raynet/webhook   signed with RAYNET_WEBHOOK_SECRET (see verifyRaynetWebhook)
+ *   - periodic pull              raynet.client.getEvents by linked event ids
+ *   - POST /api/orders/:id/raynet-sync   one order, on demand
+ *
+ * Merge per order:
+ *   - Raynet-owned fields (scheduled from/till, event status) are always copied.
+ *   - Customer fields (name, address, city, zipcode, phone, raynet_id) are merged
+ *     three-way against orders.raynet_snapshot (last value read from Raynet): Raynet
+ *     unchanged → keep local; local untouched → take Raynet; both changed → conflict.
+ *     Conflicts keep the local value and wait in orders.raynet_sync_conflicts for the rep.
+ *   - The first sync of an order only fills empty fields and stores the baseline.
+ * Changes and conflicts are recorded in order_activity_log.
+ *
+ * Env:
+ *   RAYNET_WEBHOOK_SECRET            HMAC-SHA256 key / shared token; without it the webhook answers 503
+ *   RAYNET_ORDER_SYNC_ENABLED        "false" disables the pull timer in this process (default enabled)
+ *   RAYNET_ORDER_SYNC_INTERVAL_MS    delay between pulls (default 900000 = 15 min)
+ *   RAYNET_ORDER_SYNC_ACTIVE_DAYS    only pull orders created / synced within this many days (default 180)
+ */
+
+import { Pool } from "pg";
+import { createHmac, timingSafeEqual } from "crypto";
+import * as raynetClient from "./raynet.client";
+import { requireOrderAccess } from "./order-access.service";
+import * as ordersQueries from "../queries/orders.queries";
+import * as raynetOrderSyncQueries from "../queries/raynet-order-sync.queries";
+import * as orderActivityQueries from "../queries/order-activity.queries";
+import type { RaynetEvent } from "../types/raynet.types";
+import type { Actor } from "../types/access.types";
+import type {
+  OrderActivityChange,
+  OrderActivityRecord,
+  RaynetOrderSnapshot,
+  RaynetOrderSyncItem,
+  RaynetOrderSyncSource,
+  RaynetOrderSyncSummary,
+  RaynetSyncConflict,
+  RaynetSyncedOrderField,
+  RaynetSyncOrderRow,
+} from "../types/raynet-order-sync.types";
+import {
+  BadRequestError,
+  NotFoundError,
+  ServiceUnavailableError,
+  UnauthorizedError,
+} from "../utils/errors";
+
+/** Event ids per getEvents call (kept well under URL length limits). */
+const PULL_CHUNK_SIZE = 100;
+/** Overlap of consecutive pulls, so clock skew never drops an update. */
+const PULL_OVERLAP_MS = 5 * 60_000;
+
+const SYNCED_FIELDS: RaynetSyncedOrderField[] = ["name", "address", "city", "zipcode", "phone", "raynet_id"];
+
+function envInt(key: string, fallback: number): number {
+  const raw = process.env[key];
+  const parsed = raw != null ? parseInt(raw, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// ── Webhook verification ─────────────────────────────────────────
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Accepts either an HMAC-SHA256 of the raw body (`X-Raynet-Signature: sha256=<hex>`)
+ * or, for webhook setups that can only call a fixed URL, the secret itself as
+ * `?token=` / `X-Webhook-Token`.
+ * @throws ServiceUnavailableError when RAYNET_WEBHOOK_SECRET is not set
+ * @throws UnauthorizedError when neither matches
+ */
+export function verifyRaynetWebhook(params: {
+  rawBody: Buffer | undefined;
+  signature: string | undefined;
+  token: string | undefined;
+}): void {
+  const secret = process.env.RAYNET_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new ServiceUnavailableError("Raynet webhook is not configured (RAYNET_WEBHOOK_SECRET)", "WEBHOOK_NOT_CONFIGURED");
+  }
+  if (params.signature) {
+    const expected = createHmac("sha256", secret).update(params.rawBody ?? Buffer.alloc(0)).digest("hex");
+    const given = params.signature.trim().replace(/^sha256=/i, "").toLowerCase();
+    if (safeEqual(given, expected)) return;
+  } else if (params.token && safeEqual(params.token, secret)) {
+    return;
+  }
+  throw new UnauthorizedError("Invalid Raynet webhook signature");
+}
+
+/**
+ * Event ids a webhook body refers to. Raynet sends one entity per call; the shape differs
+ * between webhook versions, so accept `{ entityName, entityId }`, `{ entity: { id } }`,
+ * `{ data: { id } }`, `{ id }` and arrays of those. Non-Event entities are ignored.
+ */
+export function extractWebhookEventIds(body: unknown): number[] {
+  const ids = new Set<number>();
+  const visit = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+    if (!value || typeof value !== "object") return;
+    const record = value as Record<string, unknown>;
+    const entityName = record.entityName ?? record.entity_name ?? record._entityName ?? record.entityType;
+    if (typeof entityName === "string" && entityName.toLowerCase() !== "event") return;
+    const id = Number(record.entityId ?? record.entity_id ?? record.id);
+    if (Number.isInteger(id) && id > 0) ids.add(id);
+    for (const nested of [record.entity, record.data, record.events, record.items]) visit(nested);
+  };
+  visit(body);
+  return [...ids];
+}
+
+// ── Merge ────────────────────────────────────────────────────────
+
+type FieldValue = string | number | null;
+
+function normalize(value: unknown): string {
+  return value == null ? "" : String(value).trim();
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return normalize(a) === normalize(b);
+}
+
+/** First phone number in the event description — same rule as the calendar prefill. */
+function parseFirstPhone(description: string | null): string | null {
+  if (!description) return null;
+  const match = description.replace(/<[^>]*>/g, " ").match(/(\+?\d[\d\s]{5,})/);
+  return match ? match[1].trim() : null;
+}
+
+function nonEmpty(value: string | null | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
+
+/** Customer fields as the order would get them from this event (mirrors CreateOrderFromEventModal). */
+function orderFieldsFromEvent(event: RaynetEvent): Record<RaynetSyncedOrderField, FieldValue> {
+  const addr = event.companyAddress;
+  const joinedAddress = addr ? [addr.street, addr.city, addr.zipCode].filter(Boolean).join(", ") : "";
+  return {
+    name: nonEmpty(event.company?.name),
+    address: nonEmpty(event.meetingPlace) ?? nonEmpty(joinedAddress),
+    city: nonEmpty(addr?.city),
+    zipcode: nonEmpty(addr?.zipCode),
+    phone: parseFirstPhone(event.description),
+    raynet_id: event.company?.id ?? null,
+  };
+}
+
+/** `YYYY-MM-DD HH:mm` in Raynet's time zone. */
+function formatRaynetDateTime(date: Date | null): string | null {
+  if (!date) return null;
+  const parts = new Intl.DateTimeFormat("sv-SE", {
+    timeZone: "Europe/Prague",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).format(date);
+  return parts.replace("T", " ");
+}
+
+function raynetDateTime(value: string | null | undefined): string | null {
+  return value ? value.trim().slice(0, 16) : null;
+}
+
+interface OrderMerge {
+  fields: Partial<Record<RaynetSyncedOrderField, FieldValue>>;
+  snapshot: RaynetOrderSnapshot;
+  conflicts: RaynetSyncConflict[];
+  changes: OrderActivityChange[];
+  newConflicts: RaynetSyncConflict[];
+  baselined: boolean;
+}
+
+function mergeOrder(order: RaynetSyncOrderRow, event: RaynetEvent): OrderMerge {
+  const raynet = orderFieldsFromEvent(event);
+  const base = order.raynet_snapshot;
+  const now = new Date().toISOString();
+  const merge: OrderMerge = {
+    fields: {},
+    snapshot: raynet,
+    conflicts: [...order.raynet_sync_conflicts],
+    changes: [],
+    newConflicts: [],
+    baselined: base == null,
+  };
+  const dropConflict = (field: RaynetSyncedOrderField) => {
+    merge.conflicts = merge.conflicts.filter((c) => c.field !== field);
+  };
+  const apply = (field: RaynetSyncedOrderField, local: FieldValue, next: FieldValue) => {
+    merge.fields[field] = next;
+    merge.changes.push({ field, from: local, to: next });
+    dropConflict(field);
+  };
+
+  for (const field of SYNCED_FIELDS) {
+    const local = order[field];
+    const next = raynet[field];
+
+    if (base == null) {
+      // First sync: no record of what Raynet had — only fill gaps.
+      if (normalize(local) === "" && normalize(next) !== "") apply(field, local, next);
+      continue;
+    }
+
+    const previous = base[field] ?? null;
+    if (sameValue(next, previous)) continue; // Raynet didn't change this field
+    if (sameValue(local, next)) {
+      dropConflict(field);
+      continue;
+    }
+    if (sameValue(local, previous) || normalize(local) === "") {
+      apply(field, local, next);
+      continue;
+    }
+    const conflict: RaynetSyncConflict = { field, local, raynet: next, previous_raynet: previous, detected_at: now };
+    dropConflict(field);
+    merge.conflicts.push(conflict);
+    merge.newConflicts.push(conflict);
+  }
+
+  // Raynet-owned fields — copied as they are.
+  const owned: Array<[string, string | null, string | null]> = [
+    ["raynet_scheduled_from", formatRaynetDateTime(order.raynet_scheduled_from), raynetDateTime(event.scheduledFrom)],
+    ["raynet_scheduled_till", formatRaynetDateTime(order.raynet_scheduled_till), raynetDateTime(event.scheduledTill)],
+    ["raynet_event_status", order.raynet_event_status, event.status ?? null],
+  ];
+  for (const [field, from, to] of owned) {
+    if (!sameValue(from, to)) merge.changes.push({ field, from, to });
+  }
+
+  return merge;
+}
+
+// ── Sync ─────────────────────────────────────────────────────────
+
+/**
+ * Apply one Raynet event to every order linked to it (one transaction per event).
+ */
+async function syncRaynetEvent(
+  pool: Pool,
+  event: RaynetEvent,
+  source: RaynetOrderSyncSource
+): Promise<RaynetOrderSyncItem[]> {
+  const client = await pool.connect();
+  const items: RaynetOrderSyncItem[] = [];
+  try {
+    await client.query("BEGIN");
+    const orders = await raynetOrderSyncQueries.lockOrdersForRaynetEvent(client, event.id);
+    for (const order of orders) {
+      const merge = mergeOrder(order, event);
+      await raynetOrderSyncQueries.applyRaynetOrderSync(client, order.id, {
+        fields: merge.fields,
+        raynet_scheduled_from: raynetDateTime(event.scheduledFrom),
+        raynet_scheduled_till: raynetDateTime(event.scheduledTill),
+        raynet_event_status: event.status ?? null,
+        raynet_snapshot: merge.snapshot,
+        raynet_sync_conflicts: merge.conflicts,
+      });
+      if (merge.changes.length > 0) {
+        await orderActivityQueries.createOrderActivity(client, {
+          order_id: order.id,
+          kind: "RAYNET_SYNC",
+          source,
+          raynet_event_id: event.id,
+          changes: merge.changes,
+        });
+      }
+      if (merge.newConflicts.length > 0) {
+        await orderActivityQueries.createOrderActivity(client, {
+          order_id: order.id,
+          kind: "RAYNET_CONFLICT",
+          source,
+          raynet_event_id: event.id,
+          changes: merge.newConflicts.map((c) => ({ field: c.field, local: c.local, raynet: c.raynet })),
+        });
+      }
+      items.push({
+        order_id: order.id,
+        raynet_event_id: event.id,
+        outcome:
+          merge.newConflicts.length > 0
+            ? "CONFLICT"
+            : merge.changes.length > 0
+              ? "UPDATED"
+              : merge.baselined
+                ? "BASELINED"
+                : "UNCHANGED",
+        changed: merge.changes.map((c) => c.field),
+        conflicts: merge.newConflicts.map((c) => c.field),
+      });
+    }
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+  return items;
+}
+
+/** Read the events from Raynet (in chunks) and sync each one. */
+async function syncRaynetEvents(
+  pool: Pool,
+  eventIds: number[],
+  source: RaynetOrderSyncSource,
+  updatedAfter?: string
+): Promise<RaynetOrderSyncSummary> {
+  const startedAt = new Date();
+  const items: RaynetOrderSyncItem[] = [];
+  let events = 0;
+  for (let i = 0; i < eventIds.length; i += PULL_CHUNK_SIZE) {
+    const ids = eventIds.slice(i, i + PULL_CHUNK_SIZE);
+    const response = await raynetClient.getEvents({ ids, updatedAfter, limit: ids.length });
+    for (const event of response.data ?? []) {
+      events += 1;
+      items.push(...(await syncRaynetEvent(pool, event, source)));
+    }
+  }
+  return { source, started_at: startedAt, finished_at: new Date(), events, items };
+}
+
+/**
+ * Webhook entry point — call after `verifyRaynetWebhook`.
+ */
+export async function handleRaynetWebhook(pool: Pool, body: unknown): Promise<RaynetOrderSyncSummary> {
+  return syncRaynetEvents(pool, extractWebhookEventIds(body), "WEBHOOK");
+}
+
+/** Start of the last pull that finished; later pulls only ask for events changed since. */
+let lastPullStartedAt: Date | null = null;
+
+/**
+ * One pull over all recently active linked orders. The first pull of a process reads
+ * every event; later ones only events Raynet reports as changed since the previous pull.
+ */
+export async function pullRaynetOrderSync(pool: Pool): Promise<RaynetOrderSyncSummary> {
+  const startedAt = new Date();
+  const eventIds = await raynetOrderSyncQueries.listLinkedRaynetEventIds(
+    pool,
+    envInt("RAYNET_ORDER_SYNC_ACTIVE_DAYS", 180)
+  );
+  const since = lastPullStartedAt ? new Date(lastPullStartedAt.getTime() - PULL_OVERLAP_MS) : null;
+  const summary = await syncRaynetEvents(pool, eventIds, "PULL", formatRaynetDateTime(since) ?? undefined);
+  lastPullStartedAt = startedAt;
+  return summary;
+}
+
+/**
+ * Sync one order now (order page button). Re-reads its event regardless of updatedAt.
+ * @throws NotFoundError / BadRequestError when the order is missing or not linked
+ */
+export async function syncOrderFromRaynet(
+  pool: Pool,
+  orderId: number,
+  actor: Actor
+): Promise<RaynetOrderSyncSummary> {
+  const { ownerId } = await requireOrderAccess(pool, actor, orderId, "WRITE", "order.raynet_sync");
+  const order = await ordersQueries.getOrderById(pool, orderId, ownerId);
+  if (!order) throw new NotFoundError("Order not found");
+  if (!order.source_raynet_event_id) {
+    throw new BadRequestError("Order is not linked to a Raynet event", "MISSING_EVENT_ID");
+  }
+  return syncRaynetEvents(pool, [order.source_raynet_event_id], "PULL");
+}
+
+/**
+ * Close an open conflict: `raynet` overwrites the local value, `local` keeps it.
+ * @throws NotFoundError when the order or the conflict does not exist
+ */
+export async function resolveRaynetSyncConflict(
+  pool: Pool,
+  params: { orderId: number; actor: Actor; field: unknown; use: unknown }
+): Promise<RaynetSyncConflict[]> {
+  if (params.use !== "raynet" && params.use !== "local") {
+    throw new BadRequestError('use must be "raynet" or "local"');
+  }
+  const { ownerId } = await requireOrderAccess(
+    pool,
+    params.actor,
+    params.orderId,
+    "WRITE",
+    "order.raynet_sync.resolve"
+  );
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const order = await raynetOrderSyncQueries.lockOrderForRaynetSync(client, params.orderId, ownerId);
+    if (!order) throw new NotFoundError("Order not found");
+    const conflict = order.raynet_sync_conflicts.find((c) => c.field === params.field);
+    if (!conflict) throw new NotFoundError(`No open Raynet conflict for field "${String(params.field)}"`);
+
+    const remaining = order.raynet_sync_conflicts.filter((c) => c !== conflict);
+    const useRaynet = params.use === "raynet";
+    await raynetOrderSyncQueries.resolveRaynetSyncConflict(
+      client,
+      order.id,
+      remaining,
+      useRaynet ? { field: conflict.field, value: conflict.raynet } : null
+    );
+    await orderActivityQueries.createOrderActivity(client, {
+      order_id: order.id,
+      kind: "RAYNET_CONFLICT_RESOLVED",
+      source: "USER",
+      actor: params.actor.userId,
+      raynet_event_id: order.source_raynet_event_id,
+      changes: [
+        {
+          field: conflict.field,
+          from: order[conflict.field],
+          to: useRaynet ? conflict.raynet : order[conflict.field],
+          local: conflict.local,
+          raynet: conflict.raynet,
+        },
+      ],
+    });
+    await client.query("COMMIT");
+    return remaining;
+  } catch (error) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Activity log of an order the user can read, newest first.
+ * @throws NotFoundError when the order does not exist
+ */
+export async function getOrderActivity(
+  pool: Pool,
+  orderId: number,
+  actor: Actor,
+  limit = 50
+): Promise<OrderActivityRecord[]> {
+  await requireOrderAccess(pool, actor, orderId, "READ", "order.activity.view");
+  return orderActivityQueries.listOrderActivity(pool, orderId, Math.min(Math.max(limit, 1), 200));
+}
+
+// ── Timer ────────────────────────────────────────────────────────
+
+interface PullState {
+  pool: Pool;
+  timer: NodeJS.Timeout | null;
+  running: boolean;
+  stopped: boolean;
+}
+
+let puller: PullState | null = null;
+
+async function tick(): Promise<void> {
+  const state = puller;
+  if (!state || state.stopped || state.running) return;
+  state.running = true;
+  state.timer = null;
+
+  try {
+    const summary = await pullRaynetOrderSync(state.pool);
+    for (const item of summary.items) {
+      if (item.outcome === "UPDATED" || item.outcome === "CONFLICT") {
+        console.log(
+          `Raynet sync: order ${item.order_id} ← event ${item.raynet_event_id} ${item.outcome}` +
+            (item.conflicts.length > 0 ? ` (conflicts: ${item.conflicts.join(", ")})` : "")
+        );
+      }
+    }
+  } catch (error: any) {
+    console.error("Raynet order sync failed:", error?.message ?? error);
+  } finally {
+    state.running = false;
+    if (!state.stopped) {
+      state.timer = setTimeout(tick, envInt("RAYNET_ORDER_SYNC_INTERVAL_MS", 900_000));
+    }
+  }
+}
+
+/** Start the periodic pull (no-op when disabled, already running or Raynet is not configured). */
+export function startRaynetOrderSync(pool: Pool): void {
+  if (puller || process.env.RAYNET_ORDER_SYNC_ENABLED === "false") return;
+  if (!(process.env.RAYNET_AUTHORIZATION || process.env.RAYNET_BASIC_AUTH) || !process.env.RAYNET_INSTANCE_NAME) {
+    console.warn("Raynet order sync not started: Raynet API is not configured");
+    return;
+  }
+  puller = { pool, timer: null, running: false, stopped: false };
+  console.log("Raynet order sync started");
+  void tick();
+}
+
+/** Stop the timer; a pull in flight finishes on its own. */
+export function stopRaynetOrderSync(): void {
+  if (!puller) return;
+  puller.stopped = true;
+  if (puller.timer) clearTimeout(puller.timer);
+  puller = null;
+}
@@ -108,19 +108,24 @@ export async function searchLeadsByPhone(phoneNumber: string): Promise<RaynetApi
 }
 
 /**
- * Fetch Raynet calendar events for a given owner and date range.
+ * Fetch Raynet calendar events. Every filter is optional; the calendar passes owner +
+ * day window, the order sync passes event ids (+ updatedAfter).
  * @param params.personFilter - Raynet person identifier (personFilter)
  * @param params.scheduledFrom - Inclusive start datetime (YYYY-MM-DD HH:mm)
  * @param params.scheduledTill - Exclusive end datetime (YYYY-MM-DD HH:mm)
  * @param params.categoryIds - Allowed category ids
  * @param params.statusNotEquals - Excluded event status value
+ * @param params.ids - Only these event ids
+ * @param params.updatedAfter - Only events changed after this datetime (YYYY-MM-DD HH:mm)
  */
 export async function getEvents(params: {
-  personFilter: string;
-  scheduledFrom: string;
-  scheduledTill: string;
-  categoryIds: number[];
-  statusNotEquals: string;
+  personFilter?: string;
+  scheduledFrom?: string;
+  scheduledTill?: string;
+  categoryIds?: number[];
+  statusNotEquals?: string;
+  ids?: number[];
+  updatedAfter?: string;
   offset?: number;
   limit?: number;
 }): Promise<RaynetEventApiResponse> {
@@ -134,18 +139,21 @@ export async function getEvents(params: {
     url.searchParams.append("limit", String(params.limit ?? 200));
 
     // Raynet person filter binds events to the currently paired Raynet user.
-    url.searchParams.append("personFilter", params.personFilter);
+    if (params.personFilter) url.searchParams.append("personFilter", params.personFilter);
 
     // Date window
-    url.searchParams.append("scheduledFrom[GE]", params.scheduledFrom);
-    url.searchParams.append("scheduledTill[LT]", params.scheduledTill);
+    if (params.scheduledFrom) url.searchParams.append("scheduledFrom[GE]", params.scheduledFrom);
+    if (params.scheduledTill) url.searchParams.append("scheduledTill[LT]", params.scheduledTill);
 
     // Exclude cancelled events and include allowed categories.
-    url.searchParams.append("status[NE]", params.statusNotEquals);
-    if (params.categoryIds.length > 0) {
+    if (params.statusNotEquals) url.searchParams.append("status[NE]", params.statusNotEquals);
+    if (params.categoryIds && params.categoryIds.length > 0) {
       url.searchParams.append("category-id[IN]", params.categoryIds.join(","));
     }
 
+    if (params.ids && params.ids.length > 0) url.searchParams.append("id[IN]", params.ids.join(","));
+    if (params.updatedAfter) url.searchParams.append("rowInfo.updatedAt[GT]", params.updatedAfter);
+
     const authHeader = config.authorization.startsWith("Basic ")
       ? config.authorization
       : `Basic ${config.authorization}`;
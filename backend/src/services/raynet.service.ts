@@ -3,12 +3,16 @@
  * Handles validation and coordinates between routes and queries
  */
 
+import { Pool } from "pg";
 import {
   CustomerSearchResponse,
   SearchCustomerByPhoneRequest,
   RaynetEvent,
 } from "../types/raynet.types";
 import * as raynetQueries from "../queries/raynet.queries";
+import * as raynetClient from "./raynet.client";
+import * as ordersService from "./orders.service";
+import * as orderEventsService from "./order-events.service";
 import { BadRequestError } from "../utils/errors";
 
 /**
@@ -96,3 +100,30 @@ export async function getEventsForOwnerAndDate(
     totalCount: events.length,
   };
 }
+
+/**
+ * Push the order notes to the Raynet event description and record it on the timeline
+ * of the user's orders linked to that event.
+ * @param pool - Database connection pool
+ * @param userId - User ID (timeline actor, scopes the linked orders)
+ * @param eventId - Raynet event ID
+ * @param description - New description (HTML)
+ */
+export async function updateEventDescription(
+  pool: Pool,
+  userId: string,
+  eventId: number,
+  description: string
+): Promise<void> {
+  await raynetClient.updateEventDescription(eventId, description);
+
+  const links = await ordersService.findOrdersByRaynetEventIds(pool, userId, [eventId]);
+  for (const link of links) {
+    await orderEventsService.recordOrderEvent(pool, {
+      order_id: link.orderId,
+      kind: "NOTES_PUSHED_TO_RAYNET",
+      actor: userId,
+      payload: { raynet_event_id: eventId, length: description.length },
+    });
+  }
+}
@@ -15,6 +15,9 @@
 
 import { Pool } from "pg";
 import * as ordersService from "./orders.service";
+import * as orderEventsService from "./order-events.service";
+import { requireOrderAccess } from "./order-access.service";
+import * as ordersQueries from "../queries/orders.queries";
 import * as retentionLogsQueries from "../queries/retention-logs.queries";
 import { raynetJsonRequest, type RaynetHttpLogEntry } from "./raynet-api.client";
 import {
@@ -22,7 +25,8 @@ import {
   RetentionErrorCode,
   RetentionWarning,
 } from "../types/retention.types";
-import { BadRequestError } from "../utils/errors";
+import type { Actor } from "../types/access.types";
+import { BadRequestError, NotFoundError } from "../utils/errors";
 
 const RETENTION_CN_TAG = "CN";
 const RETENTION_CUSTOM_FIELD = "Retence_7fbd1";
@@ -31,7 +35,7 @@ const REASON_MAX_LENGTH = 4000;
 interface SendRetentionParams {
   pool: Pool;
   orderId: number;
-  userId: string;
+  actor: Actor;
   rawReason: unknown;
   testMode: boolean;
 }
@@ -104,12 +108,14 @@ function tagsContainCn(tags: string[]): boolean {
 export async function sendOrderToRetention(
   params: SendRetentionParams
 ): Promise<SendRetentionResult> {
-  const { pool, orderId, userId, rawReason, testMode } = params;
+  const { pool, orderId, actor, rawReason, testMode } = params;
 
   const reason = normalizeReason(rawReason);
 
-  /** Throws NotFoundError if the order doesn't belong to this user. */
-  const order = await ordersService.getOrderById(pool, orderId, userId);
+  /** Throws NotFoundError / ForbiddenError unless the user can write to the order. */
+  const { ownerId } = await requireOrderAccess(pool, actor, orderId, "WRITE", "retention.send");
+  const order = await ordersQueries.getOrderById(pool, orderId, ownerId);
+  if (!order) throw new NotFoundError("Order not found");
 
   if (order.raynet_id == null) {
     throw new BadRequestError(
@@ -129,7 +135,7 @@ export async function sendOrderToRetention(
 
   const logId = await retentionLogsQueries.createRetentionLog(pool, {
     order_id: order.id,
-    user_id: userId,
+    user_id: actor.userId,
     reason,
     raynet_id: order.raynet_id,
     raynet_event_id: eventId,
@@ -138,6 +144,53 @@ export async function sendOrderToRetention(
     kind: "OVT_REQUEST",
   });
 
+  try {
+    const result = await writeRetentionFlagToRaynet(pool, logId, eventId, testMode, startedAt);
+    await recordRetentionEvent(pool, order.id, actor.userId, logId, reason, testMode, result.status);
+    return result;
+  } catch (error: any) {
+    await recordRetentionEvent(pool, order.id, actor.userId, logId, reason, testMode, "FAILED", error?.message);
+    throw error;
+  }
+}
+
+/** Timeline entry for the OVT request (order-events.service). */
+async function recordRetentionEvent(
+  pool: Pool,
+  orderId: number,
+  userId: string,
+  logId: number,
+  reason: string,
+  testMode: boolean,
+  status: RetentionLogRecord["status"],
+  errorMessage?: string
+): Promise<void> {
+  await orderEventsService.recordOrderEvent(pool, {
+    order_id: orderId,
+    kind: "RETENTION_REQUEST",
+    actor: userId,
+    status: status === "FAILED" ? "FAILED" : status === "PARTIAL_SUCCESS" ? "PARTIAL_SUCCESS" : "SUCCESS",
+    payload: {
+      log_id: logId,
+      kind: "OVT_REQUEST",
+      reason: reason.slice(0, 200),
+      test_mode: testMode,
+      error: errorMessage ?? null,
+    },
+  });
+}
+
+/**
+ * Steps after the log row exists: set the retention custom field on the Raynet event
+ * (GET-merge-POST) and close the log row with the outcome.
+ */
+async function writeRetentionFlagToRaynet(
+  pool: Pool,
+  logId: number,
+  eventId: number,
+  testMode: boolean,
+  startedAt: number
+): Promise<SendRetentionResult> {
   const resolvedPayload: ResolvedRequestPayload = {
     kind: "OVT_REQUEST",
     raynet: {
@@ -311,13 +364,13 @@ export interface OrderRetentionStatus {
 export async function getOrderRetentionStatus(
   pool: Pool,
   orderId: number,
-  userId: string
+  actor: Actor
 ): Promise<OrderRetentionStatus> {
-  /** Verifies ownership; throws if order doesn't belong to user. */
-  const order = await ordersService.getOrderById(pool, orderId, userId);
+  /** Verifies access; throws if the user cannot read the order. */
+  const order = await ordersService.getOrderById(pool, orderId, actor);
 
-  const latest = await retentionLogsQueries.getLatestRetentionForOrder(pool, orderId, userId);
-  const openRequest = await retentionLogsQueries.getOpenOvtRequestForOrder(pool, orderId, userId);
+  const latest = await retentionLogsQueries.getLatestRetentionForOrder(pool, orderId);
+  const openRequest = await retentionLogsQueries.getOpenOvtRequestForOrder(pool, orderId);
 
   /** State B comes from Raynet — degrade gracefully if Raynet is unreachable. */
   let inRetention = false;
@@ -0,0 +1,80 @@
+/**
+ * Type definitions for roles, teams, order sharing and access audit
+ */
+
+/**
+ * Role carried in the JWT (`role` claim).
+ * OVT = sales rep, MNG = sales manager, OFFICE = back office, ADMIN = administrator.
+ */
+export type UserRole = "OVT" | "MNG" | "OFFICE" | "ADMIN";
+
+export const USER_ROLES: readonly UserRole[] = ["OVT", "MNG", "OFFICE", "ADMIN"];
+
+/** Who is calling — passed to the orders / forms / attachments / export services. */
+export interface Actor {
+  userId: string;
+  role: UserRole;
+}
+
+export type OrderAccessLevel = "READ" | "WRITE";
+
+/** Why a non-owner may access an order. */
+export type OrderAccessBasis = "SHARE" | "TEAM" | "OFFICE" | "ADMIN";
+
+/** Result of an access check. Queries run as `ownerId`. */
+export interface OrderAccessGrant {
+  orderId: number;
+  ownerId: string;
+  level: OrderAccessLevel;
+  /** null when the actor owns the order */
+  basis: OrderAccessBasis | null;
+}
+
+/** Order owner as read for an access check (no user scope). */
+export interface OrderOwnerRow {
+  order_id: number;
+  owner_user_id: string;
+}
+
+export interface TeamRecord {
+  id: number;
+  name: string;
+  created_at: Date;
+  members: TeamMemberRecord[];
+}
+
+export interface TeamMemberRecord {
+  team_id: number;
+  user_id: string;
+  created_at: Date;
+}
+
+export interface OrderShareRecord {
+  id: number;
+  order_id: number;
+  user_id: string;
+  access: OrderAccessLevel;
+  granted_by: string;
+  created_at: Date;
+}
+
+export interface CreateAccessAuditParams {
+  order_id: number;
+  form_id?: number | null;
+  actor: string;
+  actor_role: UserRole;
+  owner_user_id: string;
+  access: OrderAccessLevel;
+  basis: OrderAccessBasis;
+  action: string;
+}
+
+/** order_access_audit row */
+export interface AccessAuditRecord extends CreateAccessAuditParams {
+  id: number;
+  form_id: number | null;
+  created_at: Date;
+}
+
+/** Which orders GET /api/orders lists. */
+export type OrderListScope = "mine" | "accessible";
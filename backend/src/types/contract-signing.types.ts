@@ -0,0 +1,128 @@
+/**
+ * Type definitions for the ADMF signed-contract flow (inSign e-signature).
+ */
+
+import type { OrderContractStatus } from "./orders.types";
+
+/** INAPP = both parties sign on the rep's tablet; EXTERN = links sent by e-mail/SMS. */
+export type SigningDeliveryMode = "INAPP" | "EXTERN";
+
+export type SigningSessionStatus = "PENDING" | "COMPLETED" | "REJECTED";
+
+export type SigningErrorCode =
+  | "INSIGN_NOT_CONFIGURED"
+  | "INSIGN_API_ERROR"
+  | "INVALID_DELIVERY_MODE"
+  | "MISSING_CUSTOMER_EMAIL"
+  | "FORM_NOT_LINKED_TO_ORDER"
+  | "ALREADY_SIGNED"
+  | "NO_PENDING_SESSION"
+  | "INVALID_REASON"
+  | "CONTRACT_NOT_SIGNED"
+  | "CONTRACT_CHANGED_AFTER_SIGNING";
+
+export interface SigningSessionRecord {
+  id: number;
+  form_id: number;
+  order_id: number | null;
+  user_id: string;
+  form_revision: number;
+  insign_session_id: string;
+  delivery_mode: SigningDeliveryMode;
+  status: SigningSessionStatus;
+  process_step: string | null;
+  access_url: string | null;
+  extern_links: Record<string, unknown> | null;
+  customer_email: string | null;
+  customer_phone: string | null;
+  gdpr_declined: boolean;
+  last_status: Record<string, unknown> | null;
+  signed_document_key: string | null;
+  audit_key: string | null;
+  last_error_message: string | null;
+  created_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+  rejected_at: Date | null;
+}
+
+export interface CreateSigningSessionParams {
+  form_id: number;
+  order_id: number | null;
+  user_id: string;
+  form_revision: number;
+  insign_session_id: string;
+  delivery_mode: SigningDeliveryMode;
+  access_url: string | null;
+  customer_email: string | null;
+  customer_phone: string | null;
+}
+
+/** Partial update; undefined fields are left untouched. */
+export interface UpdateSigningSessionParams {
+  status?: SigningSessionStatus;
+  process_step?: string | null;
+  extern_links?: Record<string, unknown> | null;
+  gdpr_declined?: boolean;
+  last_status?: Record<string, unknown> | null;
+  signed_document_key?: string | null;
+  audit_key?: string | null;
+  last_error_message?: string | null;
+  completed_at?: Date | null;
+  rejected_at?: Date | null;
+}
+
+export interface RecordSigningWebhookParams {
+  signing_session_id: number | null;
+  insign_session_id: string | null;
+  event_id: string | null;
+  http_method: string;
+  query_params: Record<string, unknown>;
+  body: unknown;
+}
+
+/** Request body for POST /api/signing/forms/:formId/sessions */
+export interface StartSigningRequest {
+  deliveryMode?: string;
+  /** Defaults to the order's e-mail / phone (EXTERN only). */
+  customerEmail?: string;
+  customerPhone?: string;
+}
+
+/** Signing session as returned to the client. */
+export interface SigningSessionSummary {
+  id: number;
+  form_revision: number;
+  delivery_mode: SigningDeliveryMode;
+  status: SigningSessionStatus;
+  process_step: string | null;
+  access_url: string | null;
+  /** Recipient → link for EXTERN sessions. */
+  extern_links: Array<{ recipient: string; link: string | null }>;
+  customer_email: string | null;
+  signed_document_key: string | null;
+  audit_key: string | null;
+  created_at: string;
+  completed_at: string | null;
+  rejected_at: string | null;
+}
+
+/** GET /api/signing/forms/:formId */
+export interface FormSigningStatus {
+  session: SigningSessionSummary | null;
+  order: {
+    id: number;
+    contract_status: OrderContractStatus;
+    contract_signed_at: string | null;
+    erp_export_override: { reason: string; by: string | null; at: string | null } | null;
+  } | null;
+  form_revision: number;
+  /** Whether a non-test ERP export of this ADMF would be accepted. */
+  erp_export_allowed: boolean;
+  erp_export_block_reason: string | null;
+  erp_export_block_code: SigningErrorCode | null;
+  /** Whether the caller may set / revoke the ERP export override (OFFICE, ADMIN). */
+  can_override_erp_gate: boolean;
+  /** Set when the live inSign status could not be fetched; the stored state is returned. */
+  sync_error?: string;
+}
@@ -1,10 +1,12 @@
 /**
  * Unified customer search + validation types.
  * Raynet is primary (source of truth), ERP is secondary (read-only replica).
+ * Local customer master records link both and are referenced by orders.
  */
 
 import { RaynetLead } from "./raynet.types";
 import { ErpCustomer } from "./erp.types";
+import type { OrderRecord } from "./orders.types";
 
 /** Request payload for dual-source customer search. */
 export interface CustomerSearchRequest {
@@ -21,6 +23,11 @@ export interface CustomerSearchResult {
     customers: ErpCustomer[];
     totalCount: number;
   };
+  /** Local customer master records with the same phone (shown first in the picker). */
+  local: {
+    customers: CustomerRecord[];
+    totalCount: number;
+  };
 }
 
 /** Request payload for validating the selected pair. */
@@ -51,6 +58,8 @@ export interface CustomerPrefill {
   zipcode?: string;
   raynet_id: number;
   erp_customer_id: number;
+  /** Local customer master record matched (or created) for the pair. */
+  customer_id?: number;
 }
 
 /** Validation response enforcing "exactly one + one + no conflicts". */
@@ -61,3 +70,82 @@ export interface CustomerValidateResult {
   prefill?: CustomerPrefill;
 }
 
+
+/** Local customer master record (table customers). */
+export interface CustomerRecord {
+  id: number;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  city: string | null;
+  zipcode: string | null;
+  ico: string | null;
+  raynet_id: number | null;
+  erp_customer_id: number | null;
+  /** Last Raynet ↔ ERP conflicts reported by validateSelectedPair ({} = none / not checked). */
+  source_conflicts: CustomerConflicts;
+  conflicts_checked_at: Date | null;
+  merged_into_id: number | null;
+  merged_by: string | null;
+  merged_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/** Normalized deduplication keys (null when the source value is missing or unusable). */
+export interface CustomerMatchKeys {
+  phone_key: string | null;
+  email_key: string | null;
+  ico_key: string | null;
+}
+
+/** Customer fields an order / validated pair contributes to the master record. */
+export interface CustomerInput {
+  name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  city?: string | null;
+  zipcode?: string | null;
+  ico?: string | null;
+  raynet_id?: number | null;
+  erp_customer_id?: number | null;
+}
+
+/** ADMF of one of the customer's orders, as listed on the customer page. */
+export interface CustomerAdmfSummary {
+  id: number;
+  order_id: number;
+  name: string | null;
+  /** Celkem s DPH (computeAdmfCelkemSDph). */
+  total_s_dph: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/** GET /api/customers/:id — customer with the orders and ADMFs the caller can open. */
+export interface CustomerDetail {
+  customer: CustomerRecord;
+  orders: OrderRecord[];
+  admf_forms: CustomerAdmfSummary[];
+}
+
+/** Customers sharing a deduplication key (merge candidates). */
+export interface CustomerDuplicateGroup {
+  key_type: "phone" | "email" | "ico";
+  key_value: string;
+  customers: CustomerRecord[];
+}
+
+/** Request body for POST /api/customers/merge: source is merged into target. */
+export interface MergeCustomersRequest {
+  source_id: number;
+  target_id: number;
+}
+
+/** Result of a merge. */
+export interface MergeCustomersResult {
+  customer: CustomerRecord;
+  moved_order_ids: number[];
+}
@@ -2,8 +2,6 @@
  * Type definitions for ERP export pipeline
  */
 
-export type ErpExportLogStatus = "PENDING" | "MAPPING" | "SENDING" | "SUCCESS" | "FAILED";
-
 export type ErpExportErrorCode =
   | "MISSING_ERP_ORDER_ID"
   | "FORM_NOT_FOUND"
@@ -17,55 +15,17 @@ export type ErpExportErrorCode =
   | "ERP_TIMEOUT"
   | "ERP_CONFIG_MISSING"
   | "ERP_COMMENT_FAILED"
+  | "EXPORT_INTERRUPTED"
+  | "RECONCILE_NOT_APPLIED"
+  | "RECONCILE_UNVERIFIED"
   | "UNKNOWN_ERROR";
 
 export interface ErpExportWarning {
-  code: "FIELD_SKIPPED" | "FIELD_EMPTY" | "ENUM_MISMATCH" | "PRODUCTS_SKIPPED";
+  code: "FIELD_SKIPPED" | "FIELD_EMPTY" | "ENUM_MISMATCH" | "PRODUCT_SYNC_FAILED" | "RECONCILED";
   field: string;
   reason: string;
 }
 
-export interface ErpExportLogRecord {
-  id: number;
-  form_id: number;
-  order_id: number;
-  erp_order_id: number;
-  user_id: string;
-  export_batch_id: string | null;
-  status: ErpExportLogStatus;
-  test_mode: boolean;
-  request_payload: Record<string, unknown> | null;
-  response_status: number | null;
-  response_body: Record<string, unknown> | null;
-  error_message: string | null;
-  error_code: string | null;
-  warnings: ErpExportWarning[] | null;
-  duration_ms: number | null;
-  created_at: Date;
-  completed_at: Date | null;
-}
-
-export interface CreateErpExportLogParams {
-  form_id: number;
-  order_id: number;
-  erp_order_id: number;
-  user_id: string;
-  export_batch_id?: string;
-  test_mode: boolean;
-}
-
-export interface UpdateErpExportLogParams {
-  status?: ErpExportLogStatus;
-  request_payload?: Record<string, unknown>;
-  response_status?: number;
-  response_body?: Record<string, unknown>;
-  error_message?: string;
-  error_code?: ErpExportErrorCode;
-  warnings?: ErpExportWarning[];
-  duration_ms?: number;
-  completed_at?: Date;
-}
-
 /** The ERP order update payload (PUT /orders/{id}) */
 export interface ErpOrderUpdatePayload {
   status: string;
@@ -73,13 +33,69 @@ export interface ErpOrderUpdatePayload {
   column_values: Record<string, unknown>;
 }
 
-/** Single product for POST /orders/{id}/products */
+/** Single product for POST /orders/{id}/products and PUT /orders/{id}/products/{productId} */
 export interface ErpProductPayload {
   nazev: string;
   ks: number;
+  /** Per unit, after the line discount. */
   cena_bez_dph: number;
   cena_s_dph: number;
   vyrobce?: string;
+  /** Room name from the OVT form. */
+  mistnost?: string;
+  /** Příplatky already included in cena_bez_dph — per unit, before the line discount. */
+  priplatky?: ErpProductSurcharge[];
+}
+
+export interface ErpProductSurcharge {
+  kod: string;
+  nazev: string;
+  cena_bez_dph: number;
+}
+
+/** One ADMF product row mapped for ERP, keyed for idempotent re-export. */
+export interface ErpProductLine {
+  /** productRows[].id, or `index:N` for rows without one. */
+  row_key: string;
+  product: ErpProductPayload;
+}
+
+export type ErpProductSyncAction = "CREATE" | "REPLACE" | "DELETE";
+
+/** Per-line outcome, stored in request_payload.products_sync while the sync runs. */
+export interface ErpProductSyncLine {
+  row_key: string;
+  action: ErpProductSyncAction;
+  status: "PENDING" | "SUCCESS" | "FAILED";
+  erp_product_id: string | null;
+  http_status?: number;
+  error?: string;
+  /**
+   * The ERP call succeeded (erp_product_id is set) but erp_order_products could not
+   * be written. The next export adopts the id instead of creating the line again.
+   */
+  untracked?: boolean;
+}
+
+export interface ErpProductSyncSummary {
+  created: number;
+  replaced: number;
+  deleted: number;
+  failed: number;
+  lines: ErpProductSyncLine[];
+}
+
+/** erp_order_products row — which ERP product id belongs to which ADMF row. */
+export interface ErpOrderProductRecord {
+  id: number;
+  erp_order_id: number;
+  form_id: number;
+  row_key: string;
+  erp_product_id: string;
+  payload: ErpProductPayload;
+  last_log_id: number | null;
+  created_at: Date;
+  updated_at: Date;
 }
 
 /** Comment for POST /orders/{id}/comments — vendor field name is `message`. */
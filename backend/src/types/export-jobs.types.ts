@@ -0,0 +1,71 @@
+/**
+ * Type definitions for the durable export queue (export_jobs)
+ */
+
+import type { ExportTargetId } from "./export-target.types";
+import type { UserRole } from "./access.types";
+
+/** Registered export target (see services/export-targets). */
+export type ExportJobTarget = ExportTargetId;
+
+export type ExportJobStatus = "QUEUED" | "RUNNING" | "SUCCESS" | "FAILED";
+
+/** Summary stored on a successful job — mirrors the inline export result. */
+export interface ExportJobResult {
+  logId: number;
+  exportedAt: string;
+  warnings: Array<{ code: string; field: string; reason: string }>;
+}
+
+export interface ExportJobRecord {
+  id: number;
+  export_batch_id: string;
+  target: ExportJobTarget;
+  form_id: number;
+  user_id: string;
+  /** Role of the requester when queued (the worker re-checks access with it). */
+  user_role: UserRole;
+  raynet_user_name: string | null;
+  test_mode: boolean;
+  status: ExportJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_after: Date;
+  locked_at: Date | null;
+  locked_by: string | null;
+  last_log_id: number | null;
+  last_error_message: string | null;
+  last_error_code: string | null;
+  result: ExportJobResult | null;
+  /** Preview the user confirmed for this target; copied to every attempt's log. */
+  confirmed_preview: Record<string, unknown> | null;
+  created_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+}
+
+export interface EnqueueExportJobParams {
+  export_batch_id: string;
+  target: ExportJobTarget;
+  form_id: number;
+  user_id: string;
+  /** Role of the requester when queued (the worker re-checks access with it). */
+  user_role: UserRole;
+  raynet_user_name: string | null;
+  test_mode: boolean;
+  max_attempts: number;
+  confirmed_preview: Record<string, unknown> | null;
+}
+
+/** Outcome of one attempt, written back by the worker. */
+export interface CompleteExportJobAttemptParams {
+  status: ExportJobStatus;
+  last_log_id?: number | null;
+  last_error_message?: string | null;
+  last_error_code?: string | null;
+  result?: ExportJobResult | null;
+  /** Only for status QUEUED (retry): when the next attempt may run. */
+  run_after?: Date;
+  /** The claimed attempt was deferred without running — it does not count against max_attempts. */
+  attempt_not_run?: boolean;
+}
@@ -0,0 +1,184 @@
+/**
+ * Type definitions for the export monitoring dashboard (admin, read-only).
+ * One shape over export_logs (RAYNET / ERP rows) and retention_logs.
+ */
+
+export type ExportLogSource = "raynet" | "erp" | "retention";
+
+export const EXPORT_LOG_SOURCES: readonly ExportLogSource[] = ["raynet", "erp", "retention"];
+
+/** Union of the status values used by the log sources. */
+export type ExportLogStatus =
+  | "PENDING"
+  | "MAPPING"
+  | "SENDING"
+  | "SUCCESS"
+  | "PARTIAL_SUCCESS"
+  | "FAILED"
+  | "UNKNOWN";
+
+export const EXPORT_LOG_STATUSES: readonly ExportLogStatus[] = [
+  "PENDING",
+  "MAPPING",
+  "SENDING",
+  "SUCCESS",
+  "PARTIAL_SUCCESS",
+  "FAILED",
+  "UNKNOWN",
+];
+
+export type ExportLogSortKey = "id" | "created_at" | "user_id" | "status" | "duration_ms";
+
+export const EXPORT_LOG_SORT_KEYS: readonly ExportLogSortKey[] = [
+  "id",
+  "created_at",
+  "user_id",
+  "status",
+  "duration_ms",
+];
+
+export type ExportMonitoringErrorCode =
+  | "INVALID_SOURCE"
+  | "INVALID_RANGE"
+  | "INVALID_FILTER";
+
+/** Half-open range [from, to) on created_at. */
+export interface ExportMonitoringRange {
+  from: Date;
+  to: Date;
+}
+
+export interface ExportLogSearchFilters extends ExportMonitoringRange {
+  source: ExportLogSource;
+  statuses?: ExportLogStatus[];
+  test_mode?: boolean;
+  user_id?: string;
+  error_code?: string;
+  /** Fulltext (ILIKE) on error_message. */
+  q?: string;
+  sort: ExportLogSortKey;
+  direction: "asc" | "desc";
+  page: number;
+  page_size: number;
+}
+
+export interface ExportKpis {
+  total: number;
+  /** SUCCESS + PARTIAL_SUCCESS (partial = exported with warnings). */
+  success_count: number;
+  partial_success_count: number;
+  failed_count: number;
+  /** PENDING/MAPPING/SENDING older than the stuck threshold. */
+  stuck_count: number;
+  /** Average duration of successful exports; null when there are none. */
+  avg_duration_ms: number | null;
+  test_count: number;
+  prod_count: number;
+  /** success_count / total × 100, one decimal; null when total = 0. */
+  success_rate: number | null;
+}
+
+export interface ExportTimeBucket {
+  bucket: Date;
+  success: number;
+  failed: number;
+}
+
+export interface ExportErrorBreakdownRow {
+  error_code: string | null;
+  count: number;
+}
+
+export interface ExportUserActivityRow {
+  user_id: string;
+  total: number;
+  success_count: number;
+  failed_count: number;
+  test_count: number;
+  prod_count: number;
+  last_export_at: Date;
+}
+
+export interface ExportWarningStat {
+  warning_code: string | null;
+  warning_field: string | null;
+  occurrences: number;
+}
+
+export interface StuckExportRow {
+  id: number;
+  form_id: number | null;
+  order_id: number | null;
+  user_id: string;
+  status: ExportLogStatus;
+  created_at: Date;
+}
+
+export interface ExportMonitoringAlerts {
+  /** Not limited to the selected range — a stuck export is a problem whenever it started. */
+  stuck: StuckExportRow[];
+  auth_failures_last_hour: number;
+  last_hour_total: number;
+  last_hour_success_rate: number | null;
+  /** Success rate in the last hour fell below the alert threshold. */
+  high_failure_rate: boolean;
+}
+
+export interface ExportMonitoringStats {
+  source: ExportLogSource;
+  from: Date;
+  to: Date;
+  granularity: "hour" | "day";
+  kpis: ExportKpis;
+  buckets: ExportTimeBucket[];
+  errors: ExportErrorBreakdownRow[];
+  users: ExportUserActivityRow[];
+  warnings: ExportWarningStat[];
+  alerts: ExportMonitoringAlerts;
+}
+
+export interface ExportLogListItem {
+  id: number;
+  source: ExportLogSource;
+  created_at: Date;
+  completed_at: Date | null;
+  user_id: string;
+  order_id: number | null;
+  /** null for retention logs (they are keyed on order / Raynet event only). */
+  form_id: number | null;
+  /** Raynet event id (raynet, retention) or ERP order id (erp). */
+  external_id: number | null;
+  status: ExportLogStatus;
+  test_mode: boolean;
+  error_code: string | null;
+  error_message: string | null;
+  duration_ms: number | null;
+  warning_count: number;
+  /** Retention logs only: OVT_REQUEST | OFFICE_EXPORT. */
+  kind: string | null;
+  order_customer_name: string | null;
+  form_variant_name: string | null;
+}
+
+export interface ExportLogPage {
+  items: ExportLogListItem[];
+  total: number;
+  page: number;
+  page_size: number;
+}
+
+export interface ExportLogDetail extends ExportLogListItem {
+  request_payload: unknown;
+  response_status: number | null;
+  response_body: unknown;
+  warnings: unknown;
+  export_batch_id: string | null;
+  order_email: string | null;
+  order_phone: string | null;
+  source_raynet_event_id: number | null;
+  form_type: string | null;
+  /** Retention logs only. */
+  reason: string | null;
+  raynet_id: number | null;
+  erp_order_id: number | null;
+}
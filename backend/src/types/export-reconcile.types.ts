@@ -0,0 +1,66 @@
+/**
+ * Type definitions for the stuck-export reconciler (export-reconciler.service).
+ */
+
+import type { ExportLogSource } from "./export-monitoring.types";
+
+/** Final statuses the reconciler may write. */
+export type ReconciledStatus = "SUCCESS" | "PARTIAL_SUCCESS" | "FAILED" | "UNKNOWN";
+
+/** In-flight log row as seen by the reconciler (any of the three log tables). */
+export interface StuckExportLogRow {
+  id: number;
+  status: "PENDING" | "MAPPING" | "SENDING";
+  test_mode: boolean;
+  created_at: Date;
+  request_payload: Record<string, unknown> | null;
+  /** Raynet event id (raynet, retention) or ERP order id (erp). */
+  external_id: number | null;
+  /** retention_logs.kind; null for the other sources. */
+  kind: string | null;
+  /** Newer SUCCESS / PARTIAL_SUCCESS row for the same form (or event), if any. */
+  superseded_by: number | null;
+}
+
+export interface ReconcileWarning {
+  code: string;
+  field: string;
+  reason: string;
+}
+
+export interface ResolveStuckExportLogParams {
+  status: ReconciledStatus;
+  error_code: string | null;
+  error_message: string | null;
+  warnings: ReconcileWarning[];
+  response_body: Record<string, unknown>;
+}
+
+/** What the reconciler writes for one row. */
+export interface ReconcileResolution {
+  status: ReconciledStatus;
+  errorCode?: string;
+  message: string;
+  warnings?: ReconcileWarning[];
+  evidence?: Record<string, unknown>;
+}
+
+/** Verdict for one row. `defer` leaves it in flight until the next run. */
+export type ReconcileVerdict = ReconcileResolution | { defer: true; message: string };
+
+export interface ReconcileRunItem {
+  source: ExportLogSource;
+  id: number;
+  /** Status written, or "DEFERRED" when the row was left for the next run. */
+  outcome: ReconciledStatus | "DEFERRED";
+  message: string;
+}
+
+export interface ReconcileRunSummary {
+  started_at: Date;
+  finished_at: Date;
+  checked: number;
+  resolved: number;
+  deferred: number;
+  items: ReconcileRunItem[];
+}
@@ -0,0 +1,232 @@
+/**
+ * Type definitions for the pluggable export-target framework (export-target.service).
+ *
+ * A target turns an ADMF form into a write against one external system. The shared
+ * runner owns loading, the 3-write log flow, test mode and the catch-all; a target
+ * only supplies validate → buildPayload → send → classifyError and a log store.
+ */
+
+import type { Pool } from "pg";
+import type { FormRecord } from "./forms.types";
+import type { OrderRecord } from "./orders.types";
+import type { Actor } from "./access.types";
+
+/** Registered targets. Also the export_jobs.target value. */
+export type ExportTargetId = "RAYNET" | "ERP";
+
+export type ExportTargetLogStatus =
+  | "PENDING"
+  | "MAPPING"
+  | "SENDING"
+  | "SUCCESS"
+  | "PARTIAL_SUCCESS"
+  | "FAILED"
+  | "UNKNOWN";
+
+export interface ExportTargetWarning {
+  code: string;
+  field: string;
+  reason: string;
+}
+
+/** Columns every export log table has, whatever the target. */
+export interface ExportTargetLogRecord {
+  id: number;
+  form_id: number;
+  order_id: number;
+  user_id: string;
+  status: ExportTargetLogStatus;
+  test_mode: boolean;
+  request_payload: Record<string, unknown> | null;
+  response_status: number | null;
+  response_body: Record<string, unknown> | null;
+  error_message: string | null;
+  error_code: string | null;
+  warnings: ExportTargetWarning[] | null;
+  duration_ms: number | null;
+  confirmed_preview: Record<string, unknown> | null;
+  created_at: Date;
+  completed_at: Date | null;
+}
+
+export interface CreateExportTargetLogParams {
+  form_id: number;
+  order_id: number;
+  /** Id of the record written on the remote side (Raynet event, ERP order, …). */
+  external_id: number;
+  user_id: string;
+  test_mode: boolean;
+  export_batch_id?: string;
+  /** Preview the user confirmed before enqueueing (see ExportTargetPreview). */
+  confirmed_preview?: Record<string, unknown> | null;
+}
+
+export interface UpdateExportTargetLogParams {
+  status?: ExportTargetLogStatus;
+  request_payload?: Record<string, unknown>;
+  response_status?: number;
+  response_body?: Record<string, unknown>;
+  error_message?: string;
+  error_code?: string;
+  warnings?: ExportTargetWarning[];
+  duration_ms?: number;
+  completed_at?: Date;
+}
+
+/**
+ * Where a target writes its per-attempt log rows — export_logs scoped to the target
+ * for every built-in one (createExportLogStore).
+ */
+export interface ExportTargetLogStore {
+  create(pool: Pool, params: CreateExportTargetLogParams): Promise<number>;
+  /** Must not throw — a failed log write never masks the real error. */
+  update(pool: Pool, logId: number, params: UpdateExportTargetLogParams): Promise<void>;
+  getLatestByBatchId(pool: Pool, exportBatchId: string): Promise<ExportTargetLogRecord | null>;
+  /** Latest SUCCESS / PARTIAL_SUCCESS row for the form. */
+  getLatestSuccessForForm(pool: Pool, formId: number): Promise<ExportTargetLogRecord | null>;
+  getLatestForForm(pool: Pool, formId: number): Promise<ExportTargetLogRecord | null>;
+}
+
+export interface ExportTargetContext {
+  pool: Pool;
+  form: FormRecord;
+  order: OrderRecord;
+  /** User running the export (stored as the log's user_id). */
+  actor: Actor;
+  /** Order owner — user-scoped form / order queries run as this user. */
+  ownerId: string;
+  /** Requesting user's Raynet display name (JWT raynet_name), if known. */
+  raynetName: string | undefined;
+  testMode: boolean;
+  exportBatchId?: string;
+}
+
+/** Result of `validate`: the remote record plus anything `buildPayload` needs. */
+export interface ExportTargetValidation<TPrepared> {
+  externalId: number;
+  prepared: TPrepared;
+}
+
+export interface ExportTargetBuild {
+  /** Stored as request_payload by the SENDING write. */
+  requestPayload: Record<string, unknown>;
+  /** Mapping warnings; `send` may append more before the final write. */
+  warnings: ExportTargetWarning[];
+}
+
+export interface ExportTargetSendContext<TPrepared, TBuild extends ExportTargetBuild> {
+  logId: number;
+  prepared: TPrepared;
+  build: TBuild;
+  /** Rewrite request_payload + warnings mid-send (progress for polling UIs). */
+  persistProgress(requestPayload: Record<string, unknown>): Promise<void>;
+}
+
+/**
+ *   ADD        remote value is empty, the export fills it
+ *   UPDATE     remote value differs and will be overwritten
+ *   UNCHANGED  remote value already equals the new one
+ *   REMOVE     remote item the export deletes (e.g. a stale ERP product line)
+ *   UNKNOWN    the remote record could not be read
+ */
+export type ExportFieldChangeKind = "ADD" | "UPDATE" | "UNCHANGED" | "REMOVE" | "UNKNOWN";
+
+export interface ExportFieldChange {
+  /** Dot path in the payload (`customFields.Email_1181e`, `column_values.dph`, `product:<row_key>`). */
+  field: string;
+  current: unknown;
+  next: unknown;
+  change: ExportFieldChangeKind;
+}
+
+/** Result of `previewChanges`: the payload compared with the remote record. */
+export interface ExportTargetDiff {
+  currentLoaded: boolean;
+  /** Why the remote record could not be read (changes are then UNKNOWN). */
+  currentError?: string;
+  changes: ExportFieldChange[];
+}
+
+/**
+ * Dry-run of one target (POST /api/forms/:id/export/preview). Nothing is written;
+ * the object the user confirmed is stored as confirmed_preview on the job and its logs.
+ */
+export interface ExportTargetPreview {
+  target: ExportTargetId;
+  key: string;
+  label: string;
+  /** false when the export would be rejected before sending — see `error`. */
+  ok: boolean;
+  error: { message: string; code: string | null } | null;
+  external_id: number | null;
+  current_loaded: boolean;
+  current_error: string | null;
+  changes: ExportFieldChange[];
+  warnings: ExportTargetWarning[];
+  generated_at: string;
+}
+
+export type ExportSendOutcome =
+  | {
+      status: "SUCCESS" | "PARTIAL_SUCCESS";
+      responseStatus: number;
+      responseBody: Record<string, unknown>;
+    }
+  | {
+      status: "FAILED";
+      responseStatus?: number;
+      responseBody?: Record<string, unknown>;
+      errorCode: string;
+      errorMessage: string;
+      /** Message of the thrown error when it should differ from errorMessage. */
+      thrownMessage?: string;
+    };
+
+export interface ExportTarget<TPrepared = unknown, TBuild extends ExportTargetBuild = ExportTargetBuild> {
+  id: ExportTargetId;
+  /** Key in API responses (`{ raynet: …, erp: … }`) and in /export/:target. */
+  key: string;
+  /** Name used in error messages ("Only ADMF forms can be exported to …"). */
+  label: string;
+  logs: ExportTargetLogStore;
+  /**
+   * Cheap checks the enqueue route runs synchronously, so the user sees them at once
+   * instead of as a failed job (e.g. the ERP signed-contract gate).
+   */
+  assertQueueable?(params: {
+    pool: Pool;
+    form: FormRecord;
+    order: OrderRecord | null;
+    testMode: boolean;
+  }): Promise<void>;
+  /**
+   * Full pre-flight: resolve the remote record, throw BadRequestError when this form
+   * can't go to the target. Runs before the PENDING write, so rejections leave no log.
+   */
+  validate(ctx: ExportTargetContext): Promise<ExportTargetValidation<TPrepared>>;
+  /** Map the form to the target's payload(s). Non-fatal issues become warnings. */
+  buildPayload(ctx: ExportTargetContext, prepared: TPrepared): TBuild | Promise<TBuild>;
+  /**
+   * Read the remote record and diff it against the built payload for the export
+   * preview. Must not write anything; report read failures via `currentError`.
+   */
+  previewChanges?(ctx: ExportTargetContext, prepared: TPrepared, build: TBuild): Promise<ExportTargetDiff>;
+  /** response_body of a test-mode run (default: `{ testMode: true, message }`). */
+  testModeResponse?(build: TBuild): Record<string, unknown>;
+  /**
+   * Perform the remote write. Return FAILED for remote rejections; throw ApiErrors
+   * to abort without a final write, anything else goes through `classifyError`.
+   */
+  send(ctx: ExportTargetContext, sendCtx: ExportTargetSendContext<TPrepared, TBuild>): Promise<ExportSendOutcome>;
+  /** Error code + thrown message for an unexpected error out of buildPayload / send. */
+  classifyError(error: any): { code: string; message: string };
+  /** Whether a FAILED attempt with this error code is worth retrying by the queue. */
+  isTransientError(errorCode: string): boolean;
+}
+
+export interface ExportTargetResult {
+  logId: number;
+  exportedAt: Date;
+  testMode: boolean;
+  warnings: ExportTargetWarning[];
+}
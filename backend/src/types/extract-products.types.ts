@@ -4,64 +4,13 @@
  * **Pricing audit (`pricingTrace`):** see `docs/admf-pricing-trace.md` for the full schema and monitoring guidance.
  */
 
-/** Dimension math used for pricing_variant grid lookup (stored on ADMF for audit). */
-export interface AdmfPricingTraceDimensionsV1 {
-  /** Raw width string from the výrobní row (before numeric parsing). */
-  raw_width: string;
-  /** Raw height string from the výrobní row. */
-  raw_height: string;
-  /** Parsed width in mm (rounded), before ceil-to-100. */
-  input_width_mm: number;
-  /** Parsed height in mm (rounded), before ceil-to-100. */
-  input_height_mm: number;
-  /** Width after pricing tool convention (ceil to 100 mm). */
-  width_mm_ceiled: number;
-  /** Height after ceil to 100 mm. */
-  height_mm_ceiled: number;
-  /** Width used for `prices` key lookup (may equal ceiled or snapped). */
-  lookup_width_mm: number;
-  /** Height used for `prices` key lookup. */
-  lookup_height_mm: number;
-  /** True when lookup dimensions differ from ceiled (grid snap). */
-  used_dimension_snap: boolean;
-  /** Key into `dimension_pricing.prices` (`<height>_<width>`). */
-  price_key: string;
-}
+import type { AdmfPricingTraceAutomatedV1 } from "@ovt/pricing-engine";
 
 /**
- * Server-side pricing resolution snapshot (ADMF `pricingTrace.automated`).
- * Written at extract-products time; not shown in OVT UI — carried in form_json for downstream tools.
+ * Grid dimensions and the automated trace are defined in @ovt/pricing-engine so the
+ * backend and the OVT offline preview build byte-identical traces.
  */
-export interface AdmfPricingTraceAutomatedV1 {
-  resolved_at: string;
-  product_pricing_id: string;
-  /** Custom form id this line was extracted from. */
-  source_form_id: number;
-  /** Room label from výrobní form data when present. */
-  room_name?: string;
-  room_index: number;
-  row_index: number;
-  /** Null for surcharge-only variants (no dimension grid). */
-  dimensions?: AdmfPricingTraceDimensionsV1 | null;
-  pricing_variant_id: string;
-  /** When true, matched variant is surcharge-only (no dimension grid, unit_price_grid is 0). */
-  surcharge_only?: boolean;
-  /** Selector field codes → raw values used to match the variant. */
-  selector_applied: Record<string, string>;
-  /** Unit price from dimension grid (before quantity), without surcharges. 0 for surcharge-only. */
-  unit_price_grid: number;
-  ks: number;
-  /** `unit_price_grid * ks` before surcharges. */
-  line_base: number;
-  /** Sum of surcharge amounts for this line. */
-  surcharge_total: number;
-  surcharges?: Array<{ code: string; label?: string; amount: number }>;
-  surcharge_warnings?: string[];
-  /** Line totals after surcharges (sleva 0 at extraction). */
-  cena: number;
-  sleva: number;
-  cenaPoSleve: number;
-}
+export type { AdmfPricingTraceAutomatedV1, AdmfPricingTraceDimensionsV1 } from "@ovt/pricing-engine";
 
 /** One user edit to price-related fields in ADMF UI (appended in order). */
 export interface AdmfPricingManualEditV1 {
@@ -120,6 +69,13 @@ export interface ExtractedProductLine {
    * Used on ADMF for the two price-affecting columns (e.g. typ, barva / rám, lamela).
    */
   priceAffectingFields?: ExtractedPriceAffectingField[];
+  /**
+   * Size is outside the warranty range of its size_limit_variant: the line is sold without
+   * warranty and "BEZ ZÁRUKY" prints next to it on the OBJEDNÁVKA PDF.
+   */
+  bezZaruky?: boolean;
+  /** Size-limit notes in Czech (e.g. bez záruky not acknowledged in the OVT form); shown in ADMF */
+  sizeLimitWarnings?: string[];
   /** Pricing audit trail for this row (backend fills `automated`; client may append `manual_edits`). */
   pricingTrace?: AdmfPricingTraceV1;
 }
@@ -0,0 +1,82 @@
+/**
+ * Type definitions for the versioned export field mappings (field-mapping.service).
+ *
+ * A mapping says which ADMF value goes to which field of the Raynet event / ERP order
+ * and how enum values translate. The same table lives in docs/raynet-field-mapping.csv
+ * and docs/erp-field-mapping.csv, which can be imported as a new version.
+ */
+
+/** Targets whose payload is driven by a field mapping. */
+export type FieldMappingTarget = "RAYNET" | "ERP";
+
+/**
+ *   const    literal from `const:<value>` (numeric literals are sent as numbers)
+ *   string   trimmed, sent only when non-empty
+ *   number   sent when the source yields a finite number
+ *   boolean  always sent (`true` only when the source is exactly true)
+ *   enum     translated through `values`; without `values` sent as-is
+ */
+export type FieldMappingKind = "const" | "string" | "number" | "boolean" | "enum";
+
+export interface FieldMappingEntry {
+  /** form_json key, a named resolver (`computed.*`, `composed.*`, `auth.*`, …) or `const:<value>`. */
+  source: string;
+  /** Dot path in the payload: `customFields.Email_1181e`, `column_values.dph`, `status`, … */
+  target: string;
+  kind: FieldMappingKind;
+  /** enum only: ADMF value → sent value. */
+  values?: Record<string, string>;
+  /** Warn (FIELD_EMPTY) when the source is empty. */
+  required?: boolean;
+  /** business_logic column of the CSV — documentation only. */
+  note?: string;
+}
+
+export type FieldMappingOrigin = "SEED" | "CSV" | "ADMIN" | "RESTORE";
+
+/** field_mappings row. The highest version per target is the active one. */
+export interface FieldMappingVersion {
+  id: number;
+  target: FieldMappingTarget;
+  version: number;
+  entries: FieldMappingEntry[];
+  origin: FieldMappingOrigin;
+  note: string | null;
+  created_at: Date;
+}
+
+export type FieldMappingVersionSummary = Omit<FieldMappingVersion, "entries"> & { entry_count: number };
+
+export interface FieldMappingIssue {
+  /** Errors block saving; warnings are reported only. */
+  severity: "error" | "warning";
+  code:
+    | "UNKNOWN_SOURCE"
+    | "INVALID_TARGET"
+    | "DUPLICATE_TARGET"
+    | "MISSING_TARGET"
+    | "INVALID_KIND"
+    | "INVALID_VALUES"
+    | "UNKNOWN_REMOTE_FIELD"
+    | "REMOTE_ENUM_MISMATCH"
+    | "REMOTE_SCHEMA_UNAVAILABLE";
+  /** Entry index in the submitted list, when the issue belongs to one entry. */
+  index?: number;
+  target_field?: string;
+  message: string;
+}
+
+export interface FieldMappingCheck {
+  target: FieldMappingTarget;
+  version: number | null;
+  /** Whether the live Raynet custom-field schema was reached (always false for ERP). */
+  remote_checked: boolean;
+  issues: FieldMappingIssue[];
+}
+
+/** Warning raised while applying a mapping; compatible with Raynet and ERP warnings. */
+export interface FieldMappingWarning {
+  code: "ENUM_MISMATCH" | "FIELD_EMPTY";
+  field: string;
+  reason: string;
+}
@@ -0,0 +1,53 @@
+/**
+ * Type definitions for form revision history (form_revisions)
+ */
+
+/**
+ * What produced a revision.
+ * BASELINE: snapshot taken by the migration for forms that existed before history.
+ */
+export type FormRevisionSource = "BASELINE" | "CREATE" | "UPDATE" | "RESTORE";
+
+/** Revision without its form_json (list view) */
+export interface FormRevisionSummary {
+  id: number;
+  form_id: number;
+  revision: number;
+  user_id: string;
+  source: FormRevisionSource;
+  restored_from_revision: number | null;
+  created_at: Date;
+}
+
+/** Revision including the stored form_json */
+export interface FormRevisionRecord extends FormRevisionSummary {
+  form_json: Record<string, any>;
+}
+
+/** Passed down to the forms write so the revision row records how it was made */
+export interface FormRevisionWriteMeta {
+  source: Exclude<FormRevisionSource, "BASELINE" | "CREATE">;
+  restored_from_revision?: number | null;
+}
+
+export type FormRevisionChangeKind = "added" | "removed" | "changed";
+
+/**
+ * One difference between two revisions.
+ * `path` uses row / room ids (not indexes) so it stays stable when rows move;
+ * `label` is the Czech, human-readable location ("Řádek 3 › ks").
+ */
+export interface FormRevisionChange {
+  kind: FormRevisionChangeKind;
+  path: string[];
+  label: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface FormRevisionDiff {
+  form_id: number;
+  from_revision: number;
+  to_revision: number;
+  changes: FormRevisionChange[];
+}
@@ -21,6 +21,8 @@ export interface FormRecord {
   form_type: FormType;
   form_json: Record<string, any>;
   order_id: number | null;
+  /** Incremented on every update; used for optimistic concurrency (base_revision). */
+  revision: number;
   created_at: Date;
   updated_at: Date;
   deleted_at: Date | null;
@@ -35,6 +37,8 @@ export interface CreateFormRequest {
   form_json: Record<string, any>;
   /** Required: order (zakázka) this form belongs to */
   order_id: number;
+  /** Optional idempotency key (UUID): a repeated create with the same key returns the form already created */
+  client_request_id?: string | null;
 }
 
 /**
@@ -42,6 +46,11 @@ export interface CreateFormRequest {
  */
 export interface UpdateFormRequest {
   form_json: Record<string, any>;
+  /**
+   * Revision the client loaded. When present, the save is rejected with 409 if
+   * the form was changed in the meantime. Omitted → unconditional overwrite.
+   */
+  base_revision?: number;
 }
 
 /**
@@ -0,0 +1,103 @@
+/**
+ * Subset of the inSign REST API (OpenAPI v3.76) used by the contract signing flow.
+ * Field names follow the API verbatim (including its German/misspelled ones).
+ */
+
+export interface InsignSignatureField {
+  id: string;
+  role?: string;
+  displayname?: string;
+  required?: boolean;
+  signatureLevel?: "SES" | "AES" | "QES";
+  /** Text in the PDF the signature field is placed over. */
+  textsearch?: string;
+  posindex?: number;
+}
+
+export interface InsignDocumentInput {
+  id: string;
+  displayname: string;
+  /** PDF as base64 (no data: prefix). */
+  file: string;
+  signatures: InsignSignatureField[];
+}
+
+export interface InsignConfigureSessionInput {
+  displayname: string;
+  foruser: string;
+  documents: InsignDocumentInput[];
+  /** Browser redirect after the signing UI is closed. */
+  callbackURL?: string;
+  /** Server-side callback (webhook). */
+  serverSidecallbackURL?: string;
+  serversideCallbackMethod?: "GET" | "POST" | "PUT";
+  serversideCallbackContenttype?: "json" | "form";
+  serversideCallbackUsername?: string;
+  serversideCallbackPassword?: string;
+}
+
+export interface InsignConfigureSessionResult {
+  sessionid?: string;
+  accessURL?: string;
+  error?: number;
+  message?: string;
+}
+
+export interface InsignExternUserInput {
+  recipient: string;
+  recipientsms?: string;
+  roles: string[];
+  sendEmails: boolean;
+  sendSMS: boolean;
+  mailLanguage?: string;
+  userType?: "signatory" | "watcher" | "examiner";
+  orderNumber?: number;
+}
+
+export interface InsignExternMultiuserInput {
+  sessionid: string;
+  externUsers: InsignExternUserInput[];
+  inOrder?: boolean;
+}
+
+export interface InsignExternUserResult {
+  externUser?: string;
+  externAccessLink?: string;
+  orderNumber?: number;
+  error?: number;
+  message?: string;
+}
+
+export interface InsignExternMultiuserResult {
+  externUsers?: InsignExternUserResult[];
+  error?: number;
+  message?: string;
+}
+
+export interface InsignCheckStatusResult {
+  sessionid?: string;
+  status?: string;
+  processStep?: string;
+  completed?: boolean;
+  numberOfSignaturesNeeded?: number;
+  numberOfSignaturesNeededDone?: number;
+  error?: number;
+  message?: string;
+}
+
+export interface InsignSessionStatusResult {
+  sessionid?: string;
+  /** Misspelled in the API. */
+  sucessfullyCompleted?: boolean;
+  numberOfMandatorySignatureFields?: number;
+  numberOfMandatorySignatures?: number;
+  gdprDeclined?: boolean;
+  error?: number;
+  message?: string;
+}
+
+export interface InsignDownload {
+  filename: string;
+  contentType: string;
+  buffer: Buffer;
+}
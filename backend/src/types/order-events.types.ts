@@ -0,0 +1,66 @@
+/**
+ * Type definitions for the order timeline (order_events + order_activity_log)
+ */
+
+import type { OrderActivityKind } from "./raynet-order-sync.types";
+
+/** What happened — order_events.kind */
+export type OrderEventKind =
+  | "ORDER_CREATED"
+  | "ORDER_REASSIGNED"
+  | "ORDER_SHARED"
+  | "ORDER_UNSHARED"
+  | "FORM_CREATED"
+  | "FORM_UPDATED"
+  | "FORM_RESTORED"
+  | "FORM_DELETED"
+  | "ADMF_PDF_GENERATED"
+  | "EXPORT"
+  | "RETENTION_REQUEST"
+  | "ATTACHMENT_UPLOADED"
+  | "ATTACHMENT_DELETED"
+  | "NOTES_PUSHED_TO_RAYNET";
+
+/** Outcome of EXPORT / RETENTION_REQUEST events */
+export type OrderEventStatus = "SUCCESS" | "PARTIAL_SUCCESS" | "FAILED";
+
+export interface RecordOrderEventParams {
+  order_id: number;
+  form_id?: number | null;
+  kind: OrderEventKind;
+  /** User who did it; null for background work. */
+  actor: string | null;
+  status?: OrderEventStatus | null;
+  /** Short display summary — not a full request body. */
+  payload?: Record<string, unknown>;
+}
+
+/**
+ * One timeline entry. Raynet sync rows (order_activity_log) are merged in with
+ * `source: "RAYNET_SYNC"` and their changes as payload.
+ */
+export interface OrderTimelineEntry {
+  /** Unique across both sources: `event:<id>` / `activity:<id>` */
+  id: string;
+  source: "ORDER_EVENT" | "RAYNET_SYNC";
+  kind: OrderEventKind | OrderActivityKind;
+  order_id: number;
+  form_id: number | null;
+  actor: string | null;
+  status: string | null;
+  payload: Record<string, unknown>;
+  created_at: Date;
+}
+
+export interface OrderTimelineQuery {
+  /** Default 100, max 500 */
+  limit?: number;
+  /** Only entries older than this (paging) */
+  before?: Date;
+}
+
+export interface OrderTimelineResponse {
+  entries: OrderTimelineEntry[];
+  /** Pass as `before` to load older entries; null when there are none. */
+  next_before: string | null;
+}
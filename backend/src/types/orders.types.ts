@@ -3,6 +3,12 @@
  * Order = one customer; forms belong to an order.
  */
 
+import type { RaynetSyncConflict } from "./raynet-order-sync.types";
+import type { OrderListScope } from "./access.types";
+
+/** Signing state of the order's ADMF contract (latest inSign session). */
+export type OrderContractStatus = "UNSIGNED" | "PENDING" | "SIGNED" | "REJECTED";
+
 /**
  * Order record as stored in database
  */
@@ -20,6 +26,21 @@ export interface OrderRecord {
   source_raynet_event_id: number | null;
   source_erp_order_id: number | null;
   notes: string | null;
+  contract_status: OrderContractStatus;
+  contract_signed_at: Date | null;
+  /** Set when ERP export was allowed without a signed contract. */
+  erp_export_override_reason: string | null;
+  erp_export_override_by: string | null;
+  erp_export_override_at: Date | null;
+  /** Zaměření slot and status of the linked Raynet event (kept in sync, read-only here). */
+  raynet_scheduled_from: Date | null;
+  raynet_scheduled_till: Date | null;
+  raynet_event_status: string | null;
+  raynet_synced_at: Date | null;
+  /** Raynet changes not applied because the field was edited locally. */
+  raynet_sync_conflicts: RaynetSyncConflict[];
+  /** Customer master record (customers.id); the fields above are this order's snapshot. */
+  customer_id: number | null;
   created_at: Date;
   updated_at: Date;
   deleted_at: Date | null;
@@ -40,6 +61,10 @@ export interface CreateOrderRequest {
   source_raynet_event_id?: number;
   source_erp_order_id?: number;
   notes?: string;
+  /** Existing customer master record; when omitted the customer is matched / created from the fields above. */
+  customer_id?: number;
+  /** IČO of a company customer (deduplication key, kept on the customer record). */
+  ico?: string;
 }
 
 /**
@@ -58,6 +83,8 @@ export interface UpdateOrderRequest {
   source_raynet_event_id?: number | null;
   source_erp_order_id?: number | null;
   notes?: string | null;
+  /** undefined = keep existing customer link; null = unlink. */
+  customer_id?: number | null;
 }
 
 /**
@@ -66,6 +93,10 @@ export interface UpdateOrderRequest {
 export interface ListOrdersQuery {
   page?: number;
   limit?: number;
+  /** "mine" (default) = own orders; "accessible" = every order the user can open */
+  scope?: OrderListScope;
+  /** Only orders of this customer master record */
+  customer_id?: number;
 }
 
 /** Input for bulk lookup of orders by Raynet event ids. */
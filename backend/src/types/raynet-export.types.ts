@@ -2,14 +2,6 @@
  * Type definitions for Raynet export pipeline
  */
 
-export type ExportLogStatus =
-  | "PENDING"
-  | "MAPPING"
-  | "SENDING"
-  | "SUCCESS"
-  | "PARTIAL_SUCCESS"
-  | "FAILED";
-
 export type ExportErrorCode =
   | "MISSING_EVENT_ID"
   | "FORM_NOT_FOUND"
@@ -20,54 +12,23 @@ export type ExportErrorCode =
   | "RAYNET_TIMEOUT"
   | "RAYNET_SERVER_ERROR"
   | "RAYNET_CONFIG_MISSING"
+  | "EXPORT_INTERRUPTED"
+  | "RECONCILE_NOT_APPLIED"
+  | "RECONCILE_UNVERIFIED"
   | "UNKNOWN_ERROR";
 
 export interface ExportWarning {
-  code: "FIELD_SKIPPED" | "FIELD_TRUNCATED" | "FIELD_EMPTY" | "ENUM_MISMATCH";
+  code:
+    | "FIELD_SKIPPED"
+    | "FIELD_TRUNCATED"
+    | "FIELD_EMPTY"
+    | "ENUM_MISMATCH"
+    | "RECONCILED"
+    | "ATTACHMENTS_UNVERIFIED";
   field: string;
   reason: string;
 }
 
-export interface ExportLogRecord {
-  id: number;
-  form_id: number;
-  order_id: number;
-  raynet_event_id: number;
-  user_id: string;
-  status: ExportLogStatus;
-  test_mode: boolean;
-  request_payload: Record<string, unknown> | null;
-  response_status: number | null;
-  response_body: Record<string, unknown> | null;
-  error_message: string | null;
-  error_code: string | null;
-  warnings: ExportWarning[] | null;
-  duration_ms: number | null;
-  created_at: Date;
-  completed_at: Date | null;
-}
-
-export interface CreateExportLogParams {
-  form_id: number;
-  order_id: number;
-  raynet_event_id: number;
-  user_id: string;
-  test_mode: boolean;
-  export_batch_id?: string;
-}
-
-export interface UpdateExportLogParams {
-  status?: ExportLogStatus;
-  request_payload?: Record<string, unknown>;
-  response_status?: number;
-  response_body?: Record<string, unknown>;
-  error_message?: string;
-  error_code?: ExportErrorCode;
-  warnings?: ExportWarning[];
-  duration_ms?: number;
-  completed_at?: Date;
-}
-
 /** The Raynet event update payload we build from ADMF data */
 export interface RaynetEventUpdatePayload {
   category: number;
@@ -77,6 +38,8 @@ export interface RaynetEventUpdatePayload {
 
 export interface ExportRaynetRequest {
   testMode?: boolean;
+  /** Previews the user confirmed, keyed by target key (`raynet`, `erp`) — see /export/preview. */
+  confirmedPreview?: Record<string, unknown>;
 }
 
 export interface ExportRaynetResponse {
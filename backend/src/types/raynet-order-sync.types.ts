@@ -0,0 +1,105 @@
+/**
+ * Type definitions for the Raynet → orders sync (raynet-order-sync.service).
+ *
+ * Linked orders (source_raynet_event_id) are refreshed from the Raynet event by the
+ * webhook and by a periodic pull. Customer fields the rep may edit locally are merged
+ * three-way against `orders.raynet_snapshot`; Raynet-owned fields are always copied.
+ */
+
+/** Order customer fields filled from the Raynet event, which the rep may also edit. */
+export type RaynetSyncedOrderField = "name" | "address" | "city" | "zipcode" | "phone" | "raynet_id";
+
+/** Customer field values as last read from Raynet (orders.raynet_snapshot). */
+export type RaynetOrderSnapshot = Partial<Record<RaynetSyncedOrderField, string | number | null>>;
+
+/** Open conflict: Raynet changed a field the rep had edited locally (orders.raynet_sync_conflicts). */
+export interface RaynetSyncConflict {
+  field: RaynetSyncedOrderField;
+  local: string | number | null;
+  raynet: string | number | null;
+  /** Raynet value the local edit was based on. */
+  previous_raynet: string | number | null;
+  detected_at: string;
+}
+
+export type RaynetOrderSyncSource = "WEBHOOK" | "PULL";
+
+export type OrderActivityKind = "RAYNET_SYNC" | "RAYNET_CONFLICT" | "RAYNET_CONFLICT_RESOLVED";
+
+export type OrderActivitySource = RaynetOrderSyncSource | "USER";
+
+export interface OrderActivityChange {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+  local?: unknown;
+  raynet?: unknown;
+}
+
+/** order_activity_log row */
+export interface OrderActivityRecord {
+  id: number;
+  order_id: number;
+  kind: OrderActivityKind;
+  source: OrderActivitySource;
+  actor: string | null;
+  raynet_event_id: number | null;
+  changes: OrderActivityChange[];
+  created_at: Date;
+}
+
+export interface CreateOrderActivityParams {
+  order_id: number;
+  kind: OrderActivityKind;
+  source: OrderActivitySource;
+  actor?: string | null;
+  raynet_event_id?: number | null;
+  changes: OrderActivityChange[];
+}
+
+/** Linked order as the sync reads it (no user scope — the sync runs without a user). */
+export interface RaynetSyncOrderRow {
+  id: number;
+  source_raynet_event_id: number;
+  name: string | null;
+  address: string | null;
+  city: string | null;
+  zipcode: string | null;
+  phone: string | null;
+  raynet_id: number | null;
+  raynet_scheduled_from: Date | null;
+  raynet_scheduled_till: Date | null;
+  raynet_event_status: string | null;
+  raynet_snapshot: RaynetOrderSnapshot | null;
+  raynet_sync_conflicts: RaynetSyncConflict[];
+}
+
+export interface ApplyRaynetOrderSyncParams {
+  /** Only the customer fields to overwrite. */
+  fields: Partial<Record<RaynetSyncedOrderField, string | number | null>>;
+  /** Raynet local datetimes (`YYYY-MM-DD HH:mm`, Europe/Prague). */
+  raynet_scheduled_from: string | null;
+  raynet_scheduled_till: string | null;
+  raynet_event_status: string | null;
+  raynet_snapshot: RaynetOrderSnapshot;
+  raynet_sync_conflicts: RaynetSyncConflict[];
+}
+
+export type RaynetOrderSyncOutcome = "UPDATED" | "CONFLICT" | "UNCHANGED" | "BASELINED";
+
+export interface RaynetOrderSyncItem {
+  order_id: number;
+  raynet_event_id: number;
+  outcome: RaynetOrderSyncOutcome;
+  changed: string[];
+  conflicts: RaynetSyncedOrderField[];
+}
+
+export interface RaynetOrderSyncSummary {
+  source: RaynetOrderSyncSource;
+  started_at: Date;
+  finished_at: Date;
+  /** Events read from Raynet. */
+  events: number;
+  items: RaynetOrderSyncItem[];
+}
@@ -7,7 +7,8 @@ export type RetentionLogStatus =
   | "SENDING"
   | "SUCCESS"
   | "PARTIAL_SUCCESS"
-  | "FAILED";
+  | "FAILED"
+  | "UNKNOWN";
 
 export type RetentionErrorCode =
   | "RETENCE_PRODUCTION_NOT_AVAILABLE"
@@ -26,6 +27,9 @@ export type RetentionErrorCode =
   | "ERP_TIMEOUT"
   | "ERP_SERVER_ERROR"
   | "ERP_CONFIG_MISSING"
+  | "EXPORT_INTERRUPTED"
+  | "RECONCILE_NOT_APPLIED"
+  | "RECONCILE_UNVERIFIED"
   | "UNKNOWN_ERROR";
 
 export type RetentionWarningCode =
@@ -62,6 +62,24 @@ export class ConflictError extends ApiError {
   }
 }
 
+/**
+ * Stale write (409) — carries the current server copy so the client can resolve the conflict
+ */
+export class StaleWriteError extends ConflictError {
+  constructor(message: string, public current: unknown, code: string = "STALE_WRITE") {
+    super(message, code);
+  }
+}
+
+/**
+ * Invalid input (400) — carries per-item issues so the client can point at the bad rows
+ */
+export class ValidationIssuesError extends BadRequestError {
+  constructor(message: string, public issues: unknown[], code: string = "VALIDATION_FAILED") {
+    super(message, code);
+  }
+}
+
 /**
  * Service unavailable (503) — e.g. object storage not configured
  */
@@ -0,0 +1,73 @@
+/**
+ * Field-level comparison of an export payload with the remote record it overwrites.
+ * Used by the export preview (Raynet event / ERP order diff) and the export reconciler.
+ */
+
+import type { ExportFieldChange } from "../types/export-target.types";
+
+export function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
+
+/**
+ * Comparable form of a field value: numbers and numeric strings compare by value,
+ * enum / lookup objects by their `value` / `name` / `code`, empty means null.
+ */
+export function normalizeFieldValue(value: unknown): string {
+  if (value == null) return "";
+  const nested = asRecord(value);
+  // Enum / lookup fields may come back as { value } or { name } objects.
+  if (nested) return normalizeFieldValue(nested.value ?? nested.name ?? nested.code ?? null);
+  if (typeof value === "number") return String(value);
+  if (typeof value === "boolean") return value ? "true" : "false";
+  const text = String(value).trim();
+  const numeric = Number(text.replace(",", "."));
+  return text !== "" && Number.isFinite(numeric) ? String(numeric) : text;
+}
+
+/** Leaf values of a payload keyed by dot path (`customFields.Email_1181e`). Arrays are leaves. */
+export function flattenPayload(payload: object, prefix = ""): Map<string, unknown> {
+  const out = new Map<string, unknown>();
+  for (const [key, value] of Object.entries(payload)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const nested = asRecord(value);
+    if (nested) {
+      for (const [p, v] of flattenPayload(nested, path)) out.set(p, v);
+    } else {
+      out.set(path, value);
+    }
+  }
+  return out;
+}
+
+function readPath(record: Record<string, unknown>, path: string): unknown {
+  let current: unknown = record;
+  for (const key of path.split(".")) {
+    const nested = asRecord(current);
+    if (!nested) return undefined;
+    current = nested[key];
+  }
+  return current;
+}
+
+/**
+ * One change per payload leaf. `current` null means the remote record couldn't be
+ * read — every field is then UNKNOWN.
+ */
+export function diffPayloadFields(
+  payload: object,
+  current: Record<string, unknown> | null
+): ExportFieldChange[] {
+  return [...flattenPayload(payload)].map(([field, next]) => {
+    if (!current) return { field, current: null, next, change: "UNKNOWN" };
+    const currentValue = readPath(current, field) ?? null;
+    const currentNorm = normalizeFieldValue(currentValue);
+    const nextNorm = normalizeFieldValue(next);
+    // Lookups (category, …) are written by id but read back as { id, value }.
+    const lookupId = asRecord(currentValue)?.id;
+    if (currentNorm === nextNorm || (lookupId != null && normalizeFieldValue(lookupId) === nextNorm)) {
+      return { field, current: currentValue, next, change: "UNCHANGED" };
+    }
+    return { field, current: currentValue, next, change: currentNorm === "" ? "ADD" : "UPDATE" };
+  });
+}
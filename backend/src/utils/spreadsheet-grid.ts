@@ -0,0 +1,302 @@
+/**
+ * Minimal spreadsheet readers for admin imports (manufacturer price lists).
+ * Both return the sheet as rows of trimmed cell strings ("" for empty cells), so
+ * callers treat CSV and XLSX alike.
+ *
+ *   - CSV: RFC 4180 quoting; the delimiter (`;`, `,` or tab) is detected from the
+ *     first non-empty line (Czech exports use `;` with decimal commas).
+ *   - XLSX: reads the zip directly (stored / deflate entries via node:zlib) and the
+ *     worksheet XML; shared strings, inline strings, numbers and booleans only —
+ *     formulas contribute their cached value, styles and dates are ignored.
+ *     Inflated sizes are capped (MAX_ENTRY_BYTES per entry, MAX_ZIP_BYTES in total),
+ *     so a small upload cannot expand into gigabytes.
+ */
+
+import { inflateRawSync } from "node:zlib";
+
+export type SpreadsheetRows = string[][];
+
+export type DecimalSeparator = "," | ".";
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/).find((l) => l.trim() !== "") ?? "";
+  let best = ";";
+  let bestCount = 0;
+  for (const candidate of [";", "\t", ","]) {
+    const count = firstLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+export function parseCsv(text: string): SpreadsheetRows {
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const delimiter = detectDelimiter(source);
+  const rows: SpreadsheetRows = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && cell.trim() === "") {
+      quoted = true;
+      cell = "";
+    } else if (ch === delimiter) {
+      row.push(cell.trim());
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && source[i + 1] === "\n") i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+  return rows;
+}
+
+// ---------------------------------------------------------------------------
+// XLSX
+// ---------------------------------------------------------------------------
+
+/** Largest uncompressed zip entry accepted (worksheet XML of a big price list is a few MB). */
+const MAX_ENTRY_BYTES = 32 * 1024 * 1024;
+/** Largest uncompressed total over all entries. */
+const MAX_ZIP_BYTES = 64 * 1024 * 1024;
+
+/** Entries of a zip archive by name (central directory; no zip64, no encryption). */
+function readZipEntries(buf: Buffer): Map<string, Buffer> {
+  let eocd = -1;
+  for (let i = buf.length - 22; i >= Math.max(0, buf.length - 22 - 0xffff); i--) {
+    if (buf.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error("Not a zip archive (XLSX expected)");
+
+  const count = buf.readUInt16LE(eocd + 10);
+  let offset = buf.readUInt32LE(eocd + 16);
+  const out = new Map<string, Buffer>();
+  let totalBytes = 0;
+  for (let n = 0; n < count; n++) {
+    if (buf.readUInt32LE(offset) !== 0x02014b50) throw new Error("Corrupt zip central directory");
+    const method = buf.readUInt16LE(offset + 10);
+    const compressedSize = buf.readUInt32LE(offset + 20);
+    const uncompressedSize = buf.readUInt32LE(offset + 24);
+    const nameLength = buf.readUInt16LE(offset + 28);
+    const extraLength = buf.readUInt16LE(offset + 30);
+    const commentLength = buf.readUInt16LE(offset + 32);
+    const localOffset = buf.readUInt32LE(offset + 42);
+    const name = buf.toString("utf8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (buf.readUInt32LE(localOffset) !== 0x04034b50) throw new Error(`Corrupt zip entry: ${name}`);
+    const dataStart =
+      localOffset + 30 + buf.readUInt16LE(localOffset + 26) + buf.readUInt16LE(localOffset + 28);
+    const data = buf.subarray(dataStart, dataStart + compressedSize);
+    if (method !== 0 && method !== 8) continue; // other methods never occur in XLSX files
+    // The declared size is checked up front; maxOutputLength catches entries that lie about it.
+    const limit = Math.min(MAX_ENTRY_BYTES, MAX_ZIP_BYTES - totalBytes);
+    if (uncompressedSize > limit) throw new Error(`Zip entry too large: ${name}`);
+    let content: Buffer;
+    try {
+      content = method === 0 ? data : inflateRawSync(data, { maxOutputLength: limit });
+    } catch (e) {
+      if (e instanceof RangeError) throw new Error(`Zip entry too large: ${name}`);
+      throw e;
+    }
+    if (content.length > limit) throw new Error(`Zip entry too large: ${name}`);
+    totalBytes += content.length;
+    out.set(name, content);
+  }
+  return out;
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1] === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" }[entity] ?? "";
+  });
+}
+
+/** Concatenated text of every <t> element (rich-text runs are split across several). */
+function textRuns(xml: string): string {
+  let out = "";
+  for (const m of xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)) out += decodeXml(m[1]);
+  return out;
+}
+
+function attr(attrs: string, name: string): string | null {
+  const m = new RegExp(`\\b${name}="([^"]*)"`).exec(attrs);
+  return m ? decodeXml(m[1]) : null;
+}
+
+/** Zero-based column index of a cell reference ("B7" → 1). */
+function columnIndex(ref: string): number {
+  const letters = /^[A-Z]+/.exec(ref)?.[0] ?? "";
+  let index = 0;
+  for (const ch of letters) index = index * 26 + (ch.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+/** Worksheet path of the named sheet (first sheet when no name is given). */
+function worksheetPath(entries: Map<string, Buffer>, sheetName: string | undefined): string {
+  const workbook = entries.get("xl/workbook.xml")?.toString("utf8");
+  const rels = entries.get("xl/_rels/workbook.xml.rels")?.toString("utf8");
+  if (!workbook || !rels) throw new Error("Not an XLSX workbook");
+
+  const sheets = [...workbook.matchAll(/<sheet\b([^>]*?)\/?>/g)].map((m) => ({
+    name: attr(m[1], "name") ?? "",
+    relId: attr(m[1], "r:id") ?? "",
+  }));
+  const sheet = sheetName ? sheets.find((s) => s.name === sheetName) : sheets[0];
+  if (!sheet) {
+    throw new Error(
+      sheetName
+        ? `Sheet "${sheetName}" not found (sheets: ${sheets.map((s) => s.name).join(", ")})`
+        : "Workbook has no sheets"
+    );
+  }
+  for (const m of rels.matchAll(/<Relationship\b([^>]*?)\/?>/g)) {
+    if (attr(m[1], "Id") !== sheet.relId) continue;
+    const target = attr(m[1], "Target") ?? "";
+    return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+  }
+  throw new Error(`Sheet "${sheet.name}" has no worksheet part`);
+}
+
+export function parseXlsx(buf: Buffer, opts: { sheet?: string } = {}): SpreadsheetRows {
+  const entries = readZipEntries(buf);
+  const sharedXml = entries.get("xl/sharedStrings.xml")?.toString("utf8") ?? "";
+  const shared = [...sharedXml.matchAll(/<si>([\s\S]*?)<\/si>/g)].map((m) => textRuns(m[1]));
+
+  const path = worksheetPath(entries, opts.sheet);
+  const sheetXml = entries.get(path)?.toString("utf8");
+  if (!sheetXml) throw new Error(`Worksheet part missing: ${path}`);
+
+  const rows: SpreadsheetRows = [];
+  for (const rowMatch of sheetXml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(attr(rowMatch[1], "r")) || rows.length + 1;
+    const row: string[] = [];
+    for (const cellMatch of (rowMatch[2] ?? "").matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const ref = attr(cellMatch[1], "r");
+      const col = ref ? columnIndex(ref) : row.length;
+      const type = attr(cellMatch[1], "t");
+      const body = cellMatch[2] ?? "";
+      const raw = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+      let value = "";
+      if (type === "s") value = raw != null ? (shared[Number(raw)] ?? "") : "";
+      else if (type === "inlineStr") value = textRuns(body);
+      else if (type === "b") value = raw === "1" ? "TRUE" : "FALSE";
+      else value = raw != null ? decodeXml(raw) : "";
+      while (row.length < col) row.push("");
+      row[col] = value.trim();
+    }
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows[rowNumber - 1] = row;
+  }
+  return rows;
+}
+
+/** XLSX by zip signature, CSV otherwise (the file name / mime type is not trusted). */
+export function parseSpreadsheet(buf: Buffer, opts: { sheet?: string } = {}): SpreadsheetRows {
+  if (buf.length >= 4 && buf.readUInt32LE(0) === 0x04034b50) return parseXlsx(buf, opts);
+  return parseCsv(buf.toString("utf8"));
+}
+
+/** Digits and separators of a cell holding one number ("1 234,50 Kč" → "1234,50"), else null. */
+function numericCore(text: string): string | null {
+  const m = /^[^\d]*?(-?[\d\s\u00a0.,]*\d[\d\s\u00a0.,]*)[^\d]*$/.exec(text);
+  return m ? m[1].replace(/[^\d.,-]/g, "") : null;
+}
+
+/**
+ * A lone separator followed by exactly three digits after a 1–3 digit group ("1.234",
+ * "2,500") is either a decimal or a thousands separator.
+ */
+function ambiguousSeparator(core: string): DecimalSeparator | null {
+  const m = /^-?[1-9]\d{0,2}([.,])\d{3}$/.exec(core);
+  return m ? (m[1] as DecimalSeparator) : null;
+}
+
+/** True when the cell is a number only once the file's decimal separator is known. */
+export function isAmbiguousCellNumber(text: string): boolean {
+  const core = numericCore(text);
+  return core != null && ambiguousSeparator(core) != null;
+}
+
+/**
+ * Decimal separator of the sheet, from the cells that can only be read one way
+ * ("12,5", "1.234,50", "99.90", "1.234.567"). Null when no cell decides it or cells
+ * disagree.
+ */
+export function detectDecimalSeparator(rows: SpreadsheetRows): DecimalSeparator | null {
+  const seen = new Set<DecimalSeparator>();
+  for (const row of rows) {
+    for (const cell of row) {
+      const core = numericCore(cell);
+      if (core == null || ambiguousSeparator(core)) continue;
+      const lastComma = core.lastIndexOf(",");
+      const lastDot = core.lastIndexOf(".");
+      if (lastComma >= 0 && lastDot >= 0) seen.add(lastComma > lastDot ? "," : ".");
+      else if (lastComma >= 0) seen.add(core.split(",").length > 2 ? "." : ",");
+      else if (lastDot >= 0) seen.add(core.split(".").length > 2 ? "," : ".");
+    }
+  }
+  return seen.size === 1 ? [...seen][0] : null;
+}
+
+/**
+ * Number from a cell as manufacturers write it: "1 234,50 Kč", "1.234,5", "1234.5",
+ * "1,234.50". With both separators the last one is the decimal separator; a repeated
+ * one groups thousands. A lone separator is the decimal separator, except for the
+ * ambiguous "1.234" / "2,500" shape: that one is read with `decimal` (the file's
+ * separator, see detectDecimalSeparator) and is null without it. Null when not numeric.
+ */
+export function parseCellNumber(text: string, decimal?: DecimalSeparator): number | null {
+  let s = numericCore(text);
+  if (s == null) return null;
+  const lastComma = s.lastIndexOf(",");
+  const lastDot = s.lastIndexOf(".");
+  const ambiguous = ambiguousSeparator(s);
+  if (ambiguous) {
+    if (!decimal) return null;
+    s = ambiguous === decimal ? s.replace(ambiguous, ".") : s.replace(ambiguous, "");
+  } else if (lastComma >= 0 && lastDot >= 0) {
+    const decimalSep = lastComma > lastDot ? "," : ".";
+    const thousands = decimalSep === "," ? "." : ",";
+    s = s.split(thousands).join("").replace(decimalSep, ".");
+  } else if (lastComma >= 0) {
+    s = s.split(",").length > 2 ? s.split(",").join("") : s.replace(",", ".");
+  } else if (lastDot >= 0 && s.split(".").length > 2) {
+    s = s.split(".").join("");
+  }
+  const n = Number(s);
+  return Number.isFinite(n) ? n : null;
+}
@@ -40,6 +40,20 @@ export function validateFormJson(formJson: any): asserts formJson is Record<stri
   }
 }
 
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Validate an optional client idempotency key
+ * @param clientRequestId - UUID generated by the client, or null / undefined
+ * @throws BadRequestError if it is set but not a UUID
+ */
+export function validateClientRequestId(clientRequestId: unknown): asserts clientRequestId is string | null | undefined {
+  if (clientRequestId == null) return;
+  if (typeof clientRequestId !== "string" || !UUID_RE.test(clientRequestId)) {
+    throw new BadRequestError("client_request_id must be a UUID", "INVALID_CLIENT_REQUEST_ID");
+  }
+}
+
 /**
  * Validate user ID
  * @param userId - User ID to validate
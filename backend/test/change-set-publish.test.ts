@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { Pool } from "pg";
+import { publishChangeSet } from "../src/services/admin-change-sets.service";
+
+const CHANGE_SET_ID = "00000000-0000-0000-0000-000000000001";
+
+const ENTRY_ROW = {
+  id: "00000000-0000-0000-0000-0000000000e1",
+  change_set_id: CHANGE_SET_ID,
+  entity_kind: "pricing_variant",
+  entity_id: null,
+  action: "create",
+  draft_payload: { product_pricing_id: "pp-zaluzie", name: "Nová varianta", selector: {} },
+  base_updated_at: null,
+  base_snapshot: null,
+  publish_snapshot: null,
+  created_at: new Date(0),
+  updated_at: new Date(0),
+};
+
+/**
+ * Pricing pool whose pre-transaction read sees a draft, while the transaction sees
+ * `lockedStatus` (another publisher got there in between). Records every statement.
+ */
+function fakePricingPool(opts: { lockedStatus: string; publishRowCount: number }) {
+  const statements: string[] = [];
+  const answer = (sql: string) => {
+    statements.push(sql.trim().split(/\s+/).slice(0, 4).join(" "));
+    if (sql.includes("FROM change_set WHERE id = $1 FOR UPDATE")) {
+      return { rows: [{ status: opts.lockedStatus }], rowCount: 1 };
+    }
+    if (sql.includes("FROM change_set WHERE id = $1")) {
+      return { rows: [{ id: CHANGE_SET_ID, name: "Ceník 2027", status: "draft", created_at: new Date(0) }] };
+    }
+    if (sql.includes("FROM change_set_entry")) return { rows: [ENTRY_ROW] };
+    if (sql.includes("INSERT INTO pricing_variant")) return { rows: [{ id: "pv-new" }], rowCount: 1 };
+    if (sql.includes("SET status = 'published'")) {
+      return { rows: opts.publishRowCount ? [{ published_at: new Date(0) }] : [], rowCount: opts.publishRowCount };
+    }
+    return { rows: [], rowCount: 0 };
+  };
+  const client = { query: async (sql: string) => answer(sql), release() {} };
+  const pool = { query: async (sql: string) => answer(sql), connect: async () => client };
+  return { pool: pool as unknown as Pool, statements };
+}
+
+describe("publishChangeSet", () => {
+  it("locks the change-set and stops when it is no longer a draft", async () => {
+    const { pool, statements } = fakePricingPool({ lockedStatus: "published", publishRowCount: 1 });
+    const result = await publishChangeSet(pool, null, CHANGE_SET_ID);
+    assert.deepEqual(result, { ok: false, error: "Change-set is published, cannot publish" });
+    assert.ok(statements.includes("ROLLBACK"));
+    assert.ok(!statements.some((s) => s.startsWith("INSERT") || s.startsWith("UPDATE")));
+  });
+
+  it("rolls back when the final status update matches no draft", async () => {
+    const { pool, statements } = fakePricingPool({ lockedStatus: "draft", publishRowCount: 0 });
+    const result = await publishChangeSet(pool, null, CHANGE_SET_ID);
+    assert.equal(result.ok, false);
+    assert.ok(statements.includes("ROLLBACK"));
+    assert.ok(!statements.includes("COMMIT"));
+  });
+
+  it("publishes a draft", async () => {
+    const { pool, statements } = fakePricingPool({ lockedStatus: "draft", publishRowCount: 1 });
+    const result = await publishChangeSet(pool, null, CHANGE_SET_ID);
+    assert.deepEqual(result, { ok: true, published_at: new Date(0).toISOString() });
+    assert.ok(statements.includes("COMMIT"));
+  });
+});
@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { proposedPayloadForProduct, type ChangeSetEntryRecord } from "../src/services/admin-change-sets.service";
+
+const PRICING_ID = "00000000-0000-0000-0000-0000000000a1";
+
+function entry(
+  entity_kind: ChangeSetEntryRecord["entity_kind"],
+  entity_id: string,
+  draft_payload: Record<string, unknown>
+): ChangeSetEntryRecord {
+  return {
+    id: `${entity_kind}-${entity_id}`,
+    change_set_id: "00000000-0000-0000-0000-000000000001",
+    entity_kind,
+    entity_id,
+    action: "update",
+    draft_payload,
+    base_updated_at: null,
+    base_snapshot: null,
+    publish_snapshot: null,
+    created_at: "2026-10-01T00:00:00Z",
+    updated_at: "2026-10-01T00:00:00Z",
+  };
+}
+
+const structure = entry("form_structure", "ZALUZIE", {
+  validated_payload: {
+    product_code: "ZALUZIE",
+    form_body: { Properties: [{ Code: "barva" }, { Code: "ovladani" }] },
+    enums: { barva: { default: [{ code: "bila" }] } },
+  },
+});
+
+describe("proposedPayloadForProduct", () => {
+  it("merges the product_pricing draft over the form_structure draft of the same code", () => {
+    const pricing = entry("product_pricing", PRICING_ID, {
+      payload: { enums: { barva: { default: [{ code: "bila" }, { code: "cerna" }] } } },
+      price_affecting_enums: ["barva"],
+    });
+    const proposed = proposedPayloadForProduct([pricing, structure], PRICING_ID, "ZALUZIE");
+    assert.deepEqual(proposed, {
+      product_code: "ZALUZIE",
+      form_body: { Properties: [{ Code: "barva" }, { Code: "ovladani" }] },
+      enums: { barva: { default: [{ code: "bila" }, { code: "cerna" }] } },
+      price_affecting_enums: ["barva"],
+    });
+  });
+
+  it("uses whichever draft exists and nothing when the set edits neither", () => {
+    assert.deepEqual(
+      proposedPayloadForProduct([structure], PRICING_ID, "ZALUZIE")?.form_body,
+      { Properties: [{ Code: "barva" }, { Code: "ovladani" }] }
+    );
+    assert.equal(proposedPayloadForProduct([structure], PRICING_ID, "ROLETA"), undefined);
+  });
+});
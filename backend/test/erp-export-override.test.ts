@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { Pool } from "pg";
+import { setErpExportOverride } from "../src/services/contract-signing.service";
+import type { Actor } from "../src/types/access.types";
+import { ForbiddenError } from "../src/utils/errors";
+
+const OWNER = "rep@example.com";
+const FORM_ID = 501;
+const ORDER_ID = 77;
+
+/** Pool with one ADMF (form 501) on order 77 owned by OWNER; records every statement. */
+function fakePool() {
+  const statements: Array<{ sql: string; params: unknown[] }> = [];
+  const order = { id: ORDER_ID, user_id: OWNER, contract_status: "UNSIGNED", created_at: new Date(0), updated_at: new Date(0) };
+  const pool = {
+    async query(sql: string, params: unknown[] = []) {
+      statements.push({ sql, params });
+      if (sql.includes("FROM forms") && sql.includes("owner_user_id")) {
+        return { rows: [{ form_id: FORM_ID, order_id: ORDER_ID, owner_user_id: OWNER }] };
+      }
+      if (sql.includes("FROM forms")) {
+        return {
+          rows: [{ id: FORM_ID, user_id: OWNER, order_id: ORDER_ID, form_type: "admf", form_json: {}, revision: 3 }],
+        };
+      }
+      if (sql.includes("UPDATE orders")) {
+        return { rows: [{ ...order, erp_export_override_reason: params[0], erp_export_override_by: params[3] }] };
+      }
+      if (sql.includes("FROM orders")) return { rows: [order] };
+      if (sql.includes("FROM signing_sessions")) return { rows: [] };
+      if (sql.includes("order_access_audit")) return { rows: [] };
+      throw new Error(`Unexpected query: ${sql}`);
+    },
+  };
+  return { pool: pool as unknown as Pool, statements };
+}
+
+describe("setErpExportOverride", () => {
+  it("refuses the owning rep", async () => {
+    const { pool, statements } = fakePool();
+    const actor: Actor = { userId: OWNER, role: "OVT" };
+    await assert.rejects(
+      setErpExportOverride({ pool, formId: FORM_ID, actor, rawReason: "Zákazník podepíše na místě" }),
+      (error: unknown) => error instanceof ForbiddenError && error.statusCode === 403
+    );
+    assert.ok(!statements.some((s) => s.sql.includes("UPDATE orders")));
+  });
+
+  it("lets OFFICE set it, audited and attributed to the office user", async () => {
+    const { pool, statements } = fakePool();
+    const actor: Actor = { userId: "office@example.com", role: "OFFICE" };
+    const status = await setErpExportOverride({ pool, formId: FORM_ID, actor, rawReason: "Podpis doložen papírově" });
+    const update = statements.find((s) => s.sql.includes("UPDATE orders"));
+    assert.deepEqual(update?.params, ["Podpis doložen papírově", OWNER, ORDER_ID, "office@example.com"]);
+    const audit = statements.find((s) => s.sql.includes("INSERT INTO order_access_audit"));
+    assert.ok(audit?.params.includes("signing.override"));
+    assert.equal(status.can_override_erp_gate, true);
+  });
+});
@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import type { Pool } from "pg";
+import { erpExportTarget } from "../src/services/erp-export.service";
+import type { ErpProductSyncSummary } from "../src/types/erp-export.types";
+
+const ERP_ORDER_ID = 7001;
+const PRODUCT = { nazev: "Žaluzie", ks: 1, cena_bez_dph: 1000, cena_s_dph: 1210 };
+
+type SendArgs = Parameters<typeof erpExportTarget.send>;
+
+/**
+ * Pool for one form (501) on ERP order 7001. `untracked` are products_sync lines an
+ * earlier log could not record; `failTracking` makes every erp_order_products write fail.
+ */
+function fakePool(opts: { untracked?: Array<Record<string, unknown>>; failTracking?: boolean }) {
+  const tracked: Array<Record<string, unknown>> = [];
+  let trackingWrites = 0;
+  const pool = {
+    async query(sql: string, params: unknown[] = []) {
+      if (sql.includes("products_sync")) return { rows: opts.untracked ?? [] };
+      if (sql.includes("INSERT INTO erp_order_products")) {
+        trackingWrites++;
+        if (opts.failTracking) throw new Error("connection reset");
+        const [erp_order_id, form_id, row_key, erp_product_id] = params;
+        tracked.push({ id: tracked.length + 1, erp_order_id, form_id, row_key, erp_product_id, created_at: 0, updated_at: 0 });
+        return { rows: [], rowCount: 1 };
+      }
+      if (sql.includes("FROM erp_order_products")) return { rows: tracked };
+      throw new Error(`Unexpected query: ${sql}`);
+    },
+  };
+  return { pool: pool as unknown as Pool, tracked, trackingWrites: () => trackingWrites };
+}
+
+function send(pool: Pool, warnings: Array<{ code: string; field: string; reason: string }> = []) {
+  const progress: unknown[] = [];
+  const result = erpExportTarget.send(
+    { pool, form: { id: 501 } } as unknown as SendArgs[0],
+    {
+      logId: 90,
+      prepared: { erpOrderId: ERP_ORDER_ID },
+      build: {
+        orderPayload: { status: "OBJEDNANO", final_value: 1210, column_values: {} },
+        commentPayload: null,
+        warnings,
+        productsPayload: { products: [{ row_key: "row-1", product: PRODUCT }] },
+        requestPayload: {},
+      },
+      persistProgress: async (payload: unknown) => {
+        progress.push(payload);
+      },
+    } as unknown as SendArgs[1]
+  );
+  return { result, progress };
+}
+
+describe("ERP product line sync", () => {
+  const originalFetch = globalThis.fetch;
+  let calls: Array<{ method: string; url: string }>;
+
+  beforeEach(() => {
+    process.env.ERP_API_ENDPOINT = "https://erp.example.com/api";
+    process.env.ERP_BEARER_TOKEN = "token";
+    calls = [];
+    globalThis.fetch = (async (url: string, init: RequestInit) => {
+      calls.push({ method: String(init.method), url });
+      const body = init.method === "POST" ? { data: { id: 555 } } : {};
+      return new Response(JSON.stringify(body), { status: 200 });
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it("keeps the created ERP product id when it cannot be recorded", async () => {
+    const { pool, trackingWrites } = fakePool({ failTracking: true });
+    const warnings: Array<{ code: string; field: string; reason: string }> = [];
+    const { result, progress } = send(pool, warnings);
+    const outcome = await result;
+
+    assert.equal(outcome.status, "PARTIAL_SUCCESS");
+    assert.equal(trackingWrites(), 3);
+    const products = (outcome.responseBody as { products: ErpProductSyncSummary }).products;
+    assert.equal(products.failed, 1);
+    assert.deepEqual(
+      { ...products.lines[0], error: undefined },
+      { row_key: "row-1", action: "CREATE", status: "FAILED", erp_product_id: "555", http_status: 200, untracked: true, error: undefined }
+    );
+    assert.match(warnings[0].reason, /ERP product 555 was saved in ERP/);
+    // The logged products_sync carries the id for the next export.
+    const last = progress[progress.length - 1] as { products_sync: Array<{ erp_product_id: string; untracked?: boolean }> };
+    assert.deepEqual(last.products_sync.map((l) => [l.erp_product_id, l.untracked]), [["555", true]]);
+  });
+
+  it("replaces a line an earlier export could not record instead of creating it again", async () => {
+    const { pool, tracked } = fakePool({
+      untracked: [{ form_id: 501, row_key: "row-1", erp_product_id: "555", payload: PRODUCT, log_id: 89 }],
+    });
+    const warnings: Array<{ code: string; field: string; reason: string }> = [];
+    const outcome = await send(pool, warnings).result;
+
+    assert.equal(outcome.status, "SUCCESS");
+    assert.deepEqual(
+      calls.filter((c) => c.url.includes("/products")),
+      [{ method: "PUT", url: `https://erp.example.com/api/orders/${ERP_ORDER_ID}/products/555` }]
+    );
+    assert.equal(tracked[0].erp_product_id, "555");
+    assert.equal(warnings[0].code, "RECONCILED");
+  });
+});
@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { erpExportTarget } from "../src/services/erp-export.service";
+import { normalizeFieldMappingEntries, parseFieldMappingCsv } from "../src/services/field-mapping.service";
+import { raynetExportTarget } from "../src/services/raynet-export.service";
+import type { ExportTargetContext } from "../src/types/export-target.types";
+import type { FieldMappingTarget, FieldMappingVersion } from "../src/types/field-mapping.types";
+import type { FormRecord } from "../src/types/forms.types";
+
+/**
+ * Golden payloads: the request payloads built for a fixed ADMF form with the v1
+ * field mappings (docs/*-field-mapping.csv, seeded by schema 022). The event /
+ * order updates match what the exporters sent before the mapping tables existed;
+ * a diff here is a change to what Raynet / ERP receive.
+ *
+ * Regenerate after an intended change:  UPDATE_GOLDEN=1 npm test
+ */
+
+const FIXTURES = join(__dirname, "fixtures", "export-golden");
+
+function readJson(name: string): any {
+  return JSON.parse(readFileSync(join(FIXTURES, name), "utf8"));
+}
+
+function mappingV1(target: FieldMappingTarget, csvFile: string): FieldMappingVersion {
+  const csv = readFileSync(join(__dirname, "..", "..", "docs", csvFile), "utf8");
+  const { entries, issues } = normalizeFieldMappingEntries(target, parseFieldMappingCsv(target, csv));
+  assert.deepStrictEqual(issues, []);
+  return { id: 1, target, version: 1, entries, origin: "SEED", note: null, created_at: new Date(0) };
+}
+
+function assertGolden(name: string, actual: unknown): void {
+  const plain = JSON.parse(JSON.stringify(actual));
+  if (process.env.UPDATE_GOLDEN) {
+    writeFileSync(join(FIXTURES, name), JSON.stringify(plain, null, 2) + "\n");
+    return;
+  }
+  assert.deepStrictEqual(plain, readJson(name));
+}
+
+const ctx = {
+  form: { id: 501, form_type: "admf", form_json: readJson("admf-form.json") } as unknown as FormRecord,
+  raynetName: "Petr Svoboda",
+} as ExportTargetContext;
+
+describe("Raynet payload", () => {
+  it("matches the golden event update", async () => {
+    const build = await raynetExportTarget.buildPayload(ctx, {
+      raynetEventId: 9001,
+      mapping: mappingV1("RAYNET", "raynet-field-mapping.csv"),
+    });
+    assertGolden("raynet-request-payload.json", { requestPayload: build.requestPayload, warnings: build.warnings });
+  });
+});
+
+describe("ERP payload", () => {
+  it("matches the golden order update and product lines", async () => {
+    const build = await erpExportTarget.buildPayload(ctx, {
+      erpOrderId: 7001,
+      mapping: mappingV1("ERP", "erp-field-mapping.csv"),
+      manufacturers: {
+        bySourceForm: new Map([[41, { header: "Isotra", byProduct: new Map([["pp-site", "Siteo"]]) }]]),
+        fallback: "Isotra",
+      },
+    });
+    assertGolden("erp-request-payload.json", { requestPayload: build.requestPayload, warnings: build.warnings });
+  });
+});
@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { Pool } from "pg";
+import { runExportJob } from "../src/services/export-queue.service";
+import type { ExportJobRecord } from "../src/types/export-jobs.types";
+
+const WORKER = "test-worker";
+
+const job: ExportJobRecord = {
+  id: 11,
+  export_batch_id: "00000000-0000-0000-0000-0000000000b1",
+  target: "RAYNET",
+  form_id: 501,
+  user_id: "rep@example.com",
+  user_role: "OVT",
+  raynet_user_name: null,
+  test_mode: false,
+  status: "RUNNING",
+  attempts: 2,
+  max_attempts: 5,
+  run_after: new Date(0),
+  locked_at: new Date(0),
+  locked_by: WORKER,
+  last_log_id: null,
+  last_error_message: null,
+  last_error_code: null,
+  result: null,
+  confirmed_preview: null,
+  created_at: new Date(0),
+  updated_at: new Date(0),
+  completed_at: null,
+};
+
+/** Pool whose latest log for the batch is `latest`; records job updates, fails on anything else. */
+function fakePool(latest: Record<string, unknown>) {
+  const jobUpdates: unknown[][] = [];
+  const pool = {
+    async query(sql: string, params: unknown[] = []) {
+      if (sql.includes("FROM export_logs") && sql.includes("export_batch_id")) {
+        return { rows: [{ created_at: new Date(0), completed_at: null, warnings: null, ...latest }] };
+      }
+      if (sql.includes("UPDATE export_jobs")) {
+        jobUpdates.push(params);
+        return { rows: [], rowCount: 1 };
+      }
+      throw new Error(`Unexpected query: ${sql}`);
+    },
+  };
+  return { pool: pool as unknown as Pool, jobUpdates };
+}
+
+describe("runExportJob after an unsettled attempt", () => {
+  it("waits for the reconciler while the previous request may have landed", async () => {
+    const { pool, jobUpdates } = fakePool({ id: 40, target: "RAYNET", external_id: 9001, status: "SENDING" });
+    await runExportJob(pool, job, WORKER);
+    assert.equal(jobUpdates.length, 1);
+    const [status, lastLogId, , errorCode, , runAfter, , jobId, workerId, attemptNotRun] = jobUpdates[0];
+    assert.equal(status, "QUEUED");
+    assert.equal(lastLogId, 40);
+    assert.equal(errorCode, "AWAITING_RECONCILE");
+    assert.ok((runAfter as Date).getTime() > Date.now());
+    assert.deepEqual([jobId, workerId, attemptNotRun], [11, WORKER, true]);
+  });
+
+  it("completes the job when the reconciler found the export applied", async () => {
+    const { pool, jobUpdates } = fakePool({
+      id: 41,
+      target: "RAYNET",
+      external_id: 9001,
+      status: "SUCCESS",
+      completed_at: new Date("2026-10-01T10:00:00Z"),
+    });
+    await runExportJob(pool, job, WORKER);
+    assert.equal(jobUpdates[0][0], "SUCCESS");
+    assert.deepEqual(JSON.parse(jobUpdates[0][4] as string), {
+      logId: 41,
+      exportedAt: "2026-10-01T10:00:00.000Z",
+      warnings: [],
+    });
+  });
+
+  it("fails the job instead of exporting twice when the outcome is unknown", async () => {
+    const { pool, jobUpdates } = fakePool({
+      id: 42,
+      target: "RAYNET",
+      external_id: 9001,
+      status: "UNKNOWN",
+      error_code: "RECONCILE_UNVERIFIED",
+    });
+    await runExportJob(pool, job, WORKER);
+    assert.deepEqual([jobUpdates[0][0], jobUpdates[0][3]], ["FAILED", "RECONCILE_UNVERIFIED"]);
+  });
+});
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { Pool } from "pg";
+import { getExportBatchStatus } from "../src/services/export-queue.service";
+import { NotFoundError } from "../src/utils/errors";
+
+const BATCH = "00000000-0000-0000-0000-0000000000b1";
+const OWNER = "rep@example.com";
+
+/** Pool with one batch (a job and a Raynet log) on form 501 of order 77, owned by OWNER. */
+function fakePool(opts: { sameTeam?: boolean } = {}) {
+  const pool = {
+    async query(sql: string, params: unknown[] = []) {
+      if (sql.includes("FROM export_jobs")) {
+        return { rows: [{ id: 11, export_batch_id: BATCH, target: "RAYNET", form_id: 501, user_id: OWNER }] };
+      }
+      if (sql.includes("FROM export_logs")) {
+        return params[0] === "RAYNET"
+          ? { rows: [{ id: 40, target: "RAYNET", form_id: 501, external_id: 9001, created_at: new Date(0) }] }
+          : { rows: [] };
+      }
+      if (sql.includes("FROM forms")) return { rows: [{ form_id: 501, order_id: 77, owner_user_id: OWNER }] };
+      if (sql.includes("FROM team_members")) return { rows: opts.sameTeam ? [{ "?column?": 1 }] : [] };
+      if (sql.includes("FROM order_shares")) return { rows: [] };
+      if (sql.includes("order_access_audit")) return { rows: [], rowCount: 1 };
+      throw new Error(`Unexpected query: ${sql}`);
+    },
+  };
+  return pool as unknown as Pool;
+}
+
+describe("getExportBatchStatus", () => {
+  it("hides the batch from users without access to its form", async () => {
+    await assert.rejects(
+      getExportBatchStatus(fakePool(), { userId: "other@example.com", role: "OVT" }, BATCH),
+      (error: unknown) => error instanceof NotFoundError && error.message === "Export batch not found"
+    );
+  });
+
+  it("shows jobs and logs to a team manager, not only to the requester", async () => {
+    const actor = { userId: "boss@example.com", role: "MNG" as const };
+    const status = await getExportBatchStatus(fakePool({ sameTeam: true }), actor, BATCH);
+    assert.deepEqual(status.jobs.map((job) => job.id), [11]);
+    assert.equal(status.logs.raynet?.id, 40);
+    assert.equal(status.logs.erp, null);
+  });
+});
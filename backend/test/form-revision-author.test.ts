@@ -0,0 +1,36 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { Pool } from "pg";
+import { updateForm } from "../src/services/forms.service";
+import type { Actor } from "../src/types/access.types";
+
+const OWNER = "rep@example.com";
+
+/** Pool with form 501 of OWNER; records the UPDATE forms parameters. */
+function fakePool() {
+  const updates: unknown[][] = [];
+  const pool = {
+    async query(sql: string, params: unknown[] = []) {
+      if (sql.includes("FROM forms")) return { rows: [{ form_id: 501, order_id: null, owner_user_id: OWNER }] };
+      if (sql.includes("UPDATE forms")) {
+        updates.push(params);
+        return {
+          rows: [{ id: 501, user_id: OWNER, form_type: "custom", form_json: {}, order_id: null, revision: 4 }],
+        };
+      }
+      throw new Error(`Unexpected query: ${sql}`);
+    },
+  };
+  return { pool: pool as unknown as Pool, updates };
+}
+
+describe("updateForm revision author", () => {
+  it("records the user who saved, not the owner", async () => {
+    const { pool, updates } = fakePool();
+    const office: Actor = { userId: "office@example.com", role: "OFFICE" };
+    await updateForm(pool, 501, office, { form_json: { name: "Kuchyň" }, base_revision: 3 });
+    const [, , ownerParam, , , , authorParam] = updates[0];
+    assert.equal(ownerParam, OWNER);
+    assert.equal(authorParam, "office@example.com");
+  });
+});
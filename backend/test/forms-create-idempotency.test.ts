@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { Pool } from "pg";
+import { createForm } from "../src/services/forms.service";
+import type { Actor } from "../src/types/access.types";
+import { BadRequestError } from "../src/utils/errors";
+
+const OWNER = "rep@example.com";
+const ORDER_ID = 77;
+const KEY = "3f1c2f0e-8a7b-4c1d-9e2f-0a1b2c3d4e5f";
+
+/** Pool with order 77 of OWNER and the forms created so far, keyed by client_request_id. */
+function fakePool() {
+  const forms: Array<Record<string, unknown>> = [];
+  const events: unknown[] = [];
+  const pool = {
+    async query(sql: string, params: unknown[] = []) {
+      if (sql.includes("FROM orders")) {
+        return { rows: [{ id: ORDER_ID, order_id: ORDER_ID, user_id: OWNER, owner_user_id: OWNER }] };
+      }
+      if (sql.includes("INSERT INTO forms")) {
+        const [userId, formType, formJson, orderId, key] = params;
+        if (key != null && forms.some((f) => f.user_id === userId && f.client_request_id === key)) return { rows: [] };
+        const row = {
+          id: 500 + forms.length + 1,
+          user_id: userId,
+          form_type: formType,
+          form_json: JSON.parse(String(formJson)),
+          order_id: orderId,
+          client_request_id: key,
+          revision: 1,
+          created_at: new Date(0),
+          updated_at: new Date(0),
+          deleted_at: null,
+        };
+        forms.push(row);
+        return { rows: [row] };
+      }
+      if (sql.includes("client_request_id = $2")) {
+        return { rows: forms.filter((f) => f.user_id === params[0] && f.client_request_id === params[1]) };
+      }
+      if (sql.includes("INSERT INTO order_events")) {
+        events.push(params);
+        return { rows: [{ id: events.length, created_at: new Date(0) }] };
+      }
+      throw new Error(`Unexpected query: ${sql}`);
+    },
+  };
+  return { pool: pool as unknown as Pool, forms, events };
+}
+
+describe("createForm with client_request_id", () => {
+  const actor: Actor = { userId: OWNER, role: "OVT" };
+  const request = { form_type: "custom" as const, form_json: { name: "Obývák" }, order_id: ORDER_ID, client_request_id: KEY };
+
+  it("returns the form from the first request when the create is repeated", async () => {
+    const { pool, forms, events } = fakePool();
+    const first = await createForm(pool, actor, request);
+    const again = await createForm(pool, actor, request);
+    assert.equal(again.id, first.id);
+    assert.equal(forms.length, 1);
+    assert.equal(events.length, 1);
+  });
+
+  it("creates separate forms without a key", async () => {
+    const { pool, forms } = fakePool();
+    await createForm(pool, actor, { ...request, client_request_id: undefined });
+    await createForm(pool, actor, { ...request, client_request_id: undefined });
+    assert.equal(forms.length, 2);
+  });
+
+  it("rejects a key that is not a UUID", async () => {
+    const { pool } = fakePool();
+    await assert.rejects(createForm(pool, actor, { ...request, client_request_id: "abc" }), BadRequestError);
+  });
+});
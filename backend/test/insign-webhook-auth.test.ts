@@ -0,0 +1,28 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { isWebhookAuthorized } from "../src/services/insign-api.client";
+
+const basic = (user: string, pass: string) => `Basic ${Buffer.from(`${user}:${pass}`).toString("base64")}`;
+
+describe("isWebhookAuthorized", () => {
+  afterEach(() => {
+    delete process.env.INSIGN_WEBHOOK_USERNAME;
+    delete process.env.INSIGN_WEBHOOK_PASSWORD;
+  });
+
+  it("refuses every callback while the credentials are not configured", () => {
+    assert.equal(isWebhookAuthorized(undefined), false);
+    assert.equal(isWebhookAuthorized(basic("", "")), false);
+    process.env.INSIGN_WEBHOOK_USERNAME = "insign";
+    assert.equal(isWebhookAuthorized(basic("insign", "")), false);
+  });
+
+  it("accepts only the configured Basic credentials", () => {
+    process.env.INSIGN_WEBHOOK_USERNAME = "insign";
+    process.env.INSIGN_WEBHOOK_PASSWORD = "s3cret:part";
+    assert.equal(isWebhookAuthorized(basic("insign", "s3cret:part")), true);
+    assert.equal(isWebhookAuthorized(basic("insign", "s3cret")), false);
+    assert.equal(isWebhookAuthorized(basic("other", "s3cret:part")), false);
+    assert.equal(isWebhookAuthorized(undefined), false);
+  });
+});
@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { Pool } from "pg";
+import { canDeleteOrder, canShareOrder, requireOrderDeleteAccess } from "../src/services/order-access.service";
+import { shareOrder } from "../src/services/order-sharing.service";
+import type { Actor } from "../src/types/access.types";
+import { ForbiddenError, NotFoundError } from "../src/utils/errors";
+
+const OWNER = "owner@example.com";
+const ORDER_ID = 7;
+
+/** Pool answering the access queries from fixed state; records audit inserts. */
+function fakePool(state: { shares?: Record<string, "READ" | "WRITE">; teamMates?: string[] }) {
+  const audits: unknown[][] = [];
+  const pool = {
+    async query(sql: string, params: unknown[] = []) {
+      if (sql.includes("FROM orders")) {
+        return { rows: params[0] === ORDER_ID ? [{ order_id: ORDER_ID, owner_user_id: OWNER }] : [] };
+      }
+      if (sql.includes("FROM order_shares")) {
+        const access = state.shares?.[String(params[1])];
+        return { rows: access ? [{ access }] : [] };
+      }
+      if (sql.includes("FROM team_members")) {
+        return { rows: state.teamMates?.includes(String(params[0])) ? [{ "?column?": 1 }] : [] };
+      }
+      if (sql.includes("INSERT INTO order_access_audit")) {
+        audits.push(params);
+        return { rows: [] };
+      }
+      throw new Error(`Unexpected query: ${sql}`);
+    },
+  };
+  return { pool: pool as unknown as Pool, audits };
+}
+
+describe("canDeleteOrder", () => {
+  it("allows the owner, OFFICE and ADMIN", () => {
+    assert.equal(canDeleteOrder({ level: "WRITE", basis: null }), true);
+    assert.equal(canDeleteOrder({ level: "WRITE", basis: "OFFICE" }), true);
+    assert.equal(canDeleteOrder({ level: "WRITE", basis: "ADMIN" }), true);
+  });
+
+  it("refuses shares and team managers, even with WRITE", () => {
+    assert.equal(canDeleteOrder({ level: "WRITE", basis: "SHARE" }), false);
+    assert.equal(canDeleteOrder({ level: "READ", basis: "SHARE" }), false);
+    assert.equal(canDeleteOrder({ level: "WRITE", basis: "TEAM" }), false);
+  });
+});
+
+describe("requireOrderDeleteAccess", () => {
+  const rep = (userId: string): Actor => ({ userId, role: "OVT" });
+
+  it("lets the owner delete without an audit row", async () => {
+    const { pool, audits } = fakePool({});
+    const grant = await requireOrderDeleteAccess(pool, rep(OWNER), ORDER_ID);
+    assert.equal(grant.ownerId, OWNER);
+    assert.equal(audits.length, 0);
+  });
+
+  it("lets OFFICE delete and audits it", async () => {
+    const { pool, audits } = fakePool({});
+    const grant = await requireOrderDeleteAccess(pool, { userId: "office@example.com", role: "OFFICE" }, ORDER_ID);
+    assert.equal(grant.basis, "OFFICE");
+    assert.equal(audits.length, 1);
+  });
+
+  it("refuses a user with a WRITE share", async () => {
+    const { pool, audits } = fakePool({ shares: { "colleague@example.com": "WRITE" } });
+    await assert.rejects(requireOrderDeleteAccess(pool, rep("colleague@example.com"), ORDER_ID), ForbiddenError);
+    assert.equal(audits.length, 0);
+  });
+
+  it("refuses a manager on a shared team", async () => {
+    const { pool } = fakePool({ teamMates: ["mng@example.com"] });
+    await assert.rejects(
+      requireOrderDeleteAccess(pool, { userId: "mng@example.com", role: "MNG" }, ORDER_ID),
+      ForbiddenError
+    );
+  });
+
+  it("hides the order from users without any access", async () => {
+    const { pool } = fakePool({});
+    await assert.rejects(requireOrderDeleteAccess(pool, rep("stranger@example.com"), ORDER_ID), NotFoundError);
+  });
+});
+
+describe("canShareOrder", () => {
+  it("allows the owner, a team manager, OFFICE and ADMIN", () => {
+    assert.equal(canShareOrder({ level: "WRITE", basis: null }), true);
+    assert.equal(canShareOrder({ level: "WRITE", basis: "TEAM" }), true);
+    assert.equal(canShareOrder({ level: "WRITE", basis: "OFFICE" }), true);
+    assert.equal(canShareOrder({ level: "WRITE", basis: "ADMIN" }), true);
+  });
+
+  it("refuses users who only hold a share", () => {
+    assert.equal(canShareOrder({ level: "WRITE", basis: "SHARE" }), false);
+    assert.equal(canShareOrder({ level: "READ", basis: "SHARE" }), false);
+  });
+});
+
+describe("shareOrder", () => {
+  it("does not let a user with a WRITE share re-share the order", async () => {
+    const { pool, audits } = fakePool({ shares: { "colleague@example.com": "WRITE" } });
+    await assert.rejects(
+      shareOrder(pool, { userId: "colleague@example.com", role: "OVT" }, ORDER_ID, {
+        user_id: "third@example.com",
+        access: "WRITE",
+      }),
+      ForbiddenError
+    );
+    assert.equal(audits.length, 0);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Backend ↔ client price parity on the shared fixtures (pricing-engine/fixtures/*.json).
+ *
+ * Backend: the row is priced by product-extractors (`resolveCustomRowPricingCore`), which
+ * reads product_pricing + pricing_variant through the pricing-forms queries — here from a
+ * fake pricing pool holding the fixture bundle as DB rows.
+ * Client: the bundle GET /api/forms/pricing/:id/bundle serves (`getProductPricingBundle`
+ * on the same pool), after a JSON round trip, through `bundleToRowPricingInputs` as in the
+ * OVT app. Both traces must equal the fixture's expectation byte for byte.
+ */
+
+import assert from "node:assert/strict";
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { describe, it } from "node:test";
+import type { Pool } from "pg";
+import {
+  buildAutomatedTrace,
+  bundleToRowPricingInputs,
+  priceCustomRow,
+  type AutomatedTraceContext,
+  type ProductPricingBundle,
+  type ResolvedCustomRowPricing,
+} from "@ovt/pricing-engine";
+import { resolveCustomRowPricingCore } from "../src/services/product-extractors";
+import { getProductPricingBundle } from "../src/services/pricing-forms.service";
+
+interface PricingFixture {
+  description: string;
+  bundle: ProductPricingBundle;
+  row_schema: Record<string, unknown>;
+  row: Record<string, unknown>;
+  context: AutomatedTraceContext;
+  expected_trace?: unknown;
+  expected_error?: string;
+}
+
+const FIXTURES_DIR = path.resolve(__dirname, "../../pricing-engine/fixtures");
+
+/** Pricing pool answering the product / variant / size-limit reads with the bundle's rows. */
+function pricingPoolFor(bundle: ProductPricingBundle): Pool {
+  const pool = {
+    async query(sql: string, params: unknown[] = []) {
+      if (params[0] !== bundle.product_pricing_id) return { rows: [] };
+      if (sql.includes("FROM product_pricing")) {
+        return {
+          rows: [
+            {
+              id: bundle.product_pricing_id,
+              price_affecting_enums: bundle.price_affecting_enums,
+              surcharges: bundle.surcharges,
+              rounding_policy: bundle.rounding_policy ?? null,
+            },
+          ],
+        };
+      }
+      if (sql.includes("FROM pricing_variant")) return { rows: bundle.variants };
+      if (sql.includes("FROM size_limit_variant")) return { rows: bundle.size_limits ?? [] };
+      throw new Error(`Unexpected query: ${sql}`);
+    },
+  };
+  return pool as unknown as Pool;
+}
+
+/** Serialized trace, or `error: <message>` when the row cannot be priced. */
+async function traceOf(
+  fixture: PricingFixture,
+  price: () => ResolvedCustomRowPricing | Promise<ResolvedCustomRowPricing>
+): Promise<string> {
+  try {
+    return JSON.stringify(buildAutomatedTrace(await price(), fixture.context));
+  } catch (e) {
+    return `error: ${e instanceof Error ? e.message : String(e)}`;
+  }
+}
+
+function expectedOutput(fixture: PricingFixture): string {
+  if (fixture.expected_error !== undefined) return `error: ${fixture.expected_error}`;
+  return JSON.stringify(fixture.expected_trace);
+}
+
+describe("pricing fixtures: backend and client price identically", () => {
+  const files = readdirSync(FIXTURES_DIR).filter((f) => f.endsWith(".json")).sort();
+
+  for (const file of files) {
+    const fixture = JSON.parse(readFileSync(path.join(FIXTURES_DIR, file), "utf-8")) as PricingFixture;
+    const productPricingId = fixture.bundle.product_pricing_id;
+
+    it(`${file}: ${fixture.description}`, async () => {
+      const pricingPool = pricingPoolFor(fixture.bundle);
+
+      const backend = await traceOf(fixture, () =>
+        resolveCustomRowPricingCore({ pricingPool, rowSchema: fixture.row_schema, flatRow: fixture.row, productPricingId })
+      );
+
+      const served = await getProductPricingBundle(pricingPool, productPricingId);
+      assert.ok(served, "bundle endpoint returned nothing");
+      const inputs = bundleToRowPricingInputs(JSON.parse(JSON.stringify(served)) as ProductPricingBundle);
+      const client = await traceOf(fixture, () =>
+        priceCustomRow({ inputs, rowSchema: fixture.row_schema, flatRow: fixture.row, productPricingId })
+      );
+
+      assert.equal(backend, client, "backend and client differ");
+      assert.equal(backend, expectedOutput(fixture));
+    });
+  }
+});
@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { deflateRawSync } from "node:zlib";
+import { priceGridFromRows } from "../src/services/admin-price-list-import.service";
+import { detectDecimalSeparator, parseCellNumber, parseXlsx } from "../src/utils/spreadsheet-grid";
+
+/** Single-entry deflate zip; `declaredSize` overrides the uncompressed size in the headers. */
+function zipWith(name: string, content: Buffer, declaredSize = content.length): Buffer {
+  const data = deflateRawSync(content);
+  const nameBuf = Buffer.from(name, "utf8");
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(8, 8);
+  local.writeUInt32LE(data.length, 18);
+  local.writeUInt32LE(declaredSize, 22);
+  local.writeUInt16LE(nameBuf.length, 26);
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(8, 10);
+  central.writeUInt32LE(data.length, 20);
+  central.writeUInt32LE(declaredSize, 24);
+  central.writeUInt16LE(nameBuf.length, 28);
+  central.writeUInt32LE(0, 42);
+  const centralOffset = local.length + nameBuf.length + data.length;
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(1, 8);
+  eocd.writeUInt16LE(1, 10);
+  eocd.writeUInt32LE(central.length + nameBuf.length, 12);
+  eocd.writeUInt32LE(centralOffset, 16);
+  return Buffer.concat([local, nameBuf, data, central, nameBuf, eocd]);
+}
+
+describe("parseCellNumber", () => {
+  it("reads unambiguous formats", () => {
+    assert.equal(parseCellNumber("1 234,50 Kč"), 1234.5);
+    assert.equal(parseCellNumber("1.234,5"), 1234.5);
+    assert.equal(parseCellNumber("1,234.50"), 1234.5);
+    assert.equal(parseCellNumber("1234.5"), 1234.5);
+    assert.equal(parseCellNumber("12,5"), 12.5);
+    assert.equal(parseCellNumber("0.500"), 0.5);
+    assert.equal(parseCellNumber("1.234.567"), 1234567);
+    assert.equal(parseCellNumber("Šířka"), null);
+    assert.equal(parseCellNumber("1200 x 800"), null);
+  });
+
+  it("leaves a lone separator before three digits to the file's decimal separator", () => {
+    assert.equal(parseCellNumber("1.234"), null);
+    assert.equal(parseCellNumber("2,500"), null);
+    assert.equal(parseCellNumber("1.234", ","), 1234);
+    assert.equal(parseCellNumber("1.234", "."), 1.234);
+    assert.equal(parseCellNumber("2,500", ","), 2.5);
+    assert.equal(parseCellNumber("2,500 Kč", "."), 2500);
+    assert.equal(parseCellNumber("-1.234", ","), -1234);
+  });
+});
+
+describe("detectDecimalSeparator", () => {
+  it("decides from the unambiguous numbers only", () => {
+    assert.equal(detectDecimalSeparator([["Výška", "1.200", "12,5"]]), ",");
+    assert.equal(detectDecimalSeparator([["1.234", "99.90"]]), ".");
+    assert.equal(detectDecimalSeparator([["1 234 567", "1.234.567"]]), ",");
+  });
+
+  it("is null when nothing decides or cells disagree", () => {
+    assert.equal(detectDecimalSeparator([["600", "1.200", "2,500"]]), null);
+    assert.equal(detectDecimalSeparator([["12,5", "9.5"]]), null);
+  });
+});
+
+describe("priceGridFromRows", () => {
+  it("reads thousands separators in a comma-decimal sheet", () => {
+    const grid = priceGridFromRows([
+      ["", "600", "1.200"],
+      ["1.000", "1.450,50", "2.100"],
+    ]);
+    assert.equal(grid.decimal_separator, ",");
+    assert.deepEqual(grid.prices, { "1000_600": 1451, "1000_1200": 2100 });
+  });
+
+  it("rejects an ambiguous header when the separator cannot be told", () => {
+    assert.throws(
+      () => priceGridFromRows([["", "600", "1.200"], ["1000", "1450", "2100"]]),
+      /Header C1 "1.200" could be 1.2 or 1200 — set decimal_separator/
+    );
+    const grid = priceGridFromRows([["", "600", "1.200"], ["1000", "1450", "2100"]], { decimal_separator: "," });
+    assert.deepEqual(grid.widths_mm, [600, 1200]);
+  });
+
+  it("skips ambiguous prices as such", () => {
+    const grid = priceGridFromRows([["", "600", "1200"], ["1000", "1.450", "2100"]]);
+    assert.deepEqual(grid.skipped_cells, [{ cell: "B2", value: "1.450", reason: "ambiguous" }]);
+  });
+});
+
+describe("parseXlsx zip limits", () => {
+  it("rejects entries that declare an oversized uncompressed size", () => {
+    const zip = zipWith("xl/workbook.xml", Buffer.from("<workbook/>"), 0x7fffffff);
+    assert.throws(() => parseXlsx(zip), /Zip entry too large: xl\/workbook.xml/);
+  });
+
+  it("stops inflating entries that expand past the cap despite a small declared size", () => {
+    const zip = zipWith("xl/worksheets/sheet1.xml", Buffer.alloc(33 * 1024 * 1024), 1024);
+    assert.throws(() => parseXlsx(zip), /Zip entry too large: xl\/worksheets\/sheet1.xml/);
+  });
+});
@@ -5,6 +5,7 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { cookies } from "next/headers";
+import { getVerifiedUserRole } from "@/lib/auth-role";
 
 /**
  * GET /api/auth/session
@@ -38,6 +39,7 @@ export async function GET(request: NextRequest) {
         cookieStore.delete("user_id");
         cookieStore.delete("user_raynet_id");
         cookieStore.delete("user_raynet_name");
+        cookieStore.delete("user_role");
         return NextResponse.json({ success: false, authenticated: false }, { status: 401 });
       }
     }
@@ -52,6 +54,7 @@ export async function GET(request: NextRequest) {
         id: userId || null,
         raynet_id: userRaynetId ?? null,
         raynet_name: userRaynetName,
+        role: getVerifiedUserRole(accessToken),
       },
       expires_at: parsedExpiresAt != null && !Number.isNaN(parsedExpiresAt) ? parsedExpiresAt : null,
     });
@@ -23,6 +23,7 @@ export async function POST(request: NextRequest) {
     cookieStore.delete("user_id");
     cookieStore.delete("user_raynet_id");
     cookieStore.delete("user_raynet_name");
+    cookieStore.delete("user_role");
 
     return NextResponse.json({ success: true, message: "Signed out successfully" });
   } catch (error: any) {
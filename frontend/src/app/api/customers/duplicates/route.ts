@@ -0,0 +1,35 @@
+/**
+ * Next.js API route for duplicate customer records (office / admin).
+ * Proxies to Express backend `/api/customers/duplicates`.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getMainBackendToken } from "@/lib/auth-backend";
+
+function getBackendUrl(): string {
+  return (
+    process.env.BACKEND_API_URL ||
+    process.env.NEXT_PUBLIC_BACKEND_API_URL ||
+    "http://localhost:3001"
+  );
+}
+
+export async function GET(request: NextRequest) {
+  const authToken = await getMainBackendToken(request);
+  if (!authToken) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  const url = `${getBackendUrl()}/api/customers/duplicates${request.nextUrl.search}`;
+  const res = await fetch(url, {
+    method: "GET",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${authToken}`,
+    },
+  });
+
+  const text = await res.text();
+  const contentType = res.headers.get("content-type") || "application/json";
+  return new NextResponse(text, { status: res.status, headers: { "content-type": contentType } });
+}
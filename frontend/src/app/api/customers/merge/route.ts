@@ -0,0 +1,43 @@
+/**
+ * Next.js API route for merging duplicate customer records (office / admin).
+ * Proxies to Express backend `/api/customers/merge`.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getMainBackendToken } from "@/lib/auth-backend";
+
+function getBackendUrl(): string {
+  return (
+    process.env.BACKEND_API_URL ||
+    process.env.NEXT_PUBLIC_BACKEND_API_URL ||
+    "http://localhost:3001"
+  );
+}
+
+export async function POST(request: NextRequest) {
+  const authToken = await getMainBackendToken(request);
+  if (!authToken) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: "Invalid request body" }, { status: 400 });
+  }
+
+  const url = `${getBackendUrl()}/api/customers/merge`;
+  const res = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${authToken}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  const text = await res.text();
+  const contentType = res.headers.get("content-type") || "application/json";
+  return new NextResponse(text, { status: res.status, headers: { "content-type": contentType } });
+}
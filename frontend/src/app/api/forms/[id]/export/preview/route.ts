@@ -0,0 +1,52 @@
+/**
+ * Next.js API route proxy for the export dry-run (Raynet + ERP diff).
+ * Forwards authenticated POST to backend POST /api/forms/:id/export/preview.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getMainBackendToken } from "@/lib/auth-backend";
+
+function getBackendUrl(): string {
+  return process.env.BACKEND_API_URL || process.env.NEXT_PUBLIC_BACKEND_API_URL || "http://localhost:3001";
+}
+
+/**
+ * POST /api/forms/[id]/export/preview
+ * Body: { testMode?: boolean }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authToken = await getMainBackendToken(request);
+    if (!authToken) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+
+    const backendResponse = await fetch(`${getBackendUrl()}/api/forms/${id}/export/preview`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${authToken}`,
+      },
+      body: JSON.stringify({ testMode: body.testMode === true }),
+      cache: "no-store",
+    });
+
+    const data = await backendResponse.json();
+    return NextResponse.json(data, { status: backendResponse.status });
+  } catch (error: unknown) {
+    console.error("Error in POST /api/forms/[id]/export/preview:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -12,7 +12,8 @@ function getBackendUrl(): string {
 
 /**
  * POST /api/forms/[id]/export
- * Body: { testMode?: boolean }
+ * Body: { testMode?: boolean, confirmedPreview?: { raynet?, erp? } }
+ * confirmedPreview is the diff from /export/preview the user confirmed; stored with the logs.
  */
 export async function POST(
   request: NextRequest,
@@ -36,7 +37,12 @@ export async function POST(
         "Content-Type": "application/json",
         Authorization: `Bearer ${authToken}`,
       },
-      body: JSON.stringify({ testMode: body.testMode === true }),
+      body: JSON.stringify({
+        testMode: body.testMode === true,
+        ...(body.confirmedPreview && typeof body.confirmedPreview === "object"
+          ? { confirmedPreview: body.confirmedPreview }
+          : {}),
+      }),
     });
 
     const data = await backendResponse.json();
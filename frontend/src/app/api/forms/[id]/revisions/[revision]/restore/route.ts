@@ -0,0 +1,56 @@
+/**
+ * Next.js API route proxy for restoring a form revision.
+ * Forwards authenticated POST to backend POST /api/forms/:id/revisions/:revision/restore.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getMainBackendToken } from "@/lib/auth-backend";
+
+function getBackendUrl(): string {
+  return process.env.BACKEND_API_URL || process.env.NEXT_PUBLIC_BACKEND_API_URL || "http://localhost:3001";
+}
+
+/**
+ * POST /api/forms/[id]/revisions/[revision]/restore
+ * Body: { base_revision?: number }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revision: string }> }
+) {
+  try {
+    const authToken = await getMainBackendToken(request);
+    if (!authToken) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id, revision } = await params;
+    const body = await request.json().catch(() => ({}));
+
+    const backendResponse = await fetch(
+      `${getBackendUrl()}/api/forms/${id}/revisions/${revision}/restore`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${authToken}`,
+        },
+        body: JSON.stringify(
+          typeof body.base_revision === "number" ? { base_revision: body.base_revision } : {}
+        ),
+      }
+    );
+
+    const data = await backendResponse.json();
+    return NextResponse.json(data, { status: backendResponse.status });
+  } catch (error: unknown) {
+    console.error("Error in POST /api/forms/[id]/revisions/[revision]/restore:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Next.js API route proxy for a single form revision.
+ * Forwards authenticated GET to backend GET /api/forms/:id/revisions/:revision.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getMainBackendToken } from "@/lib/auth-backend";
+
+function getBackendUrl(): string {
+  return process.env.BACKEND_API_URL || process.env.NEXT_PUBLIC_BACKEND_API_URL || "http://localhost:3001";
+}
+
+/**
+ * GET /api/forms/[id]/revisions/[revision]
+ * Returns the revision including its form_json.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revision: string }> }
+) {
+  try {
+    const authToken = await getMainBackendToken(request);
+    if (!authToken) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id, revision } = await params;
+
+    const backendResponse = await fetch(`${getBackendUrl()}/api/forms/${id}/revisions/${revision}`, {
+      method: "GET",
+      headers: {
+        Authorization: `Bearer ${authToken}`,
+      },
+    });
+
+    const data = await backendResponse.json();
+    return NextResponse.json(data, { status: backendResponse.status });
+  } catch (error: unknown) {
+    console.error("Error in GET /api/forms/[id]/revisions/[revision]:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Next.js API route: GET /api/forms/pricing/[id]/bundle
+ * Proxies to backend GET /api/forms/pricing/:id/bundle (variants + surcharges + size limits
+ * for on-device pricing; cached by the service worker for offline use).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getMainBackendToken } from "@/lib/auth-backend";
+
+function getBackendUrl(): string {
+  return process.env.BACKEND_API_URL || process.env.NEXT_PUBLIC_BACKEND_API_URL || "http://localhost:3001";
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authToken = await getMainBackendToken(request);
+    if (!authToken) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+    const { id } = await params;
+    const url = `${getBackendUrl()}/api/forms/pricing/${encodeURIComponent(id)}/bundle`;
+    const response = await fetch(url, {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${authToken}`,
+      },
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      return NextResponse.json(data, { status: response.status });
+    }
+    return NextResponse.json(data);
+  } catch (error: unknown) {
+    console.error("Error in GET /api/forms/pricing/[id]/bundle:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Next.js API route: GET /api/monitoring/exports/stats
+ * Proxies to backend GET /api/admin/exports/stats (admins only, admin token added server-side).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { proxyExportMonitoring } from "@/lib/export-monitoring-server";
+
+export async function GET(request: NextRequest) {
+  try {
+    return await proxyExportMonitoring("/stats", request.nextUrl.search);
+  } catch (error: unknown) {
+    console.error("Error in GET /api/monitoring/exports/stats:", error);
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Next.js API route: POST /api/orders/[id]/raynet-sync/resolve
+ * Proxies to backend: resolve a Raynet sync conflict (take Raynet value or keep local).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getMainBackendToken } from "@/lib/auth-backend";
+
+function getBackendUrl(): string {
+  return (
+    process.env.BACKEND_API_URL ||
+    process.env.NEXT_PUBLIC_BACKEND_API_URL ||
+    "http://localhost:3001"
+  );
+}
+
+/** POST /api/orders/[id]/raynet-sync/resolve - Resolve a Raynet sync conflict (take Raynet value or keep local). */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authToken = await getMainBackendToken(request);
+    if (!authToken) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+    const { id } = await params;
+    const response = await fetch(`${getBackendUrl()}/api/orders/${id}/raynet-sync/resolve`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${authToken}`,
+      },
+      body: JSON.stringify(await request.json().catch(() => ({}))),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      return NextResponse.json(data, { status: response.status });
+    }
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error("Error in POST /api/orders/[id]/raynet-sync/resolve:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Next.js proxy: PUT /api/signing/forms/[formId]/erp-override
+ * Forwards to Express backend at /api/signing/forms/:formId/erp-override.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getMainBackendToken } from "@/lib/auth-backend";
+
+function getBackendUrl(): string {
+  return (
+    process.env.BACKEND_API_URL ||
+    process.env.NEXT_PUBLIC_BACKEND_API_URL ||
+    "http://localhost:3001"
+  );
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ formId: string }> }
+) {
+  try {
+    const authToken = await getMainBackendToken(request);
+    if (!authToken) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { formId } = await params;
+    const body = await request.text();
+
+    const response = await fetch(
+      `${getBackendUrl()}/api/signing/forms/${encodeURIComponent(formId)}/erp-override`,
+      {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${authToken}`,
+        },
+        body,
+      }
+    );
+
+    const data = await response.json();
+    return NextResponse.json(data, { status: response.status });
+  } catch (error: unknown) {
+    console.error("Error in PUT /api/signing/forms/[formId]/erp-override:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import Link from "next/link";
+import type { CustomerDetail } from "@/lib/customers-api";
+
+const FIELD_LABEL: Record<string, string> = {
+  name: "Jméno",
+  email: "Email",
+  phone: "Telefon",
+  address: "Adresa",
+  city: "Město",
+  zipcode: "PSČ",
+};
+
+/** Format date to Czech locale */
+function formatDate(dateString: string): string {
+  return new Intl.DateTimeFormat("cs-CZ", { year: "numeric", month: "long", day: "numeric" }).format(
+    new Date(dateString)
+  );
+}
+
+function formatCzk(value: number): string {
+  return new Intl.NumberFormat("cs-CZ", { style: "currency", currency: "CZK", maximumFractionDigits: 0 }).format(value);
+}
+
+interface CustomerDetailClientProps {
+  detail: CustomerDetail;
+  /** Office / admin: link to the duplicate merge tool */
+  canMerge: boolean;
+}
+
+export default function CustomerDetailClient({ detail, canMerge }: CustomerDetailClientProps) {
+  const { customer, orders, admf_forms } = detail;
+  const conflicts = Object.entries(customer.source_conflicts ?? {});
+  const orderName = new Map(orders.map((o) => [o.id, o.name]));
+
+  const rows: Array<[string, string | number | null]> = [
+    ["Telefon", customer.phone],
+    ["E-mail", customer.email],
+    ["Adresa", [customer.address, customer.zipcode, customer.city].filter(Boolean).join(", ") || null],
+    ["IČO", customer.ico],
+    ["Raynet ID", customer.raynet_id],
+    ["ERP zákazník", customer.erp_customer_id],
+  ];
+
+  return (
+    <div className="min-h-screen bg-zinc-50 py-8 px-4 dark:bg-zinc-900">
+      <div className="mx-auto max-w-5xl">
+        <div className="mb-8">
+          <Link
+            href="/orders?scope=accessible"
+            className="mb-4 flex items-center gap-2 text-sm text-zinc-600 transition-colors hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-50"
+          >
+            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            Zpět na zakázky
+          </Link>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold text-zinc-900 dark:text-zinc-50">{customer.name || "—"}</h1>
+              <p className="mt-1 text-sm text-zinc-500 dark:text-zinc-400">Zákazník #{customer.id}</p>
+            </div>
+            {canMerge && (
+              <Link
+                href="/customers/duplicates"
+                className="rounded-md border border-zinc-300 px-3 py-1.5 text-sm font-medium text-zinc-600 hover:bg-zinc-100 dark:border-zinc-600 dark:text-zinc-400 dark:hover:bg-zinc-800"
+              >
+                Duplicitní zákazníci
+              </Link>
+            )}
+          </div>
+        </div>
+
+        {conflicts.length > 0 && (
+          <div className="mb-4 rounded-md border border-amber-600 bg-amber-50 p-3 text-sm dark:border-amber-500/60 dark:bg-amber-900/20">
+            <p className="font-semibold text-amber-900 dark:text-amber-200">Raynet a ERP se u zákazníka neshodují</p>
+            <ul className="mt-2 space-y-1 text-amber-900 dark:text-amber-100">
+              {conflicts.map(([field, c]) => (
+                <li key={field}>
+                  <span className="font-medium">{FIELD_LABEL[field] ?? field}:</span> Raynet{" "}
+                  <span className="font-mono">{c.raynet ?? "—"}</span>, ERP <span className="font-mono">{c.erp ?? "—"}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="mb-4 rounded-lg border border-zinc-200 bg-white p-6 shadow-sm dark:border-zinc-700 dark:bg-zinc-800">
+          <dl className="grid grid-cols-1 gap-x-6 gap-y-3 text-sm sm:grid-cols-2">
+            {rows.map(([label, value]) => (
+              <div key={label}>
+                <dt className="text-xs text-zinc-500 dark:text-zinc-400">{label}</dt>
+                <dd className="text-zinc-900 dark:text-zinc-50">{value ?? "—"}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+
+        <div className="mb-4 rounded-lg border border-zinc-200 bg-white p-6 shadow-sm dark:border-zinc-700 dark:bg-zinc-800">
+          <h2 className="mb-3 text-lg font-semibold text-zinc-900 dark:text-zinc-50">Zakázky ({orders.length})</h2>
+          {orders.length === 0 ? (
+            <p className="text-sm text-zinc-500 dark:text-zinc-400">Zákazník nemá žádnou zakázku, kterou můžete otevřít.</p>
+          ) : (
+            <ul className="divide-y divide-zinc-200 dark:divide-zinc-700">
+              {orders.map((order) => (
+                <li key={order.id} className="flex flex-wrap items-center justify-between gap-2 py-2 text-sm">
+                  <Link href={`/orders/${order.id}`} className="font-medium text-accent hover:text-accent-hover">
+                    Zakázka #{order.id} · {order.name || "—"}
+                  </Link>
+                  <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                    {order.user_id} · {formatDate(order.created_at)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="rounded-lg border border-zinc-200 bg-white p-6 shadow-sm dark:border-zinc-700 dark:bg-zinc-800">
+          <h2 className="mb-3 text-lg font-semibold text-zinc-900 dark:text-zinc-50">ADMF ({admf_forms.length})</h2>
+          {admf_forms.length === 0 ? (
+            <p className="text-sm text-zinc-500 dark:text-zinc-400">Zatím žádné ADMF.</p>
+          ) : (
+            <ul className="divide-y divide-zinc-200 dark:divide-zinc-700">
+              {admf_forms.map((form) => (
+                <li key={form.id} className="flex flex-wrap items-center justify-between gap-2 py-2 text-sm">
+                  <Link
+                    href={`/orders/${form.order_id}/forms/${form.id}`}
+                    className="font-medium text-accent hover:text-accent-hover"
+                  >
+                    {form.name || "ADMF"} · #{form.id}
+                  </Link>
+                  <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                    {formatCzk(form.total_s_dph)} s DPH · zakázka #{form.order_id}
+                    {orderName.get(form.order_id) ? ` (${orderName.get(form.order_id)})` : ""} · {formatDate(form.created_at)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
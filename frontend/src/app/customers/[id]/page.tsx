@@ -0,0 +1,41 @@
+import { redirect, notFound } from "next/navigation";
+import { getServerSession } from "@/lib/auth-server";
+import { fetchCustomerServer } from "@/lib/customers-server";
+import CustomerDetailClient from "./CustomerDetailClient";
+
+/**
+ * Customer page (karta zákazníka) – Server Component
+ * Customer master record with all their orders and ADMFs the user can open.
+ */
+export default async function CustomerDetailPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const session = await getServerSession();
+  if (!session) {
+    redirect("/login");
+  }
+
+  const { id } = await params;
+  const customerId = parseInt(id, 10);
+  if (isNaN(customerId)) {
+    notFound();
+  }
+
+  const result = await fetchCustomerServer(customerId);
+  if (!result.success || !result.data) {
+    if (result.error === "Customer not found") {
+      notFound();
+    }
+    redirect("/orders?error=fetch_failed");
+  }
+
+  // A merged id resolves to the surviving record — show it under its own URL
+  if (result.data.customer.id !== customerId) {
+    redirect(`/customers/${result.data.customer.id}`);
+  }
+
+  const role = session.user.role ?? null;
+  return <CustomerDetailClient detail={result.data} canMerge={role === "OFFICE" || role === "ADMIN"} />;
+}
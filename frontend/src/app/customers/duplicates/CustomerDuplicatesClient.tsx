@@ -0,0 +1,137 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import {
+  getCustomerDuplicates,
+  mergeCustomers,
+  type CustomerDuplicateGroup,
+  type CustomerRecord,
+} from "@/lib/customers-api";
+
+const KEY_LABEL: Record<CustomerDuplicateGroup["key_type"], string> = {
+  phone: "Telefon",
+  email: "E-mail",
+  ico: "IČO",
+};
+
+function describe(c: CustomerRecord): string {
+  return [c.phone, c.email, c.ico ? `IČO ${c.ico}` : null, [c.address, c.city].filter(Boolean).join(", ")]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+/**
+ * Groups of customers sharing a phone, e-mail or IČO. Pick the record to keep; the other
+ * records of the group are merged into it one by one (their orders move over).
+ */
+export default function CustomerDuplicatesClient() {
+  const [groups, setGroups] = React.useState<CustomerDuplicateGroup[] | null>(null);
+  const [targets, setTargets] = React.useState<Record<string, number>>({});
+  const [busy, setBusy] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [message, setMessage] = React.useState<string | null>(null);
+
+  const load = React.useCallback(async () => {
+    const res = await getCustomerDuplicates();
+    if (!res.success || !res.data) {
+      setError(res.error ?? "Duplicity se nepodařilo načíst.");
+      return;
+    }
+    setGroups(res.data);
+  }, []);
+
+  React.useEffect(() => {
+    void load();
+  }, [load]);
+
+  const handleMerge = async (group: CustomerDuplicateGroup) => {
+    const groupKey = `${group.key_type}:${group.key_value}`;
+    const targetId = targets[groupKey] ?? group.customers[0]?.id;
+    if (targetId == null) return;
+    const sources = group.customers.filter((c) => c.id !== targetId);
+    if (!confirm(`Sloučit ${sources.length} zákazník(y) do #${targetId}? Jejich zakázky se přesunou.`)) return;
+    setBusy(groupKey);
+    setError(null);
+    setMessage(null);
+    let moved = 0;
+    for (const source of sources) {
+      const res = await mergeCustomers(source.id, targetId);
+      if (!res.success || !res.data) {
+        setError(res.error ?? `Zákazníka #${source.id} se nepodařilo sloučit.`);
+        break;
+      }
+      moved += res.data.moved_order_ids.length;
+    }
+    setBusy(null);
+    setMessage(`Sloučeno do zákazníka #${targetId}, přesunuto zakázek: ${moved}.`);
+    await load();
+  };
+
+  return (
+    <div className="min-h-screen bg-zinc-50 py-8 px-4 dark:bg-zinc-900">
+      <div className="mx-auto max-w-5xl">
+        <h1 className="mb-2 text-3xl font-bold text-zinc-900 dark:text-zinc-50">Duplicitní zákazníci</h1>
+        <p className="mb-6 text-sm text-zinc-600 dark:text-zinc-400">
+          Zákazníci se stejným telefonem, e-mailem nebo IČO. Vyberte záznam, který zůstane — ostatní se do něj
+          sloučí a jejich zakázky se přesunou. Chybějící údaje se doplní ze slučovaných záznamů.
+        </p>
+
+        {error && <p className="mb-4 text-sm text-red-600 dark:text-red-400">{error}</p>}
+        {message && <p className="mb-4 text-sm text-green-700 dark:text-green-400">{message}</p>}
+        {groups === null && !error && <p className="text-sm text-zinc-500 dark:text-zinc-400">Načítám…</p>}
+        {groups !== null && groups.length === 0 && (
+          <p className="text-sm text-zinc-500 dark:text-zinc-400">Žádné duplicity.</p>
+        )}
+
+        <div className="space-y-4">
+          {(groups ?? []).map((group) => {
+            const groupKey = `${group.key_type}:${group.key_value}`;
+            const targetId = targets[groupKey] ?? group.customers[0]?.id;
+            return (
+              <div
+                key={groupKey}
+                className="rounded-lg border border-zinc-200 bg-white p-5 shadow-sm dark:border-zinc-700 dark:bg-zinc-800"
+              >
+                <p className="mb-3 text-sm font-medium text-zinc-900 dark:text-zinc-50">
+                  {KEY_LABEL[group.key_type]}: <span className="font-mono">{group.key_value}</span>
+                </p>
+                <ul className="mb-3 space-y-2 text-sm">
+                  {group.customers.map((c) => (
+                    <li key={c.id} className="flex items-start gap-2">
+                      <input
+                        type="radio"
+                        name={groupKey}
+                        checked={targetId === c.id}
+                        onChange={() => setTargets((prev) => ({ ...prev, [groupKey]: c.id }))}
+                        className="mt-1"
+                      />
+                      <span>
+                        <Link href={`/customers/${c.id}`} className="font-medium text-accent hover:text-accent-hover">
+                          #{c.id} {c.name || "—"}
+                        </Link>
+                        <span className="block text-xs text-zinc-500 dark:text-zinc-400">
+                          {describe(c) || "—"}
+                          {c.raynet_id != null && ` · Raynet ${c.raynet_id}`}
+                          {c.erp_customer_id != null && ` · ERP ${c.erp_customer_id}`}
+                        </span>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                <button
+                  type="button"
+                  onClick={() => handleMerge(group)}
+                  disabled={busy !== null}
+                  className="rounded-md bg-accent px-3 py-1.5 text-xs font-medium text-white hover:bg-accent-hover disabled:opacity-50"
+                >
+                  {busy === groupKey ? "Slučuji…" : `Sloučit do #${targetId}`}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { redirect } from "next/navigation";
+import { getServerSession } from "@/lib/auth-server";
+import CustomerDuplicatesClient from "./CustomerDuplicatesClient";
+
+/**
+ * Duplicate customers (same phone / e-mail / IČO) with a merge tool – Server Component.
+ * Office and admin only; data is loaded client-side through /api/customers/duplicates.
+ */
+export default async function CustomerDuplicatesPage() {
+  const session = await getServerSession();
+  if (!session) {
+    redirect("/login");
+  }
+
+  const role = session.user.role ?? null;
+  if (role !== "OFFICE" && role !== "ADMIN") {
+    return (
+      <div className="flex min-h-[calc(100vh-4rem)] items-center justify-center px-4">
+        <div className="max-w-lg rounded-2xl border border-zinc-200 bg-white p-8 text-center shadow-sm dark:border-zinc-700 dark:bg-zinc-800">
+          <h1 className="mb-3 text-2xl font-semibold text-zinc-900 dark:text-zinc-50">Přístup odepřen</h1>
+          <p className="text-sm text-zinc-600 dark:text-zinc-400">
+            Slučování zákazníků je dostupné jen kanceláři a administrátorům.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return <CustomerDuplicatesClient />;
+}
@@ -2,8 +2,13 @@
 
 import React, { useCallback, useEffect, useRef, useState } from "react";
 import Link from "next/link";
-import { submitForm, updateForm } from "@/lib/forms-api";
+import { submitForm, updateForm, type FormRecord } from "@/lib/forms-api";
 import FormAttachmentsSection from "@/components/forms/FormAttachmentsSection";
+import FormConflictModal from "@/components/forms/FormConflictModal";
+import FormHistoryModal from "@/components/forms/FormHistoryModal";
+import ContractSigningModal from "@/components/forms/ContractSigningModal";
+import { discardOutboxEntry, formDraftKey, newFormDraftKey } from "@/lib/offline-outbox";
+import { useFormOutbox } from "@/lib/use-form-outbox";
 import { IntegerInput } from "@/components/forms/IntegerInput";
 import { useAppMode } from "@/lib/mode-context";
 import type {
@@ -15,7 +20,10 @@ import type {
 } from "@/types/forms/admf.types";
 import QrPaymentModal from "@/components/QrPaymentModal";
 import ExportStatusModal, { type ExportResult } from "@/components/ExportStatusModal";
+import ExportPreviewDiff, { type ExportPreviewData } from "@/components/ExportPreviewDiff";
+import { getFormSigningStatus, type FormSigningStatus } from "@/lib/contract-signing-api";
 import { buildSpdString } from "@/lib/spd-qr";
+import { describeGridFit } from "@ovt/pricing-engine";
 
 /**
  * Minimální záloha jako podíl z celkové ceny s DPH — dle `typOsoby` (soukromá vs právnická).
@@ -59,6 +67,8 @@ interface CustomerFromOrder {
 interface AdmfFormClientProps {
   initialData?: AdmfFormData;
   formId?: number;
+  /** Server revision of initialData (edit mode); sent back as base_revision on save */
+  revision?: number;
   orderId?: number;
   customerFromOrder?: CustomerFromOrder;
 }
@@ -331,6 +341,14 @@ function ToggleButton({
   );
 }
 
+/** Status-bar text for orders.contract_status */
+const CONTRACT_STATUS_TEXT: Record<NonNullable<FormSigningStatus["order"]>["contract_status"], string> = {
+  UNSIGNED: "nepodepsána",
+  PENDING: "čeká na podpis",
+  SIGNED: "podepsána",
+  REJECTED: "podpis zrušen",
+};
+
 /** Standard form input styling */
 const inputCls =
   "w-full rounded-lg border border-zinc-600 bg-zinc-700 px-3 py-2.5 text-sm text-zinc-50 outline-none focus:border-primary focus:ring-2 focus:ring-primary/20";
@@ -345,6 +363,7 @@ const dateInputCls = `${inputCls} admf-date-input`;
 export default function AdmfFormClient({
   initialData,
   formId,
+  revision,
   orderId,
   customerFromOrder,
 }: AdmfFormClientProps) {
@@ -400,7 +419,10 @@ export default function AdmfFormClient({
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [submitSuccess, setSubmitSuccess] = useState(false);
   const [showSendModal, setShowSendModal] = useState(false);
+  /** Dry-run diff shown in the send modal; undefined while loading, null when unavailable. */
+  const [exportPreview, setExportPreview] = useState<ExportPreviewData | null | undefined>(undefined);
   const [showSignModal, setShowSignModal] = useState(false);
+  const [signingStatus, setSigningStatus] = useState<FormSigningStatus | null>(null);
   const [showQrModal, setShowQrModal] = useState(false);
   const [pdfLoading, setPdfLoading] = useState(false);
   const [pdfError, setPdfError] = useState<string | null>(null);
@@ -421,7 +443,8 @@ export default function AdmfFormClient({
   const [erpExportedAt, setErpExportedAt] = useState<string | null>(null);
   const [erpExportTestMode, setErpExportTestMode] = useState(false);
   const [showExportStatusModal, setShowExportStatusModal] = useState(false);
-  const [exportResult, setExportResult] = useState<ExportResult | null>(null);
+  const [exportBatchId, setExportBatchId] = useState<string | null>(null);
+  const [exportBatchTestMode, setExportBatchTestMode] = useState(false);
 
   /** Dirty state tracking */
   const [isDirty, setIsDirty] = useState(false);
@@ -502,6 +525,33 @@ export default function AdmfFormClient({
     return mergePendingPricingIntoFormData(base, pending);
   }, []);
 
+  /** Revision the next save is based on; bumped after every successful save. */
+  const revisionRef = useRef<number | undefined>(revision);
+  /** Save rejected with 409 — local copy vs. current server copy, until the user resolves it. */
+  const [saveConflict, setSaveConflict] = useState<{
+    local: AdmfFormData;
+    server: FormRecord;
+  } | null>(null);
+  const [showHistoryModal, setShowHistoryModal] = useState(false);
+  /** Offline outbox key: the saved form, or this unsaved new form */
+  const [offlineDraftKey] = useState(() => (formId ? formDraftKey(formId) : newFormDraftKey()));
+  const { queued: offlineQueued, lastError: offlineError } = useFormOutbox(offlineDraftKey, {
+    onPendingDraft: (entry) => {
+      // Unsent offline save is newer than the server-rendered copy: continue from it
+      if (!formId) return;
+      setFormData(entry.formJson as unknown as AdmfFormData);
+      if (entry.baseRevision != null) revisionRef.current = entry.baseRevision;
+    },
+    onConflict: (local, current) => setSaveConflict({ local: local as unknown as AdmfFormData, server: current }),
+    onSynced: (form) => {
+      if (!formId && orderId != null) {
+        window.location.href = `/orders/${orderId}/forms/${form.id}`;
+        return;
+      }
+      revisionRef.current = form.revision;
+    },
+  });
+
   /** Autosave: debounced save 3s after last change (edit mode only) */
   const autosaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const autosaveFailCountRef = useRef(0);
@@ -510,7 +560,7 @@ export default function AdmfFormClient({
 
   useEffect(() => {
     // Only autosave in edit mode when dirty and not currently submitting/exporting
-    if (!isEditMode || !formId || !isDirty || isSubmitting || exportLoading) return;
+    if (!isEditMode || !formId || !isDirty || isSubmitting || exportLoading || saveConflict) return;
 
     // Cancel previous timer
     if (autosaveTimerRef.current) clearTimeout(autosaveTimerRef.current);
@@ -527,8 +577,9 @@ export default function AdmfFormClient({
       setFormData(merged);
       const dataToSave = withComputedDoplatek(merged);
       try {
-        const res = await updateForm(formId, dataToSave);
+        const res = await updateForm(formId, dataToSave, revisionRef.current, "admf");
         if (res.success) {
+          if (res.data?.revision != null) revisionRef.current = res.data.revision;
           autosaveFailCountRef.current = 0;
           setAutosaveError(false);
           setSubmitSuccess(true);
@@ -538,6 +589,8 @@ export default function AdmfFormClient({
           setIsDirty(
             currentData ? serializeForDirtyCheck(currentData) !== savedSnapshot : false
           );
+        } else if (res.conflict) {
+          setSaveConflict({ local: dataToSave, server: res.conflict.current });
         } else {
           autosaveFailCountRef.current++;
           if (autosaveFailCountRef.current >= 3) setAutosaveError(true);
@@ -553,7 +606,28 @@ export default function AdmfFormClient({
     return () => {
       if (autosaveTimerRef.current) clearTimeout(autosaveTimerRef.current);
     };
-  }, [formData, isEditMode, formId, isDirty, isSubmitting, exportLoading, drainPendingPricingTracesIntoData]);
+  }, [formData, isEditMode, formId, isDirty, isSubmitting, exportLoading, saveConflict, drainPendingPricingTracesIntoData]);
+
+  /**
+   * Adopt the server copy as the new baseline and load the merged data into the form.
+   * The merge stays dirty (if it differs from the server) so autosave / submit stores it
+   * against the fresh revision.
+   */
+  const resolveSaveConflict = useCallback(
+    (merged: Record<string, unknown>) => {
+      if (!saveConflict) return;
+      revisionRef.current = saveConflict.server.revision;
+      initialFormDataRef.current = serializeForDirtyCheck(
+        saveConflict.server.form_json as AdmfFormData
+      );
+      setFormData(merged as unknown as AdmfFormData);
+      setSaveConflict(null);
+      setSubmitError(null);
+      // The merge supersedes any offline draft; it is saved again as a normal edit
+      void discardOutboxEntry(offlineDraftKey);
+    },
+    [saveConflict, offlineDraftKey]
+  );
 
   const updateField = useCallback(
     <K extends keyof AdmfFormData,>(key: K, value: AdmfFormData[K]) => {
@@ -637,11 +711,13 @@ export default function AdmfFormClient({
     const dataToSave: AdmfFormData = withComputedDoplatek(merged);
     try {
       if (isEditMode && formId) {
-        const res = await updateForm(formId, dataToSave);
+        const res = await updateForm(formId, dataToSave, revisionRef.current, "admf");
         if (!res.success) {
+          if (res.conflict) setSaveConflict({ local: dataToSave, server: res.conflict.current });
           setSubmitError(res.error ?? "Uložení se nepodařilo.");
           return;
         }
+        if (res.data?.revision != null) revisionRef.current = res.data.revision;
         setSubmitSuccess(true);
         const savedSnapshot = serializeForDirtyCheck(dataToSave);
         initialFormDataRef.current = savedSnapshot;
@@ -654,11 +730,16 @@ export default function AdmfFormClient({
           setSubmitError("Zakázka není vybrána.");
           return;
         }
-        const res = await submitForm("admf", dataToSave, orderId);
+        const res = await submitForm("admf", dataToSave, orderId, offlineDraftKey);
         if (!res.success) {
           setSubmitError(res.error ?? "Odeslání se nepodařilo.");
           return;
         }
+        if (res.queued) {
+          // Offline: stored on the device; onSynced opens the saved form once it is sent
+          initialFormDataRef.current = serializeForDirtyCheck(dataToSave);
+          setIsDirty(false);
+        }
         setSubmitSuccess(true);
         if (res.data?.id) {
           window.location.href = `/orders/${orderId}/forms/${res.data.id}`;
@@ -828,12 +909,24 @@ export default function AdmfFormClient({
       .catch(() => {});
   }, [formId, isEditMode]);
 
-  /** Run the unified export (Raynet + ERP in parallel). */
+  // ── Contract signing status (inSign): load on mount ──
+  useEffect(() => {
+    if (!formId || !isEditMode) return;
+    getFormSigningStatus(formId).then((res) => {
+      if (res.success && res.data) setSigningStatus(res.data);
+    });
+  }, [formId, isEditMode]);
+
+  /**
+   * Queue the unified export (Raynet + ERP). The backend answers 202 with an
+   * export batch; ExportStatusModal polls the job state until both targets settle.
+   * The diff the user confirmed in the send modal is stored with the export logs.
+   */
   const handleUnifiedExport = async () => {
     if (!formId || !isEditMode) return;
     setExportLoading(true);
     setExportError(null);
-    setExportResult(null);
+    setExportBatchId(null);
     setShowSendModal(false);
     setShowExportStatusModal(true);
     try {
@@ -841,32 +934,40 @@ export default function AdmfFormClient({
         method: "POST",
         headers: { "Content-Type": "application/json" },
         credentials: "include",
-        body: JSON.stringify({ testMode: mode === "TEST" }),
+        body: JSON.stringify({
+          testMode: mode === "TEST",
+          ...(exportPreview ? { confirmedPreview: exportPreview } : {}),
+        }),
       });
       const json = await res.json();
       if (!res.ok || !json.success) {
         setExportError(json.error || "Export se nezdařil.");
         setShowExportStatusModal(false);
+        setExportLoading(false);
         return;
       }
-      const data = json.data as ExportResult;
-      setExportResult(data);
-      if (data.raynet.success && data.raynet.exportedAt) {
-        setExportedAt(data.raynet.exportedAt);
-        setExportTestMode(data.testMode);
-      }
-      if (data.erp.success && data.erp.exportedAt) {
-        setErpExportedAt(data.erp.exportedAt);
-        setErpExportTestMode(data.testMode);
-      }
+      setExportBatchTestMode(json.data.testMode === true);
+      setExportBatchId(json.data.exportBatchId as string);
     } catch {
       setExportError("Nepodařilo se spojit se serverem.");
       setShowExportStatusModal(false);
-    } finally {
       setExportLoading(false);
     }
   };
 
+  /** All export jobs of the batch finished (success or permanently failed). */
+  const handleExportSettled = useCallback((data: ExportResult) => {
+    if (data.raynet.success && data.raynet.exportedAt) {
+      setExportedAt(data.raynet.exportedAt);
+      setExportTestMode(data.testMode);
+    }
+    if (data.erp.success && data.erp.exportedAt) {
+      setErpExportedAt(data.erp.exportedAt);
+      setErpExportTestMode(data.testMode);
+    }
+    setExportLoading(false);
+  }, []);
+
   /**
    * Fetch PDF and open it in a modal; user can view and download from there.
    * Blocks when form has unsaved changes because backend renders from stored form_json.
@@ -969,7 +1070,15 @@ export default function AdmfFormClient({
           <h1 className="text-2xl font-bold text-zinc-50">
             Administrativní formulář (ADMF)
           </h1>
-          {submitSuccess && !isDirty ? (
+          {offlineError ? (
+            <span className="rounded-md border border-red-500 bg-red-900/30 px-3 py-1 text-xs font-medium text-red-400">
+              offline uložení server odmítl: {offlineError}
+            </span>
+          ) : offlineQueued && !isDirty ? (
+            <span className="rounded-md border border-amber-400 bg-amber-900/30 px-3 py-1 text-xs font-medium text-amber-400">
+              uloženo v zařízení — odešle se po připojení
+            </span>
+          ) : submitSuccess && !isDirty ? (
             <span className="inline-flex items-center gap-1.5 rounded-full border border-green-600 bg-green-900/30 px-3 py-1 text-xs font-medium text-green-400">
               <svg className="h-3.5 w-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
@@ -1002,6 +1111,18 @@ export default function AdmfFormClient({
               </svg>
               {isSubmitting ? "Ukládám…" : "Uložit"}
             </button>
+            {isEditMode && (
+              <button
+                type="button"
+                onClick={() => setShowHistoryModal(true)}
+                className="inline-flex min-h-[44px] items-center gap-2 rounded-lg bg-zinc-600 px-4 py-2.5 text-sm font-medium text-zinc-100 hover:bg-zinc-500"
+              >
+                <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                Historie
+              </button>
+            )}
             <button
               type="button"
               onClick={handleOpenPdfModal}
@@ -1024,6 +1145,7 @@ export default function AdmfFormClient({
                   return;
                 }
                 setExportError(null);
+                setExportPreview(undefined);
                 setShowSendModal(true);
               }}
               disabled={!isEditMode || exportLoading}
@@ -1041,8 +1163,20 @@ export default function AdmfFormClient({
         </div>
 
         {/* ── Status bar: export info + autosave warning ── */}
-        {(exportedAt || erpExportedAt || autosaveError) && (
+        {(exportedAt || erpExportedAt || autosaveError || signingStatus?.order) && (
           <div className="mb-6 flex flex-wrap items-center gap-3 rounded-lg border border-zinc-700 bg-zinc-800/50 px-4 py-2.5">
+            {signingStatus?.order && (
+              <span
+                className={`inline-flex items-center gap-1.5 text-xs ${
+                  signingStatus.order.contract_status === "SIGNED" ? "text-zinc-400" : "text-amber-400"
+                }`}
+              >
+                Smlouva: {CONTRACT_STATUS_TEXT[signingStatus.order.contract_status]}
+                {signingStatus.order.contract_signed_at &&
+                  ` ${new Date(signingStatus.order.contract_signed_at).toLocaleString("cs-CZ")}`}
+                {!signingStatus.erp_export_allowed && " · export do ERP blokován"}
+              </span>
+            )}
             {exportedAt && (
               <span className="inline-flex items-center gap-1.5 text-xs text-zinc-400">
                 <svg className="h-3.5 w-3.5 shrink-0 text-green-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -1078,7 +1212,7 @@ export default function AdmfFormClient({
             aria-modal="true"
             aria-labelledby="send-modal-title"
           >
-            <div className="max-w-md rounded-xl border border-zinc-700 bg-zinc-800 p-6 shadow-xl">
+            <div className="max-h-[90vh] w-full max-w-3xl overflow-y-auto rounded-xl border border-zinc-700 bg-zinc-800 p-6 shadow-xl">
               <h2 id="send-modal-title" className="mb-4 text-lg font-semibold text-zinc-50">
                 Export Raynet/ERP
               </h2>
@@ -1094,6 +1228,11 @@ export default function AdmfFormClient({
                   a zákazníkovi nepřijde e-mail. Vhodné pro testování.
                 </p>
               )}
+              {formId && (
+                <div className="mb-6">
+                  <ExportPreviewDiff formId={formId} testMode={mode === "TEST"} onLoaded={setExportPreview} />
+                </div>
+              )}
               {exportError && (
                 <p className="mb-4 text-sm text-red-400">{exportError}</p>
               )}
@@ -1109,7 +1248,7 @@ export default function AdmfFormClient({
                 <button
                   type="button"
                   onClick={handleUnifiedExport}
-                  disabled={exportLoading}
+                  disabled={exportLoading || exportPreview === undefined}
                   className={`min-h-[44px] rounded-lg px-4 py-2.5 text-sm font-medium text-white disabled:opacity-50 ${
                     mode === "PRODUCTION"
                       ? "bg-red-600 hover:bg-red-700"
@@ -1126,39 +1265,46 @@ export default function AdmfFormClient({
         {/* Modal: Export status — shows Raynet + ERP results */}
         {showExportStatusModal && (
           <ExportStatusModal
-            result={exportResult}
-            loading={exportLoading}
+            exportBatchId={exportBatchId}
+            testMode={exportBatchTestMode}
+            onSettled={handleExportSettled}
+            onClose={() => {
+              setShowExportStatusModal(false);
+              setExportLoading(false);
+            }}
+          />
+        )}
+
+        {/* Modal: save rejected because the form changed elsewhere */}
+        {saveConflict && (
+          <FormConflictModal
+            local={saveConflict.local as unknown as Record<string, unknown>}
+            server={saveConflict.server.form_json}
+            serverUpdatedAt={saveConflict.server.updated_at}
+            onResolve={resolveSaveConflict}
+          />
+        )}
+
+        {/* Modal: version history + restore */}
+        {showHistoryModal && formId && (
+          <FormHistoryModal
             formId={formId}
-            onClose={() => setShowExportStatusModal(false)}
+            currentRevision={revisionRef.current}
+            hasUnsavedChanges={isDirty}
+            onRestored={() => window.location.reload()}
+            onClose={() => setShowHistoryModal(false)}
           />
         )}
 
-        {/* Modal: e-podpis not available */}
-        {showSignModal && (
-          <div
-            className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
-            role="dialog"
-            aria-modal="true"
-            aria-labelledby="sign-modal-title"
-          >
-            <div className="max-w-md rounded-xl border border-zinc-700 bg-zinc-800 p-6 shadow-xl">
-              <h2 id="sign-modal-title" className="mb-4 text-lg font-semibold text-zinc-50">
-                E-podpis zákazníka
-              </h2>
-              <p className="mb-6 text-sm text-zinc-400">
-                Funkce elektronického podpisu zatím není k dispozici. Bude implementována v další verzi aplikace.
-              </p>
-              <div className="flex justify-end">
-                <button
-                  type="button"
-                  onClick={() => setShowSignModal(false)}
-                  className="min-h-[44px] rounded-lg bg-zinc-600 px-4 py-2.5 text-sm font-medium text-zinc-100 hover:bg-zinc-500"
-                >
-                  Zavřít
-                </button>
-              </div>
-            </div>
-          </div>
+        {/* Modal: e-podpis smlouvy (inSign) */}
+        {showSignModal && formId && (
+          <ContractSigningModal
+            formId={formId}
+            hasUnsavedChanges={isDirty}
+            customerEmail={formData.email}
+            onStatusChange={setSigningStatus}
+            onClose={() => setShowSignModal(false)}
+          />
         )}
 
         {/* Modal: PDF viewer with download */}
@@ -1697,6 +1843,8 @@ export default function AdmfFormClient({
                     const hasSurcharges = (row.surcharges?.length ?? 0) > 0;
                     const field1Value = row.priceAffectingFields?.[0]?.value ?? "";
                     const field2Value = row.priceAffectingFields?.[1]?.value ?? "";
+                    const gridDimensions = row.pricingTrace?.automated?.dimensions;
+                    const gridWarning = describeGridFit(gridDimensions);
                     return (
                       <tr
                         key={row.id}
@@ -1709,6 +1857,27 @@ export default function AdmfFormClient({
                             onChange={(e) => updateProductRow(row.id, { produkt: e.target.value })}
                             className={inputCls}
                           />
+                          {gridWarning && (
+                            <p
+                              className={
+                                gridDimensions?.grid_fit === "snapped_below_min"
+                                  ? "mt-1 text-[11px] leading-snug text-zinc-400"
+                                  : "mt-1 rounded-md border border-amber-500/60 bg-amber-500/10 px-2 py-1 text-[11px] font-medium leading-snug text-amber-300"
+                              }
+                            >
+                              {gridWarning}
+                            </p>
+                          )}
+                          {row.bezZaruky && (
+                            <p className="mt-1 inline-block rounded-md border border-red-500/60 bg-red-500/10 px-2 py-0.5 text-[11px] font-semibold uppercase tracking-wide text-red-300">
+                              Bez záruky
+                            </p>
+                          )}
+                          {row.sizeLimitWarnings?.length ? (
+                            <p className="mt-1 text-[11px] leading-snug text-amber-400/90">
+                              {row.sizeLimitWarnings.join(" ")}
+                            </p>
+                          ) : null}
                         </td>
                         <td className="w-20 px-3 py-2 align-top">
                           <IntegerInput
@@ -2219,13 +2388,15 @@ export default function AdmfFormClient({
                 </div>
               </div>
 
-              {/* E-podpis – button only */}
+              {/* E-podpis – opens ContractSigningModal (inSign) */}
               <div>
                 <label className={labelCls}>Podpis zákazníka</label>
                 <button
                   type="button"
                   onClick={() => setShowSignModal(true)}
-                  className="inline-flex min-h-[44px] items-center gap-2 rounded-lg border border-zinc-600 bg-zinc-700 px-4 py-2.5 text-sm text-zinc-400 hover:bg-zinc-600 hover:text-zinc-200"
+                  disabled={!isEditMode}
+                  title={isEditMode ? undefined : "Nejdříve formulář uložte"}
+                  className="inline-flex min-h-[44px] items-center gap-2 rounded-lg border border-zinc-600 bg-zinc-700 px-4 py-2.5 text-sm text-zinc-400 hover:bg-zinc-600 hover:text-zinc-200 disabled:opacity-50"
                 >
                   <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
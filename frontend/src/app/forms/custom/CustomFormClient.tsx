@@ -3,10 +3,14 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { submitForm, updateForm } from "@/lib/forms-api";
+import { submitForm, updateForm, type FormRecord } from "@/lib/forms-api";
 import { getPricingFormById } from "@/lib/pricing-forms-api";
 import DynamicProductForm, { buildInitialFormData } from "@/components/forms/DynamicProductForm";
 import FormPricePreviewPanel from "@/components/forms/FormPricePreviewPanel";
+import FormConflictModal from "@/components/forms/FormConflictModal";
+import FormHistoryModal from "@/components/forms/FormHistoryModal";
+import { discardOutboxEntry, formDraftKey, newFormDraftKey } from "@/lib/offline-outbox";
+import { useFormOutbox } from "@/lib/use-form-outbox";
 import { emptyValuesForProductSchema } from "@/lib/merge-product-switch";
 import { normalizeCustomFormOnLoad } from "@/lib/normalize-custom-form-load";
 import type { ProductPayload } from "@/types/json-schema-form.types";
@@ -35,6 +39,8 @@ export interface CustomFormClientProps {
   formId?: number;
   /** Create: undefined. Edit: { schema, data } from stored form_json */
   initialData?: CustomFormJson;
+  /** Edit: server revision of initialData; sent back as base_revision on save */
+  revision?: number;
   /** Prefill customer from order (create mode) */
   customerFromOrder?: {
     name?: string;
@@ -62,6 +68,7 @@ export default function CustomFormClient({
   orderId,
   formId,
   initialData,
+  revision,
   customerFromOrder,
   pricingId,
 }: CustomFormClientProps) {
@@ -171,6 +178,7 @@ export default function CustomFormClient({
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [hasSizeLimitError, setHasSizeLimitError] = useState(false);
   const [hasWarrantyError, setHasWarrantyError] = useState(false);
+  const [hasWarrantyAckMissing, setHasWarrantyAckMissing] = useState(false);
   const [hasRequiredFieldsError, setHasRequiredFieldsError] = useState(false);
 
   /** Form-level price preview ("Náhled ceny pro zákazníka") panel state. Lives
@@ -209,6 +217,37 @@ export default function CustomFormClient({
     setIsDirty(JSON.stringify({ data: formData, productSchemas, formName }) !== initialFormDataRef.current);
   }, [formData, productSchemas, formName]);
 
+  /** Revision the next save is based on; bumped after every successful save. */
+  const revisionRef = useRef<number | undefined>(revision);
+  /** Save rejected with 409 — local form_json vs. current server copy, until resolved. */
+  const [saveConflict, setSaveConflict] = useState<{
+    local: CustomFormJson;
+    server: FormRecord;
+  } | null>(null);
+  const [showHistoryModal, setShowHistoryModal] = useState(false);
+  /** Offline outbox key: the saved form, or this unsaved new form */
+  const [offlineDraftKey] = useState(() => (formId ? formDraftKey(formId) : newFormDraftKey()));
+  const { queued: offlineQueued, lastError: offlineError } = useFormOutbox(offlineDraftKey, {
+    onPendingDraft: (entry) => {
+      // Unsent offline save is newer than the server-rendered copy: continue from it
+      if (!formId) return;
+      const draft = normalizeCustomFormOnLoad(entry.formJson as unknown as CustomFormJson);
+      setSchema(draft.schema);
+      setProductSchemas(draft.product_schemas);
+      setFormData(draft.data);
+      setFormName((entry.formJson as unknown as CustomFormJson).name ?? "");
+      if (entry.baseRevision != null) revisionRef.current = entry.baseRevision;
+    },
+    onConflict: (local, current) => setSaveConflict({ local: local as unknown as CustomFormJson, server: current }),
+    onSynced: (form) => {
+      if (!formId) {
+        router.replace(`/orders/${orderId}/forms/${form.id}`);
+        return;
+      }
+      revisionRef.current = form.revision;
+    },
+  });
+
   /** Autosave: debounced save 3s after last change (edit mode only) */
   const autosaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const autosaveFailCountRef = useRef(0);
@@ -217,7 +256,17 @@ export default function CustomFormClient({
   const [autosaveSuccess, setAutosaveSuccess] = useState(false);
 
   useEffect(() => {
-    if (!isEditMode || !formId || !schema || !isDirty || isSubmitting || hasSizeLimitError || hasRequiredFieldsError) return;
+    if (
+      !isEditMode ||
+      !formId ||
+      !schema ||
+      !isDirty ||
+      isSubmitting ||
+      hasSizeLimitError ||
+      hasRequiredFieldsError ||
+      saveConflict
+    )
+      return;
 
     if (autosaveTimerRef.current) clearTimeout(autosaveTimerRef.current);
 
@@ -235,8 +284,9 @@ export default function CustomFormClient({
           data: latest,
           ...(formName.trim() && { name: formName.trim() }),
         };
-        const res = await updateForm(formId, formJson);
+        const res = await updateForm(formId, formJson, revisionRef.current, "custom");
         if (res.success) {
+          if (res.data?.revision != null) revisionRef.current = res.data.revision;
           autosaveFailCountRef.current = 0;
           setAutosaveError(false);
           setAutosaveSuccess(true);
@@ -253,6 +303,8 @@ export default function CustomFormClient({
               ? JSON.stringify({ data: currentData, productSchemas: currentPs, formName }) !== savedSnapshot
               : false
           );
+        } else if (res.conflict) {
+          setSaveConflict({ local: formJson, server: res.conflict.current });
         } else {
           autosaveFailCountRef.current++;
           if (autosaveFailCountRef.current >= 3) setAutosaveError(true);
@@ -278,8 +330,37 @@ export default function CustomFormClient({
     isSubmitting,
     hasSizeLimitError,
     hasRequiredFieldsError,
+    saveConflict,
   ]);
 
+  /**
+   * Adopt the server copy as the new baseline and load the merged form_json.
+   * The merge stays dirty (if it differs from the server) so autosave / submit stores it
+   * against the fresh revision.
+   */
+  const resolveSaveConflict = useCallback(
+    (merged: Record<string, unknown>) => {
+      if (!saveConflict) return;
+      const server = normalizeCustomFormOnLoad(saveConflict.server.form_json as CustomFormJson);
+      revisionRef.current = saveConflict.server.revision;
+      initialFormDataRef.current = JSON.stringify({
+        data: server.data,
+        productSchemas: server.product_schemas,
+        formName: (saveConflict.server.form_json as CustomFormJson).name ?? "",
+      });
+      const next = normalizeCustomFormOnLoad(merged as unknown as CustomFormJson);
+      setSchema(next.schema);
+      setProductSchemas(next.product_schemas);
+      setFormData(next.data);
+      setFormName((merged as unknown as CustomFormJson).name ?? "");
+      setSaveConflict(null);
+      setSubmitError(null);
+      // The merge supersedes any offline draft; it is saved again as a normal edit
+      void discardOutboxEntry(offlineDraftKey);
+    },
+    [saveConflict, offlineDraftKey]
+  );
+
   const handleSizeLimitErrorChange = useCallback((hasError: boolean) => {
     setHasSizeLimitError(hasError);
   }, []);
@@ -294,13 +375,16 @@ export default function CustomFormClient({
     if (!payload || !data) return;
     // Align with save bar + autosave: do not persist invalid manufacturing / required fields
     if (hasSizeLimitError || hasRequiredFieldsError) return;
+    // Autosave keeps drafts of such rows; an explicit save needs every bez záruky confirmed
+    if (hasWarrantyAckMissing) return;
     setIsSubmitting(true);
     setSubmitError(null);
     try {
       const formJson: CustomFormJson = { schema: payload, product_schemas: productSchemas, data, ...(formName.trim() && { name: formName.trim() }) };
       if (isEditMode && formId != null) {
-        const result = await updateForm(formId, formJson);
+        const result = await updateForm(formId, formJson, revisionRef.current, "custom");
         if (result.success) {
+          if (result.data?.revision != null) revisionRef.current = result.data.revision;
           // Stay on the form after save: reset dirty state and show success indicator.
           const savedSnapshot = JSON.stringify({ data, productSchemas, formName });
           initialFormDataRef.current = savedSnapshot;
@@ -314,9 +398,17 @@ export default function CustomFormClient({
           setAutosaveSuccess(true);
           return;
         }
+        if (result.conflict) setSaveConflict({ local: formJson, server: result.conflict.current });
         setSubmitError(result.error ?? "Uložení se nepodařilo.");
       } else {
-        const result = await submitForm("custom", formJson, orderId);
+        const result = await submitForm("custom", formJson, orderId, offlineDraftKey);
+        if (result.queued) {
+          // Offline: stored on the device; onSynced moves to the edit route once it is sent
+          initialFormDataRef.current = JSON.stringify({ data, productSchemas, formName });
+          setIsDirty(false);
+          setAutosaveSuccess(true);
+          return;
+        }
         if (result.success && result.data?.id != null) {
           // First save on a new form: transition URL to the edit route (same form, edit mode).
           // `replace` (not `push`) keeps the back button pointing at the previous page,
@@ -378,6 +470,10 @@ export default function CustomFormClient({
           <div className="rounded-md bg-red-500 px-6 py-3 text-center text-sm font-medium text-white">
             Vyplňte všechna povinná pole pro výpočet ceny — viz červené zvýraznění a seznam výše v tabulce
           </div>
+        ) : hasWarrantyAckMissing ? (
+          <div className="rounded-md bg-amber-500 px-6 py-3 text-center text-sm font-medium text-white">
+            Potvrďte u položek mimo záruční rozsah, že zákazník souhlasí s výrobou bez záruky
+          </div>
         ) : hasWarrantyError ? (
           <button
             type="button"
@@ -448,7 +544,15 @@ export default function CustomFormClient({
       <h1 className="text-2xl font-bold text-zinc-900 dark:text-zinc-50">
         {productTitle ? `VÝROBNÍ DOKUMENTACE - ${productTitle}` : "VÝROBNÍ DOKUMENTACE"}
       </h1>
-      {autosaveSuccess && !isDirty ? (
+      {offlineError ? (
+        <span className="rounded-md border border-red-400 bg-red-50 px-3 py-1 text-xs font-medium text-red-700 dark:border-red-500 dark:bg-red-900/30 dark:text-red-400">
+          offline uložení server odmítl: {offlineError}
+        </span>
+      ) : offlineQueued && !isDirty ? (
+        <span className="rounded-md border border-amber-400 bg-amber-50 px-3 py-1 text-xs font-medium text-amber-700 dark:border-amber-500 dark:bg-amber-900/30 dark:text-amber-400">
+          uloženo v zařízení — odešle se po připojení
+        </span>
+      ) : autosaveSuccess && !isDirty ? (
         <span className="inline-flex items-center gap-1.5 rounded-full border border-green-600 bg-green-50 px-3 py-1 text-xs font-medium text-green-700 dark:bg-green-900/30 dark:text-green-400">
           <svg className="h-3.5 w-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
@@ -476,6 +580,15 @@ export default function CustomFormClient({
           Automatické ukládání selhalo — uložte ručně
         </span>
       )}
+      {isEditMode && (
+        <button
+          type="button"
+          onClick={() => setShowHistoryModal(true)}
+          className="ml-auto rounded-md border border-zinc-300 px-3 py-1.5 text-xs font-medium text-zinc-700 hover:bg-zinc-100 dark:border-zinc-600 dark:text-zinc-300 dark:hover:bg-zinc-800"
+        >
+          Historie verzí
+        </button>
+      )}
     </div>
   );
 
@@ -513,11 +626,29 @@ export default function CustomFormClient({
             onPinHeaderFromProduct={setSchema}
             onSizeLimitErrorChange={handleSizeLimitErrorChange}
             onWarrantyErrorChange={setHasWarrantyError}
+            onWarrantyAckMissingChange={setHasWarrantyAckMissing}
             onRequiredFieldsErrorChange={setHasRequiredFieldsError}
           />
         </div>
         {saveBar}
         {pricePreviewPanel}
+        {saveConflict && (
+          <FormConflictModal
+            local={saveConflict.local as unknown as Record<string, unknown>}
+            server={saveConflict.server.form_json}
+            serverUpdatedAt={saveConflict.server.updated_at}
+            onResolve={resolveSaveConflict}
+          />
+        )}
+        {showHistoryModal && formId != null && (
+          <FormHistoryModal
+            formId={formId}
+            currentRevision={revisionRef.current}
+            hasUnsavedChanges={isDirty}
+            onRestored={() => window.location.reload()}
+            onClose={() => setShowHistoryModal(false)}
+          />
+        )}
       </div>
     );
   }
@@ -618,6 +749,7 @@ export default function CustomFormClient({
           onPinHeaderFromProduct={setSchema}
           onSizeLimitErrorChange={handleSizeLimitErrorChange}
           onWarrantyErrorChange={setHasWarrantyError}
+          onWarrantyAckMissingChange={setHasWarrantyAckMissing}
           onRequiredFieldsErrorChange={setHasRequiredFieldsError}
         />
       </div>
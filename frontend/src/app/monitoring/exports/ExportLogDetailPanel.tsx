@@ -0,0 +1,228 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  RAYNET_CUSTOM_FIELD_LABELS,
+  getExportLogDetail,
+  type ExportLogDetail,
+  type ExportLogSource,
+} from "@/lib/export-monitoring-api";
+import {
+  STATUS_BADGE_CLASS,
+  STATUS_LABELS,
+  formatDateTime,
+  formatDuration,
+} from "./export-monitoring-format";
+
+interface ExportLogDetailPanelProps {
+  source: ExportLogSource;
+  id: number;
+  onClose: () => void;
+}
+
+interface LogWarning {
+  code?: string;
+  field?: string;
+  reason?: string;
+}
+
+const sectionCls = "space-y-2 border-t border-zinc-200 pt-4 dark:border-zinc-700";
+const preCls =
+  "max-h-80 overflow-auto rounded-md bg-zinc-100 p-3 text-xs text-zinc-800 dark:bg-zinc-900 dark:text-zinc-200";
+
+function asWarnings(value: unknown): LogWarning[] {
+  return Array.isArray(value) ? (value.filter((w) => w && typeof w === "object") as LogWarning[]) : [];
+}
+
+function customFieldsOf(payload: unknown): Record<string, unknown> | null {
+  if (!payload || typeof payload !== "object") return null;
+  const fields = (payload as { customFields?: unknown }).customFields;
+  return fields && typeof fields === "object" && !Array.isArray(fields) ? (fields as Record<string, unknown>) : null;
+}
+
+function ContextRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex gap-2">
+      <span className="w-28 shrink-0 text-zinc-500">{label}</span>
+      <span className="min-w-0 break-words text-zinc-900 dark:text-zinc-50">{children}</span>
+    </div>
+  );
+}
+
+/** Detail jednoho exportu: kontext, payload s popisky polí, varování, odpověď a chyba. */
+export default function ExportLogDetailPanel({ source, id, onClose }: ExportLogDetailPanelProps) {
+  const key = `${source}/${id}`;
+  const [result, setResult] = useState<{ key: string; data?: ExportLogDetail; error?: string } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getExportLogDetail(source, id).then((res) => {
+      if (!cancelled) setResult({ key, data: res.data, error: res.success ? undefined : res.error });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [source, id, key]);
+
+  const loading = result?.key !== key;
+  const log = loading ? null : (result?.data ?? null);
+  const warnings = asWarnings(log?.warnings);
+  const customFields = customFieldsOf(log?.request_payload);
+  const raynetEventId = source === "erp" ? log?.source_raynet_event_id : log?.external_id;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/40" role="dialog" aria-modal="true" onClick={onClose}>
+      <div
+        className="h-full w-full max-w-2xl overflow-y-auto bg-white p-6 shadow-xl dark:bg-zinc-800"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="mb-4 flex items-start justify-between gap-4">
+          <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">Export #{id}</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-md bg-zinc-200 px-3 py-1.5 text-sm text-zinc-700 hover:bg-zinc-300 dark:bg-zinc-700 dark:text-zinc-200"
+          >
+            Zavřít
+          </button>
+        </div>
+
+        {loading && <p className="text-sm text-zinc-500">Načítám…</p>}
+        {!loading && result?.error && <p className="text-sm text-red-600">{result.error}</p>}
+
+        {log && (
+          <div className="space-y-4 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className={`rounded-full px-3 py-1 text-xs font-medium ${STATUS_BADGE_CLASS[log.status]}`}>
+                {STATUS_LABELS[log.status]}
+              </span>
+              <span
+                className={`rounded-full px-3 py-1 text-xs font-medium ${
+                  log.test_mode
+                    ? "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300"
+                    : "bg-zinc-100 text-zinc-600 dark:bg-zinc-700 dark:text-zinc-300"
+                }`}
+              >
+                {log.test_mode ? "TEST" : "PROD"}
+              </span>
+              <span className="text-zinc-500">
+                {formatDateTime(log.created_at)} · {formatDuration(log.duration_ms)}
+              </span>
+            </div>
+
+            <div className={sectionCls}>
+              <ContextRow label="Uživatel">{log.user_id}</ContextRow>
+              {log.order_id && (
+                <ContextRow label="Zakázka">
+                  <a href={`/orders/${log.order_id}`} className="text-accent hover:underline">
+                    #{log.order_id}
+                    {log.order_customer_name && ` — ${log.order_customer_name}`}
+                  </a>
+                  {(log.order_email || log.order_phone) && (
+                    <span className="block text-xs text-zinc-500">
+                      {[log.order_email, log.order_phone].filter(Boolean).join(" · ")}
+                    </span>
+                  )}
+                </ContextRow>
+              )}
+              {log.form_id && log.order_id && (
+                <ContextRow label="Formulář">
+                  <a href={`/orders/${log.order_id}/forms/${log.form_id}`} className="text-accent hover:underline">
+                    #{log.form_id}
+                    {log.form_variant_name && ` — ${log.form_variant_name}`}
+                  </a>
+                </ContextRow>
+              )}
+              {raynetEventId && (
+                <ContextRow label="Raynet event">
+                  <a
+                    href={`https://app.raynet.cz/#/event/${raynetEventId}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-accent hover:underline"
+                  >
+                    {raynetEventId}
+                  </a>
+                </ContextRow>
+              )}
+              {log.erp_order_id && <ContextRow label="ERP zakázka">{log.erp_order_id}</ContextRow>}
+              {log.kind && <ContextRow label="Typ">{log.kind}</ContextRow>}
+              {log.reason && <ContextRow label="Důvod">{log.reason}</ContextRow>}
+              {log.export_batch_id && <ContextRow label="Dávka">{log.export_batch_id}</ContextRow>}
+            </div>
+
+            {(log.status === "FAILED" || log.status === "UNKNOWN") && (
+              <div className={sectionCls}>
+                <p className="font-medium text-red-600 dark:text-red-400">
+                  {log.status === "UNKNOWN" ? "Neověřeno" : "Chyba"}: {log.error_code ?? "—"}
+                </p>
+                {log.error_message && (
+                  <p className="whitespace-pre-wrap text-zinc-700 dark:text-zinc-300">{log.error_message}</p>
+                )}
+              </div>
+            )}
+
+            {warnings.length > 0 && (
+              <div className={sectionCls}>
+                <p className="font-medium text-zinc-900 dark:text-zinc-50">Varování ({warnings.length})</p>
+                <ul className="space-y-1">
+                  {warnings.map((w, i) => (
+                    <li key={i} className="rounded-md bg-amber-50 px-3 py-2 text-amber-800 dark:bg-amber-900/20 dark:text-amber-300">
+                      <span className="font-medium">{w.code ?? "?"}</span>
+                      {w.field && ` · ${w.field}`}
+                      {w.reason && ` — ${w.reason}`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {customFields && (
+              <details className={sectionCls} open>
+                <summary className="cursor-pointer font-medium text-zinc-900 dark:text-zinc-50">customFields</summary>
+                <table className="w-full text-left text-xs text-zinc-700 dark:text-zinc-300">
+                  <tbody>
+                    {Object.entries(customFields).map(([fieldKey, value]) => (
+                      <tr key={fieldKey} className="border-t border-zinc-100 dark:border-zinc-700">
+                        <td className="py-1 pr-2">{RAYNET_CUSTOM_FIELD_LABELS[fieldKey] ?? "—"}</td>
+                        <td className="py-1 pr-2 font-mono text-zinc-500">{fieldKey}</td>
+                        <td className="py-1 break-all">{value == null ? "—" : String(value)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </details>
+            )}
+
+            {log.request_payload != null && (
+              <details className={sectionCls}>
+                <summary className="cursor-pointer font-medium text-zinc-900 dark:text-zinc-50">Request payload</summary>
+                <pre className={preCls}>{JSON.stringify(log.request_payload, null, 2)}</pre>
+              </details>
+            )}
+
+            {log.completed_at && (
+              <div className={sectionCls}>
+                <p className="font-medium text-zinc-900 dark:text-zinc-50">
+                  Odpověď:{" "}
+                  <span
+                    className={
+                      log.response_status != null && log.response_status < 300
+                        ? "text-green-600 dark:text-green-400"
+                        : "text-red-600 dark:text-red-400"
+                    }
+                  >
+                    {log.response_status ?? "—"}
+                  </span>
+                </p>
+                {log.response_body != null && (
+                  <pre className={preCls}>{JSON.stringify(log.response_body, null, 2)}</pre>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,670 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  getExportMonitoringStats,
+  searchExportLogs,
+  type ExportLogPage,
+  type ExportLogSortKey,
+  type ExportLogSource,
+  type ExportLogStatus,
+  type ExportMonitoringStats,
+} from "@/lib/export-monitoring-api";
+import ExportLogDetailPanel from "./ExportLogDetailPanel";
+import {
+  STATUS_BADGE_CLASS,
+  STATUS_LABELS,
+  formatDateTime,
+  formatDuration,
+} from "./export-monitoring-format";
+
+type RangePreset = "today" | "yesterday" | "week" | "month" | "custom";
+
+const SOURCE_LABELS: Record<ExportLogSource, string> = {
+  raynet: "Raynet",
+  erp: "ERP",
+  retention: "Retence",
+};
+
+const PRESET_LABELS: Record<Exclude<RangePreset, "custom">, string> = {
+  today: "Dnes",
+  yesterday: "Včera",
+  week: "Tento týden",
+  month: "Tento měsíc",
+};
+
+const FILTER_STATUSES: ExportLogStatus[] = [
+  "SUCCESS",
+  "PARTIAL_SUCCESS",
+  "FAILED",
+  "UNKNOWN",
+  "PENDING",
+  "SENDING",
+];
+
+const cardCls = "rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-700 dark:bg-zinc-800";
+const chipCls = "rounded-full px-3 py-1 text-xs font-medium transition-colors";
+const inputCls =
+  "rounded-md border border-zinc-300 bg-white px-2 py-1.5 text-sm text-zinc-900 dark:border-zinc-600 dark:bg-zinc-700 dark:text-zinc-50";
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function toDateInput(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Local-day boundaries for a preset; custom "to" is inclusive (whole day). */
+function resolveRange(preset: RangePreset, customFrom: string, customTo: string): { from: string; to: string } {
+  const today = startOfDay(new Date());
+  let from: Date;
+  let to: Date;
+  switch (preset) {
+    case "yesterday":
+      from = addDays(today, -1);
+      to = today;
+      break;
+    case "week":
+      from = addDays(today, -((today.getDay() + 6) % 7));
+      to = addDays(today, 1);
+      break;
+    case "month":
+      from = new Date(today.getFullYear(), today.getMonth(), 1);
+      to = addDays(today, 1);
+      break;
+    case "custom": {
+      const [fy, fm, fd] = customFrom.split("-").map(Number);
+      const [ty, tm, td] = customTo.split("-").map(Number);
+      from = fy ? new Date(fy, fm - 1, fd) : today;
+      to = ty ? new Date(ty, tm - 1, td + 1) : addDays(today, 1);
+      break;
+    }
+    default:
+      from = today;
+      to = addDays(today, 1);
+  }
+  return { from: from.toISOString(), to: to.toISOString() };
+}
+
+function successRateClass(rate: number | null): string {
+  if (rate === null) return "text-zinc-900 dark:text-zinc-50";
+  if (rate >= 95) return "text-green-600 dark:text-green-400";
+  if (rate >= 80) return "text-amber-600 dark:text-amber-400";
+  return "text-red-600 dark:text-red-400";
+}
+
+function KpiCard({ label, value, valueClass }: { label: string; value: string; valueClass?: string }) {
+  return (
+    <div className={cardCls}>
+      <p className="text-xs text-zinc-500 dark:text-zinc-400">{label}</p>
+      <p className={`mt-1 text-2xl font-semibold ${valueClass ?? "text-zinc-900 dark:text-zinc-50"}`}>{value}</p>
+    </div>
+  );
+}
+
+/**
+ * Monitoring exportů: KPI, graf v čase, chyby, varování, aktivita uživatelů,
+ * upozornění a filtrovatelná tabulka logů s detailem (docs/raynet-monitoring-tool.md).
+ */
+export default function ExportMonitoringClient() {
+  const [source, setSource] = useState<ExportLogSource>("raynet");
+  const [preset, setPreset] = useState<RangePreset>("today");
+  const [customFrom, setCustomFrom] = useState(() => toDateInput(new Date()));
+  const [customTo, setCustomTo] = useState(() => toDateInput(new Date()));
+
+  const [statuses, setStatuses] = useState<ExportLogStatus[]>([]);
+  const [testMode, setTestMode] = useState<"" | "true" | "false">("");
+  const [userId, setUserId] = useState("");
+  const [errorCode, setErrorCode] = useState("");
+  const [qInput, setQInput] = useState("");
+  const [q, setQ] = useState("");
+  const [sort, setSort] = useState<ExportLogSortKey>("created_at");
+  const [dir, setDir] = useState<"asc" | "desc">("desc");
+  const [page, setPage] = useState(1);
+  const [reloadTick, setReloadTick] = useState(0);
+
+  const [selected, setSelected] = useState<{ source: ExportLogSource; id: number } | null>(null);
+
+  const range = useMemo(
+    () => resolveRange(preset, customFrom, customTo),
+    // reloadTick re-resolves "today" so a refresh picks up new rows
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [preset, customFrom, customTo, reloadTick]
+  );
+
+  const statsKey = `${source}|${range.from}|${range.to}`;
+  const logsKey = [statsKey, statuses.join(","), testMode, userId, errorCode, q, sort, dir, page].join("|");
+
+  const [statsResult, setStatsResult] = useState<{ key: string; data?: ExportMonitoringStats; error?: string } | null>(null);
+  const [logsResult, setLogsResult] = useState<{ key: string; data?: ExportLogPage; error?: string } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getExportMonitoringStats(source, range.from, range.to).then((res) => {
+      if (!cancelled) setStatsResult({ key: statsKey, data: res.data, error: res.success ? undefined : res.error });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [source, range, statsKey]);
+
+  useEffect(() => {
+    let cancelled = false;
+    searchExportLogs({
+      source,
+      from: range.from,
+      to: range.to,
+      statuses,
+      testMode: testMode === "" ? undefined : testMode === "true",
+      userId: userId || undefined,
+      errorCode: errorCode || undefined,
+      q: q || undefined,
+      sort,
+      dir,
+      page,
+    }).then((res) => {
+      if (!cancelled) setLogsResult({ key: logsKey, data: res.data, error: res.success ? undefined : res.error });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [source, range, statuses, testMode, userId, errorCode, q, sort, dir, page, logsKey]);
+
+  const stats = statsResult?.data ?? null;
+  const statsLoading = statsResult?.key !== statsKey;
+  const logs = logsResult?.data ?? null;
+  const logsLoading = logsResult?.key !== logsKey;
+  const pageCount = logs ? Math.max(1, Math.ceil(logs.total / logs.page_size)) : 1;
+
+  const resetPage = () => setPage(1);
+
+  const toggleStatus = (status: ExportLogStatus) => {
+    setStatuses((prev) => (prev.includes(status) ? prev.filter((s) => s !== status) : [...prev, status]));
+    resetPage();
+  };
+
+  const toggleSort = (key: ExportLogSortKey) => {
+    if (sort === key) {
+      setDir((d) => (d === "asc" ? "desc" : "asc"));
+    } else {
+      setSort(key);
+      setDir("desc");
+    }
+    resetPage();
+  };
+
+  const sortHeader = (key: ExportLogSortKey, label: string) => (
+    <th className="px-2 py-2">
+      <button type="button" onClick={() => toggleSort(key)} className="hover:underline">
+        {label}
+        {sort === key && (dir === "asc" ? " ↑" : " ↓")}
+      </button>
+    </th>
+  );
+
+  const maxBucket = stats ? Math.max(1, ...stats.buckets.map((b) => b.success + b.failed)) : 1;
+  const maxError = stats ? Math.max(1, ...stats.errors.map((e) => e.count)) : 1;
+  const kpis = stats?.kpis;
+
+  return (
+    <div className="min-h-screen bg-zinc-50 px-4 py-8 dark:bg-zinc-900">
+      <div className="mx-auto max-w-7xl space-y-6">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <h1 className="text-3xl font-bold text-zinc-900 dark:text-zinc-50">Monitoring exportů</h1>
+          <div className="flex gap-2">
+            {(Object.keys(SOURCE_LABELS) as ExportLogSource[]).map((s) => (
+              <button
+                key={s}
+                type="button"
+                onClick={() => {
+                  setSource(s);
+                  setErrorCode("");
+                  resetPage();
+                }}
+                className={`${chipCls} ${
+                  source === s
+                    ? "bg-accent text-white"
+                    : "bg-zinc-200 text-zinc-700 hover:bg-zinc-300 dark:bg-zinc-700 dark:text-zinc-200"
+                }`}
+              >
+                {SOURCE_LABELS[s]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {(Object.keys(PRESET_LABELS) as Array<keyof typeof PRESET_LABELS>).map((p) => (
+            <button
+              key={p}
+              type="button"
+              onClick={() => {
+                setPreset(p);
+                resetPage();
+              }}
+              className={`${chipCls} ${
+                preset === p
+                  ? "bg-zinc-900 text-white dark:bg-zinc-50 dark:text-zinc-900"
+                  : "bg-zinc-200 text-zinc-700 hover:bg-zinc-300 dark:bg-zinc-700 dark:text-zinc-200"
+              }`}
+            >
+              {PRESET_LABELS[p]}
+            </button>
+          ))}
+          <input
+            type="date"
+            value={customFrom}
+            onChange={(e) => {
+              setCustomFrom(e.target.value);
+              setPreset("custom");
+              resetPage();
+            }}
+            className={inputCls}
+            aria-label="Od"
+          />
+          <span className="text-zinc-500">–</span>
+          <input
+            type="date"
+            value={customTo}
+            onChange={(e) => {
+              setCustomTo(e.target.value);
+              setPreset("custom");
+              resetPage();
+            }}
+            className={inputCls}
+            aria-label="Do"
+          />
+          <button
+            type="button"
+            onClick={() => setReloadTick((t) => t + 1)}
+            className={`${chipCls} bg-zinc-200 text-zinc-700 hover:bg-zinc-300 dark:bg-zinc-700 dark:text-zinc-200`}
+          >
+            Obnovit
+          </button>
+        </div>
+
+        {statsResult?.error && !statsLoading && (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-800 dark:border-red-800 dark:bg-red-900/20 dark:text-red-400">
+            {statsResult.error}
+          </div>
+        )}
+
+        {stats && stats.alerts.stuck.length > 0 && (
+          <div className="rounded-lg border border-red-300 bg-red-50 p-4 text-sm text-red-800 dark:border-red-800 dark:bg-red-900/20 dark:text-red-300">
+            <p className="font-semibold">Zaseknuté exporty ({stats.alerts.stuck.length}) — stav PENDING/SENDING déle než 5 minut:</p>
+            <ul className="mt-1 list-inside list-disc">
+              {stats.alerts.stuck.slice(0, 10).map((s) => (
+                <li key={s.id}>
+                  <button type="button" onClick={() => setSelected({ source, id: s.id })} className="underline">
+                    #{s.id}
+                  </button>{" "}
+                  {s.status} · {s.user_id} · {formatDateTime(s.created_at)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {stats && stats.alerts.auth_failures_last_hour > 0 && (
+          <div className="rounded-lg border border-amber-300 bg-amber-50 p-4 text-sm text-amber-800 dark:border-amber-700 dark:bg-amber-900/20 dark:text-amber-300">
+            Za poslední hodinu {stats.alerts.auth_failures_last_hour}× selhalo přihlášení — zkontrolujte přístupové údaje.
+          </div>
+        )}
+        {stats?.alerts.high_failure_rate && (
+          <div className="rounded-lg border border-red-300 bg-red-50 p-4 text-sm text-red-800 dark:border-red-800 dark:bg-red-900/20 dark:text-red-300">
+            Úspěšnost za poslední hodinu je jen {stats.alerts.last_hour_success_rate} % ({stats.alerts.last_hour_total} exportů).
+          </div>
+        )}
+
+        <div className={`grid grid-cols-2 gap-4 md:grid-cols-3 lg:grid-cols-6 ${statsLoading ? "opacity-60" : ""}`}>
+          <KpiCard label="Exporty celkem" value={kpis ? String(kpis.total) : "—"} />
+          <KpiCard
+            label="Úspěšnost"
+            value={kpis?.success_rate != null ? `${kpis.success_rate} %` : "—"}
+            valueClass={successRateClass(kpis?.success_rate ?? null)}
+          />
+          <KpiCard
+            label="Chybné"
+            value={kpis ? String(kpis.failed_count) : "—"}
+            valueClass={kpis && kpis.failed_count > 0 ? "text-red-600 dark:text-red-400" : "text-green-600 dark:text-green-400"}
+          />
+          <KpiCard
+            label="Zaseknuté"
+            value={kpis ? String(kpis.stuck_count) : "—"}
+            valueClass={kpis && kpis.stuck_count > 0 ? "text-red-600 dark:text-red-400" : "text-green-600 dark:text-green-400"}
+          />
+          <KpiCard
+            label="Průměrná doba"
+            value={formatDuration(kpis?.avg_duration_ms ?? null)}
+            valueClass={
+              kpis?.avg_duration_ms != null && kpis.avg_duration_ms > 5000 ? "text-amber-600 dark:text-amber-400" : undefined
+            }
+          />
+          <KpiCard label="Test / Prod" value={kpis ? `${kpis.test_count} / ${kpis.prod_count}` : "—"} />
+        </div>
+
+        {stats && (
+          <div className="grid gap-4 lg:grid-cols-2">
+            <div className={cardCls}>
+              <p className="mb-3 text-sm font-medium text-zinc-900 dark:text-zinc-50">
+                Exporty v čase ({stats.granularity === "hour" ? "po hodinách" : "po dnech"})
+              </p>
+              {stats.buckets.length === 0 ? (
+                <p className="text-sm text-zinc-500">Žádné exporty.</p>
+              ) : (
+                <div className="flex h-40 items-end gap-1">
+                  {stats.buckets.map((b) => (
+                    <div
+                      key={b.bucket}
+                      className="flex h-full flex-1 flex-col justify-end"
+                      title={`${formatDateTime(b.bucket)} — úspěšné ${b.success}, chybné ${b.failed}`}
+                    >
+                      <div className="bg-red-500" style={{ height: `${(b.failed / maxBucket) * 100}%` }} />
+                      <div className="bg-green-500" style={{ height: `${(b.success / maxBucket) * 100}%` }} />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {stats.errors.length > 0 && (
+              <div className={cardCls}>
+                <p className="mb-3 text-sm font-medium text-zinc-900 dark:text-zinc-50">Chyby podle kódu</p>
+                <div className="space-y-2">
+                  {stats.errors.map((e) => (
+                    <button
+                      key={e.error_code ?? "null"}
+                      type="button"
+                      onClick={() => {
+                        setStatuses(["FAILED"]);
+                        setErrorCode(e.error_code ?? "");
+                        resetPage();
+                      }}
+                      className="block w-full text-left"
+                    >
+                      <div className="flex justify-between text-xs text-zinc-600 dark:text-zinc-400">
+                        <span>{e.error_code ?? "(bez kódu)"}</span>
+                        <span>{e.count}</span>
+                      </div>
+                      <div className="h-2 rounded bg-red-500" style={{ width: `${(e.count / maxError) * 100}%` }} />
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {stats.users.length > 0 && (
+              <div className={cardCls}>
+                <p className="mb-3 text-sm font-medium text-zinc-900 dark:text-zinc-50">Aktivita uživatelů</p>
+                <table className="w-full text-left text-xs text-zinc-700 dark:text-zinc-300">
+                  <thead className="text-zinc-500">
+                    <tr>
+                      <th className="py-1">Uživatel</th>
+                      <th>Celkem</th>
+                      <th>OK / Chyba</th>
+                      <th>Test / Prod</th>
+                      <th>Poslední</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {stats.users.map((u) => (
+                      <tr key={u.user_id} className="border-t border-zinc-100 dark:border-zinc-700">
+                        <td className="py-1">
+                          <button
+                            type="button"
+                            onClick={() => {
+                              setUserId(u.user_id);
+                              resetPage();
+                            }}
+                            className="text-left hover:underline"
+                          >
+                            {u.user_id}
+                          </button>
+                        </td>
+                        <td>{u.total}</td>
+                        <td>
+                          {u.success_count} / {u.failed_count}
+                        </td>
+                        <td>
+                          {u.test_count} / {u.prod_count}
+                        </td>
+                        <td>{formatDateTime(u.last_export_at)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {stats.warnings.length > 0 && (
+              <div className={cardCls}>
+                <p className="mb-3 text-sm font-medium text-zinc-900 dark:text-zinc-50">Nejčastější varování</p>
+                <table className="w-full text-left text-xs text-zinc-700 dark:text-zinc-300">
+                  <thead className="text-zinc-500">
+                    <tr>
+                      <th className="py-1">Kód</th>
+                      <th>Pole</th>
+                      <th>Počet</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {stats.warnings.map((w) => (
+                      <tr
+                        key={`${w.warning_code}|${w.warning_field}`}
+                        className="border-t border-zinc-100 dark:border-zinc-700"
+                      >
+                        <td className="py-1">{w.warning_code ?? "—"}</td>
+                        <td>{w.warning_field ?? "—"}</td>
+                        <td>{w.occurrences}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className={cardCls}>
+          <div className="mb-4 flex flex-wrap items-center gap-2">
+            {FILTER_STATUSES.map((s) => (
+              <button
+                key={s}
+                type="button"
+                onClick={() => toggleStatus(s)}
+                className={`${chipCls} ${
+                  statuses.includes(s)
+                    ? STATUS_BADGE_CLASS[s]
+                    : "bg-zinc-100 text-zinc-600 hover:bg-zinc-200 dark:bg-zinc-700 dark:text-zinc-300"
+                }`}
+              >
+                {STATUS_LABELS[s]}
+              </button>
+            ))}
+            <select
+              value={testMode}
+              onChange={(e) => {
+                setTestMode(e.target.value as "" | "true" | "false");
+                resetPage();
+              }}
+              className={inputCls}
+              aria-label="Režim"
+            >
+              <option value="">Test i produkce</option>
+              <option value="true">Jen TEST</option>
+              <option value="false">Jen PROD</option>
+            </select>
+            <select
+              value={userId}
+              onChange={(e) => {
+                setUserId(e.target.value);
+                resetPage();
+              }}
+              className={inputCls}
+              aria-label="Uživatel"
+            >
+              <option value="">Všichni uživatelé</option>
+              {userId && !stats?.users.some((u) => u.user_id === userId) && <option value={userId}>{userId}</option>}
+              {stats?.users.map((u) => (
+                <option key={u.user_id} value={u.user_id}>
+                  {u.user_id}
+                </option>
+              ))}
+            </select>
+            {statuses.includes("FAILED") && (
+              <select
+                value={errorCode}
+                onChange={(e) => {
+                  setErrorCode(e.target.value);
+                  resetPage();
+                }}
+                className={inputCls}
+                aria-label="Chybový kód"
+              >
+                <option value="">Všechny chyby</option>
+                {stats?.errors
+                  .filter((e) => e.error_code)
+                  .map((e) => (
+                    <option key={e.error_code} value={e.error_code!}>
+                      {e.error_code}
+                    </option>
+                  ))}
+              </select>
+            )}
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                setQ(qInput.trim());
+                resetPage();
+              }}
+              className="flex gap-2"
+            >
+              <input
+                type="search"
+                value={qInput}
+                onChange={(e) => setQInput(e.target.value)}
+                placeholder="Hledat v chybové zprávě"
+                className={inputCls}
+              />
+            </form>
+          </div>
+
+          {logsResult?.error && !logsLoading && <p className="mb-3 text-sm text-red-600">{logsResult.error}</p>}
+
+          <div className={`overflow-x-auto ${logsLoading ? "opacity-60" : ""}`}>
+            <table className="w-full text-left text-sm text-zinc-700 dark:text-zinc-300">
+              <thead className="text-xs text-zinc-500">
+                <tr>
+                  {sortHeader("id", "ID")}
+                  {sortHeader("created_at", "Čas")}
+                  {sortHeader("user_id", "Uživatel")}
+                  <th className="px-2 py-2">Zakázka</th>
+                  <th className="px-2 py-2">Formulář</th>
+                  <th className="px-2 py-2">{source === "erp" ? "ERP zakázka" : "Raynet event"}</th>
+                  {sortHeader("status", "Stav")}
+                  <th className="px-2 py-2">Režim</th>
+                  <th className="px-2 py-2">Chybový kód</th>
+                  <th className="px-2 py-2">Varování</th>
+                  {sortHeader("duration_ms", "Doba")}
+                </tr>
+              </thead>
+              <tbody>
+                {logs?.items.map((log) => (
+                  <tr key={log.id} className="border-t border-zinc-100 dark:border-zinc-700">
+                    <td className="px-2 py-2">
+                      <button
+                        type="button"
+                        onClick={() => setSelected({ source: log.source, id: log.id })}
+                        className="font-medium text-accent hover:underline"
+                      >
+                        #{log.id}
+                      </button>
+                    </td>
+                    <td className="whitespace-nowrap px-2 py-2">{formatDateTime(log.created_at)}</td>
+                    <td className="px-2 py-2">{log.user_id}</td>
+                    <td className="px-2 py-2">
+                      {log.order_id ? (
+                        <a href={`/orders/${log.order_id}`} className="hover:underline">
+                          {log.order_customer_name ?? `#${log.order_id}`}
+                        </a>
+                      ) : (
+                        "—"
+                      )}
+                    </td>
+                    <td className="px-2 py-2">
+                      {log.form_id && log.order_id ? (
+                        <a href={`/orders/${log.order_id}/forms/${log.form_id}`} className="hover:underline">
+                          {log.form_variant_name ?? `#${log.form_id}`}
+                        </a>
+                      ) : (
+                        (log.kind ?? "—")
+                      )}
+                    </td>
+                    <td className="px-2 py-2">{log.external_id ?? "—"}</td>
+                    <td className="px-2 py-2">
+                      <span className={`${chipCls} ${STATUS_BADGE_CLASS[log.status]}`}>{STATUS_LABELS[log.status]}</span>
+                    </td>
+                    <td className="px-2 py-2">
+                      {log.test_mode ? (
+                        <span className={`${chipCls} bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300`}>TEST</span>
+                      ) : (
+                        <span className={`${chipCls} bg-zinc-100 text-zinc-600 dark:bg-zinc-700 dark:text-zinc-300`}>PROD</span>
+                      )}
+                    </td>
+                    <td className="px-2 py-2 text-xs">{log.status === "FAILED" ? (log.error_code ?? "—") : ""}</td>
+                    <td className="px-2 py-2 text-xs">
+                      {log.warning_count > 0 ? `${log.warning_count} varování` : ""}
+                    </td>
+                    <td className="whitespace-nowrap px-2 py-2">{formatDuration(log.duration_ms)}</td>
+                  </tr>
+                ))}
+                {logs && logs.items.length === 0 && (
+                  <tr>
+                    <td colSpan={11} className="px-2 py-6 text-center text-zinc-500">
+                      Žádné exporty pro zvolené filtry.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {logs && (
+            <div className="mt-4 flex items-center justify-between text-sm text-zinc-600 dark:text-zinc-400">
+              <span>
+                {logs.total} záznamů · strana {logs.page} / {pageCount}
+              </span>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  disabled={page <= 1}
+                  onClick={() => setPage((p) => p - 1)}
+                  className={`${chipCls} bg-zinc-200 text-zinc-700 disabled:opacity-50 dark:bg-zinc-700 dark:text-zinc-200`}
+                >
+                  Předchozí
+                </button>
+                <button
+                  type="button"
+                  disabled={page >= pageCount}
+                  onClick={() => setPage((p) => p + 1)}
+                  className={`${chipCls} bg-zinc-200 text-zinc-700 disabled:opacity-50 dark:bg-zinc-700 dark:text-zinc-200`}
+                >
+                  Další
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {selected && (
+        <ExportLogDetailPanel source={selected.source} id={selected.id} onClose={() => setSelected(null)} />
+      )}
+    </div>
+  );
+}
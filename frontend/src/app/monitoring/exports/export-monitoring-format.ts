@@ -0,0 +1,44 @@
+/**
+ * Shared labels and formatters for the export monitoring dashboard.
+ */
+
+import type { ExportLogStatus } from "@/lib/export-monitoring-api";
+
+export const STATUS_LABELS: Record<ExportLogStatus, string> = {
+  PENDING: "PENDING",
+  MAPPING: "MAPPING",
+  SENDING: "SENDING",
+  SUCCESS: "SUCCESS",
+  PARTIAL_SUCCESS: "S VAROVÁNÍM",
+  FAILED: "FAILED",
+  UNKNOWN: "NEOVĚŘENO",
+};
+
+export const STATUS_BADGE_CLASS: Record<ExportLogStatus, string> = {
+  PENDING: "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300",
+  MAPPING: "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300",
+  SENDING: "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300",
+  SUCCESS: "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300",
+  PARTIAL_SUCCESS: "bg-lime-100 text-lime-800 dark:bg-lime-900/40 dark:text-lime-300",
+  FAILED: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300",
+  UNKNOWN: "bg-violet-100 text-violet-800 dark:bg-violet-900/40 dark:text-violet-300",
+};
+
+/** DD.MM.YYYY HH:mm:ss */
+export function formatDateTime(iso: string): string {
+  return new Intl.DateTimeFormat("cs-CZ", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).format(new Date(iso));
+}
+
+/** Xms below a second, X.Xs above. */
+export function formatDuration(ms: number | null): string {
+  if (ms == null) return "—";
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  return `${(ms / 1000).toFixed(1)}s`;
+}
@@ -0,0 +1,38 @@
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { getServerSession } from "@/lib/auth-server";
+import { isMonitoringAdmin } from "@/lib/export-monitoring-server";
+import ExportMonitoringClient from "./ExportMonitoringClient";
+
+export const metadata: Metadata = {
+  title: "Monitoring exportů — Žaluzieee OVT",
+  robots: { index: false, follow: false },
+};
+
+/**
+ * Export monitoring dashboard (Raynet / ERP / retence) - Server Component.
+ * Admins only; data is loaded client-side through /api/monitoring/exports/*.
+ */
+export default async function ExportMonitoringPage() {
+  const session = await getServerSession();
+  if (!session) {
+    redirect("/login");
+  }
+
+  if (!(await isMonitoringAdmin())) {
+    return (
+      <div className="flex min-h-[calc(100vh-4rem)] items-center justify-center px-4">
+        <div className="max-w-lg rounded-2xl border border-zinc-200 bg-white p-8 text-center shadow-sm dark:border-zinc-700 dark:bg-zinc-800">
+          <h1 className="mb-3 text-2xl font-semibold text-zinc-900 dark:text-zinc-50">
+            Přístup odepřen
+          </h1>
+          <p className="text-sm text-zinc-600 dark:text-zinc-400">
+            Monitoring exportů je dostupný jen administrátorům.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return <ExportMonitoringClient />;
+}
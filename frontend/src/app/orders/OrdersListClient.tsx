@@ -2,14 +2,23 @@
 
 import { useState } from "react";
 import Link from "next/link";
-import { OrderRecord, OrdersPaginationInfo } from "@/lib/orders-api";
+import { OrderListScope, OrderRecord, OrdersPaginationInfo } from "@/lib/orders-api";
 
 interface OrdersListClientProps {
   orders: OrderRecord[];
   pagination: OrdersPaginationInfo | null;
+  /** Which orders are listed: own, or every order the user can open */
+  scope: OrderListScope;
+  /** Orders of other users show their owner */
+  currentUserEmail: string | null;
   error: string | null;
 }
 
+const SCOPE_TABS: Array<{ scope: OrderListScope; label: string; href: string }> = [
+  { scope: "mine", label: "Moje zakázky", href: "/orders" },
+  { scope: "accessible", label: "Všechny dostupné", href: "/orders?scope=accessible" },
+];
+
 /** Format date to Czech locale */
 function formatDate(dateString: string): string {
   const date = new Date(dateString);
@@ -25,6 +34,8 @@ function formatDate(dateString: string): string {
 export default function OrdersListClient({
   orders: initialOrders,
   pagination: initialPagination,
+  scope,
+  currentUserEmail,
   error: initialError,
 }: OrdersListClientProps) {
   const [orders] = useState(initialOrders);
@@ -79,6 +90,21 @@ export default function OrdersListClient({
               Založit zakázku
             </Link>
           </div>
+          <div className="mt-4 flex gap-2">
+            {SCOPE_TABS.map((tab) => (
+              <Link
+                key={tab.scope}
+                href={tab.href}
+                className={
+                  tab.scope === scope
+                    ? "rounded-md bg-zinc-900 px-3 py-1.5 text-sm font-medium text-white dark:bg-zinc-50 dark:text-zinc-900"
+                    : "rounded-md border border-zinc-300 px-3 py-1.5 text-sm font-medium text-zinc-600 hover:bg-zinc-100 dark:border-zinc-600 dark:text-zinc-400 dark:hover:bg-zinc-800"
+                }
+              >
+                {tab.label}
+              </Link>
+            ))}
+          </div>
           {pagination && (
             <p className="mt-2 text-sm text-zinc-600 dark:text-zinc-400">
               Celkem {pagination.total} zakázek
@@ -141,6 +167,7 @@ export default function OrdersListClient({
                   </div>
                   <div className="text-right text-xs text-zinc-500 dark:text-zinc-400">
                     Vytvořeno: {formatDate(order.created_at)}
+                    {order.user_id !== currentUserEmail && <p className="mt-1">Obchodník: {order.user_id}</p>}
                   </div>
                 </div>
               </Link>
@@ -13,6 +13,9 @@ import {
   type PricingFormListItem,
 } from "@/lib/pricing-forms-api";
 import { useAppMode } from "@/lib/mode-context";
+import RaynetOrderSync from "@/components/RaynetOrderSync";
+import OrderTimeline from "@/components/OrderTimeline";
+import OrderSharing from "@/components/OrderSharing";
 import {
   getRetentionStatus,
   sendOrderToRetention,
@@ -102,12 +105,16 @@ interface OrderDetailClientProps {
   order: OrderRecord;
   forms: FormRecord[];
   formsPagination: PaginationInfo | null;
+  currentUserEmail: string | null;
+  currentUserRole: string | null;
 }
 
 export default function OrderDetailClient({
   order: initialOrder,
   forms: initialForms,
   formsPagination,
+  currentUserEmail,
+  currentUserRole,
 }: OrderDetailClientProps) {
   const router = useRouter();
   const [order, setOrder] = useState(initialOrder);
@@ -122,6 +129,8 @@ export default function OrderDetailClient({
   const [basicInfoOpen, setBasicInfoOpen] = useState(true);
   const [formsOpen, setFormsOpen] = useState(true);
   const [admfOpen, setAdmfOpen] = useState(true);
+  const [timelineOpen, setTimelineOpen] = useState(false);
+  const [sharingOpen, setSharingOpen] = useState(false);
 
   // Add form modal
   const [showAddFormModal, setShowAddFormModal] = useState(false);
@@ -364,6 +373,20 @@ export default function OrderDetailClient({
     }
   };
 
+  /** Order changed by a Raynet sync / conflict resolution — refresh the synced inputs too. */
+  const handleOrderSynced = (updated: OrderRecord) => {
+    setOrder(updated);
+    setCustomerData((prev) => ({
+      ...prev,
+      name: updated.name ?? "",
+      phone: updated.phone ?? "",
+      address: updated.address ?? "",
+      city: updated.city ?? "",
+      zipcode: updated.zipcode ?? "",
+      raynet_id: updated.raynet_id != null ? String(updated.raynet_id) : "",
+    }));
+  };
+
   const handleDeleteForm = async (formId: number) => {
     if (deletingId !== null) return;
     setDeletingId(formId);
@@ -404,6 +427,7 @@ export default function OrderDetailClient({
         form_type: res.data.form_type,
         form_json: res.data.form_json,
         order_id: order.id,
+        revision: res.data.revision,
         created_at: res.data.created_at,
         updated_at: res.data.updated_at,
         deleted_at: null,
@@ -505,6 +529,11 @@ export default function OrderDetailClient({
           </div>
         )}
 
+        {/* Raynet sync: zaměření termín, conflicts with local edits, activity */}
+        {order.source_raynet_event_id != null && (
+          <RaynetOrderSync order={order} onOrderUpdated={handleOrderSynced} />
+        )}
+
         {/* Section 1: Základní informace */}
         <div className="mb-4">
           <CollapsibleCard
@@ -512,18 +541,30 @@ export default function OrderDetailClient({
             open={basicInfoOpen}
             onToggle={() => setBasicInfoOpen((v) => !v)}
             headerRight={
-              order.source_raynet_event_id ? (
-                <a
-                  href={`https://app.raynet.cz/demaxia/?view=DetailView&en=Event&ei=${order.source_raynet_event_id}`}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="inline-flex items-center gap-1.5 rounded-md border border-zinc-300 px-3 py-1.5 text-xs font-medium text-zinc-600 transition-colors hover:bg-zinc-50 dark:border-zinc-600 dark:text-zinc-400 dark:hover:bg-zinc-700"
-                >
-                  Otevřít v Raynetu
-                  <svg className="h-3.5 w-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
-                  </svg>
-                </a>
+              order.customer_id != null || order.source_raynet_event_id ? (
+                <div className="flex items-center gap-2">
+                  {order.customer_id != null && (
+                    <Link
+                      href={`/customers/${order.customer_id}`}
+                      className="inline-flex items-center gap-1.5 rounded-md border border-zinc-300 px-3 py-1.5 text-xs font-medium text-zinc-600 transition-colors hover:bg-zinc-50 dark:border-zinc-600 dark:text-zinc-400 dark:hover:bg-zinc-700"
+                    >
+                      Karta zákazníka
+                    </Link>
+                  )}
+                  {order.source_raynet_event_id ? (
+                    <a
+                      href={`https://app.raynet.cz/demaxia/?view=DetailView&en=Event&ei=${order.source_raynet_event_id}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1.5 rounded-md border border-zinc-300 px-3 py-1.5 text-xs font-medium text-zinc-600 transition-colors hover:bg-zinc-50 dark:border-zinc-600 dark:text-zinc-400 dark:hover:bg-zinc-700"
+                    >
+                      Otevřít v Raynetu
+                      <svg className="h-3.5 w-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+                      </svg>
+                    </a>
+                  ) : null}
+                </div>
               ) : undefined
             }
           >
@@ -902,6 +943,36 @@ export default function OrderDetailClient({
             )}
           </CollapsibleCard>
         </div>
+
+        {/* Section 4: Sdílení zakázky */}
+        <div className="mb-4">
+          <CollapsibleCard
+            title="Sdílení zakázky"
+            open={sharingOpen}
+            onToggle={() => setSharingOpen((v) => !v)}
+          >
+            <OrderSharing
+              order={order}
+              currentUserEmail={currentUserEmail}
+              currentUserRole={currentUserRole}
+              onOrderUpdated={setOrder}
+            />
+          </CollapsibleCard>
+        </div>
+
+        {/* Section 5: Historie zakázky */}
+        <div className="mb-4">
+          <CollapsibleCard
+            title="Historie zakázky"
+            open={timelineOpen}
+            onToggle={() => setTimelineOpen((v) => !v)}
+          >
+            <OrderTimeline
+              orderId={order.id}
+              refreshKey={`${order.updated_at}|${order.raynet_synced_at ?? ""}|${forms.length}|${retentionStatus?.latest?.id ?? ""}`}
+            />
+          </CollapsibleCard>
+        </div>
       </div>
 
       {/* Add Form Modal */}
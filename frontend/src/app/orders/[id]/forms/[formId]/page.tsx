@@ -65,6 +65,7 @@ export default async function OrderFormEditPage({
         orderId={orderId}
         formId={formId}
         initialData={initialData}
+        revision={form.revision}
         customerFromOrder={customerFromOrder}
       />
     );
@@ -85,6 +86,7 @@ export default async function OrderFormEditPage({
       <AdmfFormClient
         initialData={mergedInitialData}
         formId={formId}
+        revision={form.revision}
         orderId={orderId}
         customerFromOrder={customerFromOrder}
       />
@@ -3,6 +3,7 @@
  * Form types: custom (paste JSON), admf (generated from selected custom forms).
  */
 
+import Link from "next/link";
 import { redirect, notFound } from "next/navigation";
 import { getServerSession } from "@/lib/auth-server";
 import { fetchOrderByIdServer, fetchExtractProductsServer } from "@/lib/orders-server";
@@ -83,6 +84,25 @@ export default async function OrderFormCreatePage({
     }
 
     const extractRes = await fetchExtractProductsServer(orderId, formIds);
+    // A row that cannot be manufactured must be fixed in its OVT form — no ADMF without it.
+    if (!extractRes.success && extractRes.code === "SIZE_OUT_OF_MANUFACTURING_RANGE") {
+      return (
+        <div className="mx-auto max-w-3xl px-4 py-10">
+          <div className="rounded-lg border border-red-200 bg-red-50 p-6 dark:border-red-800 dark:bg-red-900/20">
+            <h1 className="text-base font-semibold text-red-800 dark:text-red-200">
+              ADMF nelze vytvořit — některé položky nelze vyrobit
+            </h1>
+            <p className="mt-2 text-sm text-red-700 dark:text-red-300">{extractRes.error}</p>
+            <Link
+              href={`/orders/${orderId}`}
+              className="mt-4 inline-block text-sm font-medium text-red-800 underline dark:text-red-200"
+            >
+              Zpět na zakázku
+            </Link>
+          </div>
+        </div>
+      );
+    }
     const formsRes = await fetchFormsServer({ order_id: orderId, form_type: "admf", limit: 100 });
     const existingAdmfCount = formsRes.success && formsRes.data ? formsRes.data.length : 0;
     const variantaName = `Varianta ${existingAdmfCount + 1}`;
@@ -114,6 +134,8 @@ export default async function OrderFormCreatePage({
         surcharges: p.surcharges,
         surchargeWarnings: p.surchargeWarnings,
         priceAffectingFields: p.priceAffectingFields,
+        bezZaruky: p.bezZaruky,
+        sizeLimitWarnings: p.sizeLimitWarnings,
         pricingTrace: p.pricingTrace,
       };
     });
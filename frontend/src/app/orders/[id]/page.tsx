@@ -45,6 +45,8 @@ export default async function OrderDetailPage({
       order={order}
       forms={forms}
       formsPagination={formsPagination}
+      currentUserEmail={session.user.email}
+      currentUserRole={session.user.role ?? null}
     />
   );
 }
@@ -1,25 +1,36 @@
 import { redirect } from "next/navigation";
 import { getServerSession } from "@/lib/auth-server";
 import { fetchOrdersServer } from "@/lib/orders-server";
+import type { OrderListScope } from "@/lib/orders-api";
 import OrdersListClient from "./OrdersListClient";
 
 /**
  * Orders list page (zakázky) - Server Component.
  * Fetches orders on the server and passes to Client Component.
+ * `?scope=accessible` also lists orders shared with the user, team orders (managers)
+ * and all orders (office / admin).
  */
-export default async function OrdersPage() {
+export default async function OrdersPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ scope?: string }>;
+}) {
   const session = await getServerSession();
   if (!session) {
     redirect("/login");
   }
 
-  const result = await fetchOrdersServer();
+  const { scope: scopeParam } = await searchParams;
+  const scope: OrderListScope = scopeParam === "accessible" ? "accessible" : "mine";
+  const result = await fetchOrdersServer({ scope });
 
   if (!result.success) {
     return (
       <OrdersListClient
         orders={[]}
         pagination={null}
+        scope={scope}
+        currentUserEmail={session.user.email}
         error={result.error || "Nepodařilo se načíst zakázky"}
       />
     );
@@ -29,6 +40,8 @@ export default async function OrdersPage() {
     <OrdersListClient
       orders={result.data || []}
       pagination={result.pagination || null}
+      scope={scope}
+      currentUserEmail={session.user.email}
       error={null}
     />
   );
@@ -1,6 +1,7 @@
 "use client";
 
 import NetworkStatusBanner from "@/components/pwa/NetworkStatusBanner";
+import OutboxSync from "@/components/pwa/OutboxSync";
 import ServiceWorkerRegister from "@/components/pwa/ServiceWorkerRegister";
 import { ModeProvider } from "@/lib/mode-context";
 
@@ -9,6 +10,7 @@ export default function Providers({ children }: { children: React.ReactNode }) {
     <ModeProvider>
       <ServiceWorkerRegister />
       <NetworkStatusBanner />
+      <OutboxSync />
       {children}
     </ModeProvider>
   );
@@ -1,6 +1,7 @@
 import { defaultCache } from "@serwist/next/worker";
 import type { PrecacheEntry, SerwistGlobalConfig } from "serwist";
 import { NetworkFirst, NetworkOnly, StaleWhileRevalidate, Serwist } from "serwist";
+import { OUTBOX_SYNC_TAG, replayOutbox } from "../lib/offline-outbox";
 
 declare global {
   interface WorkerGlobalScope extends SerwistGlobalConfig {
@@ -21,7 +22,8 @@ const serwist = new Serwist({
       matcher: ({ url }) => url.pathname.startsWith("/api/auth"),
       handler: new NetworkOnly(),
     },
-    // Mutations — never cache
+    // Mutations — never cache. Saves that fail offline are kept by the page in the
+    // IndexedDB outbox (lib/offline-outbox) and replayed by the "sync" handler below.
     {
       matcher: ({ request }) =>
         ["POST", "PUT", "PATCH", "DELETE"].includes(request.method),
@@ -96,3 +98,12 @@ self.addEventListener("activate", (event) => {
     })()
   );
 });
+
+// Replay form saves queued offline once connectivity returns (Chromium Background
+// Sync; a rejected replay makes the browser retry later). Browsers without it replay
+// from the page on "online" (OutboxSync).
+self.addEventListener("sync", (event) => {
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(replayOutbox());
+  }
+});
@@ -0,0 +1,224 @@
+"use client";
+
+import React from "react";
+
+type ExportFieldChangeKind = "ADD" | "UPDATE" | "UNCHANGED" | "REMOVE" | "UNKNOWN";
+
+/** One target of POST /api/forms/:id/export/preview (backend ExportTargetPreview). */
+export interface ExportTargetPreview {
+  target: "RAYNET" | "ERP";
+  key: string;
+  label: string;
+  ok: boolean;
+  error: { message: string; code: string | null } | null;
+  external_id: number | null;
+  current_loaded: boolean;
+  current_error: string | null;
+  changes: Array<{ field: string; current: unknown; next: unknown; change: ExportFieldChangeKind }>;
+  warnings: Array<{ code: string; field: string; reason: string }>;
+  generated_at: string;
+}
+
+/** Previews keyed by target key — sent back as `confirmedPreview` when the user confirms. */
+export type ExportPreviewData = Record<string, ExportTargetPreview>;
+
+interface ExportPreviewDiffProps {
+  formId: number;
+  testMode: boolean;
+  /** Called with the loaded previews, or null when the preview could not be built. */
+  onLoaded: (preview: ExportPreviewData | null) => void;
+}
+
+const CHANGE_LABEL: Record<ExportFieldChangeKind, string> = {
+  ADD: "Doplní se",
+  UPDATE: "Změní se",
+  UNCHANGED: "Beze změny",
+  REMOVE: "Odstraní se",
+  UNKNOWN: "Nelze ověřit",
+};
+
+const CHANGE_CLASS: Record<ExportFieldChangeKind, string> = {
+  ADD: "text-green-400",
+  UPDATE: "text-amber-400",
+  UNCHANGED: "text-zinc-500",
+  REMOVE: "text-red-400",
+  UNKNOWN: "text-zinc-400",
+};
+
+function formatValue(value: unknown): string {
+  if (value == null || value === "") return "—";
+  if (typeof value === "boolean") return value ? "ano" : "ne";
+  if (typeof value !== "object") return String(value);
+  const record = value as Record<string, unknown>;
+  // ERP product line
+  if (typeof record.nazev === "string") {
+    const parts = [record.nazev, `${record.ks ?? 1} ks`];
+    if (typeof record.cena_bez_dph === "number") parts.push(`${record.cena_bez_dph.toLocaleString("cs-CZ")} Kč/ks bez DPH`);
+    if (typeof record.vyrobce === "string") parts.push(record.vyrobce);
+    return parts.join(" · ");
+  }
+  // Raynet lookup read back as { id, value }
+  if ("value" in record && (typeof record.value === "string" || typeof record.value === "number")) {
+    return String(record.value);
+  }
+  return JSON.stringify(value);
+}
+
+function formatField(field: string): string {
+  if (field.startsWith("product:")) return `Produkt ${field.slice("product:".length)}`;
+  if (field === "comment") return "Komentář";
+  return field.replace(/^customFields\./, "").replace(/^column_values\./, "");
+}
+
+function TargetPreview({ preview }: { preview: ExportTargetPreview }) {
+  const [showUnchanged, setShowUnchanged] = React.useState(false);
+  const unchangedCount = preview.changes.filter((c) => c.change === "UNCHANGED").length;
+  const rows = showUnchanged ? preview.changes : preview.changes.filter((c) => c.change !== "UNCHANGED");
+
+  return (
+    <div className="rounded-lg border border-zinc-700 bg-zinc-900/30 p-3">
+      <div className="mb-2 flex items-center justify-between gap-2">
+        <span className="text-sm font-semibold text-zinc-200">{preview.label}</span>
+        {preview.external_id != null && (
+          <span className="text-xs text-zinc-500">#{preview.external_id}</span>
+        )}
+      </div>
+
+      {!preview.ok && preview.error && (
+        <p className="text-xs text-red-300">Export se neprovede: {preview.error.message}</p>
+      )}
+
+      {preview.ok && !preview.current_loaded && (
+        <p className="mb-2 text-xs text-amber-400">
+          Aktuální stav se nepodařilo načíst{preview.current_error ? ` (${preview.current_error})` : ""} — zobrazují
+          se jen nové hodnoty.
+        </p>
+      )}
+
+      {preview.ok && rows.length === 0 && (
+        <p className="text-xs text-zinc-400">Žádné změny — data v systému odpovídají formuláři.</p>
+      )}
+
+      {preview.ok && rows.length > 0 && (
+        <div className="max-h-64 overflow-auto">
+          <table className="w-full text-left text-xs">
+            <thead className="sticky top-0 bg-zinc-800 text-zinc-400">
+              <tr>
+                <th className="py-1 pr-2 font-medium">Pole</th>
+                <th className="py-1 pr-2 font-medium">Aktuální hodnota</th>
+                <th className="py-1 pr-2 font-medium">Nová hodnota</th>
+                <th className="py-1 font-medium">Změna</th>
+              </tr>
+            </thead>
+            <tbody className="text-zinc-300">
+              {rows.map((c) => (
+                <tr key={c.field} className="border-t border-zinc-700/50 align-top">
+                  <td className="py-1 pr-2 font-mono text-zinc-400">{formatField(c.field)}</td>
+                  <td className="py-1 pr-2">{formatValue(c.current)}</td>
+                  <td className="py-1 pr-2">{formatValue(c.next)}</td>
+                  <td className={`py-1 whitespace-nowrap ${CHANGE_CLASS[c.change]}`}>{CHANGE_LABEL[c.change]}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {preview.ok && unchangedCount > 0 && (
+        <button
+          type="button"
+          onClick={() => setShowUnchanged((v) => !v)}
+          className="mt-2 text-xs text-zinc-400 underline hover:text-zinc-200"
+        >
+          {showUnchanged ? "Skrýt pole beze změny" : `Zobrazit i pole beze změny (${unchangedCount})`}
+        </button>
+      )}
+
+      {preview.warnings.length > 0 && (
+        <div className="mt-2 space-y-1">
+          {preview.warnings.map((w, i) => (
+            <div key={i} className="flex items-start gap-1.5 text-xs text-amber-400">
+              <svg className="mt-0.5 h-3 w-3 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+              </svg>
+              <span>
+                <span className="font-mono">{w.code}</span> {w.field}: {w.reason}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Dry-run diff shown in the export confirmation: what the export would change in
+ * Raynet and ERP (current value → new value) plus mapping warnings. Loads once on mount.
+ */
+export default function ExportPreviewDiff({ formId, testMode, onLoaded }: ExportPreviewDiffProps) {
+  const [previews, setPreviews] = React.useState<ExportTargetPreview[] | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const onLoadedRef = React.useRef(onLoaded);
+
+  React.useEffect(() => {
+    onLoadedRef.current = onLoaded;
+  }, [onLoaded]);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch(`/api/forms/${formId}/export/preview`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify({ testMode }),
+        });
+        const json = await res.json();
+        if (cancelled) return;
+        if (!res.ok || !json?.success) {
+          setError(json?.error || "Náhled změn se nepodařilo načíst.");
+          onLoadedRef.current(null);
+          return;
+        }
+        const byTarget: ExportPreviewData = Object.fromEntries(
+          Object.entries(json.data as Record<string, unknown>).filter(([key]) => key !== "testMode")
+        ) as ExportPreviewData;
+        setPreviews(Object.values(byTarget));
+        onLoadedRef.current(byTarget);
+      } catch {
+        if (cancelled) return;
+        setError("Nepodařilo se spojit se serverem.");
+        onLoadedRef.current(null);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [formId, testMode]);
+
+  if (error) {
+    return <p className="text-xs text-amber-400">Náhled změn není k dispozici: {error}</p>;
+  }
+
+  if (!previews) {
+    return (
+      <div className="flex items-center gap-2 py-2 text-xs text-zinc-400">
+        <svg className="h-4 w-4 animate-spin text-primary" fill="none" viewBox="0 0 24 24">
+          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+        </svg>
+        Načítám náhled změn v Raynetu a ERP…
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {previews.map((preview) => (
+        <TargetPreview key={preview.key} preview={preview} />
+      ))}
+    </div>
+  );
+}
@@ -17,6 +17,20 @@ export interface ExportResult {
   erp: ExportTargetResult;
 }
 
+/** Queued export job as returned by POST /api/forms/:id/export and the batch endpoint. */
+export type ExportJob = {
+  id: number;
+  target: "RAYNET" | "ERP";
+  status: "QUEUED" | "RUNNING" | "SUCCESS" | "FAILED";
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  last_error_message: string | null;
+  last_error_code: string | null;
+  result: { logId: number; exportedAt: string; warnings: ExportTargetResult["warnings"] } | null;
+  completed_at: string | null;
+};
+
 type ExportLogRecord = {
   id: number;
   status: string;
@@ -28,12 +42,50 @@ type ExportLogRecord = {
 };
 
 interface ExportStatusModalProps {
-  result: ExportResult | null;
-  loading: boolean;
-  formId?: number | null;
+  /** Batch returned by the enqueue call; null while the enqueue request is in flight. */
+  exportBatchId: string | null;
+  testMode: boolean;
+  /** Called once every job of the batch reached SUCCESS or FAILED. */
+  onSettled?: (result: ExportResult) => void;
   onClose: () => void;
 }
 
+const POLL_INTERVAL_MS = 1500;
+
+function isJobTerminal(job: ExportJob): boolean {
+  return job.status === "SUCCESS" || job.status === "FAILED";
+}
+
+function jobToTargetResult(job: ExportJob | undefined): ExportTargetResult {
+  if (!job) return { success: false, error: "Export nebyl zařazen do fronty." };
+  if (job.status === "SUCCESS" && job.result) {
+    return {
+      success: true,
+      logId: job.result.logId,
+      exportedAt: job.result.exportedAt,
+      warnings: job.result.warnings,
+    };
+  }
+  return {
+    success: false,
+    error: job.last_error_message ?? "Export se nezdařil.",
+  };
+}
+
+/** Build the legacy result shape from settled jobs (used by the status bar in the ADMF page). */
+export function exportResultFromJobs(
+  exportBatchId: string,
+  testMode: boolean,
+  jobs: ExportJob[]
+): ExportResult {
+  return {
+    exportBatchId,
+    testMode,
+    raynet: jobToTargetResult(jobs.find((j) => j.target === "RAYNET")),
+    erp: jobToTargetResult(jobs.find((j) => j.target === "ERP")),
+  };
+}
+
 function TargetStatus({ name, data }: { name: string; data: ExportTargetResult }) {
   const warningsFiltered = (data.warnings ?? []).filter(
     (w) => w.code !== "PRODUCTS_SKIPPED"
@@ -90,44 +142,104 @@ function statusLabel(status: string | undefined | null): string {
   if (status === "SUCCESS") return "OK";
   if (status === "PARTIAL_SUCCESS") return "Částečně OK";
   if (status === "FAILED") return "Chyba";
+  if (status === "UNKNOWN") return "Neověřeno";
   if (status === "SENDING" || status === "PENDING" || status === "MAPPING") return "Probíhá";
   return status;
 }
 
-export default function ExportStatusModal({ result, loading, formId, onClose }: ExportStatusModalProps) {
-  const allSuccess = result?.raynet.success && result?.erp.success;
+function jobLabel(job: ExportJob): string {
+  if (job.status === "RUNNING") return `Probíhá (pokus ${job.attempts}/${job.max_attempts})`;
+  if (job.status === "QUEUED" && job.attempts > 0) {
+    const at = new Date(job.run_after).toLocaleTimeString("cs-CZ", { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+    return `Opakuji v ${at} (pokus ${job.attempts + 1}/${job.max_attempts})`;
+  }
+  if (job.status === "QUEUED") return "Ve frontě";
+  return statusLabel(job.status);
+}
+
+function JobProgress({
+  name,
+  job,
+  log,
+}: {
+  name: string;
+  job: ExportJob | undefined;
+  log: ExportLogRecord | null;
+}) {
+  if (!job) return null;
+  const attachments = (log?.request_payload as { attachments_summary?: unknown } | null)?.attachments_summary as
+    | { enabled?: boolean; total?: number; uploaded?: number; failed?: number }
+    | undefined;
+
+  return (
+    <div className="rounded-lg border border-zinc-700 bg-zinc-900/30 px-3 py-2 text-xs text-zinc-300">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold text-zinc-200">{name}</span>
+        <span className="text-zinc-400">{jobLabel(job)}</span>
+      </div>
+      {job.status === "RUNNING" && attachments?.enabled && typeof attachments.total === "number" && (
+        <div className="mt-1 text-zinc-400">
+          Přílohy: {attachments.uploaded ?? 0}/{attachments.total} hotovo
+          {(attachments.failed ?? 0) > 0 ? `, chyby: ${attachments.failed}` : ""}
+        </div>
+      )}
+      {job.status === "QUEUED" && job.attempts > 0 && job.last_error_message && (
+        <div className="mt-1 text-amber-400">Poslední chyba: {job.last_error_message}</div>
+      )}
+    </div>
+  );
+}
+
+export default function ExportStatusModal({ exportBatchId, testMode, onSettled, onClose }: ExportStatusModalProps) {
+  const [jobs, setJobs] = React.useState<ExportJob[]>([]);
   const [latestRaynetLog, setLatestRaynetLog] = React.useState<ExportLogRecord | null>(null);
   const [latestErpLog, setLatestErpLog] = React.useState<ExportLogRecord | null>(null);
+  const [result, setResult] = React.useState<ExportResult | null>(null);
+  const onSettledRef = React.useRef(onSettled);
+
+  React.useEffect(() => {
+    onSettledRef.current = onSettled;
+  }, [onSettled]);
 
   React.useEffect(() => {
-    if (!loading) return;
-    if (!formId) return;
+    if (!exportBatchId) return;
 
     let cancelled = false;
+    let timer: number | undefined;
     const tick = async () => {
       try {
-        const res = await fetch(`/api/forms/${formId}/export-latest`, { credentials: "include" });
+        const res = await fetch(`/api/forms/exports/${exportBatchId}`, { credentials: "include" });
         const json = await res.json();
-        if (!res.ok || !json?.success) return;
         if (cancelled) return;
-        setLatestRaynetLog(json.data?.raynet ?? null);
-        setLatestErpLog(json.data?.erp ?? null);
+        if (res.ok && json?.success) {
+          const nextJobs = (json.data?.jobs ?? []) as ExportJob[];
+          setJobs(nextJobs);
+          setLatestRaynetLog(json.data?.raynet ?? null);
+          setLatestErpLog(json.data?.erp ?? null);
+          if (nextJobs.length > 0 && nextJobs.every(isJobTerminal)) {
+            const settled = exportResultFromJobs(exportBatchId, testMode, nextJobs);
+            setResult(settled);
+            onSettledRef.current?.(settled);
+            return;
+          }
+        }
       } catch {
         // ignore polling errors
       }
+      if (!cancelled) timer = window.setTimeout(tick, POLL_INTERVAL_MS);
     };
 
     tick();
-    const id = window.setInterval(tick, 1000);
     return () => {
       cancelled = true;
-      window.clearInterval(id);
+      if (timer !== undefined) window.clearTimeout(timer);
     };
-  }, [loading, formId]);
+  }, [exportBatchId, testMode]);
 
-  const raynetProgress = (latestRaynetLog?.request_payload as any)?.attachments_summary as
-    | { enabled?: boolean; total?: number; uploaded?: number; failed?: number }
-    | undefined;
+  const loading = result == null;
+  const allSuccess = result?.raynet.success && result?.erp.success;
+  const raynetJob = jobs.find((j) => j.target === "RAYNET");
+  const erpJob = jobs.find((j) => j.target === "ERP");
 
   return (
     <div
@@ -149,33 +261,28 @@ export default function ExportStatusModal({ result, loading, formId, onClose }:
             </svg>
             <p className="text-sm text-zinc-400">Synchronizuji data s Raynetem a ERP...</p>
 
-            {(latestRaynetLog || latestErpLog) && (
+            {jobs.length > 0 && (
               <div className="mt-2 w-full max-w-sm space-y-2">
-                {latestRaynetLog && (
-                  <div className="rounded-lg border border-zinc-700 bg-zinc-900/30 px-3 py-2 text-xs text-zinc-300">
-                    <div className="flex items-center justify-between">
-                      <span className="font-semibold text-zinc-200">Raynet</span>
-                      <span className="text-zinc-400">{statusLabel(latestRaynetLog.status)}</span>
-                    </div>
-                    {raynetProgress?.enabled && typeof raynetProgress.total === "number" && (
-                      <div className="mt-1 text-zinc-400">
-                        Přílohy: {raynetProgress.uploaded ?? 0}/{raynetProgress.total} hotovo
-                        {(raynetProgress.failed ?? 0) > 0 ? `, chyby: ${raynetProgress.failed}` : ""}
-                      </div>
-                    )}
-                  </div>
-                )}
-
-                {latestErpLog && (
-                  <div className="rounded-lg border border-zinc-700 bg-zinc-900/30 px-3 py-2 text-xs text-zinc-300">
-                    <div className="flex items-center justify-between">
-                      <span className="font-semibold text-zinc-200">ERP</span>
-                      <span className="text-zinc-400">{statusLabel(latestErpLog.status)}</span>
-                    </div>
-                  </div>
-                )}
+                <JobProgress name="Raynet" job={raynetJob} log={latestRaynetLog} />
+                <JobProgress name="ERP" job={erpJob} log={latestErpLog} />
               </div>
             )}
+
+            {exportBatchId && (
+              <>
+                <p className="mt-2 text-center text-xs text-zinc-500">
+                  Export běží na serveru — okno můžete zavřít, při výpadku Raynetu nebo ERP se pokus
+                  automaticky zopakuje.
+                </p>
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="min-h-[44px] rounded-lg bg-zinc-600 px-6 py-2.5 text-sm font-medium text-zinc-100 hover:bg-zinc-500"
+                >
+                  Zavřít
+                </button>
+              </>
+            )}
           </div>
         )}
 
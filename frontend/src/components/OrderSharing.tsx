@@ -0,0 +1,201 @@
+"use client";
+
+import React from "react";
+import {
+  getOrderShares,
+  reassignOrder,
+  shareOrder,
+  unshareOrder,
+  type OrderRecord,
+  type OrderShareAccess,
+  type OrderShareRecord,
+} from "@/lib/orders-api";
+
+const ACCESS_LABEL: Record<OrderShareAccess, string> = {
+  READ: "jen čtení",
+  WRITE: "úpravy",
+};
+
+/** Roles allowed to hand an order over to another sales rep (managers within their team). */
+const REASSIGN_ROLES = new Set(["MNG", "OFFICE", "ADMIN"]);
+
+interface OrderSharingProps {
+  order: OrderRecord;
+  /** Signed-in user's e-mail — the owner sees the share controls, a colleague only their own share. */
+  currentUserEmail: string | null;
+  /** Signed-in user's role (OVT, MNG, OFFICE, ADMIN). */
+  currentUserRole: string | null;
+  /** Called with the order as saved after it was handed over. */
+  onOrderUpdated: (order: OrderRecord) => void;
+}
+
+/**
+ * Sharing block on the order page: owner, colleagues the order is shared with (READ / WRITE)
+ * and — for managers, office and admin — handing the order over to another sales rep.
+ * Every change is listed in the order timeline.
+ */
+export default function OrderSharing({
+  order,
+  currentUserEmail,
+  currentUserRole,
+  onOrderUpdated,
+}: OrderSharingProps) {
+  const [shares, setShares] = React.useState<OrderShareRecord[] | null>(null);
+  const [shareEmail, setShareEmail] = React.useState("");
+  const [shareAccess, setShareAccess] = React.useState<OrderShareAccess>("READ");
+  const [reassignEmail, setReassignEmail] = React.useState("");
+  const [busy, setBusy] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const res = await getOrderShares(order.id);
+      if (cancelled) return;
+      if (!res.success || !res.data) {
+        setError(res.error ?? "Sdílení se nepodařilo načíst.");
+        return;
+      }
+      setShares(res.data);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [order.id, order.user_id]);
+
+  const handleShare = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const email = shareEmail.trim();
+    if (!email) return;
+    setBusy("share");
+    setError(null);
+    const res = await shareOrder(order.id, email, shareAccess);
+    setBusy(null);
+    if (!res.success || !res.data) {
+      setError(res.message ?? res.error ?? "Zakázku se nepodařilo nasdílet.");
+      return;
+    }
+    const saved = res.data;
+    setShares((prev) => [...(prev ?? []).filter((s) => s.user_id !== saved.user_id), saved]);
+    setShareEmail("");
+  };
+
+  const handleUnshare = async (userId: string) => {
+    setBusy(userId);
+    setError(null);
+    const res = await unshareOrder(order.id, userId);
+    setBusy(null);
+    if (!res.success) {
+      setError(res.message ?? res.error ?? "Sdílení se nepodařilo zrušit.");
+      return;
+    }
+    setShares((prev) => (prev ?? []).filter((s) => s.user_id !== userId));
+  };
+
+  const handleReassign = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const email = reassignEmail.trim();
+    if (!email) return;
+    if (!confirm(`Opravdu předat zakázku obchodníkovi ${email}?`)) return;
+    setBusy("reassign");
+    setError(null);
+    const res = await reassignOrder(order.id, email);
+    setBusy(null);
+    if (!res.success || !res.data) {
+      setError(res.message ?? res.error ?? "Zakázku se nepodařilo předat.");
+      return;
+    }
+    setReassignEmail("");
+    onOrderUpdated(res.data);
+  };
+
+  const isOwner = currentUserEmail != null && order.user_id === currentUserEmail;
+  const canReassign = currentUserRole != null && REASSIGN_ROLES.has(currentUserRole);
+
+  return (
+    <div className="space-y-4 text-sm">
+      <p className="text-zinc-600 dark:text-zinc-400">
+        Obchodník: <span className="font-medium text-zinc-900 dark:text-zinc-50">{order.user_id}</span>
+        {!isOwner && <span className="ml-2 text-xs">(zakázku máte zpřístupněnou)</span>}
+      </p>
+
+      {shares === null && !error && <p className="text-zinc-500 dark:text-zinc-400">Načítám sdílení…</p>}
+      {shares !== null && shares.length === 0 && (
+        <p className="text-zinc-500 dark:text-zinc-400">Zakázka není s nikým sdílená.</p>
+      )}
+      {shares !== null && shares.length > 0 && (
+        <ul className="divide-y divide-zinc-200 rounded-md border border-zinc-200 dark:divide-zinc-700 dark:border-zinc-700">
+          {shares.map((s) => (
+            <li key={s.user_id} className="flex flex-wrap items-center justify-between gap-2 px-3 py-2">
+              <span className="text-zinc-900 dark:text-zinc-50">
+                {s.user_id} <span className="text-xs text-zinc-500 dark:text-zinc-400">· {ACCESS_LABEL[s.access]}</span>
+              </span>
+              {(isOwner || s.user_id === currentUserEmail) && (
+                <button
+                  type="button"
+                  onClick={() => handleUnshare(s.user_id)}
+                  disabled={busy !== null}
+                  className="rounded-md border border-red-300 px-3 py-1.5 text-xs font-medium text-red-600 hover:bg-red-50 disabled:opacity-50 dark:border-red-600 dark:text-red-400 dark:hover:bg-red-900/20"
+                >
+                  {busy === s.user_id ? "Ruším…" : "Zrušit sdílení"}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleShare} className="flex flex-wrap items-end gap-2">
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-zinc-500 dark:text-zinc-400">Sdílet s kolegou (e-mail)</span>
+          <input
+            type="email"
+            value={shareEmail}
+            onChange={(e) => setShareEmail(e.target.value)}
+            placeholder="kolega@firma.cz"
+            className="w-64 rounded-md border border-zinc-300 px-3 py-1.5 dark:border-zinc-600 dark:bg-zinc-700 dark:text-zinc-50"
+          />
+        </label>
+        <select
+          value={shareAccess}
+          onChange={(e) => setShareAccess(e.target.value as OrderShareAccess)}
+          className="rounded-md border border-zinc-300 px-3 py-1.5 dark:border-zinc-600 dark:bg-zinc-700 dark:text-zinc-50"
+        >
+          <option value="READ">{ACCESS_LABEL.READ}</option>
+          <option value="WRITE">{ACCESS_LABEL.WRITE}</option>
+        </select>
+        <button
+          type="submit"
+          disabled={busy !== null || !shareEmail.trim()}
+          className="rounded-md bg-accent px-3 py-1.5 text-xs font-medium text-white hover:bg-accent-hover disabled:opacity-50"
+        >
+          {busy === "share" ? "Sdílím…" : "Sdílet"}
+        </button>
+      </form>
+
+      {canReassign && (
+        <form onSubmit={handleReassign} className="flex flex-wrap items-end gap-2 border-t border-zinc-200 pt-4 dark:border-zinc-700">
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-zinc-500 dark:text-zinc-400">Předat zakázku obchodníkovi (e-mail)</span>
+            <input
+              type="email"
+              value={reassignEmail}
+              onChange={(e) => setReassignEmail(e.target.value)}
+              placeholder="obchodnik@firma.cz"
+              className="w-64 rounded-md border border-zinc-300 px-3 py-1.5 dark:border-zinc-600 dark:bg-zinc-700 dark:text-zinc-50"
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={busy !== null || !reassignEmail.trim()}
+            className="rounded-md border border-zinc-300 px-3 py-1.5 text-xs font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-600 dark:text-zinc-300 dark:hover:bg-zinc-700"
+          >
+            {busy === "reassign" ? "Předávám…" : "Předat zakázku"}
+          </button>
+        </form>
+      )}
+
+      {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
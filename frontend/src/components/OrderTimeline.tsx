@@ -0,0 +1,223 @@
+"use client";
+
+import React from "react";
+import { getOrderTimeline, type OrderTimelineEntry } from "@/lib/orders-api";
+
+const KIND_LABEL: Record<string, string> = {
+  ORDER_CREATED: "Zakázka založena",
+  FORM_CREATED: "Formulář vytvořen",
+  FORM_UPDATED: "Formulář upraven",
+  FORM_RESTORED: "Formulář obnoven ze starší verze",
+  FORM_DELETED: "Formulář smazán",
+  ADMF_PDF_GENERATED: "Vygenerováno PDF objednávky",
+  EXPORT: "Export",
+  RETENTION_REQUEST: "Odesláno na retence",
+  ATTACHMENT_UPLOADED: "Nahrána příloha",
+  ATTACHMENT_DELETED: "Smazána příloha",
+  NOTES_PUSHED_TO_RAYNET: "Poznámky uloženy do Raynetu",
+  RAYNET_SYNC: "Aktualizováno z Raynetu",
+  RAYNET_CONFLICT: "Konflikt s údaji v Raynetu",
+  RAYNET_CONFLICT_RESOLVED: "Konflikt s Raynetem vyřešen",
+  ORDER_REASSIGNED: "Zakázka předána",
+  ORDER_SHARED: "Zakázka nasdílena",
+  ORDER_UNSHARED: "Sdílení zrušeno",
+};
+
+const ACCESS_LABEL: Record<string, string> = {
+  READ: "jen čtení",
+  WRITE: "úpravy",
+};
+
+const STATUS_LABEL: Record<string, { label: string; className: string }> = {
+  SUCCESS: { label: "OK", className: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300" },
+  PARTIAL_SUCCESS: {
+    label: "Částečně",
+    className: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300",
+  },
+  FAILED: { label: "Chyba", className: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300" },
+};
+
+const FIELD_LABEL: Record<string, string> = {
+  name: "Jméno / firma",
+  address: "Adresa",
+  city: "Město",
+  zipcode: "PSČ",
+  phone: "Telefon",
+  raynet_id: "Raynet ID",
+  raynet_scheduled_from: "Zaměření od",
+  raynet_scheduled_till: "Zaměření do",
+  raynet_event_status: "Stav schůzky",
+};
+
+const FORM_TYPE_LABEL: Record<string, string> = {
+  custom: "výrobní formulář",
+  admf: "ADMF",
+};
+
+function formatDateTime(value: string): string {
+  return new Intl.DateTimeFormat("cs-CZ", { dateStyle: "medium", timeStyle: "short" }).format(new Date(value));
+}
+
+function text(value: unknown): string {
+  if (value == null || value === "") return "—";
+  return String(value);
+}
+
+/** One-line summary of the entry payload. */
+function describe(entry: OrderTimelineEntry): string | null {
+  const p = entry.payload;
+  const parts: string[] = [];
+  switch (entry.kind) {
+    case "FORM_CREATED":
+    case "FORM_UPDATED":
+    case "FORM_DELETED":
+      if (typeof p.form_type === "string") parts.push(FORM_TYPE_LABEL[p.form_type] ?? p.form_type);
+      if (entry.form_id != null) parts.push(`#${entry.form_id}`);
+      if (typeof p.revision === "number") parts.push(`verze ${p.revision}`);
+      if (typeof p.saves === "number" && p.saves > 1) parts.push(`${p.saves}× uloženo`);
+      break;
+    case "FORM_RESTORED":
+      if (entry.form_id != null) parts.push(`#${entry.form_id}`);
+      if (typeof p.restored_from_revision === "number") parts.push(`z verze ${p.restored_from_revision}`);
+      break;
+    case "ADMF_PDF_GENERATED":
+      if (typeof p.filename === "string") parts.push(p.filename);
+      break;
+    case "EXPORT":
+      parts.push(typeof p.label === "string" ? p.label : text(p.target));
+      if (p.external_id != null) parts.push(`#${p.external_id}`);
+      if (p.test_mode) parts.push("testovací režim");
+      if (typeof p.error === "string" && p.error) parts.push(p.error);
+      break;
+    case "RETENTION_REQUEST":
+      if (typeof p.reason === "string") parts.push(`„${p.reason}“`);
+      if (p.test_mode) parts.push("testovací režim");
+      if (typeof p.error === "string" && p.error) parts.push(p.error);
+      break;
+    case "ATTACHMENT_UPLOADED":
+    case "ATTACHMENT_DELETED":
+      parts.push(text(p.original_filename ?? p.filename));
+      break;
+    case "RAYNET_SYNC":
+    case "RAYNET_CONFLICT":
+    case "RAYNET_CONFLICT_RESOLVED": {
+      const changes = Array.isArray(p.changes) ? (p.changes as Array<Record<string, unknown>>) : [];
+      for (const c of changes) {
+        const field = FIELD_LABEL[String(c.field)] ?? String(c.field);
+        parts.push(
+          entry.kind === "RAYNET_CONFLICT"
+            ? `${field}: místně ${text(c.local)}, v Raynetu ${text(c.raynet)}`
+            : `${field}: ${text(c.from)} → ${text(c.to)}`
+        );
+      }
+      break;
+    }
+    case "ORDER_REASSIGNED":
+      parts.push(`${text(p.from)} → ${text(p.to)}`);
+      break;
+    case "ORDER_SHARED":
+    case "ORDER_UNSHARED":
+      parts.push(text(p.user_id));
+      if (typeof p.access === "string") parts.push(ACCESS_LABEL[p.access] ?? p.access);
+      break;
+  }
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
+
+interface OrderTimelineProps {
+  orderId: number;
+  /** Changes whenever the page knows the order changed — reloads the newest entries. */
+  refreshKey?: string;
+}
+
+/**
+ * Chronological history of the order (newest first): forms, PDF, exports, retention,
+ * attachments, notes and Raynet sync — from GET /api/orders/:id/timeline.
+ */
+export default function OrderTimeline({ orderId, refreshKey }: OrderTimelineProps) {
+  const [entries, setEntries] = React.useState<OrderTimelineEntry[] | null>(null);
+  const [nextBefore, setNextBefore] = React.useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const res = await getOrderTimeline(orderId);
+      if (cancelled) return;
+      if (!res.success || !res.data) {
+        setError(res.error ?? "Historii se nepodařilo načíst.");
+        return;
+      }
+      setError(null);
+      setEntries(res.data.entries);
+      setNextBefore(res.data.next_before);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [orderId, refreshKey]);
+
+  const handleLoadMore = async () => {
+    if (!nextBefore) return;
+    setLoadingMore(true);
+    const res = await getOrderTimeline(orderId, nextBefore);
+    setLoadingMore(false);
+    if (!res.success || !res.data) {
+      setError(res.error ?? "Historii se nepodařilo načíst.");
+      return;
+    }
+    const older = res.data.entries;
+    setEntries((prev) => [...(prev ?? []), ...older]);
+    setNextBefore(res.data.next_before);
+  };
+
+  if (error && !entries) {
+    return <p className="text-sm text-red-600 dark:text-red-400">{error}</p>;
+  }
+  if (!entries) {
+    return <p className="text-sm text-zinc-500 dark:text-zinc-400">Načítám historii…</p>;
+  }
+  if (entries.length === 0) {
+    return <p className="text-sm text-zinc-500 dark:text-zinc-400">U zakázky zatím není žádná historie.</p>;
+  }
+
+  return (
+    <div>
+      <ol className="relative border-l border-zinc-200 dark:border-zinc-700">
+        {entries.map((entry) => {
+          const status = entry.status ? STATUS_LABEL[entry.status] : undefined;
+          const summary = describe(entry);
+          return (
+            <li key={entry.id} className="mb-4 ml-4 last:mb-0">
+              <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-zinc-300 dark:border-zinc-800 dark:bg-zinc-600" />
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm font-medium text-zinc-900 dark:text-zinc-50">
+                  {KIND_LABEL[entry.kind] ?? entry.kind}
+                </span>
+                {status && (
+                  <span className={`rounded px-1.5 py-0.5 text-xs font-medium ${status.className}`}>{status.label}</span>
+                )}
+              </div>
+              {summary && <p className="mt-0.5 text-sm text-zinc-600 dark:text-zinc-300">{summary}</p>}
+              <p className="mt-0.5 text-xs text-zinc-500 dark:text-zinc-400">
+                {formatDateTime(entry.created_at)} · {entry.actor ?? (entry.source === "RAYNET_SYNC" ? "Raynet" : "systém")}
+              </p>
+            </li>
+          );
+        })}
+      </ol>
+      {error && <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+      {nextBefore && (
+        <button
+          type="button"
+          onClick={handleLoadMore}
+          disabled={loadingMore}
+          className="mt-4 text-sm font-medium text-accent hover:text-accent-hover disabled:opacity-50"
+        >
+          {loadingMore ? "Načítám…" : "Načíst starší"}
+        </button>
+      )}
+    </div>
+  );
+}
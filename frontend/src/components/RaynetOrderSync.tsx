@@ -0,0 +1,156 @@
+"use client";
+
+import React from "react";
+import {
+  resolveRaynetSyncConflict,
+  syncOrderFromRaynet,
+  type OrderRecord,
+  type RaynetSyncedOrderField,
+} from "@/lib/orders-api";
+
+const FIELD_LABEL: Record<string, string> = {
+  name: "Jméno / firma",
+  address: "Adresa",
+  city: "Město",
+  zipcode: "PSČ",
+  phone: "Telefon",
+  raynet_id: "Raynet ID",
+};
+
+const EVENT_STATUS_LABEL: Record<string, string> = {
+  SCHEDULED: "Naplánováno",
+  COMPLETED: "Dokončeno",
+  CANCELLED: "Zrušeno",
+};
+
+function formatValue(value: unknown): string {
+  if (value == null || value === "") return "—";
+  return String(value);
+}
+
+function formatDateTime(value: string): string {
+  return new Intl.DateTimeFormat("cs-CZ", { dateStyle: "medium", timeStyle: "short" }).format(new Date(value));
+}
+
+function formatSchedule(from: string | null | undefined, till: string | null | undefined): string | null {
+  if (!from) return null;
+  const start = formatDateTime(from);
+  if (!till) return start;
+  const end = new Intl.DateTimeFormat("cs-CZ", { timeStyle: "short" }).format(new Date(till));
+  return `${start} – ${end}`;
+}
+
+interface RaynetOrderSyncProps {
+  order: OrderRecord;
+  /** Called with the order as saved after a sync or conflict resolution. */
+  onOrderUpdated: (order: OrderRecord) => void;
+}
+
+/**
+ * Raynet sync block on the order page: zaměření termín + stav from the linked event and
+ * open conflicts (Raynet changed a field the rep edited locally). What the sync changed
+ * is listed in the order timeline.
+ */
+export default function RaynetOrderSync({ order, onOrderUpdated }: RaynetOrderSyncProps) {
+  const [busy, setBusy] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const handleSync = async () => {
+    setBusy("sync");
+    setError(null);
+    const res = await syncOrderFromRaynet(order.id);
+    setBusy(null);
+    if (!res.success || !res.data) {
+      setError(res.error ?? "Synchronizace s Raynetem selhala.");
+      return;
+    }
+    onOrderUpdated(res.data);
+  };
+
+  const handleResolve = async (field: RaynetSyncedOrderField, use: "raynet" | "local") => {
+    setBusy(field);
+    setError(null);
+    const res = await resolveRaynetSyncConflict(order.id, field, use);
+    setBusy(null);
+    if (!res.success || !res.data) {
+      setError(res.error ?? "Konflikt se nepodařilo vyřešit.");
+      return;
+    }
+    onOrderUpdated(res.data);
+  };
+
+  const conflicts = order.raynet_sync_conflicts ?? [];
+  const schedule = formatSchedule(order.raynet_scheduled_from, order.raynet_scheduled_till);
+  const status = order.raynet_event_status
+    ? EVENT_STATUS_LABEL[order.raynet_event_status] ?? order.raynet_event_status
+    : null;
+
+  return (
+    <div className="mb-4 space-y-3">
+      {conflicts.length > 0 && (
+        <div className="rounded-md border border-amber-600 bg-amber-50 p-3 text-sm dark:border-amber-500/60 dark:bg-amber-900/20">
+          <p className="font-semibold text-amber-900 dark:text-amber-200">
+            Raynet změnil údaje, které jste v zakázce upravili
+          </p>
+          <div className="mt-2 space-y-2">
+            {conflicts.map((c) => (
+              <div key={c.field} className="flex flex-wrap items-center justify-between gap-2">
+                <span className="text-amber-900 dark:text-amber-100">
+                  <span className="font-medium">{FIELD_LABEL[c.field] ?? c.field}:</span> místně{" "}
+                  <span className="font-mono">{formatValue(c.local)}</span>, v Raynetu{" "}
+                  <span className="font-mono">{formatValue(c.raynet)}</span>
+                </span>
+                <span className="flex gap-2">
+                  <button
+                    type="button"
+                    disabled={busy !== null}
+                    onClick={() => handleResolve(c.field, "raynet")}
+                    className="rounded-md bg-accent px-3 py-1.5 text-xs font-medium text-white hover:bg-accent-hover disabled:opacity-50"
+                  >
+                    Použít hodnotu z Raynetu
+                  </button>
+                  <button
+                    type="button"
+                    disabled={busy !== null}
+                    onClick={() => handleResolve(c.field, "local")}
+                    className="rounded-md border border-zinc-300 px-3 py-1.5 text-xs font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-600 dark:text-zinc-300 dark:hover:bg-zinc-700"
+                  >
+                    Ponechat místní
+                  </button>
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-zinc-200 bg-white px-5 py-3 text-sm shadow-sm dark:border-zinc-700 dark:bg-zinc-800">
+        <div className="flex flex-wrap items-center gap-x-5 gap-y-1 text-zinc-600 dark:text-zinc-400">
+          <span>
+            Zaměření: <span className="font-medium text-zinc-900 dark:text-zinc-50">{schedule ?? "—"}</span>
+          </span>
+          {status && (
+            <span>
+              Stav: <span className="font-medium text-zinc-900 dark:text-zinc-50">{status}</span>
+            </span>
+          )}
+          <span className="text-xs">
+            {order.raynet_synced_at
+              ? `Synchronizováno ${formatDateTime(order.raynet_synced_at)}`
+              : "Zatím nesynchronizováno"}
+          </span>
+        </div>
+        <button
+          type="button"
+          onClick={handleSync}
+          disabled={busy !== null}
+          className="rounded-md border border-zinc-300 px-3 py-1.5 text-xs font-medium text-zinc-600 transition-colors hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-600 dark:text-zinc-400 dark:hover:bg-zinc-700"
+        >
+          {busy === "sync" ? "Načítám z Raynetu…" : "Načíst z Raynetu"}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,343 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  cancelSigning,
+  getFormSigningStatus,
+  setErpExportOverride,
+  startSigning,
+  type FormSigningStatus,
+  type SigningDeliveryMode,
+} from "@/lib/contract-signing-api";
+import { attachmentFileUrl } from "@/lib/form-attachments-api";
+
+export interface ContractSigningModalProps {
+  formId: number;
+  /** Editor has unsaved changes — the PDF sent for signing would not contain them */
+  hasUnsavedChanges: boolean;
+  /** Prefill for "Odeslat odkaz zákazníkovi" */
+  customerEmail?: string;
+  onStatusChange?: (status: FormSigningStatus) => void;
+  onClose: () => void;
+}
+
+/** While a session is pending the status is re-pulled so a finished tablet signing shows up. */
+const PENDING_POLL_MS = 10_000;
+
+const CONTRACT_STATUS_LABELS: Record<NonNullable<FormSigningStatus["order"]>["contract_status"], string> = {
+  UNSIGNED: "Nepodepsáno",
+  PENDING: "Čeká na podpis",
+  SIGNED: "Podepsáno",
+  REJECTED: "Podpis zrušen",
+};
+
+const buttonCls =
+  "min-h-[44px] rounded-lg px-4 py-2.5 text-sm font-medium text-white disabled:opacity-50";
+
+/**
+ * E-podpis ADMF přes inSign: podpis na tabletu nebo odkaz e-mailem, stav podpisu,
+ * podepsané PDF + auditní stopa a výjimka pro export do ERP bez podpisu.
+ */
+export default function ContractSigningModal({
+  formId,
+  hasUnsavedChanges,
+  customerEmail,
+  onStatusChange,
+  onClose,
+}: ContractSigningModalProps) {
+  const [status, setStatus] = useState<FormSigningStatus | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [email, setEmail] = useState(customerEmail ?? "");
+  const [overrideReason, setOverrideReason] = useState("");
+
+  const applyStatus = useCallback(
+    (next: FormSigningStatus) => {
+      setStatus(next);
+      onStatusChange?.(next);
+    },
+    [onStatusChange]
+  );
+
+  const refresh = useCallback(async () => {
+    const res = await getFormSigningStatus(formId);
+    if (res.success && res.data) {
+      setLoadError(null);
+      applyStatus(res.data);
+    } else {
+      setLoadError(res.error ?? "Nepodařilo se načíst stav podpisu.");
+    }
+  }, [formId, applyStatus]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getFormSigningStatus(formId).then((res) => {
+      if (cancelled) return;
+      if (res.success && res.data) applyStatus(res.data);
+      else setLoadError(res.error ?? "Nepodařilo se načíst stav podpisu.");
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [formId, applyStatus]);
+
+  const session = status?.session ?? null;
+  const pending = session?.status === "PENDING";
+  const signedCurrent =
+    session?.status === "COMPLETED" && session.form_revision === status?.form_revision;
+
+  useEffect(() => {
+    if (!pending) return;
+    const timer = window.setInterval(refresh, PENDING_POLL_MS);
+    return () => window.clearInterval(timer);
+  }, [pending, refresh]);
+
+  const handleStart = async (deliveryMode: SigningDeliveryMode) => {
+    setBusy(true);
+    setActionError(null);
+    const res = await startSigning({
+      formId,
+      deliveryMode,
+      customerEmail: deliveryMode === "EXTERN" ? email.trim() || undefined : undefined,
+    });
+    setBusy(false);
+    if (!res.success || !res.data) {
+      setActionError(res.error ?? "Podpis se nepodařilo zahájit.");
+      return;
+    }
+    if (deliveryMode === "INAPP" && res.data.access_url) {
+      window.open(res.data.access_url, "_blank", "noopener");
+    }
+    await refresh();
+  };
+
+  const handleCancel = async () => {
+    setBusy(true);
+    setActionError(null);
+    const res = await cancelSigning(formId);
+    setBusy(false);
+    if (!res.success) setActionError(res.error ?? "Podpis se nepodařilo zrušit.");
+    await refresh();
+  };
+
+  const handleOverride = async (reason: string | null) => {
+    setBusy(true);
+    setActionError(null);
+    const res = await setErpExportOverride(formId, reason);
+    setBusy(false);
+    if (res.success && res.data) {
+      applyStatus(res.data);
+      setOverrideReason("");
+    } else {
+      setActionError(res.error ?? "Výjimku se nepodařilo uložit.");
+    }
+  };
+
+  const override = status?.order?.erp_export_override ?? null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="contract-signing-title"
+    >
+      <div className="max-h-[90vh] w-full max-w-lg overflow-y-auto rounded-xl border border-zinc-700 bg-zinc-800 p-6 shadow-xl">
+        <h2 id="contract-signing-title" className="mb-4 text-lg font-semibold text-zinc-50">
+          E-podpis smlouvy
+        </h2>
+
+        {!status && !loadError && <p className="text-sm text-zinc-400">Načítám…</p>}
+        {loadError && <p className="mb-4 text-sm text-red-400">{loadError}</p>}
+
+        {status && (
+          <div className="space-y-4 text-sm text-zinc-300">
+            <p>
+              Stav:{" "}
+              <span className="font-semibold text-zinc-50">
+                {status.order ? CONTRACT_STATUS_LABELS[status.order.contract_status] : "—"}
+              </span>
+              {status.order?.contract_signed_at &&
+                ` · ${new Date(status.order.contract_signed_at).toLocaleString("cs-CZ")}`}
+            </p>
+            {status.sync_error && (
+              <p className="text-xs text-amber-400">Stav z inSign se nepodařilo obnovit: {status.sync_error}</p>
+            )}
+
+            {pending && session && (
+              <div className="space-y-2 rounded-lg border border-zinc-700 p-3">
+                {session.delivery_mode === "INAPP" ? (
+                  <p>Podpis probíhá na tabletu (zákazník i zástupce prodávajícího).</p>
+                ) : (
+                  <>
+                    <p>Odkazy k podpisu byly odeslány:</p>
+                    <ul className="list-inside list-disc text-zinc-400">
+                      {session.extern_links.map((l) => (
+                        <li key={l.recipient}>{l.recipient}</li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+                {session.process_step && (
+                  <p className="text-xs text-zinc-500">Krok inSign: {session.process_step}</p>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  {session.access_url && (
+                    <button
+                      type="button"
+                      onClick={() => window.open(session.access_url!, "_blank", "noopener")}
+                      className={`${buttonCls} bg-primary hover:bg-primary/90`}
+                    >
+                      Otevřít podpis
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={refresh}
+                    disabled={busy}
+                    className={`${buttonCls} bg-zinc-600 hover:bg-zinc-500`}
+                  >
+                    Obnovit stav
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleCancel}
+                    disabled={busy}
+                    className={`${buttonCls} bg-red-600 hover:bg-red-700`}
+                  >
+                    Zrušit podpis
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {session?.status === "COMPLETED" && (
+              <div className="space-y-1 rounded-lg border border-zinc-700 p-3">
+                {!signedCurrent && (
+                  <p className="text-amber-400">
+                    ADMF byla po podpisu změněna (podepsána verze {session.form_revision}). Nechte ji podepsat znovu.
+                  </p>
+                )}
+                {session.signed_document_key ? (
+                  <a
+                    href={attachmentFileUrl(formId, session.signed_document_key)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="block text-primary hover:underline"
+                  >
+                    Podepsaná smlouva (PDF)
+                  </a>
+                ) : (
+                  <p className="text-xs text-zinc-500">Podepsaný dokument se ukládá do příloh…</p>
+                )}
+                {session.audit_key && (
+                  <a
+                    href={attachmentFileUrl(formId, session.audit_key)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="block text-primary hover:underline"
+                  >
+                    Auditní stopa podpisu
+                  </a>
+                )}
+              </div>
+            )}
+
+            {!pending && !signedCurrent && (
+              <div className="space-y-3 rounded-lg border border-zinc-700 p-3">
+                {hasUnsavedChanges && (
+                  <p className="text-amber-400">Máte neuložené změny. Nejdříve formulář uložte.</p>
+                )}
+                <button
+                  type="button"
+                  onClick={() => handleStart("INAPP")}
+                  disabled={busy || hasUnsavedChanges}
+                  className={`${buttonCls} w-full bg-primary hover:bg-primary/90`}
+                >
+                  {busy ? "Připravuji…" : "Podepsat na tabletu"}
+                </button>
+                <div className="flex flex-col gap-2 sm:flex-row">
+                  <input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="E-mail zákazníka"
+                    className="min-h-[44px] flex-1 rounded-lg border border-zinc-600 bg-zinc-700 px-3 py-2 text-sm text-zinc-50 outline-none focus:border-primary"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => handleStart("EXTERN")}
+                    disabled={busy || hasUnsavedChanges || email.trim() === ""}
+                    className={`${buttonCls} bg-zinc-600 hover:bg-zinc-500`}
+                  >
+                    Odeslat odkaz zákazníkovi
+                  </button>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2 border-t border-zinc-700 pt-4">
+              <p className="font-medium text-zinc-200">Export do ERP</p>
+              {override ? (
+                <>
+                  <p className="text-amber-400">
+                    Povolen bez podpisu: {override.reason}
+                    {override.by && ` (${override.by})`}
+                  </p>
+                  {status.can_override_erp_gate && (
+                    <button
+                      type="button"
+                      onClick={() => handleOverride(null)}
+                      disabled={busy}
+                      className={`${buttonCls} bg-zinc-600 hover:bg-zinc-500`}
+                    >
+                      Zrušit výjimku
+                    </button>
+                  )}
+                </>
+              ) : status.erp_export_allowed ? (
+                <p className="text-green-400">Smlouva je podepsaná, export do ERP je povolen.</p>
+              ) : (
+                <>
+                  <p className="text-zinc-400">{status.erp_export_block_reason}</p>
+                  {status.can_override_erp_gate && (
+                    <>
+                      <textarea
+                        value={overrideReason}
+                        onChange={(e) => setOverrideReason(e.target.value)}
+                        rows={2}
+                        placeholder="Důvod exportu bez podpisu"
+                        className="w-full rounded-lg border border-zinc-600 bg-zinc-700 px-3 py-2 text-sm text-zinc-50 outline-none focus:border-primary"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => handleOverride(overrideReason)}
+                        disabled={busy || overrideReason.trim() === ""}
+                        className={`${buttonCls} bg-amber-600 hover:bg-amber-700`}
+                      >
+                        Povolit export bez podpisu
+                      </button>
+                    </>
+                  )}
+                </>
+              )}
+            </div>
+
+            {actionError && <p className="text-sm text-red-400">{actionError}</p>}
+          </div>
+        )}
+
+        <div className="mt-6 flex justify-end">
+          <button
+            type="button"
+            onClick={onClose}
+            className="min-h-[44px] rounded-lg bg-zinc-600 px-4 py-2.5 text-sm font-medium text-zinc-100 hover:bg-zinc-500"
+          >
+            Zavřít
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
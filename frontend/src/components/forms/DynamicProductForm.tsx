@@ -11,6 +11,7 @@ import type {
   Room,
   SectionBlock,
 } from "@/types/json-schema-form.types";
+import { describeSizeLimitViolation, sizeLimitViolation } from "@ovt/pricing-engine";
 import { resolveProductNameFromPayload } from "@/lib/resolve-product-name";
 import { checkSizeLimits, type SizeLimitsResult } from "@/lib/size-limits-api";
 import {
@@ -180,6 +181,8 @@ export interface DynamicProductFormProps {
   actionsFooter?: React.ReactNode;
   onSizeLimitErrorChange?: (hasError: boolean) => void;
   onWarrantyErrorChange?: (hasError: boolean) => void;
+  /** True while some row outside the warranty range has no "bez záruky" acknowledgement. */
+  onWarrantyAckMissingChange?: (missing: boolean) => void;
   onRequiredFieldsErrorChange?: (hasError: boolean) => void;
 }
 
@@ -209,6 +212,7 @@ export default function DynamicProductForm({
   actionsFooter,
   onSizeLimitErrorChange,
   onWarrantyErrorChange,
+  onWarrantyAckMissingChange,
   onRequiredFieldsErrorChange,
 }: DynamicProductFormProps) {
   const [pickerTarget, setPickerTarget] = useState<PickerTarget | null>(null);
@@ -348,13 +352,17 @@ export default function DynamicProductForm({
   }, [formData.rooms, getRowSchema, getWidthHeightForRow, getRowValuesForApi]);
 
   useEffect(() => {
-    const hasManufacturingError = Object.values(sizeLimitByRow).some((r) => !r.in_manufacturing_range);
-    const hasWarrantyError = Object.values(sizeLimitByRow).some(
-      (r) => r.in_manufacturing_range && !r.in_warranty_range
+    const hasManufacturingError = Object.values(sizeLimitByRow).some(
+      (r) => sizeLimitViolation(r) === "manufacturing"
+    );
+    const hasWarrantyError = Object.values(sizeLimitByRow).some((r) => sizeLimitViolation(r) === "warranty");
+    const warrantyAckMissing = formData.rooms.some((room) =>
+      room.rows.some((row) => sizeLimitViolation(sizeLimitByRow[row.id]) === "warranty" && !row.bezZarukyAck)
     );
     onSizeLimitErrorChange?.(hasManufacturingError);
     onWarrantyErrorChange?.(hasWarrantyError);
-  }, [sizeLimitByRow, onSizeLimitErrorChange, onWarrantyErrorChange]);
+    onWarrantyAckMissingChange?.(warrantyAckMissing);
+  }, [sizeLimitByRow, formData.rooms, onSizeLimitErrorChange, onWarrantyErrorChange, onWarrantyAckMissingChange]);
 
   // Auto-expand "Hromadné úpravy" for each (room, product) pair the first time we see it,
   // if it already has any non-empty shared value (e.g. loaded from persisted form_json).
@@ -841,6 +849,8 @@ export default function DynamicProductForm({
           }
         }
         updatedRow = { ...row, values: updatedValues };
+        // A new size needs a new bez záruky acknowledgement.
+        if (isDimensionPropertyCode(propertyCode)) delete updatedRow.bezZarukyAck;
         flat = catalogRowToFormRow(updatedRow);
 
         let rows = [...room.rows];
@@ -876,6 +886,25 @@ export default function DynamicProductForm({
     }));
   };
 
+  const handleBezZarukyAckChange = (roomId: string, rowId: string, ack: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      rooms: prev.rooms.map((room) =>
+        room.id !== roomId
+          ? room
+          : {
+              ...room,
+              rows: room.rows.map((r) => {
+                if (r.id !== rowId) return r;
+                const next: CatalogFormRow = { ...r, bezZarukyAck: true };
+                if (!ack) delete next.bezZarukyAck;
+                return next;
+              }),
+            }
+      ),
+    }));
+  };
+
   /**
    * Set a shared value for a (room, product) pair and propagate it to all non-overridden rows
    * of that product in that room. Also runs dependency cascades per affected row.
@@ -1372,12 +1401,9 @@ export default function DynamicProductForm({
                           ).length;
 
                           const anyOutM = runRows.some(
-                            (r) => sizeLimitByRow[r.id] && !sizeLimitByRow[r.id]!.in_manufacturing_range
+                            (r) => sizeLimitViolation(sizeLimitByRow[r.id]) === "manufacturing"
                           );
-                          const anyOutW = runRows.some((r) => {
-                            const lim = sizeLimitByRow[r.id];
-                            return lim && lim.in_manufacturing_range && !lim.in_warranty_range;
-                          });
+                          const anyOutW = runRows.some((r) => sizeLimitViolation(sizeLimitByRow[r.id]) === "warranty");
                           // Bulk-edit (Hromadné úpravy) toggle state and indicators.
                           const bulkKey = `${room.id}:${samplePid}`;
                           const bulkOpen = bulkEditExpanded[bulkKey] === true;
@@ -1545,8 +1571,9 @@ export default function DynamicProductForm({
                                       const previewState = pricePreviewByRow[row.id];
                                       const isPreviewLoading =
                                         pricePreviewModal?.rowId === row.id && previewState?.status === "loading";
-                                      const outM = limit && !limit.in_manufacturing_range;
-                                      const outW = limit && limit.in_manufacturing_range && !limit.in_warranty_range;
+                                      const violation = sizeLimitViolation(limit);
+                                      const outM = violation === "manufacturing";
+                                      const outW = violation === "warranty";
                                       const rowTone = outM
                                         ? "bg-red-50/60 dark:bg-red-950/20"
                                         : outW
@@ -1610,15 +1637,24 @@ export default function DynamicProductForm({
                                                 Smazat
                                               </button>
                                             </div>
-                                            {(outM || outW) && limit ? (
+                                            {violation ? (
                                               <p
                                                 className={`mt-2 text-[10px] leading-tight ${outM ? "text-red-800 dark:text-red-200" : "text-amber-800 dark:text-amber-200"}`}
                                               >
-                                                {outM
-                                                  ? `Rozměr je mimo výrobu (${limit.mezni_sirka_min}–${limit.mezni_sirka_max} × ${limit.mezni_vyska_min}–${limit.mezni_vyska_max}).`
-                                                  : "Rozměr je mimo záruční rozsah."}
+                                                {describeSizeLimitViolation(limit)}
                                               </p>
                                             ) : null}
+                                            {outW ? (
+                                              <label className="mt-1.5 flex items-start gap-1.5 text-[11px] font-medium text-amber-900 dark:text-amber-100">
+                                                <input
+                                                  type="checkbox"
+                                                  checked={row.bezZarukyAck === true}
+                                                  onChange={(e) => handleBezZarukyAckChange(room.id, row.id, e.target.checked)}
+                                                  className="mt-0.5 h-3.5 w-3.5 rounded border-amber-400 text-amber-600"
+                                                />
+                                                Zákazník souhlasí s výrobou bez záruky
+                                              </label>
+                                            ) : null}
                                           </td>
                                         </tr>
                                       );
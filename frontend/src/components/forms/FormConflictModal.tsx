@@ -0,0 +1,123 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import {
+  diffFormConflict,
+  formatConflictValue,
+  mergeFormConflict,
+  type ConflictChoice,
+} from "@/lib/form-conflict";
+
+export interface FormConflictModalProps {
+  /** What this device tried to save */
+  local: Record<string, unknown>;
+  /** Current server copy (from the 409 response) */
+  server: Record<string, unknown>;
+  /** When the server copy was last saved (ISO) */
+  serverUpdatedAt?: string;
+  /** Receives the merged form_json the user chose field by field */
+  onResolve: (merged: Record<string, unknown>) => void;
+}
+
+/**
+ * Shown when a save was rejected because the form changed elsewhere (other device,
+ * office). Lists every differing field and lets the user keep their value or the
+ * server value per field.
+ */
+export default function FormConflictModal({ local, server, serverUpdatedAt, onResolve }: FormConflictModalProps) {
+  const conflicts = useMemo(() => diffFormConflict(local, server), [local, server]);
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>(() =>
+    Object.fromEntries(conflicts.map((c) => [c.key, "local" as ConflictChoice]))
+  );
+
+  const setAll = (choice: ConflictChoice) => {
+    setChoices(Object.fromEntries(conflicts.map((c) => [c.key, choice])));
+  };
+
+  const apply = () => onResolve(mergeFormConflict(local, server, conflicts, choices));
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="form-conflict-title"
+    >
+      <div className="flex max-h-[90vh] w-full max-w-2xl flex-col overflow-hidden rounded-xl border border-zinc-200 bg-white shadow-xl dark:border-zinc-700 dark:bg-zinc-900">
+        <div className="border-b border-amber-200 bg-amber-50 px-4 py-3 dark:border-amber-800 dark:bg-amber-950/40">
+          <h2 id="form-conflict-title" className="text-lg font-semibold text-amber-950 dark:text-amber-100">
+            Formulář byl mezitím změněn jinde
+          </h2>
+          <p className="mt-1 text-sm text-amber-900/90 dark:text-amber-200/90">
+            Někdo (nebo jiné zařízení) uložil tento formulář
+            {serverUpdatedAt ? ` ${new Date(serverUpdatedAt).toLocaleString("cs-CZ")}` : ""}. U každého pole
+            vyberte, kterou hodnotu ponechat.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-4 py-3">
+          {conflicts.length === 0 ? (
+            <p className="text-sm text-zinc-600 dark:text-zinc-400">
+              Obsah se neliší — stačí potvrdit a uložit znovu.
+            </p>
+          ) : (
+            <table className="w-full text-left text-sm">
+              <thead>
+                <tr className="text-xs uppercase text-zinc-500 dark:text-zinc-400">
+                  <th className="py-1 pr-2 font-medium">Pole</th>
+                  <th className="py-1 pr-2 font-medium">Moje změna</th>
+                  <th className="py-1 font-medium">Na serveru</th>
+                </tr>
+              </thead>
+              <tbody>
+                {conflicts.map((c) => (
+                  <tr key={c.key} className="border-t border-zinc-200 align-top dark:border-zinc-700">
+                    <td className="py-2 pr-2 font-medium text-zinc-800 dark:text-zinc-200">{c.label}</td>
+                    {(["local", "server"] as const).map((side) => (
+                      <td key={side} className="py-2 pr-2">
+                        <label className="flex cursor-pointer items-start gap-2 text-zinc-700 dark:text-zinc-300">
+                          <input
+                            type="radio"
+                            name={`conflict-${c.key}`}
+                            checked={choices[c.key] === side}
+                            onChange={() => setChoices((prev) => ({ ...prev, [c.key]: side }))}
+                            className="mt-1"
+                          />
+                          <span className="break-all">{formatConflictValue(side === "local" ? c.local : c.server)}</span>
+                        </label>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-2 border-t border-zinc-200 px-4 py-3 dark:border-zinc-700">
+          <button
+            type="button"
+            onClick={() => setAll("server")}
+            className="rounded-md border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 dark:border-zinc-600 dark:text-zinc-200 dark:hover:bg-zinc-800"
+          >
+            Vše ze serveru
+          </button>
+          <button
+            type="button"
+            onClick={() => setAll("local")}
+            className="rounded-md border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 dark:border-zinc-600 dark:text-zinc-200 dark:hover:bg-zinc-800"
+          >
+            Vše moje
+          </button>
+          <button
+            type="button"
+            onClick={apply}
+            className="rounded-md bg-amber-600 px-4 py-2 text-sm font-medium text-white hover:bg-amber-700"
+          >
+            Použít výběr
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import {
+  getFormRevisionDiff,
+  getFormRevisions,
+  restoreFormRevision,
+  type FormRecord,
+  type FormRevisionChange,
+  type FormRevisionDiff,
+  type FormRevisionSummary,
+} from "@/lib/forms-api";
+import { formatConflictValue } from "@/lib/form-conflict";
+
+export interface FormHistoryModalProps {
+  formId: number;
+  /** Revision currently loaded in the editor (sent as base_revision on restore) */
+  currentRevision?: number;
+  /** Editor has changes that restoring would discard */
+  hasUnsavedChanges: boolean;
+  /** Called with the restored form; the caller reloads its state from it */
+  onRestored: (form: FormRecord) => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<FormRevisionSummary["source"], string> = {
+  BASELINE: "výchozí stav",
+  CREATE: "vytvoření",
+  UPDATE: "uložení",
+  RESTORE: "obnovení",
+};
+
+function revisionLabel(rev: FormRevisionSummary): string {
+  const source =
+    rev.source === "RESTORE" && rev.restored_from_revision != null
+      ? `obnovení verze ${rev.restored_from_revision}`
+      : SOURCE_LABELS[rev.source];
+  return `Verze ${rev.revision} · ${source}`;
+}
+
+function ChangeLine({ change }: { change: FormRevisionChange }) {
+  if (change.kind === "added") {
+    return (
+      <li className="text-green-700 dark:text-green-400">
+        <span className="font-medium">{change.label}</span>: přidáno
+      </li>
+    );
+  }
+  if (change.kind === "removed") {
+    return (
+      <li className="text-red-700 dark:text-red-400">
+        <span className="font-medium">{change.label}</span>: odebráno
+      </li>
+    );
+  }
+  const hasValues = "before" in change || "after" in change;
+  return (
+    <li className="text-zinc-700 dark:text-zinc-300">
+      <span className="font-medium">{change.label}</span>
+      {hasValues ? `: ${formatConflictValue(change.before)} → ${formatConflictValue(change.after)}` : ": změněno"}
+    </li>
+  );
+}
+
+/**
+ * Version history of a saved form: list of revisions, per-field diff of a selected
+ * revision against the current state, and "Obnovit tuto verzi".
+ */
+export default function FormHistoryModal({
+  formId,
+  currentRevision,
+  hasUnsavedChanges,
+  onRestored,
+  onClose,
+}: FormHistoryModalProps) {
+  const [revisions, setRevisions] = useState<FormRevisionSummary[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [diff, setDiff] = useState<FormRevisionDiff | null>(null);
+  const [diffLoading, setDiffLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getFormRevisions(formId).then((list) => {
+      if (cancelled) return;
+      if (!list) setLoadError("Historii se nepodařilo načíst.");
+      setRevisions(list ?? []);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [formId]);
+
+  /** Only the diff for the most recently clicked revision is applied. */
+  const diffRequestRef = useRef(0);
+
+  const selectRevision = (revision: number) => {
+    const request = ++diffRequestRef.current;
+    setSelected(revision);
+    setDiff(null);
+    setDiffLoading(true);
+    getFormRevisionDiff(formId, revision).then((result) => {
+      if (request !== diffRequestRef.current) return;
+      setDiff(result);
+      setDiffLoading(false);
+    });
+  };
+
+  const latestRevision = revisions?.[0]?.revision;
+
+  const handleRestore = async () => {
+    if (selected == null) return;
+    setRestoring(true);
+    setRestoreError(null);
+    const res = await restoreFormRevision(formId, selected, currentRevision);
+    setRestoring(false);
+    if (res.success && res.data) {
+      onRestored(res.data as FormRecord);
+      return;
+    }
+    setRestoreError(
+      res.conflict
+        ? "Formulář byl mezitím změněn jinde. Načtěte stránku znovu a zkuste to prosím znovu."
+        : res.error ?? "Obnovení se nepodařilo."
+    );
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="form-history-title"
+    >
+      <div className="flex max-h-[90vh] w-full max-w-3xl flex-col overflow-hidden rounded-xl border border-zinc-200 bg-white shadow-xl dark:border-zinc-700 dark:bg-zinc-900">
+        <div className="flex items-center justify-between border-b border-zinc-200 px-4 py-3 dark:border-zinc-700">
+          <h2 id="form-history-title" className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">
+            Historie verzí
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-md px-2 py-1 text-sm text-zinc-500 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-800"
+          >
+            Zavřít
+          </button>
+        </div>
+
+        <div className="flex min-h-0 flex-1 flex-col sm:flex-row">
+          <ul className="max-h-48 overflow-y-auto border-b border-zinc-200 sm:max-h-none sm:w-64 sm:border-b-0 sm:border-r dark:border-zinc-700">
+            {revisions == null && (
+              <li className="px-4 py-3 text-sm text-zinc-500 dark:text-zinc-400">Načítám…</li>
+            )}
+            {loadError && <li className="px-4 py-3 text-sm text-red-600 dark:text-red-400">{loadError}</li>}
+            {revisions?.map((rev) => (
+              <li key={rev.id}>
+                <button
+                  type="button"
+                  onClick={() => selectRevision(rev.revision)}
+                  className={`w-full px-4 py-2 text-left text-sm ${
+                    selected === rev.revision
+                      ? "bg-zinc-100 dark:bg-zinc-800"
+                      : "hover:bg-zinc-50 dark:hover:bg-zinc-800/60"
+                  }`}
+                >
+                  <div className="font-medium text-zinc-800 dark:text-zinc-200">
+                    {revisionLabel(rev)}
+                    {rev.revision === latestRevision && " (aktuální)"}
+                  </div>
+                  <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                    {new Date(rev.created_at).toLocaleString("cs-CZ")} · {rev.user_id}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="min-h-0 flex-1 overflow-y-auto px-4 py-3 text-sm">
+            {selected == null ? (
+              <p className="text-zinc-500 dark:text-zinc-400">Vyberte verzi pro porovnání s aktuálním stavem.</p>
+            ) : diffLoading ? (
+              <p className="text-zinc-500 dark:text-zinc-400">Porovnávám…</p>
+            ) : !diff ? (
+              <p className="text-red-600 dark:text-red-400">Rozdíly se nepodařilo načíst.</p>
+            ) : diff.changes.length === 0 ? (
+              <p className="text-zinc-500 dark:text-zinc-400">Verze {selected} je shodná s aktuálním stavem.</p>
+            ) : (
+              <>
+                <p className="mb-2 text-xs text-zinc-500 dark:text-zinc-400">
+                  Změny z verze {diff.from_revision} na aktuální verzi {diff.to_revision}:
+                </p>
+                <ul className="space-y-1">
+                  {diff.changes.map((change) => (
+                    <ChangeLine key={`${change.kind}:${change.path.join(".")}`} change={change} />
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+        </div>
+
+        {selected != null && selected !== latestRevision && (
+          <div className="flex flex-wrap items-center justify-end gap-3 border-t border-zinc-200 px-4 py-3 dark:border-zinc-700">
+            {hasUnsavedChanges && (
+              <p className="mr-auto text-xs text-amber-700 dark:text-amber-400">
+                Neuložené změny budou obnovením zahozeny.
+              </p>
+            )}
+            {restoreError && <p className="mr-auto text-xs text-red-600 dark:text-red-400">{restoreError}</p>}
+            <button
+              type="button"
+              onClick={handleRestore}
+              disabled={restoring}
+              className="rounded-md bg-amber-600 px-4 py-2 text-sm font-medium text-white hover:bg-amber-700 disabled:opacity-50"
+            >
+              {restoring ? "Obnovuji…" : `Obnovit verzi ${selected}`}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   getAdmfDefaults,
-  getFormPricePreview,
+  getLocalFormPricePreview,
   type AdmfDefaults,
   type FormPreviewParameters,
   type FormPreviewResponseData,
@@ -80,20 +80,21 @@ export default function FormPricePreviewPanel({
     };
   }, [defaults, overrides]);
 
-  // Re-fetch the preview whenever inputs change. Debounced so rapid edits don't
-  // hammer the server.
+  // Recompute the preview whenever inputs change. Priced on the device from cached
+  // product bundles (works offline); debounced so typing doesn't rebuild form_json
+  // on every keystroke.
   const refresh = useCallback(async () => {
-    if (!params) return;
+    if (!params || !defaults) return;
     setLoading(true);
     setError(null);
-    const r = await getFormPricePreview({ formJson: buildFormJson(), parameters: params });
+    const r = await getLocalFormPricePreview({ formJson: buildFormJson(), parameters: params, defaults });
     setLoading(false);
     if (r.success && r.data) {
       setResult(r.data);
     } else {
       setError(r.error ?? "Nepodařilo se načíst náhled");
     }
-  }, [params, buildFormJson]);
+  }, [params, defaults, buildFormJson]);
 
   useEffect(() => {
     if (!open || !params) return;
@@ -448,6 +449,17 @@ function LinesBlock({
                     {l.roomName && (
                       <div className="text-xs text-zinc-500 dark:text-zinc-400">{l.roomName}</div>
                     )}
+                    {l.grid_warning && (
+                      <div
+                        className={
+                          l.grid_fit === "snapped_below_min"
+                            ? "mt-1 text-xs text-zinc-600 dark:text-zinc-300"
+                            : "mt-1 rounded bg-amber-100 px-1.5 py-0.5 text-xs font-medium text-amber-900 dark:bg-amber-900/40 dark:text-amber-200"
+                        }
+                      >
+                        {l.grid_warning}
+                      </div>
+                    )}
                   </td>
                   <td className="px-3 py-2 text-right tabular-nums">{l.ks}</td>
                   <td className="px-3 py-2 text-right tabular-nums">
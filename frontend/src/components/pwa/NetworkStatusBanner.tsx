@@ -48,7 +48,7 @@ export default function NetworkStatusBanner() {
       }`}
     >
       {isOffline
-        ? "Jste offline — zobrazená data mohou být neaktuální"
+        ? "Jste offline — uložené formuláře se odešlou po připojení"
         : "Připojení obnoveno"}
     </div>
   );
@@ -0,0 +1,26 @@
+"use client";
+
+import { useEffect } from "react";
+import { replayOutbox } from "@/lib/offline-outbox";
+
+/**
+ * Sends form saves queued offline (IndexedDB outbox) once the device is back online.
+ * The service worker does the same on Background Sync; this covers browsers without
+ * it (Safari / iPad) and an app that was reopened after the sync already ran out.
+ */
+export default function OutboxSync() {
+  useEffect(() => {
+    const replay = () => {
+      if (!navigator.onLine) return;
+      replayOutbox().catch((err: unknown) => {
+        console.warn("Offline outbox replay failed:", err);
+      });
+    };
+
+    replay();
+    window.addEventListener("online", replay);
+    return () => window.removeEventListener("online", replay);
+  }, []);
+
+  return null;
+}
@@ -26,6 +26,8 @@ export async function getMainBackendToken(request?: NextRequest): Promise<string
     const email = session.user.email;
     const raynetId = session.user.raynet_id ?? null;
     const raynetName = session.user.raynet_name ?? null;
+    // Verified app_metadata claim of the access token (auth-role.ts), never a cookie.
+    const role = session.user.role ?? null;
     const secret = process.env.NEXTAUTH_SECRET || process.env.JWT_SECRET;
 
     if (!secret) {
@@ -34,13 +36,14 @@ export async function getMainBackendToken(request?: NextRequest): Promise<string
     }
 
     // Create JWT token compatible with main backend's jwt.verify
-    // Main backend expects: { email, id?, raynet_id?, raynet_name? }
+    // Main backend expects: { email, id?, raynet_id?, raynet_name?, role? }
     const jwtToken = jwt.sign(
       {
         email: email,
         id: email, // Use email as id (main backend pattern)
         raynet_id: raynetId,
         raynet_name: raynetName,
+        role,
       },
       secret,
       { expiresIn: "1h" }
@@ -70,6 +73,8 @@ export async function createMainBackendToken(): Promise<string | null> {
     const email = session.user.email;
     const raynetId = session.user.raynet_id ?? null;
     const raynetName = session.user.raynet_name ?? null;
+    // Verified app_metadata claim of the access token (auth-role.ts), never a cookie.
+    const role = session.user.role ?? null;
     const secret = process.env.NEXTAUTH_SECRET || process.env.JWT_SECRET;
 
     if (!secret) {
@@ -83,6 +88,7 @@ export async function createMainBackendToken(): Promise<string | null> {
         id: email,
         raynet_id: raynetId,
         raynet_name: raynetName,
+        role,
       },
       secret,
       { expiresIn: "1h" }
@@ -0,0 +1,30 @@
+/**
+ * User role (OVT / MNG / OFFICE / ADMIN) for the main backend JWT. Server-only.
+ *
+ * Read from the `app_metadata.role` claim of the verified Supabase access token —
+ * app_metadata can only be written with the service key, so neither the user nor a
+ * cookie can raise it (Supabase's top-level `role` claim is always "authenticated").
+ * The token is verified with SUPABASE_JWT_SECRET; without it, or for any token that
+ * does not verify, the user is a rep (null).
+ */
+
+import jwt from "jsonwebtoken";
+
+const USER_ROLES = ["OVT", "MNG", "OFFICE", "ADMIN"] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+/** Role from the verified access token's app_metadata, or null (rep / unverifiable). */
+export function getVerifiedUserRole(accessToken: string | null | undefined): UserRole | null {
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  if (!accessToken || !secret) return null;
+  try {
+    const claims = jwt.verify(accessToken, secret, { algorithms: ["HS256"] });
+    if (!claims || typeof claims !== "object") return null;
+    const appMetadata = (claims as { app_metadata?: { role?: unknown } }).app_metadata;
+    const role = typeof appMetadata?.role === "string" ? appMetadata.role.trim().toUpperCase() : "";
+    return (USER_ROLES as readonly string[]).includes(role) ? (role as UserRole) : null;
+  } catch {
+    return null;
+  }
+}
@@ -4,6 +4,7 @@
  */
 
 import { cookies } from "next/headers";
+import { getVerifiedUserRole } from "./auth-role";
 
 /**
  * Get access token from cookies (server-side)
@@ -46,6 +47,8 @@ export async function getServerSession(): Promise<{
     id: string | null;
     raynet_id?: string | null;
     raynet_name?: string | null;
+    /** OVT / MNG / OFFICE / ADMIN from the verified access token (null = rep) */
+    role?: string | null;
   };
   expires_at: number | null;
 } | null> {
@@ -72,6 +75,7 @@ export async function getServerSession(): Promise<{
     const userId = cookieStore.get("user_id")?.value || null;
     const userRaynetId = cookieStore.get("user_raynet_id")?.value || null;
     const userRaynetName = cookieStore.get("user_raynet_name")?.value ?? null;
+    const userRole = getVerifiedUserRole(accessToken);
     const parsedExpiresAt = expiresAt ? parseInt(expiresAt, 10) : null;
 
     return {
@@ -80,6 +84,7 @@ export async function getServerSession(): Promise<{
         id: userId,
         raynet_id: userRaynetId,
         raynet_name: userRaynetName,
+        role: userRole,
       },
       expires_at: parsedExpiresAt != null && !Number.isNaN(parsedExpiresAt) ? parsedExpiresAt : null,
     };
@@ -42,6 +42,8 @@ export interface SessionResponse {
     raynet_id?: string | null;
     /** Raynet display name (for ADMF Zprostredkovatel and export). */
     raynet_name?: string | null;
+    /** OVT / MNG / OFFICE / ADMIN (null = rep) */
+    role?: string | null;
   };
   expires_at?: number | null;
   message?: string;
@@ -22,7 +22,6 @@ export interface CalculationAuthSessionPayload {
   user?: {
     id?: string;
     email?: string;
-    role?: string | null;
     raynet_id?: string | null;
     raynet_name?: string | null;
     raw_user_meta_data?: { raynet_name?: string };
@@ -40,6 +39,8 @@ export function clearCalculationSessionCookies(cookieStore: CalculationCookieSto
   cookieStore.delete("user_id");
   cookieStore.delete("user_raynet_id");
   cookieStore.delete("user_raynet_name");
+  // Legacy: the role used to be kept in a cookie; it now comes from the verified token.
+  cookieStore.delete("user_role");
 }
 
 /**
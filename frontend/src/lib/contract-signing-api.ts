@@ -0,0 +1,110 @@
+/**
+ * Client-side helpers for the signed-contract flow (inSign e-signature of an ADMF).
+ */
+
+export type SigningDeliveryMode = "INAPP" | "EXTERN";
+
+export type SigningSessionStatus = "PENDING" | "COMPLETED" | "REJECTED";
+
+export interface SigningSessionSummary {
+  id: number;
+  form_revision: number;
+  delivery_mode: SigningDeliveryMode;
+  status: SigningSessionStatus;
+  process_step: string | null;
+  /** inSign URL for signing on the tablet (pending sessions only). */
+  access_url: string | null;
+  extern_links: Array<{ recipient: string; link: string | null }>;
+  customer_email: string | null;
+  /** Form attachment keys of the signed PDF / audit trail. */
+  signed_document_key: string | null;
+  audit_key: string | null;
+  created_at: string;
+  completed_at: string | null;
+  rejected_at: string | null;
+}
+
+export interface FormSigningStatus {
+  session: SigningSessionSummary | null;
+  order: {
+    id: number;
+    contract_status: "UNSIGNED" | "PENDING" | "SIGNED" | "REJECTED";
+    contract_signed_at: string | null;
+    erp_export_override: { reason: string; by: string | null; at: string | null } | null;
+  } | null;
+  form_revision: number;
+  erp_export_allowed: boolean;
+  erp_export_block_reason: string | null;
+  erp_export_block_code: string | null;
+  can_override_erp_gate: boolean;
+  sync_error?: string;
+}
+
+export interface SigningApiResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: string;
+}
+
+async function request<T>(
+  url: string,
+  init: RequestInit,
+  fallbackError: string
+): Promise<SigningApiResult<T>> {
+  try {
+    const res = await fetch(url, { ...init, credentials: "include" });
+    const json = await res.json();
+    if (!res.ok || !json.success) {
+      return { success: false, error: json.error ?? fallbackError, code: json.code };
+    }
+    return { success: true, data: json.data as T };
+  } catch {
+    return { success: false, error: fallbackError };
+  }
+}
+
+export function getFormSigningStatus(formId: number): Promise<SigningApiResult<FormSigningStatus>> {
+  return request(`/api/signing/forms/${formId}`, { method: "GET" }, "Nepodařilo se načíst stav podpisu.");
+}
+
+export function startSigning(params: {
+  formId: number;
+  deliveryMode: SigningDeliveryMode;
+  customerEmail?: string;
+  customerPhone?: string;
+}): Promise<SigningApiResult<SigningSessionSummary>> {
+  return request(
+    `/api/signing/forms/${params.formId}/sessions`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        deliveryMode: params.deliveryMode,
+        customerEmail: params.customerEmail,
+        customerPhone: params.customerPhone,
+      }),
+    },
+    "Podpis se nepodařilo zahájit."
+  );
+}
+
+export function cancelSigning(formId: number): Promise<SigningApiResult<SigningSessionSummary>> {
+  return request(`/api/signing/forms/${formId}/cancel`, { method: "POST" }, "Podpis se nepodařilo zrušit.");
+}
+
+/** reason → allow ERP export without a signed contract; null → revoke the override. */
+export function setErpExportOverride(
+  formId: number,
+  reason: string | null
+): Promise<SigningApiResult<FormSigningStatus>> {
+  return request(
+    `/api/signing/forms/${formId}/erp-override`,
+    {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ reason }),
+    },
+    "Výjimku se nepodařilo uložit."
+  );
+}
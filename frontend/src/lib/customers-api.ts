@@ -1,13 +1,58 @@
 /**
- * Client-side utilities for customer search (ERP via dual endpoint).
+ * Client-side utilities for customer search (ERP via dual endpoint) and local customer records.
  */
 
 import { RaynetLead } from "@/types/raynet.types";
 import { ErpCustomer } from "@/types/erp.types";
+import type { OrderRecord } from "./orders-api";
+
+/** Local customer master record (orders reference it via customer_id). */
+export interface CustomerRecord {
+  id: number;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  city: string | null;
+  zipcode: string | null;
+  ico: string | null;
+  raynet_id: number | null;
+  erp_customer_id: number | null;
+  /** Last Raynet ↔ ERP differences found when the pair was validated ({} = none). */
+  source_conflicts: Record<string, { raynet: string | null; erp: string | null }>;
+  conflicts_checked_at: string | null;
+  merged_into_id: number | null;
+  merged_by: string | null;
+  merged_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CustomerAdmfSummary {
+  id: number;
+  order_id: number;
+  name: string | null;
+  total_s_dph: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CustomerDetail {
+  customer: CustomerRecord;
+  orders: OrderRecord[];
+  admf_forms: CustomerAdmfSummary[];
+}
+
+export interface CustomerDuplicateGroup {
+  key_type: "phone" | "email" | "ico";
+  key_value: string;
+  customers: CustomerRecord[];
+}
 
 export interface CustomerSearchResult {
   raynet: { customers: RaynetLead[]; totalCount: number };
   erp: { customers: ErpCustomer[]; totalCount: number };
+  local: { customers: CustomerRecord[]; totalCount: number };
 }
 
 export interface ApiEnvelope<T> {
@@ -32,3 +77,37 @@ export async function searchCustomersDual(phone: string): Promise<ApiEnvelope<Cu
   }
 }
 
+
+/** Customers sharing a phone, e-mail or IČO (office / admin). */
+export async function getCustomerDuplicates(): Promise<ApiEnvelope<CustomerDuplicateGroup[]>> {
+  try {
+    const res = await fetch("/api/customers/duplicates", {
+      method: "GET",
+      headers: { "Content-Type": "application/json" },
+    });
+    const data = (await res.json()) as ApiEnvelope<CustomerDuplicateGroup[]>;
+    if (!res.ok) return { success: false, error: data.error || "Failed to load duplicates", message: data.message };
+    return data;
+  } catch (e) {
+    return { success: false, error: "Network error", message: e instanceof Error ? e.message : undefined };
+  }
+}
+
+/** Merge the source customer into the target; the source's orders move to the target. */
+export async function mergeCustomers(
+  sourceId: number,
+  targetId: number
+): Promise<ApiEnvelope<{ customer: CustomerRecord; moved_order_ids: number[] }>> {
+  try {
+    const res = await fetch("/api/customers/merge", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ source_id: sourceId, target_id: targetId }),
+    });
+    const data = (await res.json()) as ApiEnvelope<{ customer: CustomerRecord; moved_order_ids: number[] }>;
+    if (!res.ok) return { success: false, error: data.error || "Merge failed", message: data.message };
+    return data;
+  } catch (e) {
+    return { success: false, error: "Network error", message: e instanceof Error ? e.message : undefined };
+  }
+}
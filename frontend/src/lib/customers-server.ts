@@ -0,0 +1,55 @@
+/**
+ * Server-side utilities for fetching customer records
+ * Used in Server Components to fetch data directly from backend
+ */
+
+import { createMainBackendToken } from "./auth-backend";
+import type { CustomerDetail } from "./customers-api";
+
+function getBackendUrl(): string {
+  return (
+    process.env.BACKEND_API_URL ||
+    process.env.NEXT_PUBLIC_BACKEND_API_URL ||
+    "http://localhost:3001"
+  );
+}
+
+export interface ServerCustomerResponse {
+  success: boolean;
+  data?: CustomerDetail;
+  error?: string;
+}
+
+/**
+ * Fetch a customer with their orders and ADMFs from backend (server-side)
+ * @param customerId - Customer ID
+ */
+export async function fetchCustomerServer(customerId: number): Promise<ServerCustomerResponse> {
+  try {
+    const authToken = await createMainBackendToken();
+    if (!authToken) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const response = await fetch(`${getBackendUrl()}/api/customers/${customerId}`, {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${authToken}`,
+      },
+      cache: "no-store",
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      return {
+        success: false,
+        error: data.error || "Failed to fetch customer",
+      };
+    }
+    return { success: true, data: data.data };
+  } catch (error) {
+    console.error("Error fetching customer:", error);
+    return { success: false, error: "Failed to fetch customer from server" };
+  }
+}
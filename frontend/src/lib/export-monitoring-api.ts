@@ -0,0 +1,194 @@
+/**
+ * Client-side helpers for the export monitoring dashboard (/monitoring/exports).
+ * Shapes mirror backend export-monitoring.types (dates arrive as ISO strings).
+ */
+
+export type ExportLogSource = "raynet" | "erp" | "retention";
+
+export type ExportLogStatus =
+  | "PENDING"
+  | "MAPPING"
+  | "SENDING"
+  | "SUCCESS"
+  | "PARTIAL_SUCCESS"
+  | "FAILED"
+  | "UNKNOWN";
+
+export type ExportLogSortKey = "id" | "created_at" | "user_id" | "status" | "duration_ms";
+
+export interface ExportMonitoringStats {
+  source: ExportLogSource;
+  from: string;
+  to: string;
+  granularity: "hour" | "day";
+  kpis: {
+    total: number;
+    success_count: number;
+    partial_success_count: number;
+    failed_count: number;
+    stuck_count: number;
+    avg_duration_ms: number | null;
+    test_count: number;
+    prod_count: number;
+    success_rate: number | null;
+  };
+  buckets: Array<{ bucket: string; success: number; failed: number }>;
+  errors: Array<{ error_code: string | null; count: number }>;
+  users: Array<{
+    user_id: string;
+    total: number;
+    success_count: number;
+    failed_count: number;
+    test_count: number;
+    prod_count: number;
+    last_export_at: string;
+  }>;
+  warnings: Array<{ warning_code: string | null; warning_field: string | null; occurrences: number }>;
+  alerts: {
+    stuck: Array<{
+      id: number;
+      form_id: number | null;
+      order_id: number | null;
+      user_id: string;
+      status: ExportLogStatus;
+      created_at: string;
+    }>;
+    auth_failures_last_hour: number;
+    last_hour_total: number;
+    last_hour_success_rate: number | null;
+    high_failure_rate: boolean;
+  };
+}
+
+export interface ExportLogListItem {
+  id: number;
+  source: ExportLogSource;
+  created_at: string;
+  completed_at: string | null;
+  user_id: string;
+  order_id: number | null;
+  form_id: number | null;
+  /** Raynet event id (raynet, retention) or ERP order id (erp). */
+  external_id: number | null;
+  status: ExportLogStatus;
+  test_mode: boolean;
+  error_code: string | null;
+  error_message: string | null;
+  duration_ms: number | null;
+  warning_count: number;
+  kind: string | null;
+  order_customer_name: string | null;
+  form_variant_name: string | null;
+}
+
+export interface ExportLogPage {
+  items: ExportLogListItem[];
+  total: number;
+  page: number;
+  page_size: number;
+}
+
+export interface ExportLogDetail extends ExportLogListItem {
+  request_payload: unknown;
+  response_status: number | null;
+  response_body: unknown;
+  warnings: unknown;
+  export_batch_id: string | null;
+  order_email: string | null;
+  order_phone: string | null;
+  source_raynet_event_id: number | null;
+  form_type: string | null;
+  reason: string | null;
+  raynet_id: number | null;
+  erp_order_id: number | null;
+}
+
+export interface ExportLogFilters {
+  source: ExportLogSource;
+  from: string;
+  to: string;
+  statuses?: ExportLogStatus[];
+  testMode?: boolean;
+  userId?: string;
+  errorCode?: string;
+  q?: string;
+  sort?: ExportLogSortKey;
+  dir?: "asc" | "desc";
+  page?: number;
+}
+
+export interface MonitoringApiResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: string;
+}
+
+/**
+ * Czech labels for Raynet customFields keys in request_payload (spec §3.8).
+ * Static on purpose — the keys are fixed by the Raynet account configuration.
+ */
+export const RAYNET_CUSTOM_FIELD_LABELS: Record<string, string> = {
+  Email_1181e: "E-mail",
+  Dalsi_kont_dcaae: "Telefon",
+  DPH_a6f2e: "DPH",
+  RDbyt_45fb8: "Typ zařízení",
+  Zpusob_uhr_1bc0a: "Způsob úhrady zálohy",
+  Zaloha_f384a: "Záloha",
+  Doplatek_98b22: "Doplatek",
+  Celkova_ho_0b99a: "Celková hodnota",
+  Variabilni_675b2: "Variabilní symbol",
+  Zamerovac_2b7ef: "Zaměřovač",
+  Zvonek_60b5d: "Zvonek",
+  Patro_4784d: "Patro",
+  Info_k_par_4946a: "Info k parkování",
+  Dalsi_dopl_1e01a: "Poznámky",
+  Adresa_kdy_8f1ac: "Adresa (když nesedí)",
+  Duvod_neuh_fec41: "Info k záloze",
+  Info_k_fak_4dcbc: "Info k faktuře",
+  MNG_SLEVA_aac47: "MNG sleva (ano/ne)",
+  MNG_sleva__0836b: "MNG sleva (Kč)",
+  OVT_sleva__909bc: "OVT sleva (Kč)",
+};
+
+async function request<T>(url: string, fallbackError: string): Promise<MonitoringApiResult<T>> {
+  try {
+    const res = await fetch(url, { credentials: "include", cache: "no-store" });
+    const json = await res.json();
+    if (!res.ok || !json.success) {
+      return { success: false, error: json.error ?? fallbackError, code: json.code };
+    }
+    return { success: true, data: json.data as T };
+  } catch {
+    return { success: false, error: fallbackError };
+  }
+}
+
+export function getExportMonitoringStats(
+  source: ExportLogSource,
+  from: string,
+  to: string
+): Promise<MonitoringApiResult<ExportMonitoringStats>> {
+  const params = new URLSearchParams({ source, from, to });
+  return request(`/api/monitoring/exports/stats?${params}`, "Nepodařilo se načíst statistiky exportů.");
+}
+
+export function searchExportLogs(filters: ExportLogFilters): Promise<MonitoringApiResult<ExportLogPage>> {
+  const params = new URLSearchParams({ source: filters.source, from: filters.from, to: filters.to });
+  if (filters.statuses?.length) params.set("status", filters.statuses.join(","));
+  if (filters.testMode !== undefined) params.set("test_mode", String(filters.testMode));
+  if (filters.userId) params.set("user_id", filters.userId);
+  if (filters.errorCode) params.set("error_code", filters.errorCode);
+  if (filters.q) params.set("q", filters.q);
+  if (filters.sort) params.set("sort", filters.sort);
+  if (filters.dir) params.set("dir", filters.dir);
+  if (filters.page) params.set("page", String(filters.page));
+  return request(`/api/monitoring/exports/logs?${params}`, "Nepodařilo se načíst logy exportů.");
+}
+
+export function getExportLogDetail(
+  source: ExportLogSource,
+  id: number
+): Promise<MonitoringApiResult<ExportLogDetail>> {
+  return request(`/api/monitoring/exports/logs/${source}/${id}`, "Nepodařilo se načíst detail exportu.");
+}
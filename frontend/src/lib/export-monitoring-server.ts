@@ -0,0 +1,62 @@
+/**
+ * Server-only helpers for the export monitoring dashboard.
+ *
+ * The backend serves the data under /api/admin/exports behind the shared
+ * ADMIN_PREVIEW_TOKEN, which must never reach the browser. The Next.js proxy
+ * routes check that the signed-in user is an admin (reporting backend
+ * /auth/ovt/is-admin, same check as the Google sign-in) and add the token
+ * server-side.
+ */
+
+import { NextResponse } from "next/server";
+import { getServerSession } from "./auth-server";
+
+function getBackendUrl(): string {
+  return process.env.BACKEND_API_URL || process.env.NEXT_PUBLIC_BACKEND_API_URL || "http://localhost:3001";
+}
+
+/** True when the current session belongs to an OVT admin. */
+export async function isMonitoringAdmin(): Promise<boolean> {
+  const session = await getServerSession();
+  const email = session?.user?.email;
+  if (!email) return false;
+  const base = process.env.REPORTING_BACKEND_API_URL || process.env.NEXT_PUBLIC_REPORTING_BACKEND_API_URL;
+  if (!base) return false;
+  try {
+    const url = new URL(base);
+    url.pathname = "/auth/ovt/is-admin";
+    url.searchParams.set("email", email);
+    const res = await fetch(url.toString(), {
+      headers: { "x-admin-key": process.env.REPORTING_BACKEND_ADMIN_API_KEY || "" },
+      cache: "no-store",
+    });
+    const json = await res.json().catch(() => ({}));
+    return Boolean(json?.admin);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Forward a GET to backend /api/admin/exports{path} with the admin token,
+ * after the admin check. Query string is passed through unchanged.
+ */
+export async function proxyExportMonitoring(path: string, search: string): Promise<NextResponse> {
+  if (!(await isMonitoringAdmin())) {
+    return NextResponse.json({ success: false, error: "Přístup jen pro administrátory." }, { status: 403 });
+  }
+  const adminToken = process.env.ADMIN_PREVIEW_TOKEN?.trim();
+  if (!adminToken) {
+    return NextResponse.json(
+      { success: false, error: "Monitoring exportů není nakonfigurován (ADMIN_PREVIEW_TOKEN)." },
+      { status: 503 }
+    );
+  }
+  const response = await fetch(`${getBackendUrl()}/api/admin/exports${path}${search}`, {
+    method: "GET",
+    headers: { Authorization: `Bearer ${adminToken}` },
+    cache: "no-store",
+  });
+  const data = await response.json().catch(() => ({ success: false, error: "Invalid backend response" }));
+  return NextResponse.json(data, { status: response.status });
+}
@@ -0,0 +1,148 @@
+/**
+ * Field-level diff + merge for save conflicts (HTTP 409 from PUT /api/forms/:id).
+ * Works on any form_json: descends into objects and equally long arrays, so a
+ * conflict is reported per field ("Řádek 3 › ks") instead of per whole form.
+ * Arrays whose length differs (rows added/removed) are compared as one unit.
+ */
+
+/** Sub-trees that only make sense as a whole (audit trails, catalog payloads). */
+const ATOMIC_KEYS = new Set([
+  "pricingTrace",
+  "schema",
+  "product_schemas",
+  "surcharges",
+  "surchargeWarnings",
+  "sizeLimitWarnings",
+  "priceAffectingFields",
+  "source_form_ids",
+]);
+
+/** Path segments that carry no meaning for the user (skipped in labels). */
+const HIDDEN_SEGMENTS = new Set(["data", "values", "zahlaviValues", "zapatiValues"]);
+
+export type ConflictChoice = "local" | "server";
+
+export interface FormFieldConflict {
+  /** Stable key (path joined with "."), used for choice maps */
+  key: string;
+  path: Array<string | number>;
+  label: string;
+  local: unknown;
+  server: unknown;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value != null && typeof value === "object" && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function segmentLabel(parent: string | number | undefined, segment: string | number): string | null {
+  if (typeof segment === "number") {
+    if (parent === "productRows") return `Řádek ${segment + 1}`;
+    if (parent === "rooms") return `Místnost ${segment + 1}`;
+    if (parent === "rows") return `řádek ${segment + 1}`;
+    return `#${segment + 1}`;
+  }
+  if (segment === "productRows" || segment === "rooms" || segment === "rows") return null;
+  if (HIDDEN_SEGMENTS.has(segment)) return null;
+  return segment;
+}
+
+/** Human-readable label, e.g. `["productRows", 2, "ks"]` → "Řádek 3 › ks". */
+export function formatFieldPath(path: Array<string | number>): string {
+  const parts: string[] = [];
+  path.forEach((segment, i) => {
+    const label = segmentLabel(path[i - 1], segment);
+    if (label) parts.push(label);
+  });
+  return parts.join(" › ") || "(celý formulář)";
+}
+
+/** Short display value for the conflict table. */
+export function formatConflictValue(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "—";
+  if (typeof value === "boolean") return value ? "ano" : "ne";
+  if (typeof value === "string" || typeof value === "number") return String(value);
+  if (Array.isArray(value)) return `${value.length} položek`;
+  const json = JSON.stringify(value);
+  return json.length > 80 ? `${json.slice(0, 77)}…` : json;
+}
+
+function collectConflicts(
+  local: unknown,
+  server: unknown,
+  path: Array<string | number>,
+  out: FormFieldConflict[]
+): void {
+  if (isEqual(local, server)) return;
+  const last = path[path.length - 1];
+  const atomic = typeof last === "string" && ATOMIC_KEYS.has(last);
+
+  if (!atomic && isPlainObject(local) && isPlainObject(server)) {
+    const keys = new Set([...Object.keys(local), ...Object.keys(server)]);
+    for (const key of keys) {
+      collectConflicts(local[key], server[key], [...path, key], out);
+    }
+    return;
+  }
+
+  if (!atomic && Array.isArray(local) && Array.isArray(server) && local.length === server.length) {
+    local.forEach((item, i) => collectConflicts(item, server[i], [...path, i], out));
+    return;
+  }
+
+  out.push({
+    key: path.join("."),
+    path,
+    label: formatFieldPath(path),
+    local,
+    server,
+  });
+}
+
+/** Every field where the local copy differs from the server copy. */
+export function diffFormConflict(
+  local: Record<string, unknown>,
+  server: Record<string, unknown>
+): FormFieldConflict[] {
+  const out: FormFieldConflict[] = [];
+  collectConflicts(local, server, [], out);
+  return out;
+}
+
+function setAtPath(target: Record<string, unknown>, path: Array<string | number>, value: unknown): void {
+  let node = target as Record<string | number, unknown>;
+  for (let i = 0; i < path.length - 1; i++) {
+    node = node[path[i]] as Record<string | number, unknown>;
+  }
+  const leaf = path[path.length - 1];
+  if (value === undefined && !Array.isArray(node)) {
+    delete node[leaf];
+  } else {
+    node[leaf] = value;
+  }
+}
+
+/**
+ * Start from the server copy and apply the local value for every conflict the
+ * user resolved as "local". Paths always exist in both copies (see collectConflicts),
+ * so the merge never creates holes in arrays.
+ */
+export function mergeFormConflict<T extends Record<string, unknown>>(
+  local: T,
+  server: T,
+  conflicts: FormFieldConflict[],
+  choices: Record<string, ConflictChoice>
+): T {
+  const merged = structuredClone(server) as T;
+  for (const conflict of conflicts) {
+    if (choices[conflict.key] !== "local") continue;
+    if (conflict.path.length === 0) return structuredClone(local);
+    setAtPath(merged, conflict.path, structuredClone(conflict.local));
+  }
+  return merged;
+}
@@ -1,7 +1,21 @@
 /**
- * Client wrapper for the form-level (ADMF-shaped) price preview endpoint.
+ * Form-level (ADMF-shaped) price preview. Computed on the device with @ovt/pricing-engine
+ * from per-product pricing bundles (cached by the service worker, so it works offline);
+ * the server endpoint runs the same engine.
  */
 
+import {
+  bundleToRowPricingInputs,
+  collectFormProductPricingIds,
+  computeFormPricePreview,
+  previewCustomFormPricing,
+  type FormPricePreview,
+  type ProductPricingBundle,
+  type RowPricingInputs,
+} from "@ovt/pricing-engine";
+
+export type { FormPreviewLine, FormPreviewUnpriced } from "@ovt/pricing-engine";
+
 export interface AdmfDefaults {
   vatRateDefaultPercent: number;
   ovtSlevaDefaultSDph: number;
@@ -33,46 +47,7 @@ export interface FormPreviewParameters {
   bulkSlevaPercent: number;
 }
 
-export interface FormPreviewLine {
-  rowKey: string;
-  roomName?: string;
-  produkt: string;
-  ks: number;
-  cena: number;
-  sleva: number;
-  cenaPoSleve: number;
-  surcharges?: Array<{ code: string; label?: string; amount: number }>;
-}
-
-export interface FormPreviewUnpriced {
-  rowKey: string;
-  roomName?: string;
-  reason: string;
-}
-
-export interface FormPreviewResponseData {
-  lines: FormPreviewLine[];
-  unpriced: FormPreviewUnpriced[];
-  productsBezDph: number;
-  montaz: {
-    bezDph: number;
-    source: "tier" | "fallback" | "override";
-    tierOrdinal?: number;
-  };
-  ovtSlevaSDph: number;
-  mngSlevaActive: boolean;
-  mngSlevaSDph: number;
-  bulkSlevaPercent: number;
-  vatRatePercent: number;
-  vatAmount: number;
-  totalBezDph: number;
-  totalSDph: number;
-  defaultsSnapshot: {
-    fromOfficePortal: boolean;
-    montazFallbackBezDph: number;
-    tierCount: number;
-  };
-}
+export type FormPreviewResponseData = FormPricePreview;
 
 export interface FormPreviewApiResult {
   success: boolean;
@@ -114,3 +89,57 @@ export async function getFormPricePreview(args: {
     return { success: false, error: e instanceof Error ? e.message : "Network error" };
   }
 }
+
+/** Bundles already loaded in this session; failed loads are retried on the next preview. */
+const bundleCache = new Map<string, Promise<ProductPricingBundle | null>>();
+
+/**
+ * Pricing bundle for one catalog product. Offline it comes from the service-worker
+ * cache (GET /api/forms/* is NetworkFirst); null when never loaded on this device.
+ */
+export function getPricingBundle(productPricingId: string): Promise<ProductPricingBundle | null> {
+  const cached = bundleCache.get(productPricingId);
+  if (cached) return cached;
+  const request = (async () => {
+    try {
+      const res = await fetch(`/api/forms/pricing/${encodeURIComponent(productPricingId)}/bundle`);
+      if (!res.ok) return null;
+      const json = await res.json();
+      return (json.data as ProductPricingBundle | undefined) ?? null;
+    } catch {
+      return null;
+    }
+  })();
+  bundleCache.set(productPricingId, request);
+  request.then((bundle) => {
+    if (!bundle) bundleCache.delete(productPricingId);
+  });
+  return request;
+}
+
+/**
+ * Same result as POST /api/forms/price-preview-form, computed locally — no round trip
+ * per edit. Rows whose product bundle is unavailable land in `unpriced`.
+ */
+export async function getLocalFormPricePreview(args: {
+  formJson: Record<string, unknown>;
+  parameters: FormPreviewParameters;
+  defaults: AdmfDefaults;
+}): Promise<FormPreviewApiResult> {
+  try {
+    const ids = collectFormProductPricingIds(args.formJson);
+    const bundles = await Promise.all(ids.map((id) => getPricingBundle(id)));
+    const inputs = new Map<string, RowPricingInputs>();
+    bundles.forEach((bundle, i) => {
+      if (bundle) inputs.set(ids[i], bundleToRowPricingInputs(bundle));
+    });
+    const preview = previewCustomFormPricing(
+      args.formJson,
+      (id) => inputs.get(id) ?? null,
+      () => "Ceník produktu se nepodařilo načíst (offline bez uloženého ceníku)"
+    );
+    return { success: true, data: computeFormPricePreview(preview, args.parameters, args.defaults) };
+  } catch (e) {
+    return { success: false, error: e instanceof Error ? e.message : "Nepodařilo se vypočítat náhled" };
+  }
+}
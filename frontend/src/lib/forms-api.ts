@@ -3,11 +3,24 @@
  * Provides functions to interact with the forms API
  */
 
+import {
+  discardOutboxEntry,
+  draftClientRequestId,
+  formDraftKey,
+  isIndexedDbAvailable,
+  queueFormSave,
+  requestOutboxSync,
+  type QueueFormSaveParams,
+} from "./offline-outbox";
+
 /**
  * Form type definitions
  */
 export type FormType = "custom" | "admf";
 
+const NETWORK_ERROR = "Network error. Please check your connection and try again.";
+const INVALID_RESPONSE_ERROR = "Invalid response from server.";
+
 /**
  * Form submission response
  */
@@ -18,67 +31,143 @@ export interface FormSubmissionResponse {
     user_id: string;
     form_type: FormType;
     form_json: Record<string, any>;
+    revision: number;
     created_at: string;
     updated_at: string;
   };
   error?: string;
   message?: string;
+  /** Set when an update was rejected because the form changed on the server (HTTP 409). */
+  conflict?: {
+    current: FormRecord;
+  };
+  /** Server unreachable: the save was stored on the device and will be sent later (no `data`). */
+  queued?: boolean;
 }
 
 /**
- * Submit a form to the API
- * @param formType - Type of form being submitted
- * @param formData - Form data object
- * @returns Promise with submission response
+ * Server unreachable → keep the save in the offline outbox instead of failing.
  */
+async function queueOfflineSave(params: QueueFormSaveParams): Promise<FormSubmissionResponse> {
+  if (!isIndexedDbAvailable()) {
+    return { success: false, error: NETWORK_ERROR };
+  }
+  try {
+    await queueFormSave(params);
+    void requestOutboxSync();
+    return { success: true, queued: true };
+  } catch (error: unknown) {
+    console.error("Error queueing offline save:", error);
+    return { success: false, error: NETWORK_ERROR };
+  }
+}
+
+/**
+ * Whether fetch() failed for lack of a connection. Only these saves are queued offline;
+ * anything else (a bad response, a bug) is reported as a failed save.
+ */
+function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError || (typeof navigator !== "undefined" && navigator.onLine === false);
+}
+
+/** Body of POST /api/forms and PUT /api/forms/:id, success or error. */
+interface FormSaveBody {
+  data?: FormSubmissionResponse["data"];
+  error?: string;
+  message?: string;
+  code?: string;
+  current?: FormRecord;
+}
+
+/** Response body as JSON, or null when it is not JSON (proxy error page, truncated body). */
+function readJson(response: Response): Promise<FormSaveBody | null> {
+  return response.json().catch((error: unknown) => {
+    console.error(`Error parsing response (HTTP ${response.status}):`, error);
+    return null;
+  });
+}
+
+/** A newer save reached the server — the offline draft for that key is obsolete. */
+function discardOfflineDraft(key: string): void {
+  discardOutboxEntry(key).catch((error: unknown) => {
+    console.error("Error discarding offline draft:", error);
+  });
+}
+
 /**
  * Submit a form to the API (optionally linked to an order)
  * @param formType - Type of form being submitted
  * @param formData - Form data object
  * @param orderId - Optional order ID to link form to (zakázka)
+ * @param offlineDraftKey - Key from `newFormDraftKey()`; when set, a save without network is
+ *   queued in the offline outbox (`queued: true`) instead of failing, and the request carries
+ *   the draft's client_request_id so a repeated create returns the same form
  */
 export async function submitForm(
   formType: FormType,
   formData: Record<string, any>,
-  orderId?: number | null
+  orderId?: number | null,
+  offlineDraftKey?: string
 ): Promise<FormSubmissionResponse> {
+  const body: Record<string, unknown> = {
+    form_type: formType,
+    form_json: formData,
+  };
+  if (orderId != null) {
+    body.order_id = orderId;
+  }
+  const clientRequestId = offlineDraftKey ? draftClientRequestId(offlineDraftKey) : null;
+  if (clientRequestId) {
+    body.client_request_id = clientRequestId;
+  }
+
+  let response: Response;
   try {
-    const body: Record<string, unknown> = {
-      form_type: formType,
-      form_json: formData,
-    };
-    if (orderId != null) {
-      body.order_id = orderId;
-    }
-    const response = await fetch("/api/forms", {
+    response = await fetch("/api/forms", {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
       },
       body: JSON.stringify(body),
     });
-
-    const data = await response.json();
-
-    if (!response.ok) {
-      return {
-        success: false,
-        error: data.error || "Failed to submit form",
-        message: data.message,
-      };
+  } catch (error: unknown) {
+    console.error("Error submitting form:", error);
+    if (!isNetworkError(error)) {
+      return { success: false, error: "Failed to submit form" };
+    }
+    if (offlineDraftKey) {
+      return queueOfflineSave({
+        key: offlineDraftKey,
+        op: "create",
+        formType,
+        orderId: orderId ?? null,
+        formJson: formData,
+      });
     }
-
     return {
-      success: true,
-      data: data.data,
+      success: false,
+      error: NETWORK_ERROR,
     };
-  } catch (error: any) {
-    console.error("Error submitting form:", error);
+  }
+
+  const data = await readJson(response);
+  if (!data) {
+    return { success: false, error: INVALID_RESPONSE_ERROR };
+  }
+
+  if (!response.ok) {
     return {
       success: false,
-      error: "Network error. Please check your connection and try again.",
+      error: data.error || "Failed to submit form",
+      message: data.message,
     };
   }
+
+  if (offlineDraftKey) discardOfflineDraft(offlineDraftKey);
+  return {
+    success: true,
+    data: data.data,
+  };
 }
 
 /**
@@ -105,44 +194,78 @@ export async function getFormById(formId: number): Promise<FormRecord | null> {
  * Update an existing form
  * @param formId - ID of the form to update
  * @param formData - Updated form data object
+ * @param baseRevision - Revision the client loaded; a stale one yields `conflict` instead of overwriting
+ * @param offlineFormType - When set, a save without network is queued in the offline outbox
+ *   (`queued: true`) instead of failing
  * @returns Promise with update response
  */
 export async function updateForm(
   formId: number,
-  formData: Record<string, any>
+  formData: Record<string, any>,
+  baseRevision?: number,
+  offlineFormType?: FormType
 ): Promise<FormSubmissionResponse> {
+  const body = JSON.stringify({
+    form_json: formData,
+    ...(baseRevision != null && { base_revision: baseRevision }),
+  });
+
+  let response: Response;
   try {
-    const response = await fetch(`/api/forms/${formId}`, {
+    response = await fetch(`/api/forms/${formId}`, {
       method: "PUT",
       headers: {
         "Content-Type": "application/json",
       },
-      body: JSON.stringify({
-        form_json: formData,
-      }),
+      body,
     });
-
-    const data = await response.json();
-
-    if (!response.ok) {
-      return {
-        success: false,
-        error: data.error || "Failed to update form",
-        message: data.message,
-      };
+  } catch (error: unknown) {
+    console.error("Error updating form:", error);
+    if (!isNetworkError(error)) {
+      return { success: false, error: "Failed to update form" };
+    }
+    if (offlineFormType) {
+      return queueOfflineSave({
+        key: formDraftKey(formId),
+        op: "update",
+        formType: offlineFormType,
+        formId,
+        formJson: formData,
+        baseRevision: baseRevision ?? null,
+      });
     }
+    return {
+      success: false,
+      error: NETWORK_ERROR,
+    };
+  }
 
+  const data = await readJson(response);
+  if (!data) {
+    return { success: false, error: INVALID_RESPONSE_ERROR };
+  }
+
+  if (response.status === 409 && data.code === "FORM_REVISION_CONFLICT" && data.current) {
     return {
-      success: true,
-      data: data.data,
+      success: false,
+      error: data.error || "Formulář byl mezitím změněn jinde",
+      conflict: { current: data.current as FormRecord },
     };
-  } catch (error: any) {
-    console.error("Error updating form:", error);
+  }
+
+  if (!response.ok) {
     return {
       success: false,
-      error: "Network error. Please check your connection and try again.",
+      error: data.error || "Failed to update form",
+      message: data.message,
     };
   }
+
+  if (offlineFormType) discardOfflineDraft(formDraftKey(formId));
+  return {
+    success: true,
+    data: data.data,
+  };
 }
 
 /**
@@ -154,6 +277,8 @@ export interface FormRecord {
   form_type: FormType;
   form_json: Record<string, any>;
   order_id: number | null;
+  /** Incremented on every save; send back as base_revision */
+  revision: number;
   created_at: string;
   updated_at: string;
   deleted_at: string | null;
@@ -244,7 +369,135 @@ export async function getForms(
     console.error("Error fetching forms:", error);
     return {
       success: false,
-      error: "Network error. Please check your connection and try again.",
+      error: NETWORK_ERROR,
+    };
+  }
+}
+
+/* ── Revision history ─────────────────────────────────────── */
+
+export type FormRevisionSource = "BASELINE" | "CREATE" | "UPDATE" | "RESTORE";
+
+/** One stored version of a form (list view, without form_json) */
+export interface FormRevisionSummary {
+  id: number;
+  form_id: number;
+  revision: number;
+  user_id: string;
+  source: FormRevisionSource;
+  restored_from_revision: number | null;
+  created_at: string;
+}
+
+/** One difference between two revisions; `label` is ready for display ("Řádek 3 › ks") */
+export interface FormRevisionChange {
+  kind: "added" | "removed" | "changed";
+  path: string[];
+  label: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface FormRevisionDiff {
+  form_id: number;
+  from_revision: number;
+  to_revision: number;
+  changes: FormRevisionChange[];
+}
+
+/**
+ * List revisions of a form (newest first)
+ * @param formId - ID of the form
+ * @returns Revisions or null on error
+ */
+export async function getFormRevisions(formId: number): Promise<FormRevisionSummary[] | null> {
+  try {
+    const response = await fetch(`/api/forms/${formId}/revisions`, {
+      method: "GET",
+      headers: { "Content-Type": "application/json" },
+    });
+    const data = await response.json();
+    if (!response.ok || !Array.isArray(data?.data)) return null;
+    return data.data as FormRevisionSummary[];
+  } catch (error: unknown) {
+    console.error("Error fetching form revisions:", error);
+    return null;
+  }
+}
+
+/**
+ * Diff two revisions of a form
+ * @param formId - ID of the form
+ * @param from - Older revision
+ * @param to - Newer revision (default: current)
+ * @returns Diff or null on error
+ */
+export async function getFormRevisionDiff(
+  formId: number,
+  from: number,
+  to?: number
+): Promise<FormRevisionDiff | null> {
+  try {
+    const params = new URLSearchParams({ from: from.toString() });
+    if (to != null) params.append("to", to.toString());
+    const response = await fetch(`/api/forms/${formId}/revisions/diff?${params.toString()}`, {
+      method: "GET",
+      headers: { "Content-Type": "application/json" },
+    });
+    const data = await response.json();
+    if (!response.ok || !data?.data) return null;
+    return data.data as FormRevisionDiff;
+  } catch (error: unknown) {
+    console.error("Error fetching form revision diff:", error);
+    return null;
+  }
+}
+
+/**
+ * Restore an older revision (stored as a new revision)
+ * @param formId - ID of the form
+ * @param revision - Revision to restore
+ * @param baseRevision - Revision the client has loaded; a stale one yields `conflict`
+ * @returns Response with the updated form
+ */
+export async function restoreFormRevision(
+  formId: number,
+  revision: number,
+  baseRevision?: number
+): Promise<FormSubmissionResponse> {
+  try {
+    const response = await fetch(`/api/forms/${formId}/revisions/${revision}/restore`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(baseRevision != null ? { base_revision: baseRevision } : {}),
+    });
+    const data = await response.json();
+
+    if (response.status === 409 && data.code === "FORM_REVISION_CONFLICT" && data.current) {
+      return {
+        success: false,
+        error: data.error || "Formulář byl mezitím změněn jinde",
+        conflict: { current: data.current as FormRecord },
+      };
+    }
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: data.error || "Failed to restore form revision",
+        message: data.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: data.data,
+    };
+  } catch (error: unknown) {
+    console.error("Error restoring form revision:", error);
+    return {
+      success: false,
+      error: NETWORK_ERROR,
     };
   }
 }
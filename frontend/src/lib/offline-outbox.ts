@@ -0,0 +1,338 @@
+/**
+ * Offline outbox for form saves (IndexedDB), shared by the app and the service worker.
+ *
+ * When a save cannot reach the server (no signal in a basement), `queueFormSave` stores
+ * the form content on the device instead. One entry per form ("form:<id>") or per
+ * not-yet-created form ("new:<uuid>"): the entry is both the local draft and the pending
+ * mutation, so repeated offline saves just overwrite the draft and keep the revision the
+ * edits were based on.
+ *
+ * `replayOutbox` sends pending entries when connectivity returns — from the service
+ * worker's Background Sync event, and from the page on `online` (Safari / iOS have no
+ * Background Sync). It rejects while the server is unreachable or failing (5xx), so
+ * Background Sync schedules another attempt. Updates carry base_revision; a 409 parks
+ * the entry as "conflict" with the server copy, and the form editor lets the user merge
+ * it (FormConflictModal). Creates carry the draft's UUID as client_request_id, so a
+ * create that reached the server but whose response was lost is not created twice.
+ *
+ * Must stay free of React / window-only APIs: it is bundled into sw.ts.
+ */
+
+import type { FormRecord, FormType } from "./forms-api";
+
+const DB_NAME = "ovt-offline";
+const DB_VERSION = 1;
+const OUTBOX_STORE = "outbox";
+const CHANNEL_NAME = "ovt-form-outbox";
+const REPLAY_LOCK = "ovt-form-outbox-replay";
+
+/** Background Sync tag registered after queueing; handled in sw.ts */
+export const OUTBOX_SYNC_TAG = "form-outbox";
+
+export type OutboxOperation = "create" | "update";
+export type OutboxStatus = "pending" | "conflict" | "failed";
+
+export interface OutboxEntry {
+  /** "form:<id>" for saved forms, "new:<uuid>" for forms created offline */
+  key: string;
+  op: OutboxOperation;
+  formType: FormType;
+  formId: number | null;
+  orderId: number | null;
+  /** Latest local content (the draft) */
+  formJson: Record<string, unknown>;
+  /** Revision the local edits are based on (updates only) */
+  baseRevision: number | null;
+  status: OutboxStatus;
+  attempts: number;
+  lastError: string | null;
+  /** Server copy returned with a 409 (status "conflict") */
+  conflictCurrent: FormRecord | null;
+  queuedAt: number;
+  updatedAt: number;
+}
+
+export type OutboxEvent =
+  | { type: "queued"; key: string }
+  | { type: "synced"; key: string; form: FormRecord }
+  | { type: "conflict"; key: string; current: FormRecord }
+  | { type: "failed"; key: string; error: string }
+  | { type: "discarded"; key: string };
+
+export interface QueueFormSaveParams {
+  key: string;
+  op: OutboxOperation;
+  formType: FormType;
+  formId?: number | null;
+  orderId?: number | null;
+  formJson: Record<string, unknown>;
+  baseRevision?: number | null;
+}
+
+export function formDraftKey(formId: number): string {
+  return `form:${formId}`;
+}
+
+export function newFormDraftKey(): string {
+  return `new:${crypto.randomUUID()}`;
+}
+
+/** Idempotency key for creating the form behind a `newFormDraftKey()` draft; null for other keys. */
+export function draftClientRequestId(key: string): string | null {
+  return key.startsWith("new:") ? key.slice("new:".length) : null;
+}
+
+// ── IndexedDB helpers ────────────────────────────────────────────
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        db.createObjectStore(OUTBOX_STORE, { keyPath: "key" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run `fn` inside one transaction on the outbox store; resolves with its result
+ * once the transaction has committed.
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(OUTBOX_STORE, mode);
+    const done = new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+    const result = await fn(tx.objectStore(OUTBOX_STORE));
+    await done;
+    return result;
+  } finally {
+    db.close();
+  }
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function broadcast(event: OutboxEvent): void {
+  if (typeof BroadcastChannel === "undefined") return;
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.postMessage(event);
+  channel.close();
+}
+
+/** Listen to outbox changes (from this tab, other tabs and the service worker). */
+export function subscribeOutbox(listener: (event: OutboxEvent) => void): () => void {
+  if (typeof BroadcastChannel === "undefined") return () => {};
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (message: MessageEvent<OutboxEvent>) => listener(message.data);
+  return () => channel.close();
+}
+
+// ── Public API ───────────────────────────────────────────────────
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+/**
+ * Store a save on the device. Re-queueing the same key overwrites the draft but keeps
+ * the original operation, base revision and a pending conflict.
+ */
+export async function queueFormSave(params: QueueFormSaveParams): Promise<OutboxEntry> {
+  const now = Date.now();
+  const entry = await withStore("readwrite", async (store) => {
+    const existing = (await requestResult(store.get(params.key))) as OutboxEntry | undefined;
+    const next: OutboxEntry = existing
+      ? {
+          ...existing,
+          formJson: params.formJson,
+          status: existing.status === "conflict" ? "conflict" : "pending",
+          lastError: null,
+          updatedAt: now,
+        }
+      : {
+          key: params.key,
+          op: params.op,
+          formType: params.formType,
+          formId: params.formId ?? null,
+          orderId: params.orderId ?? null,
+          formJson: params.formJson,
+          baseRevision: params.baseRevision ?? null,
+          status: "pending",
+          attempts: 0,
+          lastError: null,
+          conflictCurrent: null,
+          queuedAt: now,
+          updatedAt: now,
+        };
+    store.put(next);
+    return next;
+  });
+  broadcast({ type: "queued", key: entry.key });
+  return entry;
+}
+
+export async function getOutboxEntry(key: string): Promise<OutboxEntry | null> {
+  if (!isIndexedDbAvailable()) return null;
+  const entry = await withStore("readonly", (store) => requestResult(store.get(key)));
+  return (entry as OutboxEntry | undefined) ?? null;
+}
+
+export async function listOutboxEntries(): Promise<OutboxEntry[]> {
+  if (!isIndexedDbAvailable()) return [];
+  const entries = (await withStore("readonly", (store) => requestResult(store.getAll()))) as OutboxEntry[];
+  return entries.sort((a, b) => a.queuedAt - b.queuedAt);
+}
+
+/** Drop a draft (saved online in the meantime, or conflict resolved in the editor). */
+export async function discardOutboxEntry(key: string): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  const existed = await withStore("readwrite", async (store) => {
+    const existing = await requestResult(store.get(key));
+    if (existing) store.delete(key);
+    return existing != null;
+  });
+  if (existed) broadcast({ type: "discarded", key });
+}
+
+/** Ask the service worker for a Background Sync (no-op where unsupported). */
+export async function requestOutboxSync(): Promise<void> {
+  if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) return;
+  try {
+    const registration = await navigator.serviceWorker.getRegistration();
+    // `sync` is typed by serwist but missing at runtime in Safari / Firefox
+    if (registration && "sync" in registration) {
+      await registration.sync.register(OUTBOX_SYNC_TAG);
+    }
+  } catch {
+    // Background Sync unavailable — the page replays on the `online` event instead
+  }
+}
+
+// ── Replay ───────────────────────────────────────────────────────
+
+function sendEntry(entry: OutboxEntry): Promise<Response> {
+  if (entry.op === "create") {
+    return fetch("/api/forms", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "same-origin",
+      body: JSON.stringify({
+        form_type: entry.formType,
+        form_json: entry.formJson,
+        order_id: entry.orderId,
+        client_request_id: draftClientRequestId(entry.key),
+      }),
+    });
+  }
+  return fetch(`/api/forms/${entry.formId}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    credentials: "same-origin",
+    body: JSON.stringify({
+      form_json: entry.formJson,
+      ...(entry.baseRevision != null && { base_revision: entry.baseRevision }),
+    }),
+  });
+}
+
+/**
+ * After a successful send: delete the entry, unless the user saved again offline
+ * while the request was in flight — then keep the newer draft as an update on top
+ * of the revision just created.
+ */
+async function settleSentEntry(sent: OutboxEntry, form: FormRecord): Promise<void> {
+  await withStore("readwrite", async (store) => {
+    const current = (await requestResult(store.get(sent.key))) as OutboxEntry | undefined;
+    if (!current) return;
+    if (current.updatedAt === sent.updatedAt) {
+      store.delete(sent.key);
+      return;
+    }
+    store.put({
+      ...current,
+      op: "update",
+      formId: form.id,
+      baseRevision: form.revision,
+      attempts: 0,
+    } satisfies OutboxEntry);
+  });
+}
+
+async function markEntry(key: string, patch: Partial<OutboxEntry>): Promise<void> {
+  await withStore("readwrite", async (store) => {
+    const current = (await requestResult(store.get(key))) as OutboxEntry | undefined;
+    if (current) store.put({ ...current, ...patch });
+  });
+}
+
+/**
+ * Send the pending entries in order.
+ * @throws Error while offline or on a 5xx — everything stays queued and the caller
+ *   (Background Sync) retries later
+ */
+async function replayPendingEntries(): Promise<void> {
+  const entries = (await listOutboxEntries()).filter((e) => e.status === "pending");
+  for (const entry of entries) {
+    let response: Response;
+    try {
+      response = await sendEntry(entry);
+    } catch (error: unknown) {
+      // Still offline — keep everything for the next sync
+      throw new Error("Offline outbox replay: server unreachable", { cause: error });
+    }
+    // Session expired: retry after the user logs in again
+    if (response.status === 401) return;
+
+    const body = await response.json().catch(() => ({}));
+    if (response.ok && body?.data) {
+      await settleSentEntry(entry, body.data as FormRecord);
+      broadcast({ type: "synced", key: entry.key, form: body.data as FormRecord });
+    } else if (response.status === 409 && body?.code === "FORM_REVISION_CONFLICT" && body.current) {
+      await markEntry(entry.key, { status: "conflict", conflictCurrent: body.current as FormRecord });
+      broadcast({ type: "conflict", key: entry.key, current: body.current as FormRecord });
+    } else if (response.status >= 500) {
+      // Server trouble — retry on the next sync
+      const error = body?.error ?? `HTTP ${response.status}`;
+      await markEntry(entry.key, { attempts: entry.attempts + 1, lastError: error });
+      throw new Error(`Offline outbox replay: ${error}`);
+    } else {
+      const error = body?.error ?? `HTTP ${response.status}`;
+      await markEntry(entry.key, { status: "failed", attempts: entry.attempts + 1, lastError: error });
+      broadcast({ type: "failed", key: entry.key, error });
+    }
+  }
+}
+
+/**
+ * Send all pending entries in queue order. Serialized across tabs and the service
+ * worker with a Web Lock so the same draft is never sent twice concurrently.
+ * Rejects when entries could not be sent yet (offline, 5xx) — see replayPendingEntries.
+ */
+export async function replayOutbox(): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  const locks = typeof navigator !== "undefined" ? navigator.locks : undefined;
+  if (!locks) {
+    await replayPendingEntries();
+    return;
+  }
+  await locks.request(REPLAY_LOCK, { ifAvailable: true }, async (lock) => {
+    if (lock) await replayPendingEntries();
+  });
+}
@@ -20,11 +20,60 @@ export interface OrderRecord {
   source_raynet_event_id: number | null;
   source_erp_order_id: number | null;
   notes: string | null;
+  /** Signing state of the ADMF contract (latest inSign session) */
+  contract_status?: "UNSIGNED" | "PENDING" | "SIGNED" | "REJECTED";
+  contract_signed_at?: string | null;
+  /** Set when ERP export was allowed without a signed contract */
+  erp_export_override_reason?: string | null;
+  erp_export_override_by?: string | null;
+  erp_export_override_at?: string | null;
+  /** Zaměření from the linked Raynet event, kept in sync by the backend */
+  raynet_scheduled_from?: string | null;
+  raynet_scheduled_till?: string | null;
+  raynet_event_status?: string | null;
+  raynet_synced_at?: string | null;
+  /** Fields Raynet changed while the rep had edited them locally */
+  raynet_sync_conflicts?: RaynetSyncConflict[];
+  /** Customer master record (/customers/[id]); the fields above are this order's snapshot */
+  customer_id?: number | null;
   created_at: string;
   updated_at: string;
   deleted_at: string | null;
 }
 
+/** Order customer fields kept in sync with the Raynet event. */
+export type RaynetSyncedOrderField = "name" | "address" | "city" | "zipcode" | "phone" | "raynet_id";
+
+/** Open conflict between a local edit and a newer Raynet value. */
+export interface RaynetSyncConflict {
+  field: RaynetSyncedOrderField;
+  local: string | number | null;
+  raynet: string | number | null;
+  previous_raynet: string | number | null;
+  detected_at: string;
+}
+
+/** Entry of GET /api/orders/:id/timeline (order_events + Raynet sync log) */
+export interface OrderTimelineEntry {
+  id: string;
+  source: "ORDER_EVENT" | "RAYNET_SYNC";
+  kind: string;
+  order_id: number;
+  form_id: number | null;
+  actor: string | null;
+  status: string | null;
+  payload: Record<string, unknown>;
+  created_at: string;
+}
+
+/** Response for the order timeline */
+export interface OrderTimelineResponse {
+  success: boolean;
+  data?: { entries: OrderTimelineEntry[]; next_before: string | null };
+  error?: string;
+  message?: string;
+}
+
 /**
  * Customer data for creating/updating an order (all optional; null clears reference)
  */
@@ -89,17 +138,21 @@ export interface RaynetEventOrderLinksResponse {
   message?: string;
 }
 
+/** "mine" = own orders; "accessible" = also shared, team and (office / admin) all orders */
+export type OrderListScope = "mine" | "accessible";
+
 /**
  * Get list of orders for the authenticated user
- * @param query - Optional query parameters (page, limit)
+ * @param query - Optional query parameters (page, limit, scope)
  */
 export async function getOrders(
-  query: { page?: number; limit?: number } = {}
+  query: { page?: number; limit?: number; scope?: OrderListScope } = {}
 ): Promise<ListOrdersResponse> {
   try {
     const params = new URLSearchParams();
     if (query.page != null) params.append("page", query.page.toString());
     if (query.limit != null) params.append("limit", query.limit.toString());
+    if (query.scope != null) params.append("scope", query.scope);
     const queryString = params.toString();
     const url = `/api/orders${queryString ? `?${queryString}` : ""}`;
 
@@ -285,3 +338,237 @@ export async function getOrdersByRaynetEventIds(
     };
   }
 }
+
+/**
+ * Get the timeline of an order (newest first).
+ * @param before - ISO timestamp from `next_before` to load older entries
+ */
+export async function getOrderTimeline(
+  orderId: number,
+  before?: string
+): Promise<OrderTimelineResponse> {
+  try {
+    const query = before ? `?before=${encodeURIComponent(before)}` : "";
+    const response = await fetch(`/api/orders/${orderId}/timeline${query}`, {
+      method: "GET",
+      headers: { "Content-Type": "application/json" },
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      return {
+        success: false,
+        error: data.error || "Failed to fetch order timeline",
+        message: data.message,
+      };
+    }
+    return { success: true, data: data.data };
+  } catch (error) {
+    console.error("Error fetching order timeline:", error);
+    return {
+      success: false,
+      error: "Network error. Please check your connection and try again.",
+    };
+  }
+}
+
+/**
+ * Re-read the linked Raynet event and update the order now.
+ */
+export async function syncOrderFromRaynet(orderId: number): Promise<OrderResponse> {
+  try {
+    const response = await fetch(`/api/orders/${orderId}/raynet-sync`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      return {
+        success: false,
+        error: data.error || "Failed to sync order from Raynet",
+        message: data.message,
+      };
+    }
+    return { success: true, data: data.data?.order };
+  } catch (error) {
+    console.error("Error syncing order from Raynet:", error);
+    return {
+      success: false,
+      error: "Network error. Please check your connection and try again.",
+    };
+  }
+}
+
+/**
+ * Resolve a Raynet sync conflict: take the Raynet value or keep the local one.
+ */
+export async function resolveRaynetSyncConflict(
+  orderId: number,
+  field: RaynetSyncedOrderField,
+  use: "raynet" | "local"
+): Promise<OrderResponse> {
+  try {
+    const response = await fetch(`/api/orders/${orderId}/raynet-sync/resolve`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ field, use }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      return {
+        success: false,
+        error: data.error || "Failed to resolve Raynet conflict",
+        message: data.message,
+      };
+    }
+    return { success: true, data: data.data };
+  } catch (error) {
+    console.error("Error resolving Raynet conflict:", error);
+    return {
+      success: false,
+      error: "Network error. Please check your connection and try again.",
+    };
+  }
+}
+
+/** Access granted on a shared order: READ = view only, WRITE = edit */
+export type OrderShareAccess = "READ" | "WRITE";
+
+export interface OrderShareRecord {
+  id: number;
+  order_id: number;
+  user_id: string;
+  access: OrderShareAccess;
+  granted_by: string;
+  created_at: string;
+}
+
+export interface OrderSharesResponse {
+  success: boolean;
+  data?: OrderShareRecord[];
+  error?: string;
+  message?: string;
+}
+
+/**
+ * List users the order is shared with.
+ */
+export async function getOrderShares(orderId: number): Promise<OrderSharesResponse> {
+  try {
+    const response = await fetch(`/api/orders/${orderId}/shares`, {
+      method: "GET",
+      headers: { "Content-Type": "application/json" },
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      return {
+        success: false,
+        error: data.error || "Failed to fetch order shares",
+        message: data.message,
+      };
+    }
+    return { success: true, data: data.data };
+  } catch (error) {
+    console.error("Error fetching order shares:", error);
+    return {
+      success: false,
+      error: "Network error. Please check your connection and try again.",
+    };
+  }
+}
+
+/**
+ * Share the order with another user (or change the access of an existing share).
+ */
+export async function shareOrder(
+  orderId: number,
+  userId: string,
+  access: OrderShareAccess
+): Promise<{ success: boolean; data?: OrderShareRecord; error?: string; message?: string }> {
+  try {
+    const response = await fetch(`/api/orders/${orderId}/shares`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ user_id: userId, access }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      return {
+        success: false,
+        error: data.error || "Failed to share order",
+        message: data.message,
+      };
+    }
+    return { success: true, data: data.data };
+  } catch (error) {
+    console.error("Error sharing order:", error);
+    return {
+      success: false,
+      error: "Network error. Please check your connection and try again.",
+    };
+  }
+}
+
+/**
+ * Stop sharing the order with a user.
+ */
+export async function unshareOrder(
+  orderId: number,
+  userId: string
+): Promise<{ success: boolean; error?: string; message?: string }> {
+  try {
+    const response = await fetch(`/api/orders/${orderId}/shares/${encodeURIComponent(userId)}`, {
+      method: "DELETE",
+      headers: { "Content-Type": "application/json" },
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      return {
+        success: false,
+        error: data.error || "Failed to remove share",
+        message: data.message,
+      };
+    }
+    return { success: true };
+  } catch (error) {
+    console.error("Error removing order share:", error);
+    return {
+      success: false,
+      error: "Network error. Please check your connection and try again.",
+    };
+  }
+}
+
+/**
+ * Hand the order (with its forms) over to another sales rep. Managers, office and admin only.
+ */
+export async function reassignOrder(orderId: number, userId: string): Promise<OrderResponse> {
+  try {
+    const response = await fetch(`/api/orders/${orderId}/reassign`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ user_id: userId }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      return {
+        success: false,
+        error: data.error || "Failed to reassign order",
+        message: data.message,
+      };
+    }
+    return { success: true, data: data.data };
+  } catch (error) {
+    console.error("Error reassigning order:", error);
+    return {
+      success: false,
+      error: "Network error. Please check your connection and try again.",
+    };
+  }
+}
@@ -4,7 +4,7 @@
  */
 
 import { createMainBackendToken } from "./auth-backend";
-import type { OrderRecord, OrdersPaginationInfo } from "./orders-api";
+import type { OrderListScope, OrderRecord, OrdersPaginationInfo } from "./orders-api";
 import type { AdmfPricingTraceV1 } from "@/types/forms/admf.types";
 
 function getBackendUrl(): string {
@@ -24,10 +24,10 @@ export interface ServerOrdersResponse {
 
 /**
  * Fetch orders list from backend (server-side)
- * @param query - Optional page, limit
+ * @param query - Optional page, limit, scope ("mine" | "accessible")
  */
 export async function fetchOrdersServer(
-  query: { page?: number; limit?: number } = {}
+  query: { page?: number; limit?: number; scope?: OrderListScope } = {}
 ): Promise<ServerOrdersResponse> {
   try {
     const authToken = await createMainBackendToken();
@@ -38,6 +38,7 @@ export async function fetchOrdersServer(
     const params = new URLSearchParams();
     if (query.page != null) params.append("page", query.page.toString());
     if (query.limit != null) params.append("limit", query.limit.toString());
+    if (query.scope != null) params.append("scope", query.scope);
     const queryString = params.toString();
     const url = `${getBackendUrl()}/api/orders${queryString ? `?${queryString}` : ""}`;
 
@@ -134,6 +135,9 @@ export interface ExtractedProductLine {
     label: string;
     value: string;
   }>;
+  /** Outside the warranty range of its size_limit_variant (printed as "BEZ ZÁRUKY"). */
+  bezZaruky?: boolean;
+  sizeLimitWarnings?: string[];
   /** Per-row pricing audit from pricing DB at extract time; optional manual_edits added in ADMF UI. */
   pricingTrace?: AdmfPricingTraceV1;
 }
@@ -145,6 +149,8 @@ export interface ServerExtractProductsResponse {
     source_form_ids: number[];
   };
   error?: string;
+  /** Backend error code, e.g. SIZE_OUT_OF_MANUFACTURING_RANGE */
+  code?: string;
 }
 
 /**
@@ -179,7 +185,7 @@ export async function fetchExtractProductsServer(
 
     const data = await response.json();
     if (!response.ok) {
-      return { success: false, error: data.error || "Failed to extract products" };
+      return { success: false, error: data.error || "Failed to extract products", code: data.code };
     }
     return { success: true, data: data.data };
   } catch (error) {
@@ -7,7 +7,8 @@ export type RetentionLogStatus =
   | "SENDING"
   | "SUCCESS"
   | "PARTIAL_SUCCESS"
-  | "FAILED";
+  | "FAILED"
+  | "UNKNOWN";
 
 export interface RetentionStatusLatest {
   id: number;
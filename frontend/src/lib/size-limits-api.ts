@@ -3,6 +3,9 @@
  * Used in custom form to validate "Výrobní šířka" / "Výrobní výška" per row.
  */
 
+import { evaluateSizeLimits, sizeLimitSelectorValues } from "@ovt/pricing-engine";
+import { getPricingBundle } from "@/lib/form-price-preview-api";
+
 export interface SizeLimitsResult {
   mezni_sirka_min: number | null;
   mezni_sirka_max: number | null;
@@ -12,10 +15,10 @@ export interface SizeLimitsResult {
   zarucni_sirka_max: number | null;
   zarucni_vyska_min: number | null;
   zarucni_vyska_max: number | null;
-   mezni_plocha_min: number | null;
-   mezni_plocha_max: number | null;
-   zarucni_plocha_min: number | null;
-   zarucni_plocha_max: number | null;
+  mezni_plocha_min: number | null;
+  mezni_plocha_max: number | null;
+  zarucni_plocha_min: number | null;
+  zarucni_plocha_max: number | null;
   in_manufacturing_range: boolean;
   in_warranty_range: boolean;
 }
@@ -27,8 +30,9 @@ export interface CheckSizeLimitsResponse {
 }
 
 /**
- * Check size limits for a form row. Backend finds matching size_limit_variant and returns
- * ranges + whether width/height are inside manufacturing and warranty.
+ * Check size limits for a form row: matching size_limit_variant, its ranges and whether
+ * width/height are inside manufacturing and warranty. Evaluated on the device from the
+ * product's pricing bundle (works offline); falls back to the backend when no bundle is loaded.
  */
 export async function checkSizeLimits(params: {
   product_pricing_id: string;
@@ -36,6 +40,14 @@ export async function checkSizeLimits(params: {
   height: number;
   row_values: Record<string, string>;
 }): Promise<CheckSizeLimitsResponse> {
+  const bundle = await getPricingBundle(params.product_pricing_id);
+  if (bundle) {
+    const selector = sizeLimitSelectorValues(bundle.price_affecting_enums, params.row_values);
+    return {
+      success: true,
+      data: evaluateSizeLimits(bundle.size_limits ?? [], selector, params.width, params.height),
+    };
+  }
   try {
     const res = await fetch("/api/forms/size-limits", {
       method: "POST",
@@ -0,0 +1,79 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { FormRecord } from "@/lib/forms-api";
+import { getOutboxEntry, subscribeOutbox, type OutboxEntry } from "@/lib/offline-outbox";
+
+export interface FormOutboxHandlers {
+  /** On load: an unsent offline draft exists for this form (newer than the server copy) */
+  onPendingDraft?: (entry: OutboxEntry) => void;
+  /** The queued save was rejected because the form changed on the server */
+  onConflict?: (local: Record<string, unknown>, current: FormRecord) => void;
+  /** The queued save reached the server */
+  onSynced?: (form: FormRecord) => void;
+}
+
+/**
+ * Connect a form editor to its offline outbox entry (see lib/offline-outbox).
+ * @param draftKey - `formDraftKey(id)` in edit mode, `newFormDraftKey()` result in create mode
+ * @returns `queued` — a save of this form is waiting on the device; `lastError` — the
+ *   server refused it permanently (validation etc.)
+ */
+export function useFormOutbox(
+  draftKey: string | null,
+  handlers: FormOutboxHandlers
+): { queued: boolean; lastError: string | null } {
+  const [queued, setQueued] = useState(false);
+  const [lastError, setLastError] = useState<string | null>(null);
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (!draftKey) return;
+    let cancelled = false;
+
+    getOutboxEntry(draftKey)
+      .then((entry) => {
+        if (cancelled || !entry) return;
+        setQueued(true);
+        setLastError(entry.status === "failed" ? entry.lastError : null);
+        if (entry.status === "conflict" && entry.conflictCurrent) {
+          handlersRef.current.onConflict?.(entry.formJson, entry.conflictCurrent);
+        } else {
+          handlersRef.current.onPendingDraft?.(entry);
+        }
+      })
+      .catch((error: unknown) => console.error("Error reading offline draft:", error));
+
+    const unsubscribe = subscribeOutbox((event) => {
+      if (event.key !== draftKey) return;
+      if (event.type === "queued") {
+        setQueued(true);
+        setLastError(null);
+      } else if (event.type === "synced") {
+        setQueued(false);
+        handlersRef.current.onSynced?.(event.form);
+      } else if (event.type === "discarded") {
+        setQueued(false);
+      } else if (event.type === "failed") {
+        setLastError(event.error);
+      } else if (event.type === "conflict") {
+        getOutboxEntry(draftKey)
+          .then((entry) => {
+            if (!cancelled && entry) handlersRef.current.onConflict?.(entry.formJson, event.current);
+          })
+          .catch((error: unknown) => console.error("Error reading offline draft:", error));
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [draftKey]);
+
+  return { queued, lastError };
+}
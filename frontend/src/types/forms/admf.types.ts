@@ -3,6 +3,8 @@
  * Product prices and montáž are stored without VAT; VAT is applied for display and záloha/doplatek.
  */
 
+import type { DimensionRoundingPolicy, GridFit } from "@ovt/pricing-engine";
+
 /** Single price-affecting field used to resolve product price (for display in ADMF). */
 export interface AdmfPriceAffectingField {
   /** Code of the field as used in schema / price_affecting_enums (e.g. "type", "color"). */
@@ -24,7 +26,21 @@ export interface AdmfPricingTraceDimensionsV1 {
   lookup_width_mm: number;
   lookup_height_mm: number;
   used_dimension_snap: boolean;
-  price_key: string;
+  /** Null for `per_m2` pricing (no grid lookup). */
+  price_key: string | null;
+  interpolation_keys?: string[];
+  area_m2?: number;
+  price_per_m2?: number;
+  /** Absent on traces written before per-product rounding policies. */
+  rounding_policy?: DimensionRoundingPolicy;
+  /** Out-of-grid classification; absent on older traces. */
+  grid_fit?: GridFit;
+  grid_bounds?: {
+    min_width_mm: number;
+    max_width_mm: number;
+    min_height_mm: number;
+    max_height_mm: number;
+  };
 }
 
 /** Mirrors backend `AdmfPricingTraceAutomatedV1`. */
@@ -41,6 +57,8 @@ export interface AdmfPricingTraceAutomatedV1 {
   /** True when matched pricing_variant has no dimension grid; `unit_price_grid` is 0, line price from příplatky. */
   surcharge_only?: boolean;
   selector_applied: Record<string, string>;
+  /** Several variants matched (overlapping selectors); the most specific one was used. */
+  selector_warning?: string;
   /** Unit price from grid before quantity, without surcharges; 0 for surcharge-only variants. */
   unit_price_grid: number;
   ks: number;
@@ -99,6 +117,10 @@ export interface AdmfProductRow {
    * Used in UI/PDF for the two price-affecting columns (e.g. typ, barva / rám, lamela).
    */
   priceAffectingFields?: AdmfPriceAffectingField[];
+  /** Size outside the warranty range — sold without warranty, "BEZ ZÁRUKY" on the PDF */
+  bezZaruky?: boolean;
+  /** Size-limit notes from extraction (e.g. bez záruky not confirmed in OVT), shown under the row */
+  sizeLimitWarnings?: string[];
   /** Pricing audit trail — not shown in UI; preserved on save for external consumers. */
   pricingTrace?: AdmfPricingTraceV1;
 }
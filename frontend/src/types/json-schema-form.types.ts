@@ -76,6 +76,11 @@ export interface CatalogFormRow {
   product_pricing_id: string;
   values: Record<string, string | number | boolean>;
   linkGroupId?: string;
+  /**
+   * Rep confirmed the size is sold without warranty (outside `zarucni_*` of the matched
+   * size_limit_variant). Cleared whenever width/height change; ADMF prints "BEZ ZÁRUKY".
+   */
+  bezZarukyAck?: boolean;
 }
 
 export interface Room {
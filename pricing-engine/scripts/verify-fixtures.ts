@@ -0,0 +1,94 @@
+/**
+ * Shared fixture suite for the pricing engine. Each fixtures/*.json holds a product bundle,
+ * a row schema + row values and the expected `pricingTrace.automated` (or error message).
+ *
+ * Here every fixture is priced by the engine from the bundle after a JSON round trip, and the
+ * serialization must equal the expected trace byte for byte. Backend ↔ client parity — the
+ * backend reading the same product from the pricing DB through product-extractors — is
+ * checked on the same fixtures by backend/test/pricing-fixtures.test.ts (`yarn test` there).
+ *
+ * Run with:  yarn test                       (fails on any mismatch)
+ *            yarn verify-fixtures --update   (rewrite expectations after an intended change)
+ */
+
+import { readdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import {
+  buildAutomatedTrace,
+  bundleToRowPricingInputs,
+  priceCustomRow,
+  type AutomatedTraceContext,
+  type ProductPricingBundle,
+} from "../src";
+
+interface PricingFixture {
+  description: string;
+  bundle: ProductPricingBundle;
+  row_schema: Record<string, unknown>;
+  row: Record<string, unknown>;
+  context: AutomatedTraceContext;
+  expected_trace?: unknown;
+  expected_error?: string;
+}
+
+const FIXTURES_DIR = path.resolve(__dirname, "../../fixtures");
+
+/** Serialized trace, or `error: <message>` when the row cannot be priced. */
+function run(fixture: PricingFixture): string {
+  try {
+    const bundle = JSON.parse(JSON.stringify(fixture.bundle)) as ProductPricingBundle;
+    const resolved = priceCustomRow({
+      inputs: bundleToRowPricingInputs(bundle),
+      rowSchema: fixture.row_schema,
+      flatRow: fixture.row,
+      productPricingId: fixture.bundle.product_pricing_id,
+    });
+    return JSON.stringify(buildAutomatedTrace(resolved, fixture.context));
+  } catch (e) {
+    return `error: ${e instanceof Error ? e.message : String(e)}`;
+  }
+}
+
+function expectedOutput(fixture: PricingFixture): string | null {
+  if (fixture.expected_error !== undefined) return `error: ${fixture.expected_error}`;
+  if (fixture.expected_trace !== undefined) return JSON.stringify(fixture.expected_trace);
+  return null;
+}
+
+function main(): void {
+  const update = process.argv.includes("--update");
+  const files = readdirSync(FIXTURES_DIR).filter((f) => f.endsWith(".json")).sort();
+  let failures = 0;
+
+  for (const file of files) {
+    const filePath = path.join(FIXTURES_DIR, file);
+    const fixture = JSON.parse(readFileSync(filePath, "utf-8")) as PricingFixture;
+    const actual = run(fixture);
+
+    if (update) {
+      const next: PricingFixture = { ...fixture };
+      delete next.expected_trace;
+      delete next.expected_error;
+      if (actual.startsWith("error: ")) next.expected_error = actual.slice("error: ".length);
+      else next.expected_trace = JSON.parse(actual);
+      writeFileSync(filePath, `${JSON.stringify(next, null, 2)}\n`);
+      console.log(`↻ ${file}`);
+      continue;
+    }
+
+    const expected = expectedOutput(fixture);
+    if (actual !== expected) {
+      failures++;
+      console.error(`✗ ${file}: ${fixture.description}\n  expected: ${expected}\n  actual:   ${actual}`);
+    } else {
+      console.log(`✓ ${file}`);
+    }
+  }
+
+  if (failures > 0) {
+    console.error(`${failures} of ${files.length} pricing fixtures failed`);
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -0,0 +1,427 @@
+/**
+ * Dimension rounding policies: how a row's width × height becomes a unit price from a
+ * variant's `dimension_pricing`. The policy is configured per product
+ * (`product_pricing.rounding_policy`) because manufacturers' price lists step differently.
+ */
+
+import type {
+  AboveMaxBehaviour,
+  AdmfPricingTraceDimensionsV1,
+  DimensionPricing,
+  DimensionRoundingPolicy,
+  GridFit,
+} from "./types";
+
+/** Pricing tool behaviour before policies were configurable — used when none is stored. */
+export const DEFAULT_DIMENSION_ROUNDING_POLICY: DimensionRoundingPolicy = {
+  mode: "ceil_step",
+  step_mm: 100,
+};
+
+const ROUNDING_MODES = ["ceil_step", "next_grid_up", "nearest", "interpolate", "per_m2"] as const;
+const ABOVE_MAX_BEHAVIOURS: AboveMaxBehaviour[] = ["error", "warning", "extrapolate"];
+
+/**
+ * Why `raw` is not a valid rounding policy, or null when it is (null/undefined = default, valid).
+ * Used to reject bad admin input before it reaches product_pricing.
+ */
+export function dimensionRoundingPolicyError(raw: unknown): string | null {
+  if (raw === null || raw === undefined) return null;
+  if (typeof raw !== "object" || Array.isArray(raw)) return "rounding_policy must be an object";
+  const o = raw as Record<string, unknown>;
+  if (!ROUNDING_MODES.includes(o.mode as (typeof ROUNDING_MODES)[number])) {
+    return `rounding_policy.mode must be one of: ${ROUNDING_MODES.join(", ")}`;
+  }
+  if (o.mode === "ceil_step") {
+    const step = o.step_mm;
+    if (typeof step !== "number" || !Number.isInteger(step) || step <= 0) {
+      return "rounding_policy.step_mm must be a positive integer (mm)";
+    }
+  }
+  if (o.mode === "per_m2" && o.min_area_m2 !== undefined) {
+    const min = o.min_area_m2;
+    if (typeof min !== "number" || !Number.isFinite(min) || min < 0) {
+      return "rounding_policy.min_area_m2 must be a non-negative number";
+    }
+  }
+  if (o.above_max !== undefined && !ABOVE_MAX_BEHAVIOURS.includes(o.above_max as AboveMaxBehaviour)) {
+    return `rounding_policy.above_max must be one of: ${ABOVE_MAX_BEHAVIOURS.join(", ")}`;
+  }
+  return null;
+}
+
+/** Normalize a stored policy (jsonb object or JSON string); invalid or missing → null (= default). */
+export function parseDimensionRoundingPolicy(raw: unknown): DimensionRoundingPolicy | null {
+  let value = raw;
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value) as unknown;
+    } catch {
+      return null;
+    }
+  }
+  if (value === null || value === undefined || dimensionRoundingPolicyError(value) !== null) {
+    return null;
+  }
+  const o = value as Record<string, unknown>;
+  const aboveMax = o.above_max === undefined ? {} : { above_max: o.above_max as AboveMaxBehaviour };
+  switch (o.mode) {
+    case "ceil_step":
+      return { mode: "ceil_step", step_mm: o.step_mm as number, ...aboveMax };
+    case "per_m2":
+      return o.min_area_m2 === undefined
+        ? { mode: "per_m2", ...aboveMax }
+        : { mode: "per_m2", min_area_m2: o.min_area_m2 as number, ...aboveMax };
+    default:
+      return { mode: o.mode as "next_grid_up" | "nearest" | "interpolate", ...aboveMax };
+  }
+}
+
+export function ceilToStep(value: number, stepMm: number): number {
+  return Math.ceil(value / stepMm) * stepMm;
+}
+
+export function ceilTo100(value: number): number {
+  return ceilToStep(value, 100);
+}
+
+/**
+ * Build dimension grid key from width/height.
+ * Note: pricing tool stores prices as prices["height_width"], so we intentionally
+ * flip the order here to match that convention.
+ */
+export function dimensionKey(width: number, height: number): string {
+  // Key format expected by pricing tool: "<height>_<width>"
+  return `${height}_${width}`;
+}
+
+/** Distinct widths and heights present in a price table, ascending. */
+function gridAxes(prices: Record<string, number>): { widths: number[]; heights: number[] } {
+  const widths = new Set<number>();
+  const heights = new Set<number>();
+  for (const key of Object.keys(prices)) {
+    const parts = key.split("_");
+    if (parts.length !== 2) continue;
+    const kh = Number(parts[0]);
+    const kw = Number(parts[1]);
+    if (!Number.isNaN(kh)) heights.add(kh);
+    if (!Number.isNaN(kw)) widths.add(kw);
+  }
+  return {
+    widths: Array.from(widths).sort((a, b) => a - b),
+    heights: Array.from(heights).sort((a, b) => a - b),
+  };
+}
+
+/** Pick the nearest value in sorted array; if tied, use the higher value. */
+function snapToNearest(val: number, sorted: number[]): number {
+  if (val <= sorted[0]) return sorted[0];
+  if (val >= sorted[sorted.length - 1]) return sorted[sorted.length - 1];
+  const i = sorted.findIndex((x) => x >= val);
+  const lo = sorted[i - 1];
+  const hi = sorted[i];
+  const dLo = val - lo;
+  const dHi = hi - val;
+  return dHi <= dLo ? hi : lo;
+}
+
+/** Smallest value ≥ val; above the table maximum → maximum. */
+function snapUp(val: number, sorted: number[]): number {
+  return sorted.find((x) => x >= val) ?? sorted[sorted.length - 1];
+}
+
+/**
+ * Snap width and height independently to the nearest available value in the price table.
+ * Below table minimum → use minimum; above table maximum → use maximum;
+ * between two steps → use the step with the smaller distance (tie: use the higher step).
+ */
+export function clampToPriceTable(
+  w: number,
+  h: number,
+  prices: Record<string, number>
+): { w: number; h: number } {
+  const { widths, heights } = gridAxes(prices);
+  if (widths.length === 0 || heights.length === 0) return { w, h };
+  return { w: snapToNearest(w, widths), h: snapToNearest(h, heights) };
+}
+
+/** One axis of a bilinear lookup: the two grid steps and the point between (or past) them. */
+interface AxisSpan {
+  lo: number;
+  hi: number;
+  at: number;
+}
+
+/** Grid steps enclosing `val` (clamped to the table range); equal when `val` sits on a step. */
+function bracket(val: number, sorted: number[]): AxisSpan {
+  const clamped = Math.min(Math.max(val, sorted[0]), sorted[sorted.length - 1]);
+  const hi = sorted.find((x) => x >= clamped) as number;
+  const lo = [...sorted].reverse().find((x) => x <= clamped) as number;
+  return { lo, hi, at: clamped };
+}
+
+/** Last two grid steps, extended past the maximum to `val` (needs at least two steps). */
+function extrapolationSpan(val: number, sorted: number[]): AxisSpan | null {
+  if (sorted.length < 2) return null;
+  return { lo: sorted[sorted.length - 2], hi: sorted[sorted.length - 1], at: val };
+}
+
+function validPrice(prices: Record<string, number>, key: string): number | null {
+  const cena = prices[key];
+  return typeof cena === "number" && cena >= 0 ? cena : null;
+}
+
+/** Bilinear price over the cells spanned by `w` × `h` (t > 1 extrapolates); unrounded. */
+function bilinear(
+  prices: Record<string, number>,
+  w: AxisSpan,
+  h: AxisSpan,
+  noPrice: (key: string) => Error
+): { price: number; keys: string[] } {
+  const corners = [
+    [h.lo, w.lo],
+    [h.lo, w.hi],
+    [h.hi, w.lo],
+    [h.hi, w.hi],
+  ].map(([ch, cw]) => dimensionKey(cw, ch));
+  const [p00, p01, p10, p11] = corners.map((key) => {
+    const cena = validPrice(prices, key);
+    if (cena === null) throw noPrice(key);
+    return cena;
+  });
+  const tw = w.hi === w.lo ? 0 : (w.at - w.lo) / (w.hi - w.lo);
+  const th = h.hi === h.lo ? 0 : (h.at - h.lo) / (h.hi - h.lo);
+  const low = p00 + (p01 - p00) * tw;
+  const high = p10 + (p11 - p10) * tw;
+  return { price: low + (high - low) * th, keys: Array.from(new Set(corners)) };
+}
+
+/** Unit price for one variant's dimension pricing plus the audit dimensions for the trace. */
+export interface DimensionPriceResult {
+  unitPrice: number;
+  dimensions: AdmfPricingTraceDimensionsV1;
+}
+
+/**
+ * Resolve a unit price from `dimension_pricing` under the given policy. Throws (plain Error)
+ * when the grid has no usable price for the dimensions, `per_m2` has no rate, or the size is
+ * above the grid and the policy says `above_max: "error"`.
+ */
+export function priceDimensions(args: {
+  dimensionPricing: DimensionPricing | null;
+  width: string;
+  height: string;
+  policy: DimensionRoundingPolicy | null | undefined;
+  variantId: string;
+}): DimensionPriceResult {
+  const { dimensionPricing, width, height, variantId } = args;
+  const policy = args.policy ?? DEFAULT_DIMENSION_ROUNDING_POLICY;
+  const inputWidthMm = Math.round(Number(width) || 0);
+  const inputHeightMm = Math.round(Number(height) || 0);
+
+  const base = {
+    raw_width: width,
+    raw_height: height,
+    input_width_mm: inputWidthMm,
+    input_height_mm: inputHeightMm,
+  };
+
+  if (policy.mode === "per_m2") {
+    const rate = dimensionPricing?.price_per_m2;
+    if (typeof rate !== "number" || !Number.isFinite(rate) || rate < 0) {
+      throw new Error(`Variant ${variantId} has no dimension_pricing.price_per_m2.`);
+    }
+    const rawArea = (inputWidthMm / 1000) * (inputHeightMm / 1000);
+    const minArea = policy.min_area_m2 ?? 0;
+    const area = Math.round(Math.max(rawArea, minArea) * 10000) / 10000;
+    return {
+      unitPrice: Math.round(area * rate),
+      dimensions: {
+        ...base,
+        width_mm_ceiled: inputWidthMm,
+        height_mm_ceiled: inputHeightMm,
+        lookup_width_mm: inputWidthMm,
+        lookup_height_mm: inputHeightMm,
+        used_dimension_snap: false,
+        price_key: null,
+        area_m2: area,
+        price_per_m2: rate,
+        rounding_policy: policy,
+        grid_fit: rawArea < minArea ? "snapped_below_min" : "exact",
+      },
+    };
+  }
+
+  const prices = dimensionPricing?.prices;
+  if (!prices || typeof prices !== "object") {
+    throw new Error(`Variant ${variantId} has no dimension_pricing.prices.`);
+  }
+  const noPrice = (key: string): Error =>
+    new Error(`No price for dimensions ${width}×${height} (key "${key}") in variant ${variantId}.`);
+
+  const roundedW =
+    policy.mode === "ceil_step" ? ceilToStep(inputWidthMm, policy.step_mm) : inputWidthMm;
+  const roundedH =
+    policy.mode === "ceil_step" ? ceilToStep(inputHeightMm, policy.step_mm) : inputHeightMm;
+  const { widths, heights } = gridAxes(prices);
+  const hasGrid = widths.length > 0 && heights.length > 0;
+
+  const gridBounds = hasGrid
+    ? {
+        min_width_mm: widths[0],
+        max_width_mm: widths[widths.length - 1],
+        min_height_mm: heights[0],
+        max_height_mm: heights[heights.length - 1],
+      }
+    : undefined;
+  const aboveMax =
+    !!gridBounds && (roundedW > gridBounds.max_width_mm || roundedH > gridBounds.max_height_mm);
+  const belowMin =
+    !!gridBounds && (roundedW < gridBounds.min_width_mm || roundedH < gridBounds.min_height_mm);
+  const aboveMaxBehaviour = policy.above_max ?? "warning";
+
+  if (aboveMax && gridBounds && aboveMaxBehaviour === "error") {
+    throw new Error(
+      `Dimensions ${width}×${height} exceed the price table maximum ` +
+        `${gridBounds.max_width_mm}×${gridBounds.max_height_mm} mm in variant ${variantId} ` +
+        "(product does not allow sizes above the price table)."
+    );
+  }
+
+  const classify = (lookupW: number, lookupH: number, inGridFit: GridFit): GridFit => {
+    if (aboveMax) return "snapped_above_max";
+    if (belowMin) return "snapped_below_min";
+    if (inGridFit === "interpolated") return inGridFit;
+    if (lookupW === inputWidthMm && lookupH === inputHeightMm) return "exact";
+    return inGridFit;
+  };
+
+  if (aboveMax && gridBounds && aboveMaxBehaviour === "extrapolate") {
+    // In-range axis: same step the policy would pick; above-max axis: past the last two steps.
+    const snap = policy.mode === "next_grid_up" ? snapUp : snapToNearest;
+    const span = (val: number, sorted: number[], max: number): AxisSpan => {
+      if (val > max) {
+        const ext = extrapolationSpan(val, sorted);
+        if (!ext) {
+          throw new Error(
+            `Cannot extrapolate ${width}×${height} in variant ${variantId}: ` +
+              "the price table needs at least two steps per dimension."
+          );
+        }
+        return ext;
+      }
+      if (policy.mode === "interpolate") return bracket(val, sorted);
+      const step = sorted.includes(val) ? val : snap(val, sorted);
+      return { lo: step, hi: step, at: step };
+    };
+    const w = span(roundedW, widths, gridBounds.max_width_mm);
+    const h = span(roundedH, heights, gridBounds.max_height_mm);
+    const { price, keys } = bilinear(prices, w, h, noPrice);
+    // Never quote an oversized blind below the largest cell it extends.
+    const edge = validPrice(prices, dimensionKey(Math.min(w.at, w.hi), Math.min(h.at, h.hi))) ?? 0;
+    return {
+      unitPrice: Math.round(Math.max(price, edge)),
+      dimensions: {
+        ...base,
+        width_mm_ceiled: roundedW,
+        height_mm_ceiled: roundedH,
+        lookup_width_mm: w.at,
+        lookup_height_mm: h.at,
+        used_dimension_snap: w.at !== roundedW || h.at !== roundedH,
+        price_key: dimensionKey(w.at, h.at),
+        interpolation_keys: keys,
+        rounding_policy: policy,
+        grid_fit: "extrapolated_above_max",
+        grid_bounds: gridBounds,
+      },
+    };
+  }
+
+  if (policy.mode === "interpolate") {
+    if (!hasGrid) throw noPrice(dimensionKey(roundedW, roundedH));
+    const w = bracket(roundedW, widths);
+    const h = bracket(roundedH, heights);
+    const { price, keys } = bilinear(prices, w, h, noPrice);
+    return {
+      unitPrice: Math.round(price),
+      dimensions: {
+        ...base,
+        width_mm_ceiled: roundedW,
+        height_mm_ceiled: roundedH,
+        lookup_width_mm: w.at,
+        lookup_height_mm: h.at,
+        used_dimension_snap: w.at !== roundedW || h.at !== roundedH,
+        price_key: dimensionKey(w.at, h.at),
+        interpolation_keys: keys,
+        rounding_policy: policy,
+        grid_fit: classify(w.at, h.at, keys.length > 1 ? "interpolated" : "rounded"),
+        grid_bounds: gridBounds,
+      },
+    };
+  }
+
+  let lookupW = roundedW;
+  let lookupH = roundedH;
+  let key = dimensionKey(lookupW, lookupH);
+  let cena = validPrice(prices, key);
+
+  if (cena === null && hasGrid) {
+    const snap = policy.mode === "next_grid_up" ? snapUp : snapToNearest;
+    lookupW = snap(roundedW, widths);
+    lookupH = snap(roundedH, heights);
+    key = dimensionKey(lookupW, lookupH);
+    cena = validPrice(prices, key);
+  }
+
+  if (cena === null) throw noPrice(key);
+
+  return {
+    unitPrice: cena,
+    dimensions: {
+      ...base,
+      width_mm_ceiled: roundedW,
+      height_mm_ceiled: roundedH,
+      lookup_width_mm: lookupW,
+      lookup_height_mm: lookupH,
+      used_dimension_snap: lookupW !== roundedW || lookupH !== roundedH,
+      price_key: key,
+      rounding_policy: policy,
+      grid_fit: classify(lookupW, lookupH, "rounded"),
+      grid_bounds: gridBounds,
+    },
+  };
+}
+
+/**
+ * Rep-facing note for a lookup outside the price table (null when the size fits the grid).
+ * Shown in the form price preview and the ADMF product table before the customer signs.
+ */
+export function describeGridFit(
+  dimensions: AdmfPricingTraceDimensionsV1 | null | undefined
+): string | null {
+  if (!dimensions?.grid_fit) return null;
+  const size = `${dimensions.input_width_mm}×${dimensions.input_height_mm} mm`;
+  const b = dimensions.grid_bounds;
+  switch (dimensions.grid_fit) {
+    case "snapped_above_max":
+      return (
+        `Rozměr ${size} přesahuje ceník${b ? ` (max ${b.max_width_mm}×${b.max_height_mm} mm)` : ""}` +
+        " — naceněno za největší rozměr v ceníku, cena je pravděpodobně podhodnocená."
+      );
+    case "extrapolated_above_max":
+      return (
+        `Rozměr ${size} přesahuje ceník${b ? ` (max ${b.max_width_mm}×${b.max_height_mm} mm)` : ""}` +
+        " — cena dopočtena extrapolací, ověřte ji u výrobce."
+      );
+    case "snapped_below_min":
+      if (dimensions.area_m2 !== undefined) {
+        return `Plocha pod minimem ceníku — účtováno ${dimensions.area_m2} m².`;
+      }
+      return (
+        `Rozměr ${size} je pod minimem ceníku${b ? ` (min ${b.min_width_mm}×${b.min_height_mm} mm)` : ""}` +
+        " — naceněno za nejmenší rozměr v ceníku."
+      );
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,363 @@
+/**
+ * Form-level price preview: every room × row of a custom form priced independently,
+ * then the ADMF-shaped totals (bulk sleva, montáž tier, DPH, OVT/MNG slevy).
+ * The backend runs it on pricing-DB data, the OVT panel on cached bundles — same numbers.
+ */
+
+import type { GridFit, SurchargeLine } from "./types";
+import { describeGridFit } from "./dimension-rounding";
+import { flattenRowForExtract } from "./row-schema";
+import { priceCustomRow, type RowPricingInputs } from "./row-pricing";
+import { computeAdmfCelkemBezDph, computeAdmfCelkemSDph } from "./order-totals";
+
+// ---------------------------------------------------------------------------
+// Custom form layout: `{ schema, product_schemas?, data: { rooms: [{ name, rows }] } }`
+// ---------------------------------------------------------------------------
+
+export interface CustomFormRoom {
+  name?: string;
+  rows?: Array<Record<string, unknown>>;
+}
+
+export interface CustomFormLayout {
+  schemaTop: Record<string, unknown>;
+  data: Record<string, unknown>;
+  productSchemas: Record<string, Record<string, unknown>>;
+  rooms: CustomFormRoom[];
+}
+
+/** Null when the form has no schema/data or no rooms array. */
+export function readCustomFormLayout(formJson: Record<string, unknown>): CustomFormLayout | null {
+  const schemaTop = formJson?.schema as Record<string, unknown> | undefined;
+  const data = formJson?.data as Record<string, unknown> | undefined;
+  if (!schemaTop || !data) return null;
+
+  const productSchemasRaw = formJson.product_schemas as Record<string, Record<string, unknown>> | undefined;
+  const productSchemas: Record<string, Record<string, unknown>> =
+    productSchemasRaw && typeof productSchemasRaw === "object" ? productSchemasRaw : {};
+
+  const rooms = data?.rooms as CustomFormRoom[] | undefined;
+  if (!Array.isArray(rooms)) return null;
+  return { schemaTop, data, productSchemas, rooms };
+}
+
+/** Row's catalog product: row-level id, else the legacy form-level one. */
+export function rowProductPricingId(
+  layout: CustomFormLayout,
+  rawRow: Record<string, unknown>,
+  flatRow: Record<string, unknown>
+): string | undefined {
+  const rowPricingIdRaw =
+    (rawRow.product_pricing_id as string) ||
+    (typeof flatRow.product_pricing_id === "string" ? flatRow.product_pricing_id : undefined);
+  const productPricingId =
+    rowPricingIdRaw?.trim() ||
+    (layout.schemaTop._product_pricing_id as string) ||
+    (layout.data.product_pricing_id as string);
+  return productPricingId && typeof productPricingId === "string" ? productPricingId : undefined;
+}
+
+/** `product_schemas[id]`, falling back to the top-level schema for legacy single-product forms. */
+export function rowSchemaFor(
+  layout: CustomFormLayout,
+  productPricingId: string
+): Record<string, unknown> | undefined {
+  return (
+    layout.productSchemas[productPricingId] ??
+    (productPricingId === layout.schemaTop._product_pricing_id ? layout.schemaTop : undefined)
+  );
+}
+
+/** Distinct catalog products referenced by the form's rows (what to load before pricing). */
+export function collectFormProductPricingIds(formJson: Record<string, unknown>): string[] {
+  const layout = readCustomFormLayout(formJson);
+  if (!layout) return [];
+  const ids = new Set<string>();
+  for (const room of layout.rooms) {
+    if (!Array.isArray(room?.rows)) continue;
+    for (const rawRow of room.rows) {
+      const id = rowProductPricingId(layout, rawRow, flattenRowForExtract(rawRow));
+      if (id) ids.add(id);
+    }
+  }
+  return Array.from(ids);
+}
+
+// ---------------------------------------------------------------------------
+// Lines
+// ---------------------------------------------------------------------------
+
+export interface FormPreviewLine {
+  rowKey: string;          // "<roomIndex>:<rowIndex>"
+  roomName?: string;
+  produkt: string;
+  ks: number;
+  cena: number;            // line total bez DPH (after surcharges, before sleva)
+  sleva: number;           // %
+  cenaPoSleve: number;     // line total bez DPH after sleva
+  surcharges?: SurchargeLine[];
+  /** Set when the size falls outside the price table (see `describeGridFit`). */
+  grid_fit?: GridFit;
+  grid_warning?: string;
+}
+
+export interface FormPreviewUnpriced {
+  rowKey: string;
+  roomName?: string;
+  reason: string;
+}
+
+export interface FormPreviewResult {
+  lines: FormPreviewLine[];
+  unpriced: FormPreviewUnpriced[];
+}
+
+export function productPricingNotFoundMessage(productPricingId: string): string {
+  return `Product pricing not found for id "${productPricingId}". It may have been removed or is not available for OVT.`;
+}
+
+/**
+ * Iterate the form's rooms × rows and price each row independently. A row that
+ * fails to resolve (missing dimensions, missing required price-affecting field,
+ * unknown product, …) lands in `unpriced` instead of throwing — so the UI can
+ * show "we priced N rows, M still need attention" rather than a single
+ * blocked screen.
+ *
+ * @param lookup - pricing inputs per product_pricing_id; null = not available
+ * @param missingProductReason - `unpriced` reason when `lookup` returns null
+ */
+export function previewCustomFormPricing(
+  formJson: Record<string, unknown>,
+  lookup: (productPricingId: string) => RowPricingInputs | null,
+  missingProductReason: (productPricingId: string) => string = productPricingNotFoundMessage
+): FormPreviewResult {
+  const layout = readCustomFormLayout(formJson);
+  if (!layout) return { lines: [], unpriced: [] };
+
+  const lines: FormPreviewLine[] = [];
+  const unpriced: FormPreviewUnpriced[] = [];
+
+  for (let roomIndex = 0; roomIndex < layout.rooms.length; roomIndex++) {
+    const room = layout.rooms[roomIndex];
+    const roomName = typeof room?.name === "string" && room.name.trim() ? room.name.trim() : undefined;
+    const rows = room?.rows;
+    if (!Array.isArray(rows)) continue;
+
+    for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
+      const rowKey = `${roomIndex}:${rowIndex}`;
+      const rawRow = rows[rowIndex];
+
+      try {
+        const flatRow = flattenRowForExtract(rawRow);
+        const productPricingId = rowProductPricingId(layout, rawRow, flatRow);
+        if (!productPricingId) {
+          unpriced.push({ rowKey, roomName, reason: "Řádek nemá produkt z katalogu (chybí product_pricing_id)" });
+          continue;
+        }
+        const rowSchema = rowSchemaFor(layout, productPricingId);
+        if (!rowSchema) {
+          unpriced.push({ rowKey, roomName, reason: `Chybí product_schemas pro "${productPricingId}"` });
+          continue;
+        }
+        const inputs = lookup(productPricingId);
+        if (!inputs) {
+          unpriced.push({ rowKey, roomName, reason: missingProductReason(productPricingId) });
+          continue;
+        }
+
+        const resolved = priceCustomRow({ inputs, rowSchema, flatRow, productPricingId });
+        const gridWarning = describeGridFit(resolved.dimensions);
+
+        lines.push({
+          rowKey,
+          roomName,
+          produkt: resolved.produkt,
+          ks: resolved.ks,
+          cena: resolved.cena,
+          sleva: resolved.sleva,
+          cenaPoSleve: resolved.cenaPoSleve,
+          surcharges: resolved.surcharges.length > 0 ? resolved.surcharges : undefined,
+          ...(gridWarning && { grid_fit: resolved.dimensions?.grid_fit, grid_warning: gridWarning }),
+        });
+      } catch (e) {
+        const reason = e instanceof Error ? e.message : "Nepodařilo se vypočítat cenu";
+        unpriced.push({ rowKey, roomName, reason });
+      }
+    }
+  }
+
+  return { lines, unpriced };
+}
+
+// ---------------------------------------------------------------------------
+// Totals
+// ---------------------------------------------------------------------------
+
+/** Office-managed montáž tier (admf_montaz_tiers). */
+export interface MontazTier {
+  id: string;
+  ordinal: number;
+  minProductsBezDph: number;
+  maxProductsBezDph: number | null;
+  montazBezDph: number;
+  note: string | null;
+}
+
+/** The part of the office ADMF defaults the preview totals depend on. */
+export interface FormPreviewDefaults {
+  vatRateDefaultPercent: number;
+  montazFallbackBezDph: number;
+  bulkSlevaDefaultPercent: number;
+  montazTiers: MontazTier[];
+  fromOfficePortal: boolean;
+}
+
+/**
+ * Resolve the montáž value for a given products subtotal (bez DPH). If a tier
+ * matches, returns its value with `source = 'tier'`; otherwise the fallback
+ * with `source = 'fallback'`.
+ *
+ * Tier picking: lowest `ordinal` among tiers where `min ≤ x AND (max IS NULL OR x < max)`.
+ */
+export function resolveMontaz(
+  defaults: Pick<FormPreviewDefaults, "montazTiers" | "montazFallbackBezDph">,
+  productsBezDph: number
+): { bezDph: number; source: "tier" | "fallback"; tierId?: string; tierOrdinal?: number } {
+  const x = Number.isFinite(productsBezDph) && productsBezDph >= 0 ? productsBezDph : 0;
+  const matches = defaults.montazTiers.filter(
+    (t) => t.minProductsBezDph <= x && (t.maxProductsBezDph == null || x < t.maxProductsBezDph)
+  );
+  if (matches.length === 0) {
+    return { bezDph: defaults.montazFallbackBezDph, source: "fallback" };
+  }
+  const winner = matches.reduce((a, b) => (a.ordinal <= b.ordinal ? a : b));
+  return {
+    bezDph: winner.montazBezDph,
+    source: "tier",
+    tierId: winner.id,
+    tierOrdinal: winner.ordinal,
+  };
+}
+
+/** Preview parameters as sent by the panel; anything missing falls back to defaults / 0. */
+export interface FormPreviewParametersInput {
+  vatRatePercent?: number;
+  /** OVT discount, s DPH (customer-visible amount) */
+  ovtSlevaSDph?: number;
+  mngSlevaActive?: boolean;
+  /** MNG discount, s DPH */
+  mngSlevaSDph?: number;
+  /** Omit / null = resolve from tiers */
+  montazOverrideBezDph?: number | null;
+  /** % applied to every product row's `sleva` (mirrors ADMF's "Nastavit slevu všem"). */
+  bulkSlevaPercent?: number;
+}
+
+export interface FormPricePreview {
+  lines: FormPreviewLine[];
+  unpriced: FormPreviewUnpriced[];
+  productsBezDph: number;
+  montaz: {
+    bezDph: number;
+    source: "tier" | "fallback" | "override";
+    tierOrdinal?: number;
+  };
+  ovtSlevaSDph: number;
+  mngSlevaActive: boolean;
+  mngSlevaSDph: number;
+  bulkSlevaPercent: number;
+  vatRatePercent: number;
+  vatAmount: number;
+  totalBezDph: number;
+  totalSDph: number;
+  defaultsSnapshot: {
+    fromOfficePortal: boolean;
+    montazFallbackBezDph: number;
+    tierCount: number;
+  };
+}
+
+/** ADMF-shaped totals for previewed lines — what generating the ADMF would produce. */
+export function computeFormPricePreview(
+  preview: FormPreviewResult,
+  params: FormPreviewParametersInput,
+  defaults: FormPreviewDefaults
+): FormPricePreview {
+  const vatRatePercent = Number.isFinite(params.vatRatePercent)
+    ? Number(params.vatRatePercent)
+    : defaults.vatRateDefaultPercent;
+  const ovtSlevaSDph = Math.max(0, Math.round(Number(params.ovtSlevaSDph) || 0));
+  const mngSlevaActive = !!params.mngSlevaActive;
+  const mngSlevaSDph = Math.max(0, Math.round(Number(params.mngSlevaSDph) || 0));
+  const bulkSlevaPercent = (() => {
+    const n = Number(params.bulkSlevaPercent);
+    if (!Number.isFinite(n)) return defaults.bulkSlevaDefaultPercent;
+    return Math.min(100, Math.max(0, Math.round(n)));
+  })();
+
+  // Apply the bulk sleva to every preview line — mirrors what the ADMF's
+  // "Nastavit slevu všem" button does (sets `sleva` on every productRow and
+  // recomputes `cenaPoSleve = round(cena * (1 - sleva/100))`).
+  const linesWithBulkSleva = preview.lines.map((l) => {
+    if (bulkSlevaPercent === 0) return l;
+    const newCenaPoSleve = Math.round(l.cena * (1 - bulkSlevaPercent / 100));
+    return { ...l, sleva: bulkSlevaPercent, cenaPoSleve: newCenaPoSleve };
+  });
+
+  const productsBezDph = linesWithBulkSleva.reduce((sum, l) => sum + l.cenaPoSleve, 0);
+
+  let montazBezDph: number;
+  let montazSource: "tier" | "fallback" | "override";
+  let montazTierOrdinal: number | undefined;
+  if (
+    params.montazOverrideBezDph !== undefined &&
+    params.montazOverrideBezDph !== null &&
+    Number.isFinite(Number(params.montazOverrideBezDph))
+  ) {
+    montazBezDph = Math.max(0, Math.round(Number(params.montazOverrideBezDph)));
+    montazSource = "override";
+  } else {
+    const r = resolveMontaz(defaults, productsBezDph);
+    montazBezDph = r.bezDph;
+    montazSource = r.source;
+    montazTierOrdinal = r.tierOrdinal;
+  }
+
+  // Use the office canonical formulas (order-totals.ts) by handing it a
+  // synthetic form_json — guarantees parity with what office computes for ADMF.
+  const syntheticForm: Record<string, unknown> = {
+    // `cenaPoSleve` is the line total (extract already multiplies unit × ks).
+    // `sumProductRowsBezDph` post-fix sums `cenaPoSleve` directly without ks,
+    // so the `ks` field on the synthetic row isn't read; we still set it to 1
+    // for documentation.
+    productRows: linesWithBulkSleva.map((l) => ({ cenaPoSleve: l.cenaPoSleve, ks: 1 })),
+    vatRate: vatRatePercent,
+    montazCenaZpusob: "manual",
+    montazCenaBezDph: montazBezDph,
+    ovtSlevaSDph,
+    mngSleva: mngSlevaActive,
+    mngSlevaSDph,
+  };
+  const totalBezDph = computeAdmfCelkemBezDph(syntheticForm);
+  const totalSDph = computeAdmfCelkemSDph(syntheticForm);
+
+  return {
+    lines: linesWithBulkSleva,
+    unpriced: preview.unpriced,
+    productsBezDph,
+    montaz: { bezDph: montazBezDph, source: montazSource, tierOrdinal: montazTierOrdinal },
+    ovtSlevaSDph,
+    mngSlevaActive,
+    mngSlevaSDph: mngSlevaActive ? mngSlevaSDph : 0,
+    bulkSlevaPercent,
+    vatRatePercent,
+    vatAmount: totalSDph - totalBezDph,
+    totalBezDph,
+    totalSDph,
+    defaultsSnapshot: {
+      fromOfficePortal: defaults.fromOfficePortal,
+      montazFallbackBezDph: defaults.montazFallbackBezDph,
+      tierCount: defaults.montazTiers.length,
+    },
+  };
+}
@@ -0,0 +1,16 @@
+/**
+ * @ovt/pricing-engine — pure price resolution shared by the Express backend and the
+ * Next.js frontend. No I/O: callers load product_pricing / pricing_variant /
+ * size_limit_variant rows (pricing DB or a cached `ProductPricingBundle`) and pass them in.
+ */
+
+export * from "./types";
+export * from "./dimension-rounding";
+export * from "./selector-match";
+export * from "./variant-grid";
+export * from "./surcharges";
+export * from "./row-schema";
+export * from "./row-pricing";
+export * from "./size-limits";
+export * from "./order-totals";
+export * from "./form-preview";
@@ -0,0 +1,272 @@
+/**
+ * Pricing of one custom-form row: selector → variant → grid price × ks → surcharges,
+ * and the ADMF `pricingTrace.automated` snapshot built from it.
+ */
+
+import type {
+  AdmfPricingTraceAutomatedV1,
+  PricingVariant,
+  ProductPricingBundle,
+  ProductPricingForResolve,
+  SurchargeLine,
+} from "./types";
+import {
+  displayNameFromRowSchema,
+  findPropertyByCode,
+  getDimension,
+  getDisplayValueFromEnum,
+  getPropertyLabel,
+  HEIGHT_KEYS,
+  WIDTH_KEYS,
+} from "./row-schema";
+import { computeSurchargeForProperty } from "./surcharges";
+import { resolveUnitPriceFromVariants } from "./variant-grid";
+
+/** product_pricing + its pricing_variant rows — all a row needs to be priced. */
+export interface RowPricingInputs {
+  product: ProductPricingForResolve;
+  variants: PricingVariant[];
+}
+
+export interface ResolvedCustomRowPricing {
+  productName: string;
+  dimStr: string;
+  produkt: string;
+  ks: number;
+  selectorValues: Record<string, string>;
+  /** Overlapping selectors: more than one variant matched (see selector-match.ts). */
+  selector_warning?: string;
+  unit_price_grid: number;
+  pricing_variant_id: string;
+  dimensions: AdmfPricingTraceAutomatedV1["dimensions"];
+  surcharge_only?: boolean;
+  line_base: number;
+  surcharge_total: number;
+  surcharges: SurchargeLine[];
+  surcharge_warnings: string[];
+  cena: number;
+  sleva: number;
+  cenaPoSleve: number;
+}
+
+/** Field that selected the pricing variant, with schema label and enum display value (for ADMF). */
+export interface PriceAffectingFieldValue {
+  code: string;
+  label: string;
+  value: string;
+}
+
+export function bundleToRowPricingInputs(bundle: ProductPricingBundle): RowPricingInputs {
+  return {
+    product: {
+      id: bundle.product_pricing_id,
+      price_affecting_enums: bundle.price_affecting_enums,
+      surcharges: bundle.surcharges,
+      rounding_policy: bundle.rounding_policy ?? null,
+    },
+    variants: bundle.variants,
+  };
+}
+
+/** Row quantity: ks / kus / count / quantity, positive integer, default 1. */
+export function rowQuantity(flatRow: Record<string, unknown>): number {
+  const ksRaw = flatRow.ks ?? flatRow.kus ?? flatRow.count ?? flatRow.quantity;
+  const n = Number(ksRaw);
+  if (!Number.isFinite(n) || n <= 0) return 1;
+  return Math.round(n);
+}
+
+/**
+ * Build selector values from form row for price_affecting_enums.
+ * All enum codes must be present in the row; otherwise throws (price cannot be resolved).
+ */
+export function getSelectorValuesFromRow(
+  row: Record<string, unknown>,
+  priceAffectingEnums: string[],
+  productName: string,
+  dimStr: string
+): Record<string, string> {
+  const out: Record<string, string> = {};
+  const missing: string[] = [];
+  for (const key of priceAffectingEnums) {
+    const v = row[key];
+    if (v !== undefined && v !== null && v !== "") {
+      out[key] = String(v).trim();
+    } else {
+      missing.push(key);
+    }
+  }
+  if (missing.length > 0) {
+    throw new Error(
+      `Cannot resolve price for "${productName}" (${dimStr}): missing price-affecting fields: ${missing.join(", ")}. ` +
+        "Fill all variant options (e.g. type, color) in the form row."
+    );
+  }
+  return out;
+}
+
+/**
+ * Price one custom-form row from pre-loaded pricing inputs. Throws (plain Error) when the
+ * row cannot be priced — missing price-affecting fields, no matching variant, no grid price.
+ */
+export function priceCustomRow(args: {
+  inputs: RowPricingInputs;
+  rowSchema: Record<string, unknown>;
+  flatRow: Record<string, unknown>;
+  productPricingId: string;
+}): ResolvedCustomRowPricing {
+  const { inputs, rowSchema, flatRow, productPricingId } = args;
+  const { product, variants } = inputs;
+
+  const productName = displayNameFromRowSchema(rowSchema);
+  const width = getDimension(flatRow, WIDTH_KEYS);
+  const height = getDimension(flatRow, HEIGHT_KEYS);
+  const dimStr = [width, height].filter(Boolean).join("×") || "—";
+  const produkt = productName;
+  const ks = rowQuantity(flatRow);
+
+  const priceAffectingEnums = product.price_affecting_enums || [];
+  const selectorValues = getSelectorValuesFromRow(flatRow, priceAffectingEnums, productName, dimStr);
+  const surchargeConfigMap = (product.surcharges as Record<string, unknown> | null) ?? null;
+  const surchargeProperties = (rowSchema.surcharge_properties as string[] | undefined) ?? [];
+
+  const {
+    unitPrice: unitCenaBase,
+    pricing_variant_id,
+    dimensions,
+    surcharge_only: variantSurchargeOnly,
+    selector_warning,
+  } = resolveUnitPriceFromVariants({
+    variants,
+    selectorValues,
+    width,
+    height,
+    productPricingIdForErrors: productPricingId,
+    roundingPolicy: product.rounding_policy,
+  });
+
+  const cenaBase = unitCenaBase * ks;
+  let surchargeTotal = 0;
+  const surchargeItems: SurchargeLine[] = [];
+  const surchargeWarnings: string[] = [];
+  if (surchargeConfigMap && surchargeProperties.length > 0) {
+    const widthMm = Number(width);
+    const heightMm = Number(height);
+    for (const code of surchargeProperties) {
+      const cfg = surchargeConfigMap[code] as Record<string, unknown> | undefined;
+      if (!cfg) {
+        surchargeWarnings.push(
+          `Příplatek pro pole "${code}" není nakonfigurován v ceníku (surcharges).`
+        );
+        continue;
+      }
+      const propDef = findPropertyByCode(rowSchema, code);
+      if (!propDef) {
+        surchargeWarnings.push(
+          `Příplatek pro pole "${code}" byl nalezen v ceníku, ale pole v JSON schématu chybí.`
+        );
+      }
+      const rawValue = flatRow[code];
+      const currentBaseBeforeSurcharge = cenaBase + surchargeTotal;
+      const amount = computeSurchargeForProperty({
+        cfg,
+        propDef,
+        rawValue,
+        widthMm,
+        heightMm,
+        ks,
+        basePrice: currentBaseBeforeSurcharge,
+      });
+      if (amount !== 0) {
+        surchargeTotal += amount;
+        surchargeItems.push({
+          code,
+          label: (propDef?.Name as string | undefined) ?? code,
+          amount,
+        });
+      }
+    }
+  }
+
+  const cenaWithSurcharges = cenaBase + surchargeTotal;
+  const sleva = 0;
+  const cenaPoSleve = Math.round(cenaWithSurcharges * (1 - sleva / 100));
+
+  return {
+    productName,
+    dimStr,
+    produkt,
+    ks,
+    selectorValues,
+    ...(selector_warning && { selector_warning }),
+    unit_price_grid: unitCenaBase,
+    pricing_variant_id,
+    dimensions,
+    ...(variantSurchargeOnly && { surcharge_only: true }),
+    line_base: cenaBase,
+    surcharge_total: surchargeTotal,
+    surcharges: surchargeItems,
+    surcharge_warnings: surchargeWarnings,
+    cena: cenaWithSurcharges,
+    sleva,
+    cenaPoSleve,
+  };
+}
+
+/** Where a priced row came from; `resolved_at` is passed in so the trace is reproducible. */
+export interface AutomatedTraceContext {
+  resolved_at: string;
+  product_pricing_id: string;
+  source_form_id: number;
+  room_name?: string;
+  room_index: number;
+  row_index: number;
+}
+
+/**
+ * The one place `AdmfPricingTraceAutomatedV1` is assembled. Key order is part of the
+ * contract: backend and client must serialize byte-identical traces (see fixtures/).
+ */
+export function buildAutomatedTrace(
+  resolved: ResolvedCustomRowPricing,
+  context: AutomatedTraceContext
+): AdmfPricingTraceAutomatedV1 {
+  return {
+    resolved_at: context.resolved_at,
+    product_pricing_id: context.product_pricing_id,
+    source_form_id: context.source_form_id,
+    room_name: context.room_name,
+    room_index: context.room_index,
+    row_index: context.row_index,
+    dimensions: resolved.dimensions,
+    pricing_variant_id: resolved.pricing_variant_id,
+    ...(resolved.surcharge_only && { surcharge_only: true }),
+    selector_applied: { ...resolved.selectorValues },
+    ...(resolved.selector_warning && { selector_warning: resolved.selector_warning }),
+    unit_price_grid: resolved.unit_price_grid,
+    ks: resolved.ks,
+    line_base: resolved.line_base,
+    surcharge_total: resolved.surcharge_total,
+    surcharges: resolved.surcharges.length > 0 ? resolved.surcharges : undefined,
+    surcharge_warnings: resolved.surcharge_warnings.length > 0 ? resolved.surcharge_warnings : undefined,
+    cena: resolved.cena,
+    sleva: resolved.sleva,
+    cenaPoSleve: resolved.cenaPoSleve,
+  };
+}
+
+/** Labels and display values of the price-affecting fields of a row (ADMF columns). */
+export function describePriceAffectingFields(
+  priceAffectingEnums: string[],
+  rowSchema: Record<string, unknown>,
+  flatRow: Record<string, unknown>
+): PriceAffectingFieldValue[] {
+  return priceAffectingEnums.map((code) => {
+    const propDef = findPropertyByCode(rowSchema, code);
+    return {
+      code,
+      label: getPropertyLabel(propDef, code),
+      value: getDisplayValueFromEnum(propDef, flatRow[code]),
+    };
+  });
+}
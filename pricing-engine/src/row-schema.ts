@@ -0,0 +1,101 @@
+/**
+ * Reading custom-form rows and their product schema (ovt_export_json snapshot):
+ * dimensions, property definitions, display labels.
+ */
+
+/** Possible row property codes for width/height (order of preference) */
+export const WIDTH_KEYS = ["ovl_sirka", "width", "Sirka", "sirka", "šířka"];
+export const HEIGHT_KEYS = ["ovl_vyska", "height", "Vyska", "vyska", "výška"];
+
+export function getDimension(row: Record<string, unknown>, keys: string[]): string {
+  for (const k of keys) {
+    const v = row[k];
+    if (v !== undefined && v !== null && v !== "") return String(v).trim();
+  }
+  return "";
+}
+
+/** Get section properties array from schema (zahlavi, form_body, zapati) */
+function getSectionProperties(schemaSection: unknown): Array<Record<string, unknown>> {
+  const sec = schemaSection as { Properties?: unknown[] } | undefined;
+  if (!sec || !Array.isArray(sec.Properties)) return [];
+  return sec.Properties as Array<Record<string, unknown>>;
+}
+
+/** Find property definition by Code across all sections (zahlavi, form_body, zapati) */
+export function findPropertyByCode(schema: Record<string, unknown>, code: string): Record<string, unknown> | null {
+  const allSections = [
+    getSectionProperties(schema.zahlavi),
+    getSectionProperties(schema.form_body),
+    getSectionProperties(schema.zapati),
+  ];
+  for (const props of allSections) {
+    const found = props.find((p) => (p.Code as string) === code);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Resolve a human-friendly label for a schema property.
+ * Falls back to the technical code when no name/title is available.
+ */
+export function getPropertyLabel(propDef: Record<string, unknown> | null, code: string): string {
+  if (!propDef) return code;
+  const name = (propDef.Name as string | undefined)?.trim();
+  if (name) return name;
+  const title = (propDef.Title as string | undefined)?.trim();
+  if (title) return title;
+  return code;
+}
+
+/**
+ * Resolve a human-friendly display value for a property based on schema enum metadata.
+ * For non-enum or when metadata is missing, falls back to the raw stringified value.
+ */
+export function getDisplayValueFromEnum(
+  propDef: Record<string, unknown> | null,
+  rawValue: unknown
+): string {
+  const rawStr = rawValue != null ? String(rawValue).trim() : "";
+  if (!propDef || !rawStr) return rawStr;
+
+  const dataType = propDef.DataType as string | undefined;
+  if (dataType !== "enum") return rawStr;
+
+  const enumValues = (propDef.EnumValues as Array<{ Code?: string; Name?: string }> | undefined) ?? [];
+  if (!Array.isArray(enumValues) || enumValues.length === 0) return rawStr;
+
+  const match = enumValues.find((item) => String(item.Code) === rawStr);
+  if (!match) return rawStr;
+
+  const name = (match.Name as string | undefined)?.trim();
+  return name || rawStr;
+}
+
+/** Human label for one row’s product (mirrors frontend `resolveProductNameFromPayload`). */
+export function displayNameFromRowSchema(rowSchema: Record<string, unknown>): string {
+  const pick = (v: unknown): string => {
+    if (typeof v === "string" && v.trim().length > 0) return v.trim();
+    return "";
+  };
+  const fb = rowSchema.form_body as { Name?: string } | undefined;
+  const zh = rowSchema.zahlavi as { Name?: string } | undefined;
+  const zp = rowSchema.zapati as { Name?: string } | undefined;
+  const code = typeof rowSchema.product_code === "string" ? rowSchema.product_code.trim() : "";
+  return pick(fb?.Name) || pick(zh?.Name) || pick(zp?.Name) || (code || "Vlastní produkt");
+}
+
+/**
+ * Flatten a persisted row: supports new `{ product_pricing_id, values }` or legacy flat row object.
+ */
+export function flattenRowForExtract(row: Record<string, unknown>): Record<string, unknown> {
+  const values = row.values;
+  if (values && typeof values === "object" && !Array.isArray(values)) {
+    const v = values as Record<string, unknown>;
+    const out: Record<string, unknown> = { ...v };
+    if (row.linkGroupId !== undefined) out.linkGroupId = row.linkGroupId;
+    return out;
+  }
+  return row;
+}
@@ -0,0 +1,179 @@
+/**
+ * Selector matching for pricing_variant and size_limit_variant (same selector shape:
+ * enum code → allowed values). A row matches a variant when, for every selector value
+ * of the row, the variant's list for that code contains it.
+ *
+ * Several variants can match when selectors overlap. The winner is the most specific
+ * one — fewest value combinations over the row's codes — then the lowest id, so the
+ * result no longer depends on the order the pricing DB returns rows in.
+ */
+
+export interface SelectorVariantLike {
+  id: string;
+  selector: Record<string, string[]>;
+}
+
+/** One selector value that kept a variant from matching. */
+export interface SelectorBlock {
+  key: string;
+  value: string;
+  /** Values the variant allows for `key`; empty when the variant has no such key. */
+  allowed: string[];
+}
+
+export interface SelectorNearMiss {
+  variant_id: string;
+  blocked_by: SelectorBlock[];
+}
+
+export interface SelectorMatchResult<T> {
+  variant: T | null;
+  /** All matching variant ids, winner first. */
+  matched_ids: string[];
+  ambiguous: boolean;
+  /** Set when more than one variant matched: which one won and why. */
+  warning?: string;
+  /** When nothing matched: closest variants (fewest blocking values), closest first. */
+  near_misses: SelectorNearMiss[];
+}
+
+/** Two variants that a single row could match at once. */
+export interface SelectorOverlap {
+  variant_ids: [string, string];
+  /** Per selector code: the values both variants allow. */
+  overlap: Record<string, string[]>;
+  /** Variant a row in the overlap resolves to (specificity rule). */
+  winner_id: string;
+}
+
+const DEFAULT_NEAR_MISSES = 3;
+
+function blockedBy(selector: Record<string, string[]>, selectorValues: Record<string, string>): SelectorBlock[] {
+  const out: SelectorBlock[] = [];
+  for (const [key, raw] of Object.entries(selectorValues)) {
+    const value = String(raw);
+    const allowed = selector[key];
+    if (!Array.isArray(allowed) || !allowed.includes(value)) {
+      out.push({ key, value, allowed: Array.isArray(allowed) ? allowed.map(String) : [] });
+    }
+  }
+  return out;
+}
+
+/** Number of value combinations the variant accepts over `keys` (smaller = more specific). */
+export function selectorBreadth(selector: Record<string, string[]>, keys: string[]): number {
+  let breadth = 1;
+  for (const key of keys) {
+    const allowed = selector[key];
+    breadth *= Array.isArray(allowed) ? Math.max(1, allowed.length) : 1;
+  }
+  return breadth;
+}
+
+function compareSpecificity<T extends SelectorVariantLike>(a: T, b: T, keys: string[]): number {
+  const diff = selectorBreadth(a.selector, keys) - selectorBreadth(b.selector, keys);
+  if (diff !== 0) return diff;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+function describeBlock(block: SelectorBlock): string {
+  return block.allowed.length === 0
+    ? `${block.key} "${block.value}" (variant has no ${block.key})`
+    : `${block.key} "${block.value}" not in [${block.allowed.join(", ")}]`;
+}
+
+/** "v1: color "red" not in [blue]; v2: …" — for no-match error messages. */
+export function describeNearMisses(nearMisses: SelectorNearMiss[]): string {
+  return nearMisses
+    .map((m) => `${m.variant_id}: ${m.blocked_by.map(describeBlock).join(", ")}`)
+    .join("; ");
+}
+
+/**
+ * Match a row's selector values against variants: the winning variant (specificity rule),
+ * every match when selectors overlap, and the closest misses when nothing matches.
+ */
+export function matchVariantSelector<T extends SelectorVariantLike>(
+  variants: T[],
+  selectorValues: Record<string, string>,
+  opts?: { maxNearMisses?: number }
+): SelectorMatchResult<T> {
+  const keys = Object.keys(selectorValues);
+  const matches: T[] = [];
+  const misses: SelectorNearMiss[] = [];
+  for (const variant of variants) {
+    const blocks = blockedBy(variant.selector ?? {}, selectorValues);
+    if (blocks.length === 0) matches.push(variant);
+    else misses.push({ variant_id: variant.id, blocked_by: blocks });
+  }
+
+  if (matches.length === 0) {
+    misses.sort(
+      (a, b) =>
+        a.blocked_by.length - b.blocked_by.length || (a.variant_id < b.variant_id ? -1 : a.variant_id > b.variant_id ? 1 : 0)
+    );
+    return {
+      variant: null,
+      matched_ids: [],
+      ambiguous: false,
+      near_misses: misses.slice(0, opts?.maxNearMisses ?? DEFAULT_NEAR_MISSES),
+    };
+  }
+
+  matches.sort((a, b) => compareSpecificity(a, b, keys));
+  const winner = matches[0];
+  const ambiguous = matches.length > 1;
+  return {
+    variant: winner,
+    matched_ids: matches.map((v) => v.id),
+    ambiguous,
+    ...(ambiguous && {
+      warning:
+        `Selector ${JSON.stringify(selectorValues)} matches ${matches.length} variants ` +
+        `(${matches.map((v) => v.id).join(", ")}); using the most specific one, ${winner.id}.`,
+    }),
+    near_misses: [],
+  };
+}
+
+/**
+ * Pairs of variants whose selectors overlap over `keys` (the product's price_affecting_enums):
+ * some row would match both. A variant missing one of the keys never matches, so it cannot
+ * overlap either.
+ */
+export function findSelectorOverlaps<T extends SelectorVariantLike>(
+  variants: T[],
+  keys: string[]
+): SelectorOverlap[] {
+  const out: SelectorOverlap[] = [];
+  for (let i = 0; i < variants.length; i++) {
+    for (let j = i + 1; j < variants.length; j++) {
+      const a = variants[i];
+      const b = variants[j];
+      const overlap: Record<string, string[]> = {};
+      let overlaps = true;
+      for (const key of keys) {
+        const allowedA = a.selector?.[key];
+        const allowedB = b.selector?.[key];
+        if (!Array.isArray(allowedA) || !Array.isArray(allowedB)) {
+          overlaps = false;
+          break;
+        }
+        const shared = allowedA.map(String).filter((v) => allowedB.map(String).includes(v));
+        if (shared.length === 0) {
+          overlaps = false;
+          break;
+        }
+        overlap[key] = shared;
+      }
+      if (!overlaps) continue;
+      const [first, second] = [a, b].sort((x, y) => compareSpecificity(x, y, keys));
+      out.push({
+        variant_ids: [first.id, second.id],
+        overlap,
+        winner_id: first.id,
+      });
+    }
+  }
+  return out;
+}
@@ -0,0 +1,172 @@
+/**
+ * Manufacturing / warranty range check against size_limit_variant rows.
+ * Matches variant by selector (same as pricing_variant).
+ */
+
+import { getDimension, HEIGHT_KEYS, WIDTH_KEYS } from "./row-schema";
+import type { SizeLimitVariant } from "./types";
+import { findMatchingVariant } from "./variant-grid";
+
+export interface ResolveSizeLimitsResult {
+  mezni_sirka_min: number | null;
+  mezni_sirka_max: number | null;
+  mezni_vyska_min: number | null;
+  mezni_vyska_max: number | null;
+  zarucni_sirka_min: number | null;
+  zarucni_sirka_max: number | null;
+  zarucni_vyska_min: number | null;
+  zarucni_vyska_max: number | null;
+  mezni_plocha_min: number | null;
+  mezni_plocha_max: number | null;
+  zarucni_plocha_min: number | null;
+  zarucni_plocha_max: number | null;
+  in_manufacturing_range: boolean;
+  in_warranty_range: boolean;
+}
+
+/** Which range a row falls out of; manufacturing wins when both apply. */
+export type SizeLimitViolation = "manufacturing" | "warranty";
+
+/** No known limits: everything is inside both ranges. */
+export function unrestrictedSizeLimits(): ResolveSizeLimitsResult {
+  return {
+    mezni_sirka_min: null,
+    mezni_sirka_max: null,
+    mezni_vyska_min: null,
+    mezni_vyska_max: null,
+    zarucni_sirka_min: null,
+    zarucni_sirka_max: null,
+    zarucni_vyska_min: null,
+    zarucni_vyska_max: null,
+    mezni_plocha_min: null,
+    mezni_plocha_max: null,
+    zarucni_plocha_min: null,
+    zarucni_plocha_max: null,
+    in_manufacturing_range: true,
+    in_warranty_range: true,
+  };
+}
+
+function toNum(v: unknown): number | null {
+  if (v == null) return null;
+  const n = Number(v);
+  return Number.isNaN(n) ? null : n;
+}
+
+/**
+ * Find the size_limit_variant for the selector and check width/height against its
+ * manufacturing and warranty ranges. No matching variant → unrestricted.
+ */
+export function evaluateSizeLimits(
+  variants: SizeLimitVariant[],
+  selectorValues: Record<string, string>,
+  width: number,
+  height: number
+): ResolveSizeLimitsResult {
+  const variant = findMatchingVariant(variants, selectorValues);
+  if (!variant) return unrestrictedSizeLimits();
+
+  const mwMin = toNum(variant.mezni_sirka_min);
+  const mwMax = toNum(variant.mezni_sirka_max);
+  const mhMin = toNum(variant.mezni_vyska_min);
+  const mhMax = toNum(variant.mezni_vyska_max);
+  const zwMin = toNum(variant.zarucni_sirka_min);
+  const zwMax = toNum(variant.zarucni_sirka_max);
+  const zhMin = toNum(variant.zarucni_vyska_min);
+  const zhMax = toNum(variant.zarucni_vyska_max);
+  const mpMin = toNum(variant.mezni_plocha_min);
+  const mpMax = toNum(variant.mezni_plocha_max);
+  const zpMin = toNum(variant.zarucni_plocha_min);
+  const zpMax = toNum(variant.zarucni_plocha_max);
+
+  const areaM2 = (width * height) / 1_000_000;
+
+  let inManufacturing = true;
+  if (mwMin != null && mwMax != null && mhMin != null && mhMax != null) {
+    inManufacturing =
+      width >= mwMin && width <= mwMax && height >= mhMin && height <= mhMax;
+    if (inManufacturing && mpMin != null && mpMax != null) {
+      inManufacturing = areaM2 >= mpMin && areaM2 <= mpMax;
+    }
+  }
+
+  let inWarranty = true;
+  if (zwMin != null && zwMax != null && zhMin != null && zhMax != null) {
+    inWarranty =
+      width >= zwMin && width <= zwMax && height >= zhMin && height <= zhMax;
+    if (inWarranty && zpMin != null && zpMax != null) {
+      inWarranty = areaM2 >= zpMin && areaM2 <= zpMax;
+    }
+  }
+
+  return {
+    mezni_sirka_min: mwMin,
+    mezni_sirka_max: mwMax,
+    mezni_vyska_min: mhMin,
+    mezni_vyska_max: mhMax,
+    zarucni_sirka_min: zwMin,
+    zarucni_sirka_max: zwMax,
+    zarucni_vyska_min: zhMin,
+    zarucni_vyska_max: zhMax,
+    mezni_plocha_min: mpMin,
+    mezni_plocha_max: mpMax,
+    zarucni_plocha_min: zpMin,
+    zarucni_plocha_max: zpMax,
+    in_manufacturing_range: inManufacturing,
+    in_warranty_range: inWarranty,
+  };
+}
+
+/**
+ * Selector for size_limit_variant from row values. Unlike pricing, missing
+ * price-affecting fields are simply left out (the row may still be in progress).
+ */
+export function sizeLimitSelectorValues(
+  priceAffectingEnums: string[] | null | undefined,
+  rowValues: Record<string, unknown>
+): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const key of priceAffectingEnums ?? []) {
+    const v = rowValues[key];
+    if (v !== undefined && v !== null && String(v).trim() !== "") {
+      out[key] = String(v).trim();
+    }
+  }
+  return out;
+}
+
+/**
+ * Size limits for one flattened custom-form row (width/height read by WIDTH_KEYS /
+ * HEIGHT_KEYS). Null when the row has no positive width and height yet.
+ */
+export function evaluateRowSizeLimits(
+  variants: SizeLimitVariant[],
+  priceAffectingEnums: string[] | null | undefined,
+  flatRow: Record<string, unknown>
+): ResolveSizeLimitsResult | null {
+  const width = Number(getDimension(flatRow, WIDTH_KEYS));
+  const height = Number(getDimension(flatRow, HEIGHT_KEYS));
+  if (!(width > 0) || !(height > 0)) return null;
+  return evaluateSizeLimits(variants, sizeLimitSelectorValues(priceAffectingEnums, flatRow), width, height);
+}
+
+export function sizeLimitViolation(result: ResolveSizeLimitsResult | null | undefined): SizeLimitViolation | null {
+  if (!result) return null;
+  if (!result.in_manufacturing_range) return "manufacturing";
+  if (!result.in_warranty_range) return "warranty";
+  return null;
+}
+
+function rangeLabel(min: number | null, max: number | null): string {
+  return `${min ?? "?"}–${max ?? "?"}`;
+}
+
+/** Czech note for the rep (OVT row, ADMF), null when the size is inside both ranges. */
+export function describeSizeLimitViolation(result: ResolveSizeLimitsResult | null | undefined): string | null {
+  const violation = sizeLimitViolation(result);
+  if (!result || !violation) return null;
+  if (violation === "manufacturing") {
+    return `Rozměr je mimo výrobu (${rangeLabel(result.mezni_sirka_min, result.mezni_sirka_max)} × ${rangeLabel(result.mezni_vyska_min, result.mezni_vyska_max)} mm).`;
+  }
+  return `Rozměr je mimo záruční rozsah (${rangeLabel(result.zarucni_sirka_min, result.zarucni_sirka_max)} × ${rangeLabel(result.zarucni_vyska_min, result.zarucni_vyska_max)} mm) — výrobek bude bez záruky.`;
+}
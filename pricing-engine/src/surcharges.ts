@@ -0,0 +1,72 @@
+/**
+ * Surcharge evaluation for one property (product_pricing.surcharges config × row value).
+ */
+
+/** Compute surcharge for one property based on its config, value, dimensions and quantity. */
+export function computeSurchargeForProperty(args: {
+  cfg: Record<string, unknown>;
+  propDef: Record<string, unknown> | null;
+  rawValue: unknown;
+  widthMm: number;
+  heightMm: number;
+  ks: number;
+  /**
+   * Base price used for percent surcharges.
+   * Interpreted as the current line base before applying this surcharge.
+   */
+  basePrice: number;
+}): number {
+  const { cfg, propDef, rawValue, widthMm, heightMm, ks, basePrice } = args;
+  if (!cfg || !propDef) return 0;
+
+  const type = cfg.type as string | undefined;
+  const dataType = propDef.DataType as string | undefined;
+  const basisFrom = (basis: unknown, amount: unknown): number => {
+    if (typeof amount !== "number" || amount === 0) return 0;
+    const b = basis as string | undefined;
+    if (b === "percent_base") {
+      if (!Number.isFinite(basePrice)) return 0;
+      return basePrice * (amount / 100);
+    }
+    if (b === "flat") return amount;
+    if (b === "per_piece") return amount * (ks || 1);
+    if (b === "per_m2") {
+      const areaM2 = (widthMm * heightMm) / 1_000_000;
+      if (!Number.isFinite(areaM2) || areaM2 <= 0) return 0;
+      return amount * areaM2;
+    }
+    if (b === "per_width") return amount * widthMm;
+    if (b === "per_height") return amount * heightMm;
+    return 0;
+  };
+
+  if (type === "numeric" && dataType === "numeric") {
+    const amount = cfg.amount as number | undefined;
+    const onlyWhen = cfg.only_when_values as number[] | undefined;
+    const valNum = Number(rawValue);
+    if (Number.isNaN(valNum)) return 0;
+    if (Array.isArray(onlyWhen) && onlyWhen.length > 0 && !onlyWhen.includes(valNum)) {
+      return 0;
+    }
+    return basisFrom(cfg.basis, amount);
+  }
+
+  if (type === "boolean" && dataType === "boolean") {
+    const boolVal = Boolean(rawValue);
+    const branch = boolVal ? (cfg.price_if_true as Record<string, unknown> | null | undefined)
+                           : (cfg.price_if_false as Record<string, unknown> | null | undefined);
+    if (!branch) return 0;
+    return basisFrom(branch.basis, branch.amount);
+  }
+
+  if (type === "enum" && dataType === "enum") {
+    const currentCode = rawValue != null ? String(rawValue) : "";
+    if (!currentCode) return 0;
+    const perValue = cfg.per_value as Record<string, { basis?: string; amount?: number }> | undefined;
+    const valueCfg = perValue ? perValue[currentCode] : undefined;
+    if (!valueCfg || typeof valueCfg.amount !== "number") return 0;
+    return basisFrom(valueCfg.basis, valueCfg.amount);
+  }
+
+  return 0;
+}
@@ -0,0 +1,201 @@
+/**
+ * Types shared by the backend (pricing DB reads, ADMF extraction) and the OVT
+ * frontend (offline price preview). Everything here is plain JSON — a
+ * `ProductPricingBundle` travels over HTTP and sits in the service-worker cache.
+ */
+
+/**
+ * How row width/height map onto a variant's `dimension_pricing` (product_pricing.rounding_policy).
+ * Missing / null = `DEFAULT_DIMENSION_ROUNDING_POLICY` (ceil to 100 mm, then nearest grid step).
+ *
+ * - `ceil_step`    — ceil each dimension to `step_mm`, exact grid cell or nearest step (tie: higher)
+ * - `next_grid_up` — smallest grid step ≥ the dimension ("always round up to the next row")
+ * - `nearest`      — nearest grid step to the raw dimension (tie: higher)
+ * - `interpolate`  — bilinear between the surrounding grid cells, rounded to whole Kč
+ * - `per_m2`       — area × the variant's `dimension_pricing.price_per_m2`, no grid lookup
+ *
+ * `above_max` decides what happens when a dimension is larger than the biggest grid step
+ * (grid modes only; default `warning`).
+ */
+export type DimensionRoundingPolicy = (
+  | { mode: "ceil_step"; step_mm: number }
+  | { mode: "next_grid_up" }
+  | { mode: "nearest" }
+  | { mode: "interpolate" }
+  | { mode: "per_m2"; min_area_m2?: number }
+) & { above_max?: AboveMaxBehaviour };
+
+/**
+ * Dimension above the price table maximum:
+ * - `error`       — row cannot be priced
+ * - `warning`     — priced at the largest grid step, flagged as `snapped_above_max`
+ * - `extrapolate` — linear extrapolation from the last two grid steps, flagged as `extrapolated_above_max`
+ */
+export type AboveMaxBehaviour = "error" | "warning" | "extrapolate";
+
+/**
+ * How the row's dimensions fit the price table:
+ * - `exact`                  — dimensions are a grid cell as entered
+ * - `rounded`                — rounded / snapped to a cell inside the grid range
+ * - `interpolated`           — between cells (`interpolate` policy)
+ * - `snapped_below_min`      — smaller than the grid (or `per_m2` minimum area); priced at the minimum
+ * - `snapped_above_max`      — larger than the grid; priced at the maximum cell (likely under-quoted)
+ * - `extrapolated_above_max` — larger than the grid; price extrapolated beyond the last cells
+ */
+export type GridFit =
+  | "exact"
+  | "rounded"
+  | "interpolated"
+  | "snapped_below_min"
+  | "snapped_above_max"
+  | "extrapolated_above_max";
+
+/** pricing_variant.dimension_pricing: `<height>_<width>` grid and/or a per-m² rate. */
+export interface DimensionPricing {
+  prices?: Record<string, number>;
+  /** Kč per m²; used only by the `per_m2` rounding policy. */
+  price_per_m2?: number;
+}
+
+/** Single pricing_variant row (selector + dimension_pricing for matching and price lookup) */
+export interface PricingVariant {
+  id: string;
+  selector: Record<string, string[]>;
+  dimension_pricing: DimensionPricing | null;
+  /** When true, this variant has no dimension grid — combinations are priced purely from surcharges. */
+  surcharge_only: boolean;
+}
+
+/** Single size_limit_variant row for manufacturing/warranty range check */
+export interface SizeLimitVariant {
+  id: string;
+  selector: Record<string, string[]>;
+  mezni_sirka_min: number | null;
+  mezni_sirka_max: number | null;
+  mezni_vyska_min: number | null;
+  mezni_vyska_max: number | null;
+  zarucni_sirka_min: number | null;
+  zarucni_sirka_max: number | null;
+  zarucni_vyska_min: number | null;
+  zarucni_vyska_max: number | null;
+  mezni_plocha_min: number | null;
+  mezni_plocha_max: number | null;
+  zarucni_plocha_min: number | null;
+  zarucni_plocha_max: number | null;
+}
+
+/** Product pricing row for price resolution (price_affecting_enums + surcharges) */
+export interface ProductPricingForResolve {
+  id: string;
+  price_affecting_enums: string[];
+  /** Optional surcharge configuration per property (from product_pricing.surcharges) */
+  surcharges?: Record<string, unknown> | null;
+  /** product_pricing.rounding_policy; null = default policy. */
+  rounding_policy?: DimensionRoundingPolicy | null;
+}
+
+/**
+ * Everything needed to price one catalog product without the pricing DB:
+ * served by `GET /api/forms/pricing/:id/bundle`, cached on the device.
+ */
+export interface ProductPricingBundle {
+  bundle_version: 1;
+  product_pricing_id: string;
+  price_affecting_enums: string[];
+  surcharges: Record<string, unknown> | null;
+  /** Absent on bundles cached before rounding policies existed — treated as the default. */
+  rounding_policy?: DimensionRoundingPolicy | null;
+  variants: PricingVariant[];
+  size_limits: SizeLimitVariant[];
+  /** When the backend assembled the bundle (ISO); lets the client show its age. */
+  generated_at: string;
+}
+
+/** One applied surcharge on a priced line. */
+export interface SurchargeLine {
+  code: string;
+  label?: string;
+  amount: number;
+}
+
+/** Dimension math used for pricing_variant grid lookup (stored on ADMF for audit). */
+export interface AdmfPricingTraceDimensionsV1 {
+  /** Raw width string from the výrobní row (before numeric parsing). */
+  raw_width: string;
+  /** Raw height string from the výrobní row. */
+  raw_height: string;
+  /** Parsed width in mm (rounded), before the policy's step rounding. */
+  input_width_mm: number;
+  /** Parsed height in mm (rounded), before the policy's step rounding. */
+  input_height_mm: number;
+  /** Width after `ceil_step` rounding; equals input for the other policies. */
+  width_mm_ceiled: number;
+  /** Height after `ceil_step` rounding; equals input for the other policies. */
+  height_mm_ceiled: number;
+  /** Width used for `prices` key lookup (may equal ceiled or snapped; clamped to the grid for `interpolate`). */
+  lookup_width_mm: number;
+  /** Height used for `prices` key lookup. */
+  lookup_height_mm: number;
+  /** True when lookup dimensions differ from ceiled (grid snap / clamp). */
+  used_dimension_snap: boolean;
+  /**
+   * Key into `dimension_pricing.prices` (`<height>_<width>`). For `interpolate` the key of the
+   * lookup point (may not exist in the grid); null for `per_m2`.
+   */
+  price_key: string | null;
+  /** `interpolate` / extrapolation only: distinct grid cells the price was computed from. */
+  interpolation_keys?: string[];
+  /** `per_m2` only: billed area (after `min_area_m2`), 4 decimals. */
+  area_m2?: number;
+  /** `per_m2` only: rate from the variant's `dimension_pricing.price_per_m2`. */
+  price_per_m2?: number;
+  /** Policy the dimensions were resolved with (absent on traces written before policies existed). */
+  rounding_policy?: DimensionRoundingPolicy;
+  /** Classification of the lookup (absent on older traces). */
+  grid_fit?: GridFit;
+  /** Smallest / largest width and height in the price table (grid policies only). */
+  grid_bounds?: {
+    min_width_mm: number;
+    max_width_mm: number;
+    min_height_mm: number;
+    max_height_mm: number;
+  };
+}
+
+/**
+ * Pricing resolution snapshot (ADMF `pricingTrace.automated`).
+ * Written at extract-products time; not shown in OVT UI — carried in form_json for downstream tools.
+ * Built only by `buildAutomatedTrace` so backend and client serialize it identically.
+ */
+export interface AdmfPricingTraceAutomatedV1 {
+  resolved_at: string;
+  product_pricing_id: string;
+  /** Custom form id this line was extracted from. */
+  source_form_id: number;
+  /** Room label from výrobní form data when present. */
+  room_name?: string;
+  room_index: number;
+  row_index: number;
+  /** Null for surcharge-only variants (no dimension grid). */
+  dimensions?: AdmfPricingTraceDimensionsV1 | null;
+  pricing_variant_id: string;
+  /** When true, matched variant is surcharge-only (no dimension grid, unit_price_grid is 0). */
+  surcharge_only?: boolean;
+  /** Selector field codes → raw values used to match the variant. */
+  selector_applied: Record<string, string>;
+  /** Set when several variants matched `selector_applied`; names the one used (most specific). */
+  selector_warning?: string;
+  /** Unit price from dimension grid (before quantity), without surcharges. 0 for surcharge-only. */
+  unit_price_grid: number;
+  ks: number;
+  /** `unit_price_grid * ks` before surcharges. */
+  line_base: number;
+  /** Sum of surcharge amounts for this line. */
+  surcharge_total: number;
+  surcharges?: SurchargeLine[];
+  surcharge_warnings?: string[];
+  /** Line totals after surcharges (sleva 0 at extraction). */
+  cena: number;
+  sleva: number;
+  cenaPoSleve: number;
+}
@@ -0,0 +1,91 @@
+/**
+ * pricing_variant matching and unit price resolution (dimension math: dimension-rounding.ts).
+ * Pure: callers pass variants loaded from the pricing DB (backend) or from a cached bundle (client).
+ */
+
+import { priceDimensions } from "./dimension-rounding";
+import { describeNearMisses, matchVariantSelector, type SelectorVariantLike } from "./selector-match";
+import type { AdmfPricingTraceDimensionsV1, DimensionRoundingPolicy, PricingVariant } from "./types";
+
+/**
+ * Find variant whose selector matches the given selector values.
+ * For each key in selectorValues, variant.selector[key] must contain selectorValues[key];
+ * overlapping variants resolve by specificity (see selector-match.ts).
+ * Shared by pricing_variant and size_limit_variant (same selector shape).
+ */
+export function findMatchingVariant<T extends SelectorVariantLike>(
+  variants: T[],
+  selectorValues: Record<string, string>
+): T | null {
+  return matchVariantSelector(variants, selectorValues).variant;
+}
+
+/** Result of grid lookup: unit price plus audit dimensions. */
+export interface ResolvePriceDetailedResult {
+  unitPrice: number;
+  pricing_variant_id: string;
+  /** Null for surcharge-only variants (no dimension grid). */
+  dimensions: AdmfPricingTraceDimensionsV1 | null;
+  /** When true, matched variant is surcharge-only (no dimension grid). */
+  surcharge_only?: boolean;
+  /** Set when several variants matched the selector (overlapping selectors). */
+  selector_warning?: string;
+}
+
+/**
+ * Resolve unit price from pre-fetched pricing data (no DB I/O). The admin
+ * preview endpoints use this so they can apply unsaved overrides on the
+ * fetched product/variants before resolving.
+ */
+export function resolveUnitPriceFromVariants(args: {
+  variants: PricingVariant[];
+  selectorValues: Record<string, string>;
+  width: string;
+  height: string;
+  productPricingIdForErrors?: string;
+  /** product_pricing.rounding_policy; null/undefined = default (ceil to 100 mm, nearest step). */
+  roundingPolicy?: DimensionRoundingPolicy | null;
+}): ResolvePriceDetailedResult {
+  const { variants, selectorValues, width, height } = args;
+  const productLabel = args.productPricingIdForErrors ?? "<unknown>";
+
+  if (variants.length === 0) {
+    throw new Error(`No pricing variants found for product_pricing_id "${productLabel}".`);
+  }
+
+  const match = matchVariantSelector(variants, selectorValues);
+  const variant = match.variant;
+  if (!variant) {
+    const selStr = JSON.stringify(selectorValues);
+    throw new Error(
+      `No pricing variant matches selector ${selStr} for product_pricing_id "${productLabel}". ` +
+        `Closest: ${describeNearMisses(match.near_misses)}. ` +
+        "Check that the form row has values for all price_affecting_enums."
+    );
+  }
+
+  if (variant.surcharge_only) {
+    return {
+      unitPrice: 0,
+      pricing_variant_id: variant.id,
+      dimensions: null,
+      surcharge_only: true,
+      ...(match.warning && { selector_warning: match.warning }),
+    };
+  }
+
+  const { unitPrice, dimensions } = priceDimensions({
+    dimensionPricing: variant.dimension_pricing,
+    width,
+    height,
+    policy: args.roundingPolicy,
+    variantId: variant.id,
+  });
+
+  return {
+    unitPrice,
+    pricing_variant_id: variant.id,
+    dimensions,
+    ...(match.warning && { selector_warning: match.warning }),
+  };
+}